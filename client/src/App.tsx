@@ -23,6 +23,7 @@ const PropertyComparison = React.lazy(() => import("@/pages/property-comparison"
 const MarketTrends = React.lazy(() => import("@/pages/market-trends"));
 
 const MortgageCalculator = React.lazy(() => import("@/pages/mortgage-calculator"));
+const ScenarioDesk = React.lazy(() => import("@/pages/scenario-desk"));
 const Contacts = React.lazy(() => import("@/pages/contacts"));
 const ContactRecommendations = React.lazy(() => import("@/pages/contact-recommendations"));
 const TeamManagement = React.lazy(() => import("@/pages/team-management"));
@@ -203,6 +204,11 @@ function Router() {
               <MortgageCalculator />
             </React.Suspense>
           )} />
+          <Route path="/scenario-desk" component={() => (
+            <React.Suspense fallback={<div className="p-8">Loading Scenario Desk...</div>}>
+              <ScenarioDesk />
+            </React.Suspense>
+          )} />
           <Route path="/contacts" component={() => (
             <React.Suspense fallback={<div className="p-8">Loading Contacts...</div>}>
               <Contacts />
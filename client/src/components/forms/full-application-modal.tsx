@@ -12,13 +12,15 @@ interface FullApplicationModalProps {
   onClose: () => void;
   initialData?: any; // Pre-filled data from short form
   loanApplicationId?: number;
+  token: string; // customer portal token of the loan
 }
 
 export default function FullApplicationModal({ 
   open, 
   onClose, 
   initialData, 
-  loanApplicationId 
+  loanApplicationId,
+  token
 }: FullApplicationModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -28,6 +30,7 @@ export default function FullApplicationModal({
       const payload = {
         ...data,
         loanApplicationId,
+        token,
         stage: 'full_application'
       };
       
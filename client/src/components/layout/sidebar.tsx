@@ -41,6 +41,7 @@ const additionalNavigation = {
   loans: [
     { name: 'New Application', href: '/new-application', icon: Plus },
     { name: 'Documents', href: '/documents', icon: FileText },
+    { name: 'Scenario Desk', href: '/scenario-desk', icon: DollarSign },
     { name: 'Underwriting', href: '/underwriting', icon: Calculator },
     { name: 'Document Center', href: '/document-center', icon: FileText },
   ],
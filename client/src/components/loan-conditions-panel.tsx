@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import type { LoanCondition } from "@shared/schema";
+import { Paperclip, Plus } from "lucide-react";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  prior_to_doc: 'Prior to Docs',
+  prior_to_funding: 'Prior to Funding',
+  post_closing: 'Post-Closing',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  open: 'bg-red-100 text-red-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  cleared: 'bg-green-100 text-green-800',
+  waived: 'bg-gray-100 text-gray-800',
+};
+
+const OWNER_ROLES = ['borrower', 'loan_officer', 'processor', 'underwriter', 'title', 'closing'];
+
+interface ConditionsResponse {
+  conditions: LoanCondition[];
+  summary: { total: number; outstanding: Record<string, number> };
+}
+
+interface LoanConditionsPanelProps {
+  loanApplicationId: number;
+  reviewerId: number;
+}
+
+export default function LoanConditionsPanel({ loanApplicationId, reviewerId }: LoanConditionsPanelProps) {
+  const [title, setTitle] = useState('');
+  const [category, setCategory] = useState('prior_to_doc');
+  const [ownerRole, setOwnerRole] = useState('borrower');
+  const [reviewNotes, setReviewNotes] = useState<Record<number, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/loan-applications/${loanApplicationId}/conditions`];
+
+  const { data } = useQuery<ConditionsResponse>({ queryKey });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message || "Condition update failed", variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/loan-applications/${loanApplicationId}/conditions`, {
+        title,
+        category,
+        ownerRole,
+        borrowerVisible: ownerRole === 'borrower',
+        createdBy: reviewerId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setTitle('');
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'submit' | 'clear' | 'reject' | 'waive' }) => {
+      const note = reviewNotes[id] || '';
+      if (action === 'submit') {
+        const response = await apiRequest('POST', `/api/conditions/${id}/submit`, { notes: note });
+        return response.json();
+      }
+      const response = await apiRequest('POST', `/api/conditions/${id}/${action}`, {
+        reviewerId,
+        notes: note,
+        ...(action === 'waive' && { reason: note }),
+      });
+      return response.json();
+    },
+    onSuccess: (_, { id }) => {
+      setReviewNotes(current => ({ ...current, [id]: '' }));
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError,
+  });
+
+  const conditions = data?.conditions || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Conditions</span>
+          {data && (
+            <span className="text-sm font-normal text-text-secondary">
+              PTD {data.summary.outstanding.prior_to_doc} · PTF {data.summary.outstanding.prior_to_funding} · Post-closing {data.summary.outstanding.post_closing} outstanding
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Input
+            className="flex-1 min-w-[200px]"
+            placeholder="New condition"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ownerRole} onValueChange={setOwnerRole}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {OWNER_ROLES.map(role => (
+                <SelectItem key={role} value={role}>{role.replace(/_/g, ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => createMutation.mutate()} disabled={!title.trim() || createMutation.isPending}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {conditions.length === 0 ? (
+          <div className="text-center text-text-secondary py-4 text-sm">No conditions on this loan</div>
+        ) : (
+          <div className="space-y-3">
+            {conditions.map((condition) => {
+              const linkedCount = condition.documentIds.length + condition.customerDocumentIds.length;
+              const outstanding = condition.status === 'open' || condition.status === 'submitted';
+              return (
+                <div key={condition.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-text-primary">{condition.title}</div>
+                      <div className="text-xs text-text-secondary">
+                        {CATEGORY_LABELS[condition.category]} · {condition.ownerRole.replace(/_/g, ' ')}
+                        {!condition.borrowerVisible && ' · internal'}
+                        {linkedCount > 0 && <> · <Paperclip className="inline w-3 h-3" /> {linkedCount}</>}
+                        {condition.reviewedAt && ` · reviewed ${formatDate(condition.reviewedAt)}`}
+                      </div>
+                      {condition.reviewNotes && <p className="text-sm text-text-secondary mt-1">{condition.reviewNotes}</p>}
+                    </div>
+                    <Badge className={STATUS_STYLES[condition.status]}>{condition.status}</Badge>
+                  </div>
+                  {outstanding && (
+                    <div className="flex flex-wrap gap-2">
+                      <Input
+                        className="flex-1 min-w-[160px] h-8"
+                        placeholder="Review notes / waiver reason"
+                        value={reviewNotes[condition.id] || ''}
+                        onChange={(e) => setReviewNotes(current => ({ ...current, [condition.id]: e.target.value }))}
+                      />
+                      {condition.status === 'open' && (condition.ownerRole !== 'borrower' || linkedCount > 0) && (
+                        <Button size="sm" variant="outline" onClick={() => reviewMutation.mutate({ id: condition.id, action: 'submit' })}>
+                          Submit
+                        </Button>
+                      )}
+                      {condition.status === 'submitted' && (
+                        <>
+                          <Button size="sm" onClick={() => reviewMutation.mutate({ id: condition.id, action: 'clear' })}>
+                            Clear
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!reviewNotes[condition.id]?.trim()}
+                            onClick={() => reviewMutation.mutate({ id: condition.id, action: 'reject' })}
+                          >
+                            Return
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!reviewNotes[condition.id]?.trim()}
+                        onClick={() => reviewMutation.mutate({ id: condition.id, action: 'waive' })}
+                      >
+                        Waive
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
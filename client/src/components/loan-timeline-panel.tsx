@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatDate, getStatusLabel } from "@/lib/utils";
+import type { Document, EmailMessage, LoanStatusHistoryEntry, SmsThread } from "@shared/schema";
+import { FileText, GitCommit, Mail, MessageSquare, Paperclip } from "lucide-react";
+
+interface EmailThread {
+  threadKey: string;
+  subject: string;
+  lastMessageAt: string;
+  messages: EmailMessage[];
+}
+
+type TimelineEvent =
+  | { type: 'status'; occurredAt: string; status: LoanStatusHistoryEntry }
+  | { type: 'email_thread'; occurredAt: string; thread: EmailThread }
+  | { type: 'sms_thread'; occurredAt: string; thread: SmsThread & { displayName: string | null } }
+  | { type: 'document'; occurredAt: string; document: Document };
+
+const EVENT_ICONS = {
+  status: <GitCommit className="w-4 h-4 text-indigo-600" />,
+  email_thread: <Mail className="w-4 h-4 text-blue-600" />,
+  sms_thread: <MessageSquare className="w-4 h-4 text-green-600" />,
+  document: <FileText className="w-4 h-4 text-gray-600" />,
+};
+
+interface LoanTimelinePanelProps {
+  loanApplicationId: number;
+}
+
+export default function LoanTimelinePanel({ loanApplicationId }: LoanTimelinePanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { data: events = [] } = useQuery<TimelineEvent[]>({
+    queryKey: [`/api/loan-applications/${loanApplicationId}/timeline`],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <div className="text-center text-text-secondary py-4 text-sm">No activity on this loan yet</div>
+        ) : (
+          <div className="space-y-3">
+            {events.map((event, index) => (
+              <div key={`${event.type}-${index}`} className="flex gap-3 border-b pb-3 last:border-0">
+                <div className="mt-1">{EVENT_ICONS[event.type]}</div>
+                <div className="flex-1 min-w-0">
+                  {event.type === 'status' && (
+                    <>
+                      <div className="text-sm font-medium text-text-primary">
+                        {event.status.fromStatus ? `${getStatusLabel(event.status.fromStatus)} → ` : ''}{getStatusLabel(event.status.toStatus)}
+                      </div>
+                      {event.status.reason && <p className="text-sm text-text-secondary">{event.status.reason}</p>}
+                    </>
+                  )}
+
+                  {event.type === 'email_thread' && (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm font-medium text-text-primary truncate">{event.thread.subject || '(no subject)'}</div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setExpanded(expanded === event.thread.threadKey ? null : event.thread.threadKey)}
+                        >
+                          {event.thread.messages.length} {event.thread.messages.length === 1 ? 'message' : 'messages'}
+                        </Button>
+                      </div>
+                      {expanded === event.thread.threadKey ? (
+                        <div className="space-y-2 mt-2">
+                          {event.thread.messages.map((message) => (
+                            <div key={message.id} className="border rounded-lg p-2">
+                              <div className="flex items-center justify-between text-xs text-text-secondary">
+                                <span>{message.fromName || message.fromAddress}</span>
+                                <span>{formatDate(message.sentAt)}</span>
+                              </div>
+                              <p className="text-sm text-text-primary whitespace-pre-wrap mt-1">{message.bodyText}</p>
+                              {message.attachments.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {message.attachments.map((attachment, attachmentIndex) => (
+                                    <Badge key={attachmentIndex} variant="outline" className="text-xs">
+                                      <Paperclip className="w-3 h-3 mr-1" />
+                                      {attachment.fileName}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-text-secondary truncate">
+                          {event.thread.messages[event.thread.messages.length - 1].bodyText}
+                        </p>
+                      )}
+                    </>
+                  )}
+
+                  {event.type === 'sms_thread' && (
+                    <>
+                      <div className="text-sm font-medium text-text-primary">
+                        Text conversation with {event.thread.displayName || event.thread.phoneNumber}
+                        {event.thread.unreadCount > 0 && <Badge className="ml-2 bg-green-100 text-green-800">{event.thread.unreadCount} unread</Badge>}
+                      </div>
+                      <p className="text-sm text-text-secondary truncate">{event.thread.lastMessagePreview}</p>
+                    </>
+                  )}
+
+                  {event.type === 'document' && (
+                    <div className="text-sm text-text-primary">
+                      {event.document.originalName}
+                      <span className="text-text-secondary"> · {event.document.category.replace(/_/g, ' ')}</span>
+                    </div>
+                  )}
+                </div>
+                <span className="text-xs text-text-secondary whitespace-nowrap">{formatDate(event.occurredAt)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { getLoanStatusDefinition } from "@shared/loan-status";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -27,37 +28,11 @@ export function formatDate(date: string | Date): string {
 }
 
 export function getStatusColor(status: string): string {
-  switch (status) {
-    case 'application':
-      return 'bg-blue-100 text-blue-800';
-    case 'document_review':
-      return 'bg-yellow-100 text-yellow-800';
-    case 'underwriting':
-      return 'bg-orange-100 text-orange-800';
-    case 'approved':
-      return 'bg-green-100 text-green-800';
-    case 'declined':
-      return 'bg-red-100 text-red-800';
-    default:
-      return 'bg-gray-100 text-gray-800';
-  }
+  return getLoanStatusDefinition(status)?.badgeColor || 'bg-gray-100 text-gray-800';
 }
 
 export function getStatusLabel(status: string): string {
-  switch (status) {
-    case 'application':
-      return 'Application';
-    case 'document_review':
-      return 'Document Review';
-    case 'underwriting':
-      return 'Underwriting';
-    case 'approved':
-      return 'Approved';
-    case 'declined':
-      return 'Declined';
-    default:
-      return status;
-  }
+  return getLoanStatusDefinition(status)?.label || status;
 }
 
 export function getLoanTypeColor(loanType: string): string {
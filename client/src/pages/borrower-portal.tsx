@@ -62,18 +62,17 @@ export default function BorrowerPortal() {
   
   // Check if user is authenticated
   const borrowerToken = localStorage.getItem('borrowerToken');
-  const borrowerData = JSON.parse(localStorage.getItem('borrowerData') || '{}');
   
-  // Redirect to dashboard if authenticated
+  // The advisor only talks to signed-in borrowers
   useEffect(() => {
-    if (borrowerToken && borrowerData.id) {
-      setLocation('/borrower-dashboard');
+    if (!borrowerToken) {
+      setLocation('/borrower-login');
     }
-  }, [borrowerToken, borrowerData, setLocation]);
+  }, [borrowerToken, setLocation]);
 
   // Start conversation when component mounts
   useEffect(() => {
-    startConversation();
+    if (borrowerToken) startConversation();
   }, []);
 
   // Auto-scroll to bottom when new messages arrive
@@ -85,7 +84,7 @@ export default function BorrowerPortal() {
     try {
       const response = await fetch('/api/autonomous/start-conversation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${borrowerToken}` },
         body: JSON.stringify({ channel: 'web' })
       });
       
@@ -109,7 +108,7 @@ export default function BorrowerPortal() {
       
       const response = await fetch('/api/autonomous/process-message', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${borrowerToken}` },
         body: JSON.stringify({ sessionId, message })
       });
       
@@ -179,6 +178,7 @@ export default function BorrowerPortal() {
     try {
       const response = await fetch('/api/autonomous/upload-document', {
         method: 'POST',
+        headers: { Authorization: `Bearer ${borrowerToken}` },
         body: formData
       });
       
@@ -25,7 +25,8 @@ import {
 import { formatDate } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { LoanApplicationWithDetails } from "@shared/schema";
+import { MAX_PAGE_SIZE, loanSearchParams, type LoanApplicationPage } from "@shared/loan-search";
+import type { Template } from "@shared/schema";
 
 export default function Communications() {
   const { toast } = useToast();
@@ -36,11 +37,16 @@ export default function Communications() {
   const [emailMessage, setEmailMessage] = useState("");
   const [smsMessage, setSmsMessage] = useState("");
 
-  const { data: applications } = useQuery<LoanApplicationWithDetails[]>({
-    queryKey: ['/api/loan-applications'],
+  const { data: applicationPage } = useQuery<LoanApplicationPage>({
+    queryKey: ['/api/loan-applications', { limit: MAX_PAGE_SIZE }],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/loan-applications?${loanSearchParams({ limit: MAX_PAGE_SIZE })}`);
+      return response.json();
+    },
   });
+  const applications = applicationPage?.items;
 
-  const { data: templates } = useQuery({
+  const { data: templates } = useQuery<Template[]>({
     queryKey: ['/api/templates'],
   });
 
@@ -59,8 +65,8 @@ export default function Communications() {
     },
     onSuccess: () => {
       toast({
-        title: "Email Sent",
-        description: "Email has been sent successfully",
+        title: "Email Queued",
+        description: "Email has been queued for delivery",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       setEmailSubject("");
@@ -82,8 +88,8 @@ export default function Communications() {
     },
     onSuccess: () => {
       toast({
-        title: "SMS Sent",
-        description: "SMS has been sent successfully",
+        title: "SMS Queued",
+        description: "SMS has been queued for delivery",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       setSmsMessage("");
@@ -97,6 +103,68 @@ export default function Communications() {
     },
   });
 
+  // Renders a saved template against the selected borrower's loan and fills in the draft
+  const applyTemplateMutation = useMutation({
+    mutationFn: async (template: Template) => {
+      const loanApplicationId = applications?.find(app => app.borrower.id === selectedBorrower)?.id;
+      const response = await apiRequest('POST', `/api/templates/${template.id}/preview`, { loanApplicationId });
+      return { template, rendered: await response.json() };
+    },
+    onSuccess: ({ template, rendered }) => {
+      if (template.type === 'email') {
+        setEmailSubject(rendered.subject || "");
+        setEmailMessage(rendered.text);
+      } else {
+        setSmsMessage(rendered.text);
+      }
+      if (rendered.emptyFields.length > 0) {
+        toast({
+          title: "Some fields are empty",
+          description: `No value for ${rendered.emptyFields.join(', ')} on this loan`,
+        });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to render template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleApplyTemplate = (templateId: string) => {
+    const template = templates?.find(t => t.id === Number(templateId));
+    if (!template) return;
+    if (!selectedBorrower) {
+      toast({
+        title: "No Borrower Selected",
+        description: "Please select a borrower before choosing a template",
+        variant: "destructive",
+      });
+      return;
+    }
+    applyTemplateMutation.mutate(template);
+  };
+
+  const renderTemplatePicker = (type: 'email' | 'sms') => (
+    <div>
+      <label className="block text-sm font-medium text-text-primary mb-2">Template</label>
+      <Select value="" onValueChange={handleApplyTemplate} disabled={applyTemplateMutation.isPending}>
+        <SelectTrigger>
+          <SelectValue placeholder={applyTemplateMutation.isPending ? "Rendering..." : "Start from a template"} />
+        </SelectTrigger>
+        <SelectContent>
+          {templates?.filter(t => t.type === type && t.isActive).map((template) => (
+            <SelectItem key={template.id} value={template.id.toString()}>
+              {template.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const logCallMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest('POST', '/api/call-logs', data);
@@ -131,7 +199,7 @@ export default function Communications() {
       recipient: borrower.email,
       subject: emailSubject,
       message: emailMessage,
-      status: 'sent'
+      status: 'pending'
     });
   };
 
@@ -154,7 +222,7 @@ export default function Communications() {
       type: 'sms',
       recipient: borrower.phone,
       message: smsMessage,
-      status: 'sent'
+      status: 'pending'
     });
   };
 
@@ -255,6 +323,7 @@ export default function Communications() {
                   </TabsList>
 
                   <TabsContent value="email" className="space-y-4">
+                    {renderTemplatePicker('email')}
                     <div>
                       <label className="block text-sm font-medium text-text-primary mb-2">Subject</label>
                       <Input
@@ -283,6 +352,7 @@ export default function Communications() {
                   </TabsContent>
 
                   <TabsContent value="sms" className="space-y-4">
+                    {renderTemplatePicker('sms')}
                     <div>
                       <label className="block text-sm font-medium text-text-primary mb-2">Message</label>
                       <Textarea
@@ -15,7 +15,8 @@ import {
   Building,
   User,
   Mail,
-  Phone
+  Phone,
+  ListChecks
 } from "lucide-react";
 import { formatDate } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
@@ -24,6 +25,12 @@ import FullApplicationModal from "@/components/forms/full-application-modal";
 import DataCompletenessIndicator from "@/components/ui/data-completeness-indicator";
 import { documentPreFill } from "@/lib/document-prefill";
 
+const CONDITION_CATEGORY_LABELS: Record<string, string> = {
+  prior_to_doc: 'Prior to Docs',
+  prior_to_funding: 'Prior to Funding',
+  post_closing: 'Post-Closing',
+};
+
 interface CustomerPortalProps {
   token: string;
 }
@@ -70,12 +77,22 @@ export default function CustomerPortal({ token }: CustomerPortalProps) {
     },
   });
 
+  const { data: conditions } = useQuery({
+    queryKey: ['/api/customer-portal/conditions', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/customer-portal/conditions?token=${token}`);
+      if (!response.ok) throw new Error('Failed to fetch conditions');
+      return response.json();
+    },
+  });
+
   const uploadDocumentMutation = useMutation({
-    mutationFn: async ({ file, category }: { file: File; category: string }) => {
+    mutationFn: async ({ file, category, conditionId }: { file: File; category: string; conditionId?: number }) => {
       const formData = new FormData();
       formData.append('file', file);
       formData.append('category', category);
       formData.append('token', token);
+      if (conditionId) formData.append('conditionId', String(conditionId));
       
       const response = await fetch('/api/customer-portal/upload-document', {
         method: 'POST',
@@ -91,6 +108,7 @@ export default function CustomerPortal({ token }: CustomerPortalProps) {
         description: "Document uploaded successfully",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/customer-portal/documents', token] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customer-portal/conditions', token] });
     },
     onError: () => {
       toast({
@@ -101,6 +119,27 @@ export default function CustomerPortal({ token }: CustomerPortalProps) {
     },
   });
 
+  const submitConditionMutation = useMutation({
+    mutationFn: async (conditionId: number) => {
+      const response = await apiRequest('POST', `/api/customer-portal/conditions/${conditionId}/submit`, { token });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Submitted",
+        description: "Your documents were sent to underwriting for review",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/customer-portal/conditions', token] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to submit condition",
+        variant: "destructive",
+      });
+    },
+  });
+
   const connectBankMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', '/api/customer-portal/connect-bank', { token });
@@ -250,6 +289,7 @@ export default function CustomerPortal({ token }: CustomerPortalProps) {
           <TabsList>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="documents">Documents</TabsTrigger>
+            <TabsTrigger value="conditions">Conditions</TabsTrigger>
             <TabsTrigger value="banking">Bank Verification</TabsTrigger>
             <TabsTrigger value="application">Application Details</TabsTrigger>
           </TabsList>
@@ -409,6 +449,104 @@ export default function CustomerPortal({ token }: CustomerPortalProps) {
             </Card>
           </TabsContent>
 
+          <TabsContent value="conditions">
+            <Card>
+              <CardHeader>
+                <CardTitle>Loan Conditions</CardTitle>
+                <p className="text-sm text-text-secondary">
+                  Items underwriting needs from you before closing and funding. Upload documents for each condition, then submit it for review.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {!conditions?.length ? (
+                  <div className="text-center py-8">
+                    <ListChecks className="w-12 h-12 text-text-secondary mx-auto mb-3" />
+                    <p className="text-text-secondary">There are no conditions on your loan right now.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-6">
+                    {Object.entries(CONDITION_CATEGORY_LABELS).map(([category, label]) => {
+                      const items = conditions.filter((condition: any) => condition.category === category);
+                      if (items.length === 0) return null;
+                      return (
+                        <div key={category} className="space-y-3">
+                          <h4 className="text-sm font-semibold text-text-secondary uppercase">{label}</h4>
+                          {items.map((condition: any) => {
+                            const linkedCount = condition.documentIds.length + condition.customerDocumentIds.length;
+                            return (
+                              <div key={condition.id} className="flex items-start justify-between p-4 border rounded-lg">
+                                <div className="flex items-start space-x-3">
+                                  {condition.status === 'cleared' || condition.status === 'waived' ? (
+                                    <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+                                  ) : condition.status === 'submitted' ? (
+                                    <Clock className="w-5 h-5 text-yellow-500 mt-0.5" />
+                                  ) : (
+                                    <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                                  )}
+                                  <div>
+                                    <h4 className="font-medium">{condition.title}</h4>
+                                    {condition.description && (
+                                      <p className="text-sm text-text-secondary">{condition.description}</p>
+                                    )}
+                                    {condition.status === 'open' && condition.reviewNotes && (
+                                      <p className="text-sm text-red-600 mt-1">Reviewer note: {condition.reviewNotes}</p>
+                                    )}
+                                    <p className="text-xs text-text-secondary mt-1">
+                                      {linkedCount} document{linkedCount === 1 ? '' : 's'} attached
+                                      {condition.dueDate && ` · Due ${formatDate(condition.dueDate)}`}
+                                    </p>
+                                  </div>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                  <Badge variant={
+                                    condition.status === 'open' ? 'destructive' :
+                                    condition.status === 'submitted' ? 'secondary' : 'default'
+                                  }>
+                                    {condition.status === 'open' ? 'Needed' :
+                                     condition.status === 'submitted' ? 'In Review' :
+                                     condition.status === 'cleared' ? 'Cleared' : 'Waived'}
+                                  </Badge>
+                                  {condition.status === 'open' && (
+                                    <>
+                                      <input
+                                        type="file"
+                                        id={`condition-file-${condition.id}`}
+                                        className="hidden"
+                                        onChange={(e) => {
+                                          const file = e.target.files?.[0];
+                                          if (file) uploadDocumentMutation.mutate({ file, category: 'conditions', conditionId: condition.id });
+                                        }}
+                                      />
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => document.getElementById(`condition-file-${condition.id}`)?.click()}
+                                      >
+                                        <Upload className="w-4 h-4 mr-2" />
+                                        Upload
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        onClick={() => submitConditionMutation.mutate(condition.id)}
+                                        disabled={linkedCount === 0 || submitConditionMutation.isPending}
+                                      >
+                                        Submit
+                                      </Button>
+                                    </>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="banking">
             <Card>
               <CardHeader>
@@ -516,6 +654,7 @@ export default function CustomerPortal({ token }: CustomerPortalProps) {
         onClose={() => setShowFullApplication(false)}
         initialData={applicationData.initialIntakeData}
         loanApplicationId={applicationData.id}
+        token={token}
       />
     </div>
   );
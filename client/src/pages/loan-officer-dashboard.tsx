@@ -8,9 +8,10 @@ import { useToast } from '@/hooks/use-toast';
 import { Link } from 'wouter';
 import GamificationSystem from '@/components/gamification-system';
 import OnboardingTour, { useOnboardingTour } from '@/components/onboarding-tour';
+import type { LoanApplicationPage } from '@shared/loan-search';
 import { 
   DollarSign, Users, FileText, TrendingUp, 
-  PlusCircle, Calculator, Heart, Upload, HelpCircle
+  PlusCircle, Calculator, Heart, Upload, HelpCircle, Lock
 } from 'lucide-react';
 
 export default function LoanOfficerDashboard() {
@@ -31,10 +32,15 @@ export default function LoanOfficerDashboard() {
     queryKey: ['/api/dashboard/stats']
   });
 
-  const { data: applications } = useQuery({
+  // First page of the listing, newest first
+  const { data: applications } = useQuery<LoanApplicationPage>({
     queryKey: ['/api/loan-applications'],
   });
 
+  const { data: expiringLocks } = useQuery<any[]>({
+    queryKey: ['/api/rate-locks/expiring'],
+  });
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Onboarding Tour */}
@@ -152,7 +158,7 @@ export default function LoanOfficerDashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {applications?.slice(0, 5).map((app: any) => (
+              {applications?.items.slice(0, 5).map((app: any) => (
                 <div
                   key={app.id}
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent transition-colors"
@@ -189,9 +195,45 @@ export default function LoanOfficerDashboard() {
           </CardContent>
         </Card>
 
-        {/* Gamification System */}
-        <div data-tour="gamification">
-          <GamificationSystem />
+        <div className="space-y-6">
+          {/* Expiring Rate Locks */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Expiring Rate Locks
+              </CardTitle>
+              <CardDescription>
+                Locks expiring in the next 7 days
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!expiringLocks?.length ? (
+                <p className="text-sm text-muted-foreground">No locks expiring soon</p>
+              ) : (
+                <div className="space-y-3">
+                  {expiringLocks.map((lock) => (
+                    <div key={lock.id} className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{lock.borrowerName}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {lock.lenderName} @ {(parseFloat(lock.rate) * 100).toFixed(3)}%
+                        </p>
+                      </div>
+                      <Badge variant={lock.daysRemaining <= 3 ? 'destructive' : 'secondary'}>
+                        {lock.daysRemaining} {lock.daysRemaining === 1 ? 'day' : 'days'}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Gamification System */}
+          <div data-tour="gamification">
+            <GamificationSystem />
+          </div>
         </div>
       </div>
 
@@ -31,10 +31,8 @@ export default function LoanOfficerLogin() {
 
   const loginMutation = useMutation({
     mutationFn: async (data: { email: string; password: string }) => {
-      return await apiRequest('/api/auth/login', {
-        method: 'POST',
-        body: JSON.stringify(data)
-      });
+      const response = await apiRequest('POST', '/api/auth/login', data);
+      return response.json();
     },
     onSuccess: (data) => {
       localStorage.setItem('authToken', data.token);
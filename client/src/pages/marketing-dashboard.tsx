@@ -65,7 +65,7 @@ export default function MarketingDashboard() {
   // Fetch recent leads
   const { data: recentLeads = [] } = useQuery({
     queryKey: ['/api/loan-applications'],
-    select: (data: any[]) => data
+    select: (data: { items: any[] }) => data.items
       .filter(app => app.source && app.source !== 'manual')
       .slice(0, 10)
       .map(app => ({
@@ -12,6 +12,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { PERMISSIONS, PERMISSION_CATEGORIES } from "@shared/permissions";
 import { 
   Shield, 
   Plus, 
@@ -47,7 +48,7 @@ interface Role {
   id: number;
   name: string;
   displayName: string;
-  description: string;
+  description: string | null;
   permissions: string[];
   isSystemRole: boolean;
   userCount?: number;
@@ -60,103 +61,34 @@ interface User {
   lastName: string;
   email: string;
   role: string;
-  permissions: string[];
+  permissions: string[]; // per-user overrides; "-permission" revokes one the role grants
+  effectivePermissions: string[];
   isActive: boolean;
 }
 
-const allPermissions: Permission[] = [
-  // Loan Management
-  { id: "loans.view", name: "View Loans", description: "View loan applications and details", category: "Loans", icon: FileText },
-  { id: "loans.create", name: "Create Loans", description: "Create new loan applications", category: "Loans", icon: FileText },
-  { id: "loans.edit", name: "Edit Loans", description: "Modify loan application details", category: "Loans", icon: Edit },
-  { id: "loans.delete", name: "Delete Loans", description: "Delete loan applications", category: "Loans", icon: Trash2 },
-  { id: "loans.approve", name: "Approve Loans", description: "Approve or deny loan applications", category: "Loans", icon: UserCheck },
-  { id: "loans.assign", name: "Assign Loans", description: "Assign loans to team members", category: "Loans", icon: Users },
-
-  // Financial
-  { id: "pricing.view", name: "View Pricing", description: "View loan pricing and rates", category: "Financial", icon: DollarSign },
-  { id: "pricing.edit", name: "Edit Pricing", description: "Modify pricing and commission rates", category: "Financial", icon: DollarSign },
-  { id: "commissions.view", name: "View Commissions", description: "View commission reports", category: "Financial", icon: BarChart3 },
-
-  // Contacts & CRM
-  { id: "contacts.view", name: "View Contacts", description: "View contact database", category: "CRM", icon: Users },
-  { id: "contacts.create", name: "Create Contacts", description: "Add new contacts", category: "CRM", icon: Plus },
-  { id: "contacts.edit", name: "Edit Contacts", description: "Modify contact information", category: "CRM", icon: Edit },
-  { id: "contacts.delete", name: "Delete Contacts", description: "Remove contacts", category: "CRM", icon: Trash2 },
-
-  // Communications
-  { id: "communications.view", name: "View Communications", description: "View communication history", category: "Communications", icon: MessageSquare },
-  { id: "communications.send", name: "Send Communications", description: "Send emails, SMS, and make calls", category: "Communications", icon: MessageSquare },
-  { id: "calendar.view", name: "View Calendar", description: "View calendar and appointments", category: "Communications", icon: Calendar },
-  { id: "calendar.manage", name: "Manage Calendar", description: "Create and manage appointments", category: "Communications", icon: Calendar },
-
-  // Reports & Analytics
-  { id: "reports.view", name: "View Reports", description: "Access standard reports", category: "Reports", icon: BarChart3 },
-  { id: "reports.advanced", name: "Advanced Reports", description: "Access detailed analytics", category: "Reports", icon: BarChart3 },
-  { id: "data.export", name: "Export Data", description: "Export data to files", category: "Reports", icon: Download },
-
-  // Team Management
-  { id: "team.view", name: "View Team", description: "View team member list", category: "Team", icon: Users },
-  { id: "team.manage", name: "Manage Team", description: "Add, edit, and remove team members", category: "Team", icon: Users },
-  { id: "roles.manage", name: "Manage Roles", description: "Create and modify user roles", category: "Team", icon: Shield },
-
-  // System Administration
-  { id: "settings.view", name: "View Settings", description: "View system settings", category: "System", icon: Settings },
-  { id: "settings.edit", name: "Edit Settings", description: "Modify system configuration", category: "System", icon: Settings },
-  { id: "audit.view", name: "View Audit Logs", description: "Access system audit trails", category: "System", icon: Eye },
-  { id: "system.backup", name: "System Backup", description: "Create and restore backups", category: "System", icon: Database },
-];
-
-const permissionCategories = [...new Set(allPermissions.map(p => p.category))];
-
-const systemRoles = [
-  {
-    name: "owner",
-    displayName: "Owner",
-    description: "Full system access with all permissions",
-    permissions: allPermissions.map(p => p.id)
-  },
-  {
-    name: "branch_manager", 
-    displayName: "Branch Manager",
-    description: "Manage branch operations and team",
-    permissions: [
-      "loans.view", "loans.create", "loans.edit", "loans.approve", "loans.assign",
-      "contacts.view", "contacts.create", "contacts.edit",
-      "communications.view", "communications.send", "calendar.view", "calendar.manage",
-      "reports.view", "reports.advanced", "data.export",
-      "team.view", "team.manage", "pricing.view"
-    ]
-  },
-  {
-    name: "loan_officer",
-    displayName: "Loan Officer", 
-    description: "Process loans and manage client relationships",
-    permissions: [
-      "loans.view", "loans.create", "loans.edit",
-      "contacts.view", "contacts.create", "contacts.edit",
-      "communications.view", "communications.send", "calendar.view", "calendar.manage",
-      "reports.view", "pricing.view"
-    ]
-  },
-  {
-    name: "processor",
-    displayName: "Processor",
-    description: "Process and review loan applications",
-    permissions: [
-      "loans.view", "loans.edit",
-      "contacts.view",
-      "communications.view", "communications.send",
-      "reports.view"
-    ]
-  }
-];
+const categoryIcons: Record<string, any> = {
+  Loans: FileText,
+  Underwriting: UserCheck,
+  Financial: DollarSign,
+  Compliance: Lock,
+  CRM: Users,
+  Communications: MessageSquare,
+  Reports: BarChart3,
+  Team: Shield,
+  System: Settings,
+};
+
+const allPermissions: Permission[] = PERMISSIONS.map(permission => ({
+  ...permission,
+  icon: categoryIcons[permission.category] || Shield,
+}));
 
 export default function Permissions() {
   const [activeTab, setActiveTab] = useState("roles");
   const [searchTerm, setSearchTerm] = useState("");
   const [showAddRoleDialog, setShowAddRoleDialog] = useState(false);
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+  const [editedPermissions, setEditedPermissions] = useState<string[]>([]);
   const [showRoleDetail, setShowRoleDetail] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -173,7 +105,7 @@ export default function Permissions() {
 
   // Create role mutation
   const createRoleMutation = useMutation({
-    mutationFn: (roleData: any) => apiRequest('/api/roles', 'POST', roleData),
+    mutationFn: (roleData: any) => apiRequest('POST', '/api/roles', roleData),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
       setShowAddRoleDialog(false);
@@ -181,19 +113,60 @@ export default function Permissions() {
         title: "Role Created",
         description: "New role has been successfully created.",
       });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create role", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Update role permissions mutation
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ roleId, data }: { roleId: number, data: Partial<Role> }) =>
+      apiRequest('PUT', `/api/roles/${roleId}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      setShowRoleDetail(false);
+      toast({
+        title: "Role Updated",
+        description: "Role permissions have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update role", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Delete role mutation
+  const deleteRoleMutation = useMutation({
+    mutationFn: (roleId: number) => apiRequest('DELETE', `/api/roles/${roleId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      setShowRoleDetail(false);
+      toast({
+        title: "Role Deleted",
+        description: "The role has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete role", description: error.message, variant: "destructive" });
     }
   });
 
   // Update user permissions mutation
   const updateUserMutation = useMutation({
     mutationFn: ({ userId, data }: { userId: number, data: any }) => 
-      apiRequest(`/api/users/${userId}`, 'PUT', data),
+      apiRequest('PUT', `/api/users/${userId}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
       toast({
         title: "Permissions Updated",
         description: "User permissions have been updated.",
       });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update user", description: error.message, variant: "destructive" });
     }
   });
 
@@ -218,7 +191,7 @@ export default function Permissions() {
   };
 
   const getPermissionsByCategory = () => {
-    return permissionCategories.reduce((acc, category) => {
+    return PERMISSION_CATEGORIES.reduce((acc, category) => {
       acc[category] = allPermissions.filter(p => p.category === category);
       return acc;
     }, {} as Record<string, Permission[]>);
@@ -226,7 +199,7 @@ export default function Permissions() {
 
   const filteredRoles = roles.filter((role: Role) =>
     role.displayName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    role.description.toLowerCase().includes(searchTerm.toLowerCase())
+    (role.description || '').toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   const filteredUsers = users.filter((user: User) =>
@@ -381,6 +354,7 @@ export default function Permissions() {
                       className="hover:shadow-lg transition-shadow cursor-pointer"
                       onClick={() => {
                         setSelectedRole(role);
+                        setEditedPermissions(role.permissions);
                         setShowRoleDetail(true);
                       }}
                     >
@@ -446,6 +420,10 @@ export default function Permissions() {
                                 {user.firstName} {user.lastName}
                               </h3>
                               <p className="text-sm text-gray-600">{user.email}</p>
+                              <p className="text-xs text-gray-500">
+                                {user.effectivePermissions.length} effective permissions
+                                {user.permissions.length > 0 && ` (${user.permissions.length} overrides)`}
+                              </p>
                             </div>
                           </div>
                           <div className="flex items-center gap-4">
@@ -531,30 +509,57 @@ export default function Permissions() {
                 
                 <div className="space-y-4">
                   <div>
-                    <Label>Permissions ({selectedRole.permissions.length})</Label>
-                    <div className="mt-2 space-y-2">
-                      {Object.entries(getPermissionsByCategory()).map(([category, permissions]) => {
-                        const rolePermissions = permissions.filter(p => 
-                          selectedRole.permissions.includes(p.id)
-                        );
-                        
-                        if (rolePermissions.length === 0) return null;
-                        
-                        return (
-                          <div key={category}>
-                            <h4 className="font-medium text-sm text-gray-700 mb-1">{category}</h4>
-                            <div className="flex flex-wrap gap-1">
-                              {rolePermissions.map(permission => (
-                                <Badge key={permission.id} variant="outline" className="text-xs">
+                    <Label>Permissions ({editedPermissions.length})</Label>
+                    <div className="mt-2 space-y-4">
+                      {Object.entries(getPermissionsByCategory()).map(([category, permissions]) => (
+                        <div key={category} className="border rounded-lg p-4">
+                          <h4 className="font-medium text-sm text-gray-700 mb-2">{category}</h4>
+                          <div className="grid grid-cols-2 gap-2">
+                            {permissions.map(permission => (
+                              <div key={permission.id} className="flex items-center space-x-2">
+                                <Switch
+                                  id={`role-${permission.id}`}
+                                  checked={editedPermissions.includes(permission.id)}
+                                  disabled={selectedRole.isSystemRole}
+                                  onCheckedChange={(checked) => {
+                                    setEditedPermissions(checked
+                                      ? [...editedPermissions, permission.id]
+                                      : editedPermissions.filter(p => p !== permission.id));
+                                  }}
+                                />
+                                <Label htmlFor={`role-${permission.id}`} className="text-sm">
                                   {permission.name}
-                                </Badge>
-                              ))}
-                            </div>
+                                </Label>
+                              </div>
+                            ))}
                           </div>
-                        );
-                      })}
+                        </div>
+                      ))}
                     </div>
                   </div>
+
+                  {selectedRole.isSystemRole ? (
+                    <p className="text-sm text-gray-600 pt-2">
+                      System roles are shared by every organization and cannot be changed. Create a custom role to tailor permissions.
+                    </p>
+                  ) : (
+                    <div className="flex gap-2 pt-2">
+                      <Button
+                        onClick={() => updateRoleMutation.mutate({ roleId: selectedRole.id, data: { permissions: editedPermissions } })}
+                        disabled={updateRoleMutation.isPending}
+                      >
+                        {updateRoleMutation.isPending ? "Saving..." : "Save Permissions"}
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={() => deleteRoleMutation.mutate(selectedRole.id)}
+                        disabled={deleteRoleMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete Role
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </>
             )}
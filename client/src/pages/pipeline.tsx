@@ -1,23 +1,78 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { formatCurrency, formatDate, getStatusColor, getStatusLabel, getLoanTypeColor, getLoanTypeLabel } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, getLoanTypeColor, getLoanTypeLabel } from "@/lib/utils";
 import type { LoanApplicationWithDetails } from "@shared/schema";
+import { LOAN_STATUSES, normalizeLoanStatus } from "@shared/loan-status";
+import { loanSearchParams, type LoanApplicationPage, type LoanApplicationSortField } from "@shared/loan-search";
+import { Search } from "lucide-react";
 
-interface PipelineData {
-  application: LoanApplicationWithDetails[];
-  document_review: LoanApplicationWithDetails[];
-  underwriting: LoanApplicationWithDetails[];
-  approved: LoanApplicationWithDetails[];
-  declined: LoanApplicationWithDetails[];
-}
+const LOAN_TYPES = ['dscr', 'fix-n-flip', 'hard-money', 'commercial-real-estate', 'private-money', 'bridge', 'construction', 'multifamily'];
+
+const SORT_OPTIONS: Array<{ value: string; label: string; sort: LoanApplicationSortField; direction: 'asc' | 'desc' }> = [
+  { value: 'newest', label: 'Newest first', sort: 'createdAt', direction: 'desc' },
+  { value: 'oldest', label: 'Oldest first', sort: 'createdAt', direction: 'asc' },
+  { value: 'updated', label: 'Recently updated', sort: 'updatedAt', direction: 'desc' },
+  { value: 'amount-desc', label: 'Largest amount', sort: 'requestedAmount', direction: 'desc' },
+  { value: 'amount-asc', label: 'Smallest amount', sort: 'requestedAmount', direction: 'asc' },
+  { value: 'borrower', label: 'Borrower name', sort: 'borrowerName', direction: 'asc' },
+];
+
+const PAGE_SIZE = 100;
 
 export default function Pipeline() {
-  const { data: pipeline, isLoading } = useQuery<PipelineData>({
-    queryKey: ['/api/pipeline'],
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loanType, setLoanType] = useState('all');
+  const [state, setState] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [sortOption, setSortOption] = useState('newest');
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters = useMemo(() => {
+    const { sort, direction } = SORT_OPTIONS.find(option => option.value === sortOption) || SORT_OPTIONS[0];
+    return {
+      search,
+      loanType: loanType === 'all' ? undefined : loanType,
+      state: state.trim(),
+      minAmount,
+      maxAmount,
+      createdFrom: createdFrom ? new Date(`${createdFrom}T00:00:00`) : undefined,
+      createdTo: createdTo ? new Date(`${createdTo}T23:59:59.999`) : undefined,
+      sort,
+      direction,
+      limit: PAGE_SIZE,
+    };
+  }, [search, loanType, state, minAmount, maxAmount, createdFrom, createdTo, sortOption]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<LoanApplicationPage>({
+    queryKey: ['/api/loan-applications', filters],
+    queryFn: async ({ pageParam }) => {
+      const params = loanSearchParams({ ...filters, cursor: pageParam as string | undefined });
+      const response = await apiRequest('GET', `/api/loan-applications?${params}`);
+      return response.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.nextCursor ?? undefined,
   });
 
+  const applications = data?.pages.flatMap(page => page.items) || [];
+  const total = data?.pages[0]?.total ?? 0;
+
   const ApplicationCard = ({ app }: { app: LoanApplicationWithDetails }) => (
     <div className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer">
       <div className="flex items-center justify-between mb-2">
@@ -87,37 +142,70 @@ export default function Pipeline() {
       />
       
       <main className="flex-1 overflow-y-auto p-6">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <div className="relative w-72">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-secondary" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Borrower, email, address or application #"
+              className="pl-9"
+            />
+          </div>
+          <Select value={loanType} onValueChange={setLoanType}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Loan type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All loan types</SelectItem>
+              {LOAN_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{getLoanTypeLabel(type)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={state} onChange={(e) => setState(e.target.value)} placeholder="State" className="w-20" />
+          <Input type="number" value={minAmount} onChange={(e) => setMinAmount(e.target.value)} placeholder="Min amount" className="w-32" />
+          <Input type="number" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} placeholder="Max amount" className="w-32" />
+          <Input type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} className="w-40" aria-label="Created from" />
+          <Input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} className="w-40" aria-label="Created to" />
+          <Select value={sortOption} onValueChange={setSortOption}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-sm text-text-secondary ml-auto">
+            Showing {applications.length} of {total}
+          </div>
+        </div>
+
         {isLoading ? (
           <div className="text-center py-12">
             <div className="text-text-secondary">Loading pipeline...</div>
           </div>
         ) : (
-          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
-            <PipelineColumn
-              title="Application"
-              applications={pipeline?.application || []}
-              color="bg-blue-500"
-            />
-            <PipelineColumn
-              title="Document Review"
-              applications={pipeline?.document_review || []}
-              color="bg-yellow-500"
-            />
-            <PipelineColumn
-              title="Underwriting"
-              applications={pipeline?.underwriting || []}
-              color="bg-orange-500"
-            />
-            <PipelineColumn
-              title="Approved"
-              applications={pipeline?.approved || []}
-              color="bg-green-500"
-            />
-            <PipelineColumn
-              title="Declined"
-              applications={pipeline?.declined || []}
-              color="bg-red-500"
-            />
+          <div className="flex gap-6 overflow-x-auto pb-4">
+            {LOAN_STATUSES.map((definition) => (
+              <div key={definition.key} className="min-w-[280px] flex-1">
+                <PipelineColumn
+                  title={definition.label}
+                  applications={applications.filter(app => normalizeLoanStatus(app.status) === definition.key)}
+                  color={definition.pipelineColor}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Load more applications'}
+            </Button>
           </div>
         )}
       </main>
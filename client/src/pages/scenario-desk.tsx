@@ -0,0 +1,532 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, getLoanTypeLabel } from "@/lib/utils";
+import type { Contact, LoanScenario, ScenarioStructure, ScenarioStructureResult } from "@shared/schema";
+import { Plus, RefreshCw, Trash2, ArrowRightCircle } from "lucide-react";
+
+type StructureForm = {
+  id: string;
+  label: string;
+  loanType: string;
+  ltv: string; // percent
+  interestOnly: boolean;
+  termYears: string;
+  prepaymentPenalty: ScenarioStructure['prepaymentPenalty'];
+};
+
+const LOAN_TYPES = ['dscr', 'fix-n-flip', 'hard-money', 'commercial-real-estate', 'private-money', 'bridge', 'construction', 'multifamily'];
+
+const PREPAYMENT_OPTIONS: Array<{ value: ScenarioStructure['prepaymentPenalty']; label: string }> = [
+  { value: '5_4_3_2_1', label: '5/4/3/2/1' },
+  { value: '3_2_1', label: '3/2/1' },
+  { value: '2_1', label: '2/1' },
+  { value: '1', label: '1 year' },
+  { value: 'none', label: 'None' },
+];
+
+const MAX_STRUCTURES = 6;
+
+const dealFields: Array<{ key: string; label: string; type?: string }> = [
+  { key: 'propertyValue', label: 'Property Value', type: 'number' },
+  { key: 'purchasePrice', label: 'Purchase Price', type: 'number' },
+  { key: 'payoffAmount', label: 'Existing Payoff (refinance)', type: 'number' },
+  { key: 'creditScore', label: 'Credit Score', type: 'number' },
+  { key: 'monthlyRent', label: 'Monthly Rent', type: 'number' },
+  { key: 'annualTaxes', label: 'Annual Taxes', type: 'number' },
+  { key: 'annualInsurance', label: 'Annual Insurance', type: 'number' },
+  { key: 'monthlyHoa', label: 'Monthly HOA', type: 'number' },
+  { key: 'state', label: 'State' },
+  { key: 'address', label: 'Property Address' },
+  { key: 'city', label: 'City' },
+  { key: 'zipCode', label: 'ZIP Code' },
+];
+
+const numericDealFields = ['propertyValue', 'purchasePrice', 'payoffAmount', 'creditScore', 'monthlyRent', 'annualTaxes', 'annualInsurance', 'monthlyHoa'];
+
+const newStructure = (index: number): StructureForm => ({
+  id: `s${Date.now()}${index}`,
+  label: `Option ${index + 1}`,
+  loanType: 'dscr',
+  ltv: '75',
+  interestOnly: false,
+  termYears: '30',
+  prepaymentPenalty: '3_2_1',
+});
+
+const emptyDeal: Record<string, string> = {
+  loanPurpose: 'purchase',
+  propertyType: 'single_family',
+  borrowerExperience: 'experienced',
+  timeline: 'standard',
+  state: '',
+  creditScore: '720',
+};
+
+function toForm(scenario: LoanScenario) {
+  const deal: Record<string, string> = {};
+  Object.entries(scenario.deal).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) deal[key] = String(value);
+  });
+  const structures = scenario.structures.map(structure => ({
+    ...structure,
+    ltv: String(Math.round(structure.ltv * 10000) / 100),
+    termYears: String(structure.termYears),
+  }));
+  return { deal, structures };
+}
+
+export default function ScenarioDesk() {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [contactId, setContactId] = useState<string>('none');
+  const [deal, setDeal] = useState<Record<string, string>>(emptyDeal);
+  const [structures, setStructures] = useState<StructureForm[]>([newStructure(0), { ...newStructure(1), interestOnly: true }]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+
+  const { data: scenarios = [], isLoading } = useQuery<LoanScenario[]>({
+    queryKey: ['/api/scenarios'],
+  });
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ['/api/contacts'],
+  });
+
+  const selected = scenarios.find(scenario => scenario.id === selectedId) || null;
+
+  const startNew = () => {
+    setSelectedId(null);
+    setName('');
+    setContactId('none');
+    setDeal(emptyDeal);
+    setStructures([newStructure(0), { ...newStructure(1), interestOnly: true }]);
+  };
+
+  const open = (scenario: LoanScenario) => {
+    const form = toForm(scenario);
+    setSelectedId(scenario.id);
+    setName(scenario.name);
+    setContactId(scenario.contactId ? String(scenario.contactId) : 'none');
+    setDeal(form.deal);
+    setStructures(form.structures);
+  };
+
+  const buildPayload = () => {
+    const payloadDeal: Record<string, string | number | boolean> = {};
+    Object.entries(deal).forEach(([key, value]) => {
+      if (value === '' || value === undefined) return;
+      if (key === 'shortTermRental') payloadDeal[key] = value === 'true';
+      else payloadDeal[key] = numericDealFields.includes(key) ? Number(value) : value;
+    });
+    if (typeof payloadDeal.state === 'string') payloadDeal.state = payloadDeal.state.toUpperCase();
+
+    return {
+      name,
+      contactId: contactId === 'none' ? null : parseInt(contactId),
+      deal: payloadDeal,
+      structures: structures.map(structure => ({
+        ...structure,
+        ltv: Number(structure.ltv) / 100,
+        termYears: Number(structure.termYears),
+      })),
+    };
+  };
+
+  const onSaved = (scenario: LoanScenario) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/scenarios'] });
+    open(scenario);
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = selectedId
+        ? await apiRequest('PUT', `/api/scenarios/${selectedId}`, buildPayload())
+        : await apiRequest('POST', '/api/scenarios', buildPayload());
+      return response.json();
+    },
+    onSuccess: (scenario: LoanScenario) => {
+      toast({ title: "Scenario Priced", description: `${scenario.structures.length} structures priced and saved` });
+      onSaved(scenario);
+    },
+    onError: onError("Failed to save scenario"),
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/scenarios/${selectedId}/refresh`);
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError: onError("Failed to reprice scenario"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/scenarios/${selectedId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scenarios'] });
+      startNew();
+    },
+    onError: onError("Failed to delete scenario"),
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (structureId: string) => {
+      const response = await apiRequest('POST', `/api/scenarios/${selectedId}/convert`, { structureId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Application Created", description: "The scenario is now a loan application in the pipeline" });
+      queryClient.invalidateQueries({ queryKey: ['/api/scenarios'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/loan-applications'] });
+      setLocation('/pipeline');
+    },
+    onError: onError("Failed to convert scenario"),
+  });
+
+  const updateStructure = (index: number, changes: Partial<StructureForm>) => {
+    setStructures(current => current.map((structure, i) => (i === index ? { ...structure, ...changes } : structure)));
+  };
+
+  const results: ScenarioStructureResult[] = selected?.results || [];
+  const resultFor = (structureId: string) => results.find(result => result.structureId === structureId);
+
+  const metricRows: Array<{ label: string; value: (result: ScenarioStructureResult) => string }> = [
+    { label: 'Lender', value: result => `${result.lenderName} · ${result.loanProgram}` },
+    { label: 'Loan Amount', value: result => formatCurrency(result.loanAmount) },
+    { label: 'Rate', value: result => `${((result.rate || 0) * 100).toFixed(3)}%` },
+    { label: 'Points', value: result => (result.points || 0).toFixed(3) },
+    { label: 'Monthly Payment', value: result => formatCurrency(result.monthlyPayment || 0) },
+    { label: 'Payment incl. Taxes, Insurance & HOA', value: result => formatCurrency(result.monthlyHousingExpense || 0) },
+    { label: 'DSCR', value: result => (result.dscr != null ? result.dscr.toFixed(2) : '—') },
+    { label: 'Closing Costs', value: result => formatCurrency(result.closingCosts || 0) },
+    { label: 'Cash to Close', value: result => formatCurrency(result.cashToClose || 0) },
+  ];
+
+  return (
+    <>
+      <Header
+        title="Scenario Desk"
+        subtitle="Price one deal several ways and compare the structures side by side"
+      />
+
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-1 h-fit">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Saved Scenarios</CardTitle>
+                <CardDescription>Most recently changed first</CardDescription>
+              </div>
+              <Button size="sm" variant="outline" onClick={startNew}>
+                <Plus className="w-4 h-4 mr-1" /> New
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isLoading ? (
+                <div className="text-center text-text-secondary py-8 text-sm">Loading scenarios...</div>
+              ) : scenarios.length === 0 ? (
+                <div className="text-center text-text-secondary py-8 text-sm">No saved scenarios yet</div>
+              ) : (
+                scenarios.map((scenario) => (
+                  <button
+                    key={scenario.id}
+                    onClick={() => open(scenario)}
+                    className={`w-full text-left border rounded-lg p-3 transition-colors ${selectedId === scenario.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-medium text-text-primary">{scenario.name}</span>
+                      {scenario.convertedAt && <Badge className="bg-green-100 text-green-800">Converted</Badge>}
+                    </div>
+                    <div className="text-sm text-text-secondary">
+                      {scenario.structures.length} structures · {formatDate(scenario.updatedAt)}
+                    </div>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-3 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Deal</CardTitle>
+                <CardDescription>Shared by every structure below</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label>Scenario Name</Label>
+                    <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="123 Main St refinance" />
+                  </div>
+                  <div>
+                    <Label>Lead</Label>
+                    <Select value={contactId} onValueChange={setContactId}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No lead</SelectItem>
+                        {contacts.map((contact) => (
+                          <SelectItem key={contact.id} value={String(contact.id)}>
+                            {contact.firstName} {contact.lastName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Loan Purpose</Label>
+                    <Select value={deal.loanPurpose} onValueChange={(value) => setDeal({ ...deal, loanPurpose: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="purchase">Purchase</SelectItem>
+                        <SelectItem value="refinance">Rate/Term Refinance</SelectItem>
+                        <SelectItem value="cash_out">Cash-Out Refinance</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Property Type</Label>
+                    <Select value={deal.propertyType} onValueChange={(value) => setDeal({ ...deal, propertyType: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single_family">Single Family</SelectItem>
+                        <SelectItem value="condo">Condo</SelectItem>
+                        <SelectItem value="townhouse">Townhouse</SelectItem>
+                        <SelectItem value="multi_family">Multi-Family</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Borrower Experience</Label>
+                    <Select value={deal.borrowerExperience} onValueChange={(value) => setDeal({ ...deal, borrowerExperience: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="first_time">First-time investor</SelectItem>
+                        <SelectItem value="some">Some experience</SelectItem>
+                        <SelectItem value="experienced">Experienced</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Timeline</Label>
+                    <Select value={deal.timeline} onValueChange={(value) => setDeal({ ...deal, timeline: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="standard">Standard</SelectItem>
+                        <SelectItem value="urgent">Expedited</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {dealFields.map((field) => (
+                    <div key={field.key}>
+                      <Label>{field.label}</Label>
+                      <Input
+                        type={field.type || 'text'}
+                        value={deal[field.key] || ''}
+                        onChange={(e) => setDeal({ ...deal, [field.key]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle>Structures</CardTitle>
+                  <CardDescription>Up to {MAX_STRUCTURES} ways to structure the loan</CardDescription>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={structures.length >= MAX_STRUCTURES}
+                  onClick={() => setStructures([...structures, newStructure(structures.length)])}
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add Structure
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {structures.map((structure, index) => (
+                  <div key={structure.id} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end border rounded-lg p-3">
+                    <div>
+                      <Label>Label</Label>
+                      <Input value={structure.label} onChange={(e) => updateStructure(index, { label: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label>Program</Label>
+                      <Select value={structure.loanType} onValueChange={(value) => updateStructure(index, { loanType: value })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {LOAN_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{getLoanTypeLabel(type)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>LTV (%)</Label>
+                      <Input type="number" value={structure.ltv} onChange={(e) => updateStructure(index, { ltv: e.target.value })} />
+                    </div>
+                    <div>
+                      <Label>Payment</Label>
+                      <Select
+                        value={structure.interestOnly ? 'io' : 'amortizing'}
+                        onValueChange={(value) => updateStructure(index, { interestOnly: value === 'io' })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="amortizing">Amortizing</SelectItem>
+                          <SelectItem value="io">Interest Only</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Term</Label>
+                      <Select value={structure.termYears} onValueChange={(value) => updateStructure(index, { termYears: value })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="30">30 years</SelectItem>
+                          <SelectItem value="40">40 years</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Prepay</Label>
+                      <Select
+                        value={structure.prepaymentPenalty}
+                        onValueChange={(value) => updateStructure(index, { prepaymentPenalty: value as StructureForm['prepaymentPenalty'] })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {PREPAYMENT_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      disabled={structures.length === 1}
+                      onClick={() => setStructures(structures.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <div className="flex gap-2 pt-2">
+                  <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !name}>
+                    {saveMutation.isPending ? 'Pricing...' : selectedId ? 'Save & Reprice' : 'Save & Price'}
+                  </Button>
+                  {selectedId && (
+                    <>
+                      <Button variant="outline" onClick={() => refreshMutation.mutate()} disabled={refreshMutation.isPending}>
+                        <RefreshCw className="w-4 h-4 mr-1" /> Reprice
+                      </Button>
+                      <Button variant="outline" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+                        <Trash2 className="w-4 h-4 mr-1" /> Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Comparison</CardTitle>
+                  <CardDescription>
+                    {selected.evaluatedAt ? `Priced ${formatDate(selected.evaluatedAt)}` : 'Not priced yet'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 pr-4 font-medium text-text-secondary"></th>
+                        {selected.structures.map((structure) => (
+                          <th key={structure.id} className="text-left py-2 pr-4 font-medium">
+                            {structure.label}
+                            <div className="text-xs font-normal text-text-secondary">
+                              {getLoanTypeLabel(structure.loanType)} · {Math.round(structure.ltv * 100)}% LTV · {structure.interestOnly ? 'IO' : 'Amortizing'} · {structure.termYears} yr
+                            </div>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {metricRows.map((row) => (
+                        <tr key={row.label} className="border-b">
+                          <td className="py-2 pr-4 text-text-secondary">{row.label}</td>
+                          {selected.structures.map((structure) => {
+                            const result = resultFor(structure.id);
+                            return (
+                              <td key={structure.id} className="py-2 pr-4">
+                                {result?.eligible ? row.value(result) : '—'}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                      <tr>
+                        <td className="py-3 pr-4"></td>
+                        {selected.structures.map((structure) => {
+                          const result = resultFor(structure.id);
+                          if (!result?.eligible) {
+                            return (
+                              <td key={structure.id} className="py-3 pr-4 align-top text-xs text-red-600">
+                                No eligible lender
+                                {result?.exclusions.slice(0, 3).map((exclusion) => (
+                                  <div key={`${exclusion.lenderName}-${exclusion.loanProgram}`} className="text-text-secondary">
+                                    {exclusion.lenderName}: {exclusion.reason}
+                                  </div>
+                                ))}
+                              </td>
+                            );
+                          }
+                          return (
+                            <td key={structure.id} className="py-3 pr-4">
+                              {selected.convertedStructureId === structure.id ? (
+                                <Badge className="bg-green-100 text-green-800">Converted</Badge>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  disabled={!!selected.convertedAt || convertMutation.isPending}
+                                  onClick={() => convertMutation.mutate(structure.id)}
+                                >
+                                  <ArrowRightCircle className="w-4 h-4 mr-1" /> Convert
+                                </Button>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,29 +1,339 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
-import { Card, CardContent } from "@/components/ui/card";
-import { Calculator } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, getLoanTypeLabel, getStatusColor, getStatusLabel } from "@/lib/utils";
+import type { LoanApplicationWithDetails, UnderwritingDecision } from "@shared/schema";
+import LoanConditionsPanel from "@/components/loan-conditions-panel";
+import LoanTimelinePanel from "@/components/loan-timeline-panel";
+import { Calculator, CheckCircle2, AlertTriangle, XCircle, HelpCircle } from "lucide-react";
+
+type QueueItem = LoanApplicationWithDetails & {
+  program: 'dscr' | 'fix_flip' | 'bridge';
+  latestDecision: UnderwritingDecision | null;
+};
+
+interface Finding {
+  code: string;
+  severity: 'pass' | 'warning' | 'fail' | 'missing';
+  message: string;
+  value?: number | string | null;
+  threshold?: number | string | null;
+}
+
+interface AnalysisResult {
+  program: string;
+  decision: string;
+  metrics: Record<string, number | string | null>;
+  findings: Finding[];
+  conditions: string[];
+}
+
+const inputFields: Array<{ key: string; label: string; programs: string[] }> = [
+  { key: 'creditScore', label: 'Credit Score', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'loanAmount', label: 'Loan Amount', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'interestRate', label: 'Interest Rate (%)', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'termMonths', label: 'Term (months)', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'monthlyRent', label: 'Monthly Rent', programs: ['dscr'] },
+  { key: 'monthlyTaxes', label: 'Monthly Taxes', programs: ['dscr'] },
+  { key: 'monthlyInsurance', label: 'Monthly Insurance', programs: ['dscr'] },
+  { key: 'monthlyHoa', label: 'Monthly HOA', programs: ['dscr'] },
+  { key: 'asIsValue', label: 'As-Is Value', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'purchasePrice', label: 'Purchase Price', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'rehabBudget', label: 'Rehab Budget', programs: ['fix_flip'] },
+  { key: 'arv', label: 'After Repair Value', programs: ['fix_flip'] },
+  { key: 'liquidAssets', label: 'Verified Liquidity', programs: ['dscr', 'fix_flip', 'bridge'] },
+  { key: 'completedProjects', label: 'Completed Projects (36 mo)', programs: ['dscr', 'fix_flip', 'bridge'] },
+];
+
+// The staff UI has no signed-in user yet; reviewer sign-off is recorded against this id
+const CURRENT_USER_ID = 1;
+
+const decisionStyles: Record<string, string> = {
+  approve: 'bg-green-100 text-green-800',
+  approve_with_conditions: 'bg-teal-100 text-teal-800',
+  suspend: 'bg-yellow-100 text-yellow-800',
+  decline: 'bg-red-100 text-red-800',
+};
+
+const severityIcons = {
+  pass: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  warning: <AlertTriangle className="w-4 h-4 text-yellow-600" />,
+  fail: <XCircle className="w-4 h-4 text-red-600" />,
+  missing: <HelpCircle className="w-4 h-4 text-gray-500" />,
+};
+
+function formatRatio(value: number | string | null | undefined, asPercent = true): string {
+  if (value === null || value === undefined) return '—';
+  const num = Number(value);
+  return asPercent ? `${(num * 100).toFixed(1)}%` : num.toFixed(2);
+}
+
+function getDefaultInputs(loan: QueueItem): Record<string, string> {
+  return {
+    loanAmount: loan.requestedAmount || '',
+    interestRate: loan.interestRate || '',
+    termMonths: loan.termMonths?.toString() || '',
+    monthlyRent: loan.monthlyRent || '',
+    asIsValue: loan.property.propertyValue || '',
+    purchasePrice: loan.property.purchasePrice || '',
+    rehabBudget: loan.property.rehabCost || '',
+    arv: loan.property.arv || '',
+    ...(loan.latestDecision?.inputs as Record<string, string> | undefined),
+  };
+}
 
 export default function Underwriting() {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: queue = [], isLoading } = useQuery<QueueItem[]>({
+    queryKey: ['/api/underwriting/queue'],
+  });
+
+  const selected = queue.find(loan => loan.id === selectedId) || null;
+
+  const { data: decisions = [] } = useQuery<UnderwritingDecision[]>({
+    queryKey: [`/api/underwriting/${selectedId}/decisions`],
+    enabled: selectedId !== null,
+  });
+
+  useEffect(() => {
+    if (selected) {
+      setInputs(getDefaultInputs(selected));
+      setAnalysis(null);
+      setNotes('');
+    }
+  }, [selectedId]);
+
+  const buildPayload = () => {
+    const payload: Record<string, number> = {};
+    for (const [key, value] of Object.entries(inputs)) {
+      if (value !== '' && value !== null && value !== undefined && !isNaN(Number(value))) {
+        payload[key] = Number(value);
+      }
+    }
+    return payload;
+  };
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/underwriting/${selectedId}/analyze`, buildPayload());
+      return response.json();
+    },
+    onSuccess: (result: AnalysisResult) => setAnalysis(result),
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Analysis failed", variant: "destructive" });
+    },
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/underwriting/${selectedId}/decisions`, { ...buildPayload(), notes });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Decision Recorded", description: "Underwriting decision saved to the loan file" });
+      queryClient.invalidateQueries({ queryKey: ['/api/underwriting/queue'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/underwriting/${selectedId}/decisions`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save decision", variant: "destructive" });
+    },
+  });
+
   return (
     <>
-      <Header 
-        title="Underwriting" 
+      <Header
+        title="Underwriting"
         subtitle="Review and analyze loan applications"
       />
-      
+
       <main className="flex-1 overflow-y-auto p-6">
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-12">
-            <Calculator className="w-16 h-16 text-gray-400 mb-4" />
-            <h3 className="text-lg font-semibold text-text-primary mb-2">
-              Underwriting Dashboard
-            </h3>
-            <p className="text-text-secondary text-center max-w-md">
-              Underwriting tools and calculators will be available here. 
-              Analyze DSCR ratios, LTV calculations, and risk assessments.
-            </p>
-          </CardContent>
-        </Card>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1 h-fit">
+            <CardHeader>
+              <CardTitle>Underwriting Queue</CardTitle>
+              <CardDescription>DSCR, fix-and-flip and bridge files awaiting a decision</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isLoading ? (
+                <div className="text-center text-text-secondary py-8 text-sm">Loading queue...</div>
+              ) : queue.length === 0 ? (
+                <div className="text-center text-text-secondary py-8 text-sm">No loans waiting on underwriting</div>
+              ) : (
+                queue.map((loan) => (
+                  <button
+                    key={loan.id}
+                    onClick={() => setSelectedId(loan.id)}
+                    className={`w-full text-left border rounded-lg p-3 transition-colors ${selectedId === loan.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-medium text-text-primary">
+                        {loan.borrower.firstName} {loan.borrower.lastName}
+                      </span>
+                      <Badge className={getStatusColor(loan.status)}>{getStatusLabel(loan.status)}</Badge>
+                    </div>
+                    <div className="text-sm text-text-secondary">
+                      {getLoanTypeLabel(loan.loanType)} · {formatCurrency(loan.requestedAmount)}
+                    </div>
+                    {loan.latestDecision && (
+                      <Badge className={`mt-2 ${decisionStyles[loan.latestDecision.decision]}`}>
+                        {loan.latestDecision.decision.replace(/_/g, ' ')}
+                      </Badge>
+                    )}
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-6">
+            {!selected ? (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                  <Calculator className="w-16 h-16 text-gray-400 mb-4" />
+                  <h3 className="text-lg font-semibold text-text-primary mb-2">Select a loan</h3>
+                  <p className="text-text-secondary text-center max-w-md">
+                    Choose a file from the queue to compute DSCR, LTV, LTC, reserves and record a decision.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{selected.property.address}, {selected.property.city}</CardTitle>
+                    <CardDescription>
+                      {getLoanTypeLabel(selected.loanType)} · LA-{selected.id}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                      {inputFields.filter(field => field.programs.includes(selected.program)).map(field => (
+                        <div key={field.key} className="space-y-1">
+                          <Label htmlFor={field.key}>{field.label}</Label>
+                          <Input
+                            id={field.key}
+                            type="number"
+                            value={inputs[field.key] ?? ''}
+                            onChange={(e) => setInputs({ ...inputs, [field.key]: e.target.value })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="mt-4 space-y-1">
+                      <Label htmlFor="notes">Underwriter Notes</Label>
+                      <Textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+                    </div>
+                    <div className="flex gap-3 mt-4">
+                      <Button variant="outline" onClick={() => analyzeMutation.mutate()} disabled={analyzeMutation.isPending}>
+                        {analyzeMutation.isPending ? 'Analyzing...' : 'Run Analysis'}
+                      </Button>
+                      <Button onClick={() => decisionMutation.mutate()} disabled={decisionMutation.isPending}>
+                        {decisionMutation.isPending ? 'Saving...' : 'Record Decision'}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {analysis && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center justify-between">
+                        <span>Analysis</span>
+                        <Badge className={decisionStyles[analysis.decision]}>{analysis.decision.replace(/_/g, ' ')}</Badge>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <Metric label="PITIA" value={analysis.metrics.pitia !== null ? formatCurrency(Number(analysis.metrics.pitia)) : '—'} />
+                        <Metric label="DSCR" value={formatRatio(analysis.metrics.dscr, false)} />
+                        <Metric label="LTV" value={formatRatio(analysis.metrics.ltv)} />
+                        <Metric label="LTC" value={formatRatio(analysis.metrics.ltc)} />
+                        <Metric label="ARV-LTV" value={formatRatio(analysis.metrics.arvLtv)} />
+                        <Metric label="Cash to Close" value={analysis.metrics.cashToClose !== null ? formatCurrency(Number(analysis.metrics.cashToClose)) : '—'} />
+                        <Metric label="Reserves" value={analysis.metrics.reserveMonths !== null ? `${analysis.metrics.reserveMonths} mo` : '—'} />
+                        <Metric label="Experience" value={String(analysis.metrics.experienceTier).replace('_', ' ')} />
+                      </div>
+
+                      <div>
+                        <h4 className="font-semibold text-text-primary mb-2">Findings</h4>
+                        <div className="space-y-2">
+                          {analysis.findings.map((finding, index) => (
+                            <div key={`${finding.code}-${index}`} className="flex items-start gap-2 text-sm">
+                              {severityIcons[finding.severity]}
+                              <span>{finding.message}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {analysis.conditions.length > 0 && (
+                        <div>
+                          <h4 className="font-semibold text-text-primary mb-2">Conditions</h4>
+                          <ul className="list-disc list-inside space-y-1 text-sm text-text-secondary">
+                            {analysis.conditions.map((condition) => (
+                              <li key={condition}>{condition}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                <LoanConditionsPanel loanApplicationId={selected.id} reviewerId={CURRENT_USER_ID} />
+
+                <LoanTimelinePanel loanApplicationId={selected.id} />
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Decision History</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {decisions.length === 0 ? (
+                      <div className="text-center text-text-secondary py-4 text-sm">No decisions recorded yet</div>
+                    ) : (
+                      <div className="space-y-3">
+                        {decisions.map((decision) => (
+                          <div key={decision.id} className="flex items-center justify-between border-b pb-2 last:border-0">
+                            <div>
+                              <Badge className={decisionStyles[decision.decision]}>{decision.decision.replace(/_/g, ' ')}</Badge>
+                              {decision.notes && <p className="text-sm text-text-secondary mt-1">{decision.notes}</p>}
+                            </div>
+                            <span className="text-xs text-text-secondary">{formatDate(decision.createdAt)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
       </main>
     </>
   );
 }
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="border rounded-lg p-3">
+      <div className="text-xs text-text-secondary">{label}</div>
+      <div className="text-lg font-semibold text-text-primary">{value}</div>
+    </div>
+  );
+}
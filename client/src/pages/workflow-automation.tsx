@@ -77,6 +77,49 @@ const actionTypes = [
   { value: 'ai_analysis', label: 'AI Analysis', icon: Zap }
 ];
 
+// Starting points for the Templates tab; trigger config uses the keys the workflow engine matches on
+const workflowTemplates: Record<string, Partial<Workflow>> = {
+  email: {
+    name: 'Welcome New Borrowers',
+    description: 'Send a welcome email when a new application is submitted',
+    status: 'draft',
+    trigger: { type: 'application_created', config: {} },
+    steps: [
+      { id: 'welcome', type: 'action', name: 'Send welcome email', position: { x: 0, y: 0 }, config: {
+        action: 'send_email',
+        subject: 'We received your application',
+        message: 'Hi {{borrower.firstName}}, thanks for applying. Your loan officer will be in touch shortly.'
+      } }
+    ]
+  },
+  documents: {
+    name: 'Document Follow-up',
+    description: 'Create a follow-up task every day for loans waiting on documents',
+    status: 'draft',
+    trigger: { type: 'schedule', config: { intervalMinutes: 1440, statuses: ['document_review'] } },
+    steps: [
+      { id: 'follow-up', type: 'action', name: 'Follow up on missing documents', position: { x: 0, y: 0 }, config: {
+        action: 'create_task',
+        title: 'Follow up on missing documents for {{borrower.fullName}}',
+        dueInDays: 1
+      } }
+    ]
+  },
+  approval: {
+    name: 'Approval Notifications',
+    description: 'Email the borrower when their loan is conditionally approved',
+    status: 'draft',
+    trigger: { type: 'status_changed', config: { toStatus: 'conditionally_approved' } },
+    steps: [
+      { id: 'approved', type: 'action', name: 'Send approval email', position: { x: 0, y: 0 }, config: {
+        action: 'send_email',
+        subject: 'Your loan has been conditionally approved',
+        message: 'Good news {{borrower.firstName}}! Your loan {{loan.number}} has been conditionally approved.'
+      } }
+    ]
+  }
+};
+
 export default function WorkflowAutomation() {
   const [selectedWorkflow, setSelectedWorkflow] = useState<Workflow | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -87,13 +130,13 @@ export default function WorkflowAutomation() {
   // Fetch workflows
   const { data: workflows = [], isLoading } = useQuery({
     queryKey: ['/api/workflows'],
-    queryFn: () => apiRequest('GET', '/api/workflows'),
+    queryFn: () => apiRequest('GET', '/api/workflows').then(res => res.json()),
   });
 
   // Fetch workflow executions
   const { data: executions = [] } = useQuery({
     queryKey: ['/api/workflow-executions'],
-    queryFn: () => apiRequest('GET', '/api/workflow-executions'),
+    queryFn: () => apiRequest('GET', '/api/workflow-executions').then(res => res.json()),
     refetchInterval: 10000, // Refresh every 10 seconds
   });
 
@@ -149,7 +192,7 @@ export default function WorkflowAutomation() {
       name: 'Document Follow-up',
       description: 'Automatically follow up on missing documents after 24 hours',
       status: 'active',
-      trigger: { type: 'schedule', config: { interval: 'daily' } },
+      trigger: { type: 'schedule', config: { intervalMinutes: 1440 } },
       steps: [],
       executions: 89,
       successRate: 87.2,
@@ -161,7 +204,7 @@ export default function WorkflowAutomation() {
       name: 'Approval Notifications',
       description: 'Notify all stakeholders when loan is approved',
       status: 'active',
-      trigger: { type: 'status_changed', config: { status: 'approved' } },
+      trigger: { type: 'status_changed', config: { toStatus: 'conditionally_approved' } },
       steps: [],
       executions: 45,
       successRate: 100,
@@ -403,7 +446,7 @@ export default function WorkflowAutomation() {
                               {execution.status === 'running' ? (
                                 <span className="flex items-center gap-1">
                                   <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
-                                  Running for {Math.floor((Date.now() - execution.startTime.getTime()) / 1000)}s
+                                  Running for {Math.floor((Date.now() - new Date(execution.startTime).getTime()) / 1000)}s
                                 </span>
                               ) : (
                                 <span>
@@ -413,7 +456,7 @@ export default function WorkflowAutomation() {
                             </div>
                           </div>
                           <div className="text-sm text-gray-600">
-                            Started: {execution.startTime.toLocaleString()}
+                            Started: {new Date(execution.startTime).toLocaleString()}
                           </div>
                         </div>
                       );
@@ -434,7 +477,7 @@ export default function WorkflowAutomation() {
                   <p className="text-sm text-gray-600 mb-4">
                     Automated email campaigns for borrower communication
                   </p>
-                  <Button size="sm">Use Template</Button>
+                  <Button size="sm" onClick={() => createWorkflowMutation.mutate(workflowTemplates.email)}>Use Template</Button>
                 </CardContent>
               </Card>
 
@@ -445,7 +488,7 @@ export default function WorkflowAutomation() {
                   <p className="text-sm text-gray-600 mb-4">
                     Automate document collection and review processes
                   </p>
-                  <Button size="sm">Use Template</Button>
+                  <Button size="sm" onClick={() => createWorkflowMutation.mutate(workflowTemplates.documents)}>Use Template</Button>
                 </CardContent>
               </Card>
 
@@ -456,7 +499,7 @@ export default function WorkflowAutomation() {
                   <p className="text-sm text-gray-600 mb-4">
                     Streamline loan approval and notification workflows
                   </p>
-                  <Button size="sm">Use Template</Button>
+                  <Button size="sm" onClick={() => createWorkflowMutation.mutate(workflowTemplates.approval)}>Use Template</Button>
                 </CardContent>
               </Card>
 
@@ -4,7 +4,7 @@ import { aiChatbot } from './ai-chatbot';
 import { aiVoicebot } from './ai-voicebot';
 import { socialEnrichment } from './social-enrichment';
 import { crmIntegrations } from './crm-integrations';
-import { paymentProcessor } from './payment-processor';
+import { paymentProcessor, PaymentCalculationError } from './payment-processor';
 import { videoGenerator } from './video-generator';
 import { blockchainService } from './blockchain-service';
 import { advancedAnalytics } from './advanced-analytics';
@@ -12,6 +12,8 @@ import { propertyTaxService } from './property-tax-service';
 import multer from 'multer';
 import { nanoid } from 'nanoid';
 import { join } from 'path';
+import { requirePermission } from './rbac-service';
+import { loanPaymentTermsSchema } from '@shared/schema';
 
 const router = Router();
 
@@ -26,7 +28,7 @@ const upload = multer({
 });
 
 // AI Document Processing Routes
-router.post('/ai/documents/process', upload.single('document'), async (req, res) => {
+router.post('/ai/documents/process', requirePermission('documents.upload'), upload.single('document'), async (req, res) => {
   try {
     const { documentId } = req.body;
     const file = req.file;
@@ -54,7 +56,7 @@ router.post('/ai/documents/process', upload.single('document'), async (req, res)
   }
 });
 
-router.post('/ai/documents/batch-process', async (req, res) => {
+router.post('/ai/documents/batch-process', requirePermission('documents.upload'), async (req, res) => {
   try {
     const { documentIds } = req.body;
 
@@ -78,7 +80,7 @@ router.post('/ai/documents/batch-process', async (req, res) => {
   }
 });
 
-router.post('/ai/documents/summary', async (req, res) => {
+router.post('/ai/documents/summary', requirePermission('documents.view'), async (req, res) => {
   try {
     const { documentIds } = req.body;
 
@@ -103,7 +105,7 @@ router.post('/ai/documents/summary', async (req, res) => {
 });
 
 // AI Chatbot Routes
-router.post('/ai/chat/message', async (req, res) => {
+router.post('/ai/chat/message', requirePermission('communications.send'), async (req, res) => {
   try {
     const { sessionId, message, contactId } = req.body;
 
@@ -127,7 +129,7 @@ router.post('/ai/chat/message', async (req, res) => {
   }
 });
 
-router.get('/ai/chat/history/:sessionId', async (req, res) => {
+router.get('/ai/chat/history/:sessionId', requirePermission('communications.view'), async (req, res) => {
   try {
     const { sessionId } = req.params;
     const history = await aiChatbot.getChatHistory(sessionId);
@@ -146,7 +148,7 @@ router.get('/ai/chat/history/:sessionId', async (req, res) => {
   }
 });
 
-router.post('/ai/chat/summarize', async (req, res) => {
+router.post('/ai/chat/summarize', requirePermission('communications.view'), async (req, res) => {
   try {
     const { sessionId } = req.body;
 
@@ -170,7 +172,7 @@ router.post('/ai/chat/summarize', async (req, res) => {
   }
 });
 
-router.post('/ai/chat/end-session', async (req, res) => {
+router.post('/ai/chat/end-session', requirePermission('communications.send'), async (req, res) => {
   try {
     const { sessionId } = req.body;
 
@@ -194,7 +196,7 @@ router.post('/ai/chat/end-session', async (req, res) => {
 });
 
 // Payment Processing Routes
-router.post('/ai/payments/create-intent', async (req, res) => {
+router.post('/ai/payments/create-intent', requirePermission('loans.edit'), async (req, res) => {
   try {
     const { amount, currency, loanApplicationId, borrowerId, description, feeTypes } = req.body;
 
@@ -225,7 +227,7 @@ router.post('/ai/payments/create-intent', async (req, res) => {
   }
 });
 
-router.post('/ai/payments/calculate-loan', async (req, res) => {
+router.post('/ai/payments/calculate-loan', requirePermission('loans.view'), async (req, res) => {
   try {
     const { principal, interestRate, termYears, paymentFrequency } = req.body;
 
@@ -233,10 +235,17 @@ router.post('/ai/payments/calculate-loan', async (req, res) => {
       return res.status(400).json({ error: 'All loan parameters are required' });
     }
 
+    // Optional interest-only, balloon, ARM and holdback terms
+    const terms = loanPaymentTermsSchema.safeParse(req.body);
+    if (!terms.success) {
+      return res.status(400).json({ error: 'Invalid payment terms', details: terms.error.issues });
+    }
+
     const calculation = await paymentProcessor.calculateLoanPayment({
-      principal,
-      interestRate,
-      termYears,
+      ...terms.data,
+      principal: Number(principal),
+      interestRate: Number(interestRate),
+      termYears: Number(termYears),
       paymentFrequency
     });
 
@@ -246,6 +255,9 @@ router.post('/ai/payments/calculate-loan', async (req, res) => {
       message: 'Loan calculation completed'
     });
   } catch (error) {
+    if (error instanceof PaymentCalculationError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Loan calculation error:', error);
     res.status(500).json({ 
       error: 'Loan calculation failed',
@@ -255,7 +267,7 @@ router.post('/ai/payments/calculate-loan', async (req, res) => {
 });
 
 // Video Generation Routes
-router.post('/ai/video/generate', async (req, res) => {
+router.post('/ai/video/generate', requirePermission('marketing.manage'), async (req, res) => {
   try {
     const { 
       type, 
@@ -301,7 +313,7 @@ router.post('/ai/video/generate', async (req, res) => {
   }
 });
 
-router.get('/ai/video/project/:projectId', async (req, res) => {
+router.get('/ai/video/project/:projectId', requirePermission('marketing.manage'), async (req, res) => {
   try {
     const { projectId } = req.params;
     const project = await videoGenerator.getProject(projectId);
@@ -324,7 +336,7 @@ router.get('/ai/video/project/:projectId', async (req, res) => {
   }
 });
 
-router.get('/ai/video/projects', async (req, res) => {
+router.get('/ai/video/projects', requirePermission('marketing.manage'), async (req, res) => {
   try {
     const projects = await videoGenerator.getAllProjects();
 
@@ -342,7 +354,7 @@ router.get('/ai/video/projects', async (req, res) => {
   }
 });
 
-router.post('/ai/video/subtitles', async (req, res) => {
+router.post('/ai/video/subtitles', requirePermission('marketing.manage'), async (req, res) => {
   try {
     const { projectId } = req.body;
 
@@ -367,7 +379,7 @@ router.post('/ai/video/subtitles', async (req, res) => {
 });
 
 // Blockchain Routes
-router.post('/ai/blockchain/record-transaction', async (req, res) => {
+router.post('/ai/blockchain/record-transaction', requirePermission('documents.upload'), async (req, res) => {
   try {
     const { documentId, loanApplicationId, action, validator, metadata } = req.body;
 
@@ -397,7 +409,7 @@ router.post('/ai/blockchain/record-transaction', async (req, res) => {
   }
 });
 
-router.get('/ai/blockchain/verify/:documentId', async (req, res) => {
+router.get('/ai/blockchain/verify/:documentId', requirePermission('documents.view'), async (req, res) => {
   try {
     const { documentId } = req.params;
     const verification = await blockchainService.verifyDocumentIntegrity(parseInt(documentId));
@@ -416,7 +428,7 @@ router.get('/ai/blockchain/verify/:documentId', async (req, res) => {
   }
 });
 
-router.post('/ai/blockchain/certificate', async (req, res) => {
+router.post('/ai/blockchain/certificate', requirePermission('documents.view'), async (req, res) => {
   try {
     const { documentId } = req.body;
 
@@ -440,7 +452,7 @@ router.post('/ai/blockchain/certificate', async (req, res) => {
   }
 });
 
-router.get('/ai/blockchain/stats', async (req, res) => {
+router.get('/ai/blockchain/stats', requirePermission('reports.view'), async (req, res) => {
   try {
     const stats = await blockchainService.getBlockchainStats();
 
@@ -458,7 +470,7 @@ router.get('/ai/blockchain/stats', async (req, res) => {
   }
 });
 
-router.post('/ai/blockchain/audit', async (req, res) => {
+router.post('/ai/blockchain/audit', requirePermission('audit.view'), async (req, res) => {
   try {
     const auditResult = await blockchainService.auditBlockchain();
 
@@ -477,7 +489,7 @@ router.post('/ai/blockchain/audit', async (req, res) => {
 });
 
 // Advanced Analytics Routes
-router.post('/ai/analytics/query', async (req, res) => {
+router.post('/ai/analytics/query', requirePermission('reports.advanced'), async (req, res) => {
   try {
     const { metrics, dimensions, filters, timeRange, groupBy, orderBy, limit } = req.body;
 
@@ -509,7 +521,7 @@ router.post('/ai/analytics/query', async (req, res) => {
   }
 });
 
-router.get('/ai/analytics/business-intelligence', async (req, res) => {
+router.get('/ai/analytics/business-intelligence', requirePermission('reports.advanced'), async (req, res) => {
   try {
     const bi = await advancedAnalytics.generateBusinessIntelligence();
 
@@ -527,7 +539,7 @@ router.get('/ai/analytics/business-intelligence', async (req, res) => {
   }
 });
 
-router.post('/ai/analytics/predictive-model', async (req, res) => {
+router.post('/ai/analytics/predictive-model', requirePermission('reports.advanced'), async (req, res) => {
   try {
     const { name, type, features, target, trainingData } = req.body;
 
@@ -557,7 +569,7 @@ router.post('/ai/analytics/predictive-model', async (req, res) => {
   }
 });
 
-router.post('/ai/analytics/predict', async (req, res) => {
+router.post('/ai/analytics/predict', requirePermission('reports.advanced'), async (req, res) => {
   try {
     const { modelId, input } = req.body;
 
@@ -581,7 +593,7 @@ router.post('/ai/analytics/predict', async (req, res) => {
   }
 });
 
-router.get('/ai/analytics/export/:format', async (req, res) => {
+router.get('/ai/analytics/export/:format', requirePermission('reports.advanced', 'data.export'), async (req, res) => {
   try {
     const { format } = req.params;
 
@@ -604,7 +616,7 @@ router.get('/ai/analytics/export/:format', async (req, res) => {
 });
 
 // AI Voicebot Routes
-router.post('/ai/voice/initiate-call', async (req, res) => {
+router.post('/ai/voice/initiate-call', requirePermission('communications.send'), async (req, res) => {
   try {
     const { contactId, phoneNumber, purpose } = req.body;
 
@@ -628,7 +640,7 @@ router.post('/ai/voice/initiate-call', async (req, res) => {
   }
 });
 
-router.post('/ai/voice/process-input', async (req, res) => {
+router.post('/ai/voice/process-input', requirePermission('communications.send'), async (req, res) => {
   try {
     const { sessionId, transcript } = req.body;
 
@@ -652,7 +664,7 @@ router.post('/ai/voice/process-input', async (req, res) => {
   }
 });
 
-router.post('/ai/voice/end-call', async (req, res) => {
+router.post('/ai/voice/end-call', requirePermission('communications.send'), async (req, res) => {
   try {
     const { sessionId } = req.body;
 
@@ -676,7 +688,7 @@ router.post('/ai/voice/end-call', async (req, res) => {
   }
 });
 
-router.get('/ai/voice/transcript/:sessionId', async (req, res) => {
+router.get('/ai/voice/transcript/:sessionId', requirePermission('communications.view'), async (req, res) => {
   try {
     const { sessionId } = req.params;
     const transcript = await aiVoicebot.getCallTranscript(sessionId);
@@ -695,7 +707,7 @@ router.get('/ai/voice/transcript/:sessionId', async (req, res) => {
   }
 });
 
-router.post('/ai/voice/outbound-call', async (req, res) => {
+router.post('/ai/voice/outbound-call', requirePermission('communications.send'), async (req, res) => {
   try {
     const { contactId, phoneNumber, script } = req.body;
 
@@ -720,7 +732,7 @@ router.post('/ai/voice/outbound-call', async (req, res) => {
 });
 
 // CRM Integration Routes
-router.post('/ai/crm/contacts', async (req, res) => {
+router.post('/ai/crm/contacts', requirePermission('contacts.create'), async (req, res) => {
   try {
     const contactData = req.body;
 
@@ -744,7 +756,7 @@ router.post('/ai/crm/contacts', async (req, res) => {
   }
 });
 
-router.put('/ai/crm/contacts/:contactId', async (req, res) => {
+router.put('/ai/crm/contacts/:contactId', requirePermission('contacts.edit'), async (req, res) => {
   try {
     const { contactId } = req.params;
     const updates = req.body;
@@ -765,7 +777,7 @@ router.put('/ai/crm/contacts/:contactId', async (req, res) => {
   }
 });
 
-router.get('/ai/crm/contacts', async (req, res) => {
+router.get('/ai/crm/contacts', requirePermission('contacts.view'), async (req, res) => {
   try {
     const contacts = await crmIntegrations.getAllContacts();
 
@@ -783,7 +795,7 @@ router.get('/ai/crm/contacts', async (req, res) => {
   }
 });
 
-router.get('/ai/crm/contacts/search', async (req, res) => {
+router.get('/ai/crm/contacts/search', requirePermission('contacts.view'), async (req, res) => {
   try {
     const { q } = req.query;
 
@@ -807,7 +819,7 @@ router.get('/ai/crm/contacts/search', async (req, res) => {
   }
 });
 
-router.post('/ai/crm/deals', async (req, res) => {
+router.post('/ai/crm/deals', requirePermission('contacts.edit'), async (req, res) => {
   try {
     const dealData = req.body;
 
@@ -831,7 +843,7 @@ router.post('/ai/crm/deals', async (req, res) => {
   }
 });
 
-router.put('/ai/crm/deals/:dealId/stage', async (req, res) => {
+router.put('/ai/crm/deals/:dealId/stage', requirePermission('contacts.edit'), async (req, res) => {
   try {
     const { dealId } = req.params;
     const { stage } = req.body;
@@ -856,7 +868,7 @@ router.put('/ai/crm/deals/:dealId/stage', async (req, res) => {
   }
 });
 
-router.get('/ai/crm/deals', async (req, res) => {
+router.get('/ai/crm/deals', requirePermission('contacts.view'), async (req, res) => {
   try {
     const { stage, contactId } = req.query;
 
@@ -883,7 +895,7 @@ router.get('/ai/crm/deals', async (req, res) => {
   }
 });
 
-router.post('/ai/crm/activities', async (req, res) => {
+router.post('/ai/crm/activities', requirePermission('contacts.edit'), async (req, res) => {
   try {
     const activityData = req.body;
 
@@ -907,7 +919,7 @@ router.post('/ai/crm/activities', async (req, res) => {
   }
 });
 
-router.get('/ai/crm/contacts/:contactId/activities', async (req, res) => {
+router.get('/ai/crm/contacts/:contactId/activities', requirePermission('contacts.view'), async (req, res) => {
   try {
     const { contactId } = req.params;
     const activities = await crmIntegrations.getContactActivities(contactId);
@@ -926,7 +938,7 @@ router.get('/ai/crm/contacts/:contactId/activities', async (req, res) => {
   }
 });
 
-router.get('/ai/crm/analytics', async (req, res) => {
+router.get('/ai/crm/analytics', requirePermission('reports.view'), async (req, res) => {
   try {
     const { startDate, endDate } = req.query;
 
@@ -949,7 +961,7 @@ router.get('/ai/crm/analytics', async (req, res) => {
   }
 });
 
-router.get('/ai/crm/pipeline/:pipelineId?', async (req, res) => {
+router.get('/ai/crm/pipeline/:pipelineId?', requirePermission('contacts.view'), async (req, res) => {
   try {
     const { pipelineId } = req.params;
     const pipeline = await crmIntegrations.getPipeline(pipelineId);
@@ -972,7 +984,7 @@ router.get('/ai/crm/pipeline/:pipelineId?', async (req, res) => {
   }
 });
 
-router.post('/ai/crm/integrations', async (req, res) => {
+router.post('/ai/crm/integrations', requirePermission('settings.edit'), async (req, res) => {
   try {
     const { platform, apiKey, endpoint } = req.body;
 
@@ -996,7 +1008,7 @@ router.post('/ai/crm/integrations', async (req, res) => {
   }
 });
 
-router.post('/ai/crm/sync/:platform', async (req, res) => {
+router.post('/ai/crm/sync/:platform', requirePermission('settings.edit'), async (req, res) => {
   try {
     const { platform } = req.params;
     const result = await crmIntegrations.syncWithCRM(platform as any);
@@ -1016,7 +1028,7 @@ router.post('/ai/crm/sync/:platform', async (req, res) => {
 });
 
 // Social Enrichment Routes
-router.post('/ai/social/enrich-contact', async (req, res) => {
+router.post('/ai/social/enrich-contact', requirePermission('contacts.edit'), async (req, res) => {
   try {
     const { contactId, email, name, phone, company, sources } = req.body;
 
@@ -1047,7 +1059,7 @@ router.post('/ai/social/enrich-contact', async (req, res) => {
   }
 });
 
-router.post('/ai/social/marketing-insights', async (req, res) => {
+router.post('/ai/social/marketing-insights', requirePermission('marketing.manage'), async (req, res) => {
   try {
     const { contactId } = req.body;
 
@@ -1072,7 +1084,7 @@ router.post('/ai/social/marketing-insights', async (req, res) => {
 });
 
 // AI Dashboard Status Route
-router.get('/ai/status', async (req, res) => {
+router.get('/ai/status', requirePermission('settings.view'), async (req, res) => {
   try {
     const status = {
       services: {
@@ -1115,7 +1127,7 @@ router.get('/ai/status', async (req, res) => {
 });
 
 // Property Tax and Ownership Information Routes
-router.post('/ai/property-tax/search', async (req, res) => {
+router.post('/ai/property-tax/search', requirePermission('loans.view'), async (req, res) => {
   try {
     const { propertyAddress, parcelNumber, ownerName } = req.body;
 
@@ -1143,7 +1155,7 @@ router.post('/ai/property-tax/search', async (req, res) => {
   }
 });
 
-router.post('/ai/property-tax/process-document', upload.single('document'), async (req, res) => {
+router.post('/ai/property-tax/process-document', requirePermission('documents.upload'), upload.single('document'), async (req, res) => {
   try {
     const { propertyId, loanApplicationId, documentType } = req.body;
     const file = req.file;
@@ -1173,7 +1185,7 @@ router.post('/ai/property-tax/process-document', upload.single('document'), asyn
   }
 });
 
-router.post('/ai/property-tax/auto-download', async (req, res) => {
+router.post('/ai/property-tax/auto-download', requirePermission('documents.upload'), async (req, res) => {
   try {
     const { propertyAddress, parcelNumber, years } = req.body;
 
@@ -1201,7 +1213,7 @@ router.post('/ai/property-tax/auto-download', async (req, res) => {
   }
 });
 
-router.get('/ai/property-tax/documents/:propertyId', async (req, res) => {
+router.get('/ai/property-tax/documents/:propertyId', requirePermission('documents.view'), async (req, res) => {
   try {
     const { propertyId } = req.params;
     const documents = await propertyTaxService.getPropertyTaxDocuments(parseInt(propertyId));
@@ -1220,7 +1232,7 @@ router.get('/ai/property-tax/documents/:propertyId', async (req, res) => {
   }
 });
 
-router.post('/ai/property-tax/validate', async (req, res) => {
+router.post('/ai/property-tax/validate', requirePermission('loans.view'), async (req, res) => {
   try {
     const { loanApplicationId } = req.body;
 
@@ -1244,7 +1256,7 @@ router.post('/ai/property-tax/validate', async (req, res) => {
   }
 });
 
-router.get('/ai/property-tax/report/:propertyId', async (req, res) => {
+router.get('/ai/property-tax/report/:propertyId', requirePermission('reports.view'), async (req, res) => {
   try {
     const { propertyId } = req.params;
     const report = await propertyTaxService.generateTaxBillReport(parseInt(propertyId));
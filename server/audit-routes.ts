@@ -0,0 +1,67 @@
+import { Router, type Request } from "express";
+import { auditService, type AuditQuery } from "./audit-service";
+import { requirePermission } from "./rbac-service";
+
+const router = Router();
+
+// The organization is not a filter: the service limits every query to the caller's own
+function parseFilters(req: Request): AuditQuery {
+  const query = req.query as Record<string, string | undefined>;
+  const toNumber = (value?: string) => value ? parseInt(value) : undefined;
+  const toDate = (value?: string) => value && !isNaN(Date.parse(value)) ? new Date(value) : undefined;
+  return {
+    timeframe: query.timeframe,
+    from: toDate(query.from),
+    to: toDate(query.to),
+    actorType: query.actorType,
+    actorId: toNumber(query.actorId),
+    action: query.action,
+    entityType: query.entityType,
+    entityId: query.entityId,
+    limit: toNumber(query.limit),
+    offset: toNumber(query.offset),
+  };
+}
+
+// Compliance center feed
+router.get("/audit-trail", requirePermission('audit.view'), async (req, res) => {
+  try {
+    const { entries } = await auditService.query(parseFilters(req));
+    res.json(auditService.toComplianceEntries(entries));
+  } catch (error) {
+    console.error("Get audit trail error:", error);
+    res.status(500).json({ message: "Failed to fetch audit trail" });
+  }
+});
+
+router.get("/audit-logs", requirePermission('audit.view'), async (req, res) => {
+  try {
+    res.json(await auditService.query(parseFilters(req)));
+  } catch (error) {
+    console.error("Get audit logs error:", error);
+    res.status(500).json({ message: "Failed to fetch audit logs" });
+  }
+});
+
+router.get("/audit-logs/export", requirePermission('audit.view', 'data.export'), async (req, res) => {
+  try {
+    const csv = await auditService.exportCsv(parseFilters(req));
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-trail-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("Export audit logs error:", error);
+    res.status(500).json({ message: "Failed to export audit logs" });
+  }
+});
+
+router.get("/audit-logs/verify", requirePermission('audit.view'), async (req, res) => {
+  try {
+    res.json(await auditService.verifyChain());
+  } catch (error) {
+    console.error("Verify audit chain error:", error);
+    res.status(500).json({ message: "Failed to verify audit chain" });
+  }
+});
+
+export default router;
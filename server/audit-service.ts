@@ -0,0 +1,502 @@
+// Audit Service
+// Hash-chained audit trail of mutating requests and sensitive-data views, with filtered queries and CSV export
+
+import crypto from "crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { db } from "./db";
+import { storage } from "./storage";
+import { databaseStorage } from "./database-storage";
+import { loanConditionService } from "./loan-condition-service";
+import { piiMasking } from "./pii-masking";
+import { tenantContext } from "./tenant-context";
+import type { ComplianceItem } from "./trid-service";
+import { auditLogs, type AuditFieldChange, type AuditLog } from "@shared/schema";
+import { and, asc, count, desc, eq, gte, isNull, lte, sql, type SQL } from "drizzle-orm";
+
+export type AuditActorType = 'user' | 'customer' | 'borrower' | 'realtor' | 'system' | 'anonymous';
+
+export interface AuditEntry {
+  organizationId?: number | null;
+  actorType: AuditActorType;
+  actorId?: number | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  method?: string | null;
+  path?: string | null;
+  statusCode?: number | null;
+  changes?: Record<string, AuditFieldChange> | null;
+  sensitiveFields?: string[];
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  timeframe?: string; // 24h, 7d, 30d, 90d, 1y
+  from?: Date;
+  to?: Date;
+  actorType?: string;
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstInvalidId: number | null;
+  reason?: string;
+}
+
+// Shape consumed by the compliance center's audit trail tab
+export interface ComplianceAuditEntry {
+  id: string;
+  action: string;
+  user: string;
+  timestamp: Date;
+  details: string;
+  entityType: 'application' | 'document' | 'user' | 'system';
+  entityId: string;
+}
+
+type EntityLoader = (id: number) => Promise<Record<string, any> | undefined>;
+
+const GENESIS_HASH = '0'.repeat(64);
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_QUERY_LIMIT = 500;
+const MAX_EXPORT_ROWS = 50000;
+const REDACTED = '[REDACTED]';
+
+// Keys whose values never enter the audit log
+const REDACTED_KEYS = /^(ssn|dateOfBirth|plaidAccessToken|password|passwordHash|token|accessToken|refreshToken|emailVerificationToken|passwordResetToken|accountNumber|routingNumber|taxId)$/i;
+
+// Responses from these paths expose bank account data regardless of their shape
+const SENSITIVE_PATHS: Array<{ pattern: RegExp; field: string }> = [
+  { pattern: /\/plaid\/(accounts|transactions|create-asset-report)/, field: 'bank_statement' },
+];
+
+// Requests that are not audited: the audit API itself and authentication chatter
+const EXCLUDED_PATHS = [/^\/api\/audit-/, /^\/api\/auth\//, /^\/api\/customer\/auth\//, /^\/api\/(customer|borrower|realtor)\/(login|logout|signup)/];
+
+const TIMEFRAMES: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+  '1y': 365 * 24 * 60 * 60 * 1000,
+};
+
+// Stable JSON with sorted keys; jsonb does not preserve key order, so hashes are computed over this form
+function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class AuditService {
+  private static instance: AuditService;
+  private entityLoaders: Map<string, EntityLoader> = new Map();
+
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  constructor() {
+    // Loaders let the middleware capture before/after state for the main mutable resources
+    this.registerEntityLoader('loan-applications', id => storage.getLoanApplication(id));
+    this.registerEntityLoader('documents', id => storage.getDocument(id));
+    this.registerEntityLoader('tasks', id => storage.getTask(id));
+    this.registerEntityLoader('users', id => storage.getUser(id));
+    this.registerEntityLoader('contacts', id => databaseStorage.getContact(id));
+    this.registerEntityLoader('conditions', id => loanConditionService.getCondition(id));
+  }
+
+  registerEntityLoader(entityType: string, loader: EntityLoader): void {
+    this.entityLoaders.set(entityType, loader);
+  }
+
+  // Appends an entry to its organization's chain (entries without an organization form their own chain). An advisory
+  // lock held until commit serializes appends to a chain across every app instance, so each entry links to the one
+  // before it.
+  async record(entry: AuditEntry): Promise<AuditLog> {
+    const organizationId = entry.organizationId ?? null;
+    return db.transaction(async tx => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('audit_logs'), ${organizationId ?? 0})`);
+      const [latest] = await tx.select({ hash: auditLogs.hash }).from(auditLogs)
+        .where(organizationId === null ? isNull(auditLogs.organizationId) : eq(auditLogs.organizationId, organizationId))
+        .orderBy(desc(auditLogs.id))
+        .limit(1);
+      const values = {
+        organizationId,
+        actorType: entry.actorType,
+        actorId: entry.actorId ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        method: entry.method ?? null,
+        path: entry.path ?? null,
+        statusCode: entry.statusCode ?? null,
+        changes: entry.changes ?? null,
+        sensitiveFields: entry.sensitiveFields || [],
+        ipAddress: entry.ipAddress ?? null,
+        userAgent: entry.userAgent ?? null,
+        metadata: entry.metadata || {},
+        previousHash: latest?.hash || GENESIS_HASH,
+        createdAt: new Date(),
+      };
+      const [log] = await tx.insert(auditLogs).values({ ...values, hash: this.calculateHash(values) }).returning();
+      return log;
+    });
+  }
+
+  // File downloads bypass res.json and so the middleware; export routes record them here. sensitiveFields lists
+  // the unmasked PII the file carried.
+  async recordExport(req: Request, entityType: string, entityId: string, format: string, sensitiveFields: string[] = []): Promise<AuditLog> {
+    return this.record({
+      ...this.requestContext(req),
+      action: 'export',
+      entityType,
+      entityId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      statusCode: 200,
+      sensitiveFields,
+      metadata: { format },
+    });
+  }
+
+  // Express middleware: records mutating requests with a before/after diff, and GET responses that expose sensitive data
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const path = req.originalUrl.split('?')[0];
+      if (EXCLUDED_PATHS.some(pattern => pattern.test(path))) return next();
+
+      const mutating = MUTATING_METHODS.includes(req.method);
+      if (!mutating && req.method !== 'GET') return next();
+
+      const target = this.resolveTarget(path, req.method);
+      let responseBody: unknown;
+      const originalJson = res.json;
+      res.json = function (body, ...args) {
+        responseBody = body;
+        return originalJson.apply(res, [body, ...args]);
+      };
+
+      const loadBefore = mutating && target.entityId
+        ? this.loadSnapshot(target.entityType, target.entityId)
+        : Promise.resolve(undefined);
+
+      loadBefore.then(before => {
+        res.on('finish', () => {
+          const recorded = mutating
+            ? this.recordMutation(req, res, path, target, before, responseBody)
+            : this.recordSensitiveView(req, res, path, target, responseBody);
+          recorded.catch(error => console.error('Audit log error:', error));
+        });
+        next();
+      });
+    };
+  }
+
+  async query(filters: AuditQuery = {}): Promise<{ entries: AuditLog[]; total: number }> {
+    const where = this.buildWhere(filters);
+    const [entries, [{ total }]] = await Promise.all([
+      db.select().from(auditLogs).where(where).orderBy(desc(auditLogs.id))
+        .limit(Math.min(filters.limit || 100, MAX_QUERY_LIMIT))
+        .offset(filters.offset || 0),
+      db.select({ total: count() }).from(auditLogs).where(where),
+    ]);
+    return { entries, total: Number(total) };
+  }
+
+  // Oldest first, for examiners reading the trail in order
+  async exportCsv(filters: AuditQuery = {}): Promise<string> {
+    const entries = await db.select().from(auditLogs).where(this.buildWhere(filters))
+      .orderBy(asc(auditLogs.id))
+      .limit(MAX_EXPORT_ROWS);
+    return this.toCsv(entries);
+  }
+
+  // Recomputes every hash of the caller's chain in order (every chain in a system scope); any edited, inserted or
+  // deleted row breaks the chain from that point
+  async verifyChain(): Promise<AuditChainVerification> {
+    const entries = await db.select().from(auditLogs)
+      .where(tenantContext.where(auditLogs.organizationId))
+      .orderBy(asc(auditLogs.id));
+    const previousHashes = new Map<number | null, string>();
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index];
+      if (entry.previousHash !== (previousHashes.get(entry.organizationId) ?? GENESIS_HASH)) {
+        return { valid: false, checked: index, firstInvalidId: entry.id, reason: 'Entry does not link to the previous entry' };
+      }
+      if (this.calculateHash(entry) !== entry.hash) {
+        return { valid: false, checked: index, firstInvalidId: entry.id, reason: 'Entry contents do not match its hash' };
+      }
+      previousHashes.set(entry.organizationId, entry.hash);
+    }
+    return { valid: true, checked: entries.length, firstInvalidId: null };
+  }
+
+  // Chain integrity on the compliance center's audit & documentation tile
+  async getComplianceItems(category: string = 'all'): Promise<ComplianceItem[]> {
+    if (category !== 'all' && category !== 'audit') return [];
+
+    const [verification, recent, views] = await Promise.all([
+      this.verifyChain(),
+      this.query({ timeframe: '30d', limit: 1 }),
+      this.query({ timeframe: '30d', action: 'view', limit: 1 }),
+    ]);
+    return [{
+      id: 'audit-trail-integrity',
+      title: 'Audit Trail Integrity',
+      category: 'audit',
+      status: verification.valid ? 'compliant' : 'violation',
+      description: verification.valid
+        ? `${verification.checked} hash-chained entries verified`
+        : `Audit chain broken at entry #${verification.firstInvalidId}: ${verification.reason}`,
+      lastUpdated: recent.entries[0]?.createdAt || new Date(),
+      assignedTo: 'Compliance',
+      priority: verification.valid ? 'medium' : 'critical',
+      requirements: ['Every change recorded with actor and before/after values', 'Sensitive data views logged', 'Tamper-evident storage'],
+      evidence: [
+        `${recent.total} entries in the last 30 days`,
+        `${views.total} sensitive data views in the last 30 days`,
+      ],
+    }];
+  }
+
+  toCsv(entries: AuditLog[]): string {
+    const columns: Array<keyof AuditLog> = [
+      'id', 'createdAt', 'organizationId', 'actorType', 'actorId', 'action', 'entityType', 'entityId', 'method', 'path',
+      'statusCode', 'sensitiveFields', 'changes', 'ipAddress', 'userAgent', 'previousHash', 'hash',
+    ];
+    const cell = (value: unknown) => {
+      if (value === null || value === undefined) return '';
+      const text = value instanceof Date ? value.toISOString()
+        : Array.isArray(value) ? value.join(';')
+        : typeof value === 'object' ? JSON.stringify(value)
+        : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(','), ...entries.map(entry => columns.map(column => cell(entry[column])).join(','))].join('\r\n') + '\r\n';
+  }
+
+  toComplianceEntries(entries: AuditLog[]): ComplianceAuditEntry[] {
+    return entries.map(entry => {
+      const changedFields = entry.changes ? Object.keys(entry.changes) : [];
+      const details = entry.action === 'view'
+        ? `Viewed ${entry.sensitiveFields.join(', ').replace(/_/g, ' ')}`
+        : `${entry.method} ${entry.path}${changedFields.length > 0 ? ` (${changedFields.join(', ')})` : ''}`;
+      return {
+        id: String(entry.id),
+        action: entry.action.charAt(0).toUpperCase() + entry.action.slice(1).replace(/[-_]/g, ' '),
+        user: entry.actorId ? `${entry.actorType} #${entry.actorId}` : entry.actorType,
+        timestamp: entry.createdAt,
+        details,
+        entityType: this.complianceEntityType(entry.entityType),
+        entityId: entry.entityId ? `${entry.entityType}/${entry.entityId}` : entry.entityType,
+      };
+    });
+  }
+
+  diff(before: Record<string, any> | undefined, after: Record<string, any> | undefined): Record<string, AuditFieldChange> {
+    const changes: Record<string, AuditFieldChange> = {};
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    keys.forEach(key => {
+      const from = before?.[key];
+      const to = after?.[key];
+      if (canonicalJson(from) === canonicalJson(to)) return;
+      changes[key] = REDACTED_KEYS.test(key)
+        ? { from: from == null ? null : REDACTED, to: to == null ? null : REDACTED }
+        : { from: this.redact(from) ?? null, to: this.redact(to) ?? null };
+    });
+    return changes;
+  }
+
+  // Always limited to the caller's organization
+  private buildWhere(filters: AuditQuery): SQL | undefined {
+    const conditions: SQL[] = [];
+    const from = filters.from || (filters.timeframe && TIMEFRAMES[filters.timeframe]
+      ? new Date(Date.now() - TIMEFRAMES[filters.timeframe])
+      : undefined);
+    if (from) conditions.push(gte(auditLogs.createdAt, from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+    if (filters.actorType) conditions.push(eq(auditLogs.actorType, filters.actorType));
+    if (filters.actorId) conditions.push(eq(auditLogs.actorId, filters.actorId));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+    return tenantContext.where(auditLogs.organizationId, conditions.length > 0 ? and(...conditions) : undefined);
+  }
+
+  private async recordMutation(req: Request, res: Response, path: string, target: ReturnType<AuditService['resolveTarget']>,
+    before: Record<string, any> | undefined, responseBody: unknown) {
+    const created = this.asRecord(responseBody);
+    const entityId = target.entityId || (res.statusCode < 400 && created?.id !== undefined ? String(created.id) : null);
+    let after: Record<string, any> | undefined;
+    if (res.statusCode < 400) {
+      after = this.entityLoaders.has(target.entityType) && entityId
+        ? await this.loadSnapshot(target.entityType, entityId)
+        : this.asRecord(req.body);
+    }
+    const changes = res.statusCode < 400 && req.method !== 'DELETE' ? this.diff(before, after) : null;
+
+    await this.record({
+      ...this.requestContext(req, before || after),
+      action: target.action,
+      entityType: target.entityType,
+      entityId,
+      method: req.method,
+      path,
+      statusCode: res.statusCode,
+      changes: req.method === 'DELETE' && before ? this.diff(before, undefined) : changes,
+    });
+  }
+
+  private async recordSensitiveView(req: Request, res: Response, path: string, target: ReturnType<AuditService['resolveTarget']>,
+    responseBody: unknown) {
+    if (res.statusCode >= 400) return;
+
+    const fields = new Set<string>();
+    const recordIds = new Set<string>();
+    SENSITIVE_PATHS.filter(({ pattern }) => pattern.test(path)).forEach(({ field }) => fields.add(field));
+    this.scanSensitive(responseBody, fields, recordIds, 0);
+    if (fields.size === 0) return;
+
+    await this.record({
+      ...this.requestContext(req, this.asRecord(responseBody)),
+      action: 'view',
+      entityType: target.entityType,
+      entityId: target.entityId || (recordIds.size === 1 ? Array.from(recordIds)[0] : null),
+      method: req.method,
+      path,
+      statusCode: res.statusCode,
+      sensitiveFields: Array.from(fields),
+      metadata: recordIds.size > 0 ? { recordIds: Array.from(recordIds).slice(0, 100) } : {},
+    });
+  }
+
+  // Finds unmasked SSNs, credit reports and bank statements anywhere in a response body
+  private scanSensitive(value: unknown, fields: Set<string>, recordIds: Set<string>, depth: number): void {
+    if (depth > 6 || value === null || typeof value !== 'object') return;
+    if (Array.isArray(value)) {
+      value.forEach(item => this.scanSensitive(item, fields, recordIds, depth + 1));
+      return;
+    }
+
+    const record = value as Record<string, any>;
+    const found: string[] = [];
+    if (typeof record.ssn === 'string' && record.ssn.trim() && !piiMasking.isMasked(record.ssn)) found.push('ssn');
+    if (record.creditReport || (record.reportId && record.creditScore !== undefined && record.accounts)) found.push('credit_report');
+    if (record.documentType === 'bank_statement' || record.category === 'bank_statements') found.push('bank_statement');
+    if (found.length > 0) {
+      found.forEach(field => fields.add(field));
+      if (record.id !== undefined) recordIds.add(String(record.id));
+    }
+    Object.values(record).forEach(child => this.scanSensitive(child, fields, recordIds, depth + 1));
+  }
+
+  // Splits /api/<resource>/<id>[/<child or action>] into the audited entity and action
+  private resolveTarget(path: string, method: string) {
+    const segments = path.replace(/^\/api\/?/, '').split('/').filter(Boolean);
+    let entityType = segments[0] || 'api';
+    let entityId: string | null = null;
+    let idIndex = -1;
+    segments.forEach((segment, index) => {
+      if (index > 0 && /^\d+$/.test(segment)) {
+        entityType = segments[index - 1];
+        entityId = segment;
+        idIndex = index;
+      }
+    });
+
+    let action = method === 'DELETE' ? 'delete' : method === 'GET' ? 'view' : method === 'POST' ? 'create' : 'update';
+    const trailing = idIndex >= 0 ? segments.slice(idIndex + 1) : [];
+    if (trailing.length > 0 && method !== 'GET') {
+      const last = trailing[trailing.length - 1];
+      if (this.entityLoaders.has(last)) {
+        // A child collection, e.g. POST /loan-applications/12/documents creates a document
+        entityType = last;
+        entityId = null;
+      } else {
+        // An action on the entity, e.g. POST /conditions/5/clear
+        action = last;
+      }
+    }
+    return { entityType, entityId: entityId as string | null, action };
+  }
+
+  // Copies the entity so in-place updates by the handler don't alter the before state
+  private async loadSnapshot(entityType: string, entityId: string): Promise<Record<string, any> | undefined> {
+    const loader = this.entityLoaders.get(entityType);
+    if (!loader) return undefined;
+    try {
+      const entity = await loader(parseInt(entityId));
+      return entity ? JSON.parse(JSON.stringify(entity)) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private requestContext(req: Request, entity?: Record<string, any>) {
+    const authed = req as Request & { user?: any; customer?: any; borrower?: any; realtor?: any };
+    let actorType: AuditActorType = 'anonymous';
+    let actor: any;
+    if (authed.user?.id) [actorType, actor] = ['user', authed.user];
+    else if (authed.customer?.id) [actorType, actor] = ['customer', authed.customer];
+    else if (authed.borrower?.id) [actorType, actor] = ['borrower', authed.borrower];
+    else if (authed.realtor?.id) [actorType, actor] = ['realtor', authed.realtor];
+
+    const forwardedFor = req.headers['x-forwarded-for'];
+    return {
+      actorType,
+      actorId: typeof actor?.id === 'number' ? actor.id : actor?.id ? parseInt(actor.id) || null : null,
+      organizationId: actor?.organizationId ?? entity?.organizationId ?? null,
+      ipAddress: (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor?.split(',')[0]?.trim()) || req.ip || null,
+      userAgent: req.get('user-agent') || null,
+    };
+  }
+
+  private calculateHash(entry: Omit<AuditLog, 'id' | 'hash'>): string {
+    const data = `${entry.previousHash}${entry.createdAt.toISOString()}${entry.organizationId ?? ''}${entry.actorType}${entry.actorId ?? ''}` +
+      `${entry.action}${entry.entityType}${entry.entityId ?? ''}${entry.method ?? ''}${entry.path ?? ''}${entry.statusCode ?? ''}` +
+      `${canonicalJson(entry.changes)}${canonicalJson(entry.sensitiveFields)}${entry.ipAddress ?? ''}${entry.userAgent ?? ''}` +
+      `${canonicalJson(entry.metadata)}`;
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  // Replaces sensitive values at any depth, e.g. the SSN inside a loan's URLA data
+  private redact(value: unknown): any {
+    if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+    if (Array.isArray(value)) return value.map(item => this.redact(item));
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, entry]) =>
+      [key, REDACTED_KEYS.test(key) && entry != null ? REDACTED : this.redact(entry)]));
+  }
+
+  private asRecord(value: unknown): Record<string, any> | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : undefined;
+  }
+
+  private complianceEntityType(entityType: string): ComplianceAuditEntry['entityType'] {
+    if (/document/.test(entityType)) return 'document';
+    if (/^(users|contacts|profile|team-members|roles|customer|borrower|realtor)/.test(entityType)) return 'user';
+    if (/loan|application|conditions|compliance|hmda|fee|rate-lock|underwriting/.test(entityType)) return 'application';
+    return 'system';
+  }
+}
+
+export const auditService = AuditService.getInstance();
@@ -4,6 +4,8 @@ import { borrowers, loanApplications, documents, properties } from '../shared/sc
 import { eq } from 'drizzle-orm';
 import { DocumentAnalysis } from './ai-document-processor';
 import { advancedAnalytics } from './advanced-analytics';
+import { storage } from './storage';
+import { underwritingService } from './underwriting-service';
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -552,60 +554,24 @@ Generate a natural, helpful response that moves the conversation forward.`;
   async performUnderwriting(applicationId: number): Promise<{
     approved: boolean;
     conditions: string[];
-    rate: number;
+    rate: number | null; // the loan's current rate; pricing and rate locks set it, underwriting never does
     reasons: string[];
   }> {
-    // Get application details
-    const [application] = await db.select().from(loanApplications).where(eq(loanApplications.id, applicationId));
-    const [borrower] = await db.select().from(borrowers).where(eq(borrowers.id, application.borrowerId));
-
-    // Calculate approval based on multiple factors
-    const creditScore = borrower.creditScore || 0;
-    const dti = (application.loanAmount / 12) / (borrower.annualIncome / 12);
-    const ltv = application.loanAmount / (application.loanAmount + application.downPayment);
-
-    let approved = true;
-    const conditions: string[] = [];
-    const reasons: string[] = [];
-
-    // Credit score check
-    if (creditScore < 620) {
-      approved = false;
-      reasons.push('Credit score below minimum requirement (620)');
-    } else if (creditScore < 680) {
-      conditions.push('Provide letter of explanation for credit issues');
-    }
-
-    // DTI check
-    if (dti > 0.43) {
-      approved = false;
-      reasons.push('Debt-to-income ratio exceeds maximum (43%)');
-    } else if (dti > 0.36) {
-      conditions.push('Provide additional income documentation');
+    // Delegate to the deterministic underwriting service so there is a single source of rules
+    const loan = await storage.getLoanApplicationWithDetails(applicationId);
+    if (!loan) {
+      throw new Error('Loan application not found');
     }
 
-    // LTV check
-    if (ltv > 0.95) {
-      approved = false;
-      reasons.push('Loan-to-value ratio exceeds maximum (95%)');
-    } else if (ltv > 0.80) {
-      conditions.push('Private mortgage insurance required');
-    }
-
-    // Calculate rate based on risk factors
-    let baseRate = 6.5;
-    if (creditScore >= 760) baseRate -= 0.5;
-    else if (creditScore >= 700) baseRate -= 0.25;
-    else if (creditScore < 660) baseRate += 0.5;
-
-    if (ltv <= 0.60) baseRate -= 0.25;
-    else if (ltv > 0.80) baseRate += 0.25;
+    const result = underwritingService.analyze(loan);
 
     return {
-      approved,
-      conditions,
-      rate: Math.round(baseRate * 100) / 100,
-      reasons
+      approved: result.decision === 'approve' || result.decision === 'approve_with_conditions',
+      conditions: result.conditions,
+      rate: loan.interestRate ? parseFloat(loan.interestRate) : null,
+      reasons: result.findings
+        .filter(finding => finding.severity === 'fail' || finding.severity === 'missing')
+        .map(finding => finding.message)
     };
   }
 
@@ -3,13 +3,23 @@ import { autonomousAIAdvisor } from './autonomous-ai-advisor';
 import { aiDocumentProcessor } from './ai-document-processor';
 import { propertyDataService } from './property-data-service';
 import { db } from './db';
-import { documents, borrowers, loanApplications } from '../shared/schema';
-import { eq } from 'drizzle-orm';
+import { documents, borrowers } from '../shared/schema';
 import multer from 'multer';
 import path from 'path';
+import { requirePermission, type StaffRequest } from './rbac-service';
+import { loanStatusMachine, LoanStatusTransitionError } from './loan-status-machine';
+import { authenticateBorrower } from './borrower-auth';
+import { consentService } from './consent-service';
+import { smsThreadService } from './sms-thread-service';
+import { templateEngine } from './template-engine';
+import { tenantContext } from './tenant-context';
 
 const router = Router();
 
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
 // Configure multer for document uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -37,8 +47,10 @@ const upload = multer({
   }
 });
 
+// The advisor conversation is for signed-in borrowers; underwriting and analytics are staff-only
+
 // Start conversation with AI advisor
-router.post('/start-conversation', async (req, res) => {
+router.post('/start-conversation', authenticateBorrower, async (req, res) => {
   try {
     const { channel = 'web' } = req.body;
     const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -57,7 +69,7 @@ router.post('/start-conversation', async (req, res) => {
 });
 
 // Process message from borrower
-router.post('/process-message', async (req, res) => {
+router.post('/process-message', authenticateBorrower, async (req, res) => {
   try {
     const { sessionId, message } = req.body;
     
@@ -109,7 +121,7 @@ router.post('/process-message', async (req, res) => {
 });
 
 // Upload and process documents
-router.post('/upload-document', upload.single('document'), async (req, res) => {
+router.post('/upload-document', authenticateBorrower, upload.single('document'), async (req, res) => {
   try {
     const { sessionId, documentType } = req.body;
     const file = req.file;
@@ -142,7 +154,7 @@ router.post('/upload-document', upload.single('document'), async (req, res) => {
 });
 
 // Get property data
-router.post('/analyze-property', async (req, res) => {
+router.post('/analyze-property', authenticateBorrower, async (req, res) => {
   try {
     const { address } = req.body;
     
@@ -172,7 +184,7 @@ router.post('/analyze-property', async (req, res) => {
 });
 
 // Perform underwriting
-router.post('/perform-underwriting', async (req, res) => {
+router.post('/perform-underwriting', requirePermission('underwriting.decide', 'loans.approve'), async (req, res) => {
   try {
     const { applicationId } = req.body;
     
@@ -182,29 +194,33 @@ router.post('/perform-underwriting', async (req, res) => {
     
     const result = await autonomousAIAdvisor.performUnderwriting(applicationId);
     
-    // Update application status
-    await db.update(loanApplications)
-      .set({
-        status: result.approved ? 'approved' : 'declined',
-        interestRate: result.rate,
-        updatedAt: new Date()
-      })
-      .where(eq(loanApplications.id, applicationId));
+    // The decision moves the loan through the state machine, so its guards, history and listeners apply; the rate
+    // stays with pricing and rate locks
+    await loanStatusMachine.transition(applicationId, {
+      toStatus: result.approved ? 'conditionally_approved' : 'declined',
+      reason: result.approved
+        ? 'Automated underwriting approval'
+        : `Automated underwriting decline: ${result.reasons.join('; ') || 'program requirements not met'}`,
+      changedBy: (req as StaffRequest).user!.id
+    });
     
     res.json({
       ...result,
       message: result.approved 
-        ? `Congratulations! Your loan has been approved at ${result.rate}% interest rate.`
+        ? `Congratulations! Your loan has been conditionally approved${result.rate !== null ? ` at ${result.rate}% interest rate` : ''}.`
         : `I'm sorry, but we're unable to approve your loan at this time. Reasons: ${result.reasons.join(', ')}`
     });
   } catch (error) {
+    if (error instanceof LoanStatusTransitionError) {
+      return res.status(422).json({ error: error.message, blockers: error.blockers });
+    }
     console.error('Underwriting error:', error);
     res.status(500).json({ error: 'Failed to perform underwriting' });
   }
 });
 
 // Get session analytics
-router.get('/session-analytics/:sessionId', async (req, res) => {
+router.get('/session-analytics/:sessionId', requirePermission('reports.view'), async (req, res) => {
   try {
     const { sessionId } = req.params;
     
@@ -218,7 +234,7 @@ router.get('/session-analytics/:sessionId', async (req, res) => {
 });
 
 // Get all active sessions (for loan officer dashboard)
-router.get('/active-sessions', async (req, res) => {
+router.get('/active-sessions', requirePermission('reports.view'), async (req, res) => {
   try {
     // This would typically filter by organization/user
     const sessions = []; // Placeholder - would get from database
@@ -231,17 +247,43 @@ router.get('/active-sessions', async (req, res) => {
 });
 
 // Multi-channel webhook endpoints
-router.post('/webhook/sms', async (req, res) => {
+// Only Twilio-signed texts get here, so a forged STOP or START cannot change anyone's consent
+router.post('/webhook/sms', smsThreadService.verifyTwilioWebhook(), async (req, res) => {
   try {
     const { From, Body } = req.body; // Twilio format
     const sessionId = `sms-${From}`;
+
+    // STOP, START and HELP are answered here and never reach the advisor
+    const branding = await templateEngine.getBranding(tenantContext.getOrganizationId());
+    const keywordReply = await consentService.handleInboundKeyword(From, Body || '', branding.name);
+
+    // Every inbound text is kept on its conversation thread, even when threading fails for the reply below
+    const received = await smsThreadService.receive(smsThreadService.parseTwilioWebhook(req.body)).catch(error => {
+      console.error('Failed to thread inbound SMS:', error);
+      return null;
+    });
+
+    if (keywordReply !== null) {
+      if (received) await smsThreadService.recordAutoReply(received.thread.id, keywordReply);
+      res.set('Content-Type', 'text/xml');
+      res.send(`<Response><Message>${escapeXml(keywordReply)}</Message></Response>`);
+      return;
+    }
+
+    // Threads owned by a loan officer are answered from the inbox rather than by the advisor
+    if (received?.thread.assignedToId) {
+      res.set('Content-Type', 'text/xml');
+      res.send('<Response></Response>');
+      return;
+    }
     
     const result = await autonomousAIAdvisor.processMessage(sessionId, Body);
+    if (received) await smsThreadService.recordAutoReply(received.thread.id, result.response);
     
     res.set('Content-Type', 'text/xml');
     res.send(`
       <Response>
-        <Message>${result.response}</Message>
+        <Message>${escapeXml(result.response)}</Message>
       </Response>
     `);
   } catch (error) {
@@ -0,0 +1,46 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { addBusinessDays, countBusinessDays, getFederalHolidays, isBusinessDay, isFederalHoliday } from "./business-days";
+
+describe("federal holiday calendar", () => {
+  test("places the floating holidays on their weekdays", () => {
+    const holidays = getFederalHolidays(2026);
+    const on = (name: string) => holidays.find(holiday => holiday.name === name)?.date;
+    assert.deepEqual(on('Birthday of Martin Luther King, Jr.'), new Date(2026, 0, 19));
+    assert.deepEqual(on('Memorial Day'), new Date(2026, 4, 25));
+    assert.deepEqual(on('Thanksgiving Day'), new Date(2026, 10, 26));
+  });
+
+  test("observes Saturday holidays on Friday and Sunday holidays on Monday", () => {
+    // July 4, 2026 and June 19, 2027 are Saturdays; November 11, 2029 is a Sunday
+    assert.ok(isFederalHoliday(new Date(2026, 6, 3)));
+    assert.ok(isFederalHoliday(new Date(2027, 5, 18)));
+    assert.ok(isFederalHoliday(new Date(2029, 10, 12)));
+  });
+
+  test("observes a Saturday New Year's Day on December 31 of the year before", () => {
+    assert.ok(isFederalHoliday(new Date(2027, 11, 31)));
+    assert.ok(!isFederalHoliday(new Date(2026, 11, 31)));
+  });
+});
+
+describe("business day arithmetic", () => {
+  test("counts Saturdays as specific business days but not general ones, and never Sundays or holidays", () => {
+    const saturday = new Date(2026, 10, 28);
+    assert.ok(isBusinessDay(saturday, 'specific'));
+    assert.ok(!isBusinessDay(saturday, 'general'));
+    assert.ok(!isBusinessDay(new Date(2026, 10, 29), 'specific'));
+    assert.ok(!isBusinessDay(new Date(2026, 10, 26), 'specific'));
+  });
+
+  test("skips Thanksgiving and the weekend for an application taken the day before", () => {
+    const application = new Date(2026, 10, 25, 16, 30);
+    assert.deepEqual(addBusinessDays(application, 3, 'general'), new Date(2026, 11, 1));
+    assert.deepEqual(addBusinessDays(application, 3, 'specific'), new Date(2026, 10, 30));
+  });
+
+  test("counts the days after the start up to and including the end", () => {
+    assert.equal(countBusinessDays(new Date(2026, 10, 25), new Date(2026, 11, 1), 'general'), 3);
+    assert.equal(countBusinessDays(new Date(2026, 10, 25), new Date(2026, 10, 25), 'general'), 0);
+  });
+});
@@ -0,0 +1,106 @@
+// Business Day Calendar
+// Federal holiday calendar and business-day arithmetic for disclosure timing rules
+
+// Regulation Z uses two definitions: "general" (days the office is open, Monday-Friday here) for delivery
+// deadlines, and "specific" (every day except Sundays and federal holidays) for waiting periods and receipt
+export type BusinessDayDefinition = 'general' | 'specific';
+
+export interface FederalHoliday {
+  name: string;
+  date: Date;
+}
+
+const holidayCache = new Map<number, FederalHoliday[]>();
+
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (n - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = new Date(year, month + 1, 0);
+  const offset = (last.getDay() - weekday + 7) % 7;
+  return new Date(year, month, last.getDate() - offset);
+}
+
+function dateKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+export function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+// Federal holidays under 5 U.S.C. 6103(a); fixed-date holidays also include the weekday they are observed on
+export function getFederalHolidays(year: number): FederalHoliday[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const fixed = (name: string, month: number, day: number): FederalHoliday[] => {
+    const date = new Date(year, month, day);
+    const holidays = [{ name, date }];
+    if (date.getDay() === 6) holidays.push({ name: `${name} (observed)`, date: new Date(year, month, day - 1) });
+    if (date.getDay() === 0) holidays.push({ name: `${name} (observed)`, date: new Date(year, month, day + 1) });
+    return holidays;
+  };
+
+  const holidays = [
+    ...fixed("New Year's Day", 0, 1),
+    { name: 'Birthday of Martin Luther King, Jr.', date: nthWeekday(year, 0, 1, 3) },
+    { name: "Washington's Birthday", date: nthWeekday(year, 1, 1, 3) },
+    { name: 'Memorial Day', date: lastWeekday(year, 4, 1) },
+    ...fixed('Juneteenth National Independence Day', 5, 19),
+    ...fixed('Independence Day', 6, 4),
+    { name: 'Labor Day', date: nthWeekday(year, 8, 1, 1) },
+    { name: 'Columbus Day', date: nthWeekday(year, 9, 1, 2) },
+    ...fixed('Veterans Day', 10, 11),
+    { name: 'Thanksgiving Day', date: nthWeekday(year, 10, 4, 4) },
+    ...fixed('Christmas Day', 11, 25),
+  ];
+  // New Year's Day on a Saturday is observed on December 31 of the prior year
+  const nextNewYear = new Date(year + 1, 0, 1);
+  if (nextNewYear.getDay() === 6) {
+    holidays.push({ name: "New Year's Day (observed)", date: new Date(year, 11, 31) });
+  }
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export function isFederalHoliday(date: Date): boolean {
+  const key = dateKey(date);
+  return getFederalHolidays(date.getFullYear()).some(holiday => dateKey(holiday.date) === key);
+}
+
+export function isBusinessDay(date: Date, definition: BusinessDayDefinition): boolean {
+  const weekday = date.getDay();
+  if (weekday === 0) return false;
+  if (definition === 'general' && weekday === 6) return false;
+  return !isFederalHoliday(date);
+}
+
+// The nth business day after `from` (from itself is day zero)
+export function addBusinessDays(from: Date, days: number, definition: BusinessDayDefinition): Date {
+  const date = startOfDay(from);
+  let counted = 0;
+  while (counted < days) {
+    date.setDate(date.getDate() + 1);
+    if (isBusinessDay(date, definition)) counted++;
+  }
+  return date;
+}
+
+// Business days strictly after `from` up to and including `to`
+export function countBusinessDays(from: Date, to: Date, definition: BusinessDayDefinition): number {
+  const date = startOfDay(from);
+  const end = startOfDay(to);
+  let counted = 0;
+  while (date < end) {
+    date.setDate(date.getDate() + 1);
+    if (isBusinessDay(date, definition)) counted++;
+  }
+  return counted;
+}
@@ -0,0 +1,137 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { tridService, TridError, TRID_DATA_POINTS } from "./trid-service";
+import { hmdaService } from "./hmda-service";
+import { auditService } from "./audit-service";
+import { requirePermission } from "./rbac-service";
+
+const router = Router();
+
+const applicationSchema = z.object({
+  dataPoints: z.record(z.enum(TRID_DATA_POINTS as [string, ...string[]]), z.coerce.date()).optional(),
+  intendedConsummationDate: z.coerce.date().nullable().optional(),
+});
+
+const disclosureSchema = z.object({
+  type: z.enum(['loan_estimate', 'closing_disclosure']),
+  deliveryMethod: z.enum(['in_person', 'email', 'mail']),
+  issuedAt: z.coerce.date().optional(),
+  changedCircumstanceId: z.number().int().positive().nullable().optional(),
+  issuedBy: z.number().int().positive().nullable().optional(),
+});
+
+const changedCircumstanceSchema = z.object({
+  reason: z.enum(['changed_circumstance', 'borrower_requested', 'rate_lock', 'expiration', 'delayed_settlement']),
+  description: z.string().min(1),
+  affectedFeeCodes: z.array(z.string()).optional(),
+  discoveredAt: z.coerce.date().optional(),
+  createdBy: z.number().int().positive().nullable().optional(),
+});
+
+function handleTridError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof TridError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Compliance center
+
+router.get("/compliance", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    const category = (req.query.category as string) || 'all';
+    const items = await Promise.all([
+      tridService.getComplianceItems(category),
+      hmdaService.getComplianceItems(category),
+      auditService.getComplianceItems(category),
+    ]);
+    res.json(items.flat());
+  } catch (error) {
+    console.error("Get compliance items error:", error);
+    res.status(500).json({ message: "Failed to fetch compliance items" });
+  }
+});
+
+router.get("/compliance/metrics", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    res.json(await tridService.getMetrics());
+  } catch (error) {
+    console.error("Get compliance metrics error:", error);
+    res.status(500).json({ message: "Failed to fetch compliance metrics" });
+  }
+});
+
+// TRID disclosure tracking
+
+router.get("/compliance/trid/:loanId", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    res.json(await tridService.getTimeline(parseInt(req.params.loanId)));
+  } catch (error) {
+    handleTridError(res, error, "Failed to fetch TRID status");
+  }
+});
+
+router.put("/compliance/trid/:loanId/application", requirePermission('compliance.manage'), async (req, res) => {
+  try {
+    const result = applicationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid TRID application data", details: result.error.issues });
+    }
+    res.json(await tridService.recordApplication(parseInt(req.params.loanId), result.data));
+  } catch (error) {
+    handleTridError(res, error, "Failed to record TRID application");
+  }
+});
+
+router.post("/compliance/trid/:loanId/disclosures", requirePermission('compliance.manage'), async (req, res) => {
+  try {
+    const result = disclosureSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid disclosure", details: result.error.issues });
+    }
+    res.status(201).json(await tridService.issueDisclosure(parseInt(req.params.loanId), result.data));
+  } catch (error) {
+    handleTridError(res, error, "Failed to issue disclosure");
+  }
+});
+
+router.post("/compliance/trid/disclosures/:id/received", requirePermission('compliance.manage'), async (req, res) => {
+  try {
+    const result = z.object({ receivedAt: z.coerce.date().optional() }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid receipt date", details: result.error.issues });
+    }
+    res.json(await tridService.markReceived(parseInt(req.params.id), result.data.receivedAt || new Date()));
+  } catch (error) {
+    handleTridError(res, error, "Failed to record disclosure receipt");
+  }
+});
+
+router.post("/compliance/trid/:loanId/changed-circumstances", requirePermission('compliance.manage'), async (req, res) => {
+  try {
+    const result = changedCircumstanceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid changed circumstance", details: result.error.issues });
+    }
+    res.status(201).json(await tridService.recordChangedCircumstance(parseInt(req.params.loanId), result.data));
+  } catch (error) {
+    handleTridError(res, error, "Failed to record changed circumstance");
+  }
+});
+
+// ?shopped=CODE1,CODE2 moves services the borrower shopped for off the lender's list into the unlimited bucket
+router.get("/compliance/trid/:loanId/tolerance", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    const shopped = req.query.shopped ? (req.query.shopped as string).split(',').filter(Boolean) : [];
+    const tolerance = await tridService.calculateTolerance(parseInt(req.params.loanId), shopped);
+    if (!tolerance) {
+      return res.status(404).json({ message: "No Loan Estimate has been issued for this loan" });
+    }
+    res.json(tolerance);
+  } catch (error) {
+    handleTridError(res, error, "Failed to calculate tolerance");
+  }
+});
+
+export default router;
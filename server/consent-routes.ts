@@ -0,0 +1,102 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { insertCommunicationConsentSchema } from "@shared/schema";
+import { consentService, ConsentError, type ConsentChannel } from "./consent-service";
+import { requirePermission, type StaffRequest } from "./rbac-service";
+
+const router = Router();
+
+const CONSENT_CHANNELS: ConsentChannel[] = ['sms', 'voice', 'email'];
+
+const consentCheckSchema = z.object({
+  address: z.string().min(1),
+  channel: z.enum(['sms', 'voice', 'email']),
+});
+
+const dncSchema = z.object({
+  phoneNumber: z.string().min(1),
+  action: z.enum(['add', 'remove']),
+  consentText: z.string().optional(), // required to remove a number
+});
+
+function handleConsentError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ConsentError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Consent events for an address, newest first, with the standing state on each channel
+router.get("/consents", requirePermission('communications.view'), async (req, res) => {
+  try {
+    const address = req.query.address as string | undefined;
+    if (!address) {
+      return res.status(400).json({ message: "address is required" });
+    }
+    const [history, statuses] = await Promise.all([
+      consentService.getHistory(address),
+      Promise.all(CONSENT_CHANNELS.map(channel => consentService.getStatus(address, channel))),
+    ]);
+    res.json({ history, statuses });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch consent history" });
+  }
+});
+
+router.post("/consents", requirePermission('communications.send'), async (req, res) => {
+  try {
+    const result = insertCommunicationConsentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid consent", details: result.error.issues });
+    }
+    const consent = await consentService.record(
+      { ...result.data, ipAddress: result.data.ipAddress ?? req.ip, userAgent: result.data.userAgent ?? req.get('user-agent') },
+      { recordedBy: (req as StaffRequest).user?.id }
+    );
+    res.status(201).json(consent);
+  } catch (error) {
+    handleConsentError(res, error, "Failed to record consent");
+  }
+});
+
+// Whether a text, call or email to the address would go out right now, and why not
+router.get("/consents/check", requirePermission('communications.view'), async (req, res) => {
+  try {
+    const result = consentCheckSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid consent check", details: result.error.issues });
+    }
+    res.json(await consentService.checkContact(result.data.address, result.data.channel));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to check consent" });
+  }
+});
+
+router.get("/dnc", requirePermission('communications.view'), async (req, res) => {
+  try {
+    res.json(await consentService.getOptOuts());
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch Do Not Call list" });
+  }
+});
+
+router.post("/dnc", requirePermission('communications.send'), async (req, res) => {
+  try {
+    const result = dncSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid Do Not Call request", details: result.error.issues });
+    }
+    const options = { recordedBy: (req as StaffRequest).user?.id };
+    if (result.data.action === 'add') {
+      await consentService.addToDoNotCall(result.data.phoneNumber, options);
+    } else {
+      await consentService.removeFromDoNotCall(result.data.phoneNumber, result.data.consentText || '', options);
+    }
+    res.json({ phoneNumber: result.data.phoneNumber, onDoNotCall: await consentService.isOnDoNotCall(result.data.phoneNumber) });
+  } catch (error) {
+    handleConsentError(res, error, "Failed to update Do Not Call list");
+  }
+});
+
+export default router;
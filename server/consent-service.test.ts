@@ -0,0 +1,132 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; ledger reads and writes are replaced below
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { consentService, normalizePhoneNumber, ConsentError } = await import("./consent-service");
+
+type ConsentChannel = import("./consent-service").ConsentChannel;
+type ConsentState = import("./consent-service").ConsentState;
+type CommunicationConsent = import("@shared/schema").CommunicationConsent;
+type InsertCommunicationConsent = import("@shared/schema").InsertCommunicationConsent;
+
+const TEXAS = ['America/Chicago', 'America/Denver'];
+
+function recordConsents() {
+  const recorded: Array<{ consent: InsertCommunicationConsent; organizationId?: number | null }> = [];
+  mock.method(consentService, 'record', async (consent: InsertCommunicationConsent, options: { organizationId?: number | null } = {}) => {
+    recorded.push({ consent, organizationId: options.organizationId });
+    return consent as unknown as CommunicationConsent;
+  });
+  return recorded;
+}
+
+function ledgerState(states: Partial<Record<ConsentChannel, ConsentState>>, timeZones = TEXAS) {
+  mock.method(consentService, 'getStatus', async (address: string, channel: ConsentChannel) =>
+    ({ address, channel, state: states[channel] ?? 'unknown', record: null }));
+  mock.method(consentService, 'getRecipientTimeZones', async () => timeZones);
+}
+
+afterEach(() => mock.restoreAll());
+
+describe("address normalization", () => {
+  test("stores US numbers as E.164 and requires a country code for anything else", () => {
+    assert.equal(normalizePhoneNumber('(512) 555-0142'), '+15125550142');
+    assert.equal(normalizePhoneNumber('1-512-555-0142'), '+15125550142');
+    assert.equal(normalizePhoneNumber('+44 20 7946 0958'), '+442079460958');
+    assert.equal(normalizePhoneNumber('555-0142'), null);
+    assert.equal(consentService.normalizeAddress(' Dana@Example.com ', 'email'), 'dana@example.com');
+    assert.equal(consentService.normalizeAddress('dana@example', 'email'), null);
+  });
+
+  test("refuses invalid addresses and call or text opt-ins without consent language before writing", async () => {
+    await assert.rejects(consentService.record({ address: '555', channel: 'sms', action: 'opt_out', source: 'manual' }), (error: unknown) => {
+      assert.ok(error instanceof ConsentError);
+      assert.equal(error.reason, 'invalid_address');
+      return true;
+    });
+    await assert.rejects(
+      consentService.record({ address: '5125550142', channel: 'voice', action: 'opt_in', source: 'manual', consentText: ' ' }),
+      /Express written consent text is required/
+    );
+  });
+});
+
+describe("inbound SMS keywords", () => {
+  test("opts the sender out on STOP and its synonyms for every organization", async () => {
+    const recorded = recordConsents();
+    for (const body of ['STOP', ' stop. ', 'Unsubscribe', 'STOP ALL', 'quit']) {
+      const reply = await consentService.handleInboundKeyword('+15125550142', body, 'Loan Daddy');
+      assert.match(reply!, /^Loan Daddy: You are unsubscribed/);
+    }
+    assert.equal(recorded.length, 5);
+    assert.ok(recorded.every(({ consent, organizationId }) =>
+      consent.action === 'opt_out' && consent.channel === 'sms' && consent.source === 'sms_keyword' && organizationId === null));
+    assert.equal(recorded[1].consent.consentText, 'stop.');
+  });
+
+  test("opts the sender back in on START and keeps the reply as the consent text", async () => {
+    const recorded = recordConsents();
+    const reply = await consentService.handleInboundKeyword('+15125550142', 'Start', 'Loan Daddy');
+    assert.match(reply!, /resubscribed/);
+    assert.equal(recorded[0].consent.action, 'opt_in');
+    assert.equal(recorded[0].consent.consentText, 'Start');
+  });
+
+  test("answers HELP without touching the ledger and ignores ordinary messages", async () => {
+    const recorded = recordConsents();
+    assert.match((await consentService.handleInboundKeyword('+15125550142', 'help', 'Loan Daddy'))!, /Reply STOP to opt out/);
+    assert.equal(await consentService.handleInboundKeyword('+15125550142', 'Please stop by the office', 'Loan Daddy'), null);
+    assert.equal(await consentService.handleInboundKeyword('+15125550142', '', 'Loan Daddy'), null);
+    assert.equal(recorded.length, 0);
+  });
+});
+
+describe("contact checks", () => {
+  // 3:00pm in Chicago, 2:00pm in Denver
+  const afternoon = new Date('2026-10-19T20:00:00Z');
+
+  test("blocks calls and texts without a standing opt-in and anything after an opt-out", async () => {
+    ledgerState({ voice: 'opted_out', email: 'opted_out' });
+    assert.equal((await consentService.checkContact('5125550142', 'sms', afternoon)).reason, 'no_consent');
+    assert.equal((await consentService.checkContact('5125550142', 'voice', afternoon)).reason, 'opted_out');
+    assert.equal((await consentService.checkContact('dana@example.com', 'email', afternoon)).reason, 'opted_out');
+    assert.equal((await consentService.checkContact('555', 'sms', afternoon)).reason, 'invalid_address');
+  });
+
+  test("allows email without an opt-in and texts with one inside calling hours", async () => {
+    ledgerState({ sms: 'opted_in' });
+    assert.deepEqual(await consentService.checkContact('dana@example.com', 'email', afternoon), { allowed: true });
+    assert.deepEqual(await consentService.checkContact('5125550142', 'sms', afternoon), { allowed: true, timeZones: TEXAS });
+  });
+
+  test("defers texts during quiet hours until the window opens in every zone the recipient may be in", async () => {
+    ledgerState({ sms: 'opted_in' });
+    // 8:30am in Chicago is still 7:30am in Denver
+    const check = await consentService.checkContact('5125550142', 'sms', new Date('2026-10-19T13:30:00Z'));
+    assert.equal(check.allowed, false);
+    assert.equal(check.reason, 'quiet_hours');
+    assert.deepEqual(check.retryAt, new Date('2026-10-19T14:00:00Z'));
+    await assert.rejects(consentService.assertCanContact('5125550142', 'voice'), ConsentError);
+  });
+
+  test("puts a number on the Do-Not-Call list when either calls or texts are opted out", async () => {
+    ledgerState({ sms: 'opted_out' });
+    assert.equal(await consentService.isOnDoNotCall('5125550142'), true);
+    mock.restoreAll();
+    ledgerState({ sms: 'opted_in' });
+    assert.equal(await consentService.isOnDoNotCall('5125550142'), false);
+  });
+});
+
+describe("calling hours", () => {
+  test("end at 9pm in the latest zone", () => {
+    assert.equal(consentService.withinCallingHours(new Date('2026-10-20T01:45:00Z'), TEXAS), true);
+    assert.equal(consentService.withinCallingHours(new Date('2026-10-20T02:00:00Z'), TEXAS), false);
+  });
+
+  test("reopen at 8am the next morning, rounded up to the quarter hour", () => {
+    assert.deepEqual(consentService.nextCallingWindow(new Date('2026-10-20T02:07:00Z'), ['America/New_York']), new Date('2026-10-20T12:00:00Z'));
+    assert.deepEqual(consentService.nextCallingWindow(new Date('2026-10-19T16:07:00Z'), ['America/New_York']), new Date('2026-10-19T16:15:00Z'));
+  });
+});
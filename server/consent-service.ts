@@ -0,0 +1,301 @@
+// Consent Service
+// TCPA consent ledger and Do-Not-Call enforcement: opt-ins and opt-outs per address, SMS keywords and quiet hours
+
+import { db } from "./db";
+import { tenantContext } from "./tenant-context";
+import {
+  borrowers,
+  communicationConsents,
+  contacts,
+  type CommunicationConsent,
+  type InsertCommunicationConsent,
+} from "@shared/schema";
+import { and, asc, desc, eq, isNull, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+export type ConsentChannel = 'sms' | 'voice' | 'email';
+export type ConsentState = 'opted_in' | 'opted_out' | 'unknown';
+
+export interface ConsentStatus {
+  address: string;
+  channel: ConsentChannel;
+  state: ConsentState;
+  record: CommunicationConsent | null; // the event that set the state
+}
+
+export interface ContactCheck {
+  allowed: boolean;
+  reason?: 'invalid_address' | 'opted_out' | 'no_consent' | 'quiet_hours';
+  message?: string;
+  retryAt?: Date; // quiet hours only: when the recipient's window opens
+  timeZones?: string[]; // zones the quiet hours were checked in
+}
+
+export interface ConsentRecordOptions {
+  organizationId?: number | null; // defaults to the current organization
+  recordedBy?: number | null;
+}
+
+export class ConsentError extends Error {
+  constructor(message: string, public reason?: ContactCheck['reason'], public retryAt?: Date) {
+    super(message);
+    this.name = 'ConsentError';
+  }
+}
+
+// Calls and texts only between 8am and 9pm where the recipient is
+const QUIET_HOURS_END = 8;
+const QUIET_HOURS_START = 21;
+const QUIET_HOURS_STEP_MS = 15 * 60 * 1000;
+const CONSENT_CHANNELS: ConsentChannel[] = ['sms', 'voice', 'email'];
+
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'REVOKE', 'OPTOUT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+// Every zone a state spans; quiet hours must hold in all of them. Unknown states use both coasts.
+const STATE_TIME_ZONES: Record<string, string[]> = {
+  AL: ['America/Chicago'], AK: ['America/Anchorage', 'America/Adak'], AZ: ['America/Phoenix'],
+  AR: ['America/Chicago'], CA: ['America/Los_Angeles'], CO: ['America/Denver'], CT: ['America/New_York'],
+  DE: ['America/New_York'], DC: ['America/New_York'], FL: ['America/New_York', 'America/Chicago'],
+  GA: ['America/New_York'], HI: ['Pacific/Honolulu'], ID: ['America/Boise', 'America/Los_Angeles'],
+  IL: ['America/Chicago'], IN: ['America/Indiana/Indianapolis', 'America/Chicago'], IA: ['America/Chicago'],
+  KS: ['America/Chicago', 'America/Denver'], KY: ['America/New_York', 'America/Chicago'], LA: ['America/Chicago'],
+  ME: ['America/New_York'], MD: ['America/New_York'], MA: ['America/New_York'],
+  MI: ['America/Detroit', 'America/Chicago'], MN: ['America/Chicago'], MS: ['America/Chicago'],
+  MO: ['America/Chicago'], MT: ['America/Denver'], NE: ['America/Chicago', 'America/Denver'],
+  NV: ['America/Los_Angeles'], NH: ['America/New_York'], NJ: ['America/New_York'], NM: ['America/Denver'],
+  NY: ['America/New_York'], NC: ['America/New_York'], ND: ['America/Chicago', 'America/Denver'],
+  OH: ['America/New_York'], OK: ['America/Chicago'], OR: ['America/Los_Angeles', 'America/Boise'],
+  PA: ['America/New_York'], RI: ['America/New_York'], SC: ['America/New_York'],
+  SD: ['America/Chicago', 'America/Denver'], TN: ['America/Chicago', 'America/New_York'],
+  TX: ['America/Chicago', 'America/Denver'], UT: ['America/Denver'], VT: ['America/New_York'],
+  VA: ['America/New_York'], WA: ['America/Los_Angeles'], WV: ['America/New_York'], WI: ['America/Chicago'],
+  WY: ['America/Denver'], PR: ['America/Puerto_Rico'],
+};
+const UNKNOWN_TIME_ZONES = ['America/New_York', 'America/Los_Angeles'];
+
+// US numbers without a country code are assumed; anything else must already carry one
+export function normalizePhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (phone.trim().startsWith('+')) return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+// Matches a stored phone column against a number by its last ten digits, whatever formatting was saved
+export function phoneDigitsMatch(column: AnyPgColumn, phoneNumber: string): SQL {
+  return sql`right(regexp_replace(${column}, '\\D', '', 'g'), 10) = ${phoneNumber.replace(/\D/g, '').slice(-10)}`;
+}
+
+function localHour(at: Date, timeZone: string): number {
+  return parseInt(new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(at));
+}
+
+export class ConsentService {
+  private static instance: ConsentService;
+
+  public static getInstance(): ConsentService {
+    if (!ConsentService.instance) {
+      ConsentService.instance = new ConsentService();
+    }
+    return ConsentService.instance;
+  }
+
+  // Ledger
+
+  // Phone numbers are stored as E.164 and emails lowercased so every lookup for one recipient agrees
+  normalizeAddress(address: string, channel: ConsentChannel): string | null {
+    if (channel === 'email') {
+      const email = address.trim().toLowerCase();
+      return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(email) ? email : null;
+    }
+    return normalizePhoneNumber(address);
+  }
+
+  // Opt-ins for calls and texts must carry the express written consent language the recipient agreed to
+  async record(consent: InsertCommunicationConsent, options: ConsentRecordOptions = {}): Promise<CommunicationConsent> {
+    const channel = consent.channel as ConsentChannel;
+    const address = this.normalizeAddress(consent.address, channel);
+    if (!address) {
+      throw new ConsentError(`Invalid ${channel === 'email' ? 'email address' : 'phone number'}: ${consent.address}`, 'invalid_address');
+    }
+    if (consent.action === 'opt_in' && channel !== 'email' && !consent.consentText?.trim()) {
+      throw new ConsentError('Express written consent text is required to opt a number in to calls or texts');
+    }
+
+    const [created] = await db.insert(communicationConsents).values({
+      ...consent,
+      address,
+      organizationId: options.organizationId !== undefined ? options.organizationId : tenantContext.getOrganizationId() ?? null,
+      recordedBy: options.recordedBy ?? null
+    }).returning();
+    return created;
+  }
+
+  async getHistory(address: string): Promise<CommunicationConsent[]> {
+    const addresses = CONSENT_CHANNELS
+      .map(channel => this.normalizeAddress(address, channel))
+      .filter((value): value is string => !!value);
+    if (addresses.length === 0) return [];
+
+    return db.select().from(communicationConsents)
+      .where(this.scope(or(...addresses.map(value => eq(communicationConsents.address, value)))))
+      .orderBy(desc(communicationConsents.createdAt), desc(communicationConsents.id));
+  }
+
+  async getStatus(address: string, channel: ConsentChannel): Promise<ConsentStatus> {
+    const normalized = this.normalizeAddress(address, channel) || address;
+    const [record] = await db.select().from(communicationConsents)
+      .where(this.scope(and(eq(communicationConsents.address, normalized), eq(communicationConsents.channel, channel))))
+      .orderBy(desc(communicationConsents.createdAt), desc(communicationConsents.id))
+      .limit(1);
+
+    return {
+      address: normalized,
+      channel,
+      state: !record ? 'unknown' : record.action === 'opt_out' ? 'opted_out' : 'opted_in',
+      record: record || null
+    };
+  }
+
+  // Addresses whose latest event on a channel is an opt-out
+  async getOptOuts(): Promise<CommunicationConsent[]> {
+    const latest = await db
+      .selectDistinctOn([communicationConsents.address, communicationConsents.channel])
+      .from(communicationConsents)
+      .where(this.scope())
+      .orderBy(
+        asc(communicationConsents.address),
+        asc(communicationConsents.channel),
+        desc(communicationConsents.createdAt),
+        desc(communicationConsents.id)
+      );
+    return latest.filter(record => record.action === 'opt_out');
+  }
+
+  // Enforcement
+
+  // Calls and texts need a standing opt-in and must fall inside the recipient's calling hours; email is only blocked
+  // after an opt-out
+  async checkContact(address: string, channel: ConsentChannel, at: Date = new Date()): Promise<ContactCheck> {
+    const normalized = this.normalizeAddress(address, channel);
+    if (!normalized) {
+      return { allowed: false, reason: 'invalid_address', message: `Invalid ${channel === 'email' ? 'email address' : 'phone number'}: ${address}` };
+    }
+
+    const status = await this.getStatus(normalized, channel);
+    if (status.state === 'opted_out') {
+      return { allowed: false, reason: 'opted_out', message: `${normalized} has opted out of ${channel} and is on the Do Not Call list` };
+    }
+    if (channel === 'email') {
+      return { allowed: true };
+    }
+    if (status.state !== 'opted_in') {
+      return { allowed: false, reason: 'no_consent', message: `No express written consent on file for ${channel} to ${normalized}` };
+    }
+
+    const timeZones = await this.getRecipientTimeZones(normalized);
+    if (!this.withinCallingHours(at, timeZones)) {
+      return {
+        allowed: false,
+        reason: 'quiet_hours',
+        message: `Outside ${QUIET_HOURS_END}am-${QUIET_HOURS_START - 12}pm calling hours for ${normalized}`,
+        retryAt: this.nextCallingWindow(at, timeZones),
+        timeZones
+      };
+    }
+    return { allowed: true, timeZones };
+  }
+
+  async assertCanContact(address: string, channel: ConsentChannel): Promise<void> {
+    const check = await this.checkContact(address, channel);
+    if (!check.allowed) {
+      throw new ConsentError(check.message || 'Contact not permitted', check.reason, check.retryAt);
+    }
+  }
+
+  // Do-Not-Call: an opt-out on both voice and SMS
+  async isOnDoNotCall(phoneNumber: string): Promise<boolean> {
+    const [voice, sms] = await Promise.all([this.getStatus(phoneNumber, 'voice'), this.getStatus(phoneNumber, 'sms')]);
+    return voice.state === 'opted_out' || sms.state === 'opted_out';
+  }
+
+  async addToDoNotCall(phoneNumber: string, options: ConsentRecordOptions = {}): Promise<void> {
+    for (const channel of ['voice', 'sms'] as ConsentChannel[]) {
+      await this.record({ address: phoneNumber, channel, action: 'opt_out', source: 'manual' }, options);
+    }
+  }
+
+  // Coming off the list means the recipient consented again, so the consent language is required
+  async removeFromDoNotCall(phoneNumber: string, consentText: string, options: ConsentRecordOptions = {}): Promise<void> {
+    for (const channel of ['voice', 'sms'] as ConsentChannel[]) {
+      await this.record({ address: phoneNumber, channel, action: 'opt_in', source: 'manual', consentText }, options);
+    }
+  }
+
+  // Inbound SMS keywords (STOP, START, HELP and their synonyms) for the shared number, so they apply to every
+  // organization. Returns the reply to send, or null when the message is not a keyword. Anyone can claim any From
+  // number, so callers must only pass texts from a Twilio-signed webhook (see smsThreadService.verifyTwilioWebhook).
+  async handleInboundKeyword(from: string, body: string, brandName: string): Promise<string | null> {
+    const keyword = (body || '').trim().toUpperCase().replace(/[^A-Z]/g, '');
+    const keywordOptions = { organizationId: null, recordedBy: null };
+
+    if (OPT_OUT_KEYWORDS.includes(keyword)) {
+      await this.record({ address: from, channel: 'sms', action: 'opt_out', source: 'sms_keyword', consentText: body.trim() }, keywordOptions);
+      return `${brandName}: You are unsubscribed and will receive no further messages. Reply START to resubscribe.`;
+    }
+    if (OPT_IN_KEYWORDS.includes(keyword)) {
+      await this.record({ address: from, channel: 'sms', action: 'opt_in', source: 'sms_keyword', consentText: body.trim() }, keywordOptions);
+      return `${brandName}: You are resubscribed to loan updates. Msg & data rates may apply. Reply HELP for help, STOP to opt out.`;
+    }
+    if (HELP_KEYWORDS.includes(keyword)) {
+      return `${brandName}: Loan updates from your loan team. Msg frequency varies. Msg & data rates may apply. Reply STOP to opt out.`;
+    }
+    return null;
+  }
+
+  // Quiet hours
+
+  withinCallingHours(at: Date, timeZones: string[]): boolean {
+    return timeZones.every(timeZone => {
+      const hour = localHour(at, timeZone);
+      return hour >= QUIET_HOURS_END && hour < QUIET_HOURS_START;
+    });
+  }
+
+  nextCallingWindow(from: Date, timeZones: string[]): Date {
+    let candidate = new Date(Math.ceil(from.getTime() / QUIET_HOURS_STEP_MS) * QUIET_HOURS_STEP_MS);
+    for (let step = 0; step < (48 * 60 * 60 * 1000) / QUIET_HOURS_STEP_MS; step++) {
+      if (this.withinCallingHours(candidate, timeZones)) return candidate;
+      candidate = new Date(candidate.getTime() + QUIET_HOURS_STEP_MS);
+    }
+    return candidate;
+  }
+
+  // From the state on the borrower or contact record with this number
+  async getRecipientTimeZones(phoneNumber: string): Promise<string[]> {
+    const [borrower] = await db.select({ state: borrowers.state }).from(borrowers)
+      .where(tenantContext.where(borrowers.organizationId, phoneDigitsMatch(borrowers.phone, phoneNumber)))
+      .limit(1);
+    let state = borrower?.state;
+    if (!state) {
+      const [contact] = await db.select({ state: contacts.state }).from(contacts)
+        .where(tenantContext.where(contacts.organizationId, or(phoneDigitsMatch(contacts.mobilePhone, phoneNumber), phoneDigitsMatch(contacts.businessPhone, phoneNumber))))
+        .limit(1);
+      state = contact?.state;
+    }
+    return STATE_TIME_ZONES[(state || '').trim().toUpperCase()] || UNKNOWN_TIME_ZONES;
+  }
+
+  // Events recorded for the current organization plus those that apply to every organization
+  private scope(condition?: SQL): SQL | undefined {
+    const organizationId = tenantContext.getOrganizationId();
+    if (organizationId === undefined) return condition;
+    const visible = or(isNull(communicationConsents.organizationId), eq(communicationConsents.organizationId, organizationId))!;
+    return condition ? and(condition, visible) : visible;
+  }
+}
+
+export const consentService = ConsentService.getInstance();
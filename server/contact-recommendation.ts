@@ -2,6 +2,7 @@ import { db } from './db';
 import { contacts, loanApplications, callLogs, borrowers, properties } from '@shared/schema';
 import { eq, sql, desc, asc, and, or, count, avg, sum } from 'drizzle-orm';
 import type { Contact } from '@shared/schema';
+import { tenantContext } from './tenant-context';
 
 export interface ContactRecommendation {
   contact: Contact;
@@ -115,7 +116,7 @@ export class ContactRecommendationService {
       const contact = await db
         .select()
         .from(contacts)
-        .where(eq(contacts.id, contactId))
+        .where(tenantContext.where(contacts.organizationId, eq(contacts.id, contactId)))
         .limit(1);
       
       if (!contact.length) {
@@ -134,7 +135,7 @@ export class ContactRecommendationService {
         })
         .from(loanApplications)
         .leftJoin(borrowers, eq(loanApplications.borrowerId, borrowers.id))
-        .where(eq(borrowers.contactId, contactId))
+        .where(tenantContext.where(loanApplications.organizationId, eq(borrowers.contactId, contactId)))
         .orderBy(desc(loanApplications.createdAt));
 
       // Get communication history
@@ -196,7 +197,7 @@ export class ContactRecommendationService {
       const contact = await db
         .select()
         .from(contacts)
-        .where(eq(contacts.id, contactId))
+        .where(tenantContext.where(contacts.organizationId, eq(contacts.id, contactId)))
         .limit(1);
 
       if (!contact.length) {
@@ -290,6 +291,7 @@ export class ContactRecommendationService {
         updatedAt: contacts.updatedAt
       })
       .from(contacts)
+      .where(tenantContext.where(contacts.organizationId))
       .orderBy(desc(contacts.updatedAt));
   }
 
@@ -1,5 +1,11 @@
 // Credit Reporting Integrations (Experian, Equifax, TransUnion)
 
+import { fieldEncryption } from './field-encryption';
+
+// Field names bound into the ciphertext of an authorization form's SSN and date of birth
+const AUTH_SSN_FIELD = 'credit_auth.ssn';
+const AUTH_DOB_FIELD = 'credit_auth.dateOfBirth';
+
 export interface CreditReport {
   reportId: string;
   borrowerId: number;
@@ -59,8 +65,8 @@ export interface CreditAuthForm {
   borrowerId: number;
   firstName: string;
   lastName: string;
-  ssn: string;
-  dateOfBirth: string;
+  ssn: string; // encrypted; decrypted only when the request is sent to a bureau
+  dateOfBirth: string; // encrypted
   currentAddress: {
     street: string;
     city: string;
@@ -145,9 +151,9 @@ export class ExperianCreditService {
               firstName: authForm.firstName,
               lastName: authForm.lastName
             },
-            ssn: authForm.ssn,
+            ssn: fieldEncryption.decrypt(authForm.ssn, AUTH_SSN_FIELD),
             dob: {
-              dob: authForm.dateOfBirth
+              dob: fieldEncryption.decrypt(authForm.dateOfBirth, AUTH_DOB_FIELD)
             },
             phone: {
               number: authForm.phoneNumber
@@ -283,8 +289,8 @@ export class EquifaxCreditService {
         subject: {
           firstName: authForm.firstName,
           lastName: authForm.lastName,
-          ssn: authForm.ssn,
-          dateOfBirth: authForm.dateOfBirth,
+          ssn: fieldEncryption.decrypt(authForm.ssn, AUTH_SSN_FIELD),
+          dateOfBirth: fieldEncryption.decrypt(authForm.dateOfBirth, AUTH_DOB_FIELD),
           address: {
             streetAddress: authForm.currentAddress.street,
             city: authForm.currentAddress.city,
@@ -400,8 +406,8 @@ export class CreditReportingService {
       borrowerId: borrowerData.id,
       firstName: borrowerData.firstName,
       lastName: borrowerData.lastName,
-      ssn: borrowerData.ssn,
-      dateOfBirth: borrowerData.dateOfBirth,
+      ssn: borrowerData.ssn ? fieldEncryption.encrypt(borrowerData.ssn, AUTH_SSN_FIELD) : '',
+      dateOfBirth: borrowerData.dateOfBirth ? fieldEncryption.encrypt(borrowerData.dateOfBirth, AUTH_DOB_FIELD) : '',
       currentAddress: {
         street: borrowerData.streetAddress,
         city: borrowerData.city,
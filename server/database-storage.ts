@@ -1,14 +1,609 @@
+// Database Storage
+// Drizzle-backed IStorage: every query is limited to the current organization and multi-row creates run in a transaction
+
 import { db } from "./db";
-import { contacts, type Contact } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import { IStorage } from "./storage";
+import {
+  users, borrowers, properties, loanApplications, documents, tasks, notifications, templates, callLogs, contacts,
+  documentRequirements, documentReminders, bankAccounts, loanPortalSessions, loanStatusHistory,
+  type User, type Borrower, type Property, type LoanApplication, type Document, type Task, type Notification,
+  type Template, type CallLog, type Contact, type InsertBorrower, type InsertProperty, type InsertLoanApplication,
+  type InsertDocument, type InsertTask, type InsertNotification, type InsertTemplate, type InsertCallLog,
+  type LoanApplicationWithDetails, type LoanStatusHistoryEntry
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gte, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgSelect } from "drizzle-orm/pg-core";
+import type { IStorage, LoanStatusChange, NewLoanApplication } from "./storage";
+import { fieldEncryption } from "./field-encryption";
+import { piiMasking } from "./pii-masking";
+import { tenantContext, TenantError } from "./tenant-context";
+import {
+  defaultDocumentRequirements, buildDashboardStats, decodeLoanCursor, encodeLoanCursor, parseLoanSearch,
+  pickIntakeAssignee, INTAKE_ASSIGNEE_ROLES, type ListOptions, type DashboardStats
+} from "./storage-defaults";
+import type { LoanApplicationSearch, LoanApplicationPage, LoanApplicationSortField } from "@shared/loan-search";
+
+// The database or an open transaction
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+// Listing sort columns with the SQL type their cursor values are cast back to
+const LOAN_SORT_COLUMNS: Record<LoanApplicationSortField, { column: AnyPgColumn; type: string }> = {
+  createdAt: { column: loanApplications.createdAt, type: 'timestamp' },
+  updatedAt: { column: loanApplications.updatedAt, type: 'timestamp' },
+  requestedAmount: { column: loanApplications.requestedAmount, type: 'numeric' },
+  borrowerName: { column: borrowers.lastName, type: 'text' },
+};
+
+function withPage<T extends PgSelect>(query: T, options?: ListOptions): T {
+  if (options?.limit !== undefined) query = query.limit(options.limit) as T;
+  if (options?.offset) query = query.offset(options.offset) as T;
+  return query;
+}
+
+export class DatabaseStorage implements IStorage {
+  // Tenant scoping: borrowers, loan applications and contacts carry organizationId; documents, tasks, notifications,
+  // call logs, reminders and bank accounts are limited through the loan application or borrower they belong to
+
+  private loanScope(column: AnyPgColumn, condition?: SQL): SQL | undefined {
+    return tenantContext.whereLoan(column, condition);
+  }
+
+  private borrowerScope(column: AnyPgColumn, condition?: SQL): SQL | undefined {
+    if (tenantContext.scopedOrganizationId() === null) return condition;
+    const visible = inArray(column, db.select({ id: borrowers.id }).from(borrowers)
+      .where(tenantContext.where(borrowers.organizationId)));
+    return condition ? and(condition, visible) : visible;
+  }
+
+  // Properties carry no organization, so one is visible only through a loan of the current organization
+  private propertyScope(condition?: SQL): SQL | undefined {
+    if (tenantContext.scopedOrganizationId() === null) return condition;
+    const visible = inArray(properties.id, db.select({ id: loanApplications.propertyId }).from(loanApplications)
+      .where(tenantContext.where(loanApplications.organizationId)));
+    return condition ? and(condition, visible) : visible;
+  }
+
+  // URLA answers carry the SSN and date of birth, which are encrypted inside the JSON
+  private decryptLoan<T extends LoanApplication>(application: T): T {
+    return fieldEncryption.decryptJsonFields('loan_applications', application);
+  }
+
+  private async assertLoanVisible(loanApplicationId: number, executor: Executor = db) {
+    const [loan] = await executor.select({ id: loanApplications.id }).from(loanApplications)
+      .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.id, loanApplicationId)));
+    if (!loan) {
+      throw new TenantError(`Loan application ${loanApplicationId} not found`);
+    }
+  }
+
+  private async assertBorrowerVisible(borrowerId: number) {
+    const [borrower] = await db.select({ id: borrowers.id }).from(borrowers)
+      .where(tenantContext.where(borrowers.organizationId, eq(borrowers.id, borrowerId)));
+    if (!borrower) {
+      throw new TenantError(`Borrower ${borrowerId} not found`);
+    }
+  }
+
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getIntakeAssignee(): Promise<User | undefined> {
+    const organizationId = tenantContext.scopedOrganizationId();
+    if (organizationId === null) return undefined;
+    return pickIntakeAssignee(await db.select().from(users)
+      .where(and(eq(users.organizationId, organizationId), inArray(users.role, INTAKE_ASSIGNEE_ROLES))));
+  }
+
+  async createUser(user: Omit<User, 'id'>): Promise<User> {
+    const [created] = await db.insert(users).values(user).returning();
+    return created;
+  }
+
+  // Borrowers
+  async getBorrower(id: number): Promise<Borrower | undefined> {
+    const [borrower] = await db.select().from(borrowers)
+      .where(tenantContext.where(borrowers.organizationId, eq(borrowers.id, id)));
+    return borrower;
+  }
+
+  async createBorrower(borrower: InsertBorrower, executor: Executor = db): Promise<Borrower> {
+    const [created] = await executor.insert(borrowers).values({
+      ...borrower,
+      organizationId: tenantContext.getOrganizationId() ?? borrower.organizationId,
+    }).returning();
+    return created;
+  }
+
+  async updateBorrower(id: number, borrower: Partial<InsertBorrower>): Promise<Borrower | undefined> {
+    const [updated] = await db.update(borrowers)
+      .set({ ...borrower, organizationId: undefined })
+      .where(tenantContext.where(borrowers.organizationId, eq(borrowers.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Properties
+  async getProperty(id: number): Promise<Property | undefined> {
+    const [property] = await db.select().from(properties).where(this.propertyScope(eq(properties.id, id)));
+    return property;
+  }
+
+  async createProperty(property: InsertProperty, executor: Executor = db): Promise<Property> {
+    const [created] = await executor.insert(properties).values(property).returning();
+    return created;
+  }
+
+  async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property | undefined> {
+    const [updated] = await db.update(properties)
+      .set(property)
+      .where(this.propertyScope(eq(properties.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Loan Applications
+  async getLoanApplication(id: number): Promise<LoanApplication | undefined> {
+    const [application] = await db.select().from(loanApplications)
+      .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.id, id)));
+    return application && this.decryptLoan(application);
+  }
+
+  async getLoanApplicationWithDetails(id: number): Promise<LoanApplicationWithDetails | undefined> {
+    const [detailed] = await this.withDetails(
+      tenantContext.where(loanApplications.organizationId, eq(loanApplications.id, id)));
+    return detailed;
+  }
+
+  async getAllLoanApplications(options?: ListOptions): Promise<LoanApplication[]> {
+    const rows = await withPage(db.select().from(loanApplications)
+      .where(tenantContext.where(loanApplications.organizationId))
+      .orderBy(asc(loanApplications.id))
+      .$dynamic(), options);
+    return rows.map(application => this.decryptLoan(application));
+  }
+
+  async getAllLoanApplicationsWithDetails(options?: ListOptions): Promise<LoanApplicationWithDetails[]> {
+    return this.withDetails(tenantContext.where(loanApplications.organizationId), options);
+  }
+
+  async searchLoanApplications(query: LoanApplicationSearch): Promise<LoanApplicationPage> {
+    const conditions: Array<SQL | undefined> = [tenantContext.where(loanApplications.organizationId)];
+    if (query.status?.length) conditions.push(inArray(loanApplications.status, query.status));
+    if (query.loanType?.length) conditions.push(inArray(loanApplications.loanType, query.loanType));
+    if (query.loanOfficerId) conditions.push(eq(loanApplications.loanOfficerId, query.loanOfficerId));
+    if (query.createdFrom) conditions.push(gte(loanApplications.createdAt, query.createdFrom));
+    if (query.createdTo) conditions.push(lte(loanApplications.createdAt, query.createdTo));
+    if (query.minAmount !== undefined) conditions.push(gte(loanApplications.requestedAmount, String(query.minAmount)));
+    if (query.maxAmount !== undefined) conditions.push(lte(loanApplications.requestedAmount, String(query.maxAmount)));
+    if (query.state) conditions.push(sql`upper(${properties.state}) = ${query.state.toUpperCase()}`);
+    if (query.search) conditions.push(this.loanSearchCondition(query.search));
+    const filter = and(...conditions);
+
+    // Keyset pagination on (sort column, id); the cursor carries the last row's values as Postgres renders them
+    const { column, type } = LOAN_SORT_COLUMNS[query.sort];
+    let pageFilter = filter;
+    if (query.cursor) {
+      const cursor = decodeLoanCursor(query.cursor, query.sort);
+      const operator = sql.raw(query.direction === 'asc' ? '>' : '<');
+      pageFilter = and(filter, sql`(${column}, ${loanApplications.id}) ${operator} (cast(${cursor.value} as ${sql.raw(type)}), ${cursor.id})`);
+    }
+    const order = query.direction === 'asc' ? asc : desc;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({
+        application: loanApplications,
+        borrower: borrowers,
+        property: properties,
+        sortValue: sql<string>`${column}::text`,
+      })
+        .from(loanApplications)
+        .innerJoin(borrowers, eq(loanApplications.borrowerId, borrowers.id))
+        .innerJoin(properties, eq(loanApplications.propertyId, properties.id))
+        .where(pageFilter)
+        .orderBy(order(column), order(loanApplications.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() })
+        .from(loanApplications)
+        .innerJoin(borrowers, eq(loanApplications.borrowerId, borrowers.id))
+        .innerJoin(properties, eq(loanApplications.propertyId, properties.id))
+        .where(filter),
+    ]);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      items: await this.attachDocumentsAndTasks(page),
+      nextCursor: rows.length > query.limit
+        ? encodeLoanCursor({ sort: query.sort, value: last.sortValue, id: last.application.id })
+        : null,
+      total,
+    };
+  }
+
+  // Prefix full-text match over borrower name and email and property address, or the application number
+  private loanSearchCondition(search: string): SQL {
+    const { terms, applicationId } = parseLoanSearch(search);
+    const document = sql`to_tsvector('simple', concat_ws(' ', ${borrowers.firstName}, ${borrowers.lastName}, ${borrowers.email}, ${properties.address}, ${properties.city}))`;
+    const textMatch = terms.length > 0
+      ? sql`${document} @@ to_tsquery('simple', ${terms.map(term => `${term}:*`).join(' & ')})`
+      : undefined;
+    const numberMatch = applicationId ? eq(loanApplications.id, applicationId) : undefined;
+    return or(textMatch, numberMatch) ?? sql`false`;
+  }
+
+  async createLoanApplication(application: InsertLoanApplication, executor: Executor = db): Promise<LoanApplication> {
+    const [created] = await executor.insert(loanApplications).values(fieldEncryption.encryptJsonFields('loan_applications', {
+      ...application,
+      organizationId: tenantContext.getOrganizationId() ?? application.organizationId,
+    })).returning();
+    return this.decryptLoan(created);
+  }
+
+  async createLoanApplicationWithRelations(input: NewLoanApplication): Promise<LoanApplicationWithDetails> {
+    const applicationId = await db.transaction(async tx => {
+      const borrower = await this.createBorrower(input.borrower, tx);
+      const property = await this.createProperty(input.property, tx);
+      const application = await this.createLoanApplication(
+        { ...input.application, borrowerId: borrower.id, propertyId: property.id }, tx);
+      if (input.tasks?.length) {
+        await tx.insert(tasks).values(input.tasks.map(task => ({ ...task, loanApplicationId: application.id })));
+      }
+      return application.id;
+    });
+    return (await this.getLoanApplicationWithDetails(applicationId))!;
+  }
+
+  async updateLoanApplication(
+    id: number,
+    application: Partial<InsertLoanApplication>,
+    executor: Executor = db
+  ): Promise<LoanApplication | undefined> {
+    const [updated] = await executor.update(loanApplications)
+      .set(fieldEncryption.encryptJsonFields('loan_applications', { ...application, organizationId: undefined, updatedAt: new Date() }))
+      .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.id, id)))
+      .returning();
+    return updated && this.decryptLoan(updated);
+  }
+
+  async changeLoanApplicationStatus(id: number, change: LoanStatusChange): Promise<LoanApplication | undefined> {
+    const { updates, ...entry } = change;
+    return db.transaction(async tx => {
+      const updated = await this.updateLoanApplication(id, { ...updates, status: change.toStatus }, tx);
+      if (updated) {
+        await tx.insert(loanStatusHistory).values({ ...entry, loanApplicationId: id });
+      }
+      return updated;
+    });
+  }
+
+  async getLoanStatusHistory(loanApplicationId: number): Promise<LoanStatusHistoryEntry[]> {
+    return db.select().from(loanStatusHistory)
+      .where(this.loanScope(loanStatusHistory.loanApplicationId, eq(loanStatusHistory.loanApplicationId, loanApplicationId)))
+      .orderBy(desc(loanStatusHistory.createdAt));
+  }
+
+  async getLoanApplicationsByStatus(status: string, options?: ListOptions): Promise<LoanApplication[]> {
+    const rows = await withPage(db.select().from(loanApplications)
+      .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.status, status)))
+      .orderBy(asc(loanApplications.id))
+      .$dynamic(), options);
+    return rows.map(application => this.decryptLoan(application));
+  }
+
+  async getLoanApplicationsByBorrower(borrowerId: number, options?: ListOptions): Promise<LoanApplication[]> {
+    const rows = await withPage(db.select().from(loanApplications)
+      .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.borrowerId, borrowerId)))
+      .orderBy(asc(loanApplications.id))
+      .$dynamic(), options);
+    return rows.map(application => this.decryptLoan(application));
+  }
+
+  // Loans with their borrower and property (loans missing either are skipped), then documents and tasks in two queries
+  private async withDetails(condition: SQL | undefined, options?: ListOptions): Promise<LoanApplicationWithDetails[]> {
+    const rows = await withPage(db.select({ application: loanApplications, borrower: borrowers, property: properties })
+      .from(loanApplications)
+      .innerJoin(borrowers, eq(loanApplications.borrowerId, borrowers.id))
+      .innerJoin(properties, eq(loanApplications.propertyId, properties.id))
+      .where(condition)
+      .orderBy(asc(loanApplications.id))
+      .$dynamic(), options);
+    return this.attachDocumentsAndTasks(rows);
+  }
+
+  private async attachDocumentsAndTasks(
+    rows: Array<{ application: LoanApplication; borrower: Borrower; property: Property }>
+  ): Promise<LoanApplicationWithDetails[]> {
+    if (rows.length === 0) return [];
+
+    const ids = rows.map(row => row.application.id);
+    const [loanDocuments, loanTasks] = await Promise.all([
+      db.select().from(documents).where(inArray(documents.loanApplicationId, ids)).orderBy(asc(documents.id)),
+      db.select().from(tasks).where(inArray(tasks.loanApplicationId, ids)).orderBy(asc(tasks.id)),
+    ]);
+
+    return rows.map(({ application, borrower, property }) => ({
+      ...this.decryptLoan(application),
+      borrower,
+      property,
+      documents: loanDocuments.filter(doc => doc.loanApplicationId === application.id),
+      tasks: loanTasks.filter(task => task.loanApplicationId === application.id),
+    }));
+  }
+
+  // Documents
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents)
+      .where(this.loanScope(documents.loanApplicationId, eq(documents.id, id)));
+    return document;
+  }
+
+  async getDocumentsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Document[]> {
+    return withPage(db.select().from(documents)
+      .where(this.loanScope(documents.loanApplicationId, eq(documents.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(documents.id))
+      .$dynamic(), options);
+  }
+
+  async createDocument(document: InsertDocument): Promise<Document> {
+    await this.assertLoanVisible(document.loanApplicationId);
+    const [created] = await db.insert(documents).values(document).returning();
+    return created;
+  }
+
+  async deleteDocument(id: number): Promise<boolean> {
+    const deleted = await db.delete(documents)
+      .where(this.loanScope(documents.loanApplicationId, eq(documents.id, id)))
+      .returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  // Tasks
+  async getTask(id: number): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(this.loanScope(tasks.loanApplicationId, eq(tasks.id, id)));
+    return task;
+  }
+
+  async getTasksByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Task[]> {
+    return withPage(db.select().from(tasks)
+      .where(this.loanScope(tasks.loanApplicationId, eq(tasks.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(tasks.id))
+      .$dynamic(), options);
+  }
+
+  async getTasksByAssignee(assignedToId: number, options?: ListOptions): Promise<Task[]> {
+    return withPage(db.select().from(tasks)
+      .where(this.loanScope(tasks.loanApplicationId, eq(tasks.assignedToId, assignedToId)))
+      .orderBy(asc(tasks.id))
+      .$dynamic(), options);
+  }
+
+  async createTask(task: InsertTask): Promise<Task> {
+    await this.assertLoanVisible(task.loanApplicationId);
+    const [created] = await db.insert(tasks).values(task).returning();
+    return created;
+  }
+
+  async updateTask(id: number, task: Partial<InsertTask>): Promise<Task | undefined> {
+    const [updated] = await db.update(tasks)
+      .set({ ...task, loanApplicationId: undefined })
+      .where(this.loanScope(tasks.loanApplicationId, eq(tasks.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Dashboard stats
+  async getDashboardStats(): Promise<DashboardStats> {
+    return buildDashboardStats(await this.getAllLoanApplications());
+  }
+
+  // Notifications
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications)
+      .where(this.loanScope(notifications.loanApplicationId, eq(notifications.id, id)));
+    return notification;
+  }
+
+  async getNotificationsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Notification[]> {
+    return withPage(db.select().from(notifications)
+      .where(this.loanScope(notifications.loanApplicationId, eq(notifications.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(notifications.id))
+      .$dynamic(), options);
+  }
+
+  // Newest first across every loan in the organization
+  async getRecentNotifications(options?: ListOptions): Promise<Notification[]> {
+    return withPage(db.select().from(notifications)
+      .where(this.loanScope(notifications.loanApplicationId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .$dynamic(), options);
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    await this.assertLoanVisible(notification.loanApplicationId);
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set({ ...notification, loanApplicationId: undefined })
+      .where(this.loanScope(notifications.loanApplicationId, eq(notifications.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Templates; shared templates (no organization) are readable by everyone but only changed outside a tenant scope
+  private templateScope(condition?: SQL): SQL | undefined {
+    const organizationId = tenantContext.scopedOrganizationId();
+    if (organizationId === null) return condition;
+    const visible = or(isNull(templates.organizationId), eq(templates.organizationId, organizationId))!;
+    return condition ? and(condition, visible) : visible;
+  }
+
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await db.select().from(templates).where(this.templateScope(eq(templates.id, id)));
+    return template;
+  }
+
+  async getAllTemplates(options?: ListOptions): Promise<Template[]> {
+    return withPage(db.select().from(templates).where(this.templateScope()).orderBy(asc(templates.id)).$dynamic(), options);
+  }
+
+  async getTemplatesByType(type: string, options?: ListOptions): Promise<Template[]> {
+    return withPage(db.select().from(templates)
+      .where(this.templateScope(eq(templates.type, type)))
+      .orderBy(asc(templates.id))
+      .$dynamic(), options);
+  }
+
+  async createTemplate(template: InsertTemplate): Promise<Template> {
+    const [created] = await db.insert(templates)
+      .values({ ...template, organizationId: tenantContext.getOrganizationId() ?? null })
+      .returning();
+    return created;
+  }
+
+  async updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template | undefined> {
+    const [updated] = await db.update(templates)
+      .set({ ...template, organizationId: undefined })
+      .where(tenantContext.where(templates.organizationId, eq(templates.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Call Logs
+  async getCallLog(id: number): Promise<CallLog | undefined> {
+    const [callLog] = await db.select().from(callLogs)
+      .where(this.loanScope(callLogs.loanApplicationId, eq(callLogs.id, id)));
+    return callLog;
+  }
+
+  async getCallLogsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<CallLog[]> {
+    return withPage(db.select().from(callLogs)
+      .where(this.loanScope(callLogs.loanApplicationId, eq(callLogs.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(callLogs.id))
+      .$dynamic(), options);
+  }
+
+  async getCallLogsByBorrower(borrowerId: number, options?: ListOptions): Promise<CallLog[]> {
+    return withPage(db.select().from(callLogs)
+      .where(this.borrowerScope(callLogs.borrowerId, eq(callLogs.borrowerId, borrowerId)))
+      .orderBy(asc(callLogs.id))
+      .$dynamic(), options);
+  }
+
+  async createCallLog(callLog: InsertCallLog): Promise<CallLog> {
+    await this.assertLoanVisible(callLog.loanApplicationId);
+    const [created] = await db.insert(callLogs).values(callLog).returning();
+    return created;
+  }
+
+  // Document Requirements; configured rows use displayName where the built-in checklist uses documentName
+  async getDocumentRequirements(loanType: string): Promise<any[]> {
+    const rows = await db.select().from(documentRequirements)
+      .where(and(eq(documentRequirements.loanType, loanType), eq(documentRequirements.isActive, true)))
+      .orderBy(asc(documentRequirements.sortOrder));
+    if (rows.length === 0) return defaultDocumentRequirements(loanType);
+    return rows.map(row => ({ ...row, documentName: row.displayName }));
+  }
+
+  async createDocumentRequirement(requirement: any): Promise<any> {
+    const [created] = await db.insert(documentRequirements).values({
+      loanType: requirement.loanType,
+      category: requirement.category,
+      documentType: requirement.documentType || requirement.category,
+      displayName: requirement.displayName || requirement.documentName,
+      description: requirement.description || null,
+      isRequired: requirement.isRequired ?? true,
+      sortOrder: requirement.sortOrder ?? 0,
+    }).returning();
+    return { ...created, documentName: created.displayName };
+  }
+
+  // Document Reminders
+  async getDocumentReminders(loanApplicationId: number): Promise<any[]> {
+    return db.select().from(documentReminders)
+      .where(this.loanScope(documentReminders.loanApplicationId, eq(documentReminders.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(documentReminders.scheduledAt));
+  }
+
+  async createDocumentReminder(reminder: any): Promise<any> {
+    await this.assertLoanVisible(reminder.loanApplicationId);
+    const [created] = await db.insert(documentReminders).values(reminder).returning();
+    return created;
+  }
+
+  async updateDocumentReminder(id: number, reminder: any): Promise<any> {
+    const [updated] = await db.update(documentReminders)
+      .set({ ...reminder, id: undefined, loanApplicationId: undefined })
+      .where(this.loanScope(documentReminders.loanApplicationId, eq(documentReminders.id, id)))
+      .returning();
+    return updated;
+  }
+
+  // Bank Accounts; account and routing numbers are encrypted on write and decrypted on read
+  async getBankAccounts(borrowerId: number): Promise<any[]> {
+    const rows = await db.select().from(bankAccounts)
+      .where(this.borrowerScope(bankAccounts.borrowerId, eq(bankAccounts.borrowerId, borrowerId)))
+      .orderBy(asc(bankAccounts.id));
+    return rows.map(account => fieldEncryption.decryptFields('bank_accounts', account));
+  }
+
+  async createBankAccount(account: any): Promise<any> {
+    await this.assertBorrowerVisible(account.borrowerId);
+    const [created] = await db.insert(bankAccounts)
+      .values(fieldEncryption.encryptFields('bank_accounts', piiMasking.stripMasked(account)))
+      .returning();
+    return fieldEncryption.decryptFields('bank_accounts', created);
+  }
+
+  async updateBankAccount(id: number, account: any): Promise<any> {
+    const [updated] = await db.update(bankAccounts)
+      .set({ ...fieldEncryption.encryptFields('bank_accounts', piiMasking.stripMasked(account)), id: undefined, borrowerId: undefined })
+      .where(this.borrowerScope(bankAccounts.borrowerId, eq(bankAccounts.id, id)))
+      .returning();
+    return updated && fieldEncryption.decryptFields('bank_accounts', updated);
+  }
+
+  // Customer Portal; the session token is the credential, so lookups are not tenant scoped
+  async getCustomerSession(token: string): Promise<any> {
+    const [session] = await db.select().from(loanPortalSessions).where(eq(loanPortalSessions.sessionToken, token));
+    return session;
+  }
+
+  async createCustomerSession(session: any): Promise<any> {
+    const [created] = await db.insert(loanPortalSessions).values(session).returning();
+    return created;
+  }
+
+  async updateLoanApplicationStage(id: number, stage: string, data?: any): Promise<any> {
+    const [updated] = await db.update(loanApplications)
+      .set(fieldEncryption.encryptJsonFields('loan_applications', {
+        stage,
+        updatedAt: new Date(),
+        ...(data?.urlaData && { urlaData: data.urlaData })
+      }))
+      .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.id, id)))
+      .returning();
+    return updated && this.decryptLoan(updated);
+  }
 
-export class DatabaseStorage implements Partial<IStorage> {
-  // Contacts methods
-  async getAllContacts(): Promise<Contact[]> {
+  // Contacts methods; SSN and date of birth are encrypted on write and decrypted on read, and every query is
+  // limited to the current organization
+  async getAllContacts(options?: ListOptions): Promise<Contact[]> {
     try {
-      const result = await db.select().from(contacts).orderBy(contacts.createdAt);
-      return result;
+      const result = await withPage(db.select().from(contacts)
+        .where(tenantContext.where(contacts.organizationId))
+        .orderBy(contacts.createdAt)
+        .$dynamic(), options);
+      return result.map(contact => fieldEncryption.decryptFields('contacts', contact));
     } catch (error) {
       console.error('Error fetching contacts from database:', error);
       return [];
@@ -17,8 +612,8 @@ export class DatabaseStorage implements Partial<IStorage> {
 
   async getContact(id: number): Promise<Contact | undefined> {
     try {
-      const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
-      return contact;
+      const [contact] = await db.select().from(contacts).where(tenantContext.where(contacts.organizationId, eq(contacts.id, id)));
+      return contact && fieldEncryption.decryptFields('contacts', contact);
     } catch (error) {
       console.error('Error fetching contact from database:', error);
       return undefined;
@@ -30,12 +625,13 @@ export class DatabaseStorage implements Partial<IStorage> {
       const [contact] = await db
         .insert(contacts)
         .values({
-          ...contactData,
+          ...fieldEncryption.encryptFields('contacts', piiMasking.stripMasked(contactData)),
+          organizationId: tenantContext.getOrganizationId() ?? contactData.organizationId ?? null,
           createdAt: new Date(),
           updatedAt: new Date(),
         })
         .returning();
-      return contact;
+      return fieldEncryption.decryptFields('contacts', contact);
     } catch (error) {
       console.error('Error creating contact in database:', error);
       throw error;
@@ -47,12 +643,13 @@ export class DatabaseStorage implements Partial<IStorage> {
       const [contact] = await db
         .update(contacts)
         .set({
-          ...contactData,
+          ...fieldEncryption.encryptFields('contacts', piiMasking.stripMasked(contactData)),
+          organizationId: undefined,
           updatedAt: new Date(),
         })
-        .where(eq(contacts.id, id))
+        .where(tenantContext.where(contacts.organizationId, eq(contacts.id, id)))
         .returning();
-      return contact;
+      return contact && fieldEncryption.decryptFields('contacts', contact);
     } catch (error) {
       console.error('Error updating contact in database:', error);
       return undefined;
@@ -61,8 +658,10 @@ export class DatabaseStorage implements Partial<IStorage> {
 
   async deleteContact(id: number): Promise<boolean> {
     try {
-      await db.delete(contacts).where(eq(contacts.id, id));
-      return true;
+      const deleted = await db.delete(contacts)
+        .where(tenantContext.where(contacts.organizationId, eq(contacts.id, id)))
+        .returning({ id: contacts.id });
+      return deleted.length > 0;
     } catch (error) {
       console.error('Error deleting contact from database:', error);
       return false;
@@ -70,4 +669,4 @@ export class DatabaseStorage implements Partial<IStorage> {
   }
 }
 
-export const databaseStorage = new DatabaseStorage();
\ No newline at end of file
+export const databaseStorage = new DatabaseStorage();
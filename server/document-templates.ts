@@ -184,6 +184,24 @@ export class DocumentTemplateService {
         signatureFields: [],
         createdAt: new Date(),
         updatedAt: new Date()
+      },
+      {
+        id: 'loan_estimate',
+        name: 'Loan Estimate',
+        category: 'disclosure',
+        type: 'html',
+        content: this.getLoanEstimateHTML(),
+        variables: [
+          'lenderName', 'lenderNmls', 'dateIssued', 'borrowerName', 'propertyAddress', 'salePrice', 'loanTerm',
+          'loanPurpose', 'loanProduct', 'loanId', 'rateLock', 'loanAmount', 'interestRate', 'principalAndInterest',
+          'estimatedEscrow', 'estimatedMonthlyPayment', 'closingDate', 'firstPaymentDate', 'totalLoanCosts',
+          'totalOtherCosts', 'totalClosingCosts', 'cashToClose',
+          ...['A', 'B', 'C', 'E', 'F', 'G', 'H'].flatMap(section => [`section${section}Rows`, `section${section}Total`])
+        ],
+        requiresSignature: false,
+        signatureFields: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
       }
     ];
 
@@ -215,7 +233,7 @@ export class DocumentTemplateService {
     // Replace variables
     Object.entries(variables).forEach(([key, value]) => {
       const placeholder = `{{${key}}}`;
-      content = content.replace(new RegExp(placeholder, 'g'), value);
+      content = content.replace(new RegExp(placeholder, 'g'), () => value);
     });
 
     return content;
@@ -312,7 +330,7 @@ export class DocumentTemplateService {
         <h3>BORROWER INFORMATION</h3>
         <p><strong>Borrower Name:</strong> {{borrowerName}}</p>
         <p><strong>Property Address:</strong> {{propertyAddress}}</p>
-        <p><strong>Loan Amount:</strong> ${{loanAmount}}</p>
+        <p><strong>Loan Amount:</strong> \${{loanAmount}}</p>
         <p><strong>Agreement Date:</strong> {{currentDate}}</p>
     </div>
 
@@ -331,7 +349,7 @@ export class DocumentTemplateService {
     <div class="section">
         <h3>COMPENSATION</h3>
         <div class="terms">
-            <p><strong>Broker Fee:</strong> {{feePercentage}}% of loan amount = ${{feeAmount}}</p>
+            <p><strong>Broker Fee:</strong> {{feePercentage}}% of loan amount = \${{feeAmount}}</p>
             <p><strong>Payment Terms:</strong> Fee due at closing from loan proceeds</p>
             <p><strong>Exclusive Period:</strong> 120 days from signing</p>
         </div>
@@ -863,6 +881,118 @@ export class DocumentTemplateService {
         <p>Phone: (555) 123-4567 | Fax: (555) 123-4568 | Email: docs@loanflowpro.com</p>
     </div>
 </body>
+</html>`;
+  }
+
+  private getLoanEstimateHTML(): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Loan Estimate</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 30px; line-height: 1.4; font-size: 13px; }
+        .header { display: flex; justify-content: space-between; border-bottom: 3px solid #000; padding-bottom: 10px; }
+        .header h1 { margin: 0; font-size: 28px; }
+        .grid { display: flex; gap: 30px; margin: 15px 0; }
+        .grid div { flex: 1; }
+        h2 { background: #000; color: #fff; padding: 4px 8px; font-size: 15px; margin-top: 25px; }
+        table { width: 100%; border-collapse: collapse; margin-bottom: 10px; }
+        th { text-align: left; background: #e8e8e8; padding: 5px 8px; }
+        td { padding: 4px 8px; border-bottom: 1px solid #ddd; vertical-align: top; }
+        .amount { text-align: right; white-space: nowrap; }
+        .basis { display: block; font-size: 11px; color: #666; }
+        .empty { color: #999; font-style: italic; }
+        .total-row td { font-weight: bold; border-top: 2px solid #000; }
+        .columns { display: flex; gap: 30px; }
+        .columns > div { flex: 1; }
+        .footer { margin-top: 30px; font-size: 11px; color: #444; border-top: 1px solid #000; padding-top: 10px; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1>Loan Estimate</h1>
+            <p>Save this Loan Estimate to compare with your Closing Disclosure.</p>
+        </div>
+        <div>
+            <strong>{{lenderName}}</strong><br>
+            NMLS {{lenderNmls}}
+        </div>
+    </div>
+
+    <div class="grid">
+        <div>
+            <p><strong>Date Issued:</strong> {{dateIssued}}</p>
+            <p><strong>Applicants:</strong> {{borrowerName}}</p>
+            <p><strong>Property:</strong> {{propertyAddress}}</p>
+            <p><strong>Sale Price:</strong> {{salePrice}}</p>
+        </div>
+        <div>
+            <p><strong>Loan Term:</strong> {{loanTerm}}</p>
+            <p><strong>Purpose:</strong> {{loanPurpose}}</p>
+            <p><strong>Product:</strong> {{loanProduct}}</p>
+            <p><strong>Loan ID #:</strong> {{loanId}}</p>
+            <p><strong>Rate Lock:</strong> {{rateLock}}</p>
+        </div>
+    </div>
+
+    <h2>Loan Terms</h2>
+    <table>
+        <tr><td>Loan Amount</td><td class="amount">{{loanAmount}}</td></tr>
+        <tr><td>Interest Rate</td><td class="amount">{{interestRate}}</td></tr>
+        <tr><td>Monthly Principal &amp; Interest</td><td class="amount">{{principalAndInterest}}</td></tr>
+    </table>
+
+    <h2>Projected Payments</h2>
+    <table>
+        <tr><td>Principal &amp; Interest</td><td class="amount">{{principalAndInterest}}</td></tr>
+        <tr><td>Estimated Escrow (property taxes and homeowner's insurance)</td><td class="amount">{{estimatedEscrow}}</td></tr>
+        <tr class="total-row"><td>Estimated Total Monthly Payment</td><td class="amount">{{estimatedMonthlyPayment}}</td></tr>
+    </table>
+
+    <h2>Costs at Closing</h2>
+    <table>
+        <tr><td>Estimated Closing Costs</td><td class="amount">{{totalClosingCosts}}</td></tr>
+        <tr><td>Estimated Cash to Close</td><td class="amount">{{cashToClose}}</td></tr>
+        <tr><td>Estimated Closing Date</td><td class="amount">{{closingDate}}</td></tr>
+        <tr><td>First Payment Date</td><td class="amount">{{firstPaymentDate}}</td></tr>
+    </table>
+
+    <h2>Closing Cost Details</h2>
+    <div class="columns">
+        <div>
+            <table>
+                <tr><th>A. Origination Charges</th><th class="amount">{{sectionATotal}}</th></tr>
+                {{sectionARows}}
+                <tr><th>B. Services You Cannot Shop For</th><th class="amount">{{sectionBTotal}}</th></tr>
+                {{sectionBRows}}
+                <tr><th>C. Services You Can Shop For</th><th class="amount">{{sectionCTotal}}</th></tr>
+                {{sectionCRows}}
+                <tr class="total-row"><td>D. TOTAL LOAN COSTS (A + B + C)</td><td class="amount">{{totalLoanCosts}}</td></tr>
+            </table>
+        </div>
+        <div>
+            <table>
+                <tr><th>E. Taxes and Other Government Fees</th><th class="amount">{{sectionETotal}}</th></tr>
+                {{sectionERows}}
+                <tr><th>F. Prepaids</th><th class="amount">{{sectionFTotal}}</th></tr>
+                {{sectionFRows}}
+                <tr><th>G. Initial Escrow Payment at Closing</th><th class="amount">{{sectionGTotal}}</th></tr>
+                {{sectionGRows}}
+                <tr><th>H. Other</th><th class="amount">{{sectionHTotal}}</th></tr>
+                {{sectionHRows}}
+                <tr class="total-row"><td>I. TOTAL OTHER COSTS (E + F + G + H)</td><td class="amount">{{totalOtherCosts}}</td></tr>
+                <tr class="total-row"><td>J. TOTAL CLOSING COSTS (D + I)</td><td class="amount">{{totalClosingCosts}}</td></tr>
+            </table>
+        </div>
+    </div>
+
+    <div class="footer">
+        <p>By signing, you are only confirming that you have received this form. You do not have to accept this loan because you have signed or received this form.</p>
+        <p>Applicant Signature: ______________________ Date: __________</p>
+    </div>
+</body>
 </html>`;
   }
 }
@@ -65,7 +65,7 @@ export class GmailIntegration {
       return response.data.id;
     } catch (error) {
       console.error('Gmail send error:', error);
-      throw new Error('Failed to send email via Gmail');
+      throw new Error(`Failed to send email via Gmail: ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -132,6 +132,57 @@ export class GmailIntegration {
       return [];
     }
   }
+
+  // Raw inbox messages added after historyId, oldest first, with the history id to resume from. The first sync (no
+  // history id, or one Gmail has expired) takes the newest messages of the last 30 days and continues from now.
+  async getRawMessagesSince(historyId: string | null, maxResults: number): Promise<{ messages: Array<{ id: string; raw: Buffer }>; historyId: string }> {
+    let ids: string[] = [];
+    let nextHistoryId: string | null = null;
+
+    if (historyId) {
+      try {
+        let pageToken: string | undefined;
+        let truncated = false;
+        do {
+          const response = await this.gmail.users.history.list({
+            userId: 'me',
+            startHistoryId: historyId,
+            historyTypes: ['messageAdded'],
+            labelId: 'INBOX',
+            pageToken
+          });
+          for (const record of response.data.history || []) {
+            if (ids.length >= maxResults) {
+              truncated = true;
+              break;
+            }
+            (record.messagesAdded || []).forEach((added: any) => ids.push(added.message.id));
+            nextHistoryId = record.id;
+          }
+          // Resume after the last record taken, or from the mailbox's current history id once caught up
+          pageToken = truncated ? undefined : response.data.nextPageToken;
+          if (!truncated && !pageToken) nextHistoryId = response.data.historyId;
+        } while (pageToken);
+      } catch (error: any) {
+        if (error?.code !== 404) throw error;
+        historyId = null;
+      }
+    }
+
+    if (!historyId) {
+      const profile = await this.gmail.users.getProfile({ userId: 'me' });
+      const response = await this.gmail.users.messages.list({ userId: 'me', q: 'in:inbox newer_than:30d', maxResults });
+      ids = (response.data.messages || []).map((message: any) => message.id).reverse();
+      nextHistoryId = profile.data.historyId;
+    }
+
+    const messages = [];
+    for (const id of Array.from(new Set(ids))) {
+      const detail = await this.gmail.users.messages.get({ userId: 'me', id, format: 'raw' });
+      messages.push({ id, raw: Buffer.from(detail.data.raw, 'base64url') });
+    }
+    return { messages, historyId: nextHistoryId || historyId || '' };
+  }
 }
 
 // Microsoft Exchange/Outlook Integration
@@ -215,12 +266,47 @@ export class ExchangeIntegration {
       if (response.ok) {
         return 'sent'; // Exchange doesn't return message ID for sent emails
       }
-      throw new Error('Failed to send email');
+      throw new Error(`Graph sendMail returned ${response.status}`);
     } catch (error) {
       console.error('Exchange send error:', error);
-      throw new Error('Failed to send email via Exchange');
+      throw new Error(`Failed to send email via Exchange: ${error instanceof Error ? error.message : error}`);
     }
   }
+
+  // Raw MIME for inbox messages added since deltaLink, one page of up to maxResults at a time. The returned link is
+  // the next page when more are waiting, otherwise the delta link for later changes. The first sync covers 30 days.
+  async getRawMessagesSince(userEmail: string, deltaLink: string | null, maxResults: number): Promise<{ messages: Array<{ id: string; raw: Buffer }>; deltaLink: string }> {
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const url = deltaLink ||
+      `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(userEmail)}/mailFolders/inbox/messages/delta?$select=id&$filter=receivedDateTime+ge+${since}`;
+
+    const page = await (await this.graphRequest(url, { Prefer: `odata.maxpagesize=${maxResults}` })).json();
+    const messages = [];
+    for (const item of page.value || []) {
+      if (item['@removed']) continue;
+      const response = await this.graphRequest(`https://graph.microsoft.com/v1.0/users/${encodeURIComponent(userEmail)}/messages/${item.id}/$value`);
+      messages.push({ id: item.id as string, raw: Buffer.from(await response.arrayBuffer()) });
+    }
+    return { messages, deltaLink: page['@odata.nextLink'] || page['@odata.deltaLink'] || url };
+  }
+
+  private async graphRequest(url: string, headers: Record<string, string> = {}): Promise<Response> {
+    if (!this.accessToken) {
+      await this.authenticate();
+    }
+    if (!this.accessToken) {
+      throw new Error('Exchange authentication failed');
+    }
+
+    let response = await fetch(url, { headers: { ...headers, 'Authorization': `Bearer ${this.accessToken}` } });
+    if (response.status === 401 && await this.authenticate()) {
+      response = await fetch(url, { headers: { ...headers, 'Authorization': `Bearer ${this.accessToken}` } });
+    }
+    if (!response.ok) {
+      throw new Error(`Graph request returned ${response.status}`);
+    }
+    return response;
+  }
 }
 
 // Email Service Orchestrator
@@ -394,6 +480,18 @@ Best regards,
     this.templates.set(template.id, template);
   }
 
+  async getRawMessagesSince(provider: 'gmail' | 'exchange', cursor: string | null, maxResults: number, userEmail?: string): Promise<{ messages: Array<{ id: string; raw: Buffer }>; cursor: string }> {
+    if (provider === 'gmail') {
+      const result = await this.gmail.getRawMessagesSince(cursor, maxResults);
+      return { messages: result.messages, cursor: result.historyId };
+    }
+    if (!userEmail) {
+      throw new Error('User email required for Exchange');
+    }
+    const result = await this.exchange.getRawMessagesSince(userEmail, cursor, maxResults);
+    return { messages: result.messages, cursor: result.deltaLink };
+  }
+
   async getInboxEmails(provider: 'gmail' | 'exchange' = 'gmail', maxResults: number = 10): Promise<any[]> {
     if (provider === 'gmail') {
       return await this.gmail.getEmails('in:inbox', maxResults);
@@ -0,0 +1,132 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { insertFeeTemplateSchema } from "@shared/schema";
+import { feeWorksheetService, FeeWorksheetError } from "./fee-worksheet-service";
+import { requirePermission } from "./rbac-service";
+import { TenantError } from "./tenant-context";
+
+const router = Router();
+
+const worksheetInputsSchema = z.object({
+  closingDate: z.coerce.date().optional(),
+  loanAmount: z.coerce.number().positive().optional(),
+  interestRate: z.coerce.number().min(0).optional(),
+  annualTaxes: z.coerce.number().min(0).optional(),
+  annualInsurance: z.coerce.number().min(0).optional(),
+  escrowed: z.boolean().optional(),
+});
+
+function handleWorksheetError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof FeeWorksheetError || error instanceof TenantError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Admin maintenance of per-organization fee templates
+
+router.get("/admin/fee-templates", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    res.json(await feeWorksheetService.listTemplates());
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch fee templates" });
+  }
+});
+
+router.post("/admin/fee-templates", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const result = insertFeeTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid fee template", details: result.error.issues });
+    }
+    res.status(201).json(await feeWorksheetService.createTemplate(result.data));
+  } catch (error) {
+    handleWorksheetError(res, error, "Failed to create fee template");
+  }
+});
+
+router.put("/admin/fee-templates/:id", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const result = insertFeeTemplateSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid fee template", details: result.error.issues });
+    }
+
+    const template = await feeWorksheetService.updateTemplate(parseInt(req.params.id), result.data);
+    if (!template) {
+      return res.status(404).json({ message: "Fee template not found" });
+    }
+    res.json(template);
+  } catch (error) {
+    console.error("Update fee template error:", error);
+    res.status(500).json({ message: "Failed to update fee template" });
+  }
+});
+
+router.delete("/admin/fee-templates/:id", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const deleted = await feeWorksheetService.deleteTemplate(parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ message: "Fee template not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to delete fee template" });
+  }
+});
+
+// Loan fee worksheets
+
+router.get("/loan-applications/:id/fee-worksheet", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const worksheet = await feeWorksheetService.getLatestWorksheet(parseInt(req.params.id));
+    if (!worksheet) {
+      return res.status(404).json({ message: "No fee worksheet saved for this loan" });
+    }
+    res.json(worksheet);
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch fee worksheet" });
+  }
+});
+
+// Calculate without saving
+router.post("/loan-applications/:id/fee-worksheet/preview", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const result = worksheetInputsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid worksheet inputs", details: result.error.issues });
+    }
+    res.json(await feeWorksheetService.calculate(parseInt(req.params.id), result.data));
+  } catch (error) {
+    handleWorksheetError(res, error, "Failed to calculate fee worksheet");
+  }
+});
+
+router.post("/loan-applications/:id/fee-worksheet", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const { createdBy, ...body } = req.body;
+    const result = worksheetInputsSchema.safeParse(body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid worksheet inputs", details: result.error.issues });
+    }
+
+    const worksheet = await feeWorksheetService.saveWorksheet(parseInt(req.params.id), result.data, createdBy ? Number(createdBy) : null);
+    res.status(201).json(worksheet);
+  } catch (error) {
+    handleWorksheetError(res, error, "Failed to save fee worksheet");
+  }
+});
+
+// Loan Estimate rendered from the latest saved worksheet
+router.get("/loan-applications/:id/loan-estimate", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    const html = await feeWorksheetService.renderLoanEstimate(parseInt(req.params.id));
+    res.setHeader('Content-Type', 'text/html');
+    res.send(html);
+  } catch (error) {
+    handleWorksheetError(res, error, "Failed to generate Loan Estimate");
+  }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; pricing template fees never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { feeWorksheetService, getDefaultFees, FeeWorksheetError } = await import("./fee-worksheet-service");
+
+type FeeWorksheetLine = import("@shared/schema").FeeWorksheetLine;
+
+const inputs = {
+  loanAmount: 300000,
+  interestRate: 7.5,
+  annualTaxes: 6000,
+  annualInsurance: 1800,
+  escrowed: true,
+};
+
+const lineAmount = (lines: FeeWorksheetLine[], code: string) => lines.find(line => line.code === code)?.amount;
+
+describe("default fee templates", () => {
+  test("sizes origination and appraisal by loan type and falls back for unknown types", () => {
+    const origination = (loanType: string) => getDefaultFees(loanType).find(fee => fee.code === 'origination')?.percent;
+    const appraisal = (loanType: string) => getDefaultFees(loanType).find(fee => fee.code === 'appraisal')?.amount;
+    assert.equal(origination('DSCR'), 1.5);
+    assert.equal(origination('fix-n-flip'), 2.5);
+    assert.equal(origination('land'), 2.0);
+    assert.equal(appraisal('commercial'), 2500);
+    assert.equal(appraisal('land'), 650);
+  });
+
+  test("adds an environmental assessment to section B for commercial and bridge loans only", () => {
+    const environmental = (loanType: string) => getDefaultFees(loanType).find(fee => fee.code === 'environmental');
+    assert.equal(environmental('bridge')?.section, 'B');
+    assert.ok(environmental('commercial'));
+    assert.equal(environmental('dscr'), undefined);
+  });
+});
+
+describe("fee worksheet pricing", () => {
+  const fees = getDefaultFees('dscr');
+
+  test("collects prepaid interest from closing through month end and bills the first payment a month later", () => {
+    const { lines, firstPaymentDate } = feeWorksheetService.priceFees(fees, inputs, new Date(2026, 2, 10));
+    // 300,000 x 7.5% / 365 = 61.64 a day for March 10-31
+    assert.equal(lineAmount(lines, 'prepaid_interest'), 1356.08);
+    assert.match(lines.find(line => line.code === 'prepaid_interest')!.basis!, /\$61\.64 per day for 22 days/);
+    assert.deepEqual(firstPaymentDate, new Date(2026, 4, 1));
+  });
+
+  test("charges one day of interest on a month-end closing and counts February 29 in leap years", () => {
+    const monthEnd = feeWorksheetService.priceFees(fees, inputs, new Date(2026, 0, 31));
+    assert.equal(lineAmount(monthEnd.lines, 'prepaid_interest'), 61.64);
+    assert.deepEqual(monthEnd.firstPaymentDate, new Date(2026, 2, 1));
+
+    const leapYear = feeWorksheetService.priceFees(fees, inputs, new Date(2028, 1, 15));
+    assert.equal(lineAmount(leapYear.lines, 'prepaid_interest'), 924.6);
+  });
+
+  test("prices percent-of-loan fees and escrow months from the annual taxes and insurance", () => {
+    const { lines } = feeWorksheetService.priceFees(fees, inputs, new Date(2026, 2, 10));
+    assert.equal(lineAmount(lines, 'origination'), 4500);
+    assert.equal(lineAmount(lines, 'title_lenders_policy'), 1050);
+    assert.equal(lineAmount(lines, 'insurance_premium'), 1800);
+    assert.equal(lineAmount(lines, 'escrow_insurance'), 300);
+    assert.equal(lineAmount(lines, 'escrow_taxes'), 1500);
+  });
+
+  test("drops the initial escrow section when the loan is not escrowed", () => {
+    const { lines } = feeWorksheetService.priceFees(fees, { ...inputs, escrowed: false }, new Date(2026, 2, 10));
+    assert.equal(lines.filter(line => line.section === 'G').length, 0);
+    assert.ok(lines.some(line => line.section === 'F'));
+  });
+
+  test("rejects a closing date that does not parse", () => {
+    assert.throws(() => feeWorksheetService.priceFees(fees, inputs, 'next Tuesday'), FeeWorksheetError);
+  });
+});
+
+describe("Loan Estimate totals", () => {
+  test("rolls the sections up into D (loan costs), I (other costs) and J (closing costs)", () => {
+    const { lines } = feeWorksheetService.priceFees(getDefaultFees('dscr'), inputs, new Date(2026, 2, 10));
+    const totals = feeWorksheetService.sumSections(lines);
+    assert.equal(totals.A, 5745);
+    assert.equal(totals.B, 829);
+    assert.equal(totals.C, 2085);
+    assert.equal(totals.D, 8659);
+    assert.equal(totals.E, 150);
+    assert.equal(totals.F, 3156.08);
+    assert.equal(totals.G, 1800);
+    assert.equal(totals.H, 0);
+    assert.equal(totals.I, 5106.08);
+    assert.equal(totals.J, 13765.08);
+  });
+});
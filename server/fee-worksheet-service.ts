@@ -0,0 +1,410 @@
+// Fee Worksheet Service
+// Closing cost worksheets organized by Loan Estimate section, built from per-organization fee templates
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { rateLockService } from "./rate-lock-service";
+import { documentTemplateService } from "./document-templates";
+import { tenantContext } from "./tenant-context";
+import {
+  feeTemplates,
+  feeWorksheets,
+  organizations,
+  type FeeSection,
+  type FeeTemplate,
+  type FeeTemplateItem,
+  type FeeWorksheet,
+  type FeeWorksheetLine,
+  type InsertFeeTemplate,
+  type LoanApplicationWithDetails,
+} from "@shared/schema";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+export interface FeeWorksheetInputs {
+  closingDate?: string | Date; // defaults to 30 days out
+  loanAmount?: number; // defaults to requestedAmount
+  interestRate?: number; // annual %, defaults to loan.interestRate
+  annualTaxes?: number; // defaults to an estimate from property value
+  annualInsurance?: number; // defaults to an estimate from property value
+  escrowed?: boolean; // false drops section G
+}
+
+export interface FeeWorksheetResult {
+  feeTemplateId: number | null;
+  closingDate: Date;
+  firstPaymentDate: Date;
+  inputs: Required<Omit<FeeWorksheetInputs, 'closingDate'>>;
+  lines: FeeWorksheetLine[];
+  totals: Record<string, number>;
+}
+
+// Fee lines for a loan amount and rate, before section totals
+export interface FeeEstimate {
+  feeTemplateId: number | null;
+  closingDate: Date;
+  firstPaymentDate: Date;
+  lines: FeeWorksheetLine[];
+}
+
+export class FeeWorksheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeeWorksheetError';
+  }
+}
+
+export const FEE_SECTION_LABELS: Record<FeeSection, string> = {
+  A: 'Origination Charges',
+  B: 'Services You Cannot Shop For',
+  C: 'Services You Can Shop For',
+  E: 'Taxes and Other Government Fees',
+  F: 'Prepaids',
+  G: 'Initial Escrow Payment at Closing',
+  H: 'Other',
+};
+
+const FEE_SECTIONS: FeeSection[] = ['A', 'B', 'C', 'E', 'F', 'G', 'H'];
+
+// Estimates used when taxes and insurance are not supplied, as a share of property value per year
+export const ESTIMATED_TAX_RATE = 0.0125;
+export const ESTIMATED_INSURANCE_RATE = 0.0035;
+const DEFAULT_CLOSING_DAYS = 30;
+const DAYS_IN_YEAR = 365; // per-diem interest basis
+
+const ORIGINATION_PERCENT: Record<string, number> = {
+  dscr: 1.5,
+  fix_and_flip: 2.5,
+  'fix-and-flip': 2.5,
+  'fix-n-flip': 2.5,
+  bridge: 2.0,
+  commercial: 1.0,
+};
+
+const APPRAISAL_FEES: Record<string, number> = {
+  dscr: 650,
+  fix_and_flip: 750,
+  'fix-and-flip': 750,
+  'fix-n-flip': 750,
+  bridge: 700,
+  commercial: 2500,
+};
+
+// Built-in fees used until an organization configures its own template
+export function getDefaultFees(loanType: string): FeeTemplateItem[] {
+  const type = loanType.toLowerCase();
+  const fees: FeeTemplateItem[] = [
+    { code: 'origination', description: 'Origination fee', section: 'A', calculation: 'percent_of_loan', percent: ORIGINATION_PERCENT[type] ?? 2.0 },
+    { code: 'processing', description: 'Processing fee', section: 'A', calculation: 'flat', amount: 495 },
+    { code: 'underwriting', description: 'Underwriting fee', section: 'A', calculation: 'flat', amount: 750 },
+    { code: 'appraisal', description: 'Appraisal fee', section: 'B', calculation: 'flat', amount: APPRAISAL_FEES[type] ?? 650 },
+    { code: 'credit_report', description: 'Credit report fee', section: 'B', calculation: 'flat', amount: 65 },
+    { code: 'flood_cert', description: 'Flood determination fee', section: 'B', calculation: 'flat', amount: 25 },
+    { code: 'tax_service', description: 'Tax monitoring service', section: 'B', calculation: 'flat', amount: 89 },
+    { code: 'title_lenders_policy', description: "Title - Lender's title policy", section: 'C', calculation: 'percent_of_loan', percent: 0.35 },
+    { code: 'title_settlement', description: 'Title - Settlement agent fee', section: 'C', calculation: 'flat', amount: 650 },
+    { code: 'document_prep', description: 'Document preparation', section: 'C', calculation: 'flat', amount: 350 },
+    { code: 'wire_transfer', description: 'Wire transfer fee', section: 'C', calculation: 'flat', amount: 35 },
+    { code: 'recording', description: 'Recording fees', section: 'E', calculation: 'flat', amount: 150 },
+    { code: 'insurance_premium', description: "Homeowner's insurance premium (12 months)", section: 'F', calculation: 'insurance_months', months: 12 },
+    { code: 'prepaid_interest', description: 'Prepaid interest', section: 'F', calculation: 'prepaid_interest' },
+    { code: 'escrow_insurance', description: "Homeowner's insurance", section: 'G', calculation: 'insurance_months', months: 2 },
+    { code: 'escrow_taxes', description: 'Property taxes', section: 'G', calculation: 'tax_months', months: 3 },
+  ];
+  if (type === 'commercial' || type === 'bridge') {
+    fees.splice(4, 0, { code: 'environmental', description: 'Environmental assessment', section: 'B', calculation: 'flat', amount: 1250 });
+  }
+  return fees;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const money = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export class FeeWorksheetService {
+  private static instance: FeeWorksheetService;
+
+  public static getInstance(): FeeWorksheetService {
+    if (!FeeWorksheetService.instance) {
+      FeeWorksheetService.instance = new FeeWorksheetService();
+    }
+    return FeeWorksheetService.instance;
+  }
+
+  // Templates belong to the current organization
+  async listTemplates(): Promise<FeeTemplate[]> {
+    return db.select().from(feeTemplates)
+      .where(tenantContext.where(feeTemplates.organizationId))
+      .orderBy(feeTemplates.name);
+  }
+
+  async getTemplate(id: number): Promise<FeeTemplate | undefined> {
+    const [template] = await db.select().from(feeTemplates)
+      .where(tenantContext.where(feeTemplates.organizationId, eq(feeTemplates.id, id)));
+    return template;
+  }
+
+  async createTemplate(data: InsertFeeTemplate): Promise<FeeTemplate> {
+    const [template] = await db.insert(feeTemplates)
+      .values({ ...data, organizationId: tenantContext.requireOrganizationId() })
+      .returning();
+    return template;
+  }
+
+  async updateTemplate(id: number, data: Partial<InsertFeeTemplate>): Promise<FeeTemplate | undefined> {
+    const [template] = await db
+      .update(feeTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(tenantContext.where(feeTemplates.organizationId, eq(feeTemplates.id, id)))
+      .returning();
+    return template;
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    const deleted = await db.delete(feeTemplates)
+      .where(tenantContext.where(feeTemplates.organizationId, eq(feeTemplates.id, id)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Loan-type template first, then the organization's catch-all template, then the built-in fees
+  async resolveTemplate(organizationId: number, loanType: string): Promise<{ template: FeeTemplate | null; fees: FeeTemplateItem[] }> {
+    const [specific] = await db
+      .select()
+      .from(feeTemplates)
+      .where(and(eq(feeTemplates.organizationId, organizationId), eq(feeTemplates.loanType, loanType), eq(feeTemplates.isActive, true)))
+      .orderBy(desc(feeTemplates.updatedAt))
+      .limit(1);
+    if (specific) return { template: specific, fees: specific.fees };
+
+    const [fallback] = await db
+      .select()
+      .from(feeTemplates)
+      .where(and(eq(feeTemplates.organizationId, organizationId), isNull(feeTemplates.loanType), eq(feeTemplates.isActive, true)))
+      .orderBy(desc(feeTemplates.updatedAt))
+      .limit(1);
+    if (fallback) return { template: fallback, fees: fallback.fees };
+
+    return { template: null, fees: getDefaultFees(loanType) };
+  }
+
+  async calculate(loanApplicationId: number, inputs: FeeWorksheetInputs = {}): Promise<FeeWorksheetResult> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new FeeWorksheetError('Loan application not found');
+    }
+
+    const propertyValue = parseFloat(loan.property.propertyValue || loan.property.purchasePrice || '0');
+    const resolved = {
+      loanAmount: inputs.loanAmount ?? parseFloat(loan.requestedAmount),
+      interestRate: inputs.interestRate ?? (loan.interestRate ? parseFloat(loan.interestRate) : NaN),
+      annualTaxes: inputs.annualTaxes ?? roundCents(propertyValue * ESTIMATED_TAX_RATE),
+      annualInsurance: inputs.annualInsurance ?? roundCents(propertyValue * ESTIMATED_INSURANCE_RATE),
+      escrowed: inputs.escrowed ?? true,
+    };
+    if (isNaN(resolved.interestRate)) {
+      throw new FeeWorksheetError('An interest rate is required to calculate prepaid interest');
+    }
+
+    const estimate = await this.estimateFees(loan.organizationId, loan.loanType, resolved, inputs.closingDate);
+    return {
+      ...estimate,
+      inputs: resolved,
+      totals: this.buildTotals(loan, estimate.lines, resolved.loanAmount),
+    };
+  }
+
+  // Builds the fee lines without a loan record, so loan scenarios can be costed before an application exists
+  async estimateFees(
+    organizationId: number,
+    loanType: string,
+    inputs: FeeWorksheetResult['inputs'],
+    closingDateInput?: string | Date
+  ): Promise<FeeEstimate> {
+    const { template, fees } = await this.resolveTemplate(organizationId, loanType);
+    return {
+      feeTemplateId: template?.id ?? null,
+      ...this.priceFees(fees, inputs, closingDateInput),
+    };
+  }
+
+  // Prices each template fee for the loan amount, rate, escrows and closing date
+  priceFees(
+    fees: FeeTemplateItem[],
+    inputs: FeeWorksheetResult['inputs'],
+    closingDateInput?: string | Date
+  ): Omit<FeeEstimate, 'feeTemplateId'> {
+    const closingDate = closingDateInput ? new Date(closingDateInput) : new Date(Date.now() + DEFAULT_CLOSING_DAYS * 86400000);
+    if (isNaN(closingDate.getTime())) {
+      throw new FeeWorksheetError('Invalid closing date');
+    }
+    closingDate.setHours(0, 0, 0, 0);
+
+    // Interest is collected from closing through month end; the first payment is due the first of the following month
+    const daysInMonth = new Date(closingDate.getFullYear(), closingDate.getMonth() + 1, 0).getDate();
+    const interestDays = daysInMonth - closingDate.getDate() + 1;
+    const firstPaymentDate = new Date(closingDate.getFullYear(), closingDate.getMonth() + 2, 1);
+    const perDiem = roundCents(inputs.loanAmount * inputs.interestRate / 100 / DAYS_IN_YEAR);
+
+    const lines: FeeWorksheetLine[] = [];
+    for (const fee of fees) {
+      if (fee.section === 'G' && !inputs.escrowed) continue;
+
+      let amount = 0;
+      let basis: string | undefined;
+      switch (fee.calculation) {
+        case 'flat':
+          amount = fee.amount || 0;
+          break;
+        case 'percent_of_loan':
+          amount = inputs.loanAmount * (fee.percent || 0) / 100;
+          basis = `${fee.percent}% of loan amount`;
+          break;
+        case 'prepaid_interest':
+          amount = perDiem * interestDays;
+          basis = `${money(perDiem)} per day for ${interestDays} days (${inputs.interestRate}%)`;
+          break;
+        case 'insurance_months':
+          amount = inputs.annualInsurance / 12 * (fee.months || 0);
+          basis = `${money(inputs.annualInsurance / 12)} per month for ${fee.months} mo.`;
+          break;
+        case 'tax_months':
+          amount = inputs.annualTaxes / 12 * (fee.months || 0);
+          basis = `${money(inputs.annualTaxes / 12)} per month for ${fee.months} mo.`;
+          break;
+      }
+
+      lines.push({
+        code: fee.code,
+        description: fee.description,
+        section: fee.section,
+        amount: roundCents(amount),
+        ...(fee.paidTo && { paidTo: fee.paidTo }),
+        ...(basis && { basis }),
+      });
+    }
+
+    return {
+      closingDate,
+      firstPaymentDate,
+      lines,
+    };
+  }
+
+  async saveWorksheet(loanApplicationId: number, inputs: FeeWorksheetInputs = {}, createdBy?: number | null): Promise<FeeWorksheet> {
+    const result = await this.calculate(loanApplicationId, inputs);
+    const [worksheet] = await db.insert(feeWorksheets).values({
+      loanApplicationId,
+      feeTemplateId: result.feeTemplateId,
+      closingDate: result.closingDate,
+      firstPaymentDate: result.firstPaymentDate,
+      inputs: result.inputs,
+      lines: result.lines,
+      totals: result.totals,
+      createdBy: createdBy ?? null,
+    }).returning();
+    return worksheet;
+  }
+
+  async getLatestWorksheet(loanApplicationId: number): Promise<FeeWorksheet | undefined> {
+    const [worksheet] = await db
+      .select()
+      .from(feeWorksheets)
+      .where(tenantContext.whereLoan(feeWorksheets.loanApplicationId, eq(feeWorksheets.loanApplicationId, loanApplicationId)))
+      .orderBy(desc(feeWorksheets.createdAt))
+      .limit(1);
+    return worksheet;
+  }
+
+  // Renders the Loan Estimate from the latest saved worksheet
+  async renderLoanEstimate(loanApplicationId: number): Promise<string> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new FeeWorksheetError('Loan application not found');
+    }
+    const worksheet = await this.getLatestWorksheet(loanApplicationId);
+    if (!worksheet) {
+      throw new FeeWorksheetError('Save a fee worksheet before generating the Loan Estimate');
+    }
+
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, loan.organizationId));
+    const lock = await rateLockService.getActiveLock(loanApplicationId);
+    const loanAmount = Number(worksheet.inputs.loanAmount);
+    const rate = Number(worksheet.inputs.interestRate);
+    const termMonths = loan.termMonths || 360;
+    const monthlyRate = rate / 100 / 12;
+    const principalAndInterest = monthlyRate === 0
+      ? loanAmount / termMonths
+      : loanAmount * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths));
+    const escrowPayment = worksheet.inputs.escrowed
+      ? (Number(worksheet.inputs.annualTaxes) + Number(worksheet.inputs.annualInsurance)) / 12
+      : 0;
+
+    const variables: Record<string, string> = {
+      lenderName: escapeHtml(organization?.name || 'LoanDaddy'),
+      lenderNmls: escapeHtml(organization?.nmls || ''),
+      dateIssued: new Date().toLocaleDateString('en-US'),
+      borrowerName: escapeHtml(`${loan.borrower.firstName} ${loan.borrower.lastName}`),
+      propertyAddress: escapeHtml(`${loan.property.address}, ${loan.property.city}, ${loan.property.state} ${loan.property.zipCode}`),
+      salePrice: loan.property.purchasePrice ? money(parseFloat(loan.property.purchasePrice)) : 'N/A',
+      loanTerm: `${Math.round(termMonths / 12)} years`,
+      loanPurpose: escapeHtml((loan.loanPurpose || 'purchase').replace(/_/g, ' ')),
+      loanProduct: escapeHtml(loan.loanType.toUpperCase()),
+      loanId: `LA-${loan.id}`,
+      rateLock: lock
+        ? `YES, until ${new Date(lock.expiresAt).toLocaleDateString('en-US')}`
+        : 'NO. Your interest rate and points can change unless you lock the rate.',
+      loanAmount: money(loanAmount),
+      interestRate: `${rate.toFixed(3)}%`,
+      principalAndInterest: money(roundCents(principalAndInterest)),
+      estimatedEscrow: money(roundCents(escrowPayment)),
+      estimatedMonthlyPayment: money(roundCents(principalAndInterest + escrowPayment)),
+      closingDate: new Date(worksheet.closingDate).toLocaleDateString('en-US'),
+      firstPaymentDate: new Date(worksheet.firstPaymentDate).toLocaleDateString('en-US'),
+      totalLoanCosts: money(worksheet.totals.D),
+      totalOtherCosts: money(worksheet.totals.I),
+      totalClosingCosts: money(worksheet.totals.J),
+      cashToClose: money(worksheet.totals.cashToClose),
+    };
+    for (const section of FEE_SECTIONS) {
+      variables[`section${section}Rows`] = this.renderSectionRows(worksheet.lines, section);
+      variables[`section${section}Total`] = money(worksheet.totals[section] || 0);
+    }
+
+    return documentTemplateService.generateDocument('loan_estimate', variables);
+  }
+
+  private buildTotals(loan: LoanApplicationWithDetails, lines: FeeWorksheetLine[], loanAmount: number): Record<string, number> {
+    const totals = this.sumSections(lines);
+
+    // Purchases bring the down payment; refinances net the closing costs against loan proceeds
+    const purchasePrice = parseFloat(loan.property.purchasePrice || '0');
+    const downPayment = loan.loanPurpose === 'purchase' && purchasePrice > 0 ? purchasePrice - loanAmount : 0;
+    totals.cashToClose = roundCents(downPayment + totals.J);
+    return totals;
+  }
+
+  // Section totals plus the Loan Estimate roll-ups: D = A+B+C, I = E+F+G+H, J = D+I
+  sumSections(lines: FeeWorksheetLine[]): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const section of FEE_SECTIONS) {
+      totals[section] = roundCents(lines.filter(line => line.section === section).reduce((sum, line) => sum + line.amount, 0));
+    }
+    totals.D = roundCents(totals.A + totals.B + totals.C);
+    totals.I = roundCents(totals.E + totals.F + totals.G + totals.H);
+    totals.J = roundCents(totals.D + totals.I);
+    return totals;
+  }
+
+  private renderSectionRows(lines: FeeWorksheetLine[], section: FeeSection): string {
+    const sectionLines = lines.filter(line => line.section === section);
+    if (sectionLines.length === 0) {
+      return '<tr><td colspan="2" class="empty">None</td></tr>';
+    }
+    return sectionLines
+      .map(line => `<tr><td>${escapeHtml(line.description)}${line.basis ? `<span class="basis">${escapeHtml(line.basis)}</span>` : ''}</td><td class="amount">${money(line.amount)}</td></tr>`)
+      .join('\n');
+  }
+}
+
+export const feeWorksheetService = FeeWorksheetService.getInstance();
@@ -0,0 +1,213 @@
+// Field Encryption Service
+// Envelope encryption for designated PII columns: each value gets its own data key, wrapped by a versioned master key
+
+import crypto from "crypto";
+
+// Columns encrypted at rest, keyed by table name; the migration script walks this list
+export const ENCRYPTED_FIELDS = {
+  contacts: ['ssn', 'dateOfBirth'],
+  borrower_auth: ['plaidAccessToken'],
+  bank_accounts: ['accountNumber', 'routingNumber'],
+  mailboxes: ['password'],
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_FIELDS;
+
+// Keys encrypted inside JSON columns, keyed by table name and column
+export const ENCRYPTED_JSON_FIELDS = {
+  loan_applications: { urlaData: ['ssn', 'dateOfBirth'] },
+} as const;
+
+export type EncryptedJsonTable = keyof typeof ENCRYPTED_JSON_FIELDS;
+
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEV_KEY_SEED = 'loandaddy-development-pii-key';
+
+export class FieldEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FieldEncryptionError';
+  }
+}
+
+export class FieldEncryptionService {
+  private static instance: FieldEncryptionService;
+  private masterKeys = new Map<number, Buffer>();
+  private activeVersion = 0;
+
+  static getInstance(): FieldEncryptionService {
+    if (!FieldEncryptionService.instance) {
+      FieldEncryptionService.instance = new FieldEncryptionService();
+    }
+    return FieldEncryptionService.instance;
+  }
+
+  constructor() {
+    this.loadMasterKeys();
+  }
+
+  // PII_ENCRYPTION_KEYS holds "version:base64key" pairs, e.g. "2:...,1:..."; PII_ACTIVE_KEY_VERSION picks the key
+  // used for new writes and defaults to the highest version. Retired versions stay listed until rows are re-encrypted.
+  private loadMasterKeys() {
+    const configured = (process.env.PII_ENCRYPTION_KEYS || '').split(',').map(pair => pair.trim()).filter(Boolean);
+    configured.forEach(pair => {
+      const [version, encoded] = pair.split(':');
+      const key = Buffer.from(encoded || '', 'base64');
+      if (!/^\d+$/.test(version) || key.length !== 32) {
+        throw new FieldEncryptionError(`Invalid PII encryption key entry for version "${version}": expected a base64 encoded 32-byte key`);
+      }
+      this.masterKeys.set(parseInt(version), key);
+    });
+
+    if (this.masterKeys.size === 0) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new FieldEncryptionError('PII_ENCRYPTION_KEYS must be set in production; the development key is not used there');
+      }
+      console.warn('PII_ENCRYPTION_KEYS is not set; using the development PII key. Configure real keys before storing production data.');
+      this.masterKeys.set(1, crypto.createHash('sha256').update(DEV_KEY_SEED).digest());
+    }
+
+    const versions = Array.from(this.masterKeys.keys());
+    const requested = process.env.PII_ACTIVE_KEY_VERSION ? parseInt(process.env.PII_ACTIVE_KEY_VERSION) : Math.max(...versions);
+    if (!this.masterKeys.has(requested)) {
+      throw new FieldEncryptionError(`PII_ACTIVE_KEY_VERSION ${requested} has no matching key in PII_ENCRYPTION_KEYS`);
+    }
+    this.activeVersion = requested;
+  }
+
+  getActiveKeyVersion(): number {
+    return this.activeVersion;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(`${PREFIX}:v`);
+  }
+
+  // Master key version a stored value was wrapped with, or null for plaintext
+  getKeyVersion(value: unknown): number | null {
+    if (!this.isEncrypted(value)) return null;
+    return parseInt(value.split(':')[1].slice(1));
+  }
+
+  needsRotation(value: unknown): boolean {
+    const version = this.getKeyVersion(value);
+    return version !== null && version !== this.activeVersion;
+  }
+
+  // Stored form: enc:v<master key version>:<wrapped data key>:<ciphertext>, each part base64 of iv|tag|bytes.
+  // The field name is bound as associated data so a ciphertext copied into another column fails to decrypt.
+  encrypt(plaintext: string, field: string): string {
+    const dataKey = crypto.randomBytes(32);
+    const payload = this.seal(dataKey, Buffer.from(plaintext, 'utf8'), field);
+    const wrappedKey = this.seal(this.masterKey(this.activeVersion), dataKey, `${field}:key`);
+    return `${PREFIX}:v${this.activeVersion}:${wrappedKey}:${payload}`;
+  }
+
+  // Plaintext values pass through unchanged so rows written before encryption keep working until migrated
+  decrypt(value: string, field: string): string {
+    if (!this.isEncrypted(value)) return value;
+    const { version, wrappedKey, payload } = this.parse(value);
+    const dataKey = this.open(this.masterKey(version), wrappedKey, `${field}:key`);
+    return this.open(dataKey, payload, field).toString('utf8');
+  }
+
+  // Re-wraps the data key under the active master key; the data ciphertext itself is left untouched
+  rotate(value: string, field: string): string {
+    if (!this.isEncrypted(value)) return this.encrypt(value, field);
+    const { version, wrappedKey, payload } = this.parse(value);
+    if (version === this.activeVersion) return value;
+    const dataKey = this.open(this.masterKey(version), wrappedKey, `${field}:key`);
+    return `${PREFIX}:v${this.activeVersion}:${this.seal(this.masterKey(this.activeVersion), dataKey, `${field}:key`)}:${payload}`;
+  }
+
+  // Encrypts the designated columns present on a row or update; undefined and null values are left as they are
+  encryptFields<T extends Record<string, any>>(table: EncryptedTable, record: T): T {
+    const result: Record<string, any> = { ...record };
+    ENCRYPTED_FIELDS[table].forEach(column => {
+      const value = result[column];
+      if (typeof value === 'string' && value !== '' && !this.isEncrypted(value)) {
+        result[column] = this.encrypt(value, `${table}.${column}`);
+      }
+    });
+    return result as T;
+  }
+
+  decryptFields<T extends Record<string, any>>(table: EncryptedTable, record: T): T {
+    const result: Record<string, any> = { ...record };
+    ENCRYPTED_FIELDS[table].forEach(column => {
+      if (this.isEncrypted(result[column])) {
+        result[column] = this.decrypt(result[column], `${table}.${column}`);
+      }
+    });
+    return result as T;
+  }
+
+  // Same as encryptFields for the designated keys inside JSON columns, e.g. the SSN in a loan's URLA answers
+  encryptJsonFields<T extends Record<string, any>>(table: EncryptedJsonTable, record: T): T {
+    return this.mapJsonFields(table, record, (value, field) =>
+      typeof value === 'string' && value !== '' && !this.isEncrypted(value) ? this.encrypt(value, field) : value);
+  }
+
+  decryptJsonFields<T extends Record<string, any>>(table: EncryptedJsonTable, record: T): T {
+    return this.mapJsonFields(table, record, (value, field) => this.isEncrypted(value) ? this.decrypt(value, field) : value);
+  }
+
+  private mapJsonFields<T extends Record<string, any>>(
+    table: EncryptedJsonTable,
+    record: T,
+    transform: (value: unknown, field: string) => unknown
+  ): T {
+    const result: Record<string, any> = { ...record };
+    Object.entries(ENCRYPTED_JSON_FIELDS[table]).forEach(([column, keys]) => {
+      const json = result[column];
+      if (!json || typeof json !== 'object' || Array.isArray(json)) return;
+      const mapped: Record<string, unknown> = { ...json };
+      keys.forEach(key => {
+        if (key in mapped) mapped[key] = transform(mapped[key], `${table}.${column}.${key}`);
+      });
+      result[column] = mapped;
+    });
+    return result as T;
+  }
+
+  private masterKey(version: number): Buffer {
+    const key = this.masterKeys.get(version);
+    if (!key) {
+      throw new FieldEncryptionError(`PII master key version ${version} is not configured`);
+    }
+    return key;
+  }
+
+  private parse(value: string) {
+    const [, version, wrappedKey, payload] = value.split(':');
+    if (!wrappedKey || !payload) {
+      throw new FieldEncryptionError('Malformed encrypted value');
+    }
+    return { version: parseInt(version.slice(1)), wrappedKey, payload };
+  }
+
+  private seal(key: Buffer, data: Buffer, associatedData: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private open(key: Buffer, sealed: string, associatedData: string): Buffer {
+    const bytes = Buffer.from(sealed, 'base64');
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, bytes.subarray(0, IV_LENGTH));
+      decipher.setAAD(Buffer.from(associatedData, 'utf8'));
+      decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      return Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+    } catch {
+      throw new FieldEncryptionError(`Unable to decrypt ${associatedData.replace(/:key$/, '')}`);
+    }
+  }
+}
+
+export const fieldEncryption = FieldEncryptionService.getInstance();
@@ -0,0 +1,74 @@
+import { Router } from "express";
+import multer from "multer";
+import { storage } from "./storage";
+import { fnmService, FnmValidationError, type FnmLoan } from "./fnm-service";
+import { workflowEngine } from "./workflow-engine";
+import { requirePermission, type StaffRequest } from "./rbac-service";
+import { piiMasking } from "./pii-masking";
+import { auditService } from "./audit-service";
+import { tenantContext } from "./tenant-context";
+
+const router = Router();
+
+const fnmUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    const isFnm = ['text/plain', 'application/octet-stream'].includes(file.mimetype) || /\.(fnm|txt)$/i.test(file.originalname);
+    cb(null, isFnm);
+  }
+});
+
+// Download a loan as a Fannie Mae 3.2 flat file; ?format=json returns the file with its mapping report
+router.get("/loan-applications/:id/fnm", requirePermission('data.export'), async (req, res) => {
+  try {
+    const loan = await storage.getLoanApplicationWithDetails(parseInt(req.params.id));
+    if (!loan) {
+      return res.status(404).json({ message: "Loan application not found" });
+    }
+
+    // The SSN leaves the system unmasked only for callers allowed to see it, and every export is audited
+    const maskPii = !piiMasking.canViewPii(req);
+    const { content, report } = fnmService.exportLoan(loan as FnmLoan, { maskPii });
+    await auditService.recordExport(req, 'loan-applications', String(loan.id), 'fnm-3.2', maskPii ? [] : ['ssn']);
+    const fileName = `LA-${loan.id}-fnm-3.2.fnm`;
+    if (req.query.format === 'json') {
+      return res.json({ fileName, content, report });
+    }
+
+    res.setHeader('Content-Type', 'text/plain');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('X-FNM-Unmapped-Fields', String(report.unmappedFields.length));
+    res.send(content);
+  } catch (error) {
+    console.error("FNM export error:", error);
+    res.status(500).json({ message: "Failed to export FNM file" });
+  }
+});
+
+// Create borrower, property and loan from an uploaded FNM 3.2 file (multipart "file" or JSON { content })
+router.post("/loan-applications/import/fnm", requirePermission('loans.create'), fnmUpload.single('file'), async (req, res) => {
+  try {
+    const content = req.file ? req.file.buffer.toString('latin1') : req.body?.content;
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ message: "An FNM 3.2 file is required" });
+    }
+
+    const { application, report } = await fnmService.importLoan(content, {
+      organizationId: tenantContext.requireOrganizationId(),
+      loanOfficerId: (req as StaffRequest).user!.id,
+      loanType: req.body?.loanType,
+    });
+    workflowEngine.emit({ type: 'application_created', loanApplicationId: application.id, payload: { loanType: application.loanType, source: 'fnm_import' } });
+
+    res.status(201).json({ application, report });
+  } catch (error) {
+    if (error instanceof FnmValidationError) {
+      return res.status(422).json({ message: error.message, errors: error.errors });
+    }
+    console.error("FNM import error:", error);
+    res.status(400).json({ message: error instanceof Error ? error.message : "Failed to import FNM file" });
+  }
+});
+
+export default router;
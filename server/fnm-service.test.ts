@@ -0,0 +1,181 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// Imports are stored in MemStorage; db.ts still refuses to load without a connection string
+process.env.STORAGE_DRIVER = 'memory';
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { fnmService, FnmValidationError } = await import("./fnm-service");
+const { tenantContext } = await import("./tenant-context");
+
+type FnmLoan = import("./fnm-service").FnmLoan;
+
+const urlaData = {
+  firstName: 'Dana',
+  lastName: 'Reyes',
+  ssn: '123-45-6789',
+  dateOfBirth: '1984-02-17',
+  citizenship: 'permanent_resident',
+  maritalStatus: 'married',
+  dependentsNumber: '2',
+  dependentsAges: '4, 9',
+  email: 'dana@example.com',
+  cellPhone: '5125550142',
+  currentStreet: '18 Elm St',
+  currentCity: 'Austin',
+  currentState: 'TX',
+  currentZip: '78701',
+  currentAddressYears: '3',
+  currentAddressMonths: '4',
+  currentHousing: 'rent',
+  currentRentAmount: '2100.00',
+  employerName: 'Reyes Design LLC',
+  position: 'Owner',
+  selfEmployed: true,
+  previousEmployment: true,
+  previousEmployerName: 'Atlas Homes',
+  previousStartDate: '2010-01-04',
+  previousEndDate: '2015-05-29',
+  baseIncome: '12500.00',
+  checkingInstitution1: 'First Bank',
+  checkingAccountNumber1: '000123',
+  checkingValue1: '85000.00',
+};
+
+function loan(overrides: Partial<FnmLoan> = {}): FnmLoan {
+  return {
+    id: 42,
+    loanType: 'fix_flip',
+    loanPurpose: 'purchase',
+    requestedAmount: '245000.00',
+    interestRate: '11.000',
+    termMonths: 12,
+    ltv: null,
+    dscr: null,
+    monthlyRent: null,
+    monthlyExpenses: null,
+    exitStrategy: 'sale',
+    borrower: { firstName: 'Dana', lastName: 'Reyes', email: 'dana@example.com', phone: '5125550142' },
+    property: {
+      address: '221 Oak Ave',
+      city: 'Dallas',
+      state: 'TX',
+      zipCode: '75201-4410',
+      propertyType: 'single_family',
+      propertyValue: '200000.00',
+      purchasePrice: '200000.00',
+      rehabCost: '80000.00',
+      arv: '400000.00',
+    },
+    urlaData,
+    ...overrides,
+  } as unknown as FnmLoan;
+}
+
+const importIntoOrg = (content: string) =>
+  tenantContext.run(1, () => fnmService.importLoan(content, { organizationId: 1, loanOfficerId: 9 }));
+const recordOf = (content: string, id: string) => fnmService.parse(content).find(record => record.id === id)!;
+
+describe("FNM 3.2 round trip", () => {
+  test("imports an exported loan with the same terms, property and borrower and nothing left unmapped", async () => {
+    const { application, report } = await importIntoOrg(fnmService.exportLoan(loan()).content);
+    assert.equal(application.loanType, 'fix_flip');
+    assert.equal(application.loanPurpose, 'purchase');
+    assert.equal(application.requestedAmount, '245000.00');
+    assert.equal(application.interestRate, '11.000');
+    assert.equal(application.termMonths, 12);
+    assert.equal(application.exitStrategy, 'sale');
+    assert.equal(application.property.zipCode, '75201-4410');
+    assert.equal(application.property.rehabCost, '80000.00');
+    assert.equal(application.property.arv, '400000.00');
+    assert.equal(application.borrower.city, 'Austin');
+    assert.deepEqual(report, { unmappedFields: [], unknownRecords: [] });
+  });
+
+  test("carries the URLA answers through the applicant, employment, income and asset records", async () => {
+    const { application } = await importIntoOrg(fnmService.exportLoan(loan()).content);
+    const urla = application.urlaData!;
+    assert.equal(urla.ssn, '123456789');
+    assert.equal(urla.dateOfBirth, '1984-02-17');
+    assert.equal(urla.citizenship, 'permanent_resident');
+    assert.equal(urla.dependentsAges, '4, 9');
+    assert.equal(urla.currentHousing, 'rent');
+    assert.equal(urla.currentRentAmount, '2100.00');
+    assert.equal(urla.selfEmployed, true);
+    assert.equal(urla.previousEmployerName, 'Atlas Homes');
+    assert.equal(urla.previousEndDate, '2015-05-29');
+    assert.equal(urla.baseIncome, '12500.00');
+    assert.equal(urla.checkingValue1, '85000.00');
+  });
+
+  test("writes fixed-width fields at their specified offsets", () => {
+    const { content } = fnmService.exportLoan(loan());
+    const line = content.split('\r\n').find(candidate => candidate.startsWith('01A'))!;
+    // recordId 3, mortgageAppliedFor 2, mortgageAppliedForOther 80, agencyCaseNumber 30, caseNumber 15
+    assert.equal(line.slice(3, 5), '07');
+    assert.equal(line.slice(115, 130).trim(), 'LA-42');
+    assert.equal(line.slice(130, 145).trim(), '245000.00');
+    assert.ok(content.endsWith('\r\n'));
+  });
+
+  test("masks the SSN to its last four digits and leaves out the birth date for callers without PII access", () => {
+    const { content } = fnmService.exportLoan(loan(), { maskPii: true });
+    const applicant = recordOf(content, '03A');
+    assert.notEqual(applicant.fields.ssn, '123456789');
+    assert.ok(applicant.fields.ssn.endsWith('6789'));
+    assert.equal(applicant.fields.dateOfBirth, '');
+    assert.doesNotMatch(content, /123456789/);
+  });
+});
+
+describe("FNM mapping report", () => {
+  test("lists URLA answers the writer has no record for", () => {
+    const { report } = fnmService.exportLoan(loan({ urlaData: { ...urlaData, militaryService: 'veteran', bankruptcy: false } } as Partial<FnmLoan>));
+    assert.deepEqual(report.unmappedFields, [{ record: 'urlaData', field: 'militaryService', value: 'veteran' }]);
+  });
+
+  test("lists populated fields the import ignored and records it has no layout for", async () => {
+    const { content } = fnmService.exportLoan(loan());
+    const lines = content.trimEnd().split('\r\n');
+    const subjectIndex = lines.findIndex(line => line.startsWith('02A'));
+    // yearBuilt is the last 02A field, after 184 characters of address and legal description
+    lines[subjectIndex] = lines[subjectIndex].padEnd(184, ' ') + '1962';
+    lines.push('99B' + 'LENDER SPECIFIC');
+
+    const { report } = await importIntoOrg(lines.join('\r\n'));
+    assert.deepEqual(report.unmappedFields, [{ record: '02A', line: subjectIndex + 1, field: 'yearBuilt', value: '1962' }]);
+    assert.deepEqual(report.unknownRecords, [{ record: '99B', line: lines.length }]);
+  });
+});
+
+describe("FNM validation", () => {
+  const errorsOf = (content: string) => {
+    try {
+      fnmService.parse(content);
+    } catch (error) {
+      assert.ok(error instanceof FnmValidationError);
+      return error.errors;
+    }
+    assert.fail('expected an FnmValidationError');
+  };
+
+  test("requires a 3.20 header and the terms, property and applicant records", () => {
+    assert.deepEqual(errorsOf('000' + '1  ' + '3.10 \r\n'), [
+      'File must start with a 000 record for version 3.20',
+      'Missing 01A (mortgage type and terms) record',
+      'Missing 02A (property information) record',
+      'Missing 03A (applicant data) record',
+    ]);
+  });
+
+  test("requires the applicant's name, email and phone before creating anything", async () => {
+    const noContact = fnmService.exportLoan(loan({
+      urlaData: { ...urlaData, email: '', cellPhone: '' },
+      borrower: { firstName: 'Dana', lastName: 'Reyes', email: '', phone: '' },
+    } as Partial<FnmLoan>)).content;
+    await assert.rejects(importIntoOrg(noContact), (error: unknown) => {
+      assert.ok(error instanceof FnmValidationError);
+      assert.deepEqual(error.errors, ['03A: applicant email is required', '03A: applicant home phone is required']);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,584 @@
+// Fannie Mae 3.2 Service
+// Reads and writes the fixed-width FNM 3.2 (1003) flat file and reports fields that could not be mapped
+
+import { storage } from "./storage";
+import { piiMasking } from "./pii-masking";
+import { importedApplicationSchema, type UrlaData } from "./mismo-service";
+import {
+  insertBorrowerSchema,
+  insertPropertySchema,
+  type LoanApplicationWithDetails,
+} from "@shared/schema";
+
+export type FnmLoan = LoanApplicationWithDetails & { urlaData?: UrlaData | null };
+
+export interface FnmUnmappedField {
+  record: string;
+  line?: number;
+  field: string;
+  value: string;
+}
+
+export interface FnmMappingReport {
+  unmappedFields: FnmUnmappedField[];
+  unknownRecords: Array<{ record: string; line: number }>;
+}
+
+export interface FnmExportOptions {
+  maskPii?: boolean; // for callers without pii.view: the SSN keeps its last four digits and the birth date is left out
+}
+
+export interface FnmImportOptions {
+  organizationId: number;
+  loanOfficerId: number;
+  loanType?: string; // used when the file has no LoanDaddy ADS records
+}
+
+export class FnmValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid FNM file: ${errors[0]}`);
+    this.name = 'FnmValidationError';
+  }
+}
+
+type FieldSpec = [name: string, length: number];
+
+// Record layouts from the FNM 1003 3.2 specification; the first field is always the 3-character record ID
+const RECORD_LAYOUTS: Record<string, FieldSpec[]> = {
+  '000': [['recordId', 3], ['fileType', 3], ['fileVersion', 5]],
+  '01A': [
+    ['recordId', 3], ['mortgageAppliedFor', 2], ['mortgageAppliedForOther', 80], ['agencyCaseNumber', 30],
+    ['caseNumber', 15], ['loanAmount', 15], ['interestRate', 7], ['numberOfMonths', 3],
+    ['amortizationType', 2], ['amortizationTypeOther', 80], ['armDescription', 80],
+  ],
+  '02A': [
+    ['recordId', 3], ['street', 50], ['city', 35], ['state', 2], ['zip', 5], ['zipPlusFour', 4],
+    ['numberOfUnits', 3], ['legalDescriptionCode', 2], ['legalDescription', 80], ['yearBuilt', 4],
+  ],
+  '02B': [
+    ['recordId', 3], ['filler', 2], ['purposeOfLoan', 2], ['purposeOfLoanOther', 80], ['propertyWillBe', 1],
+    ['titleHeldManner', 60], ['estateHeldIn', 1], ['leaseholdExpiration', 8],
+  ],
+  '03A': [
+    ['recordId', 3], ['applicantIndicator', 2], ['ssn', 9], ['firstName', 35], ['middleName', 35],
+    ['lastName', 35], ['generation', 4], ['homePhone', 10], ['age', 3], ['yearsSchool', 2],
+    ['maritalStatus', 1], ['dependentsCount', 2], ['completedJointly', 1], ['crossReferenceSsn', 9],
+    ['dateOfBirth', 8], ['email', 80],
+  ],
+  '03B': [['recordId', 3], ['ssn', 9], ['dependentAge', 3]],
+  '03C': [
+    ['recordId', 3], ['ssn', 9], ['presentFormer', 2], ['street', 50], ['city', 35], ['state', 2],
+    ['zip', 5], ['zipPlusFour', 4], ['ownRent', 1], ['years', 2], ['months', 2], ['country', 50],
+  ],
+  '04A': [
+    ['recordId', 3], ['ssn', 9], ['employerName', 35], ['street', 35], ['city', 35], ['state', 2],
+    ['zip', 5], ['zipPlusFour', 4], ['selfEmployed', 1], ['yearsOnJob', 2], ['monthsOnJob', 2],
+    ['yearsInProfession', 2], ['position', 25], ['businessPhone', 10],
+  ],
+  '04B': [
+    ['recordId', 3], ['ssn', 9], ['employerName', 35], ['street', 35], ['city', 35], ['state', 2],
+    ['zip', 5], ['zipPlusFour', 4], ['selfEmployed', 1], ['currentEmployment', 1], ['fromDate', 8],
+    ['toDate', 8], ['monthlyIncome', 15], ['position', 25], ['businessPhone', 10],
+  ],
+  '05H': [['recordId', 3], ['ssn', 9], ['presentProposed', 1], ['housingPaymentType', 2], ['amount', 15]],
+  '05I': [['recordId', 3], ['ssn', 9], ['incomeType', 2], ['amount', 15]],
+  '06C': [
+    ['recordId', 3], ['ssn', 9], ['accountType', 3], ['institution', 35], ['street', 35], ['city', 35],
+    ['state', 2], ['zip', 5], ['zipPlusFour', 4], ['accountNumber', 30], ['value', 15], ['shares', 7],
+    ['description', 80], ['reserved', 1], ['reserved2', 2],
+  ],
+  '07A': [
+    ['recordId', 3], ['purchasePrice', 15], ['alterations', 15], ['land', 15], ['refinance', 15],
+    ['prepaids', 15], ['closingCosts', 15], ['pmi', 15], ['discount', 15], ['subordinateFinancing', 15],
+    ['sellerClosingCosts', 15], ['pmiFinanced', 15],
+  ],
+  '08A': [
+    ['recordId', 3], ['ssn', 9], ['outstandingJudgments', 1], ['bankruptcy', 1], ['foreclosure', 1],
+    ['lawsuit', 1], ['foreclosureObligation', 1], ['delinquentDebt', 1], ['alimony', 1],
+    ['borrowedDownPayment', 1], ['comaker', 1], ['usCitizen', 1], ['permanentResident', 1],
+    ['intendToOccupy', 1], ['priorOwnership', 1], ['priorPropertyType', 1], ['priorTitleHeld', 2],
+  ],
+  'ADS': [['recordId', 3], ['name', 35], ['value', 50]],
+};
+
+// Fields that are layout bookkeeping rather than loan data
+const STRUCTURAL_FIELDS = new Set(['recordId', 'ssn', 'filler', 'reserved', 'reserved2', 'applicantIndicator', 'fileType', 'fileVersion']);
+
+const PURPOSE_CODES: Record<string, string> = { purchase: '16', refinance: '05', cash_out: '05', construction: '04' };
+const MARITAL_CODES: Record<string, string> = { married: 'M', separated: 'S', unmarried: 'U' };
+const RESIDENCY_CODES: Record<string, string> = { own: 'O', rent: 'R', no_expense: 'X' };
+const INCOME_CODES: Record<string, string> = {
+  baseIncome: '20',
+  overtimeIncome: '09',
+  bonusIncome: '08',
+  commissionIncome: '10',
+  militaryIncome: '41',
+  otherIncome: '45',
+};
+const ASSET_CODES: Record<string, string> = { checking: '03', savings: 'SG', retirement: 'F3' };
+const RENT_PAYMENT_CODE = '25';
+
+// LoanDaddy fields carried in ADS (additional data segment) records
+const ADS_FIELDS: Array<{ name: string; read: (loan: FnmLoan) => string | null | undefined }> = [
+  { name: 'LoanDaddyLoanType', read: loan => loan.loanType },
+  { name: 'LoanDaddyLoanPurpose', read: loan => loan.loanPurpose },
+  { name: 'LoanDaddyPropertyType', read: loan => loan.property.propertyType },
+  { name: 'LoanDaddyPropertyValue', read: loan => loan.property.propertyValue },
+  { name: 'LoanDaddyRehabCost', read: loan => loan.property.rehabCost },
+  { name: 'LoanDaddyAfterRepairValue', read: loan => loan.property.arv },
+  { name: 'LoanDaddyMonthlyRent', read: loan => loan.monthlyRent },
+  { name: 'LoanDaddyMonthlyExpenses', read: loan => loan.monthlyExpenses },
+  { name: 'LoanDaddyDSCR', read: loan => loan.dscr },
+  { name: 'LoanDaddyLTV', read: loan => loan.ltv },
+  { name: 'LoanDaddyExitStrategy', read: loan => loan.exitStrategy },
+  { name: 'LoanDaddyBorrowerCellPhone', read: loan => loan.urlaData?.cellPhone || loan.borrower.phone },
+];
+
+// URLA form fields the writer knows how to place in a record
+const EXPORTED_URLA_FIELDS = new Set([
+  'firstName', 'middleName', 'lastName', 'suffix', 'ssn', 'dateOfBirth', 'citizenship', 'maritalStatus',
+  'dependentsNumber', 'dependentsAges', 'homePhone', 'cellPhone', 'email',
+  'currentStreet', 'currentCity', 'currentState', 'currentZip', 'currentCountry', 'currentAddressYears',
+  'currentAddressMonths', 'currentHousing', 'currentRentAmount',
+  'formerStreet', 'formerCity', 'formerState', 'formerZip', 'formerCountry', 'formerAddressYears',
+  'formerAddressMonths', 'formerHousing',
+  'employerName', 'employerStreet', 'employerCity', 'employerState', 'employerZip', 'employerPhone',
+  'position', 'workYears', 'workMonths', 'selfEmployed',
+  'previousEmployment', 'previousEmployerName', 'previousPosition', 'previousStartDate', 'previousEndDate', 'previousIncome',
+  ...Object.keys(INCOME_CODES),
+  ...Object.keys(ASSET_CODES).flatMap(prefix => [`${prefix}Account1`, `${prefix}Institution1`, `${prefix}AccountNumber1`, `${prefix}Value1`]),
+]);
+
+const invert = (map: Record<string, string>) =>
+  Object.fromEntries(Object.entries(map).map(([key, value]) => [value, key]));
+
+const digits = (value: unknown) => String(value ?? '').replace(/\D/g, '');
+const toFnmDate = (value: unknown) => digits(value).slice(0, 8); // CCYYMMDD
+const fromFnmDate = (value: string) => value.length === 8 ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : value;
+const amount = (value: unknown) => {
+  const parsed = parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? '' : parsed.toFixed(2);
+};
+const hasValue = (value: unknown) => value !== undefined && value !== null && value !== '' && value !== false;
+
+interface ParsedRecord {
+  id: string;
+  line: number;
+  fields: Record<string, string>;
+  consumed: Set<string>;
+}
+
+export class FnmService {
+  private static instance: FnmService;
+
+  public static getInstance(): FnmService {
+    if (!FnmService.instance) {
+      FnmService.instance = new FnmService();
+    }
+    return FnmService.instance;
+  }
+
+  exportLoan(loan: FnmLoan, options: FnmExportOptions = {}): { content: string; report: FnmMappingReport } {
+    const urla = loan.urlaData || {};
+    const ssn = options.maskPii
+      ? piiMasking.maskField('ssn', String(urla.ssn ?? '')).replace(/-/g, '')
+      : digits(urla.ssn).padStart(9, '0').slice(-9);
+    const records: string[] = [];
+    const write = (id: string, values: Record<string, unknown>) => records.push(this.formatRecord(id, values));
+
+    write('000', { fileType: '1', fileVersion: '3.20' });
+    write('01A', {
+      mortgageAppliedFor: '07',
+      mortgageAppliedForOther: 'Business Purpose',
+      caseNumber: `LA-${loan.id}`,
+      loanAmount: amount(loan.requestedAmount),
+      interestRate: loan.interestRate ? parseFloat(loan.interestRate).toFixed(3) : '',
+      numberOfMonths: loan.termMonths,
+      amortizationType: '05',
+    });
+    write('02A', {
+      street: loan.property.address,
+      city: loan.property.city,
+      state: loan.property.state,
+      zip: digits(loan.property.zipCode).slice(0, 5),
+      zipPlusFour: digits(loan.property.zipCode).slice(5, 9),
+      numberOfUnits: loan.property.propertyType === 'multi_family' ? '' : 1,
+    });
+    write('02B', {
+      purposeOfLoan: PURPOSE_CODES[loan.loanPurpose || ''] || '15',
+      purposeOfLoanOther: PURPOSE_CODES[loan.loanPurpose || ''] ? '' : loan.loanPurpose,
+      propertyWillBe: 'D', // investment
+    });
+
+    const dependentAges = String(urla.dependentsAges || '').split(',').map(age => age.trim()).filter(Boolean);
+    write('03A', {
+      applicantIndicator: 'BW',
+      ssn,
+      firstName: urla.firstName || loan.borrower.firstName,
+      middleName: urla.middleName,
+      lastName: urla.lastName || loan.borrower.lastName,
+      generation: urla.suffix,
+      homePhone: digits(urla.homePhone || loan.borrower.phone).slice(0, 10),
+      maritalStatus: MARITAL_CODES[urla.maritalStatus],
+      dependentsCount: urla.dependentsNumber,
+      completedJointly: 'N',
+      dateOfBirth: options.maskPii ? '' : toFnmDate(urla.dateOfBirth),
+      email: urla.email || loan.borrower.email,
+    });
+    for (const age of dependentAges) {
+      write('03B', { ssn, dependentAge: age });
+    }
+
+    write('03C', {
+      ssn,
+      presentFormer: 'ZG',
+      street: urla.currentStreet || loan.borrower.address,
+      city: urla.currentCity || loan.borrower.city,
+      state: urla.currentState || loan.borrower.state,
+      zip: digits(urla.currentZip || loan.borrower.zipCode).slice(0, 5),
+      ownRent: RESIDENCY_CODES[urla.currentHousing],
+      years: urla.currentAddressYears,
+      months: urla.currentAddressMonths,
+      country: urla.currentCountry && urla.currentCountry !== 'US' ? urla.currentCountry : '',
+    });
+    if (urla.formerStreet) {
+      write('03C', {
+        ssn,
+        presentFormer: 'F4',
+        street: urla.formerStreet,
+        city: urla.formerCity,
+        state: urla.formerState,
+        zip: digits(urla.formerZip).slice(0, 5),
+        ownRent: RESIDENCY_CODES[urla.formerHousing],
+        years: urla.formerAddressYears,
+        months: urla.formerAddressMonths,
+        country: urla.formerCountry && urla.formerCountry !== 'US' ? urla.formerCountry : '',
+      });
+    }
+
+    if (urla.employerName) {
+      write('04A', {
+        ssn,
+        employerName: urla.employerName,
+        street: urla.employerStreet,
+        city: urla.employerCity,
+        state: urla.employerState,
+        zip: digits(urla.employerZip).slice(0, 5),
+        selfEmployed: urla.selfEmployed ? 'Y' : 'N',
+        yearsOnJob: urla.workYears,
+        monthsOnJob: urla.workMonths,
+        position: urla.position,
+        businessPhone: digits(urla.employerPhone).slice(0, 10),
+      });
+    }
+    if (urla.previousEmployment && urla.previousEmployerName) {
+      write('04B', {
+        ssn,
+        employerName: urla.previousEmployerName,
+        selfEmployed: 'N',
+        currentEmployment: 'N',
+        fromDate: toFnmDate(urla.previousStartDate),
+        toDate: toFnmDate(urla.previousEndDate),
+        monthlyIncome: amount(urla.previousIncome),
+        position: urla.previousPosition,
+      });
+    }
+
+    if (parseFloat(urla.currentRentAmount || '0') > 0) {
+      write('05H', { ssn, presentProposed: '1', housingPaymentType: RENT_PAYMENT_CODE, amount: amount(urla.currentRentAmount) });
+    }
+    for (const [field, code] of Object.entries(INCOME_CODES)) {
+      if (parseFloat(urla[field] || '0') > 0) {
+        write('05I', { ssn, incomeType: code, amount: amount(urla[field]) });
+      }
+    }
+    for (const [prefix, code] of Object.entries(ASSET_CODES)) {
+      if (parseFloat(urla[`${prefix}Value1`] || '0') > 0) {
+        write('06C', {
+          ssn,
+          accountType: code,
+          institution: urla[`${prefix}Institution1`],
+          accountNumber: urla[`${prefix}AccountNumber1`],
+          value: amount(urla[`${prefix}Value1`]),
+        });
+      }
+    }
+
+    write('07A', { purchasePrice: amount(loan.property.purchasePrice), alterations: amount(loan.property.rehabCost) });
+    write('08A', {
+      ssn,
+      usCitizen: urla.citizenship ? (urla.citizenship === 'us_citizen' ? 'Y' : 'N') : '',
+      permanentResident: urla.citizenship ? (urla.citizenship === 'permanent_resident' ? 'Y' : 'N') : '',
+      intendToOccupy: 'N',
+    });
+
+    for (const { name, read } of ADS_FIELDS) {
+      const value = read(loan);
+      if (hasValue(value)) write('ADS', { name, value });
+    }
+
+    const unmappedFields: FnmUnmappedField[] = Object.entries(urla)
+      .filter(([field, value]) => !EXPORTED_URLA_FIELDS.has(field) && hasValue(value))
+      .map(([field, value]) => ({ record: 'urlaData', field, value: String(value) }));
+
+    return { content: records.join('\r\n') + '\r\n', report: { unmappedFields, unknownRecords: [] } };
+  }
+
+  parse(content: string): ParsedRecord[] {
+    const lines = content.split(/\r?\n/);
+    const records: ParsedRecord[] = [];
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      const id = line.slice(0, 3).trim();
+      const layout = RECORD_LAYOUTS[id];
+      const fields: Record<string, string> = {};
+      if (layout) {
+        let offset = 0;
+        for (const [name, length] of layout) {
+          fields[name] = line.slice(offset, offset + length).trim();
+          offset += length;
+        }
+      }
+      records.push({ id, line: index + 1, fields, consumed: new Set(['recordId']) });
+    });
+
+    const errors: string[] = [];
+    if (records[0]?.id !== '000' || !records[0].fields.fileVersion.startsWith('3.2')) {
+      errors.push('File must start with a 000 record for version 3.20');
+    }
+    if (!records.some(record => record.id === '01A')) errors.push('Missing 01A (mortgage type and terms) record');
+    if (!records.some(record => record.id === '02A')) errors.push('Missing 02A (property information) record');
+    if (!records.some(record => record.id === '03A')) errors.push('Missing 03A (applicant data) record');
+    if (errors.length > 0) {
+      throw new FnmValidationError(errors);
+    }
+    return records;
+  }
+
+  // Borrower, property and loan are created together, so a failed import leaves nothing behind
+  async importLoan(content: string, options: FnmImportOptions): Promise<{
+    application: LoanApplicationWithDetails;
+    report: FnmMappingReport;
+  }> {
+    const records = this.parse(content);
+    const first = (id: string, predicate: (record: ParsedRecord) => boolean = () => true) =>
+      records.find(record => record.id === id && predicate(record));
+    const all = (id: string) => records.filter(record => record.id === id);
+    const take = (record: ParsedRecord | undefined, field: string): string => {
+      if (!record) return '';
+      record.consumed.add(field);
+      return record.fields[field] || '';
+    };
+
+    records.find(record => record.id === '000')?.consumed.add('fileVersion');
+    const terms = first('01A')!;
+    const subject = first('02A')!;
+    const purpose = first('02B');
+    const applicant = first('03A', record => record.fields.applicantIndicator === 'BW') || first('03A')!;
+    const present = first('03C', record => record.fields.presentFormer === 'ZG');
+    const former = first('03C', record => record.fields.presentFormer === 'F4');
+    const employer = first('04A');
+    const previous = first('04B', record => record.fields.currentEmployment === 'N');
+    const transaction = first('07A');
+    const declarations = first('08A');
+
+    const ads: Record<string, string> = {};
+    for (const record of all('ADS')) {
+      const name = record.fields.name;
+      if (ADS_FIELDS.some(field => field.name === name)) {
+        ads[name] = take(record, 'value');
+        record.consumed.add('name');
+      }
+    }
+
+    const email = take(applicant, 'email');
+    const homePhone = take(applicant, 'homePhone');
+    const phone = ads.LoanDaddyBorrowerCellPhone || homePhone;
+    take(applicant, 'completedJointly');
+    take(present, 'presentFormer');
+    take(former, 'presentFormer');
+    const errors: string[] = [];
+    if (!take(applicant, 'firstName') || !take(applicant, 'lastName')) errors.push('03A: applicant first and last name are required');
+    if (!email) errors.push('03A: applicant email is required');
+    if (!phone) errors.push('03A: applicant home phone is required');
+    if (errors.length > 0) {
+      throw new FnmValidationError(errors);
+    }
+
+    const borrower = insertBorrowerSchema.parse({
+      organizationId: options.organizationId,
+      firstName: applicant.fields.firstName,
+      lastName: applicant.fields.lastName,
+      email,
+      phone,
+      address: take(present, 'street') || undefined,
+      city: take(present, 'city') || undefined,
+      state: take(present, 'state') || undefined,
+      zipCode: take(present, 'zip') || undefined,
+    });
+
+    const units = parseInt(take(subject, 'numberOfUnits') || '1');
+    const alterations = take(transaction, 'alterations');
+    const property = insertPropertySchema.parse({
+      address: take(subject, 'street'),
+      city: take(subject, 'city'),
+      state: take(subject, 'state'),
+      zipCode: [take(subject, 'zip'), take(subject, 'zipPlusFour')].filter(Boolean).join('-'),
+      propertyType: ads.LoanDaddyPropertyType || (units > 1 ? 'multi_family' : 'single_family'),
+      propertyValue: ads.LoanDaddyPropertyValue || undefined,
+      purchasePrice: take(transaction, 'purchasePrice') || undefined,
+      rehabCost: ads.LoanDaddyRehabCost || alterations || undefined,
+      arv: ads.LoanDaddyAfterRepairValue || undefined,
+    });
+
+    const purposeCode = take(purpose, 'purposeOfLoan');
+    take(purpose, 'propertyWillBe');
+    take(terms, 'mortgageAppliedFor');
+    take(terms, 'mortgageAppliedForOther');
+    take(terms, 'caseNumber');
+    take(terms, 'amortizationType');
+    const months = take(terms, 'numberOfMonths');
+    const application = importedApplicationSchema.parse({
+      organizationId: options.organizationId,
+      loanOfficerId: options.loanOfficerId,
+      loanType: ads.LoanDaddyLoanType || options.loanType || 'dscr',
+      requestedAmount: take(terms, 'loanAmount'),
+      status: 'application',
+      ltv: ads.LoanDaddyLTV || undefined,
+      dscr: ads.LoanDaddyDSCR || undefined,
+      interestRate: take(terms, 'interestRate') || undefined,
+      termMonths: months ? parseInt(months) : undefined,
+      monthlyRent: ads.LoanDaddyMonthlyRent || undefined,
+      monthlyExpenses: ads.LoanDaddyMonthlyExpenses || undefined,
+      loanPurpose: ads.LoanDaddyLoanPurpose || invert(PURPOSE_CODES)[purposeCode] || take(purpose, 'purposeOfLoanOther') || undefined,
+      exitStrategy: ads.LoanDaddyExitStrategy || undefined,
+      stage: 'full_application',
+    });
+
+    const urla: UrlaData = {
+      firstName: applicant.fields.firstName,
+      middleName: take(applicant, 'middleName'),
+      lastName: applicant.fields.lastName,
+      suffix: take(applicant, 'generation'),
+      ssn: applicant.fields.ssn,
+      dateOfBirth: fromFnmDate(take(applicant, 'dateOfBirth')),
+      maritalStatus: invert(MARITAL_CODES)[take(applicant, 'maritalStatus')],
+      dependentsNumber: take(applicant, 'dependentsCount'),
+      dependentsAges: all('03B').map(record => take(record, 'dependentAge')).join(', '),
+      homePhone,
+      cellPhone: phone,
+      email,
+      currentStreet: present?.fields.street,
+      currentCity: present?.fields.city,
+      currentState: present?.fields.state,
+      currentZip: present?.fields.zip,
+      currentCountry: take(present, 'country') || 'US',
+      currentAddressYears: take(present, 'years'),
+      currentAddressMonths: take(present, 'months'),
+      currentHousing: invert(RESIDENCY_CODES)[take(present, 'ownRent')],
+      formerStreet: take(former, 'street'),
+      formerCity: take(former, 'city'),
+      formerState: take(former, 'state'),
+      formerZip: take(former, 'zip'),
+      formerCountry: take(former, 'country'),
+      formerAddressYears: take(former, 'years'),
+      formerAddressMonths: take(former, 'months'),
+      formerHousing: invert(RESIDENCY_CODES)[take(former, 'ownRent')],
+      employerName: take(employer, 'employerName'),
+      employerStreet: take(employer, 'street'),
+      employerCity: take(employer, 'city'),
+      employerState: take(employer, 'state'),
+      employerZip: take(employer, 'zip'),
+      employerPhone: take(employer, 'businessPhone'),
+      position: take(employer, 'position'),
+      workYears: take(employer, 'yearsOnJob'),
+      workMonths: take(employer, 'monthsOnJob'),
+      selfEmployed: take(employer, 'selfEmployed') === 'Y',
+      previousEmployment: Boolean(previous),
+      previousEmployerName: take(previous, 'employerName'),
+      previousPosition: take(previous, 'position'),
+      previousStartDate: fromFnmDate(take(previous, 'fromDate')),
+      previousEndDate: fromFnmDate(take(previous, 'toDate')),
+      previousIncome: take(previous, 'monthlyIncome'),
+    };
+    if (previous) {
+      take(previous, 'selfEmployed');
+      take(previous, 'currentEmployment');
+    }
+
+    const rent = first('05H', record => record.fields.presentProposed === '1' && record.fields.housingPaymentType === RENT_PAYMENT_CODE);
+    if (rent) {
+      take(rent, 'presentProposed');
+      take(rent, 'housingPaymentType');
+      urla.currentRentAmount = take(rent, 'amount');
+    }
+
+    const incomeFields = invert(INCOME_CODES);
+    for (const record of all('05I')) {
+      const field = incomeFields[record.fields.incomeType];
+      if (!field || urla[field]) continue;
+      take(record, 'incomeType');
+      urla[field] = take(record, 'amount');
+    }
+
+    const assetPrefixes = invert(ASSET_CODES);
+    for (const record of all('06C')) {
+      const prefix = assetPrefixes[record.fields.accountType];
+      if (!prefix || urla[`${prefix}Value1`]) continue;
+      take(record, 'accountType');
+      urla[`${prefix}Institution1`] = take(record, 'institution');
+      urla[`${prefix}AccountNumber1`] = take(record, 'accountNumber');
+      urla[`${prefix}Value1`] = take(record, 'value');
+    }
+
+    const usCitizen = take(declarations, 'usCitizen');
+    const permanentResident = take(declarations, 'permanentResident');
+    take(declarations, 'intendToOccupy');
+    if (usCitizen) {
+      urla.citizenship = usCitizen === 'Y' ? 'us_citizen' : permanentResident === 'Y' ? 'permanent_resident' : 'non_permanent_resident';
+    }
+
+    const created = await storage.createLoanApplicationWithRelations({
+      borrower,
+      property,
+      application: { ...application, urlaData: Object.fromEntries(Object.entries(urla).filter(([, value]) => hasValue(value))) },
+    });
+
+    return { application: created, report: this.buildReport(records) };
+  }
+
+  // Every populated field the import did not consume, plus record types this parser has no layout for
+  private buildReport(records: ParsedRecord[]): FnmMappingReport {
+    const report: FnmMappingReport = { unmappedFields: [], unknownRecords: [] };
+    for (const record of records) {
+      if (!RECORD_LAYOUTS[record.id]) {
+        report.unknownRecords.push({ record: record.id, line: record.line });
+        continue;
+      }
+      for (const [field, value] of Object.entries(record.fields)) {
+        if (!value || STRUCTURAL_FIELDS.has(field) || record.consumed.has(field)) continue;
+        report.unmappedFields.push({
+          record: record.id,
+          line: record.line,
+          field: record.id === 'ADS' && field === 'value' ? record.fields.name : field,
+          value
+        });
+      }
+    }
+    // ADS names are reported through their value
+    report.unmappedFields = report.unmappedFields.filter(entry => !(entry.record === 'ADS' && entry.field === 'name'));
+    return report;
+  }
+
+  private formatRecord(id: string, values: Record<string, unknown>): string {
+    return RECORD_LAYOUTS[id]
+      .map(([name, length]) => {
+        const value = name === 'recordId' ? id : values[name];
+        return String(value ?? '').slice(0, length).padEnd(length, ' ');
+      })
+      .join('')
+      .trimEnd();
+  }
+}
+
+export const fnmService = FnmService.getInstance();
@@ -0,0 +1,98 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { hmdaService, HmdaError } from "./hmda-service";
+import { requirePermission } from "./rbac-service";
+import { tenantContext, TenantError } from "./tenant-context";
+
+const router = Router();
+
+const codes = (max: number) => z.array(z.number().int().positive()).max(max);
+
+const hmdaUpdateSchema = z.object({
+  actionTaken: z.number().int().min(1).max(8).nullable().optional(),
+  actionTakenDate: z.coerce.date().nullable().optional(),
+  denialReasons: codes(4).nullable().optional(),
+  rateSpread: z.string().regex(/^-?\d+(\.\d{1,3})?$/).nullable().optional(),
+  hoepaStatus: z.number().int().min(1).max(3).nullable().optional(),
+  censusTract: z.string().regex(/^\d{11}$/, "Census tract must be 11 digits").nullable().optional(),
+  borrower: z.object({
+    ethnicity: codes(5).nullable().optional(),
+    ethnicityCollectionMethod: z.number().int().min(1).max(3).nullable().optional(),
+    race: codes(5).nullable().optional(),
+    raceCollectionMethod: z.number().int().min(1).max(3).nullable().optional(),
+    sex: z.number().int().min(1).max(6).nullable().optional(),
+    sexCollectionMethod: z.number().int().min(1).max(3).nullable().optional(),
+  }).optional(),
+});
+
+function handleHmdaError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof HmdaError || error instanceof TenantError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Reporting year, defaulting to the current one, for the caller's own organization; another organization's
+// register cannot be requested through ?organizationId
+function reportingScope(req: Request) {
+  const organizationId = tenantContext.requireOrganizationId();
+  if (req.query.organizationId !== undefined && Number(req.query.organizationId) !== organizationId) {
+    throw new TenantError('HMDA reports are only available for your own organization');
+  }
+  return {
+    organizationId,
+    year: req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear(),
+  };
+}
+
+router.get("/loan-applications/:id/hmda", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    res.json(await hmdaService.getLoanData(parseInt(req.params.id)));
+  } catch (error) {
+    handleHmdaError(res, error, "Failed to fetch HMDA data");
+  }
+});
+
+router.put("/loan-applications/:id/hmda", requirePermission('compliance.manage'), async (req, res) => {
+  try {
+    const result = hmdaUpdateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid HMDA data", details: result.error.issues });
+    }
+
+    const { borrower, ...loanData } = result.data;
+    res.json(await hmdaService.updateLoanData(parseInt(req.params.id), loanData, borrower || {}));
+  } catch (error) {
+    handleHmdaError(res, error, "Failed to update HMDA data");
+  }
+});
+
+router.get("/hmda/edits", requirePermission('compliance.view'), async (req, res) => {
+  try {
+    const { organizationId, year } = reportingScope(req);
+    res.json(await hmdaService.runEdits(organizationId, year));
+  } catch (error) {
+    handleHmdaError(res, error, "Failed to run HMDA edits");
+  }
+});
+
+// Download the pipe-delimited LAR for a reporting year; ?format=json returns the file with its edit report
+router.get("/hmda/lar", requirePermission('compliance.view', 'data.export'), async (req, res) => {
+  try {
+    const { organizationId, year } = reportingScope(req);
+    const { fileName, content, report } = await hmdaService.exportLar(organizationId, year);
+    if (req.query.format === 'json') {
+      return res.json({ fileName, content, report });
+    }
+
+    res.setHeader('Content-Type', 'text/plain');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('X-HMDA-Edit-Failures', String(report.edits.length));
+    res.send(content);
+  } catch (error) {
+    handleHmdaError(res, error, "Failed to export HMDA LAR");
+  }
+});
+
+export default router;
@@ -0,0 +1,183 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; edit checks and LAR records never send a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { hmdaService } = await import("./hmda-service");
+
+type Organization = import("@shared/schema").Organization;
+type LoanApplicationWithDetails = import("@shared/schema").LoanApplicationWithDetails;
+
+const LEI = '5493001KJTIIGC8Y1R12';
+
+function organization(settings: Record<string, unknown> = {}, lei: string | null = LEI): Organization {
+  return {
+    id: 1,
+    name: 'Loan Daddy Lending',
+    subdomain: 'loandaddy',
+    lei,
+    settings: {
+      hmda: {
+        contactName: 'Pat Lee',
+        contactPhone: '512-555-0100',
+        contactEmail: 'compliance@example.com',
+        street: '100 Congress Ave',
+        city: 'Austin',
+        state: 'TX',
+        zipCode: '78701',
+        federalAgency: 9,
+        taxId: '12-3456789',
+        ...settings,
+      },
+    },
+  } as unknown as Organization;
+}
+
+function loan(overrides: Record<string, unknown> = {}, borrower: Record<string, unknown> = {}) {
+  return {
+    id: 17,
+    organizationId: 1,
+    loanPurpose: 'purchase',
+    requestedAmount: '300000',
+    interestRate: '7.500',
+    ltv: '75.00',
+    termMonths: 360,
+    createdAt: new Date(2026, 1, 2),
+    actionTaken: 1,
+    actionTakenDate: new Date(2026, 3, 15),
+    denialReasons: null,
+    rateSpread: '1.250',
+    hoepaStatus: 2,
+    censusTract: '48453001100',
+    urlaData: { dateOfBirth: '1984-06-20', baseIncome: '10000', bonusIncome: '500' },
+    borrower: {
+      ethnicity: [2],
+      ethnicityCollectionMethod: 2,
+      race: [5],
+      raceCollectionMethod: 2,
+      sex: 2,
+      sexCollectionMethod: 2,
+      ...borrower,
+    },
+    property: { address: '221 Oak Ave', city: 'Austin', state: 'TX', zipCode: '78704', propertyType: 'duplex', propertyValue: '400000' },
+    ...overrides,
+  } as unknown as LoanApplicationWithDetails;
+}
+
+const editIds = (overrides: Record<string, unknown> = {}, borrower: Record<string, unknown> = {}) =>
+  hmdaService.editLoan(loan(overrides, borrower), organization(), 2026).map(edit => edit.editId);
+
+describe("Universal Loan Identifier", () => {
+  test("appends ISO 7064 MOD 97-10 check digits that validate", () => {
+    const uli = hmdaService.generateUli(LEI, 17);
+    assert.equal(uli.slice(0, 30), `${LEI}0000000017`);
+    assert.ok(hmdaService.isValidUli(uli));
+    assert.ok(hmdaService.isValidUli(uli.toLowerCase()));
+  });
+
+  test("rejects altered check digits and identifiers of the wrong length", () => {
+    const uli = hmdaService.generateUli(LEI, 17);
+    const altered = uli.slice(0, -2) + String((Number(uli.slice(-2)) + 1) % 100).padStart(2, '0');
+    assert.ok(!hmdaService.isValidUli(altered));
+    assert.ok(!hmdaService.isValidUli('ABC123'));
+  });
+});
+
+describe("transmittal sheet edits", () => {
+  test("passes a complete transmittal sheet", () => {
+    assert.deepEqual(hmdaService.editTransmittal(organization()), []);
+  });
+
+  test("flags the LEI, agency, contact and tax ID", () => {
+    const edits = hmdaService.editTransmittal(organization({ federalAgency: 4, contactEmail: '', taxId: '123456789' }, 'SHORT'));
+    assert.deepEqual(edits.map(edit => [edit.editId, edit.type]), [
+      ['S300', 'syntactical'],
+      ['V716', 'validity'],
+      ['V717', 'validity'],
+      ['V718', 'validity'],
+    ]);
+  });
+});
+
+describe("LAR edits", () => {
+  test("passes a complete originated loan", () => {
+    assert.deepEqual(editIds(), []);
+  });
+
+  test("requires an action taken code and a date inside the reporting year, on or after application", () => {
+    assert.deepEqual(editIds({ actionTaken: 9 }), ['V618', 'V678-2']);
+    assert.deepEqual(editIds({ actionTakenDate: new Date(2025, 11, 31), createdAt: new Date(2025, 10, 1) }), ['V619-2']);
+    assert.deepEqual(editIds({ actionTakenDate: new Date(2026, 0, 5) }), ['V619-3']);
+    assert.deepEqual(editIds({ actionTakenDate: null }), ['V619-1']);
+  });
+
+  test("checks the property state, ZIP code and census tract formats", () => {
+    assert.deepEqual(editIds({ property: { ...loan().property, state: 'Texas', zipCode: '7870' } }), ['V622', 'V623']);
+    assert.deepEqual(editIds({ censusTract: '48-453-0011' }), ['V625']);
+  });
+
+  test("requires demographic codes that agree with how they were collected", () => {
+    // Visual observation cannot produce "information not provided"
+    assert.deepEqual(editIds({}, { ethnicity: [3], ethnicityCollectionMethod: 1 }), ['V629']);
+    // "Not applicable" collection only goes with the not-applicable code
+    assert.deepEqual(editIds({}, { race: [5], raceCollectionMethod: 3 }), ['V639']);
+    assert.deepEqual(editIds({}, { race: [5, 8] }), ['V636']);
+    assert.deepEqual(editIds({}, { ethnicity: [] }), ['V628']);
+    assert.deepEqual(editIds({}, { sex: 5 }), ['V643']);
+    assert.deepEqual(editIds({}, { sexCollectionMethod: 1, sex: 3 }), ['V644']);
+  });
+
+  test("requires denial reasons on denials only", () => {
+    const denied = { actionTaken: 3, rateSpread: null, hoepaStatus: 3 };
+    assert.deepEqual(editIds({ ...denied, denialReasons: [] }), ['V669']);
+    assert.deepEqual(editIds({ ...denied, denialReasons: [1, 10] }), ['V669']);
+    assert.deepEqual(editIds({ ...denied, denialReasons: [1, 4] }), []);
+    assert.deepEqual(editIds({ denialReasons: [1] }), ['V670']);
+    assert.deepEqual(editIds({ denialReasons: [10] }), []);
+  });
+
+  test("leaves rate spread and HOEPA status to loans that were approved or originated", () => {
+    assert.deepEqual(editIds({ actionTaken: 4, hoepaStatus: 3 }), ['V675']);
+    assert.deepEqual(editIds({ actionTaken: 2, hoepaStatus: 2 }), ['V678-2']);
+    assert.deepEqual(editIds({ hoepaStatus: 4 }), ['V678-1']);
+  });
+
+  test("raises quality edits for stale applications, missing tracts, large amounts and outlying rate spreads", () => {
+    assert.deepEqual(editIds({ createdAt: new Date(2024, 0, 2) }), ['Q601']);
+    assert.deepEqual(editIds({ censusTract: null }), ['Q602']);
+    assert.deepEqual(editIds({ requestedAmount: '5000001' }), ['Q603']);
+    assert.deepEqual(editIds({ rateSpread: '-15.5' }), ['Q607']);
+  });
+});
+
+describe("LAR records", () => {
+  const record = (overrides: Record<string, unknown> = {}) =>
+    hmdaService.buildLarRecord(loan(overrides), organization(), undefined, new Date(2026, 1, 2));
+
+  test("writes all 110 fields in filing order", () => {
+    const fields = record();
+    assert.equal(fields.length, 110);
+    assert.deepEqual(fields.slice(0, 12), [
+      '2', LEI, hmdaService.generateUli(LEI, 17), '20260202', '1', '1', '2', '1', '3', '300000', '1', '20260415',
+    ]);
+    assert.equal(fields[16], '48453');
+    assert.equal(fields[17], '48453001100');
+  });
+
+  test("reports age at application, income in thousands and units from the property type", () => {
+    const fields = record();
+    // Born June 20, 1984: still 41 on the February application date
+    assert.equal(fields[54], '41');
+    // 10,500 a month is 126 thousand a year
+    assert.equal(fields[56], '126');
+    assert.equal(fields[90], '2');
+  });
+
+  test("writes NA for the rate spread and 10 for denial reasons where they do not apply", () => {
+    assert.equal(record()[58], '1.250');
+    assert.deepEqual(record().slice(67, 71), ['10', '', '', '']);
+    const denied = record({ actionTaken: 3, denialReasons: [1, 4] });
+    assert.equal(denied[58], 'NA');
+    assert.deepEqual(denied.slice(67, 71), ['1', '4', '', '']);
+  });
+});
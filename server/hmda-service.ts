@@ -0,0 +1,513 @@
+// HMDA Service
+// Collects HMDA reportable data, runs FFIEC edit checks and writes the pipe-delimited Loan/Application Register
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { loanStatusMachine } from "./loan-status-machine";
+import { tridService } from "./trid-service";
+import type { UrlaData } from "./mismo-service";
+import type { ComplianceItem } from "./trid-service";
+import {
+  organizations,
+  type InsertBorrower,
+  type InsertLoanApplication,
+  type LoanApplicationWithDetails,
+  type Organization,
+  type User,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+export type HmdaEditType = 'syntactical' | 'validity' | 'quality';
+
+export interface HmdaEdit {
+  editId: string;
+  type: HmdaEditType;
+  loanApplicationId: number | null; // null for transmittal sheet edits
+  uli: string | null;
+  field: string;
+  message: string;
+}
+
+export interface HmdaEditReport {
+  year: number;
+  organizationId: number;
+  loanCount: number;
+  edits: HmdaEdit[];
+  summary: Record<HmdaEditType, number>;
+}
+
+// Transmittal sheet contact details, kept in organizations.settings.hmda
+export interface HmdaTransmittalSettings {
+  contactName?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  federalAgency?: number; // 1 OCC, 2 FRS, 3 FDIC, 5 NCUA, 7 HUD, 9 CFPB
+  taxId?: string;
+}
+
+export type HmdaLoanUpdate = Partial<Pick<InsertLoanApplication,
+  'actionTaken' | 'actionTakenDate' | 'denialReasons' | 'rateSpread' | 'hoepaStatus' | 'censusTract'>>;
+export type HmdaBorrowerUpdate = Partial<Pick<InsertBorrower,
+  'ethnicity' | 'ethnicityCollectionMethod' | 'race' | 'raceCollectionMethod' | 'sex' | 'sexCollectionMethod'>>;
+
+export class HmdaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HmdaError';
+  }
+}
+
+type HmdaLoan = LoanApplicationWithDetails & { urlaData?: UrlaData | null };
+
+export const ACTION_TAKEN_LABELS: Record<number, string> = {
+  1: 'Loan originated',
+  2: 'Application approved but not accepted',
+  3: 'Application denied',
+  4: 'Application withdrawn by applicant',
+  5: 'File closed for incompleteness',
+  6: 'Purchased loan',
+  7: 'Preapproval request denied',
+  8: 'Preapproval request approved but not accepted',
+};
+
+// Valid FFIEC code sets
+const ETHNICITY_CODES = [1, 11, 12, 13, 14, 2, 3, 4];
+const RACE_CODES = [1, 2, 21, 22, 23, 24, 25, 26, 27, 3, 4, 41, 42, 43, 44, 5, 6, 7];
+const SEX_CODES = [1, 2, 3, 4, 6];
+const COLLECTION_METHOD_CODES = [1, 2, 3];
+const DENIAL_REASON_CODES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const HOEPA_CODES = [1, 2, 3];
+const FEDERAL_AGENCY_CODES = [1, 2, 3, 5, 7, 9];
+
+// Terminal statuses that set action taken automatically
+const STATUS_ACTION_TAKEN: Record<string, number> = {
+  funded: 1,
+  declined: 3,
+  withdrawn: 4,
+};
+
+const LOAN_PURPOSE_CODES: Record<string, number> = {
+  purchase: 1,
+  renovation: 2,
+  'home-improvement': 2,
+  refinance: 31,
+  'cash-out': 32,
+  'cash-out-refinance': 32,
+};
+
+const NA = 'NA';
+const lar = (value: unknown) => value === null || value === undefined || value === '' ? NA : String(value);
+const larDate = (date: Date | string | null | undefined) => {
+  if (!date) return NA;
+  const value = new Date(date);
+  return `${value.getFullYear()}${String(value.getMonth() + 1).padStart(2, '0')}${String(value.getDate()).padStart(2, '0')}`;
+};
+const padCodes = (codes: number[] | null | undefined, length: number) =>
+  Array.from({ length }, (_, index) => codes?.[index] !== undefined ? String(codes[index]) : '');
+
+export class HmdaService {
+  private static instance: HmdaService;
+
+  public static getInstance(): HmdaService {
+    if (!HmdaService.instance) {
+      HmdaService.instance = new HmdaService();
+    }
+    return HmdaService.instance;
+  }
+
+  constructor() {
+    // Record action taken when a loan reaches a final status, unless staff have already coded it
+    loanStatusMachine.onTransition(event => {
+      const actionTaken = STATUS_ACTION_TAKEN[event.toStatus];
+      if (!actionTaken) return;
+      storage.getLoanApplication(event.loanApplicationId)
+        .then(loan => {
+          if (!loan || loan.actionTaken) return;
+          return storage.updateLoanApplication(loan.id, { actionTaken, actionTakenDate: new Date() });
+        })
+        .catch(error => console.error('HMDA action taken update error:', error));
+    });
+  }
+
+  async getLoanData(loanApplicationId: number) {
+    const loan = await this.requireLoan(loanApplicationId);
+    const organization = await this.getOrganization(loan.organizationId);
+    const { borrower } = loan;
+    return {
+      loanApplicationId,
+      uli: organization?.lei ? this.generateUli(organization.lei, loan.id) : null,
+      actionTaken: loan.actionTaken,
+      actionTakenLabel: loan.actionTaken ? ACTION_TAKEN_LABELS[loan.actionTaken] || null : null,
+      actionTakenDate: loan.actionTakenDate,
+      denialReasons: loan.denialReasons || [],
+      rateSpread: loan.rateSpread,
+      hoepaStatus: loan.hoepaStatus,
+      censusTract: loan.censusTract,
+      borrower: {
+        ethnicity: borrower.ethnicity || [],
+        ethnicityCollectionMethod: borrower.ethnicityCollectionMethod,
+        race: borrower.race || [],
+        raceCollectionMethod: borrower.raceCollectionMethod,
+        sex: borrower.sex,
+        sexCollectionMethod: borrower.sexCollectionMethod,
+      },
+      edits: organization ? this.editLoan(loan, organization, new Date(loan.actionTakenDate || new Date()).getFullYear()) : [],
+    };
+  }
+
+  async updateLoanData(loanApplicationId: number, loanData: HmdaLoanUpdate, borrowerData: HmdaBorrowerUpdate) {
+    const loan = await this.requireLoan(loanApplicationId);
+    if (Object.keys(loanData).length > 0) {
+      await storage.updateLoanApplication(loanApplicationId, loanData);
+    }
+    if (Object.keys(borrowerData).length > 0) {
+      await storage.updateBorrower(loan.borrowerId, borrowerData);
+    }
+    return this.getLoanData(loanApplicationId);
+  }
+
+  // Applications with final action taken during the reporting year
+  async getReportableLoans(organizationId: number, year: number): Promise<HmdaLoan[]> {
+    const loans = await storage.getAllLoanApplicationsWithDetails();
+    return loans
+      .filter(loan => loan.organizationId === organizationId && loan.actionTaken && loan.actionTakenDate
+        && new Date(loan.actionTakenDate).getFullYear() === year)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async runEdits(organizationId: number, year: number): Promise<HmdaEditReport> {
+    const organization = await this.requireOrganization(organizationId);
+    const loans = await this.getReportableLoans(organizationId, year);
+    const edits = [
+      ...this.editTransmittal(organization),
+      ...loans.flatMap(loan => this.editLoan(loan, organization, year)),
+    ];
+
+    return {
+      year,
+      organizationId,
+      loanCount: loans.length,
+      edits,
+      summary: {
+        syntactical: edits.filter(edit => edit.type === 'syntactical').length,
+        validity: edits.filter(edit => edit.type === 'validity').length,
+        quality: edits.filter(edit => edit.type === 'quality').length,
+      },
+    };
+  }
+
+  // Transmittal sheet followed by one LAR record per reportable application
+  async exportLar(organizationId: number, year: number): Promise<{ fileName: string; content: string; report: HmdaEditReport }> {
+    const organization = await this.requireOrganization(organizationId);
+    const loans = await this.getReportableLoans(organizationId, year);
+    const report = await this.runEdits(organizationId, year);
+
+    const lines = [this.buildTransmittalRecord(organization, year, loans.length).join('|')];
+    for (const loan of loans) {
+      const officer = loan.loanOfficerId ? await storage.getUser(loan.loanOfficerId) : undefined;
+      const applicationDate = (await tridService.getApplication(loan.id))?.applicationDate || loan.createdAt;
+      lines.push(this.buildLarRecord(loan, organization, officer, applicationDate).join('|'));
+    }
+
+    return {
+      fileName: `${organization.lei || organization.subdomain}-${year}-LAR.txt`,
+      content: lines.join('\n') + '\n',
+      report,
+    };
+  }
+
+  // Surfaces the current reporting year on the compliance center's regulatory reporting tile
+  async getComplianceItems(category: string = 'all'): Promise<ComplianceItem[]> {
+    if (category !== 'all' && category !== 'reporting') return [];
+
+    const year = new Date().getFullYear();
+    const allOrganizations = await db.select().from(organizations);
+    const items: ComplianceItem[] = [];
+    for (const organization of allOrganizations) {
+      const report = await this.runEdits(organization.id, year);
+      const blocking = report.summary.syntactical + report.summary.validity;
+      items.push({
+        id: `hmda-${organization.id}-${year}`,
+        title: `HMDA LAR ${year}${allOrganizations.length > 1 ? ` - ${organization.name}` : ''}`,
+        category: 'reporting',
+        status: blocking > 0 ? 'violation' : report.summary.quality > 0 ? 'warning' : report.loanCount > 0 ? 'compliant' : 'pending',
+        description: blocking > 0 || report.summary.quality > 0
+          ? `${report.loanCount} reportable applications with ${blocking} syntactical/validity and ${report.summary.quality} quality edits`
+          : `${report.loanCount} reportable applications pass all edits`,
+        dueDate: new Date(year + 1, 2, 1),
+        lastUpdated: new Date(),
+        assignedTo: organization.name,
+        priority: blocking > 0 ? 'high' : 'medium',
+        requirements: [
+          'Action taken recorded for every final application',
+          'Applicant ethnicity, race and sex with collection method',
+          'Census tract for property locations',
+          'LAR filed by March 1 of the following year',
+        ],
+        evidence: report.edits.slice(0, 5).map(edit => `${edit.editId}: ${edit.message}`),
+      });
+    }
+    return items;
+  }
+
+  // Universal Loan Identifier: LEI, loan identifier and ISO 7064 MOD 97-10 check digits
+  generateUli(lei: string, loanApplicationId: number): string {
+    const base = `${lei.toUpperCase()}${String(loanApplicationId).padStart(10, '0')}`;
+    return `${base}${this.checkDigits(base)}`;
+  }
+
+  isValidUli(uli: string): boolean {
+    if (!/^[A-Z0-9]{23,45}$/i.test(uli)) return false;
+    return this.checkDigits(uli.slice(0, -2)) === uli.slice(-2);
+  }
+
+  private checkDigits(base: string): string {
+    const numeric = `${base.toUpperCase()}00`.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+    let remainder = 0;
+    for (const digit of numeric) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+    return String(98 - remainder).padStart(2, '0');
+  }
+
+  buildTransmittalRecord(organization: Organization, year: number, entries: number): string[] {
+    const settings = this.getTransmittalSettings(organization);
+    return [
+      '1',
+      organization.name,
+      String(year),
+      '4',
+      settings.contactName || '',
+      settings.contactPhone || '',
+      settings.contactEmail || '',
+      settings.street || '',
+      settings.city || '',
+      settings.state || '',
+      settings.zipCode || '',
+      settings.federalAgency ? String(settings.federalAgency) : '',
+      String(entries),
+      settings.taxId || '',
+      (organization.lei || '').toUpperCase(),
+    ];
+  }
+
+  // The 110 LAR data fields in FFIEC filing order
+  buildLarRecord(loan: HmdaLoan, organization: Organization, officer: User | undefined, applicationDate: Date): string[] {
+    const { borrower, property } = loan;
+    const urla = loan.urlaData || {};
+    const approved = [1, 2, 8].includes(loan.actionTaken || 0);
+    const denied = loan.actionTaken === 3 || loan.actionTaken === 7;
+    const monthlyIncome = ['baseIncome', 'overtimeIncome', 'bonusIncome', 'commissionIncome', 'otherIncome']
+      .reduce((total, field) => total + (parseFloat(urla[field] || '0') || 0), 0);
+    const age = urla.dateOfBirth ? this.ageAt(new Date(urla.dateOfBirth), applicationDate) : null;
+    const zipCode = property.zipCode?.replace(/[^0-9-]/g, '');
+
+    return [
+      '2',
+      (organization.lei || '').toUpperCase(),
+      organization.lei ? this.generateUli(organization.lei, loan.id) : '',
+      larDate(applicationDate),
+      '1', // conventional
+      String(LOAN_PURPOSE_CODES[loan.loanPurpose || ''] || 4),
+      '2', // preapproval not requested
+      '1', // site-built
+      '3', // investment property
+      String(Math.round(parseFloat(loan.requestedAmount))),
+      lar(loan.actionTaken),
+      larDate(loan.actionTakenDate),
+      lar(property.address),
+      lar(property.city),
+      lar(property.state?.toUpperCase()),
+      lar(zipCode),
+      loan.censusTract ? loan.censusTract.slice(0, 5) : NA,
+      lar(loan.censusTract),
+      ...padCodes(borrower.ethnicity, 5), '',
+      '5', '', '', '', '', '', // no co-applicant
+      lar(borrower.ethnicityCollectionMethod), '4',
+      ...padCodes(borrower.race, 5), '', '', '',
+      '8', '', '', '', '', '', '', '',
+      lar(borrower.raceCollectionMethod), '4',
+      lar(borrower.sex), '5',
+      lar(borrower.sexCollectionMethod), '4',
+      age !== null ? String(age) : '8888', '9999',
+      monthlyIncome > 0 ? String(Math.round((monthlyIncome * 12) / 1000)) : NA,
+      '0', // not sold within the calendar year
+      approved ? lar(loan.rateSpread) : NA,
+      lar(loan.hoepaStatus || 3),
+      '1', // first lien
+      '8888', '9999', '9', '', '10', '', // credit scores are not relied on for business-purpose loans
+      ...(denied ? padCodes(loan.denialReasons, 4) : ['10', '', '', '']), '',
+      NA, NA, NA, NA, NA, // closing costs are not reported for business-purpose loans
+      lar(loan.interestRate),
+      NA,
+      NA,
+      lar(loan.ltv),
+      lar(loan.termMonths),
+      NA,
+      '2', '2', '2', '2', // no balloon, interest-only, negative amortization or other non-amortizing features
+      lar(property.propertyValue ? Math.round(parseFloat(property.propertyValue)) : null),
+      '3', '5', // not a manufactured home
+      String(this.totalUnits(property.propertyType)),
+      NA,
+      '1', '1', // submitted directly, initially payable to the institution
+      lar(officer?.nmlsId),
+      '6', '', '', '', '', '',
+      '17', '', '', '', '', '',
+      '2', '2', // not a reverse mortgage or open-end line of credit
+      '1', // primarily for a business or commercial purpose
+    ];
+  }
+
+  editTransmittal(organization: Organization): HmdaEdit[] {
+    const edits: HmdaEdit[] = [];
+    const settings = this.getTransmittalSettings(organization);
+    if (!organization.lei || !/^[A-Z0-9]{20}$/i.test(organization.lei)) {
+      edits.push(this.edit('S300', 'syntactical', null, null, 'LEI', 'LEI must be 20 alphanumeric characters'));
+    }
+    if (!settings.federalAgency || !FEDERAL_AGENCY_CODES.includes(settings.federalAgency)) {
+      edits.push(this.edit('V716', 'validity', null, null, 'Federal Agency', 'Federal agency must be 1, 2, 3, 5, 7 or 9'));
+    }
+    if (!settings.contactName || !settings.contactPhone || !settings.contactEmail || !settings.street || !settings.city || !settings.state || !settings.zipCode) {
+      edits.push(this.edit('V717', 'validity', null, null, 'Contact', 'Transmittal contact name, phone, email and office address are required'));
+    }
+    if (!settings.taxId || !/^\d{2}-\d{7}$/.test(settings.taxId)) {
+      edits.push(this.edit('V718', 'validity', null, null, 'Federal Taxpayer Identification Number', 'Tax ID must be in the format 99-9999999'));
+    }
+    return edits;
+  }
+
+  editLoan(loan: HmdaLoan, organization: Organization, year: number): HmdaEdit[] {
+    const edits: HmdaEdit[] = [];
+    const uli = organization.lei ? this.generateUli(organization.lei, loan.id) : null;
+    const add = (editId: string, type: HmdaEditType, field: string, message: string) =>
+      edits.push(this.edit(editId, type, loan.id, uli, field, message));
+    const { borrower, property } = loan;
+    const actionTaken = loan.actionTaken;
+
+    // Syntactical
+    if (!uli || !this.isValidUli(uli)) add('S301', 'syntactical', 'ULI', 'ULI must be 23-45 alphanumeric characters with valid check digits');
+
+    // Validity
+    if (!actionTaken || !ACTION_TAKEN_LABELS[actionTaken]) {
+      add('V618', 'validity', 'Action Taken', 'Action taken must be a code from 1 to 8');
+    }
+    if (!loan.actionTakenDate) {
+      add('V619-1', 'validity', 'Action Taken Date', 'Action taken date is required');
+    } else {
+      const actionDate = new Date(loan.actionTakenDate);
+      if (actionDate.getFullYear() !== year) add('V619-2', 'validity', 'Action Taken Date', `Action taken date must fall in ${year}`);
+      if (actionDate < new Date(loan.createdAt)) add('V619-3', 'validity', 'Action Taken Date', 'Action taken date must be on or after the application date');
+    }
+    if (!property.state || !/^[A-Z]{2}$/i.test(property.state)) add('V622', 'validity', 'State', 'State must be a two-letter postal code');
+    if (!property.zipCode || !/^\d{5}(-\d{4})?$/.test(property.zipCode)) add('V623', 'validity', 'ZIP Code', 'ZIP code must be 99999 or 99999-9999');
+    if (loan.censusTract && !/^\d{11}$/.test(loan.censusTract)) add('V625', 'validity', 'Census Tract', 'Census tract must be 11 digits or NA');
+
+    const ethnicity = borrower.ethnicity || [];
+    if (ethnicity.length === 0 || ethnicity.length > 5 || ethnicity.some(code => !ETHNICITY_CODES.includes(code))) {
+      add('V628', 'validity', 'Ethnicity of Applicant', 'Ethnicity must have 1 to 5 valid codes');
+    }
+    if (!this.validCollection(borrower.ethnicityCollectionMethod, ethnicity, [3], [4])) {
+      add('V629', 'validity', 'Ethnicity Collection Method', 'Ethnicity collection method must be 1-3 and consistent with the ethnicity reported');
+    }
+    const race = borrower.race || [];
+    if (race.length === 0 || race.length > 5 || race.some(code => !RACE_CODES.includes(code))) {
+      add('V636', 'validity', 'Race of Applicant', 'Race must have 1 to 5 valid codes');
+    }
+    if (!this.validCollection(borrower.raceCollectionMethod, race, [6], [7])) {
+      add('V639', 'validity', 'Race Collection Method', 'Race collection method must be 1-3 and consistent with the race reported');
+    }
+    if (!borrower.sex || !SEX_CODES.includes(borrower.sex)) add('V643', 'validity', 'Sex of Applicant', 'Sex must be 1, 2, 3, 4 or 6');
+    if (!this.validCollection(borrower.sexCollectionMethod, borrower.sex ? [borrower.sex] : [], [3], [4])) {
+      add('V644', 'validity', 'Sex Collection Method', 'Sex collection method must be 1-3 and consistent with the sex reported');
+    }
+
+    const denialReasons = loan.denialReasons || [];
+    const denied = actionTaken === 3 || actionTaken === 7;
+    if (denied && (denialReasons.length === 0 || denialReasons.length > 4 || denialReasons.some(code => !DENIAL_REASON_CODES.includes(code)))) {
+      add('V669', 'validity', 'Reason for Denial', 'Denied applications must report 1 to 4 denial reasons from 1 to 9');
+    }
+    if (!denied && denialReasons.some(code => code !== 10)) {
+      add('V670', 'validity', 'Reason for Denial', 'Denial reasons must be 10 (not applicable) unless the application was denied');
+    }
+    if (loan.rateSpread && actionTaken && [3, 4, 5, 6, 7].includes(actionTaken)) {
+      add('V675', 'validity', 'Rate Spread', 'Rate spread must be NA for applications that were not approved or were purchased');
+    }
+    if (loan.hoepaStatus && !HOEPA_CODES.includes(loan.hoepaStatus)) {
+      add('V678-1', 'validity', 'HOEPA Status', 'HOEPA status must be 1, 2 or 3');
+    }
+    if (loan.hoepaStatus && loan.hoepaStatus !== 3 && actionTaken !== 1) {
+      add('V678-2', 'validity', 'HOEPA Status', 'HOEPA status must be 3 (not applicable) unless the loan was originated');
+    }
+
+    // Quality
+    if (loan.actionTakenDate) {
+      const twoYearsBefore = new Date(loan.actionTakenDate);
+      twoYearsBefore.setFullYear(twoYearsBefore.getFullYear() - 2);
+      if (new Date(loan.createdAt) < twoYearsBefore) add('Q601', 'quality', 'Application Date', 'Application date is more than two years before action taken');
+    }
+    if (!loan.censusTract && actionTaken === 1) add('Q602', 'quality', 'Census Tract', 'Census tract is NA on an originated loan with a property address');
+    if (parseFloat(loan.requestedAmount) > 5000000) add('Q603', 'quality', 'Loan Amount', 'Loan amount exceeds $5,000,000');
+    if (loan.rateSpread && Math.abs(parseFloat(loan.rateSpread)) > 15) add('Q607', 'quality', 'Rate Spread', 'Rate spread is outside the expected range of -15 to 15');
+    return edits;
+  }
+
+  // Not-provided and not-applicable codes have to agree with how the information was collected
+  private validCollection(method: number | null, codes: number[], notProvided: number[], notApplicable: number[]): boolean {
+    if (!method || !COLLECTION_METHOD_CODES.includes(method)) return false;
+    if (method === 1 && codes.some(code => notProvided.includes(code) || notApplicable.includes(code))) return false;
+    if (method === 3 && codes.some(code => !notApplicable.includes(code))) return false;
+    return true;
+  }
+
+  private edit(editId: string, type: HmdaEditType, loanApplicationId: number | null, uli: string | null, field: string, message: string): HmdaEdit {
+    return { editId, type, loanApplicationId, uli, field, message };
+  }
+
+  private totalUnits(propertyType: string): number {
+    const type = propertyType.toLowerCase();
+    if (type.includes('duplex') || type.includes('2-unit')) return 2;
+    if (type.includes('triplex') || type.includes('3-unit')) return 3;
+    if (type.includes('fourplex') || type.includes('4-unit')) return 4;
+    if (type.includes('multi')) return 5;
+    return 1;
+  }
+
+  private ageAt(dateOfBirth: Date, on: Date): number | null {
+    if (isNaN(dateOfBirth.getTime())) return null;
+    let age = on.getFullYear() - dateOfBirth.getFullYear();
+    const birthday = new Date(on.getFullYear(), dateOfBirth.getMonth(), dateOfBirth.getDate());
+    if (on < birthday) age--;
+    return age;
+  }
+
+  private getTransmittalSettings(organization: Organization): HmdaTransmittalSettings {
+    return ((organization.settings as Record<string, any> | null)?.hmda || {}) as HmdaTransmittalSettings;
+  }
+
+  private async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  private async requireOrganization(id: number): Promise<Organization> {
+    const organization = await this.getOrganization(id);
+    if (!organization) {
+      throw new HmdaError('Organization not found');
+    }
+    return organization;
+  }
+
+  private async requireLoan(loanApplicationId: number): Promise<HmdaLoan> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new HmdaError('Loan application not found');
+    }
+    return loan;
+  }
+}
+
+export const hmdaService = HmdaService.getInstance();
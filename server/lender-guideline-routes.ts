@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { insertLenderGuidelineSchema } from "@shared/schema";
+import { pricingEngine } from "./pricing-engine";
+import { requirePermission } from "./rbac-service";
+
+const router = Router();
+
+// Admin maintenance of the lender guideline matrices used by /api/pricing/quote
+
+router.get("/admin/lender-guidelines", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const loanType = typeof req.query.loanType === 'string' ? req.query.loanType : undefined;
+    res.json(await pricingEngine.listGuidelines(loanType));
+  } catch (error) {
+    console.error("Fetch lender guidelines error:", error);
+    res.status(500).json({ message: "Failed to fetch lender guidelines" });
+  }
+});
+
+router.get("/admin/lender-guidelines/:id", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const guideline = await pricingEngine.getGuideline(parseInt(req.params.id));
+    if (!guideline) {
+      return res.status(404).json({ message: "Lender guideline not found" });
+    }
+    res.json(guideline);
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch lender guideline" });
+  }
+});
+
+router.post("/admin/lender-guidelines", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const { updatedBy, ...body } = req.body;
+    const result = insertLenderGuidelineSchema.safeParse(body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid lender guideline", details: result.error.issues });
+    }
+
+    const guideline = await pricingEngine.createGuideline(result.data, updatedBy ? Number(updatedBy) : undefined);
+    res.status(201).json(guideline);
+  } catch (error) {
+    console.error("Create lender guideline error:", error);
+    res.status(500).json({ message: "Failed to create lender guideline" });
+  }
+});
+
+router.put("/admin/lender-guidelines/:id", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const { updatedBy, ...body } = req.body;
+    const result = insertLenderGuidelineSchema.partial().safeParse(body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid lender guideline", details: result.error.issues });
+    }
+
+    const guideline = await pricingEngine.updateGuideline(
+      parseInt(req.params.id),
+      result.data,
+      updatedBy ? Number(updatedBy) : undefined
+    );
+    if (!guideline) {
+      return res.status(404).json({ message: "Lender guideline not found" });
+    }
+    res.json(guideline);
+  } catch (error) {
+    console.error("Update lender guideline error:", error);
+    res.status(500).json({ message: "Failed to update lender guideline" });
+  }
+});
+
+router.delete("/admin/lender-guidelines/:id", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const deleted = await pricingEngine.deleteGuideline(parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ message: "Lender guideline not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to delete lender guideline" });
+  }
+});
+
+export default router;
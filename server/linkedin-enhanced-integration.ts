@@ -2,7 +2,7 @@ import { linkedInIntegration } from './linkedin-integration.js';
 import { socialEnrichment } from './social-enrichment.js';
 import { db } from './db.js';
 import { contacts } from '../shared/schema.js';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 interface LinkedInProfile {
   id: string;
@@ -314,7 +314,7 @@ export class LinkedInEnhancedIntegration {
         // Check if contact already exists
         const existingContact = await db.select()
           .from(contacts)
-          .where(eq(contacts.linkedinUrl, profile.publicProfileUrl || ''))
+          .where(and(eq(contacts.organizationId, organizationId), eq(contacts.linkedinUrl, profile.publicProfileUrl || '')))
           .limit(1);
 
         if (existingContact.length === 0) {
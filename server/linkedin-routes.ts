@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { linkedInEnhanced } from './linkedin-enhanced-integration.js';
 import { z } from 'zod';
+import { requirePermission } from './rbac-service';
 
 // Simple authentication middleware
 const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
@@ -14,7 +15,7 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
 const router = Router();
 
 // LinkedIn OAuth login
-router.get('/api/linkedin/connect', isAuthenticated, async (req, res) => {
+router.get('/api/linkedin/connect', requirePermission('contacts.create'), isAuthenticated, async (req, res) => {
   try {
     const userId = (req as any).userId;
     const authUrl = await linkedInEnhanced.authenticateLinkedIn(userId);
@@ -44,7 +45,7 @@ router.get('/api/linkedin/callback', async (req, res) => {
 });
 
 // Import contacts from LinkedIn
-router.post('/api/linkedin/import-contacts', isAuthenticated, async (req, res) => {
+router.post('/api/linkedin/import-contacts', requirePermission('contacts.create'), isAuthenticated, async (req, res) => {
   try {
     const userId = (req as any).userId;
     const organizationId = (req as any).organizationId;
@@ -82,7 +83,7 @@ router.post('/api/linkedin/import-contacts', isAuthenticated, async (req, res) =
 });
 
 // Extract contacts with email/phone guessing
-router.post('/api/linkedin/extract-contacts', isAuthenticated, async (req, res) => {
+router.post('/api/linkedin/extract-contacts', requirePermission('contacts.create'), isAuthenticated, async (req, res) => {
   try {
     const userId = (req as any).userId;
     const organizationId = (req as any).organizationId;
@@ -127,7 +128,7 @@ router.post('/api/linkedin/extract-contacts', isAuthenticated, async (req, res)
 });
 
 // Search for contact email/phone
-router.post('/api/linkedin/enrich-contact', isAuthenticated, async (req, res) => {
+router.post('/api/linkedin/enrich-contact', requirePermission('contacts.edit'), isAuthenticated, async (req, res) => {
   try {
     const enrichSchema = z.object({
       firstName: z.string(),
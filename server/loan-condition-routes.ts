@@ -0,0 +1,140 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { insertLoanConditionSchema } from "@shared/schema";
+import { loanConditionService, LoanConditionError } from "./loan-condition-service";
+import { requirePermission } from "./rbac-service";
+
+const router = Router();
+
+const documentLinksSchema = z.object({
+  documentIds: z.array(z.coerce.number().int()).optional(),
+  customerDocumentIds: z.array(z.coerce.number().int()).optional(),
+});
+
+const reviewSchema = z.object({
+  reviewerId: z.coerce.number().int().positive(),
+  notes: z.string().optional(),
+});
+
+function handleConditionError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof LoanConditionError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+router.get("/loan-applications/:id/conditions", requirePermission('loans.view'), async (req, res) => {
+  try {
+    const loanApplicationId = parseInt(req.params.id);
+    const [conditions, summary] = await Promise.all([
+      loanConditionService.getConditions(loanApplicationId),
+      loanConditionService.getSummary(loanApplicationId),
+    ]);
+    res.json({ conditions, summary });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch conditions" });
+  }
+});
+
+router.post("/loan-applications/:id/conditions", requirePermission('underwriting.decide'), async (req, res) => {
+  try {
+    const { createdBy, ...body } = req.body;
+    const result = insertLoanConditionSchema.safeParse({ ...body, loanApplicationId: parseInt(req.params.id) });
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid condition", details: result.error.issues });
+    }
+
+    const condition = await loanConditionService.createCondition(result.data, createdBy ? Number(createdBy) : null);
+    res.status(201).json(condition);
+  } catch (error) {
+    handleConditionError(res, error, "Failed to create condition");
+  }
+});
+
+router.patch("/conditions/:id", requirePermission('underwriting.decide'), async (req, res) => {
+  try {
+    const result = insertLoanConditionSchema
+      .pick({ category: true, title: true, description: true, ownerRole: true, ownerId: true, borrowerVisible: true, dueDate: true })
+      .partial()
+      .safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid condition", details: result.error.issues });
+    }
+
+    res.json(await loanConditionService.updateCondition(parseInt(req.params.id), result.data));
+  } catch (error) {
+    handleConditionError(res, error, "Failed to update condition");
+  }
+});
+
+router.post("/conditions/:id/documents", requirePermission('documents.upload'), async (req, res) => {
+  try {
+    const result = documentLinksSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid document links", details: result.error.issues });
+    }
+
+    res.json(await loanConditionService.linkDocuments(parseInt(req.params.id), result.data));
+  } catch (error) {
+    handleConditionError(res, error, "Failed to link documents");
+  }
+});
+
+router.post("/conditions/:id/submit", requirePermission('loans.edit'), async (req, res) => {
+  try {
+    const result = documentLinksSchema.extend({
+      userId: z.coerce.number().int().optional(),
+      notes: z.string().optional(),
+    }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid submission", details: result.error.issues });
+    }
+
+    res.json(await loanConditionService.submit(parseInt(req.params.id), { ...result.data, actor: 'staff' }));
+  } catch (error) {
+    handleConditionError(res, error, "Failed to submit condition");
+  }
+});
+
+// Reviewer sign-off
+router.post("/conditions/:id/clear", requirePermission('underwriting.decide'), async (req, res) => {
+  try {
+    const result = reviewSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "A reviewer is required", details: result.error.issues });
+    }
+
+    res.json(await loanConditionService.clear(parseInt(req.params.id), result.data.reviewerId, result.data.notes));
+  } catch (error) {
+    handleConditionError(res, error, "Failed to clear condition");
+  }
+});
+
+router.post("/conditions/:id/reject", requirePermission('underwriting.decide'), async (req, res) => {
+  try {
+    const result = reviewSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "A reviewer is required", details: result.error.issues });
+    }
+
+    res.json(await loanConditionService.reject(parseInt(req.params.id), result.data.reviewerId, result.data.notes || ''));
+  } catch (error) {
+    handleConditionError(res, error, "Failed to return condition");
+  }
+});
+
+router.post("/conditions/:id/waive", requirePermission('underwriting.decide'), async (req, res) => {
+  try {
+    const result = reviewSchema.extend({ reason: z.string() }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "A reviewer and reason are required", details: result.error.issues });
+    }
+
+    res.json(await loanConditionService.waive(parseInt(req.params.id), result.data.reviewerId, result.data.reason));
+  } catch (error) {
+    handleConditionError(res, error, "Failed to waive condition");
+  }
+});
+
+export default router;
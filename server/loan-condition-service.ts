@@ -0,0 +1,291 @@
+// Loan Condition Service
+// Prior-to-doc, prior-to-funding and post-closing conditions with document links and reviewer sign-off
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { loanStatusMachine } from "./loan-status-machine";
+import { tenantContext } from "./tenant-context";
+import {
+  customerDocuments,
+  loanConditions,
+  type InsertLoanCondition,
+  type LoanCondition,
+} from "@shared/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+
+export type ConditionCategory = 'prior_to_doc' | 'prior_to_funding' | 'post_closing';
+export type ConditionStatus = 'open' | 'submitted' | 'cleared' | 'waived';
+export type ConditionActor = 'staff' | 'borrower' | 'system';
+
+export interface ConditionDocumentLinks {
+  documentIds?: number[];
+  customerDocumentIds?: number[];
+}
+
+export interface ConditionSummary {
+  total: number;
+  outstanding: Record<ConditionCategory, number>; // open or submitted
+  byStatus: Record<ConditionStatus, number>;
+}
+
+export class LoanConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoanConditionError';
+  }
+}
+
+export const CONDITION_CATEGORY_LABELS: Record<ConditionCategory, string> = {
+  prior_to_doc: 'Prior to Docs',
+  prior_to_funding: 'Prior to Funding',
+  post_closing: 'Post-Closing',
+};
+
+const OUTSTANDING_STATUSES: ConditionStatus[] = ['open', 'submitted'];
+
+// Fields staff may edit after a condition is created
+type ConditionUpdate = Partial<Pick<InsertLoanCondition,
+  'category' | 'title' | 'description' | 'ownerRole' | 'ownerId' | 'borrowerVisible' | 'dueDate'>>;
+
+export class LoanConditionService {
+  private static instance: LoanConditionService;
+
+  public static getInstance(): LoanConditionService {
+    if (!LoanConditionService.instance) {
+      LoanConditionService.instance = new LoanConditionService();
+    }
+    return LoanConditionService.instance;
+  }
+
+  constructor() {
+    // Closing docs cannot be drawn while PTD conditions are outstanding, and funding waits on PTF conditions
+    loanStatusMachine.registerGuard('clear_to_close', loan => this.checkOutstanding(loan.id, 'prior_to_doc'));
+    loanStatusMachine.registerGuard('funded', loan => this.checkOutstanding(loan.id, 'prior_to_funding'));
+  }
+
+  async getConditions(loanApplicationId: number, options: { borrowerVisibleOnly?: boolean } = {}): Promise<LoanCondition[]> {
+    const filters = [eq(loanConditions.loanApplicationId, loanApplicationId)];
+    if (options.borrowerVisibleOnly) {
+      filters.push(eq(loanConditions.borrowerVisible, true));
+    }
+    return db
+      .select()
+      .from(loanConditions)
+      .where(tenantContext.whereLoan(loanConditions.loanApplicationId, and(...filters)))
+      .orderBy(asc(loanConditions.createdAt));
+  }
+
+  async getCondition(id: number): Promise<LoanCondition | undefined> {
+    const [condition] = await db.select().from(loanConditions)
+      .where(tenantContext.whereLoan(loanConditions.loanApplicationId, eq(loanConditions.id, id)));
+    return condition;
+  }
+
+  async getSummary(loanApplicationId: number): Promise<ConditionSummary> {
+    const conditions = await this.getConditions(loanApplicationId);
+    const summary: ConditionSummary = {
+      total: conditions.length,
+      outstanding: { prior_to_doc: 0, prior_to_funding: 0, post_closing: 0 },
+      byStatus: { open: 0, submitted: 0, cleared: 0, waived: 0 },
+    };
+    for (const condition of conditions) {
+      summary.byStatus[condition.status as ConditionStatus]++;
+      if (OUTSTANDING_STATUSES.includes(condition.status as ConditionStatus)) {
+        summary.outstanding[condition.category as ConditionCategory]++;
+      }
+    }
+    return summary;
+  }
+
+  async createCondition(data: InsertLoanCondition, createdBy?: number | null): Promise<LoanCondition> {
+    const loan = await storage.getLoanApplication(data.loanApplicationId);
+    if (!loan) {
+      throw new LoanConditionError('Loan application not found');
+    }
+    await this.validateDocuments(data.loanApplicationId, data);
+
+    const [condition] = await db.insert(loanConditions).values({
+      ...data,
+      createdBy: createdBy ?? null,
+      history: [this.historyEntry('open', 'staff', createdBy, 'Condition added')],
+    }).returning();
+    return condition;
+  }
+
+  // Turns underwriting condition strings into PTD conditions, skipping titles the loan already carries
+  async createFromUnderwriting(loanApplicationId: number, decisionId: number, titles: string[]): Promise<LoanCondition[]> {
+    const existing = new Set((await this.getConditions(loanApplicationId))
+      .filter(condition => condition.status !== 'waived')
+      .map(condition => condition.title.toLowerCase()));
+    const toCreate = titles.filter(title => !existing.has(title.toLowerCase()));
+    if (toCreate.length === 0) return [];
+
+    return db.insert(loanConditions).values(toCreate.map(title => ({
+      loanApplicationId,
+      category: 'prior_to_doc',
+      title,
+      ownerRole: 'borrower',
+      source: 'underwriting',
+      underwritingDecisionId: decisionId,
+      history: [this.historyEntry('open', 'system', null, 'Added from underwriting decision')],
+    }))).returning();
+  }
+
+  async updateCondition(id: number, updates: ConditionUpdate): Promise<LoanCondition> {
+    const condition = await this.requireCondition(id);
+    if (!OUTSTANDING_STATUSES.includes(condition.status as ConditionStatus)) {
+      throw new LoanConditionError(`A ${condition.status} condition cannot be edited`);
+    }
+    const [updated] = await db
+      .update(loanConditions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(loanConditions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async linkDocuments(id: number, links: ConditionDocumentLinks): Promise<LoanCondition> {
+    const condition = await this.requireCondition(id);
+    await this.validateDocuments(condition.loanApplicationId, links);
+
+    const [updated] = await db
+      .update(loanConditions)
+      .set({
+        documentIds: Array.from(new Set([...condition.documentIds, ...(links.documentIds || [])])),
+        customerDocumentIds: Array.from(new Set([...condition.customerDocumentIds, ...(links.customerDocumentIds || [])])),
+        updatedAt: new Date(),
+      })
+      .where(eq(loanConditions.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Borrower or staff hands a condition to the reviewer, optionally attaching supporting documents
+  async submit(
+    id: number,
+    options: ConditionDocumentLinks & { actor: ConditionActor; userId?: number | null; notes?: string }
+  ): Promise<LoanCondition> {
+    let condition = await this.requireCondition(id);
+    if (condition.status !== 'open') {
+      throw new LoanConditionError(`Only open conditions can be submitted (condition is ${condition.status})`);
+    }
+    if (options.documentIds?.length || options.customerDocumentIds?.length) {
+      condition = await this.linkDocuments(id, options);
+    }
+    if (condition.ownerRole === 'borrower' && condition.documentIds.length === 0 && condition.customerDocumentIds.length === 0) {
+      throw new LoanConditionError('Attach at least one document before submitting a borrower condition');
+    }
+
+    return this.applyStatus(condition, 'submitted', options.actor, options.userId, options.notes, { submittedAt: new Date() });
+  }
+
+  async clear(id: number, reviewerId: number, notes?: string): Promise<LoanCondition> {
+    const condition = await this.requireCondition(id);
+    if (condition.status !== 'submitted') {
+      throw new LoanConditionError('Only submitted conditions can be cleared');
+    }
+    const submittedBy = [...condition.history].reverse().find(entry => entry.status === 'submitted')?.userId;
+    if (submittedBy && submittedBy === reviewerId) {
+      throw new LoanConditionError('A condition must be cleared by someone other than the person who submitted it');
+    }
+
+    return this.applyStatus(condition, 'cleared', 'staff', reviewerId, notes, this.signOff(reviewerId, notes));
+  }
+
+  // Reviewer sends a submitted condition back to its owner
+  async reject(id: number, reviewerId: number, notes: string): Promise<LoanCondition> {
+    const condition = await this.requireCondition(id);
+    if (condition.status !== 'submitted') {
+      throw new LoanConditionError('Only submitted conditions can be returned');
+    }
+    if (!notes?.trim()) {
+      throw new LoanConditionError('Explain what is still needed when returning a condition');
+    }
+
+    return this.applyStatus(condition, 'open', 'staff', reviewerId, notes, { reviewNotes: notes, submittedAt: null });
+  }
+
+  async waive(id: number, reviewerId: number, reason: string): Promise<LoanCondition> {
+    const condition = await this.requireCondition(id);
+    if (!OUTSTANDING_STATUSES.includes(condition.status as ConditionStatus)) {
+      throw new LoanConditionError(`A ${condition.status} condition cannot be waived`);
+    }
+    if (!reason?.trim()) {
+      throw new LoanConditionError('A reason is required to waive a condition');
+    }
+
+    return this.applyStatus(condition, 'waived', 'staff', reviewerId, reason, this.signOff(reviewerId, reason));
+  }
+
+  private async checkOutstanding(loanApplicationId: number, category: ConditionCategory) {
+    const outstanding = (await this.getConditions(loanApplicationId))
+      .filter(condition => condition.category === category && OUTSTANDING_STATUSES.includes(condition.status as ConditionStatus));
+    return outstanding.length === 0
+      ? { passed: true }
+      : {
+        passed: false,
+        message: `${outstanding.length} ${CONDITION_CATEGORY_LABELS[category]} condition(s) outstanding: ${outstanding.map(condition => condition.title).join(', ')}`
+      };
+  }
+
+  private async requireCondition(id: number): Promise<LoanCondition> {
+    const condition = await this.getCondition(id);
+    if (!condition) {
+      throw new LoanConditionError('Condition not found');
+    }
+    return condition;
+  }
+
+  // Linked documents must belong to the condition's loan
+  private async validateDocuments(loanApplicationId: number, links: ConditionDocumentLinks): Promise<void> {
+    for (const documentId of links.documentIds || []) {
+      const document = await storage.getDocument(documentId);
+      if (!document || document.loanApplicationId !== loanApplicationId) {
+        throw new LoanConditionError(`Document ${documentId} does not belong to this loan`);
+      }
+    }
+
+    const customerDocumentIds = links.customerDocumentIds || [];
+    if (customerDocumentIds.length > 0) {
+      const found = await db
+        .select({ id: customerDocuments.id })
+        .from(customerDocuments)
+        .where(inArray(customerDocuments.id, customerDocumentIds));
+      const missing = customerDocumentIds.filter(documentId => !found.some(document => document.id === documentId));
+      if (missing.length > 0) {
+        throw new LoanConditionError(`Customer document(s) not found: ${missing.join(', ')}`);
+      }
+    }
+  }
+
+  private signOff(reviewerId: number, notes?: string) {
+    return { reviewedBy: reviewerId, reviewedAt: new Date(), reviewNotes: notes || null };
+  }
+
+  private historyEntry(status: ConditionStatus, actor: ConditionActor, userId?: number | null, notes?: string | null) {
+    return { status, actor, userId: userId ?? null, notes: notes || null, at: new Date().toISOString() };
+  }
+
+  private async applyStatus(
+    condition: LoanCondition,
+    status: ConditionStatus,
+    actor: ConditionActor,
+    userId?: number | null,
+    notes?: string | null,
+    changes: Partial<typeof loanConditions.$inferInsert> = {}
+  ): Promise<LoanCondition> {
+    const [updated] = await db
+      .update(loanConditions)
+      .set({
+        ...changes,
+        status,
+        history: [...condition.history, this.historyEntry(status, actor, userId, notes)],
+        updatedAt: new Date(),
+      })
+      .where(eq(loanConditions.id, condition.id))
+      .returning();
+    return updated;
+  }
+}
+
+export const loanConditionService = LoanConditionService.getInstance();
@@ -0,0 +1,218 @@
+// Loan Status State Machine
+// Validates status transitions against the shared definition, runs guards and records history
+
+import { storage } from "./storage";
+import {
+  type InsertLoanApplication,
+  type LoanApplication,
+  type LoanApplicationWithDetails,
+  type LoanStatusHistoryEntry,
+} from "@shared/schema";
+import {
+  LOAN_STATUSES,
+  getAllowedTransitions,
+  getLoanStatusDefinition,
+  normalizeLoanStatus,
+  type LoanStatus,
+} from "@shared/loan-status";
+
+export interface StatusTransitionRequest {
+  toStatus: string;
+  changedBy?: number | null;
+  reason?: string;
+  source?: 'user' | 'workflow' | 'system';
+  // Other fields edited together with the status; saved in the same write
+  updates?: Partial<InsertLoanApplication>;
+}
+
+export interface StatusGuardResult {
+  passed: boolean;
+  message?: string;
+}
+
+export type StatusGuard = (loan: LoanApplicationWithDetails) => Promise<StatusGuardResult>;
+
+export interface TransitionCheck {
+  toStatus: LoanStatus;
+  label: string;
+  allowed: boolean;
+  blockers: string[];
+}
+
+export interface StatusChangeEvent {
+  loanApplicationId: number;
+  fromStatus: string;
+  toStatus: LoanStatus;
+  changedBy?: number | null;
+  reason?: string;
+  source: string;
+}
+
+export class LoanStatusTransitionError extends Error {
+  constructor(message: string, public readonly blockers: string[] = []) {
+    super(message);
+    this.name = 'LoanStatusTransitionError';
+  }
+}
+
+export class LoanStatusMachine {
+  private static instance: LoanStatusMachine;
+  private guards: Map<LoanStatus, StatusGuard[]> = new Map();
+  private listeners: Array<(event: StatusChangeEvent) => void> = [];
+
+  public static getInstance(): LoanStatusMachine {
+    if (!LoanStatusMachine.instance) {
+      LoanStatusMachine.instance = new LoanStatusMachine();
+    }
+    return LoanStatusMachine.instance;
+  }
+
+  constructor() {
+    this.registerDefaultGuards();
+  }
+
+  getDefinition() {
+    return LOAN_STATUSES.map(definition => ({
+      ...definition,
+      transitions: getAllowedTransitions(definition.key)
+    }));
+  }
+
+  // Guards are evaluated when a loan enters the given status
+  registerGuard(toStatus: LoanStatus, guard: StatusGuard): void {
+    const existing = this.guards.get(toStatus) || [];
+    existing.push(guard);
+    this.guards.set(toStatus, existing);
+  }
+
+  onTransition(listener: (event: StatusChangeEvent) => void): void {
+    this.listeners.push(listener);
+  }
+
+  async checkTransition(
+    loan: LoanApplicationWithDetails,
+    toStatus: string,
+    options: { reason?: string; enforceReason?: boolean } = {}
+  ): Promise<TransitionCheck> {
+    const target = normalizeLoanStatus(toStatus);
+    if (!target) {
+      throw new LoanStatusTransitionError(`Unknown loan status: ${toStatus}`);
+    }
+
+    const definition = getLoanStatusDefinition(target)!;
+    const blockers: string[] = [];
+
+    if (!getAllowedTransitions(loan.status).includes(target)) {
+      const current = getLoanStatusDefinition(loan.status)?.label || loan.status;
+      blockers.push(`Cannot move from ${current} to ${definition.label}`);
+    }
+
+    if (definition.requiresReason && options.enforceReason !== false && !options.reason?.trim()) {
+      blockers.push(`A reason is required to move a loan to ${definition.label}`);
+    }
+
+    for (const guard of this.guards.get(target) || []) {
+      const result = await guard(loan);
+      if (!result.passed && result.message) {
+        blockers.push(result.message);
+      }
+    }
+
+    return { toStatus: target, label: definition.label, allowed: blockers.length === 0, blockers };
+  }
+
+  async getAvailableTransitions(loanApplicationId: number): Promise<TransitionCheck[]> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new LoanStatusTransitionError('Loan application not found');
+    }
+
+    const checks: TransitionCheck[] = [];
+    for (const status of getAllowedTransitions(loan.status)) {
+      // Reasons are supplied when the transition is submitted, so only report guard blockers here
+      checks.push(await this.checkTransition(loan, status, { enforceReason: false }));
+    }
+    return checks;
+  }
+
+  async transition(loanApplicationId: number, request: StatusTransitionRequest): Promise<LoanApplication> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new LoanStatusTransitionError('Loan application not found');
+    }
+
+    const check = await this.checkTransition(loan, request.toStatus, { reason: request.reason });
+    if (!check.allowed) {
+      throw new LoanStatusTransitionError(check.blockers[0], check.blockers);
+    }
+
+    const source = request.source || 'user';
+    const updated = await storage.changeLoanApplicationStatus(loanApplicationId, {
+      fromStatus: loan.status,
+      toStatus: check.toStatus,
+      changedBy: request.changedBy ?? null,
+      reason: request.reason || null,
+      source,
+      updates: request.updates
+    });
+    if (!updated) {
+      throw new LoanStatusTransitionError('Loan application not found');
+    }
+
+    const event: StatusChangeEvent = {
+      loanApplicationId,
+      fromStatus: loan.status,
+      toStatus: check.toStatus,
+      changedBy: request.changedBy,
+      reason: request.reason,
+      source
+    };
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Status change listener error:', error);
+      }
+    }
+
+    return updated;
+  }
+
+  async getHistory(loanApplicationId: number): Promise<LoanStatusHistoryEntry[]> {
+    return storage.getLoanStatusHistory(loanApplicationId);
+  }
+
+  private registerDefaultGuards(): void {
+    // Underwriting cannot start until every required document category has at least one upload
+    this.registerGuard('underwriting', async (loan) => {
+      const requirements = await storage.getDocumentRequirements(loan.loanType);
+      const uploadedCategories = new Set(loan.documents.map(doc => doc.category));
+      const missing = requirements
+        .filter(requirement => requirement.isRequired && !uploadedCategories.has(requirement.category))
+        .map(requirement => requirement.displayName || requirement.documentName);
+
+      return missing.length === 0
+        ? { passed: true }
+        : { passed: false, message: `Missing required documents: ${missing.join(', ')}` };
+    });
+
+    this.registerGuard('conditionally_approved', async (loan) => {
+      if (!loan.ltv || parseFloat(loan.ltv) <= 0) {
+        return { passed: false, message: 'LTV must be calculated before approval' };
+      }
+      if (loan.loanType === 'dscr' && (!loan.dscr || parseFloat(loan.dscr) <= 0)) {
+        return { passed: false, message: 'DSCR must be calculated before approving a DSCR loan' };
+      }
+      return { passed: true };
+    });
+
+    this.registerGuard('clear_to_close', async (loan) => {
+      if (!loan.interestRate || !loan.termMonths) {
+        return { passed: false, message: 'Interest rate and term must be set before clear to close' };
+      }
+      return { passed: true };
+    });
+  }
+}
+
+export const loanStatusMachine = LoanStatusMachine.getInstance();
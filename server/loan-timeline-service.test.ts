@@ -0,0 +1,58 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; every source the timeline reads from is replaced below
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { loanTimelineService } = await import("./loan-timeline-service");
+const { storage } = await import("./storage");
+const { loanStatusMachine } = await import("./loan-status-machine");
+const { mailboxSync } = await import("./mailbox-sync-service");
+const { smsThreadService } = await import("./sms-thread-service");
+
+type LoanApplication = import("@shared/schema").LoanApplication;
+type LoanStatusHistoryEntry = import("@shared/schema").LoanStatusHistoryEntry;
+type Document = import("@shared/schema").Document;
+type EmailThread = import("./mailbox-sync-service").EmailThread;
+type SmsInboxThread = import("./sms-thread-service").SmsInboxThread;
+
+function loanSources(loan: Partial<LoanApplication> | undefined) {
+  mock.method(storage, 'getLoanApplication', async () => loan as LoanApplication | undefined);
+  mock.method(loanStatusMachine, 'getHistory', async () => [
+    { id: 1, toStatus: 'submitted', createdAt: new Date(2026, 9, 1) },
+    { id: 2, toStatus: 'processing', createdAt: new Date(2026, 9, 5) },
+  ] as LoanStatusHistoryEntry[]);
+  mock.method(mailboxSync, 'getLoanThreads', async () => [
+    { threadKey: '<a@x>', subject: 'LA-17 appraisal', lastMessageAt: new Date(2026, 9, 4), messages: [] },
+  ] as EmailThread[]);
+  mock.method(smsThreadService, 'listThreads', async () => [
+    { id: 7, lastMessageAt: new Date(2026, 9, 6) },
+    { id: 8, lastMessageAt: null },
+  ] as SmsInboxThread[]);
+  // Stored rows can come back with ISO strings for dates
+  mock.method(storage, 'getDocumentsByLoanApplication', async () => [
+    { id: 3, originalName: 'statement.pdf', uploadedAt: '2026-10-02T15:00:00.000Z' },
+  ] as unknown as Document[]);
+}
+
+afterEach(() => mock.restoreAll());
+
+describe("loan timeline", () => {
+  test("merges status changes, conversations and documents newest first", async () => {
+    loanSources({ id: 17 });
+    const timeline = await loanTimelineService.getTimeline(17);
+    assert.deepEqual(timeline!.map(event => event.type), ['sms_thread', 'status', 'email_thread', 'document', 'status']);
+    assert.deepEqual(timeline![2].occurredAt, new Date(2026, 9, 4));
+  });
+
+  test("leaves out SMS threads that have no messages yet", async () => {
+    loanSources({ id: 17 });
+    const timeline = await loanTimelineService.getTimeline(17);
+    const smsThreads = timeline!.filter(event => event.type === 'sms_thread');
+    assert.deepEqual(smsThreads.map(event => event.type === 'sms_thread' && event.thread.id), [7]);
+  });
+
+  test("is undefined for a loan the caller cannot see", async () => {
+    loanSources(undefined);
+    assert.equal(await loanTimelineService.getTimeline(17), undefined);
+  });
+});
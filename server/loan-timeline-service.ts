@@ -0,0 +1,50 @@
+// Loan Timeline Service
+// One chronological view of a loan: status changes, email and SMS conversations, and documents received
+
+import { storage } from "./storage";
+import { loanStatusMachine } from "./loan-status-machine";
+import { mailboxSync, type EmailThread } from "./mailbox-sync-service";
+import { smsThreadService, type SmsInboxThread } from "./sms-thread-service";
+import type { Document, LoanStatusHistoryEntry } from "@shared/schema";
+
+export type LoanTimelineEvent =
+  | { type: 'status'; occurredAt: Date; status: LoanStatusHistoryEntry }
+  | { type: 'email_thread'; occurredAt: Date; thread: EmailThread }
+  | { type: 'sms_thread'; occurredAt: Date; thread: SmsInboxThread }
+  | { type: 'document'; occurredAt: Date; document: Document };
+
+export class LoanTimelineService {
+  private static instance: LoanTimelineService;
+
+  public static getInstance(): LoanTimelineService {
+    if (!LoanTimelineService.instance) {
+      LoanTimelineService.instance = new LoanTimelineService();
+    }
+    return LoanTimelineService.instance;
+  }
+
+  // Newest first; conversations are placed at their latest message. Undefined when the loan is not visible.
+  async getTimeline(loanApplicationId: number): Promise<LoanTimelineEvent[] | undefined> {
+    const loan = await storage.getLoanApplication(loanApplicationId);
+    if (!loan) return undefined;
+
+    const [history, emailThreads, smsThreads, documents] = await Promise.all([
+      loanStatusMachine.getHistory(loanApplicationId),
+      mailboxSync.getLoanThreads(loanApplicationId),
+      smsThreadService.listThreads({ loanApplicationId }),
+      storage.getDocumentsByLoanApplication(loanApplicationId),
+    ]);
+
+    const events: LoanTimelineEvent[] = [
+      ...history.map(status => ({ type: 'status' as const, occurredAt: status.createdAt, status })),
+      ...emailThreads.map(thread => ({ type: 'email_thread' as const, occurredAt: thread.lastMessageAt, thread })),
+      ...smsThreads
+        .filter(thread => thread.lastMessageAt)
+        .map(thread => ({ type: 'sms_thread' as const, occurredAt: thread.lastMessageAt!, thread })),
+      ...documents.map(document => ({ type: 'document' as const, occurredAt: document.uploadedAt, document })),
+    ];
+    return events.sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime());
+  }
+}
+
+export const loanTimelineService = LoanTimelineService.getInstance();
@@ -0,0 +1,234 @@
+// Mailbox Adapters
+// Sources the mailbox sync reads raw messages from: IMAP, Gmail and Exchange. Each fetch returns at most one batch and
+// the cursor to resume from. The Gmail and Exchange integrations are imported on first use, as for notification channels.
+
+import net from "net";
+import tls from "tls";
+import type { Mailbox } from "@shared/schema";
+
+export interface FetchedMessage {
+  id: string; // provider message id, unique within the mailbox
+  raw: Buffer; // full RFC 5322 message
+}
+
+export interface MailboxFetchResult {
+  messages: FetchedMessage[];
+  cursor: string | null;
+}
+
+export interface MailboxAdapter {
+  provider: string;
+  isConfigured(mailbox: Mailbox): boolean;
+  // mailbox.password is already decrypted
+  fetchSince(mailbox: Mailbox, cursor: string | null, limit: number): Promise<MailboxFetchResult>;
+}
+
+const IMAP_TIMEOUT_MS = 60 * 1000;
+
+interface ImapResponse {
+  line: string; // the response text with each literal replaced by {n}
+  literals: Buffer[];
+}
+
+// Minimal IMAP4rev1 client: tagged commands, untagged responses with literals, STARTTLS and LOGIN
+class ImapSession {
+  private buffer = Buffer.alloc(0);
+  private tag = 0;
+
+  constructor(private socket: net.Socket) {
+    socket.setTimeout(IMAP_TIMEOUT_MS, () => socket.destroy(new Error('IMAP server timed out')));
+  }
+
+  static async open(host: string, port: number, secure: boolean): Promise<ImapSession> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connected = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(connected))
+        : net.connect({ host, port }, () => resolve(connected));
+      connected.once('error', reject);
+    });
+    const session = new ImapSession(socket);
+    const [greeting] = await session.read(null);
+    if (!/^\* (OK|PREAUTH)/i.test(greeting.line)) {
+      socket.destroy();
+      throw new Error(`IMAP server refused the connection: ${greeting.line}`);
+    }
+    return session;
+  }
+
+  // Untagged responses of a command; a NO or BAD completion rejects with the server's text
+  async command(command: string): Promise<ImapResponse[]> {
+    const tag = `A${++this.tag}`;
+    this.socket.write(`${tag} ${command}\r\n`);
+    return this.read(tag);
+  }
+
+  async startTls(host: string): Promise<void> {
+    await this.command('STARTTLS');
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    });
+    this.socket.setTimeout(IMAP_TIMEOUT_MS, () => this.socket.destroy(new Error('IMAP server timed out')));
+    this.buffer = Buffer.alloc(0);
+  }
+
+  close(): void {
+    const tag = `A${++this.tag}`;
+    this.socket.end(`${tag} LOGOUT\r\n`);
+  }
+
+  // Reads responses until the tagged completion (or, with no tag, the first response)
+  private read(tag: string | null): Promise<ImapResponse[]> {
+    return new Promise((resolve, reject) => {
+      const responses: ImapResponse[] = [];
+      const cleanup = () => {
+        this.socket.off('data', onData);
+        this.socket.off('error', onError);
+        this.socket.off('close', onClose);
+      };
+      const drain = () => {
+        let response: ImapResponse | null;
+        while ((response = this.nextResponse())) {
+          if (tag === null) {
+            cleanup();
+            return resolve([response]);
+          }
+          if (response.line.startsWith(`${tag} `)) {
+            cleanup();
+            const status = response.line.slice(tag.length + 1);
+            return /^OK/i.test(status) ? resolve(responses) : reject(new Error(`IMAP ${status}`));
+          }
+          responses.push(response);
+        }
+      };
+      const onData = (chunk: Buffer) => {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        drain();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('IMAP connection closed'));
+      };
+
+      this.socket.on('data', onData);
+      this.socket.once('error', onError);
+      this.socket.once('close', onClose);
+      drain();
+    });
+  }
+
+  // One complete response from the buffer, or null while it is still arriving
+  private nextResponse(): ImapResponse | null {
+    let offset = 0;
+    let line = '';
+    const literals: Buffer[] = [];
+
+    while (true) {
+      const end = this.buffer.indexOf('\r\n', offset);
+      if (end === -1) return null;
+      const text = this.buffer.toString('latin1', offset, end);
+      const literal = text.match(/\{(\d+)\+?\}$/);
+      if (!literal) {
+        line += text;
+        break;
+      }
+      const size = parseInt(literal[1]);
+      if (this.buffer.length < end + 2 + size) return null;
+      literals.push(this.buffer.subarray(end + 2, end + 2 + size));
+      line += text;
+      offset = end + 2 + size;
+    }
+
+    this.buffer = this.buffer.subarray(this.buffer.indexOf('\r\n', offset) + 2);
+    return { line, literals };
+  }
+}
+
+function quoteImap(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Cursor "uidvalidity:uid": the last UID ingested under that UIDVALIDITY. A changed UIDVALIDITY means the server
+// renumbered the folder, so the sync starts over and relies on de-duplication.
+export class ImapMailboxAdapter implements MailboxAdapter {
+  provider = 'imap';
+
+  isConfigured(mailbox: Mailbox): boolean {
+    return !!mailbox.settings.host && !!mailbox.password;
+  }
+
+  async fetchSince(mailbox: Mailbox, cursor: string | null, limit: number): Promise<MailboxFetchResult> {
+    const { host, folder = 'INBOX' } = mailbox.settings;
+    const port = mailbox.settings.port || 993;
+    const secure = mailbox.settings.secure ?? port === 993;
+
+    const session = await ImapSession.open(host!, port, secure);
+    try {
+      if (!secure) {
+        const capabilities = await session.command('CAPABILITY');
+        if (capabilities.some(response => /\bSTARTTLS\b/i.test(response.line))) {
+          await session.startTls(host!);
+        }
+      }
+      await session.command(`LOGIN ${quoteImap(mailbox.settings.username || mailbox.address)} ${quoteImap(mailbox.password!)}`);
+
+      const selected = await session.command(`EXAMINE ${quoteImap(folder)}`);
+      const uidValidity = selected.map(response => response.line.match(/\[UIDVALIDITY (\d+)\]/i)?.[1]).find(Boolean) || '0';
+      const [cursorValidity, cursorUid] = (cursor || '').split(':');
+      const lastUid = cursorValidity === uidValidity ? parseInt(cursorUid) || 0 : 0;
+
+      // "n:*" always matches the newest message, even when its UID is below n
+      const search = await session.command(`UID SEARCH UID ${lastUid + 1}:*`);
+      const uids = search
+        .filter(response => /^\* SEARCH/i.test(response.line))
+        .flatMap(response => response.line.replace(/^\* SEARCH/i, '').trim().split(/\s+/))
+        .map(uid => parseInt(uid))
+        .filter(uid => uid > lastUid)
+        .sort((a, b) => a - b)
+        .slice(0, limit);
+
+      const messages: FetchedMessage[] = [];
+      for (const uid of uids) {
+        const fetched = await session.command(`UID FETCH ${uid} BODY.PEEK[]`);
+        const response = fetched.find(item => /^\* \d+ FETCH/i.test(item.line) && item.literals.length > 0);
+        if (response) messages.push({ id: String(uid), raw: response.literals[0] });
+      }
+
+      const newestUid = uids.length > 0 ? uids[uids.length - 1] : lastUid;
+      return { messages, cursor: `${uidValidity}:${newestUid}` };
+    } finally {
+      session.close();
+    }
+  }
+}
+
+export class GmailMailboxAdapter implements MailboxAdapter {
+  provider = 'gmail';
+
+  isConfigured(): boolean {
+    return !!process.env.GMAIL_CLIENT_ID && !!process.env.GMAIL_REFRESH_TOKEN;
+  }
+
+  async fetchSince(mailbox: Mailbox, cursor: string | null, limit: number): Promise<MailboxFetchResult> {
+    const { emailIntegration } = await import('./email-integration');
+    return emailIntegration.getRawMessagesSince('gmail', cursor, limit);
+  }
+}
+
+// Reads the mailbox at mailbox.address through Microsoft Graph with the application's credentials
+export class ExchangeMailboxAdapter implements MailboxAdapter {
+  provider = 'exchange';
+
+  isConfigured(): boolean {
+    return !!process.env.EXCHANGE_CLIENT_ID && !!process.env.EXCHANGE_CLIENT_SECRET && !!process.env.EXCHANGE_TENANT_ID;
+  }
+
+  async fetchSince(mailbox: Mailbox, cursor: string | null, limit: number): Promise<MailboxFetchResult> {
+    const { emailIntegration } = await import('./email-integration');
+    return emailIntegration.getRawMessagesSince('exchange', cursor, limit, mailbox.address);
+  }
+}
@@ -0,0 +1,66 @@
+import { Router, type Response } from "express";
+import { insertMailboxSchema } from "@shared/schema";
+import { mailboxSync, MailboxSyncError } from "./mailbox-sync-service";
+import { requirePermission } from "./rbac-service";
+import { TenantError } from "./tenant-context";
+
+const router = Router();
+
+function handleMailboxError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof MailboxSyncError || error instanceof TenantError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+router.get("/mailboxes", requirePermission('settings.view'), async (req, res) => {
+  try {
+    res.json(await mailboxSync.listMailboxes());
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch mailboxes" });
+  }
+});
+
+router.post("/mailboxes", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    const result = insertMailboxSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid mailbox", details: result.error.issues });
+    }
+    res.status(201).json(await mailboxSync.createMailbox(result.data));
+  } catch (error) {
+    handleMailboxError(res, error, "Failed to connect mailbox");
+  }
+});
+
+router.put("/mailboxes/:id", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    const result = insertMailboxSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid mailbox", details: result.error.issues });
+    }
+    res.json(await mailboxSync.updateMailbox(parseInt(req.params.id), result.data));
+  } catch (error) {
+    handleMailboxError(res, error, "Failed to update mailbox");
+  }
+});
+
+// Pulls the next batch now instead of waiting for the worker
+router.post("/mailboxes/:id/sync", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    res.json(await mailboxSync.syncMailbox(parseInt(req.params.id)));
+  } catch (error) {
+    handleMailboxError(res, error, "Failed to sync mailbox");
+  }
+});
+
+router.get("/loan-applications/:id/emails", requirePermission('loans.view'), async (req, res) => {
+  try {
+    res.json(await mailboxSync.getLoanThreads(parseInt(req.params.id)));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch loan emails" });
+  }
+});
+
+export default router;
@@ -0,0 +1,45 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; subject tokens and thread grouping never send a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { mailboxSync } = await import("./mailbox-sync-service");
+
+type EmailMessage = import("@shared/schema").EmailMessage;
+
+const email = (id: number, threadKey: string, sentAt: Date, subject = 'LA-1042 appraisal') =>
+  ({ id, threadKey, subject, sentAt }) as EmailMessage;
+
+describe("subject tokens", () => {
+  test("finds every application number quoted in a subject, whatever its case", () => {
+    assert.deepEqual(mailboxSync.getLoanNumbers('Re: LA-1042 appraisal (was la-998)'), [1042, 998]);
+    assert.deepEqual(mailboxSync.getLoanNumbers('Fwd: LA-1042'), [1042]);
+  });
+
+  test("ignores numbers that are not whole application tokens", () => {
+    assert.deepEqual(mailboxSync.getLoanNumbers('VILLA-12 and LA-12B and LA 12'), []);
+    // The pattern is global; a second call must not resume where the first left off
+    assert.deepEqual(mailboxSync.getLoanNumbers('LA-7'), [7]);
+  });
+});
+
+describe("loan email threads", () => {
+  test("keeps each conversation's messages in order and sorts conversations by their latest message", () => {
+    const threads = mailboxSync.groupThreads([
+      email(1, '<a@x>', new Date(2026, 9, 1)),
+      email(2, '<b@x>', new Date(2026, 9, 2), 'Title commitment'),
+      email(3, '<a@x>', new Date(2026, 9, 3), 'Re: LA-1042 appraisal'),
+    ]);
+    assert.deepEqual(threads.map(thread => [thread.threadKey, thread.messages.map(message => message.id)]), [
+      ['<a@x>', [1, 3]],
+      ['<b@x>', [2]],
+    ]);
+    // The conversation keeps the subject it started with
+    assert.equal(threads[0].subject, 'LA-1042 appraisal');
+    assert.deepEqual(threads[0].lastMessageAt, new Date(2026, 9, 3));
+  });
+
+  test("returns no threads for a loan without mail", () => {
+    assert.deepEqual(mailboxSync.groupThreads([]), []);
+  });
+});
@@ -0,0 +1,405 @@
+// Mailbox Sync Service
+// Ingests mail from connected mailboxes, matches each message to its contact, borrower and loan, and files attachments
+
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { db } from "./db";
+import { storage } from "./storage";
+import { tenantContext } from "./tenant-context";
+import { fieldEncryption } from "./field-encryption";
+import { workflowEngine } from "./workflow-engine";
+import { parseMimeMessage, type ParsedEmail } from "./mime-parser";
+import {
+  ExchangeMailboxAdapter,
+  GmailMailboxAdapter,
+  ImapMailboxAdapter,
+  type FetchedMessage,
+  type MailboxAdapter,
+} from "./mailbox-adapters";
+import {
+  borrowers,
+  contacts,
+  emailMessages,
+  loanApplications,
+  mailboxes,
+  type EmailAttachmentRef,
+  type EmailMessage,
+  type InsertMailbox,
+  type Mailbox,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+
+export class MailboxSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailboxSyncError';
+  }
+}
+
+export interface MailboxSyncResult {
+  mailboxId: number;
+  fetched: number;
+  ingested: number; // new messages stored; the rest were already synced
+  matched: number; // stored messages linked to a loan
+}
+
+export interface EmailThread {
+  threadKey: string;
+  subject: string;
+  lastMessageAt: Date;
+  messages: EmailMessage[];
+}
+
+// Links found for a message and the rule that found the loan
+interface EmailMatch {
+  contactId: number | null;
+  borrowerId: number | null;
+  loanApplicationId: number | null;
+  matchedBy: 'thread' | 'subject' | 'address' | null;
+}
+
+const TICK_INTERVAL_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+const UPLOAD_DIR = 'uploads';
+const ATTACHMENT_CATEGORY = 'email_attachment';
+const LOAN_TOKEN_PATTERN = /\bLA-(\d+)\b/gi; // application numbers as quoted in subjects, e.g. "Re: LA-1042 appraisal"
+
+// Mailbox as returned to clients: the IMAP password never leaves the server
+export type MailboxView = Omit<Mailbox, 'password'> & { hasPassword: boolean };
+
+export class MailboxSyncService {
+  private static instance: MailboxSyncService;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+  private adapters: Map<string, MailboxAdapter> = new Map();
+
+  public static getInstance(): MailboxSyncService {
+    if (!MailboxSyncService.instance) {
+      MailboxSyncService.instance = new MailboxSyncService();
+    }
+    return MailboxSyncService.instance;
+  }
+
+  constructor() {
+    [new ImapMailboxAdapter(), new GmailMailboxAdapter(), new ExchangeMailboxAdapter()]
+      .forEach(adapter => this.adapters.set(adapter.provider, adapter));
+  }
+
+  // Starts the worker that pulls new mail from every active mailbox every few minutes
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      tenantContext.runAsSystem(() => this.syncAll()).catch(error => console.error('Mailbox sync error:', error));
+    }, TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Mailboxes
+
+  async listMailboxes(): Promise<MailboxView[]> {
+    const rows = await db.select().from(mailboxes)
+      .where(tenantContext.where(mailboxes.organizationId))
+      .orderBy(asc(mailboxes.id));
+    return rows.map(mailbox => this.toView(mailbox));
+  }
+
+  async createMailbox(mailbox: InsertMailbox): Promise<MailboxView> {
+    if (mailbox.provider === 'imap' && (!mailbox.settings?.host || !mailbox.password)) {
+      throw new MailboxSyncError('IMAP mailboxes need a host and password');
+    }
+    const [created] = await db.insert(mailboxes).values(fieldEncryption.encryptFields('mailboxes', {
+      ...mailbox,
+      settings: mailbox.settings || {},
+      organizationId: tenantContext.requireOrganizationId()
+    })).returning();
+    return this.toView(created);
+  }
+
+  // Changing the server or folder restarts the sync from scratch; already stored messages are skipped
+  async updateMailbox(id: number, changes: Partial<InsertMailbox>): Promise<MailboxView> {
+    const mailbox = await this.getMailbox(id);
+    const resync = changes.settings !== undefined || (changes.address !== undefined && changes.address !== mailbox.address);
+    const [updated] = await db.update(mailboxes)
+      .set({
+        ...fieldEncryption.encryptFields('mailboxes', { ...changes, provider: undefined }),
+        ...(resync ? { syncCursor: null } : {})
+      })
+      .where(eq(mailboxes.id, mailbox.id))
+      .returning();
+    return this.toView(updated);
+  }
+
+  // Sync
+
+  // One batch from every active mailbox, each in its own organization's scope; a failing mailbox does not stop the rest
+  async syncAll(): Promise<MailboxSyncResult[]> {
+    if (this.syncing) return [];
+    this.syncing = true;
+
+    try {
+      const active = await db.select().from(mailboxes).where(eq(mailboxes.isActive, true)).orderBy(asc(mailboxes.id));
+      const results: MailboxSyncResult[] = [];
+      for (const mailbox of active) {
+        try {
+          results.push(await tenantContext.run(mailbox.organizationId, () => this.sync(mailbox)));
+        } catch (error) {
+          console.error(`Failed to sync mailbox ${mailbox.id}:`, error);
+        }
+      }
+      return results;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  async syncMailbox(id: number): Promise<MailboxSyncResult> {
+    return this.sync(await this.getMailbox(id));
+  }
+
+  // Fetches the next batch after the stored cursor. The cursor only advances once the batch is stored, so a crash
+  // re-reads it and de-duplication on the provider message id skips what was already ingested.
+  private async sync(mailbox: Mailbox): Promise<MailboxSyncResult> {
+    const adapter = this.adapters.get(mailbox.provider);
+    const decrypted = fieldEncryption.decryptFields('mailboxes', mailbox);
+    if (!adapter || !adapter.isConfigured(decrypted)) {
+      const lastError = `The ${mailbox.provider} mailbox provider is not configured`;
+      await db.update(mailboxes).set({ lastError }).where(eq(mailboxes.id, mailbox.id));
+      throw new MailboxSyncError(lastError);
+    }
+
+    const result: MailboxSyncResult = { mailboxId: mailbox.id, fetched: 0, ingested: 0, matched: 0 };
+    try {
+      const batch = await adapter.fetchSince(decrypted, mailbox.syncCursor, BATCH_SIZE);
+      result.fetched = batch.messages.length;
+      for (const fetched of batch.messages) {
+        try {
+          const stored = await this.ingest(mailbox, fetched);
+          if (stored) {
+            result.ingested++;
+            if (stored.loanApplicationId) result.matched++;
+          }
+        } catch (error) {
+          // A message that cannot be parsed or stored would fail on every run; it is logged and passed over
+          console.error(`Failed to ingest message ${fetched.id} from mailbox ${mailbox.id}:`, error);
+        }
+      }
+      await db.update(mailboxes)
+        .set({ syncCursor: batch.cursor, lastSyncedAt: new Date(), lastError: null })
+        .where(eq(mailboxes.id, mailbox.id));
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      await db.update(mailboxes).set({ lastError }).where(eq(mailboxes.id, mailbox.id));
+      throw error;
+    }
+    return result;
+  }
+
+  // Stores one fetched message unless it is already in the mailbox; returns null for duplicates
+  async ingest(mailbox: Mailbox, fetched: FetchedMessage): Promise<EmailMessage | null> {
+    const [existing] = await db.select({ id: emailMessages.id }).from(emailMessages).where(and(
+      eq(emailMessages.mailboxId, mailbox.id),
+      eq(emailMessages.providerMessageId, fetched.id)
+    ));
+    if (existing) return null;
+
+    const email = parseMimeMessage(fetched.raw);
+    const fromAddress = email.from?.address || '';
+    const direction = fromAddress === mailbox.address.toLowerCase() ? 'outbound' : 'inbound';
+    const counterparts = (direction === 'inbound' ? [email.from] : [...email.to, ...email.cc])
+      .map(address => address?.address)
+      .filter((address): address is string => !!address && address !== mailbox.address.toLowerCase());
+
+    const thread = await this.findThread(mailbox.organizationId, email);
+    const match = thread?.match.loanApplicationId ? thread.match : await this.match(email.subject, counterparts, thread?.match);
+    const attachments = await this.saveAttachments(match.loanApplicationId, email);
+
+    const [stored] = await db.insert(emailMessages).values({
+      organizationId: mailbox.organizationId,
+      mailboxId: mailbox.id,
+      providerMessageId: fetched.id,
+      messageIdHeader: email.messageId,
+      threadKey: thread?.threadKey || email.references[0] || email.inReplyTo || email.messageId || `${mailbox.id}:${fetched.id}`,
+      direction,
+      fromAddress,
+      fromName: email.from?.name || null,
+      toAddresses: email.to.map(address => address.address),
+      ccAddresses: email.cc.map(address => address.address),
+      subject: email.subject,
+      bodyText: email.text,
+      attachments,
+      ...match,
+      sentAt: email.date || new Date()
+    }).returning();
+    return stored;
+  }
+
+  // Loan mail
+
+  // Conversations filed on a loan, most recent first, each with its messages in order
+  async getLoanThreads(loanApplicationId: number): Promise<EmailThread[]> {
+    const rows = await db.select().from(emailMessages)
+      .where(tenantContext.where(emailMessages.organizationId, eq(emailMessages.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(emailMessages.sentAt), asc(emailMessages.id));
+    return this.groupThreads(rows);
+  }
+
+  // Groups messages, given oldest first, into conversations; the most recently active conversation comes first
+  groupThreads(messages: EmailMessage[]): EmailThread[] {
+    const threads = new Map<string, EmailThread>();
+    messages.forEach(message => {
+      const thread = threads.get(message.threadKey);
+      if (thread) {
+        thread.messages.push(message);
+        thread.lastMessageAt = message.sentAt;
+      } else {
+        threads.set(message.threadKey, {
+          threadKey: message.threadKey,
+          subject: message.subject,
+          lastMessageAt: message.sentAt,
+          messages: [message]
+        });
+      }
+    });
+    return Array.from(threads.values()).sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
+  }
+
+  // Matching
+
+  // A reply joins the conversation of the message it answers and inherits its links
+  private async findThread(organizationId: number, email: ParsedEmail): Promise<{ threadKey: string; match: EmailMatch } | null> {
+    const ids = [email.inReplyTo, ...email.references].filter((id): id is string => !!id);
+    if (ids.length === 0) return null;
+
+    const [parent] = await db.select().from(emailMessages)
+      .where(and(eq(emailMessages.organizationId, organizationId), inArray(emailMessages.messageIdHeader, ids)))
+      .orderBy(desc(emailMessages.sentAt))
+      .limit(1);
+    if (!parent) return null;
+
+    return {
+      threadKey: parent.threadKey,
+      match: {
+        contactId: parent.contactId,
+        borrowerId: parent.borrowerId,
+        loanApplicationId: parent.loanApplicationId,
+        matchedBy: parent.loanApplicationId ? 'thread' : null
+      }
+    };
+  }
+
+  // An application number in the subject names the loan outright; otherwise the other party's address finds the
+  // borrower (and their newest loan) or contact in the current organization
+  private async match(subject: string, addresses: string[], inherited?: EmailMatch): Promise<EmailMatch> {
+    const match: EmailMatch = inherited
+      ? { ...inherited }
+      : { contactId: null, borrowerId: null, loanApplicationId: null, matchedBy: null };
+
+    const loanIds = this.getLoanNumbers(subject);
+    if (loanIds.length > 0) {
+      const [loan] = await db.select({ id: loanApplications.id, borrowerId: loanApplications.borrowerId })
+        .from(loanApplications)
+        .where(tenantContext.where(loanApplications.organizationId, inArray(loanApplications.id, loanIds)))
+        .limit(1);
+      if (loan) {
+        match.loanApplicationId = loan.id;
+        match.borrowerId = loan.borrowerId;
+        match.matchedBy = 'subject';
+      }
+    }
+
+    if (addresses.length === 0) return match;
+
+    if (!match.borrowerId) {
+      const [borrower] = await db.select({ id: borrowers.id }).from(borrowers)
+        .where(tenantContext.where(borrowers.organizationId, inArray(sql`lower(${borrowers.email})`, addresses)))
+        .orderBy(desc(borrowers.id))
+        .limit(1);
+      match.borrowerId = borrower?.id ?? null;
+    }
+    if (match.borrowerId && !match.loanApplicationId) {
+      const [loan] = await db.select({ id: loanApplications.id }).from(loanApplications)
+        .where(tenantContext.where(loanApplications.organizationId, eq(loanApplications.borrowerId, match.borrowerId)))
+        .orderBy(desc(loanApplications.createdAt))
+        .limit(1);
+      if (loan) {
+        match.loanApplicationId = loan.id;
+        match.matchedBy = 'address';
+      }
+    }
+    if (!match.contactId) {
+      const [contact] = await db.select({ id: contacts.id }).from(contacts)
+        .where(tenantContext.where(contacts.organizationId, inArray(sql`lower(${contacts.email})`, addresses)))
+        .orderBy(desc(contacts.id))
+        .limit(1);
+      match.contactId = contact?.id ?? null;
+    }
+    return match;
+  }
+
+  // Application ids quoted in a subject, in the order they appear
+  getLoanNumbers(subject: string): number[] {
+    const loanIds: number[] = [];
+    let token: RegExpExecArray | null;
+    LOAN_TOKEN_PATTERN.lastIndex = 0;
+    while ((token = LOAN_TOKEN_PATTERN.exec(subject))) loanIds.push(parseInt(token[1]));
+    return loanIds;
+  }
+
+  // Attachments on mail matched to a loan are saved into uploads/ and filed as the loan's documents; oversized ones and
+  // mail without a loan keep only their name and size
+  private async saveAttachments(loanApplicationId: number | null, email: ParsedEmail): Promise<EmailAttachmentRef[]> {
+    const refs: EmailAttachmentRef[] = [];
+    for (const attachment of email.attachments) {
+      const ref: EmailAttachmentRef = {
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+        documentId: null
+      };
+      if (loanApplicationId && attachment.content.length <= MAX_ATTACHMENT_BYTES) {
+        const fileName = randomBytes(16).toString('hex');
+        await fs.mkdir(UPLOAD_DIR, { recursive: true });
+        await fs.writeFile(path.join(UPLOAD_DIR, fileName), attachment.content);
+        const document = await storage.createDocument({
+          loanApplicationId,
+          fileName,
+          originalName: attachment.fileName,
+          category: ATTACHMENT_CATEGORY,
+          fileSize: attachment.content.length,
+          mimeType: attachment.contentType
+        });
+        workflowEngine.emit({
+          type: 'document_uploaded',
+          loanApplicationId,
+          payload: { documentId: document.id, category: document.category }
+        });
+        ref.documentId = document.id;
+      }
+      refs.push(ref);
+    }
+    return refs;
+  }
+
+  private async getMailbox(id: number): Promise<Mailbox> {
+    const [mailbox] = await db.select().from(mailboxes).where(eq(mailboxes.id, id));
+    if (!mailbox || !tenantContext.isVisible(mailbox.organizationId)) {
+      throw new MailboxSyncError(`Mailbox ${id} not found`);
+    }
+    return mailbox;
+  }
+
+  private toView(mailbox: Mailbox): MailboxView {
+    const { password, ...view } = mailbox;
+    return { ...view, hasPassword: !!password };
+  }
+}
+
+export const mailboxSync = MailboxSyncService.getInstance();
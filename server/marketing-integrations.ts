@@ -238,10 +238,10 @@ export class MarketingIntegrationService {
       campaignData: leadData.additionalData
     });
 
-    // Create initial task for follow-up
+    // Create initial task for follow-up, for one of the organization's loan officers
     await storage.createTask({
       loanApplicationId: loanApplication.id,
-      assignedToId: 1, // Default to admin user
+      assignedToId: (await storage.getIntakeAssignee())?.id ?? null,
       title: `New ${leadData.source} lead - ${leadData.firstName} ${leadData.lastName}`,
       description: `Follow up on new lead from ${leadData.source}. Loan amount: $${leadData.loanAmount?.toLocaleString()}`,
       status: 'pending',
@@ -387,11 +387,12 @@ export class MarketingIntegrationService {
     };
 
     const sequence = sequences[source] || sequences.facebook;
+    const loan = await storage.getLoanApplication(loanApplicationId);
     
     for (const step of sequence) {
       await storage.createTask({
         loanApplicationId,
-        assignedToId: 1,
+        assignedToId: loan?.loanOfficerId ?? null,
         title: `Automated ${step.action.toUpperCase()} Follow-up`,
         description: step.message,
         status: 'scheduled',
@@ -0,0 +1,141 @@
+// PII Re-encryption Migration
+// Encrypts plaintext values in the designated PII columns and re-wraps values held under retired master keys.
+// Run with `npm run db:migrate-pii` (add `-- --dry-run` to only report counts) after adding or rotating a key.
+
+import { db, pool } from './db';
+import { contacts, borrowerAuth, bankAccounts, mailboxes, loanApplications } from '../shared/schema';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+import {
+  fieldEncryption, ENCRYPTED_FIELDS, ENCRYPTED_JSON_FIELDS, type EncryptedTable, type EncryptedJsonTable
+} from './field-encryption';
+
+const BATCH_SIZE = 500;
+
+const TABLES: Record<EncryptedTable, typeof contacts | typeof borrowerAuth | typeof bankAccounts | typeof mailboxes> = {
+  contacts,
+  borrower_auth: borrowerAuth,
+  bank_accounts: bankAccounts,
+  mailboxes,
+};
+
+const JSON_TABLES: Record<EncryptedJsonTable, typeof loanApplications> = {
+  loan_applications: loanApplications,
+};
+
+interface MigrationResult {
+  table: EncryptedTable | EncryptedJsonTable;
+  scanned: number;
+  encrypted: number;
+  rotated: number;
+}
+
+async function migrateTable(table: EncryptedTable, dryRun: boolean): Promise<MigrationResult> {
+  const source = TABLES[table] as any;
+  const columns: readonly string[] = ENCRYPTED_FIELDS[table];
+  const result: MigrationResult = { table, scanned: 0, encrypted: 0, rotated: 0 };
+  let lastId = 0;
+
+  while (true) {
+    const rows: Array<Record<string, any>> = await db.select().from(source)
+      .where(gt(source.id, lastId))
+      .orderBy(asc(source.id))
+      .limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      result.scanned++;
+      const updates: Record<string, string> = {};
+      columns.forEach(column => {
+        const value = row[column];
+        if (typeof value !== 'string' || value === '') return;
+        if (!fieldEncryption.isEncrypted(value)) {
+          updates[column] = fieldEncryption.encrypt(value, `${table}.${column}`);
+          result.encrypted++;
+        } else if (fieldEncryption.needsRotation(value)) {
+          updates[column] = fieldEncryption.rotate(value, `${table}.${column}`);
+          result.rotated++;
+        }
+      });
+
+      // Only write when the stored value is unchanged, so a concurrent update is never overwritten with stale data
+      if (!dryRun && Object.keys(updates).length > 0) {
+        const unchanged = Object.keys(updates).map(column => eq(source[column], row[column]));
+        await db.update(source).set(updates).where(and(eq(source.id, row.id), ...unchanged));
+      }
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+
+  return result;
+}
+
+// Same walk for keys inside JSON columns; the whole column is rewritten, guarded by its previous contents
+async function migrateJsonTable(table: EncryptedJsonTable, dryRun: boolean): Promise<MigrationResult> {
+  const source = JSON_TABLES[table] as any;
+  const result: MigrationResult = { table, scanned: 0, encrypted: 0, rotated: 0 };
+  let lastId = 0;
+
+  while (true) {
+    const rows: Array<Record<string, any>> = await db.select().from(source)
+      .where(gt(source.id, lastId))
+      .orderBy(asc(source.id))
+      .limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      result.scanned++;
+      const updates: Record<string, Record<string, unknown>> = {};
+      Object.entries(ENCRYPTED_JSON_FIELDS[table]).forEach(([column, keys]) => {
+        const json = row[column];
+        if (!json || typeof json !== 'object') return;
+        const mapped: Record<string, unknown> = { ...json };
+        keys.forEach(key => {
+          const value = mapped[key];
+          const field = `${table}.${column}.${key}`;
+          if (typeof value !== 'string' || value === '') return;
+          if (!fieldEncryption.isEncrypted(value)) {
+            mapped[key] = fieldEncryption.encrypt(value, field);
+            result.encrypted++;
+          } else if (fieldEncryption.needsRotation(value)) {
+            mapped[key] = fieldEncryption.rotate(value, field);
+            result.rotated++;
+          }
+        });
+        if (keys.some(key => mapped[key] !== json[key])) updates[column] = mapped;
+      });
+
+      if (!dryRun && Object.keys(updates).length > 0) {
+        const unchanged = Object.keys(updates).map(column => sql`${source[column]} = ${JSON.stringify(row[column])}::jsonb`);
+        await db.update(source).set(updates).where(and(eq(source.id, row.id), ...unchanged));
+      }
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+
+  return result;
+}
+
+async function migratePiiFields(dryRun = false): Promise<MigrationResult[]> {
+  const results: MigrationResult[] = [];
+  for (const table of Object.keys(ENCRYPTED_FIELDS) as EncryptedTable[]) {
+    results.push(await migrateTable(table, dryRun));
+  }
+  for (const table of Object.keys(ENCRYPTED_JSON_FIELDS) as EncryptedJsonTable[]) {
+    results.push(await migrateJsonTable(table, dryRun));
+  }
+  return results;
+}
+
+const dryRun = process.argv.includes('--dry-run');
+console.log(`Re-encrypting PII columns under master key v${fieldEncryption.getActiveKeyVersion()}${dryRun ? ' (dry run)' : ''}...`);
+
+migratePiiFields(dryRun)
+  .then(results => {
+    results.forEach(({ table, scanned, encrypted, rotated }) =>
+      console.log(`${table}: ${scanned} rows scanned, ${encrypted} values encrypted, ${rotated} values re-wrapped`));
+  })
+  .catch(error => {
+    console.error('PII migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,100 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAddressList, parseMimeMessage } from "./mime-parser";
+
+const message = (headers: string[], body: string) => [...headers, '', body].join('\r\n');
+
+describe("headers", () => {
+  test("reads the ids, subject, addresses and date a reply is threaded by", () => {
+    const email = parseMimeMessage(message([
+      'Message-ID: <reply-2@mail.example.com>',
+      'In-Reply-To: <original-1@loandaddy.example>',
+      'References: <original-1@loandaddy.example>',
+      '  <reply-1@mail.example.com>',
+      'Subject: Re: LA-1042 appraisal',
+      'From: "Reyes, Dana" <Dana@Example.com>',
+      'To: loans@loandaddy.example, Pat Lee <pat@loandaddy.example>',
+      'Cc: <title@escrow.example>',
+      'Date: Mon, 19 Oct 2026 09:30:00 -0500',
+    ], 'Attached.'));
+
+    assert.equal(email.messageId, '<reply-2@mail.example.com>');
+    assert.equal(email.inReplyTo, '<original-1@loandaddy.example>');
+    assert.deepEqual(email.references, ['<original-1@loandaddy.example>', '<reply-1@mail.example.com>']);
+    assert.equal(email.subject, 'Re: LA-1042 appraisal');
+    assert.deepEqual(email.from, { address: 'dana@example.com', name: 'Reyes, Dana' });
+    assert.deepEqual(email.to.map(address => address.address), ['loans@loandaddy.example', 'pat@loandaddy.example']);
+    assert.deepEqual(email.cc, [{ address: 'title@escrow.example', name: null }]);
+    assert.deepEqual(email.date, new Date('2026-10-19T14:30:00Z'));
+    assert.equal(email.text, 'Attached.');
+  });
+
+  test("decodes RFC 2047 encoded words and tolerates a missing or invalid date", () => {
+    const email = parseMimeMessage(message([
+      'Subject: =?UTF-8?B?UHLDqXN0YW1v?= =?ISO-8859-1?Q?_aprobado?=',
+      'From: =?UTF-8?Q?Jos=C3=A9_Mu=C3=B1oz?= <jose@example.com>',
+      'Date: sometime last week',
+    ], ''));
+    assert.equal(email.subject, 'Préstamo aprobado');
+    assert.equal(email.from?.name, 'José Muñoz');
+    assert.equal(email.date, null);
+  });
+
+  test("drops list entries without an address", () => {
+    assert.deepEqual(parseAddressList('undisclosed-recipients:;, <mailto:Pat@Loandaddy.example>'), [{ address: 'pat@loandaddy.example', name: null }]);
+  });
+});
+
+describe("bodies and attachments", () => {
+  const multipart = message([
+    'Subject: Documents',
+    'Content-Type: multipart/mixed; boundary="outer"',
+  ], [
+    'This preamble is not a part.',
+    '--outer',
+    'Content-Type: multipart/alternative; boundary=inner',
+    '',
+    '--inner',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Here are the bank statements =E2=80=94 two months.=',
+    '',
+    'Thanks',
+    '--inner',
+    'Content-Type: text/html',
+    '',
+    '<p>Ignored when there is plain text</p>',
+    '--inner--',
+    '--outer',
+    'Content-Type: application/pdf; name="statement.pdf"',
+    'Content-Disposition: attachment; filename*=UTF-8\'\'estado%20de%20cuenta.pdf',
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from('%PDF-1.7 statement').toString('base64'),
+    '--outer',
+    'Content-Type: image/png',
+    'Content-Disposition: inline',
+    '',
+    'signature logo',
+    '--outer--',
+    'Epilogue',
+  ].join('\r\n'));
+
+  test("prefers the plain text part and decodes its transfer encoding and charset", () => {
+    assert.equal(parseMimeMessage(multipart).text, 'Here are the bank statements — two months.\nThanks');
+  });
+
+  test("collects named attachments with RFC 2231 file names and skips unnamed inline parts", () => {
+    const { attachments } = parseMimeMessage(Buffer.from(multipart, 'latin1'));
+    assert.equal(attachments.length, 1);
+    assert.equal(attachments[0].fileName, 'estado de cuenta.pdf');
+    assert.equal(attachments[0].contentType, 'application/pdf');
+    assert.equal(attachments[0].content.toString(), '%PDF-1.7 statement');
+  });
+
+  test("falls back to the HTML part as text when there is no plain text", () => {
+    const email = parseMimeMessage(message(['Content-Type: text/html'], '<style>p { color: red; }</style><p>Rate locked</p><p>Closing&nbsp;on &lt;Friday&gt;</p>'));
+    assert.equal(email.text, 'Rate locked\nClosing on <Friday>');
+  });
+});
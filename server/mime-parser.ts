@@ -0,0 +1,237 @@
+// MIME Parser
+// Reads raw RFC 5322 messages as fetched by the mailbox sync: headers, addresses, the plain text body and attachments
+
+export interface EmailAddress {
+  address: string; // lowercased
+  name: string | null;
+}
+
+export interface ParsedAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  subject: string;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  date: Date | null;
+  text: string;
+  attachments: ParsedAttachment[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // undecoded, one character per byte (latin1)
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const MAX_DEPTH = 10;
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?= or =?ISO-8859-1?Q?...?=
+function decodeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bBqQ])\?([^?]*)\?=/g, (match, charset: string, encoding: string, text: string) => {
+      try {
+        const bytes = encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset);
+      } catch {
+        return match;
+      }
+    });
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder((charset || 'utf-8').trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const input = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(input.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(input.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeBody(part: MimePart): Buffer {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').trim().toLowerCase();
+  if (encoding === 'base64') return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+  return Buffer.from(part.body, 'latin1');
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/);
+  const head = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+
+  const headers = new Map<string, string>();
+  head.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins; trace headers that repeat are not read
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  });
+  return { headers, body };
+}
+
+// Content-Type and Content-Disposition: the value plus its parameters, including RFC 2231 filename*=charset''...
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  const [value, ...rest] = (header || '').split(';');
+  const params: Record<string, string> = {};
+  rest.forEach(param => {
+    const equals = param.indexOf('=');
+    if (equals === -1) return;
+    let key = param.slice(0, equals).trim().toLowerCase();
+    let paramValue = param.slice(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (key.endsWith('*')) {
+      key = key.slice(0, -1).replace(/\*\d+$/, '');
+      const [, charset, encoded] = paramValue.match(/^([^']*)'[^']*'(.*)$/) || [null, 'utf-8', paramValue];
+      try {
+        paramValue = decodeCharset(Buffer.from(decodeURIComponent(encoded.replace(/%(?![0-9A-Fa-f]{2})/g, '%25')), 'latin1'), charset || 'utf-8');
+      } catch {
+        paramValue = encoded;
+      }
+    }
+    params[key] = (params[key] || '') + paramValue;
+  });
+  return { value: value.trim().toLowerCase(), params };
+}
+
+// Header lists split on commas outside quotes and angle brackets
+export function parseAddressList(header: string | undefined): EmailAddress[] {
+  if (!header) return [];
+  const entries: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angled = false;
+  for (const char of decodeWords(header)) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angled = true;
+    if (!quoted && char === '>') angled = false;
+    if (char === ',' && !quoted && !angled) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .map(entry => {
+      const angle = entry.match(/<([^>]+)>/);
+      const address = (angle ? angle[1] : entry).trim().replace(/^mailto:/i, '').toLowerCase();
+      const name = angle ? entry.slice(0, angle.index).trim().replace(/^"(.*)"$/, '$1').trim() : '';
+      return { address, name: name || null };
+    })
+    .filter(entry => entry.address.includes('@'));
+}
+
+function parseMessageIds(header: string | undefined): string[] {
+  return (header || '').match(/<[^<>\s]+>/g) || [];
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Walks the part tree collecting the first plain text body (html as a fallback) and every named or attached part
+function collect(part: MimePart, result: { text: string | null; html: string | null; attachments: ParsedAttachment[] }, depth: number): void {
+  const type = parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+
+  if (type.value.startsWith('multipart/') && type.params.boundary && depth < MAX_DEPTH) {
+    const delimiter = `--${type.params.boundary}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The preamble before the first delimiter and the epilogue after the closing one are not parts
+    const body = part.body.split(new RegExp(`\\r?\\n${delimiter}--`))[0];
+    const sections = body.split(new RegExp(`(?:^|\\r?\\n)${delimiter}[ \\t]*\\r?\\n`));
+    sections.slice(1).forEach(section => {
+      if (section.trim()) collect(parsePart(section), result, depth + 1);
+    });
+    return;
+  }
+
+  if (type.value === 'message/rfc822' && disposition.value !== 'attachment' && depth < MAX_DEPTH) {
+    collect(parsePart(part.body), result, depth + 1);
+    return;
+  }
+
+  const fileName = disposition.params.filename || type.params.name;
+  // Unnamed inline parts (signature logos, tracking pixels) are neither body nor attachment
+  if (disposition.value === 'attachment' || (fileName && !type.value.startsWith('text/'))) {
+    result.attachments.push({
+      fileName: decodeWords(fileName || 'attachment'),
+      contentType: type.value || 'application/octet-stream',
+      content: decodeBody(part)
+    });
+    return;
+  }
+
+  if (type.value === 'text/plain' && result.text === null) {
+    result.text = decodeCharset(decodeBody(part), type.params.charset);
+  } else if (type.value === 'text/html' && result.html === null) {
+    result.html = decodeCharset(decodeBody(part), type.params.charset);
+  }
+}
+
+export function parseMimeMessage(raw: Buffer | string): ParsedEmail {
+  const root = parsePart(typeof raw === 'string' ? raw : raw.toString('latin1'));
+  const result = { text: null as string | null, html: null as string | null, attachments: [] as ParsedAttachment[] };
+  collect(root, result, 0);
+
+  const header = (name: string) => {
+    const value = root.headers.get(name);
+    return value === undefined ? undefined : decodeWords(value);
+  };
+  const date = header('date') ? new Date(header('date')!) : null;
+
+  return {
+    messageId: parseMessageIds(root.headers.get('message-id'))[0] || null,
+    inReplyTo: parseMessageIds(root.headers.get('in-reply-to'))[0] || null,
+    references: parseMessageIds(root.headers.get('references')),
+    subject: (header('subject') || '').trim(),
+    from: parseAddressList(root.headers.get('from'))[0] || null,
+    to: parseAddressList(root.headers.get('to')),
+    cc: parseAddressList(root.headers.get('cc')),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: (result.text ?? (result.html !== null ? htmlToText(result.html) : '')).replace(/\r\n/g, '\n').trim(),
+    attachments: result.attachments
+  };
+}
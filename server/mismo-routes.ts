@@ -0,0 +1,68 @@
+import { Router } from "express";
+import multer from "multer";
+import { storage } from "./storage";
+import { mismoService, MismoValidationError, type MismoLoan } from "./mismo-service";
+import { workflowEngine } from "./workflow-engine";
+import { requirePermission, type StaffRequest } from "./rbac-service";
+import { piiMasking } from "./pii-masking";
+import { auditService } from "./audit-service";
+import { tenantContext } from "./tenant-context";
+
+const router = Router();
+
+const mismoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    const isXml = ['application/xml', 'text/xml'].includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.xml');
+    cb(null, isXml);
+  }
+});
+
+// Download a loan as a MISMO 3.4 XML file
+router.get("/loan-applications/:id/mismo", requirePermission('data.export'), async (req, res) => {
+  try {
+    const loan = await storage.getLoanApplicationWithDetails(parseInt(req.params.id));
+    if (!loan) {
+      return res.status(404).json({ message: "Loan application not found" });
+    }
+
+    // The SSN leaves the system unmasked only for callers allowed to see it, and every export is audited
+    const maskPii = !piiMasking.canViewPii(req);
+    const xml = mismoService.exportLoan(loan as MismoLoan, { maskPii });
+    await auditService.recordExport(req, 'loan-applications', String(loan.id), 'mismo-3.4', maskPii ? [] : ['ssn']);
+    res.setHeader('Content-Type', 'application/xml');
+    res.setHeader('Content-Disposition', `attachment; filename="LA-${loan.id}-mismo-3.4.xml"`);
+    res.send(xml);
+  } catch (error) {
+    console.error("MISMO export error:", error);
+    res.status(500).json({ message: "Failed to export MISMO file" });
+  }
+});
+
+// Create borrower, property and loan from an uploaded MISMO file (multipart "file" or JSON { xml })
+router.post("/loan-applications/import/mismo", requirePermission('loans.create'), mismoUpload.single('file'), async (req, res) => {
+  try {
+    const xml = req.file ? req.file.buffer.toString('utf8') : req.body?.xml;
+    if (!xml || typeof xml !== 'string') {
+      return res.status(400).json({ message: "A MISMO XML file is required" });
+    }
+
+    const application = await mismoService.importLoan(xml, {
+      organizationId: tenantContext.requireOrganizationId(),
+      loanOfficerId: (req as StaffRequest).user!.id,
+      loanType: req.body?.loanType,
+    });
+    workflowEngine.emit({ type: 'application_created', loanApplicationId: application.id, payload: { loanType: application.loanType, source: 'mismo_import' } });
+
+    res.status(201).json(application);
+  } catch (error) {
+    if (error instanceof MismoValidationError) {
+      return res.status(422).json({ message: error.message, errors: error.errors });
+    }
+    console.error("MISMO import error:", error);
+    res.status(400).json({ message: error instanceof Error ? error.message : "Failed to import MISMO file" });
+  }
+});
+
+export default router;
@@ -0,0 +1,159 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// Imports are stored in MemStorage; db.ts still refuses to load without a connection string
+process.env.STORAGE_DRIVER = 'memory';
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { mismoService, MismoValidationError } = await import("./mismo-service");
+const { tenantContext } = await import("./tenant-context");
+
+type MismoLoan = import("./mismo-service").MismoLoan;
+
+const urlaData = {
+  firstName: 'Dana',
+  middleName: 'J',
+  lastName: 'Reyes',
+  ssn: '123-45-6789',
+  dateOfBirth: '1984-02-17',
+  citizenship: 'permanent_resident',
+  maritalStatus: 'married',
+  dependentsNumber: '2',
+  dependentsAges: '4, 9',
+  email: 'dana@example.com',
+  cellPhone: '(512) 555-0142',
+  currentStreet: '18 Elm St',
+  currentCity: 'Austin',
+  currentState: 'TX',
+  currentZip: '78701',
+  currentAddressYears: '3',
+  currentAddressMonths: '4',
+  currentHousing: 'rent',
+  currentRentAmount: '2100.00',
+  employerName: 'Reyes Design LLC',
+  position: 'Owner',
+  startDate: '2015-06-01',
+  selfEmployed: true,
+  baseIncome: '12500.00',
+  bonusIncome: '800.00',
+  checkingInstitution1: 'First Bank',
+  checkingAccountNumber1: '000123',
+  checkingValue1: '85000.00',
+};
+
+function loan(overrides: Partial<MismoLoan> = {}): MismoLoan {
+  return {
+    id: 42,
+    loanType: 'dscr',
+    loanPurpose: 'cash_out',
+    requestedAmount: '300000.00',
+    interestRate: '7.500',
+    termMonths: 360,
+    ltv: '75.00',
+    dscr: '1.25',
+    monthlyRent: '3000.00',
+    monthlyExpenses: null,
+    exitStrategy: null,
+    borrower: { firstName: 'Dana', lastName: 'Reyes', email: 'dana@example.com', phone: '5125550142' },
+    property: {
+      address: '221 Oak Ave',
+      city: 'Dallas',
+      state: 'TX',
+      zipCode: '75201',
+      propertyType: 'single_family',
+      propertyValue: '400000.00',
+      purchasePrice: null,
+      rehabCost: null,
+      arv: null,
+    },
+    urlaData,
+    ...overrides,
+  } as unknown as MismoLoan;
+}
+
+const importIntoOrg = (xml: string) =>
+  tenantContext.run(1, () => mismoService.importLoan(xml, { organizationId: 1, loanOfficerId: 9 }));
+
+describe("MISMO 3.4 round trip", () => {
+  test("imports an exported loan with the same terms, property and borrower", async () => {
+    const imported = await importIntoOrg(mismoService.exportLoan(loan()));
+    assert.equal(imported.loanType, 'dscr');
+    assert.equal(imported.loanPurpose, 'cash_out');
+    assert.equal(imported.requestedAmount, '300000.00');
+    assert.equal(imported.interestRate, '7.500');
+    assert.equal(imported.termMonths, 360);
+    assert.equal(imported.dscr, '1.25');
+    assert.equal(imported.monthlyRent, '3000.00');
+    assert.equal(imported.loanOfficerId, 9);
+    assert.equal(imported.property.address, '221 Oak Ave');
+    assert.equal(imported.property.propertyValue, '400000.00');
+    assert.equal(imported.borrower.phone, '5125550142');
+    assert.equal(imported.borrower.city, 'Austin');
+  });
+
+  test("carries the URLA answers through employment, income, assets and declarations", async () => {
+    const imported = await importIntoOrg(mismoService.exportLoan(loan()));
+    const urla = imported.urlaData!;
+    assert.equal(urla.ssn, '123456789');
+    assert.equal(urla.citizenship, 'permanent_resident');
+    assert.equal(urla.maritalStatus, 'married');
+    assert.equal(urla.dependentsAges, '4, 9');
+    assert.equal(urla.currentAddressYears, '3');
+    assert.equal(urla.currentAddressMonths, '4');
+    assert.equal(urla.currentHousing, 'rent');
+    assert.equal(urla.employerName, 'Reyes Design LLC');
+    assert.equal(urla.selfEmployed, true);
+    assert.equal(urla.baseIncome, '12500.00');
+    assert.equal(urla.bonusIncome, '800.00');
+    assert.equal(urla.checkingInstitution1, 'First Bank');
+    assert.equal(urla.checkingValue1, '85000.00');
+    assert.equal(urla.previousEmployment, false);
+  });
+
+  test("writes the SSN and date of birth masked for callers without PII access", () => {
+    const xml = mismoService.exportLoan(loan(), { maskPii: true });
+    assert.doesNotMatch(xml, /123456789|123-45-6789/);
+    assert.doesNotMatch(xml, /1984-02-17/);
+    assert.match(xml, /<TaxpayerIdentifierValue>[^<]*6789<\/TaxpayerIdentifierValue>/);
+  });
+
+  test("omits empty elements instead of writing them blank", () => {
+    const xml = mismoService.exportLoan(loan({ urlaData: null, interestRate: null } as Partial<MismoLoan>));
+    assert.doesNotMatch(xml, /<NoteRatePercent/);
+    assert.doesNotMatch(xml, /<ASSETS/);
+    assert.doesNotMatch(xml, /<TAXPAYER_IDENTIFIER/);
+  });
+});
+
+describe("MISMO validation", () => {
+  const errorsOf = (xml: string) => {
+    try {
+      mismoService.parse(xml);
+    } catch (error) {
+      assert.ok(error instanceof MismoValidationError);
+      return error.errors;
+    }
+    assert.fail('expected a MismoValidationError');
+  };
+
+  test("rejects malformed XML", () => {
+    assert.equal(errorsOf('<MESSAGE><DEAL_SETS></MESSAGE>').length, 1);
+  });
+
+  test("rejects another reference model and reports every structural problem", () => {
+    const xml = mismoService.exportLoan(loan())
+      .replace(/MISMOReferenceModelIdentifier="[^"]*"/, 'MISMOReferenceModelIdentifier="3.3.0299"')
+      .replace(/<BaseLoanAmount>[^<]*<\/BaseLoanAmount>/, '<BaseLoanAmount>lots</BaseLoanAmount>');
+    const errors = errorsOf(xml);
+    assert.ok(errors.some(error => error.includes('MISMO reference model must be 3.4')));
+    assert.ok(errors.some(error => error.includes('BaseLoanAmount must be a decimal amount')));
+  });
+
+  test("requires a borrower party and its name, email and phone", async () => {
+    const noBorrower = mismoService.exportLoan(loan()).replace('<PartyRoleType>Borrower</PartyRoleType>', '<PartyRoleType>Cosigner</PartyRoleType>');
+    assert.deepEqual(errorsOf(noBorrower), ['PARTIES: no PARTY with PartyRoleType Borrower']);
+
+    const noEmail = mismoService.exportLoan(loan())
+      .replace(/<CONTACT_POINT>\s*<CONTACT_POINT_EMAIL>[\s\S]*?<\/CONTACT_POINT>/, '');
+    await assert.rejects(importIntoOrg(noEmail), /an email contact point is required/);
+  });
+});
@@ -0,0 +1,617 @@
+// MISMO 3.4 Service
+// Serializes loan applications to MISMO 3.4 (ULAD-compatible) XML and imports MISMO files as new loans
+
+import { XMLBuilder, XMLParser, XMLValidator } from "fast-xml-parser";
+import { z } from "zod";
+import { storage } from "./storage";
+import { piiMasking } from "./pii-masking";
+import {
+  insertBorrowerSchema,
+  insertLoanApplicationSchema,
+  insertPropertySchema,
+  type LoanApplicationWithDetails,
+} from "@shared/schema";
+
+// URLA answers captured by the full application form (stored on the loan as urlaData)
+export type UrlaData = Record<string, any>;
+
+export type MismoLoan = LoanApplicationWithDetails & { urlaData?: UrlaData | null };
+
+export interface MismoImportOptions {
+  organizationId: number;
+  loanOfficerId: number;
+  loanType?: string; // used when the file has no LoanDaddy extension
+}
+
+export interface MismoExportOptions {
+  maskPii?: boolean; // for callers without pii.view: the SSN and date of birth are written masked
+}
+
+export class MismoValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid MISMO file: ${errors[0]}`);
+    this.name = 'MismoValidationError';
+  }
+}
+
+// Imported loans are created with their borrower and property, which supply the ids
+export const importedApplicationSchema = insertLoanApplicationSchema.omit({ borrowerId: true, propertyId: true });
+
+export const MISMO_REFERENCE_MODEL = '3.4.032420160128';
+const MISMO_NAMESPACE = 'http://www.mismo.org/residential/2009/schemas';
+const ULAD_NAMESPACE = 'http://www.datamodelextension.org/Schema/ULAD';
+const EXTENSION_NAMESPACE = 'urn:loandaddy:mismo:extension';
+const ASSET_ARCROLE = 'urn:fdc:mismo.org:2009:residential/ASSET_IsAssociatedWith_ROLE';
+
+// Containers that repeat in MISMO and must always parse as arrays
+const REPEATING_ELEMENTS = new Set([
+  'DEAL', 'COLLATERAL', 'LOAN', 'LOAN_IDENTIFIER', 'PARTY', 'ROLE', 'TAXPAYER_IDENTIFIER',
+  'CONTACT_POINT', 'RESIDENCE', 'EMPLOYER', 'CURRENT_INCOME_ITEM', 'DEPENDENT', 'ASSET', 'RELATIONSHIP',
+]);
+
+const LOAN_PURPOSE_TYPES: Record<string, string> = {
+  purchase: 'Purchase',
+  refinance: 'Refinance',
+  cash_out: 'Refinance',
+};
+
+const CITIZENSHIP_TYPES: Record<string, string> = {
+  us_citizen: 'USCitizen',
+  permanent_resident: 'PermanentResidentAlien',
+  non_permanent_resident: 'NonPermanentResidentAlien',
+};
+
+const MARITAL_STATUS_TYPES: Record<string, string> = {
+  married: 'Married',
+  separated: 'Separated',
+  unmarried: 'Unmarried',
+};
+
+const RESIDENCY_BASIS_TYPES: Record<string, string> = {
+  own: 'Own',
+  rent: 'Rent',
+  no_expense: 'LivingRentFree',
+};
+
+const INCOME_FIELDS: Array<{ field: string; incomeType: string }> = [
+  { field: 'baseIncome', incomeType: 'Base' },
+  { field: 'overtimeIncome', incomeType: 'Overtime' },
+  { field: 'bonusIncome', incomeType: 'Bonus' },
+  { field: 'commissionIncome', incomeType: 'Commissions' },
+  { field: 'militaryIncome', incomeType: 'MilitaryBasePay' },
+  { field: 'otherIncome', incomeType: 'Other' },
+];
+
+const ASSET_FIELDS: Array<{ prefix: string; assetType: string }> = [
+  { prefix: 'checking', assetType: 'CheckingAccount' },
+  { prefix: 'savings', assetType: 'SavingsAccount' },
+  { prefix: 'retirement', assetType: 'RetirementFund' },
+];
+
+const invert = (map: Record<string, string>) =>
+  Object.fromEntries(Object.entries(map).map(([key, value]) => [value, key]));
+
+const amount = (value: unknown) => {
+  const parsed = parseFloat(String(value ?? ''));
+  return isNaN(parsed) ? undefined : parsed.toFixed(2);
+};
+
+// Drops empty values so optional MISMO elements are omitted instead of serialized blank
+function compact(value: any): any {
+  if (Array.isArray(value)) {
+    const items = value.map(compact).filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, child]) => [key, compact(child)] as const)
+      .filter(([, child]) => child !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return value === null || value === undefined || value === '' ? undefined : value;
+}
+
+// Structural validation of the MISMO elements the import depends on
+const mismoAddressSchema = z.object({
+  AddressLineText: z.string().min(1),
+  CityName: z.string().min(1),
+  StateCode: z.string().length(2),
+  PostalCode: z.string().min(5),
+}).passthrough();
+
+const mismoRoleSchema = z.object({
+  ROLE_DETAIL: z.object({ PartyRoleType: z.string() }),
+}).passthrough();
+
+const mismoMessageSchema = z.object({
+  MESSAGE: z.object({
+    '@_MISMOReferenceModelIdentifier': z.string().startsWith('3.4', 'MISMO reference model must be 3.4'),
+    DEAL_SETS: z.object({
+      DEAL_SET: z.object({
+        DEALS: z.object({
+          DEAL: z.array(z.object({
+            COLLATERALS: z.object({
+              COLLATERAL: z.array(z.object({
+                SUBJECT_PROPERTY: z.object({
+                  ADDRESS: mismoAddressSchema,
+                }).passthrough(),
+              })).min(1),
+            }),
+            LOANS: z.object({
+              LOAN: z.array(z.object({
+                TERMS_OF_LOAN: z.object({
+                  BaseLoanAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, 'BaseLoanAmount must be a decimal amount'),
+                  LoanPurposeType: z.enum(['Purchase', 'Refinance', 'Other']),
+                }).passthrough(),
+              }).passthrough()).min(1),
+            }),
+            PARTIES: z.object({
+              PARTY: z.array(z.object({
+                ROLES: z.object({ ROLE: z.array(mismoRoleSchema).min(1) }),
+              }).passthrough()).min(1),
+            }),
+          }).passthrough()).length(1, 'Exactly one DEAL is supported per file'),
+        }),
+      }),
+    }),
+  }),
+});
+
+export class MismoService {
+  private static instance: MismoService;
+  private builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    format: true,
+    suppressEmptyNode: true,
+  });
+  private parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name) => REPEATING_ELEMENTS.has(name),
+  });
+
+  public static getInstance(): MismoService {
+    if (!MismoService.instance) {
+      MismoService.instance = new MismoService();
+    }
+    return MismoService.instance;
+  }
+
+  exportLoan(loan: MismoLoan, options: MismoExportOptions = {}): string {
+    const urla = this.exportedUrla(loan.urlaData || {}, options);
+    const message = {
+      MESSAGE: {
+        '@_MISMOReferenceModelIdentifier': MISMO_REFERENCE_MODEL,
+        '@_xmlns': MISMO_NAMESPACE,
+        '@_xmlns:xlink': 'http://www.w3.org/1999/xlink',
+        '@_xmlns:ULAD': ULAD_NAMESPACE,
+        '@_xmlns:LD': EXTENSION_NAMESPACE,
+        ABOUT_VERSIONS: {
+          ABOUT_VERSION: {
+            CreatedDatetime: new Date().toISOString(),
+            DataVersionName: 'ULAD',
+          }
+        },
+        DEAL_SETS: {
+          DEAL_SET: {
+            DEALS: {
+              DEAL: {
+                ASSETS: this.buildAssets(urla),
+                COLLATERALS: { COLLATERAL: { SUBJECT_PROPERTY: this.buildSubjectProperty(loan) } },
+                LOANS: { LOAN: this.buildLoan(loan) },
+                PARTIES: { PARTY: this.buildBorrowerParty(loan, urla) },
+                RELATIONSHIPS: this.buildRelationships(urla),
+              }
+            }
+          }
+        }
+      }
+    };
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${this.builder.build(compact(message))}`;
+  }
+
+  // Validates the file and returns the parsed DEAL; throws MismoValidationError with every problem found
+  parse(xml: string): any {
+    const wellFormed = XMLValidator.validate(xml);
+    if (wellFormed !== true) {
+      throw new MismoValidationError([`${wellFormed.err.msg} (line ${wellFormed.err.line})`]);
+    }
+
+    const document = this.parser.parse(xml);
+    const result = mismoMessageSchema.safeParse(document);
+    if (!result.success) {
+      throw new MismoValidationError(
+        result.error.issues.map(issue => `${issue.path.join('/').replace('@_', '@')}: ${issue.message}`)
+      );
+    }
+
+    const deal = document.MESSAGE.DEAL_SETS.DEAL_SET.DEALS.DEAL[0];
+    if (!this.findBorrowerParty(deal)) {
+      throw new MismoValidationError(['PARTIES: no PARTY with PartyRoleType Borrower']);
+    }
+    return deal;
+  }
+
+  // Borrower, property and loan are created together, so a failed import leaves nothing behind
+  async importLoan(xml: string, options: MismoImportOptions): Promise<LoanApplicationWithDetails> {
+    const deal = this.parse(xml);
+    const party = this.findBorrowerParty(deal);
+    const role = party.ROLES.ROLE.find((candidate: any) => candidate.ROLE_DETAIL.PartyRoleType === 'Borrower');
+    const subject = deal.COLLATERALS.COLLATERAL[0].SUBJECT_PROPERTY;
+    const loan = deal.LOANS.LOAN[0];
+    const extension = loan.EXTENSION?.OTHER?.LOAN_DADDY_EXTENSION || {};
+    const name = party.INDIVIDUAL?.NAME || {};
+    const contactPoints: any[] = party.INDIVIDUAL?.CONTACT_POINTS?.CONTACT_POINT || [];
+    const residence = role.BORROWER?.RESIDENCES?.RESIDENCE?.find(
+      (candidate: any) => candidate.RESIDENCE_DETAIL?.BorrowerResidencyType === 'Current'
+    );
+
+    const errors: string[] = [];
+    const email = contactPoints.find(point => point.CONTACT_POINT_EMAIL)?.CONTACT_POINT_EMAIL.ContactPointEmailValue;
+    const phone = contactPoints.find(point => point.CONTACT_POINT_TELEPHONE)?.CONTACT_POINT_TELEPHONE.ContactPointTelephoneValue;
+    if (!name.FirstName || !name.LastName) errors.push('PARTY/INDIVIDUAL/NAME: FirstName and LastName are required');
+    if (!email) errors.push('PARTY/INDIVIDUAL/CONTACT_POINTS: an email contact point is required');
+    if (!phone) errors.push('PARTY/INDIVIDUAL/CONTACT_POINTS: a telephone contact point is required');
+    if (errors.length > 0) {
+      throw new MismoValidationError(errors);
+    }
+
+    const borrower = insertBorrowerSchema.parse({
+      organizationId: options.organizationId,
+      firstName: name.FirstName,
+      lastName: name.LastName,
+      email,
+      phone,
+      address: residence?.ADDRESS?.AddressLineText,
+      city: residence?.ADDRESS?.CityName,
+      state: residence?.ADDRESS?.StateCode,
+      zipCode: residence?.ADDRESS?.PostalCode,
+    });
+
+    const property = insertPropertySchema.parse({
+      address: subject.ADDRESS.AddressLineText,
+      city: subject.ADDRESS.CityName,
+      state: subject.ADDRESS.StateCode,
+      zipCode: subject.ADDRESS.PostalCode,
+      propertyType: extension.PropertyType || (parseInt(subject.PROPERTY_DETAIL?.FinancedUnitCount || '1') > 1 ? 'multi_family' : 'single_family'),
+      propertyValue: subject.PROPERTY_DETAIL?.PropertyEstimatedValueAmount,
+      purchasePrice: subject.SALES_CONTRACTS?.SALES_CONTRACT?.SALES_CONTRACT_DETAIL?.SalesContractAmount,
+      rehabCost: extension.RehabCostAmount,
+      arv: extension.AfterRepairValueAmount,
+    });
+
+    const terms = loan.TERMS_OF_LOAN;
+    const purpose = extension.LoanPurpose || invert(LOAN_PURPOSE_TYPES)[terms.LoanPurposeType];
+    const application = importedApplicationSchema.parse({
+      organizationId: options.organizationId,
+      loanOfficerId: options.loanOfficerId,
+      loanType: extension.LoanType || options.loanType || 'dscr',
+      requestedAmount: terms.BaseLoanAmount,
+      status: 'application',
+      ltv: loan.LTV?.LTVRatioPercent,
+      dscr: extension.DebtServiceCoverageRatio,
+      interestRate: terms.NoteRatePercent,
+      termMonths: loan.MATURITY?.MATURITY_RULE?.LoanMaturityPeriodCount
+        ? parseInt(loan.MATURITY.MATURITY_RULE.LoanMaturityPeriodCount)
+        : undefined,
+      monthlyRent: extension.MonthlyRentAmount,
+      monthlyExpenses: extension.MonthlyExpensesAmount,
+      loanPurpose: purpose,
+      exitStrategy: extension.ExitStrategy,
+      stage: 'full_application',
+      urlaData: this.readUrlaData(deal, party, role, residence),
+    });
+
+    return storage.createLoanApplicationWithRelations({ borrower, property, application });
+  }
+
+  private exportedUrla(urla: UrlaData, options: MismoExportOptions): UrlaData {
+    if (!options.maskPii) return urla;
+    return {
+      ...urla,
+      ssn: urla.ssn ? piiMasking.maskField('ssn', String(urla.ssn)) : urla.ssn,
+      dateOfBirth: urla.dateOfBirth ? piiMasking.maskField('dateOfBirth', String(urla.dateOfBirth)) : urla.dateOfBirth,
+    };
+  }
+
+  private findBorrowerParty(deal: any): any {
+    return deal.PARTIES.PARTY.find((party: any) =>
+      party.ROLES.ROLE.some((role: any) => role.ROLE_DETAIL.PartyRoleType === 'Borrower')
+    );
+  }
+
+  private buildSubjectProperty(loan: MismoLoan) {
+    const { property } = loan;
+    return {
+      ADDRESS: {
+        AddressLineText: property.address,
+        CityName: property.city,
+        CountryCode: 'US',
+        PostalCode: property.zipCode,
+        StateCode: property.state,
+      },
+      PROPERTY_DETAIL: {
+        FinancedUnitCount: property.propertyType === 'multi_family' ? undefined : 1,
+        PropertyEstimatedValueAmount: amount(property.propertyValue),
+        PropertyUsageType: 'Investment',
+      },
+      SALES_CONTRACTS: {
+        SALES_CONTRACT: { SALES_CONTRACT_DETAIL: { SalesContractAmount: amount(property.purchasePrice) } }
+      },
+    };
+  }
+
+  private buildLoan(loan: MismoLoan) {
+    const purposeType = LOAN_PURPOSE_TYPES[loan.loanPurpose || ''] || 'Other';
+    return {
+      '@_LoanRoleType': 'SubjectLoan',
+      AMORTIZATION: {
+        AMORTIZATION_RULE: {
+          AmortizationType: 'Fixed',
+          LoanAmortizationPeriodCount: loan.termMonths,
+          LoanAmortizationPeriodType: loan.termMonths ? 'Month' : undefined,
+        }
+      },
+      LOAN_IDENTIFIERS: {
+        LOAN_IDENTIFIER: { LoanIdentifier: `LA-${loan.id}`, LoanIdentifierType: 'LenderLoan' }
+      },
+      LTV: { LTVRatioPercent: amount(loan.ltv) },
+      MATURITY: {
+        MATURITY_RULE: {
+          LoanMaturityPeriodCount: loan.termMonths,
+          LoanMaturityPeriodType: loan.termMonths ? 'Month' : undefined,
+        }
+      },
+      TERMS_OF_LOAN: {
+        BaseLoanAmount: amount(loan.requestedAmount),
+        LoanPurposeType: purposeType,
+        MortgageType: 'Other',
+        MortgageTypeOtherDescription: 'BusinessPurpose',
+        NoteRatePercent: loan.interestRate || undefined,
+      },
+      // Business-purpose fields with no MISMO equivalent
+      EXTENSION: {
+        OTHER: {
+          'LD:LOAN_DADDY_EXTENSION': {
+            'LD:AfterRepairValueAmount': amount(loan.property.arv),
+            'LD:DebtServiceCoverageRatio': loan.dscr || undefined,
+            'LD:ExitStrategy': loan.exitStrategy,
+            'LD:LoanPurpose': loan.loanPurpose,
+            'LD:LoanType': loan.loanType,
+            'LD:MonthlyExpensesAmount': amount(loan.monthlyExpenses),
+            'LD:MonthlyRentAmount': amount(loan.monthlyRent),
+            'LD:PropertyType': loan.property.propertyType,
+            'LD:RehabCostAmount': amount(loan.property.rehabCost),
+          }
+        }
+      },
+    };
+  }
+
+  private buildBorrowerParty(loan: MismoLoan, urla: UrlaData) {
+    const { borrower } = loan;
+    const dependentAges = String(urla.dependentsAges || '')
+      .split(',')
+      .map(age => age.trim())
+      .filter(Boolean);
+
+    return {
+      INDIVIDUAL: {
+        CONTACT_POINTS: {
+          CONTACT_POINT: [
+            { CONTACT_POINT_EMAIL: { ContactPointEmailValue: urla.email || borrower.email } },
+            {
+              CONTACT_POINT_TELEPHONE: { ContactPointTelephoneValue: (urla.cellPhone || borrower.phone || '').replace(/\D/g, '') },
+              CONTACT_POINT_DETAIL: { ContactPointRoleType: 'Mobile' }
+            },
+          ]
+        },
+        NAME: {
+          FirstName: urla.firstName || borrower.firstName,
+          LastName: urla.lastName || borrower.lastName,
+          MiddleName: urla.middleName,
+          SuffixName: urla.suffix,
+        },
+      },
+      ROLES: {
+        ROLE: {
+          '@_xlink:label': 'BORROWER_1',
+          BORROWER: {
+            BORROWER_DETAIL: {
+              BorrowerBirthDate: urla.dateOfBirth,
+              DependentCount: urla.dependentsNumber,
+              MaritalStatusType: MARITAL_STATUS_TYPES[urla.maritalStatus],
+            },
+            CURRENT_INCOME: {
+              CURRENT_INCOME_ITEMS: {
+                CURRENT_INCOME_ITEM: INCOME_FIELDS
+                  .filter(({ field }) => parseFloat(urla[field] || '0') > 0)
+                  .map(({ field, incomeType }) => ({
+                    CURRENT_INCOME_ITEM_DETAIL: {
+                      CurrentIncomeMonthlyTotalAmount: amount(urla[field]),
+                      EmploymentIncomeIndicator: incomeType !== 'Other',
+                      IncomeType: incomeType,
+                    }
+                  }))
+              }
+            },
+            DECLARATION: {
+              DECLARATION_DETAIL: { CitizenshipResidencyType: CITIZENSHIP_TYPES[urla.citizenship] }
+            },
+            DEPENDENTS: {
+              DEPENDENT: dependentAges.map(age => ({ DependentAgeYearsCount: age }))
+            },
+            EMPLOYERS: { EMPLOYER: this.buildEmployers(urla) },
+            RESIDENCES: {
+              RESIDENCE: {
+                ADDRESS: {
+                  AddressLineText: urla.currentStreet || borrower.address,
+                  AddressUnitIdentifier: urla.currentUnit,
+                  CityName: urla.currentCity || borrower.city,
+                  CountryCode: urla.currentCountry || 'US',
+                  PostalCode: urla.currentZip || borrower.zipCode,
+                  StateCode: urla.currentState || borrower.state,
+                },
+                LANDLORD: { LANDLORD_DETAIL: { MonthlyRentAmount: amount(urla.currentRentAmount) } },
+                RESIDENCE_DETAIL: {
+                  BorrowerResidencyBasisType: RESIDENCY_BASIS_TYPES[urla.currentHousing],
+                  BorrowerResidencyDurationMonthsCount: urla.currentAddressYears !== undefined
+                    ? parseInt(urla.currentAddressYears || '0') * 12 + parseInt(urla.currentAddressMonths || '0')
+                    : undefined,
+                  BorrowerResidencyType: 'Current',
+                },
+              }
+            },
+          },
+          ROLE_DETAIL: { PartyRoleType: 'Borrower' },
+        }
+      },
+      TAXPAYER_IDENTIFIERS: {
+        TAXPAYER_IDENTIFIER: {
+          TaxpayerIdentifierType: urla.ssn ? 'SocialSecurityNumber' : undefined,
+          TaxpayerIdentifierValue: urla.ssn
+            ? piiMasking.isMasked(urla.ssn) ? urla.ssn : String(urla.ssn).replace(/\D/g, '')
+            : undefined,
+        }
+      },
+    };
+  }
+
+  private buildEmployers(urla: UrlaData) {
+    const employers = [];
+    if (urla.employerName) {
+      employers.push({
+        ADDRESS: {
+          AddressLineText: urla.employerStreet,
+          CityName: urla.employerCity,
+          PostalCode: urla.employerZip,
+          StateCode: urla.employerState,
+        },
+        LEGAL_ENTITY: { LEGAL_ENTITY_DETAIL: { FullName: urla.employerName } },
+        EMPLOYMENT: {
+          EmploymentBorrowerSelfEmployedIndicator: Boolean(urla.selfEmployed),
+          EmploymentClassificationType: 'Primary',
+          EmploymentPositionDescription: urla.position,
+          EmploymentStartDate: urla.startDate,
+          EmploymentStatusType: 'Current',
+        },
+      });
+    }
+    if (urla.previousEmployment && urla.previousEmployerName) {
+      employers.push({
+        LEGAL_ENTITY: { LEGAL_ENTITY_DETAIL: { FullName: urla.previousEmployerName } },
+        EMPLOYMENT: {
+          EmploymentClassificationType: 'Primary',
+          EmploymentEndDate: urla.previousEndDate,
+          EmploymentPositionDescription: urla.previousPosition,
+          EmploymentStartDate: urla.previousStartDate,
+          EmploymentStatusType: 'Previous',
+        },
+      });
+    }
+    return employers;
+  }
+
+  private buildAssets(urla: UrlaData) {
+    const assets = ASSET_FIELDS
+      .filter(({ prefix }) => parseFloat(urla[`${prefix}Value1`] || '0') > 0)
+      .map(({ prefix, assetType }, index) => ({
+        '@_xlink:label': `ASSET_${index + 1}`,
+        ASSET_DETAIL: {
+          AssetAccountIdentifier: urla[`${prefix}AccountNumber1`],
+          AssetCashOrMarketValueAmount: amount(urla[`${prefix}Value1`]),
+          AssetType: assetType,
+        },
+        ASSET_HOLDER: { NAME: { FullName: urla[`${prefix}Institution1`] } },
+      }));
+    return assets.length > 0 ? { ASSET: assets } : undefined;
+  }
+
+  private buildRelationships(urla: UrlaData) {
+    const assetCount = ASSET_FIELDS.filter(({ prefix }) => parseFloat(urla[`${prefix}Value1`] || '0') > 0).length;
+    if (assetCount === 0) return undefined;
+    return {
+      RELATIONSHIP: Array.from({ length: assetCount }, (_, index) => ({
+        '@_xlink:arcrole': ASSET_ARCROLE,
+        '@_xlink:from': `ASSET_${index + 1}`,
+        '@_xlink:to': 'BORROWER_1',
+      }))
+    };
+  }
+
+  // Maps the imported borrower back onto URLA form fields so the full application can be reviewed
+  private readUrlaData(deal: any, party: any, role: any, residence: any): UrlaData {
+    const borrower = role.BORROWER || {};
+    const name = party.INDIVIDUAL?.NAME || {};
+    const contactPoints: any[] = party.INDIVIDUAL?.CONTACT_POINTS?.CONTACT_POINT || [];
+    const employers: any[] = borrower.EMPLOYERS?.EMPLOYER || [];
+    const current = employers.find(employer => employer.EMPLOYMENT?.EmploymentStatusType === 'Current');
+    const previous = employers.find(employer => employer.EMPLOYMENT?.EmploymentStatusType === 'Previous');
+    const incomeItems: any[] = borrower.CURRENT_INCOME?.CURRENT_INCOME_ITEMS?.CURRENT_INCOME_ITEM || [];
+    const assets: any[] = deal.ASSETS?.ASSET || [];
+    const ssn = party.TAXPAYER_IDENTIFIERS?.TAXPAYER_IDENTIFIER?.find(
+      (identifier: any) => identifier.TaxpayerIdentifierType === 'SocialSecurityNumber'
+    );
+    const durationMonths = parseInt(residence?.RESIDENCE_DETAIL?.BorrowerResidencyDurationMonthsCount || '0');
+
+    const urla: UrlaData = {
+      firstName: name.FirstName,
+      middleName: name.MiddleName,
+      lastName: name.LastName,
+      suffix: name.SuffixName,
+      ssn: ssn?.TaxpayerIdentifierValue,
+      dateOfBirth: borrower.BORROWER_DETAIL?.BorrowerBirthDate,
+      citizenship: invert(CITIZENSHIP_TYPES)[borrower.DECLARATION?.DECLARATION_DETAIL?.CitizenshipResidencyType],
+      maritalStatus: invert(MARITAL_STATUS_TYPES)[borrower.BORROWER_DETAIL?.MaritalStatusType],
+      dependentsNumber: borrower.BORROWER_DETAIL?.DependentCount,
+      dependentsAges: (borrower.DEPENDENTS?.DEPENDENT || []).map((dependent: any) => dependent.DependentAgeYearsCount).join(', '),
+      email: contactPoints.find(point => point.CONTACT_POINT_EMAIL)?.CONTACT_POINT_EMAIL.ContactPointEmailValue,
+      cellPhone: contactPoints.find(point => point.CONTACT_POINT_TELEPHONE)?.CONTACT_POINT_TELEPHONE.ContactPointTelephoneValue,
+      currentStreet: residence?.ADDRESS?.AddressLineText,
+      currentUnit: residence?.ADDRESS?.AddressUnitIdentifier,
+      currentCity: residence?.ADDRESS?.CityName,
+      currentState: residence?.ADDRESS?.StateCode,
+      currentZip: residence?.ADDRESS?.PostalCode,
+      currentCountry: residence?.ADDRESS?.CountryCode,
+      currentAddressYears: String(Math.floor(durationMonths / 12)),
+      currentAddressMonths: String(durationMonths % 12),
+      currentHousing: invert(RESIDENCY_BASIS_TYPES)[residence?.RESIDENCE_DETAIL?.BorrowerResidencyBasisType],
+      currentRentAmount: residence?.LANDLORD?.LANDLORD_DETAIL?.MonthlyRentAmount,
+      employerName: current?.LEGAL_ENTITY?.LEGAL_ENTITY_DETAIL?.FullName,
+      employerStreet: current?.ADDRESS?.AddressLineText,
+      employerCity: current?.ADDRESS?.CityName,
+      employerState: current?.ADDRESS?.StateCode,
+      employerZip: current?.ADDRESS?.PostalCode,
+      position: current?.EMPLOYMENT?.EmploymentPositionDescription,
+      startDate: current?.EMPLOYMENT?.EmploymentStartDate,
+      selfEmployed: current?.EMPLOYMENT?.EmploymentBorrowerSelfEmployedIndicator === 'true',
+      previousEmployment: Boolean(previous),
+      previousEmployerName: previous?.LEGAL_ENTITY?.LEGAL_ENTITY_DETAIL?.FullName,
+      previousPosition: previous?.EMPLOYMENT?.EmploymentPositionDescription,
+      previousStartDate: previous?.EMPLOYMENT?.EmploymentStartDate,
+      previousEndDate: previous?.EMPLOYMENT?.EmploymentEndDate,
+    };
+
+    for (const { field, incomeType } of INCOME_FIELDS) {
+      const item = incomeItems.find(candidate => candidate.CURRENT_INCOME_ITEM_DETAIL?.IncomeType === incomeType);
+      if (item) urla[field] = item.CURRENT_INCOME_ITEM_DETAIL.CurrentIncomeMonthlyTotalAmount;
+    }
+
+    for (const { prefix, assetType } of ASSET_FIELDS) {
+      const asset = assets.find(candidate => candidate.ASSET_DETAIL?.AssetType === assetType);
+      if (!asset) continue;
+      urla[`${prefix}Institution1`] = asset.ASSET_HOLDER?.NAME?.FullName;
+      urla[`${prefix}AccountNumber1`] = asset.ASSET_DETAIL.AssetAccountIdentifier;
+      urla[`${prefix}Value1`] = asset.ASSET_DETAIL.AssetCashOrMarketValueAmount;
+    }
+
+    return compact(urla) || {};
+  }
+}
+
+export const mismoService = MismoService.getInstance();
@@ -0,0 +1,276 @@
+// Notification Channels
+// Provider adapters the notification queue delivers through: SMTP, Gmail, Exchange, Twilio and a local outbox for development.
+// The Gmail, Exchange and Twilio integrations are imported on first send so their SDKs are only needed once configured.
+
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import type { EmailMessage } from "./email-integration";
+
+export type NotificationChannel = 'email' | 'sms';
+
+// A notification rendered for delivery; html is only set for email
+export interface OutboundMessage {
+  notificationId: number;
+  channel: NotificationChannel;
+  to: string;
+  subject: string | null;
+  text: string;
+  html?: string;
+}
+
+export interface ChannelAdapter {
+  provider: string;
+  channels: NotificationChannel[];
+  isConfigured(): boolean;
+  // Resolves to the provider's message id when it returns one
+  send(message: OutboundMessage): Promise<string | null>;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Minimal SMTP client: one connection per message, STARTTLS when offered and AUTH PLAIN when credentials are set
+class SmtpSession {
+  private buffer = '';
+
+  constructor(private socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+  }
+
+  static async open(host: string, port: number, secure: boolean): Promise<SmtpSession> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connected = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(connected))
+        : net.connect({ host, port }, () => resolve(connected));
+      connected.once('error', reject);
+    });
+    const session = new SmtpSession(socket);
+    await session.expect(220);
+    return session;
+  }
+
+  async command(line: string, ...accepted: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...accepted);
+  }
+
+  async startTls(host: string): Promise<void> {
+    await this.command('STARTTLS', 220);
+    this.socket = await new Promise<net.Socket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    });
+    this.socket.setTimeout(SMTP_TIMEOUT_MS, () => this.socket.destroy(new Error('SMTP server timed out')));
+    this.buffer = '';
+  }
+
+  close(): void {
+    this.socket.end('QUIT\r\n');
+  }
+
+  private expect(...accepted: number[]): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        this.socket.off('data', onData);
+        this.socket.off('error', onError);
+        this.socket.off('close', onClose);
+      };
+      const tryReply = () => {
+        const lines = this.buffer.split('\r\n');
+        const last = lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+        if (last === -1) return;
+
+        cleanup();
+        this.buffer = lines.slice(last + 1).join('\r\n');
+        const reply = { code: parseInt(lines[last].slice(0, 3)), lines: lines.slice(0, last + 1).map(line => line.slice(4)) };
+        if (accepted.includes(reply.code)) {
+          resolve(reply);
+        } else {
+          reject(new Error(`SMTP ${reply.code}: ${reply.lines.join(' ')}`));
+        }
+      };
+      const onData = (chunk: Buffer) => {
+        this.buffer += chunk.toString('utf8');
+        tryReply();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('SMTP connection closed'));
+      };
+
+      this.socket.on('data', onData);
+      this.socket.once('error', onError);
+      this.socket.once('close', onClose);
+      tryReply();
+    });
+  }
+}
+
+// RFC 2047 encoded word for header values outside printable ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+export class SmtpAdapter implements ChannelAdapter {
+  provider = 'smtp';
+  channels: NotificationChannel[] = ['email'];
+
+  isConfigured(): boolean {
+    return !!process.env.SMTP_HOST && !!this.getFrom();
+  }
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const host = process.env.SMTP_HOST!;
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    const secure = process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465;
+    const from = this.getFrom()!;
+    const messageId = `<${randomUUID()}@${from.split('@')[1] || os.hostname()}>`;
+
+    const session = await SmtpSession.open(host, port, secure);
+    try {
+      const hello = await session.command(`EHLO ${os.hostname()}`, 250);
+      if (!secure && hello.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await session.startTls(host);
+        await session.command(`EHLO ${os.hostname()}`, 250);
+      }
+      if (process.env.SMTP_USER) {
+        const credentials = Buffer.from(`\0${process.env.SMTP_USER}\0${process.env.SMTP_PASSWORD || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${from}>`, 250);
+      await session.command(`RCPT TO:<${message.to}>`, 250, 251);
+      await session.command('DATA', 354);
+      // Dot-stuffing per RFC 5321; the base64 bodies never need it but headers might
+      const data = this.buildMessage(message, from, messageId).replace(/^\./gm, '..');
+      await session.command(`${data}\r\n.`, 250);
+    } finally {
+      session.close();
+    }
+    return messageId;
+  }
+
+  private getFrom(): string | undefined {
+    return process.env.SMTP_FROM || process.env.NOTIFICATION_FROM_EMAIL;
+  }
+
+  private buildMessage(message: OutboundMessage, from: string, messageId: string): string {
+    const boundary = `alt_${randomUUID()}`;
+    return [
+      `From: ${from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject || '')}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(message.text),
+      `--${boundary}`,
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(message.html || message.text),
+      `--${boundary}--`,
+    ].join('\r\n');
+  }
+}
+
+function toEmailMessage(message: OutboundMessage): EmailMessage {
+  return {
+    id: '',
+    contactId: 0,
+    to: [message.to],
+    subject: message.subject || '',
+    body: message.html || message.text,
+    isHtml: !!message.html,
+    status: 'draft',
+    timestamp: new Date()
+  };
+}
+
+export class GmailAdapter implements ChannelAdapter {
+  provider = 'gmail';
+  channels: NotificationChannel[] = ['email'];
+
+  isConfigured(): boolean {
+    return !!process.env.GMAIL_CLIENT_ID && !!process.env.GMAIL_REFRESH_TOKEN;
+  }
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const { emailIntegration } = await import('./email-integration');
+    return emailIntegration.sendCustomEmail(toEmailMessage(message), 'gmail');
+  }
+}
+
+// Sends from the EXCHANGE_SENDER_EMAIL mailbox through Microsoft Graph
+export class ExchangeAdapter implements ChannelAdapter {
+  provider = 'exchange';
+  channels: NotificationChannel[] = ['email'];
+
+  isConfigured(): boolean {
+    return !!process.env.EXCHANGE_CLIENT_ID && !!process.env.EXCHANGE_SENDER_EMAIL;
+  }
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const { emailIntegration } = await import('./email-integration');
+    // Graph does not return an id for sent mail
+    await emailIntegration.sendCustomEmail(toEmailMessage(message), 'exchange', process.env.EXCHANGE_SENDER_EMAIL);
+    return null;
+  }
+}
+
+export class TwilioAdapter implements ChannelAdapter {
+  provider = 'twilio';
+  channels: NotificationChannel[] = ['sms'];
+
+  isConfigured(): boolean {
+    return !!process.env.TWILIO_ACCOUNT_SID && !!process.env.TWILIO_AUTH_TOKEN && !!process.env.TWILIO_PHONE_NUMBER;
+  }
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const { twilioIntegration } = await import('./twilio-integration');
+    const sms = await twilioIntegration.sendSMS(message.to, message.text);
+    return sms?.id || null;
+  }
+}
+
+// Appends each message as a JSON line to NOTIFICATION_OUTBOX_FILE, or logs it when no file is set
+export class LocalOutboxAdapter implements ChannelAdapter {
+  provider = 'local';
+  channels: NotificationChannel[] = ['email', 'sms'];
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    const id = `local-${randomUUID()}`;
+    const entry = { id, sentAt: new Date().toISOString(), ...message };
+    if (process.env.NOTIFICATION_OUTBOX_FILE) {
+      await fs.appendFile(process.env.NOTIFICATION_OUTBOX_FILE, `${JSON.stringify(entry)}\n`);
+    } else {
+      console.log(`[notification outbox] ${message.channel} to ${message.to}: ${message.subject || message.text}`);
+    }
+    return id;
+  }
+}
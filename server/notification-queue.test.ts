@@ -0,0 +1,132 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; dispatching to registered adapters never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { notificationQueue, NotificationDeliveryError } = await import("./notification-queue");
+const { smsThreadService } = await import("./sms-thread-service");
+
+type ChannelAdapter = import("./notification-channels").ChannelAdapter;
+type NotificationChannel = import("./notification-channels").NotificationChannel;
+type OutboundMessage = import("./notification-channels").OutboundMessage;
+type Notification = import("@shared/schema").Notification;
+
+class FakeAdapter implements ChannelAdapter {
+  sent: OutboundMessage[] = [];
+
+  constructor(
+    public provider: string,
+    public channels: NotificationChannel[],
+    private failure: string | null = null,
+    private configured = true,
+  ) {}
+
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  async send(message: OutboundMessage): Promise<string | null> {
+    if (this.failure) throw new Error(this.failure);
+    this.sent.push(message);
+    return `${this.provider}-1`;
+  }
+}
+
+const notification = { id: 5, loanApplicationId: 3, borrowerId: 2, type: 'email', recipient: 'dana@example.com', message: 'Your appraisal is in' } as Notification;
+const email: OutboundMessage = { notificationId: 5, channel: 'email', to: 'dana@example.com', subject: 'An update on your loan', text: 'Your appraisal is in' };
+
+function useProviders(...adapters: FakeAdapter[]) {
+  adapters.forEach(adapter => notificationQueue.registerAdapter(adapter));
+  process.env.NOTIFICATION_EMAIL_PROVIDERS = adapters.map(adapter => adapter.provider).join(',');
+}
+
+afterEach(() => {
+  delete process.env.NOTIFICATION_EMAIL_PROVIDERS;
+  delete process.env.NOTIFICATION_TRANSPORT;
+  mock.restoreAll();
+});
+
+describe("provider selection", () => {
+  test("follows the configured order and skips providers that are unconfigured or cannot carry the channel", () => {
+    useProviders(
+      new FakeAdapter('fake-smtp', ['email'], null, false),
+      new FakeAdapter('fake-sms', ['sms']),
+      new FakeAdapter('fake-gmail', ['email']),
+    );
+    assert.deepEqual(notificationQueue.getProviders('email').map(adapter => adapter.provider), ['fake-gmail']);
+  });
+
+  test("routes every channel to the local outbox when the local transport is selected", () => {
+    process.env.NOTIFICATION_TRANSPORT = 'local';
+    assert.deepEqual(notificationQueue.getProviders('email').map(adapter => adapter.provider), ['local']);
+    assert.deepEqual(notificationQueue.getProviders('sms').map(adapter => adapter.provider), ['local']);
+  });
+});
+
+describe("dispatch", () => {
+  test("falls back to the next provider and records which one sent the message", async () => {
+    const fallback = new FakeAdapter('fake-exchange', ['email']);
+    useProviders(new FakeAdapter('fake-smtp', ['email'], 'Connection refused'), fallback);
+
+    const changes = await notificationQueue.dispatch(notification, email, 1);
+    assert.equal(changes.status, 'sent');
+    assert.equal(changes.provider, 'fake-exchange');
+    assert.equal(changes.providerMessageId, 'fake-exchange-1');
+    assert.equal(changes.lastError, null);
+    assert.ok(changes.sentAt instanceof Date);
+    assert.deepEqual(fallback.sent, [email]);
+  });
+
+  test("backs off 1, 4 and 16 minutes, then hourly, with every provider's error", async () => {
+    useProviders(new FakeAdapter('fake-smtp', ['email'], 'Connection refused'), new FakeAdapter('fake-gmail', ['email'], 'Token expired'));
+
+    const delays: number[] = [];
+    for (const attempts of [1, 2, 3, 4]) {
+      const before = Date.now();
+      const changes = await notificationQueue.dispatch(notification, email, attempts);
+      assert.equal(changes.status, 'pending');
+      assert.equal(changes.lastError, 'fake-smtp: Connection refused; fake-gmail: Token expired');
+      delays.push(Math.round((changes.nextAttemptAt!.getTime() - before) / 60000));
+    }
+    assert.deepEqual(delays, [1, 4, 16, 60]);
+  });
+
+  test("fails the notification on the fifth attempt", async () => {
+    useProviders(new FakeAdapter('fake-smtp', ['email'], 'Connection refused'));
+    const changes = await notificationQueue.dispatch(notification, email, 5);
+    assert.deepEqual(changes, { status: 'failed', attempts: 5, lastError: 'fake-smtp: Connection refused', nextAttemptAt: null });
+  });
+
+  test("keeps retrying when no provider is configured for the channel", async () => {
+    process.env.NOTIFICATION_EMAIL_PROVIDERS = 'unregistered';
+    const changes = await notificationQueue.dispatch(notification, email, 1);
+    assert.equal(changes.status, 'pending');
+    assert.equal(changes.lastError, 'No email provider is configured');
+  });
+
+  test("threads sent texts and still reports them sent when threading fails", async () => {
+    process.env.NOTIFICATION_TRANSPORT = 'local';
+    const recordNotification = mock.method(smsThreadService, 'recordNotification', async () => {
+      throw new Error('database unavailable');
+    });
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+
+    const sms: OutboundMessage = { notificationId: 5, channel: 'sms', to: '+15125550142', subject: null, text: 'Your appraisal is in' };
+    const changes = await notificationQueue.dispatch({ ...notification, type: 'sms' }, sms, 1);
+    assert.equal(changes.status, 'sent');
+    assert.equal(changes.provider, 'local');
+    assert.equal(recordNotification.mock.callCount(), 1);
+    assert.equal(recordNotification.mock.calls[0].arguments[1], '+15125550142');
+  });
+});
+
+describe("rendering", () => {
+  test("permanently fails a notification with no message", async () => {
+    await assert.rejects(notificationQueue.render({ ...notification, message: '  ' }), (error: unknown) => {
+      assert.ok(error instanceof NotificationDeliveryError);
+      assert.equal(error.permanent, true);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,302 @@
+// Notification Queue
+// Claims pending notification rows, renders them and delivers them through the configured channel providers with retries and fallback
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { tenantContext } from "./tenant-context";
+import { templateEngine } from "./template-engine";
+import { consentService, normalizePhoneNumber, type ConsentChannel } from "./consent-service";
+import { smsThreadService } from "./sms-thread-service";
+import {
+  ExchangeAdapter,
+  GmailAdapter,
+  LocalOutboxAdapter,
+  SmtpAdapter,
+  TwilioAdapter,
+  type ChannelAdapter,
+  type NotificationChannel,
+  type OutboundMessage,
+} from "./notification-channels";
+import { loanApplications, notifications, type Notification } from "@shared/schema";
+import { and, asc, count, eq, inArray, isNull, lte, or } from "drizzle-orm";
+
+export interface NotificationQueueStats {
+  pending: number;
+  sending: number;
+  sent: number;
+  failed: number;
+}
+
+export class NotificationDeliveryError extends Error {
+  // Permanent errors fail the notification without further retries; retryAt defers it without using up an attempt
+  constructor(message: string, public permanent = false, public retryAt?: Date) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+const TICK_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000; // 1, 4, 16 then 60 minutes between attempts
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const SEND_LEASE_MS = 10 * 60 * 1000; // rows a crashed worker left in 'sending' are claimed again after this
+const DEFAULT_EMAIL_SUBJECT = 'An update on your loan';
+
+const CHANNELS: NotificationChannel[] = ['email', 'sms'];
+const DEFAULT_PROVIDER_ORDER: Record<NotificationChannel, string[]> = {
+  email: ['smtp', 'gmail', 'exchange'],
+  sms: ['twilio'],
+};
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export class NotificationQueueService {
+  private static instance: NotificationQueueService;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private adapters: Map<string, ChannelAdapter> = new Map();
+
+  public static getInstance(): NotificationQueueService {
+    if (!NotificationQueueService.instance) {
+      NotificationQueueService.instance = new NotificationQueueService();
+    }
+    return NotificationQueueService.instance;
+  }
+
+  constructor() {
+    [new SmtpAdapter(), new GmailAdapter(), new ExchangeAdapter(), new TwilioAdapter(), new LocalOutboxAdapter()]
+      .forEach(adapter => this.registerAdapter(adapter));
+  }
+
+  // Starts the worker that delivers due notifications every few seconds
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      tenantContext.runAsSystem(() => this.processDue()).catch(error => console.error('Notification queue error:', error));
+    }, TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Adds or replaces the adapter for adapter.provider
+  registerAdapter(adapter: ChannelAdapter): void {
+    this.adapters.set(adapter.provider, adapter);
+  }
+
+  // Configured adapters for a channel in fallback order. NOTIFICATION_TRANSPORT=local sends everything to the local
+  // outbox; NOTIFICATION_EMAIL_PROVIDERS and NOTIFICATION_SMS_PROVIDERS (comma separated) override the default order.
+  getProviders(channel: NotificationChannel): ChannelAdapter[] {
+    const configuredOrder = process.env[`NOTIFICATION_${channel.toUpperCase()}_PROVIDERS`];
+    const names = process.env.NOTIFICATION_TRANSPORT === 'local'
+      ? ['local']
+      : configuredOrder
+        ? configuredOrder.split(',').map(name => name.trim()).filter(Boolean)
+        : DEFAULT_PROVIDER_ORDER[channel];
+
+    return names
+      .map(name => this.adapters.get(name))
+      .filter((adapter): adapter is ChannelAdapter =>
+        !!adapter && adapter.channels.includes(channel) && adapter.isConfigured());
+  }
+
+  // Delivers one batch of due notifications; channels without a configured provider stay pending
+  async processDue(): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const channels = CHANNELS.filter(channel => this.getProviders(channel).length > 0);
+      if (channels.length === 0) return 0;
+
+      const claimed = await this.claim(channels);
+      for (const notification of claimed) {
+        try {
+          await this.deliver(notification);
+        } catch (error) {
+          console.error(`Failed to deliver notification ${notification.id}:`, error);
+        }
+      }
+      return claimed.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // One delivery attempt: renders the notification, dispatches it and records the outcome on the row
+  async deliver(notification: Notification): Promise<Notification> {
+    const attempts = notification.attempts + 1;
+
+    let message: OutboundMessage;
+    try {
+      message = await this.render(notification);
+    } catch (error) {
+      if (!(error instanceof NotificationDeliveryError)) throw error;
+      if (error.retryAt) {
+        return this.record(notification.id, { status: 'pending', lastError: error.message, nextAttemptAt: error.retryAt });
+      }
+      return this.record(notification.id, { status: 'failed', attempts, lastError: error.message, nextAttemptAt: null });
+    }
+
+    return this.record(notification.id, await this.dispatch(notification, message, attempts));
+  }
+
+  // Tries every configured provider in order and returns the row changes for the attempt: sent by the first provider
+  // that accepts the message, otherwise pending with a backoff until the last attempt fails it
+  async dispatch(notification: Notification, message: OutboundMessage, attempts: number): Promise<Partial<Notification>> {
+    const errors: string[] = [];
+    for (const adapter of this.getProviders(message.channel)) {
+      try {
+        const providerMessageId = await adapter.send(message);
+        if (message.channel === 'sms') {
+          // Bookkeeping only: a thread failure must not send the text again
+          await smsThreadService.recordNotification(notification, message.to, providerMessageId)
+            .catch(error => console.error(`Failed to thread notification ${notification.id}:`, error));
+        }
+        return {
+          status: 'sent',
+          attempts,
+          provider: adapter.provider,
+          providerMessageId,
+          lastError: null,
+          nextAttemptAt: null,
+          sentAt: new Date()
+        };
+      } catch (error) {
+        errors.push(`${adapter.provider}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const lastError = errors.length > 0 ? errors.join('; ') : `No ${message.channel} provider is configured`;
+    if (attempts >= MAX_ATTEMPTS) {
+      return { status: 'failed', attempts, lastError, nextAttemptAt: null };
+    }
+    return {
+      status: 'pending',
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + this.getRetryDelay(attempts))
+    };
+  }
+
+  // Message as the providers receive it, emails in the loan organization's branded layout; rows that can never be
+  // delivered throw a permanent error and texts inside the recipient's quiet hours are deferred
+  async render(notification: Notification): Promise<OutboundMessage> {
+    const text = notification.message.trim();
+    if (!text) {
+      throw new NotificationDeliveryError('Notification has no message', true);
+    }
+
+    const [loan] = await db
+      .select({ organizationId: loanApplications.organizationId })
+      .from(loanApplications)
+      .where(eq(loanApplications.id, notification.loanApplicationId));
+
+    if (notification.type === 'sms') {
+      const to = normalizePhoneNumber(notification.recipient);
+      if (!to) {
+        throw new NotificationDeliveryError(`Invalid phone number: ${notification.recipient}`, true);
+      }
+      await this.checkConsent(to, 'sms', loan?.organizationId);
+      return { notificationId: notification.id, channel: 'sms', to, subject: null, text };
+    }
+
+    if (notification.type === 'email') {
+      const to = notification.recipient.trim();
+      if (!EMAIL_PATTERN.test(to)) {
+        throw new NotificationDeliveryError(`Invalid email address: ${notification.recipient}`, true);
+      }
+      await this.checkConsent(to, 'email', loan?.organizationId);
+      const html = templateEngine.renderEmailHtml(text, await templateEngine.getBranding(loan?.organizationId));
+      return {
+        notificationId: notification.id,
+        channel: 'email',
+        to,
+        subject: notification.subject?.trim() || DEFAULT_EMAIL_SUBJECT,
+        text,
+        html
+      };
+    }
+
+    throw new NotificationDeliveryError(`Unsupported notification type: ${notification.type}`, true);
+  }
+
+  // Puts a failed notification back in the queue with a fresh set of attempts
+  async retry(id: number): Promise<Notification | undefined> {
+    const notification = await storage.getNotification(id);
+    if (!notification) return undefined;
+    if (notification.status !== 'failed') {
+      throw new NotificationDeliveryError('Only failed notifications can be retried');
+    }
+    return this.record(id, { status: 'pending', attempts: 0, lastError: null, nextAttemptAt: null });
+  }
+
+  // Queue depth by status for the current organization's loans
+  async getStats(): Promise<NotificationQueueStats> {
+    const rows = await db
+      .select({ status: notifications.status, count: count() })
+      .from(notifications)
+      .innerJoin(loanApplications, eq(notifications.loanApplicationId, loanApplications.id))
+      .where(tenantContext.where(loanApplications.organizationId))
+      .groupBy(notifications.status);
+
+    const stats: NotificationQueueStats = { pending: 0, sending: 0, sent: 0, failed: 0 };
+    rows.forEach(row => {
+      if (row.status in stats) stats[row.status as keyof NotificationQueueStats] = row.count;
+    });
+    return stats;
+  }
+
+  // Consent as the loan's organization sees it
+  private async checkConsent(to: string, channel: ConsentChannel, organizationId?: number | null): Promise<void> {
+    const check = organizationId
+      ? await tenantContext.run(organizationId, () => consentService.checkContact(to, channel))
+      : await consentService.checkContact(to, channel);
+    if (check.allowed) return;
+    const message = check.message || `Contact with ${to} is not permitted`;
+    throw new NotificationDeliveryError(message, check.reason !== 'quiet_hours', check.retryAt);
+  }
+
+  // Atomically moves due rows to 'sending' so concurrent workers never deliver the same notification
+  private async claim(channels: NotificationChannel[]): Promise<Notification[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        inArray(notifications.type, channels),
+        or(
+          and(
+            eq(notifications.status, 'pending'),
+            or(isNull(notifications.nextAttemptAt), lte(notifications.nextAttemptAt, now))
+          ),
+          and(eq(notifications.status, 'sending'), lte(notifications.nextAttemptAt, now))
+        )
+      ))
+      .orderBy(asc(notifications.id))
+      .limit(BATCH_SIZE)
+      .for('update', { skipLocked: true });
+
+    return db
+      .update(notifications)
+      .set({ status: 'sending', nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) })
+      .where(inArray(notifications.id, due))
+      .returning();
+  }
+
+  private async record(id: number, changes: Partial<Notification>): Promise<Notification> {
+    const [updated] = await db.update(notifications).set(changes).where(eq(notifications.id, id)).returning();
+    return updated;
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * Math.pow(4, attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+}
+
+export const notificationQueue = NotificationQueueService.getInstance();
@@ -0,0 +1,120 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { paymentProcessor, PaymentCalculationError, type LoanCalculationRequest } from "./payment-processor";
+
+const calculate = (overrides: Partial<LoanCalculationRequest> = {}) => paymentProcessor.calculateLoanPayment({
+  principal: 300000,
+  interestRate: 7.5,
+  termYears: 30,
+  paymentFrequency: 'monthly',
+  startDate: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+describe("fixed-rate amortization", () => {
+  test("pays a 30-year note off in 360 level payments", async () => {
+    const result = await calculate();
+    assert.equal(result.monthlyPayment, 2097.64);
+    assert.equal(result.qualifyingPayment, 2097.64);
+    assert.equal(result.balloonPayment, null);
+    assert.equal(result.paymentSchedule.length, 360);
+    assert.equal(result.paymentSchedule.at(-1)!.remainingBalance, 0);
+    assert.deepEqual(result.summary.payoffDate, new Date(2056, 0, 1));
+  });
+
+  test("amortizes over up to 40 years", async () => {
+    const result = await calculate({ termYears: 40 });
+    assert.equal(result.monthlyPayment, 1974.21);
+    assert.equal(result.summary.totalPayments, 480);
+    await assert.rejects(calculate({ termYears: 41 }), PaymentCalculationError);
+  });
+
+  test("schedules quarterly payments a quarter apart", async () => {
+    const result = await calculate({ paymentFrequency: 'quarterly' });
+    assert.equal(result.monthlyPayment, 6303.36);
+    assert.equal(result.paymentSchedule.length, 120);
+    assert.deepEqual(result.paymentSchedule[0].paymentDate, new Date(2026, 3, 1));
+  });
+});
+
+describe("interest-only and balloon terms", () => {
+  test("charges interest only for the IO period, then amortizes over the remaining term", async () => {
+    const result = await calculate({ interestOnlyMonths: 120 });
+    assert.equal(result.monthlyPayment, 1875);
+    assert.equal(result.interestOnlyPayment, 1875);
+    // 300,000 re-amortized over the 240 payments left
+    assert.equal(result.amortizingPayment, 2416.78);
+    assert.equal(result.paymentSchedule[119].remainingBalance, 300000);
+    assert.equal(result.paymentSchedule.at(-1)!.remainingBalance, 0);
+    // DSCR is measured against the interest-only payment
+    assert.equal(result.qualifyingPayment, 1875);
+  });
+
+  test("amortizes on the full term and collects the remaining balance at a balloon maturity", async () => {
+    const result = await calculate({ balloonMonths: 60 });
+    assert.equal(result.monthlyPayment, 2097.64);
+    assert.equal(result.paymentSchedule.length, 60);
+    assert.equal(result.balloonPayment, 283852.31);
+    assert.equal(result.maxPayment, 2097.64);
+    assert.equal(result.paymentSchedule.at(-1)!.totalPayment, 285949.95);
+    assert.deepEqual(result.summary.payoffDate, new Date(2031, 0, 1));
+  });
+});
+
+describe("adjustable-rate schedules", () => {
+  test("moves a 5/6 ARM toward the fully indexed rate within its initial and periodic caps", async () => {
+    const result = await calculate({ interestRate: 6.5, arm: { product: '5/6', index: 6.3, margin: 2.75 } });
+    // 6.3 + 2.75 rounds to 9.0; the first reset is capped at +2, the next at +1
+    assert.equal(result.summary.fullyIndexedRate, 9);
+    assert.equal(result.paymentSchedule[59].interestRate, 6.5);
+    assert.equal(result.paymentSchedule[60].interestRate, 8.5);
+    assert.equal(result.paymentSchedule[66].interestRate, 9);
+    assert.equal(result.monthlyPayment, 1896.2);
+    assert.equal(result.maxPayment, 2355.64);
+    // Qualifies at the greater of the start rate and the fully indexed rate
+    assert.equal(result.qualifyingPayment, 2413.87);
+  });
+
+  test("holds the first seven years on a 7/6 ARM and never drops below the margin", async () => {
+    const sevenSix = await calculate({ interestRate: 6.5, arm: { product: '7/6', index: 6.3, margin: 2.75 } });
+    assert.equal(sevenSix.paymentSchedule[83].interestRate, 6.5);
+    assert.equal(sevenSix.paymentSchedule[84].interestRate, 9);
+
+    const falling = await calculate({ interestRate: 6.5, arm: { product: '5/6', index: 0, margin: 2.75 } });
+    assert.deepEqual([...new Set(falling.paymentSchedule.map(payment => payment.interestRate))], [6.5, 4.5, 3.5, 2.75]);
+  });
+
+  test("rejects unknown products and non-monthly adjustable schedules", async () => {
+    await assert.rejects(calculate({ arm: { product: '3/1' as '5/6', index: 4, margin: 2.75 } }), /Unsupported ARM product 3\/1/);
+    await assert.rejects(calculate({ paymentFrequency: 'quarterly', arm: { product: '5/6', index: 4, margin: 2.75 } }), PaymentCalculationError);
+  });
+});
+
+describe("rehab holdbacks", () => {
+  const bridge = (interestMethod: 'dutch' | 'non_dutch') => calculate({
+    principal: 250000,
+    interestRate: 12,
+    termYears: 1,
+    interestOnlyMonths: 12,
+    holdback: { amount: 50000, interestMethod, draws: [{ month: 4, amount: 25000 }] },
+  });
+
+  test("charges Dutch interest on the full note from the first payment", async () => {
+    const result = await bridge('dutch');
+    assert.deepEqual(result.paymentSchedule.slice(0, 5).map(payment => payment.interestPayment), [2500, 2500, 2500, 2500, 2500]);
+    assert.equal(result.paymentSchedule[3].drawAmount, 25000);
+  });
+
+  test("charges non-Dutch interest only on funds drawn and cancels the undrawn holdback at maturity", async () => {
+    const result = await bridge('non_dutch');
+    assert.deepEqual(result.paymentSchedule.slice(0, 5).map(payment => payment.interestPayment), [2000, 2000, 2000, 2250, 2250]);
+    assert.equal(result.monthlyPayment, 2000);
+    assert.equal(result.balloonPayment, 225000);
+    // DSCR still qualifies on the fully drawn note
+    assert.equal(result.qualifyingPayment, 2500);
+  });
+
+  test("rejects a holdback larger than the note", async () => {
+    await assert.rejects(calculate({ holdback: { amount: 300001, interestMethod: 'dutch' } }), /cannot exceed the loan amount/);
+  });
+});
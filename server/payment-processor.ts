@@ -1,4 +1,5 @@
 import { nanoid } from 'nanoid';
+import type { LoanPaymentTerms } from '@shared/schema';
 
 export interface PaymentIntentRequest {
   amount: number;
@@ -23,32 +24,76 @@ export interface PaymentIntent {
   metadata: Record<string, any>;
 }
 
-export interface LoanCalculationRequest {
-  principal: number;
-  interestRate: number;
-  termYears: number;
+export interface LoanCalculationRequest extends LoanPaymentTerms {
+  principal: number; // note amount, including any holdback
+  interestRate: number; // annual %, the start rate for ARMs
+  termYears: number; // amortization term, up to 40 years
   paymentFrequency: 'monthly' | 'quarterly' | 'annually';
+  startDate?: Date | string; // payments start one period after this date, defaults to today
 }
 
 export interface LoanCalculationResult {
-  monthlyPayment: number;
+  monthlyPayment: number; // first scheduled payment
   totalPayment: number;
   totalInterest: number;
+  interestOnlyPayment: number | null;
+  amortizingPayment: number | null; // first fully amortizing payment, null when the loan matures before amortizing
+  maxPayment: number; // largest regular payment, excluding any balloon
+  balloonPayment: number | null; // balance due at maturity on top of the last regular payment
+  qualifyingPayment: number;
   paymentSchedule: Array<{
     paymentNumber: number;
     paymentDate: Date;
+    interestRate: number;
     principalPayment: number;
     interestPayment: number;
     totalPayment: number;
     remainingBalance: number;
+    drawAmount?: number; // holdback funded this period
   }>;
   summary: {
     effectiveRate: number;
+    fullyIndexedRate?: number; // ARMs: index + margin, rounded to the nearest eighth
     payoffDate: Date;
     totalPayments: number;
   };
 }
 
+export class PaymentCalculationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentCalculationError';
+  }
+}
+
+interface ResolvedArmTerms {
+  fixedMonths: number;
+  adjustmentMonths: number;
+  fullyIndexedRate: number;
+  initialCap: number;
+  periodicCap: number;
+  ceiling: number;
+  floor: number;
+}
+
+const PAYMENTS_PER_YEAR: Record<LoanCalculationRequest['paymentFrequency'], number> = {
+  monthly: 12,
+  quarterly: 4,
+  annually: 1,
+};
+
+const MAX_TERM_YEARS = 40;
+
+// SOFR ARM products and their standard caps (initial / periodic / lifetime)
+const ARM_PRODUCTS: Record<string, { fixedMonths: number; adjustmentMonths: number; initialCap: number; periodicCap: number; lifetimeCap: number }> = {
+  '5/6': { fixedMonths: 60, adjustmentMonths: 6, initialCap: 2, periodicCap: 1, lifetimeCap: 5 },
+  '7/6': { fixedMonths: 84, adjustmentMonths: 6, initialCap: 5, periodicCap: 1, lifetimeCap: 5 },
+  '10/6': { fixedMonths: 120, adjustmentMonths: 6, initialCap: 5, periodicCap: 1, lifetimeCap: 5 },
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const roundToEighth = (rate: number) => Math.round(rate * 8) / 8;
+
 export interface FeeCalculation {
   feeType: string;
   description: string;
@@ -121,107 +166,163 @@ export class PaymentProcessor {
     }
   }
 
+  // Builds the payment schedule for fixed or adjustable notes with optional interest-only periods, balloon
+  // maturities and rehab holdbacks. Each amortizing payment re-amortizes the outstanding balance over the
+  // remaining term, so ARM resets and holdback draws flow into the payment from the period they take effect.
   async calculateLoanPayment(request: LoanCalculationRequest): Promise<LoanCalculationResult> {
-    try {
-      const { principal, interestRate, termYears, paymentFrequency } = request;
-      
-      // Convert annual rate to decimal and adjust for payment frequency
-      const annualRate = interestRate / 100;
-      let paymentsPerYear: number;
-      
-      switch (paymentFrequency) {
-        case 'monthly':
-          paymentsPerYear = 12;
-          break;
-        case 'quarterly':
-          paymentsPerYear = 4;
-          break;
-        case 'annually':
-          paymentsPerYear = 1;
-          break;
-        default:
-          throw new Error('Invalid payment frequency');
+    const { principal, interestRate, termYears, paymentFrequency } = request;
+    const paymentsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+    if (!paymentsPerYear) {
+      throw new PaymentCalculationError('Invalid payment frequency');
+    }
+    if (!(principal > 0) || !(interestRate >= 0) || !(termYears > 0) || termYears > MAX_TERM_YEARS) {
+      throw new PaymentCalculationError(`Principal and rate are required and the term cannot exceed ${MAX_TERM_YEARS} years`);
+    }
+    if (request.arm && paymentFrequency !== 'monthly') {
+      throw new PaymentCalculationError('Adjustable-rate schedules require monthly payments');
+    }
+    const holdbackAmount = request.holdback?.amount || 0;
+    if (holdbackAmount > principal) {
+      throw new PaymentCalculationError('The holdback cannot exceed the loan amount');
+    }
+
+    const monthsPerPayment = 12 / paymentsPerYear;
+    const totalPayments = Math.round(termYears * paymentsPerYear);
+    const interestOnlyPayments = Math.min(Math.round((request.interestOnlyMonths || 0) / monthsPerPayment), totalPayments);
+    const maturity = request.balloonMonths
+      ? Math.min(Math.max(Math.round(request.balloonMonths / monthsPerPayment), 1), totalPayments)
+      : totalPayments;
+    const arm = request.arm ? this.resolveArmTerms(request.arm, interestRate) : null;
+    const dutchInterest = request.holdback?.interestMethod === 'dutch';
+    const startDate = request.startDate ? new Date(request.startDate) : new Date();
+
+    let balance = principal - holdbackAmount; // funds disbursed and not yet repaid
+    let undrawn = holdbackAmount;
+    let rate = interestRate;
+    let adjustments = 0;
+    let totalPaid = 0;
+    let totalInterest = 0;
+    let maxPayment = 0;
+    let balloonPayment: number | null = null;
+    let interestOnlyPayment: number | null = null;
+    let amortizingPayment: number | null = null;
+    const paymentSchedule: LoanCalculationResult['paymentSchedule'] = [];
+
+    for (let i = 1; i <= maturity; i++) {
+      const monthsElapsed = (i - 1) * monthsPerPayment;
+
+      // Draws are funded at the start of the period they fall in
+      const drawAmount = Math.min(undrawn, (request.holdback?.draws || [])
+        .filter(draw => draw.month > monthsElapsed && draw.month <= monthsElapsed + monthsPerPayment)
+        .reduce((sum, draw) => sum + draw.amount, 0));
+      balance += drawAmount;
+      undrawn -= drawAmount;
+
+      if (arm && monthsElapsed >= arm.fixedMonths && (monthsElapsed - arm.fixedMonths) % arm.adjustmentMonths === 0) {
+        adjustments++;
+        rate = this.adjustArmRate(arm, rate, adjustments === 1);
       }
-      
-      const periodicRate = annualRate / paymentsPerYear;
-      const totalPayments = termYears * paymentsPerYear;
-      
-      // Calculate payment using standard loan formula
-      let paymentAmount: number;
-      if (periodicRate === 0) {
-        // No interest case
-        paymentAmount = principal / totalPayments;
-      } else {
-        paymentAmount = principal * (periodicRate * Math.pow(1 + periodicRate, totalPayments)) / 
-                      (Math.pow(1 + periodicRate, totalPayments) - 1);
+
+      const periodicRate = rate / 100 / paymentsPerYear;
+      const interestPayment = (dutchInterest ? balance + undrawn : balance) * periodicRate;
+      let principalPayment = 0;
+      if (i > interestOnlyPayments) {
+        principalPayment = this.getAmortizingPayment(balance, periodicRate, totalPayments - i + 1) - balance * periodicRate;
       }
-      
-      // Generate payment schedule
-      const paymentSchedule = [];
-      let remainingBalance = principal;
-      const startDate = new Date();
-      
-      for (let i = 1; i <= totalPayments; i++) {
-        const interestPayment = remainingBalance * periodicRate;
-        const principalPayment = paymentAmount - interestPayment;
-        remainingBalance = Math.max(0, remainingBalance - principalPayment);
-        
-        // Calculate payment date
-        const paymentDate = new Date(startDate);
-        switch (paymentFrequency) {
-          case 'monthly':
-            paymentDate.setMonth(paymentDate.getMonth() + i);
-            break;
-          case 'quarterly':
-            paymentDate.setMonth(paymentDate.getMonth() + (i * 3));
-            break;
-          case 'annually':
-            paymentDate.setFullYear(paymentDate.getFullYear() + i);
-            break;
-        }
-        
-        paymentSchedule.push({
-          paymentNumber: i,
-          paymentDate,
-          principalPayment: Math.round(principalPayment * 100) / 100,
-          interestPayment: Math.round(interestPayment * 100) / 100,
-          totalPayment: Math.round(paymentAmount * 100) / 100,
-          remainingBalance: Math.round(remainingBalance * 100) / 100
-        });
+      const regularPayment = interestPayment + principalPayment;
+      if (i <= interestOnlyPayments && interestOnlyPayment === null) interestOnlyPayment = regularPayment;
+      if (i > interestOnlyPayments && amortizingPayment === null) amortizingPayment = regularPayment;
+      maxPayment = Math.max(maxPayment, regularPayment);
+
+      // Whatever is still owed at maturity is due with the last payment; undrawn holdback is cancelled
+      if (i === maturity && balance - principalPayment > 0.005) {
+        balloonPayment = balance - principalPayment;
+        principalPayment = balance;
       }
-      
-      const totalPayment = paymentAmount * totalPayments;
-      const totalInterest = totalPayment - principal;
-      
-      // Calculate payoff date
-      const payoffDate = new Date(startDate);
-      switch (paymentFrequency) {
-        case 'monthly':
-          payoffDate.setMonth(payoffDate.getMonth() + totalPayments);
-          break;
-        case 'quarterly':
-          payoffDate.setMonth(payoffDate.getMonth() + (totalPayments * 3));
-          break;
-        case 'annually':
-          payoffDate.setFullYear(payoffDate.getFullYear() + totalPayments);
-          break;
+      balance = Math.max(0, balance - principalPayment);
+      totalPaid += interestPayment + principalPayment;
+      totalInterest += interestPayment;
+
+      paymentSchedule.push({
+        paymentNumber: i,
+        paymentDate: this.addPaymentPeriods(startDate, i, monthsPerPayment),
+        interestRate: rate,
+        principalPayment: roundCents(principalPayment),
+        interestPayment: roundCents(interestPayment),
+        totalPayment: roundCents(interestPayment + principalPayment),
+        remainingBalance: roundCents(balance),
+        ...(drawAmount > 0 && { drawAmount: roundCents(drawAmount) }),
+      });
+    }
+
+    return {
+      monthlyPayment: roundCents((interestOnlyPayments > 0 ? interestOnlyPayment : amortizingPayment) ?? 0),
+      totalPayment: roundCents(totalPaid),
+      totalInterest: roundCents(totalInterest),
+      interestOnlyPayment: interestOnlyPayment !== null ? roundCents(interestOnlyPayment) : null,
+      amortizingPayment: amortizingPayment !== null ? roundCents(amortizingPayment) : null,
+      maxPayment: roundCents(maxPayment),
+      balloonPayment: balloonPayment !== null ? roundCents(balloonPayment) : null,
+      qualifyingPayment: roundCents(this.getQualifyingPayment(request, arm, interestOnlyPayments > 0, totalPayments, paymentsPerYear)),
+      paymentSchedule,
+      summary: {
+        effectiveRate: interestRate / 100,
+        fullyIndexedRate: arm ? arm.fullyIndexedRate : undefined,
+        payoffDate: this.addPaymentPeriods(startDate, maturity, monthsPerPayment),
+        totalPayments: maturity
       }
-      
-      return {
-        monthlyPayment: Math.round(paymentAmount * 100) / 100,
-        totalPayment: Math.round(totalPayment * 100) / 100,
-        totalInterest: Math.round(totalInterest * 100) / 100,
-        paymentSchedule,
-        summary: {
-          effectiveRate: annualRate,
-          payoffDate,
-          totalPayments
-        }
-      };
-    } catch (error) {
-      console.error('Error calculating loan payment:', error);
-      throw new Error(`Loan calculation failed: ${error.message}`);
+    };
+  }
+
+  // Payment DSCR is measured against, on the fully drawn note: the interest-only payment for loans that start interest
+  // only, otherwise the fully amortizing payment. ARMs qualify at the greater of the start rate and the fully indexed rate.
+  private getQualifyingPayment(
+    request: LoanCalculationRequest,
+    arm: ResolvedArmTerms | null,
+    interestOnly: boolean,
+    totalPayments: number,
+    paymentsPerYear: number
+  ): number {
+    const rate = arm ? Math.max(request.interestRate, arm.fullyIndexedRate) : request.interestRate;
+    const periodicRate = rate / 100 / paymentsPerYear;
+    if (interestOnly) return request.principal * periodicRate;
+    return this.getAmortizingPayment(request.principal, periodicRate, totalPayments);
+  }
+
+  private getAmortizingPayment(balance: number, periodicRate: number, remainingPayments: number): number {
+    if (balance <= 0) return 0;
+    if (periodicRate === 0) return balance / remainingPayments;
+    return balance * periodicRate / (1 - Math.pow(1 + periodicRate, -remainingPayments));
+  }
+
+  private resolveArmTerms(terms: NonNullable<LoanPaymentTerms['arm']>, startRate: number): ResolvedArmTerms {
+    const product = ARM_PRODUCTS[terms.product];
+    if (!product) {
+      throw new PaymentCalculationError(`Unsupported ARM product ${terms.product}`);
     }
+    const lifetimeCap = terms.lifetimeCap ?? product.lifetimeCap;
+    return {
+      fixedMonths: product.fixedMonths,
+      adjustmentMonths: product.adjustmentMonths,
+      fullyIndexedRate: roundToEighth(terms.index + terms.margin),
+      initialCap: terms.initialCap ?? product.initialCap,
+      periodicCap: terms.periodicCap ?? product.periodicCap,
+      ceiling: startRate + lifetimeCap,
+      floor: terms.floor ?? terms.margin,
+    };
+  }
+
+  // The schedule assumes the index stays at its current value; caps limit how fast the rate can reach it
+  private adjustArmRate(arm: ResolvedArmTerms, currentRate: number, firstAdjustment: boolean): number {
+    const cap = firstAdjustment ? arm.initialCap : arm.periodicCap;
+    const capped = Math.min(Math.max(arm.fullyIndexedRate, currentRate - cap), currentRate + cap);
+    return Math.min(Math.max(capped, arm.floor), arm.ceiling);
+  }
+
+  private addPaymentPeriods(startDate: Date, periods: number, monthsPerPayment: number): Date {
+    const date = new Date(startDate);
+    date.setMonth(date.getMonth() + periods * monthsPerPayment);
+    return date;
   }
 
   async calculateLoanFees(loanAmount: number, loanType: string, lenderRequirements?: string[]): Promise<FeeCalculation[]> {
@@ -0,0 +1,117 @@
+// PII Masking Service
+// Masks SSNs, dates of birth and account numbers in API responses unless the caller holds the pii.view permission
+
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+
+export const PII_VIEW_PERMISSION = 'pii.view';
+
+type Masker = (value: string) => string;
+
+const MAX_DEPTH = 8;
+const SECRET_MASK = '********';
+
+const maskSsn: Masker = value => {
+  const digits = value.replace(/\D/g, '');
+  return `***-**-${digits.slice(-4).padStart(4, '*')}`;
+};
+
+const maskDateOfBirth: Masker = value => {
+  const year = value.match(/\b(19|20)\d{2}\b/);
+  return `**/**/${year ? year[0] : '****'}`;
+};
+
+const maskAccountNumber: Masker = value => {
+  const visible = value.replace(/[^0-9A-Za-z]/g, '').slice(-4);
+  return `****${visible}`;
+};
+
+// Response keys and how their values are masked
+const MASKED_KEYS: Array<{ pattern: RegExp; mask: Masker }> = [
+  { pattern: /^(ssn|taxId|borrowerSsn|coBorrowerSsn)$/i, mask: maskSsn },
+  { pattern: /^(dateOfBirth|dob|birthDate)$/i, mask: maskDateOfBirth },
+  { pattern: /^(accountNumber|routingNumber)$/i, mask: maskAccountNumber },
+];
+
+// Credentials are never sent to a client, even to callers who may view PII
+const SECRET_KEYS = /^plaidAccessToken$/i;
+
+const MASKED_VALUE = /^(\*{3}-\*{2}-[\d*]{4}|\*\*\/\*\*\/[\d*]{4}|\*{4}[0-9A-Za-z]{0,4}|\*{8})$/;
+
+export class PiiMaskingService {
+  private static instance: PiiMaskingService;
+
+  static getInstance(): PiiMaskingService {
+    if (!PiiMaskingService.instance) {
+      PiiMaskingService.instance = new PiiMaskingService();
+    }
+    return PiiMaskingService.instance;
+  }
+
+  // req.user.permissions is the effective permission set resolved by the RBAC middleware
+  canViewPii(req: Request): boolean {
+    const permissions = (req as Request & { user?: { permissions?: string[] | null } }).user?.permissions;
+    return Array.isArray(permissions) && permissions.includes(PII_VIEW_PERMISSION);
+  }
+
+  isMasked(value: unknown): boolean {
+    return typeof value === 'string' && MASKED_VALUE.test(value);
+  }
+
+  // Masks one value by the key it is stored under, e.g. for file exports that are not JSON
+  maskField(key: string, value: string): string {
+    const rule = MASKED_KEYS.find(({ pattern }) => pattern.test(key));
+    return rule && !this.isMasked(value) ? rule.mask(value) : value;
+  }
+
+  // Returns a copy of the body with sensitive values masked at any depth
+  mask<T>(value: T, canViewPii = false, depth = 0): T {
+    if (depth > MAX_DEPTH || value === null || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.mask(item, canViewPii, depth + 1)) as unknown as T;
+    }
+
+    const result: Record<string, any> = {};
+    Object.entries(value as Record<string, any>).forEach(([key, entry]) => {
+      if (typeof entry === 'string' && entry !== '') {
+        if (SECRET_KEYS.test(key)) {
+          result[key] = SECRET_MASK;
+          return;
+        }
+        const rule = canViewPii ? undefined : MASKED_KEYS.find(({ pattern }) => pattern.test(key));
+        if (rule) {
+          result[key] = this.isMasked(entry) ? entry : rule.mask(entry);
+          return;
+        }
+      }
+      result[key] = this.mask(entry, canViewPii, depth + 1);
+    });
+    return result as T;
+  }
+
+  // Drops masked placeholders from an update so a form that echoes a masked value back cannot overwrite the real one
+  stripMasked<T extends Record<string, any>>(record: T): T {
+    const result: Record<string, any> = { ...record };
+    Object.keys(result).forEach(key => {
+      const sensitive = SECRET_KEYS.test(key) || MASKED_KEYS.some(({ pattern }) => pattern.test(key));
+      if (sensitive && this.isMasked(result[key])) delete result[key];
+    });
+    return result as T;
+  }
+
+  // Express middleware applying the masking policy to every JSON response
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const originalJson = res.json;
+      const service = this;
+      // Permissions are read when the response is sent, after any route-level authentication has run
+      res.json = function (body, ...args) {
+        return originalJson.apply(res, [service.mask(body, service.canViewPii(req)), ...args]);
+      };
+      next();
+    };
+  }
+}
+
+export const piiMasking = PiiMaskingService.getInstance();
@@ -2,12 +2,34 @@ import { Router } from 'express';
 // Plaid integration temporarily disabled - uncomment when ready to use
 // import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from 'plaid';
 import { db } from './db';
-import { borrowers } from '../shared/schema';
+import { borrowerAuth } from '../shared/schema';
 import { eq } from 'drizzle-orm';
 import { authenticateBorrower } from './borrower-auth';
+import { fieldEncryption } from './field-encryption';
 
 const router = Router();
 
+const ACCESS_TOKEN_FIELD = 'borrower_auth.plaidAccessToken';
+
+// Access tokens are encrypted at rest and only decrypted for calls to Plaid
+export async function storePlaidAccessToken(borrowerId: number, accessToken: string, itemId: string) {
+  await db.update(borrowerAuth)
+    .set({
+      plaidAccessToken: fieldEncryption.encrypt(accessToken, ACCESS_TOKEN_FIELD),
+      plaidItemId: itemId,
+      updatedAt: new Date()
+    })
+    .where(eq(borrowerAuth.id, borrowerId));
+}
+
+export async function getPlaidAccessToken(borrowerId: number): Promise<string | null> {
+  const [borrower] = await db.select({ plaidAccessToken: borrowerAuth.plaidAccessToken })
+    .from(borrowerAuth)
+    .where(eq(borrowerAuth.id, borrowerId))
+    .limit(1);
+  return borrower?.plaidAccessToken ? fieldEncryption.decrypt(borrower.plaidAccessToken, ACCESS_TOKEN_FIELD) : null;
+}
+
 // Plaid client will be initialized when Plaid package is installed
 // const plaidConfig = new Configuration({
 //   basePath: PlaidEnvironments[process.env.PLAID_ENV || 'sandbox'],
@@ -61,12 +83,9 @@ router.get('/accounts', authenticateBorrower, async (req, res) => {
     const borrowerId = (req as any).borrower.id;
     
     // Get borrower's Plaid access token
-    const [borrower] = await db.select()
-      .from(borrowers)
-      .where(eq(borrowers.id, borrowerId))
-      .limit(1);
+    const accessToken = await getPlaidAccessToken(borrowerId);
     
-    if (!borrower?.plaidAccessToken) {
+    if (!accessToken) {
       return res.status(400).json({ error: 'No bank account connected' });
     }
     
@@ -124,15 +143,14 @@ router.delete('/disconnect', authenticateBorrower, async (req, res) => {
     const borrowerId = (req as any).borrower.id;
     
     // Clear Plaid data from borrower record
-    await db.update(borrowers)
+    await db.update(borrowerAuth)
       .set({
         plaidAccessToken: null,
         plaidItemId: null,
-        bankVerified: false,
-        bankInstitution: null,
+        linkedAccounts: [],
         updatedAt: new Date()
       })
-      .where(eq(borrowers.id, borrowerId));
+      .where(eq(borrowerAuth.id, borrowerId));
     
     res.json({
       success: true,
@@ -0,0 +1,185 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; evaluating guidelines and ladders never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { pricingEngine } = await import("./pricing-engine");
+
+type LenderGuideline = import("@shared/schema").LenderGuideline;
+type PricingRequest = import("./pricing-engine").PricingRequest;
+
+function guideline(matrix: Partial<LenderGuideline['matrix']> = {}): LenderGuideline {
+  return {
+    id: 1,
+    lenderId: 'test_lender',
+    lenderName: 'Test Lender',
+    loanProgram: 'DSCR 30',
+    loanType: 'dscr',
+    rate: '0.0750',
+    points: '1.000',
+    fees: '2500',
+    terms: '30 years',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 720, maxLtv: 0.80 },
+        { minFico: 680, maxLtv: 0.75 },
+        { minFico: 720, maxLtv: 0.70, loanPurpose: 'cash_out' },
+      ],
+      loanAmountBands: [
+        { minAmount: 100000, maxAmount: 1500000 },
+        { minAmount: 1500001, maxAmount: 3000000, maxLtv: 0.65 },
+      ],
+      eligiblePropertyTypes: ['single_family', 'condo'],
+      eligibleStates: ['TX', 'FL'],
+      dscrMinByLtv: [
+        { maxLtv: 0.80, minDscr: 1.1 },
+        { maxLtv: 0.65, minDscr: 0.9 },
+      ],
+      allowsFirstTimeInvestors: false,
+      supportsExpeditedClosing: false,
+      ...matrix,
+    },
+    conditions: [],
+    isActive: true,
+    updatedBy: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as LenderGuideline;
+}
+
+function request(overrides: Partial<PricingRequest> = {}): PricingRequest {
+  return {
+    loanType: 'dscr',
+    loanAmount: 300000,
+    propertyValue: 400000,
+    creditScore: 740,
+    dscrRatio: 1.2,
+    loanPurpose: 'purchase',
+    propertyType: 'single_family',
+    borrowerExperience: 'experienced',
+    timeline: 'standard',
+    state: 'tx',
+    ...overrides,
+  };
+}
+
+const excludedBy = (overrides: Partial<PricingRequest>, matrix?: Partial<LenderGuideline['matrix']>) => {
+  const evaluation = pricingEngine.evaluateGuideline(guideline(matrix), request(overrides));
+  return evaluation.eligible ? null : evaluation.exclusion;
+};
+
+describe("lender guideline matrices", () => {
+  test("prices an eligible loan with the grid's LTV and the DSCR minimum for its LTV", () => {
+    const evaluation = pricingEngine.evaluateGuideline(guideline(), request());
+    assert.ok(evaluation.eligible);
+    assert.equal(evaluation.rate.maxLTV, 0.80);
+    assert.equal(evaluation.rate.minDSCR, 1.1);
+    assert.equal(evaluation.rate.guidelineId, 1);
+  });
+
+  test("names the rule that excluded a lender", () => {
+    assert.equal(excludedBy({ loanAmount: 50000 })?.rule, 'loan_amount');
+    assert.match(excludedBy({ loanAmount: 50000 })!.reason, /\$100,000–\$3,000,000/);
+    assert.equal(excludedBy({ propertyType: 'multi_family' })?.rule, 'property_type');
+    assert.equal(excludedBy({ state: 'CA' })?.rule, 'state');
+    assert.equal(excludedBy({ borrowerExperience: 'first_time' })?.rule, 'experience');
+    assert.equal(excludedBy({ timeline: 'urgent' })?.rule, 'timeline');
+    assert.equal(excludedBy({ creditScore: 660 })?.reason, 'Credit score 660 is below the 680 minimum');
+    assert.equal(excludedBy({ creditScore: 700, loanAmount: 310000 })?.rule, 'ltv');
+    assert.equal(excludedBy({ dscrRatio: 1.0 })?.rule, 'dscr');
+  });
+
+  test("lets an empty eligibility list allow every property type and state", () => {
+    assert.equal(excludedBy({ propertyType: 'multi_family', state: 'CA' }, { eligiblePropertyTypes: [], eligibleStates: [] }), null);
+  });
+
+  test("uses purpose-specific grid rows in place of the generic rows", () => {
+    // 75% LTV passes the generic 80% row but not the 70% cash-out row
+    assert.equal(excludedBy({ loanPurpose: 'cash_out' })?.rule, 'ltv');
+    assert.equal(excludedBy({ loanPurpose: 'cash_out', creditScore: 700 })?.reason, 'Credit score 700 is below the 720 minimum');
+    assert.equal(excludedBy({ loanPurpose: 'cash_out' }, { ficoLtvGrid: [{ minFico: 680, maxLtv: 0.80 }] }), null);
+  });
+
+  test("caps LTV by the loan amount band", () => {
+    const jumbo = excludedBy({ loanAmount: 2000000, propertyValue: 2800000 });
+    assert.equal(jumbo?.rule, 'ltv');
+    assert.match(jumbo!.reason, /65\.0% maximum/);
+  });
+
+  test("relaxes the DSCR minimum at lower LTVs and applies the last row above every ceiling", () => {
+    assert.equal(excludedBy({ dscrRatio: 0.95, loanAmount: 240000 }), null);
+    assert.equal(excludedBy({ dscrRatio: 0.95 })?.rule, 'dscr');
+    const highLtv = excludedBy({ dscrRatio: 1.05, loanAmount: 360000 }, { ficoLtvGrid: [{ minFico: 680, maxLtv: 0.90 }] });
+    assert.match(highLtv!.reason, /1\.10 minimum/);
+  });
+});
+
+describe("price adjustments and rate ladder", () => {
+  const codes = (adjustments: Array<{ code: string; points: number }>) =>
+    Object.fromEntries(adjustments.map(adjustment => [adjustment.code, adjustment.points]));
+
+  test("stacks every adjustment that applies to a DSCR loan", () => {
+    const stacked = request({
+      creditScore: 700,
+      loanAmount: 200000,
+      dscrRatio: 0.9,
+      interestOnly: true,
+      prepaymentPenalty: '5_4_3_2_1',
+      shortTermRental: true,
+      loanPurpose: 'cash_out',
+    });
+    const { adjustments, ladder } = pricingEngine.buildRateLadder(guideline(), stacked, 0.5);
+    assert.deepEqual(codes(adjustments), {
+      fico_ltv: -0.25,
+      dscr: -1.0,
+      interest_only: -0.5,
+      prepayment_penalty: 0.5,
+      short_term_rental: -0.5,
+      cash_out: -0.5,
+      loan_size: -0.375,
+    });
+    assert.equal(ladder[0].totalAdjustments, -2.625);
+  });
+
+  test("leaves out zero adjustments and credits a strong DSCR", () => {
+    const { adjustments } = pricingEngine.buildRateLadder(guideline(), request({ dscrRatio: 1.3, prepaymentPenalty: '3_2_1' }), 0.55);
+    assert.deepEqual(codes(adjustments), { dscr: 0.25 });
+  });
+
+  test("charges the no-prepayment adjustment when no structure is chosen", () => {
+    const { adjustments } = pricingEngine.buildRateLadder(guideline(), request(), 0.75);
+    assert.deepEqual(codes(adjustments), { fico_ltv: -0.375, prepayment_penalty: -1.5 });
+  });
+
+  test("prices each ladder rung from the base table, adjustments and broker comp, and quotes par", () => {
+    const { ladder } = pricingEngine.buildRateLadder(guideline(), request(), 0.75);
+    const noteRung = ladder.find(row => row.rate === 0.075)!;
+    // 100.000 base - 1.875 adjustments - 1.000 comp
+    assert.equal(noteRung.finalPrice, 97.125);
+    assert.equal(noteRung.borrowerPoints, 2.875);
+    assert.equal(noteRung.monthlyPayment, 2097.64);
+
+    const evaluation = pricingEngine.evaluateGuideline(guideline(), request());
+    assert.ok(evaluation.eligible);
+    // 103.000 is the first base price that covers 2.875 points
+    assert.equal(evaluation.rate.rate, 0.0875);
+    assert.equal(evaluation.rate.points, 1);
+    assert.equal(evaluation.rate.ladder?.length, 16);
+  });
+
+  test("defaults broker comp to one point and caps it at 2.75", () => {
+    const comp = (brokerCompPoints?: number) =>
+      pricingEngine.buildRateLadder(guideline(), request({ brokerCompPoints }), 0.75).brokerComp;
+    assert.deepEqual(comp(), { points: 1, amount: 3000 });
+    assert.deepEqual(comp(4), { points: 2.75, amount: 8250 });
+    assert.deepEqual(comp(-1), { points: 0, amount: 0 });
+  });
+
+  test("prices loan types without an adjustment table off the default base table, interest-only", () => {
+    const { ladder, adjustments } = pricingEngine.buildRateLadder(guideline(), request({ loanType: 'fix_flip' }), 0.75);
+    assert.deepEqual(adjustments, []);
+    assert.equal(ladder.length, 6);
+    assert.equal(ladder.find(row => row.rate === 0.075)!.monthlyPayment, 1875);
+  });
+});
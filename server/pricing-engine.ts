@@ -1,7 +1,16 @@
 // Loan Pricing Engine
-// Integrates with LoanSifter, LenderPrice, and maintains internal pricing database
+// Integrates with LoanSifter, LenderPrice, and evaluates lender guideline matrices stored in the database
+
+import { db } from "./db";
+import {
+  lenderGuidelines,
+  type InsertLenderGuideline,
+  type LenderGuideline,
+} from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
 
 export interface LenderRate {
+  guidelineId: number;
   lenderId: string;
   lenderName: string;
   loanProgram: string;
@@ -18,8 +27,14 @@ export interface LenderRate {
   isActive: boolean;
   lastUpdated: Date;
   conditions: string[];
+  // Present on quotes; rate above is the par rate after adjustments and broker comp
+  ladder?: RateLadderRow[];
+  adjustments?: PriceAdjustment[];
+  brokerComp?: { points: number; amount: number };
 }
 
+export type PrepaymentStructure = '5_4_3_2_1' | '3_2_1' | '2_1' | '1' | 'none';
+
 export interface PricingRequest {
   loanType: string;
   loanAmount: number;
@@ -31,11 +46,52 @@ export interface PricingRequest {
   borrowerExperience: string;
   timeline: string;
   state: string;
+  interestOnly?: boolean;
+  prepaymentPenalty?: PrepaymentStructure;
+  shortTermRental?: boolean;
+  brokerCompPoints?: number; // lender-paid, defaults to BROKER_COMPENSATION.defaultPoints
+}
+
+// Prices are quoted against par (100); positive adjustments improve price
+export interface PriceAdjustment {
+  code: string;
+  description: string;
+  points: number;
+}
+
+export interface RateLadderRow {
+  rate: number;
+  basePrice: number;
+  totalAdjustments: number;
+  brokerCompPoints: number;
+  finalPrice: number;
+  borrowerPoints: number; // discount points paid by the borrower; negative is a lender credit
+  monthlyPayment: number;
+}
+
+export type GuidelineRule =
+  | 'loan_amount'
+  | 'property_type'
+  | 'state'
+  | 'experience'
+  | 'timeline'
+  | 'credit_score'
+  | 'ltv'
+  | 'dscr';
+
+export interface LenderExclusion {
+  guidelineId: number;
+  lenderId: string;
+  lenderName: string;
+  loanProgram: string;
+  rule: GuidelineRule;
+  reason: string;
 }
 
 export interface PricingResult {
   recommendedOption: LenderRate;
   allOptions: LenderRate[];
+  excludedLenders: LenderExclusion[];
   pricingDate: Date;
   expiresAt: Date;
   marketConditions: {
@@ -45,10 +101,106 @@ export interface PricingResult {
   };
 }
 
+export type GuidelineEvaluation =
+  | { eligible: true; rate: LenderRate }
+  | { eligible: false; exclusion: LenderExclusion };
+
+interface LlpaTable {
+  ficoLtv: { ltvBands: number[]; rows: Array<{ minFico: number; points: number[] }> }; // points per LTV band ceiling
+  dscr: Array<{ minDscr: number; points: number }>; // first row the DSCR meets applies
+  interestOnly: number;
+  prepaymentPenalty: Record<PrepaymentStructure, number>;
+  shortTermRental: number;
+  cashOut: number;
+  loanSize: Array<{ maxAmount: number; points: number }>;
+}
+
+// Base price at each rate offset from the lender's note rate
+const BASE_PRICE_TABLES: Record<string, Array<{ rateOffset: number; price: number }>> = {
+  dscr: [
+    { rateOffset: -0.0075, price: 97.000 },
+    { rateOffset: -0.00625, price: 97.500 },
+    { rateOffset: -0.005, price: 98.000 },
+    { rateOffset: -0.00375, price: 98.500 },
+    { rateOffset: -0.0025, price: 99.000 },
+    { rateOffset: -0.00125, price: 99.500 },
+    { rateOffset: 0, price: 100.000 },
+    { rateOffset: 0.00125, price: 100.375 },
+    { rateOffset: 0.0025, price: 100.750 },
+    { rateOffset: 0.00375, price: 101.125 },
+    { rateOffset: 0.005, price: 101.500 },
+    { rateOffset: 0.00625, price: 101.750 },
+    { rateOffset: 0.0075, price: 102.000 },
+    { rateOffset: 0.01, price: 102.500 },
+    { rateOffset: 0.0125, price: 103.000 },
+    { rateOffset: 0.015, price: 103.500 },
+  ],
+  default: [
+    { rateOffset: -0.005, price: 98.500 },
+    { rateOffset: -0.0025, price: 99.250 },
+    { rateOffset: 0, price: 100.000 },
+    { rateOffset: 0.0025, price: 100.500 },
+    { rateOffset: 0.005, price: 101.000 },
+    { rateOffset: 0.01, price: 101.750 },
+  ],
+};
+
+// Loan-level price adjustments by loan type; loan types without a table are priced off the base table only
+const LLPA_TABLES: Record<string, LlpaTable> = {
+  dscr: {
+    ficoLtv: {
+      ltvBands: [0.55, 0.60, 0.65, 0.70, 0.75, 0.80],
+      rows: [
+        { minFico: 760, points: [0, 0, 0, -0.125, -0.25, -0.5] },
+        { minFico: 740, points: [0, 0, -0.125, -0.25, -0.375, -0.75] },
+        { minFico: 720, points: [0, -0.125, -0.25, -0.375, -0.625, -1.0] },
+        { minFico: 700, points: [-0.25, -0.375, -0.5, -0.75, -1.0, -1.5] },
+        { minFico: 680, points: [-0.5, -0.625, -0.75, -1.0, -1.375, -2.0] },
+        { minFico: 660, points: [-0.75, -1.0, -1.25, -1.5, -2.0, -2.5] },
+        { minFico: 620, points: [-1.25, -1.5, -1.75, -2.25, -2.75, -3.25] },
+      ],
+    },
+    dscr: [
+      { minDscr: 1.25, points: 0.25 },
+      { minDscr: 1.0, points: 0 },
+      { minDscr: 0.75, points: -1.0 },
+      { minDscr: 0, points: -1.5 },
+    ],
+    interestOnly: -0.5,
+    prepaymentPenalty: { '5_4_3_2_1': 0.5, '3_2_1': 0, '2_1': -0.375, '1': -0.75, 'none': -1.5 },
+    shortTermRental: -0.5,
+    cashOut: -0.5,
+    loanSize: [
+      { maxAmount: 149999, points: -1.0 },
+      { maxAmount: 249999, points: -0.375 },
+      { maxAmount: 1500000, points: 0 },
+      { maxAmount: 2000000, points: -0.25 },
+      { maxAmount: Infinity, points: -0.5 },
+    ],
+  },
+};
+
+const BROKER_COMPENSATION = {
+  defaultPoints: 1.0,
+  maxPoints: 2.75,
+};
+
+const PREPAYMENT_LABELS: Record<PrepaymentStructure, string> = {
+  '5_4_3_2_1': '5/4/3/2/1',
+  '3_2_1': '3/2/1',
+  '2_1': '2/1',
+  '1': '1 year',
+  'none': 'No',
+};
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+const formatAmount = (amount: number) => `$${Math.round(amount).toLocaleString('en-US')}`;
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
 export class LoanPricingEngine {
   private static instance: LoanPricingEngine;
-  private lenderRates: Map<string, LenderRate[]> = new Map();
-  
+  private guidelines: LenderGuideline[] | null = null;
+
   public static getInstance(): LoanPricingEngine {
     if (!LoanPricingEngine.instance) {
       LoanPricingEngine.instance = new LoanPricingEngine();
@@ -56,22 +208,31 @@ export class LoanPricingEngine {
     return LoanPricingEngine.instance;
   }
 
-  constructor() {
-    this.initializeLenderDatabase();
-  }
-
   async getPricing(request: PricingRequest): Promise<PricingResult> {
     try {
       // In production, this would integrate with LoanSifter/LenderPrice APIs
-      // For now, we'll use our comprehensive internal database
-      
-      const matchingRates = await this.findMatchingRates(request);
-      const filteredRates = this.filterByBorrowerProfile(matchingRates, request);
-      const sortedRates = this.sortByBestOptions(filteredRates, request);
-      
+      // For now, we evaluate the lender guideline matrices maintained by admins
+
+      const guidelines = (await this.loadGuidelines())
+        .filter(guideline => guideline.isActive && guideline.loanType === request.loanType);
+
+      const eligibleRates: LenderRate[] = [];
+      const excludedLenders: LenderExclusion[] = [];
+      for (const guideline of guidelines) {
+        const evaluation = this.evaluateGuideline(guideline, request);
+        if (evaluation.eligible) {
+          eligibleRates.push(evaluation.rate);
+        } else {
+          excludedLenders.push(evaluation.exclusion);
+        }
+      }
+
+      const sortedRates = this.sortByBestOptions(eligibleRates, request);
+
       return {
         recommendedOption: sortedRates[0],
         allOptions: sortedRates.slice(0, 10), // Top 10 options
+        excludedLenders,
         pricingDate: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
         marketConditions: await this.getMarketConditions()
@@ -82,50 +243,260 @@ export class LoanPricingEngine {
     }
   }
 
-  private async findMatchingRates(request: PricingRequest): Promise<LenderRate[]> {
-    const loanTypeRates = this.lenderRates.get(request.loanType) || [];
-    
-    return loanTypeRates.filter(rate => {
-      // Basic qualification filters
-      if (!rate.isActive) return false;
-      if (request.loanAmount > rate.maxLoanAmount) return false;
-      if (request.loanAmount < rate.minLoanAmount) return false;
-      if (request.creditScore < rate.minCreditScore) return false;
-      
-      // LTV check
-      const ltv = request.loanAmount / request.propertyValue;
-      if (ltv > rate.maxLTV) return false;
-      
-      // DSCR check for rental properties
-      if (request.dscrRatio && rate.minDSCR && request.dscrRatio < rate.minDSCR) {
-        return false;
+  // Runs every rule in the matrix; the first failing rule is reported as the exclusion reason
+  evaluateGuideline(guideline: LenderGuideline, request: PricingRequest): GuidelineEvaluation {
+    const { matrix } = guideline;
+    const exclude = (rule: GuidelineRule, reason: string): GuidelineEvaluation => ({
+      eligible: false,
+      exclusion: {
+        guidelineId: guideline.id,
+        lenderId: guideline.lenderId,
+        lenderName: guideline.lenderName,
+        loanProgram: guideline.loanProgram,
+        rule,
+        reason
       }
-      
-      return true;
     });
-  }
 
-  private filterByBorrowerProfile(rates: LenderRate[], request: PricingRequest): LenderRate[] {
-    return rates.filter(rate => {
-      // Experience requirements
-      if (request.borrowerExperience === 'first_time' && 
-          rate.conditions.includes('experienced_only')) {
-        return false;
-      }
-      
-      // Timeline requirements
-      if (request.timeline === 'urgent' && 
-          rate.conditions.includes('slow_processing')) {
-        return false;
-      }
-      
-      // Property type restrictions
-      if (rate.conditions.includes(`no_${request.propertyType}`)) {
-        return false;
+    const band = matrix.loanAmountBands.find(
+      candidate => request.loanAmount >= candidate.minAmount && request.loanAmount <= candidate.maxAmount
+    );
+    if (!band) {
+      const { min, max } = this.getAmountRange(guideline);
+      return exclude('loan_amount', `Loan amount ${formatAmount(request.loanAmount)} is outside the ${formatAmount(min)}–${formatAmount(max)} range`);
+    }
+
+    if (matrix.eligiblePropertyTypes.length > 0 && !matrix.eligiblePropertyTypes.includes(request.propertyType)) {
+      return exclude('property_type', `Property type ${request.propertyType} is not eligible (allowed: ${matrix.eligiblePropertyTypes.join(', ')})`);
+    }
+
+    const state = request.state?.toUpperCase();
+    if (matrix.eligibleStates.length > 0 && !matrix.eligibleStates.includes(state)) {
+      return exclude('state', `Lender does not lend in ${state || 'the requested state'}`);
+    }
+
+    if (request.borrowerExperience === 'first_time' && !matrix.allowsFirstTimeInvestors) {
+      return exclude('experience', 'Lender requires prior investment experience');
+    }
+
+    if (request.timeline === 'urgent' && !matrix.supportsExpeditedClosing) {
+      return exclude('timeline', 'Lender cannot meet an expedited closing timeline');
+    }
+
+    // Purpose-specific rows replace the generic rows for that purpose
+    const purposeRows = matrix.ficoLtvGrid.filter(row => row.loanPurpose === request.loanPurpose);
+    const gridRows = purposeRows.length > 0 ? purposeRows : matrix.ficoLtvGrid.filter(row => !row.loanPurpose);
+    const qualifyingRows = gridRows.filter(row => request.creditScore >= row.minFico);
+    if (qualifyingRows.length === 0) {
+      const minFico = Math.min(...gridRows.map(row => row.minFico));
+      return exclude('credit_score', gridRows.length === 0
+        ? `No FICO/LTV grid for ${request.loanPurpose} loans`
+        : `Credit score ${request.creditScore} is below the ${minFico} minimum`);
+    }
+
+    const ltv = request.loanAmount / request.propertyValue;
+    const gridMaxLtv = Math.max(...qualifyingRows.map(row => row.maxLtv));
+    const maxLtv = band.maxLtv !== undefined ? Math.min(gridMaxLtv, band.maxLtv) : gridMaxLtv;
+    if (ltv > maxLtv) {
+      return exclude('ltv', `LTV ${formatPercent(ltv)} exceeds the ${formatPercent(maxLtv)} maximum for a ${request.creditScore} credit score and ${formatAmount(request.loanAmount)} loan`);
+    }
+
+    const minDscr = this.getMinDscr(guideline, ltv);
+    if (request.dscrRatio && minDscr !== undefined && request.dscrRatio < minDscr) {
+      return exclude('dscr', `DSCR ${request.dscrRatio.toFixed(2)} is below the ${minDscr.toFixed(2)} minimum at ${formatPercent(ltv)} LTV`);
+    }
+
+    const rate = this.toLenderRate(guideline);
+    const { ladder, adjustments, brokerComp } = this.buildRateLadder(guideline, request, ltv);
+    // Par is the lowest rate the borrower can take without paying discount points
+    const par = ladder.find(row => row.borrowerPoints <= 0) || ladder[ladder.length - 1];
+
+    return {
+      eligible: true,
+      rate: {
+        ...rate,
+        rate: par.rate,
+        points: roundTo(rate.points + Math.max(par.borrowerPoints, 0), 3),
+        maxLTV: maxLtv,
+        minDSCR: minDscr,
+        ladder,
+        adjustments,
+        brokerComp
       }
-      
-      return true;
+    };
+  }
+
+  buildRateLadder(guideline: LenderGuideline, request: PricingRequest, ltv: number): {
+    ladder: RateLadderRow[];
+    adjustments: PriceAdjustment[];
+    brokerComp: { points: number; amount: number };
+  } {
+    const adjustments = this.getPriceAdjustments(request, ltv);
+    const totalAdjustments = roundTo(adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0), 3);
+    const compPoints = Math.min(
+      Math.max(request.brokerCompPoints ?? BROKER_COMPENSATION.defaultPoints, 0),
+      BROKER_COMPENSATION.maxPoints
+    );
+    const noteRate = parseFloat(guideline.rate);
+    const amortizing = request.loanType === 'dscr' && !request.interestOnly;
+
+    const ladder = (BASE_PRICE_TABLES[request.loanType] || BASE_PRICE_TABLES.default).map(row => {
+      const rate = roundTo(noteRate + row.rateOffset, 5);
+      const finalPrice = roundTo(row.price + totalAdjustments - compPoints, 3);
+      return {
+        rate,
+        basePrice: row.price,
+        totalAdjustments,
+        brokerCompPoints: compPoints,
+        finalPrice,
+        borrowerPoints: roundTo(100 - finalPrice, 3),
+        monthlyPayment: roundTo(this.getMonthlyPayment(request.loanAmount, rate, amortizing), 2)
+      };
     });
+
+    return {
+      ladder,
+      adjustments,
+      brokerComp: { points: compPoints, amount: roundTo(request.loanAmount * compPoints / 100, 2) }
+    };
+  }
+
+  private getPriceAdjustments(request: PricingRequest, ltv: number): PriceAdjustment[] {
+    const table = LLPA_TABLES[request.loanType];
+    if (!table) return [];
+
+    const adjustments: PriceAdjustment[] = [];
+    const add = (code: string, description: string, points: number) => {
+      if (points !== 0) adjustments.push({ code, description, points });
+    };
+
+    const ficoRow = table.ficoLtv.rows.find(row => request.creditScore >= row.minFico);
+    if (ficoRow) {
+      const bands = table.ficoLtv.ltvBands;
+      const bandIndex = bands.findIndex(ceiling => ltv <= ceiling);
+      const index = bandIndex === -1 ? bands.length - 1 : bandIndex;
+      add('fico_ltv', `FICO ${ficoRow.minFico}+ at ${formatPercent(ltv)} LTV`, ficoRow.points[index]);
+    }
+
+    if (request.dscrRatio !== undefined) {
+      const dscrRow = table.dscr.find(row => request.dscrRatio! >= row.minDscr);
+      if (dscrRow) add('dscr', `DSCR ${request.dscrRatio.toFixed(2)}`, dscrRow.points);
+    }
+
+    if (request.interestOnly) {
+      add('interest_only', 'Interest-only payment', table.interestOnly);
+    }
+
+    const prepayment: PrepaymentStructure = request.prepaymentPenalty && request.prepaymentPenalty in table.prepaymentPenalty
+      ? request.prepaymentPenalty
+      : 'none';
+    add('prepayment_penalty', `${PREPAYMENT_LABELS[prepayment]} prepayment penalty`, table.prepaymentPenalty[prepayment]);
+
+    if (request.shortTermRental) {
+      add('short_term_rental', 'Short-term rental', table.shortTermRental);
+    }
+
+    if (request.loanPurpose === 'cash_out') {
+      add('cash_out', 'Cash-out refinance', table.cashOut);
+    }
+
+    const sizeRow = table.loanSize.find(row => request.loanAmount <= row.maxAmount);
+    if (sizeRow) add('loan_size', `Loan amount ${formatAmount(request.loanAmount)}`, sizeRow.points);
+
+    return adjustments;
+  }
+
+  private getMonthlyPayment(loanAmount: number, annualRate: number, amortizing: boolean): number {
+    const monthlyRate = annualRate / 12;
+    if (!amortizing || monthlyRate === 0) return loanAmount * monthlyRate;
+    return loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, 360)) / (Math.pow(1 + monthlyRate, 360) - 1);
+  }
+
+  // DSCR rows are ordered by LTV ceiling; LTVs above the last row use its minimum
+  private getMinDscr(guideline: LenderGuideline, ltv: number): number | undefined {
+    const rows = [...guideline.matrix.dscrMinByLtv].sort((a, b) => a.maxLtv - b.maxLtv);
+    if (rows.length === 0) return undefined;
+    return (rows.find(row => ltv <= row.maxLtv) || rows[rows.length - 1]).minDscr;
+  }
+
+  private getAmountRange(guideline: LenderGuideline): { min: number; max: number } {
+    const bands = guideline.matrix.loanAmountBands;
+    return {
+      min: Math.min(...bands.map(band => band.minAmount)),
+      max: Math.max(...bands.map(band => band.maxAmount))
+    };
+  }
+
+  // Summarizes the matrix as a flat rate sheet entry (best-case LTV, lowest FICO)
+  private toLenderRate(guideline: LenderGuideline): LenderRate {
+    const { matrix } = guideline;
+    const { min, max } = this.getAmountRange(guideline);
+    const dscrMinimums = matrix.dscrMinByLtv.map(row => row.minDscr);
+    return {
+      guidelineId: guideline.id,
+      lenderId: guideline.lenderId,
+      lenderName: guideline.lenderName,
+      loanProgram: guideline.loanProgram,
+      rate: parseFloat(guideline.rate),
+      points: parseFloat(guideline.points),
+      fees: parseFloat(guideline.fees),
+      maxLTV: Math.max(...matrix.ficoLtvGrid.map(row => row.maxLtv)),
+      minDSCR: dscrMinimums.length > 0 ? Math.min(...dscrMinimums) : undefined,
+      minCreditScore: Math.min(...matrix.ficoLtvGrid.map(row => row.minFico)),
+      maxLoanAmount: max,
+      minLoanAmount: min,
+      terms: guideline.terms,
+      prepaymentPenalty: guideline.prepaymentPenalty,
+      isActive: guideline.isActive,
+      lastUpdated: guideline.updatedAt,
+      conditions: guideline.conditions
+    };
+  }
+
+  // Guideline administration
+
+  async listGuidelines(loanType?: string): Promise<LenderGuideline[]> {
+    const guidelines = await this.loadGuidelines();
+    return loanType ? guidelines.filter(guideline => guideline.loanType === loanType) : guidelines;
+  }
+
+  async getGuideline(id: number): Promise<LenderGuideline | undefined> {
+    const [guideline] = await db.select().from(lenderGuidelines).where(eq(lenderGuidelines.id, id));
+    return guideline;
+  }
+
+  async createGuideline(data: InsertLenderGuideline, updatedBy?: number): Promise<LenderGuideline> {
+    const [guideline] = await db.insert(lenderGuidelines).values({ ...data, updatedBy }).returning();
+    this.guidelines = null;
+    return guideline;
+  }
+
+  async updateGuideline(id: number, data: Partial<InsertLenderGuideline>, updatedBy?: number): Promise<LenderGuideline | undefined> {
+    const [guideline] = await db
+      .update(lenderGuidelines)
+      .set({ ...data, updatedBy, updatedAt: new Date() })
+      .where(eq(lenderGuidelines.id, id))
+      .returning();
+    this.guidelines = null;
+    return guideline;
+  }
+
+  async deleteGuideline(id: number): Promise<boolean> {
+    const deleted = await db.delete(lenderGuidelines).where(eq(lenderGuidelines.id, id)).returning();
+    this.guidelines = null;
+    return deleted.length > 0;
+  }
+
+  // Guidelines are cached in memory and reloaded after any admin change
+  private async loadGuidelines(): Promise<LenderGuideline[]> {
+    if (this.guidelines) return this.guidelines;
+
+    let rows = await db.select().from(lenderGuidelines).orderBy(asc(lenderGuidelines.loanType), asc(lenderGuidelines.id));
+    if (rows.length === 0) {
+      rows = await db.insert(lenderGuidelines).values(DEFAULT_LENDER_GUIDELINES).returning();
+    }
+    this.guidelines = rows;
+    return rows;
   }
 
   private sortByBestOptions(rates: LenderRate[], request: PricingRequest): LenderRate[] {
@@ -165,222 +536,6 @@ export class LoanPricingEngine {
     };
   }
 
-  private initializeLenderDatabase(): void {
-    // Initialize comprehensive lender database
-    // In production, this would be populated from APIs and database
-    
-    // DSCR Lenders
-    this.lenderRates.set('dscr', [
-      {
-        lenderId: 'lima_one',
-        lenderName: 'Lima One Capital',
-        loanProgram: 'DSCR Investment',
-        rate: 0.075,
-        points: 2.0,
-        fees: 3500,
-        maxLTV: 0.80,
-        minDSCR: 1.0,
-        minCreditScore: 640,
-        maxLoanAmount: 3000000,
-        minLoanAmount: 75000,
-        terms: '30 years',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: []
-      },
-      {
-        lenderId: 'anchor_loans',
-        lenderName: 'Anchor Loans',
-        loanProgram: 'DSCR Rental',
-        rate: 0.085,
-        points: 1.5,
-        fees: 4000,
-        maxLTV: 0.75,
-        minDSCR: 1.1,
-        minCreditScore: 620,
-        maxLoanAmount: 2500000,
-        minLoanAmount: 100000,
-        terms: '30 years',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: []
-      },
-      {
-        lenderId: 'groundfloor',
-        lenderName: 'Groundfloor',
-        loanProgram: 'DSCR Plus',
-        rate: 0.079,
-        points: 2.5,
-        fees: 2995,
-        maxLTV: 0.80,
-        minDSCR: 0.9,
-        minCreditScore: 660,
-        maxLoanAmount: 5000000,
-        minLoanAmount: 125000,
-        terms: '30 years',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: []
-      }
-    ]);
-
-    // Fix & Flip Lenders
-    this.lenderRates.set('fix_flip', [
-      {
-        lenderId: 'rehab_financial',
-        lenderName: 'Rehab Financial Group',
-        loanProgram: 'Fix & Flip',
-        rate: 0.105,
-        points: 2.0,
-        fees: 5000,
-        maxLTV: 0.90,
-        minCreditScore: 640,
-        maxLoanAmount: 2000000,
-        minLoanAmount: 50000,
-        terms: '12 months',
-        prepaymentPenalty: true,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: ['experienced_preferred']
-      },
-      {
-        lenderId: 'flip_funding',
-        lenderName: 'Flip Funding',
-        loanProgram: 'Quick Flip',
-        rate: 0.115,
-        points: 1.0,
-        fees: 3500,
-        maxLTV: 0.85,
-        minCreditScore: 620,
-        maxLoanAmount: 1500000,
-        minLoanAmount: 75000,
-        terms: '18 months',
-        prepaymentPenalty: true,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: []
-      },
-      {
-        lenderId: 'hard_money_bankers',
-        lenderName: 'Hard Money Bankers',
-        loanProgram: 'Renovation Loan',
-        rate: 0.125,
-        points: 3.0,
-        fees: 6000,
-        maxLTV: 0.95,
-        minCreditScore: 600,
-        maxLoanAmount: 3000000,
-        minLoanAmount: 100000,
-        terms: '24 months',
-        prepaymentPenalty: true,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: ['experienced_only']
-      }
-    ]);
-
-    // Bridge Lenders
-    this.lenderRates.set('bridge', [
-      {
-        lenderId: 'bridge_investment',
-        lenderName: 'Bridge Investment Group',
-        loanProgram: 'Bridge Plus',
-        rate: 0.095,
-        points: 2.0,
-        fees: 4500,
-        maxLTV: 0.75,
-        minCreditScore: 660,
-        maxLoanAmount: 5000000,
-        minLoanAmount: 100000,
-        terms: '24 months',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: []
-      },
-      {
-        lenderId: 'capital_bridge',
-        lenderName: 'Capital Bridge Lending',
-        loanProgram: 'Fast Close Bridge',
-        rate: 0.089,
-        points: 1.5,
-        fees: 3995,
-        maxLTV: 0.70,
-        minCreditScore: 680,
-        maxLoanAmount: 2500000,
-        minLoanAmount: 150000,
-        terms: '18 months',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: ['fast_processing']
-      }
-    ]);
-
-    // Construction Lenders
-    this.lenderRates.set('construction', [
-      {
-        lenderId: 'construction_capital',
-        lenderName: 'Construction Capital',
-        loanProgram: 'Ground Up Construction',
-        rate: 0.095,
-        points: 2.5,
-        fees: 7500,
-        maxLTV: 0.80,
-        minCreditScore: 680,
-        maxLoanAmount: 10000000,
-        minLoanAmount: 200000,
-        terms: '24 months construction + 30 year perm',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: ['experienced_only', 'detailed_plans_required']
-      },
-      {
-        lenderId: 'builders_capital',
-        lenderName: 'Builders Capital',
-        loanProgram: 'Custom Construction',
-        rate: 0.105,
-        points: 3.0,
-        fees: 8500,
-        maxLTV: 0.85,
-        minCreditScore: 700,
-        maxLoanAmount: 5000000,
-        minLoanAmount: 250000,
-        terms: '18 months interest only',
-        prepaymentPenalty: true,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: ['licensed_builder_required']
-      }
-    ]);
-
-    // Commercial Lenders
-    this.lenderRates.set('commercial', [
-      {
-        lenderId: 'commercial_funding',
-        lenderName: 'Commercial Funding Inc',
-        loanProgram: 'Commercial Real Estate',
-        rate: 0.065,
-        points: 1.0,
-        fees: 5000,
-        maxLTV: 0.75,
-        minDSCR: 1.25,
-        minCreditScore: 680,
-        maxLoanAmount: 50000000,
-        minLoanAmount: 500000,
-        terms: '25 years',
-        prepaymentPenalty: false,
-        isActive: true,
-        lastUpdated: new Date(),
-        conditions: ['commercial_experience_required']
-      }
-    ]);
-  }
-
   // Integration methods for external pricing services
   async syncLoanSifterRates(): Promise<boolean> {
     try {
@@ -429,7 +584,9 @@ export class LoanPricingEngine {
 
   // Get rates by lender for comparison
   async getRatesByLender(loanType: string): Promise<Record<string, LenderRate[]>> {
-    const rates = this.lenderRates.get(loanType) || [];
+    const rates = (await this.listGuidelines(loanType))
+      .filter(guideline => guideline.isActive)
+      .map(guideline => this.toLenderRate(guideline));
     const grouped: Record<string, LenderRate[]> = {};
     
     rates.forEach(rate => {
@@ -443,4 +600,278 @@ export class LoanPricingEngine {
   }
 }
 
+// Seed matrices written on first load when the lender_guidelines table is empty
+const DEFAULT_LENDER_GUIDELINES: Array<typeof lenderGuidelines.$inferInsert> = [
+  // DSCR Lenders
+  {
+    lenderId: 'lima_one',
+    lenderName: 'Lima One Capital',
+    loanProgram: 'DSCR Investment',
+    loanType: 'dscr',
+    rate: '0.0750',
+    points: '2.0',
+    fees: '3500',
+    terms: '30 years',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 720, maxLtv: 0.80 },
+        { minFico: 680, maxLtv: 0.75 },
+        { minFico: 640, maxLtv: 0.70 },
+        { minFico: 720, maxLtv: 0.75, loanPurpose: 'cash_out' },
+        { minFico: 680, maxLtv: 0.70, loanPurpose: 'cash_out' },
+      ],
+      loanAmountBands: [
+        { minAmount: 75000, maxAmount: 1500000 },
+        { minAmount: 1500001, maxAmount: 3000000, maxLtv: 0.70 },
+      ],
+      eligiblePropertyTypes: ['single_family', 'condo', 'townhouse', 'multi_family'],
+      eligibleStates: [],
+      dscrMinByLtv: [
+        { maxLtv: 0.65, minDscr: 0.9 },
+        { maxLtv: 0.80, minDscr: 1.0 },
+      ],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: true,
+    },
+    conditions: [],
+  },
+  {
+    lenderId: 'anchor_loans',
+    lenderName: 'Anchor Loans',
+    loanProgram: 'DSCR Rental',
+    loanType: 'dscr',
+    rate: '0.0850',
+    points: '1.5',
+    fees: '4000',
+    terms: '30 years',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 700, maxLtv: 0.75 },
+        { minFico: 620, maxLtv: 0.70 },
+      ],
+      loanAmountBands: [{ minAmount: 100000, maxAmount: 2500000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [{ maxLtv: 0.75, minDscr: 1.1 }],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: false,
+    },
+    conditions: [],
+  },
+  {
+    lenderId: 'groundfloor',
+    lenderName: 'Groundfloor',
+    loanProgram: 'DSCR Plus',
+    loanType: 'dscr',
+    rate: '0.0790',
+    points: '2.5',
+    fees: '2995',
+    terms: '30 years',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 740, maxLtv: 0.80 },
+        { minFico: 660, maxLtv: 0.75 },
+      ],
+      loanAmountBands: [{ minAmount: 125000, maxAmount: 5000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [
+        { maxLtv: 0.70, minDscr: 0.9 },
+        { maxLtv: 0.80, minDscr: 1.1 },
+      ],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: true,
+    },
+    conditions: [],
+  },
+
+  // Fix & Flip Lenders
+  {
+    lenderId: 'rehab_financial',
+    lenderName: 'Rehab Financial Group',
+    loanProgram: 'Fix & Flip',
+    loanType: 'fix_flip',
+    rate: '0.1050',
+    points: '2.0',
+    fees: '5000',
+    terms: '12 months',
+    prepaymentPenalty: true,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 700, maxLtv: 0.90 },
+        { minFico: 640, maxLtv: 0.85 },
+      ],
+      loanAmountBands: [{ minAmount: 50000, maxAmount: 2000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: true,
+    },
+    conditions: ['Experienced investors preferred'],
+  },
+  {
+    lenderId: 'flip_funding',
+    lenderName: 'Flip Funding',
+    loanProgram: 'Quick Flip',
+    loanType: 'fix_flip',
+    rate: '0.1150',
+    points: '1.0',
+    fees: '3500',
+    terms: '18 months',
+    prepaymentPenalty: true,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 680, maxLtv: 0.85 },
+        { minFico: 620, maxLtv: 0.80 },
+      ],
+      loanAmountBands: [{ minAmount: 75000, maxAmount: 1500000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: true,
+    },
+    conditions: [],
+  },
+  {
+    lenderId: 'hard_money_bankers',
+    lenderName: 'Hard Money Bankers',
+    loanProgram: 'Renovation Loan',
+    loanType: 'fix_flip',
+    rate: '0.1250',
+    points: '3.0',
+    fees: '6000',
+    terms: '24 months',
+    prepaymentPenalty: true,
+    matrix: {
+      ficoLtvGrid: [
+        { minFico: 660, maxLtv: 0.95 },
+        { minFico: 600, maxLtv: 0.85 },
+      ],
+      loanAmountBands: [{ minAmount: 100000, maxAmount: 3000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: false,
+      supportsExpeditedClosing: true,
+    },
+    conditions: [],
+  },
+
+  // Bridge Lenders
+  {
+    lenderId: 'bridge_investment',
+    lenderName: 'Bridge Investment Group',
+    loanProgram: 'Bridge Plus',
+    loanType: 'bridge',
+    rate: '0.0950',
+    points: '2.0',
+    fees: '4500',
+    terms: '24 months',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [{ minFico: 660, maxLtv: 0.75 }],
+      loanAmountBands: [{ minAmount: 100000, maxAmount: 5000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: true,
+    },
+    conditions: [],
+  },
+  {
+    lenderId: 'capital_bridge',
+    lenderName: 'Capital Bridge Lending',
+    loanProgram: 'Fast Close Bridge',
+    loanType: 'bridge',
+    rate: '0.0890',
+    points: '1.5',
+    fees: '3995',
+    terms: '18 months',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [{ minFico: 680, maxLtv: 0.70 }],
+      loanAmountBands: [{ minAmount: 150000, maxAmount: 2500000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: true,
+    },
+    conditions: ['Closes in as few as 7 days'],
+  },
+
+  // Construction Lenders
+  {
+    lenderId: 'construction_capital',
+    lenderName: 'Construction Capital',
+    loanProgram: 'Ground Up Construction',
+    loanType: 'construction',
+    rate: '0.0950',
+    points: '2.5',
+    fees: '7500',
+    terms: '24 months construction + 30 year perm',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [{ minFico: 680, maxLtv: 0.80 }],
+      loanAmountBands: [{ minAmount: 200000, maxAmount: 10000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: false,
+      supportsExpeditedClosing: false,
+    },
+    conditions: ['Detailed plans and budget required'],
+  },
+  {
+    lenderId: 'builders_capital',
+    lenderName: 'Builders Capital',
+    loanProgram: 'Custom Construction',
+    loanType: 'construction',
+    rate: '0.1050',
+    points: '3.0',
+    fees: '8500',
+    terms: '18 months interest only',
+    prepaymentPenalty: true,
+    matrix: {
+      ficoLtvGrid: [{ minFico: 700, maxLtv: 0.85 }],
+      loanAmountBands: [{ minAmount: 250000, maxAmount: 5000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [],
+      allowsFirstTimeInvestors: true,
+      supportsExpeditedClosing: false,
+    },
+    conditions: ['Licensed builder required'],
+  },
+
+  // Commercial Lenders
+  {
+    lenderId: 'commercial_funding',
+    lenderName: 'Commercial Funding Inc',
+    loanProgram: 'Commercial Real Estate',
+    loanType: 'commercial',
+    rate: '0.0650',
+    points: '1.0',
+    fees: '5000',
+    terms: '25 years',
+    prepaymentPenalty: false,
+    matrix: {
+      ficoLtvGrid: [{ minFico: 680, maxLtv: 0.75 }],
+      loanAmountBands: [{ minAmount: 500000, maxAmount: 50000000 }],
+      eligiblePropertyTypes: [],
+      eligibleStates: [],
+      dscrMinByLtv: [{ maxLtv: 0.75, minDscr: 1.25 }],
+      allowsFirstTimeInvestors: false,
+      supportsExpeditedClosing: false,
+    },
+    conditions: ['Commercial experience required'],
+  },
+];
+
 export const pricingEngine = LoanPricingEngine.getInstance();
\ No newline at end of file
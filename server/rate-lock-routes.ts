@@ -0,0 +1,110 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { rateLockService, RateLockError, type LockPeriod } from "./rate-lock-service";
+import { requirePermission, type StaffRequest } from "./rbac-service";
+
+const router = Router();
+
+const lockPeriodSchema = z.coerce.number().refine(
+  (days): days is LockPeriod => [15, 30, 45, 60].includes(days),
+  { message: "Lock period must be 15, 30, 45 or 60 days" }
+);
+
+const lockSchema = z.object({
+  guidelineId: z.coerce.number().int().positive(),
+  rate: z.coerce.number().positive().optional(),
+  lockPeriodDays: lockPeriodSchema,
+  pricingRequest: z.object({
+    loanType: z.string(),
+    loanAmount: z.coerce.number().positive(),
+    propertyValue: z.coerce.number().positive(),
+    creditScore: z.coerce.number().int(),
+    dscrRatio: z.coerce.number().optional(),
+    loanPurpose: z.string(),
+    propertyType: z.string(),
+    borrowerExperience: z.string(),
+    timeline: z.string(),
+    state: z.string(),
+    interestOnly: z.boolean().optional(),
+    prepaymentPenalty: z.enum(['5_4_3_2_1', '3_2_1', '2_1', '1', 'none']).optional(),
+    shortTermRental: z.boolean().optional(),
+    brokerCompPoints: z.coerce.number().min(0).optional(),
+  }),
+});
+
+function handleLockError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof RateLockError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+router.get("/loan-applications/:id/rate-locks", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    res.json(await rateLockService.getLocks(parseInt(req.params.id)));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch rate locks" });
+  }
+});
+
+router.post("/loan-applications/:id/rate-locks", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const result = lockSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid rate lock request", details: result.error.issues });
+    }
+
+    const lock = await rateLockService.lock(parseInt(req.params.id), {
+      ...result.data,
+      lockedBy: (req as StaffRequest).user!.id
+    });
+    res.status(201).json(lock);
+  } catch (error) {
+    handleLockError(res, error, "Failed to lock rate");
+  }
+});
+
+// Active locks expiring within ?days (default 7), for the dashboard
+router.get("/rate-locks/expiring", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : 7;
+    res.json(await rateLockService.getExpiringLocks(days));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch expiring rate locks" });
+  }
+});
+
+router.post("/rate-locks/:id/extend", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const days = Number(req.body.days);
+    const lock = await rateLockService.extend(parseInt(req.params.id), days, (req as StaffRequest).user!.id);
+    res.json(lock);
+  } catch (error) {
+    handleLockError(res, error, "Failed to extend rate lock");
+  }
+});
+
+router.post("/rate-locks/:id/relock", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    const result = lockPeriodSchema.safeParse(req.body.lockPeriodDays);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid lock period", details: result.error.issues });
+    }
+
+    const lock = await rateLockService.relock(parseInt(req.params.id), result.data, (req as StaffRequest).user!.id);
+    res.status(201).json(lock);
+  } catch (error) {
+    handleLockError(res, error, "Failed to relock rate");
+  }
+});
+
+router.post("/rate-locks/:id/cancel", requirePermission('pricing.edit'), async (req, res) => {
+  try {
+    res.json(await rateLockService.cancel(parseInt(req.params.id)));
+  } catch (error) {
+    handleLockError(res, error, "Failed to cancel rate lock");
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; quoting never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { rateLockService, RateLockError } = await import("./rate-lock-service");
+
+type RateLock = import("@shared/schema").RateLock;
+type RateLadderRow = import("./pricing-engine").RateLadderRow;
+
+const now = new Date('2026-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ladderRow(finalPrice: number): RateLadderRow {
+  return {
+    rate: 0.0775,
+    basePrice: 100.375,
+    totalAdjustments: -0.5,
+    brokerCompPoints: 1,
+    finalPrice,
+    borrowerPoints: 100 - finalPrice,
+    monthlyPayment: 2149.24,
+  };
+}
+
+function lock(overrides: Partial<RateLock> = {}): RateLock {
+  return {
+    id: 7,
+    loanApplicationId: 3,
+    guidelineId: 1,
+    rate: '0.07750',
+    price: '99.000',
+    lockPeriodDays: 30,
+    status: 'active',
+    lockedAt: new Date(now.getTime() - 20 * DAY_MS),
+    expiresAt: new Date(now.getTime() + 10 * DAY_MS),
+    extensions: [],
+    snapshot: { ladderRow: ladderRow(99) },
+    ...overrides,
+  } as unknown as RateLock;
+}
+
+describe("rate lock extensions", () => {
+  test("deducts 0.025 points a day and moves the expiration out", () => {
+    const quote = rateLockService.quoteExtension(lock(), 10, now);
+    assert.equal(quote.cost, 0.25);
+    assert.equal(quote.price, 98.75);
+    assert.equal(quote.expiresAt.getTime(), now.getTime() + 20 * DAY_MS);
+  });
+
+  test("offers only 5, 10 and 15 day extensions up to 30 days in total", () => {
+    assert.throws(() => rateLockService.quoteExtension(lock(), 7, now), /5, 10, 15 day increments/);
+    const extended = lock({ extensions: [{ days: 15 }, { days: 10 }] as RateLock['extensions'] });
+    assert.doesNotThrow(() => rateLockService.quoteExtension(extended, 5, now));
+    assert.throws(() => rateLockService.quoteExtension(extended, 10, now), /cannot exceed 30 days/);
+  });
+
+  test("refuses to extend a lapsed or retired lock", () => {
+    const lapsed = lock({ expiresAt: new Date(now.getTime() - 1) });
+    assert.throws(() => rateLockService.quoteExtension(lapsed, 5, now), RateLockError);
+    assert.throws(() => rateLockService.quoteExtension(lock({ status: 'relocked' }), 5, now), /relock instead/);
+  });
+});
+
+describe("relocks", () => {
+  test("relocks only expired locks, including ones the sweep has not reached yet", () => {
+    assert.throws(() => rateLockService.assertRelockable(lock(), now), /extend an active lock instead/);
+    assert.doesNotThrow(() => rateLockService.assertRelockable(lock({ expiresAt: new Date(now.getTime() - 1) }), now));
+    assert.doesNotThrow(() => rateLockService.assertRelockable(lock({ status: 'expired' }), now));
+    assert.throws(() => rateLockService.assertRelockable(lock({ status: 'relocked' }), now), /already been relocked/);
+    assert.throws(() => rateLockService.assertRelockable(lock({ status: 'cancelled' }), now), /lock the loan again/);
+  });
+
+  test("prices at the worse of the original and current price, less the relock fee", () => {
+    const improved = rateLockService.quoteRelock(lock(), ladderRow(99.5), 30);
+    assert.deepEqual(improved, { originalPrice: 99, currentPrice: 99.5, price: 98.75 });
+
+    const worsened = rateLockService.quoteRelock(lock(), ladderRow(98.25), 30);
+    assert.equal(worsened.price, 98);
+  });
+
+  test("applies the new lock period's adjustment to both prices", () => {
+    assert.equal(rateLockService.quoteRelock(lock(), ladderRow(99.5), 15).price, 98.875);
+    assert.equal(rateLockService.quoteRelock(lock(), ladderRow(99.5), 60).price, 98.5);
+    assert.throws(() => rateLockService.quoteRelock(lock(), ladderRow(99.5), 21 as 30), /15, 30, 45, 60 days/);
+  });
+});
@@ -0,0 +1,381 @@
+// Rate Lock Service
+// Locks a priced lender option to a loan, tracks expiration and handles extensions and relocks
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { tenantContext } from "./tenant-context";
+import { pricingEngine, type PricingRequest, type RateLadderRow } from "./pricing-engine";
+import { rateLocks, type RateLock } from "@shared/schema";
+import { and, desc, eq, gte, isNull, lt, lte } from "drizzle-orm";
+
+export type LockPeriod = 15 | 30 | 45 | 60;
+
+export interface LockRequest {
+  guidelineId: number;
+  pricingRequest: PricingRequest;
+  rate?: number; // ladder rate to lock, defaults to the par rate
+  lockPeriodDays: LockPeriod;
+  lockedBy?: number | null;
+}
+
+export interface ExpiringRateLock extends RateLock {
+  borrowerName: string;
+  loanOfficerId: number | null;
+  daysRemaining: number;
+}
+
+export class RateLockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLockError';
+  }
+}
+
+// Price points added to the quoted price for each lock period
+export const LOCK_PERIOD_ADJUSTMENTS: Record<LockPeriod, number> = {
+  15: 0.125,
+  30: 0,
+  45: -0.125,
+  60: -0.25,
+};
+
+const EXTENSION_OPTIONS = [5, 10, 15];
+const EXTENSION_COST_PER_DAY = 0.025; // price points per day
+const MAX_EXTENSION_DAYS = 30;
+const RELOCK_FEE = 0.25; // price points charged on top of worst-case pricing
+const EXPIRATION_WARNING_DAYS = 3;
+const TICK_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundPrice = (price: number) => Math.round(price * 1000) / 1000;
+
+export class RateLockService {
+  private static instance: RateLockService;
+  private timer: NodeJS.Timeout | null = null;
+
+  public static getInstance(): RateLockService {
+    if (!RateLockService.instance) {
+      RateLockService.instance = new RateLockService();
+    }
+    return RateLockService.instance;
+  }
+
+  // Starts the hourly check that expires locks and creates loan officer tasks
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      tenantContext.runAsSystem(() => this.processExpirations()).catch(error => console.error('Rate lock expiration error:', error));
+    }, TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Locks are only visible through a loan in the current organization
+  async getLocks(loanApplicationId: number): Promise<RateLock[]> {
+    return db
+      .select()
+      .from(rateLocks)
+      .where(tenantContext.whereLoan(rateLocks.loanApplicationId, eq(rateLocks.loanApplicationId, loanApplicationId)))
+      .orderBy(desc(rateLocks.lockedAt));
+  }
+
+  async getLock(id: number): Promise<RateLock | undefined> {
+    const [lock] = await db.select().from(rateLocks)
+      .where(tenantContext.whereLoan(rateLocks.loanApplicationId, eq(rateLocks.id, id)));
+    return lock;
+  }
+
+  async getActiveLock(loanApplicationId: number): Promise<RateLock | undefined> {
+    const [lock] = await db
+      .select()
+      .from(rateLocks)
+      .where(tenantContext.whereLoan(rateLocks.loanApplicationId, and(
+        eq(rateLocks.loanApplicationId, loanApplicationId),
+        eq(rateLocks.status, 'active')
+      )));
+    return lock;
+  }
+
+  async lock(loanApplicationId: number, request: LockRequest): Promise<RateLock> {
+    const loan = await storage.getLoanApplication(loanApplicationId);
+    if (!loan) {
+      throw new RateLockError('Loan application not found');
+    }
+    if (await this.getActiveLock(loanApplicationId)) {
+      throw new RateLockError('Loan already has an active rate lock');
+    }
+
+    const periodAdjustment = this.getLockPeriodAdjustment(request.lockPeriodDays);
+    const { option, row } = await this.priceOption(request.guidelineId, request.pricingRequest, request.rate);
+    const lockedAt = new Date();
+
+    const [lock] = await db.insert(rateLocks).values({
+      loanApplicationId,
+      guidelineId: request.guidelineId,
+      lenderName: option.lenderName,
+      loanProgram: option.loanProgram,
+      rate: row.rate.toString(),
+      price: roundPrice(row.finalPrice + periodAdjustment).toString(),
+      lockPeriodDays: request.lockPeriodDays,
+      pricingRequest: request.pricingRequest,
+      snapshot: { option, ladderRow: row, lockPeriodAdjustment: periodAdjustment },
+      lockedBy: request.lockedBy ?? null,
+      lockedAt,
+      expiresAt: new Date(lockedAt.getTime() + request.lockPeriodDays * DAY_MS)
+    }).returning();
+
+    await this.applyRateToLoan(loanApplicationId, row.rate);
+    return lock;
+  }
+
+  // Paid extension; the cost is deducted from the locked price
+  async extend(lockId: number, days: number, extendedBy?: number | null): Promise<RateLock> {
+    const lock = await this.getLock(lockId);
+    if (!lock) {
+      throw new RateLockError('Rate lock not found');
+    }
+
+    const { cost, price, expiresAt } = this.quoteExtension(lock, days);
+    const [updated] = await db
+      .update(rateLocks)
+      .set({
+        price: price.toString(),
+        expiresAt,
+        extensions: [
+          ...lock.extensions,
+          {
+            days,
+            cost,
+            previousExpiresAt: lock.expiresAt.toISOString(),
+            extendedAt: new Date().toISOString(),
+            extendedBy: extendedBy ?? null
+          }
+        ],
+        expirationTaskCreatedAt: null,
+        updatedAt: new Date()
+      })
+      .where(eq(rateLocks.id, lockId))
+      .returning();
+    return updated;
+  }
+
+  // Relocks an expired lock at the same rate using the worse of the original and current price, less the relock fee.
+  // Active locks are extended instead, and a loan never holds two active locks.
+  async relock(lockId: number, lockPeriodDays: LockPeriod, lockedBy?: number | null): Promise<RateLock> {
+    const previous = await this.getLock(lockId);
+    if (!previous) {
+      throw new RateLockError('Rate lock not found');
+    }
+    this.assertRelockable(previous);
+    const active = await this.getActiveLock(previous.loanApplicationId);
+    if (active && active.id !== previous.id) {
+      throw new RateLockError('Loan already has an active rate lock');
+    }
+
+    const periodAdjustment = this.getLockPeriodAdjustment(lockPeriodDays);
+    const rate = parseFloat(previous.rate);
+    const { option, row } = await this.priceOption(
+      previous.guidelineId,
+      previous.pricingRequest as PricingRequest,
+      rate
+    );
+
+    const { originalPrice, currentPrice, price } = this.quoteRelock(previous, row, lockPeriodDays);
+    const lockedAt = new Date();
+
+    // The old lock is retired only together with its replacement; a concurrent relock of it finds no row to retire
+    const lock = await db.transaction(async tx => {
+      const [retired] = await tx
+        .update(rateLocks)
+        .set({ status: 'relocked', updatedAt: lockedAt })
+        .where(and(eq(rateLocks.id, lockId), eq(rateLocks.status, previous.status)))
+        .returning({ id: rateLocks.id });
+      if (!retired) {
+        throw new RateLockError('This lock has already been relocked');
+      }
+
+      const [created] = await tx.insert(rateLocks).values({
+        loanApplicationId: previous.loanApplicationId,
+        guidelineId: previous.guidelineId,
+        lenderName: option.lenderName,
+        loanProgram: option.loanProgram,
+        rate: row.rate.toString(),
+        price: price.toString(),
+        lockPeriodDays,
+        pricingRequest: previous.pricingRequest,
+        snapshot: {
+          option,
+          ladderRow: previous.snapshot.ladderRow,
+          lockPeriodAdjustment: periodAdjustment,
+          relockPricing: { originalPrice, currentPrice, relockFee: RELOCK_FEE }
+        },
+        relockedFromId: previous.id,
+        lockedBy: lockedBy ?? null,
+        lockedAt,
+        expiresAt: new Date(lockedAt.getTime() + lockPeriodDays * DAY_MS)
+      }).returning();
+      return created;
+    });
+
+    await this.applyRateToLoan(previous.loanApplicationId, row.rate);
+    return lock;
+  }
+
+  async cancel(lockId: number): Promise<RateLock> {
+    const lock = await this.getLock(lockId);
+    if (!lock) {
+      throw new RateLockError('Rate lock not found');
+    }
+    if (lock.status !== 'active') {
+      throw new RateLockError('Only active locks can be cancelled');
+    }
+
+    const [updated] = await db
+      .update(rateLocks)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(rateLocks.id, lockId))
+      .returning();
+    return updated;
+  }
+
+  async getExpiringLocks(withinDays: number = 7): Promise<ExpiringRateLock[]> {
+    const now = new Date();
+    const locks = await db
+      .select()
+      .from(rateLocks)
+      .where(tenantContext.whereLoan(rateLocks.loanApplicationId, and(
+        eq(rateLocks.status, 'active'),
+        gte(rateLocks.expiresAt, now),
+        lte(rateLocks.expiresAt, new Date(now.getTime() + withinDays * DAY_MS))
+      )))
+      .orderBy(rateLocks.expiresAt);
+
+    const expiring: ExpiringRateLock[] = [];
+    for (const lock of locks) {
+      const loan = await storage.getLoanApplicationWithDetails(lock.loanApplicationId);
+      expiring.push({
+        ...lock,
+        borrowerName: loan ? `${loan.borrower.firstName} ${loan.borrower.lastName}` : 'Unknown borrower',
+        loanOfficerId: loan?.loanOfficerId ?? null,
+        daysRemaining: Math.ceil((lock.expiresAt.getTime() - now.getTime()) / DAY_MS)
+      });
+    }
+    return expiring;
+  }
+
+  // Expires lapsed locks and creates a task for the loan officer when a lock is about to expire
+  async processExpirations(): Promise<void> {
+    const now = new Date();
+    await db
+      .update(rateLocks)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(eq(rateLocks.status, 'active'), lt(rateLocks.expiresAt, now)));
+
+    const expiring = await this.getExpiringLocks(EXPIRATION_WARNING_DAYS);
+    for (const lock of expiring) {
+      if (lock.expirationTaskCreatedAt || !lock.loanOfficerId) continue;
+
+      await storage.createTask({
+        loanApplicationId: lock.loanApplicationId,
+        assignedToId: lock.loanOfficerId,
+        title: `Rate lock expiring for ${lock.borrowerName}`,
+        description: `${lock.lenderName} lock at ${(parseFloat(lock.rate) * 100).toFixed(3)}% expires ${lock.expiresAt.toLocaleDateString('en-US')}. Extend, relock or close before expiration.`,
+        priority: 'high',
+        status: 'pending',
+        dueDate: lock.expiresAt
+      });
+
+      await db
+        .update(rateLocks)
+        .set({ expirationTaskCreatedAt: now })
+        .where(and(eq(rateLocks.id, lock.id), isNull(rateLocks.expirationTaskCreatedAt)));
+    }
+  }
+
+  // Extension cost is deducted from the locked price and the expiration moves out by the extended days
+  quoteExtension(lock: RateLock, days: number, now = new Date()): { cost: number; price: number; expiresAt: Date } {
+    if (lock.status !== 'active' || lock.expiresAt < now) {
+      throw new RateLockError('Only active, unexpired locks can be extended; relock instead');
+    }
+    if (!EXTENSION_OPTIONS.includes(days)) {
+      throw new RateLockError(`Extensions are available in ${EXTENSION_OPTIONS.join(', ')} day increments`);
+    }
+
+    const extendedDays = lock.extensions.reduce((sum, extension) => sum + extension.days, 0);
+    if (extendedDays + days > MAX_EXTENSION_DAYS) {
+      throw new RateLockError(`Extensions cannot exceed ${MAX_EXTENSION_DAYS} days in total`);
+    }
+
+    const cost = roundPrice(days * EXTENSION_COST_PER_DAY);
+    return {
+      cost,
+      price: roundPrice(parseFloat(lock.price) - cost),
+      expiresAt: new Date(lock.expiresAt.getTime() + days * DAY_MS)
+    };
+  }
+
+  assertRelockable(lock: RateLock, now = new Date()): void {
+    if (lock.status === 'relocked') {
+      throw new RateLockError('This lock has already been relocked');
+    }
+    if (lock.status === 'cancelled') {
+      throw new RateLockError('A cancelled lock cannot be relocked; lock the loan again instead');
+    }
+    if (!this.isExpired(lock, now)) {
+      throw new RateLockError('Only expired locks can be relocked; extend an active lock instead');
+    }
+  }
+
+  // Worst case of the originally locked and the current ladder price for the new period, less the relock fee
+  quoteRelock(previous: RateLock, current: RateLadderRow, lockPeriodDays: LockPeriod): { originalPrice: number; currentPrice: number; price: number } {
+    const periodAdjustment = this.getLockPeriodAdjustment(lockPeriodDays);
+    const originalPrice = previous.snapshot.ladderRow.finalPrice + periodAdjustment;
+    const currentPrice = current.finalPrice + periodAdjustment;
+    return { originalPrice, currentPrice, price: roundPrice(Math.min(originalPrice, currentPrice) - RELOCK_FEE) };
+  }
+
+  // Lapsed locks keep status 'active' until the next expiration sweep
+  private isExpired(lock: RateLock, now = new Date()): boolean {
+    return lock.status === 'expired' || (lock.status === 'active' && lock.expiresAt < now);
+  }
+
+  private getLockPeriodAdjustment(days: number): number {
+    if (!(days in LOCK_PERIOD_ADJUSTMENTS)) {
+      throw new RateLockError(`Lock period must be one of ${Object.keys(LOCK_PERIOD_ADJUSTMENTS).join(', ')} days`);
+    }
+    return LOCK_PERIOD_ADJUSTMENTS[days as LockPeriod];
+  }
+
+  // Re-prices the lender option so a lock always reflects current guidelines and adjustments
+  private async priceOption(guidelineId: number, request: PricingRequest, rate?: number) {
+    const guideline = await pricingEngine.getGuideline(guidelineId);
+    if (!guideline || !guideline.isActive) {
+      throw new RateLockError('Lender program is no longer available');
+    }
+
+    const evaluation = pricingEngine.evaluateGuideline(guideline, request);
+    if (!evaluation.eligible) {
+      throw new RateLockError(`Loan is no longer eligible with ${guideline.lenderName}: ${evaluation.exclusion.reason}`);
+    }
+
+    const option = evaluation.rate;
+    const targetRate = rate ?? option.rate;
+    const row = option.ladder?.find((candidate: RateLadderRow) => Math.abs(candidate.rate - targetRate) < 0.000001);
+    if (!row) {
+      throw new RateLockError(`${(targetRate * 100).toFixed(3)}% is not available on the ${guideline.lenderName} rate sheet`);
+    }
+    return { option, row };
+  }
+
+  // Three decimals hold the ladder rate exactly (7.125, not 7.13)
+  private async applyRateToLoan(loanApplicationId: number, rate: number): Promise<void> {
+    await storage.updateLoanApplication(loanApplicationId, { interestRate: (rate * 100).toFixed(3) });
+  }
+}
+
+export const rateLockService = RateLockService.getInstance();
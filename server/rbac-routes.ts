@@ -0,0 +1,131 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { rbacService, requirePermission, RbacError, AUTH_COOKIE, type StaffRequest } from "./rbac-service";
+
+const router = Router();
+
+const loginSchema = z.object({
+  email: z.string().min(1),
+  password: z.string().min(1),
+});
+
+const roleSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, "Role name must be lowercase letters, digits and underscores"),
+  displayName: z.string().min(1),
+  description: z.string().nullable().optional(),
+  permissions: z.array(z.string()).default([]),
+});
+
+const userAccessSchema = z.object({
+  role: z.string().min(1).optional(),
+  permissions: z.array(z.string()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+function handleRbacError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof RbacError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Staff authentication
+
+router.post("/auth/login", async (req, res) => {
+  try {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Email and password are required", details: result.error.issues });
+    }
+
+    const { token, user } = await rbacService.login(result.data.email, result.data.password);
+    res.cookie(AUTH_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 12 * 60 * 60 * 1000,
+    });
+    res.json({ token, user });
+  } catch (error) {
+    handleRbacError(res, error, "Login failed");
+  }
+});
+
+router.post("/auth/logout", (req, res) => {
+  res.clearCookie(AUTH_COOKIE);
+  res.json({ success: true });
+});
+
+router.get("/auth/me", requirePermission(), (req, res) => {
+  res.json((req as StaffRequest).user);
+});
+
+// Roles
+
+router.get("/roles", requirePermission('team.view'), async (req, res) => {
+  try {
+    res.json(await rbacService.listRoles((req as StaffRequest).user!.organizationId));
+  } catch (error) {
+    handleRbacError(res, error, "Failed to fetch roles");
+  }
+});
+
+router.post("/roles", requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const result = roleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid role", details: result.error.issues });
+    }
+    const caller = (req as StaffRequest).user!;
+    res.status(201).json(await rbacService.createRole(result.data, caller.organizationId, caller.id));
+  } catch (error) {
+    handleRbacError(res, error, "Failed to create role");
+  }
+});
+
+router.put("/roles/:id", requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const result = roleSchema.omit({ name: true }).partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid role", details: result.error.issues });
+    }
+    res.json(await rbacService.updateRole(parseInt(req.params.id), result.data, (req as StaffRequest).user!.organizationId));
+  } catch (error) {
+    handleRbacError(res, error, "Failed to update role");
+  }
+});
+
+router.delete("/roles/:id", requirePermission('roles.manage'), async (req, res) => {
+  try {
+    await rbacService.deleteRole(parseInt(req.params.id), (req as StaffRequest).user!.organizationId);
+    res.json({ success: true });
+  } catch (error) {
+    handleRbacError(res, error, "Failed to delete role");
+  }
+});
+
+// Users in the caller's organization with their role, overrides and effective permissions
+
+router.get("/users", requirePermission('team.view'), async (req, res) => {
+  try {
+    res.json(await rbacService.listUsers((req as StaffRequest).user!.organizationId));
+  } catch (error) {
+    handleRbacError(res, error, "Failed to fetch users");
+  }
+});
+
+router.put("/users/:id", requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const result = userAccessSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid user access update", details: result.error.issues });
+    }
+    const caller = (req as StaffRequest).user!;
+    res.json(await rbacService.updateUserAccess(parseInt(req.params.id), result.data, caller.organizationId));
+  } catch (error) {
+    handleRbacError(res, error, "Failed to update user");
+  }
+});
+
+export default router;
@@ -0,0 +1,324 @@
+// RBAC Service
+// Staff authentication and role-based access control: roles from user_roles plus per-user permission overrides
+
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import { db } from "./db";
+import { users, userRoles, type User, type UserRole } from "@shared/schema";
+import { PERMISSION_IDS, REVOKED_PREFIX, SYSTEM_ROLES } from "@shared/permissions";
+import { and, asc, count, eq, isNull, or } from "drizzle-orm";
+
+const JWT_SECRET = process.env.JWT_SECRET || 'staff-secret-key-change-this';
+const TOKEN_TTL = '12h';
+export const AUTH_COOKIE = 'auth_token';
+
+// Signed-in staff member attached to req.user with their effective permissions
+export interface AuthenticatedUser {
+  id: number;
+  organizationId: number;
+  username: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: string;
+  permissions: string[];
+}
+
+export type StaffRequest = Request & { user?: AuthenticatedUser };
+
+export interface RoleInput {
+  name: string;
+  displayName: string;
+  description?: string | null;
+  permissions: string[];
+}
+
+export interface UserAccessUpdate {
+  role?: string;
+  permissions?: string[];
+  isActive?: boolean;
+}
+
+export class RbacError extends Error {
+  constructor(message: string, public status: 401 | 403 | 404 | 422 = 422) {
+    super(message);
+    this.name = 'RbacError';
+  }
+}
+
+export class RbacService {
+  private static instance: RbacService;
+  // Keyed by "<organizationId>:<name>", with an empty organization for system roles
+  private rolePermissions: Map<string, string[]> | null = null;
+  private systemRolesSeeded: Promise<void> | null = null;
+
+  static getInstance(): RbacService {
+    if (!RbacService.instance) {
+      RbacService.instance = new RbacService();
+    }
+    return RbacService.instance;
+  }
+
+  // Authentication
+
+  async login(identifier: string, password: string): Promise<{ token: string; user: AuthenticatedUser }> {
+    const [user] = await db.select().from(users)
+      .where(or(eq(users.email, identifier.toLowerCase()), eq(users.username, identifier)));
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      throw new RbacError('Invalid credentials', 401);
+    }
+    if (!user.isActive) {
+      throw new RbacError('Account is inactive', 401);
+    }
+
+    await db.update(users).set({ lastLogin: new Date() }).where(eq(users.id, user.id));
+    const token = jwt.sign({ id: user.id, type: 'user' }, JWT_SECRET, { expiresIn: TOKEN_TTL });
+    return { token, user: await this.toAuthenticatedUser(user) };
+  }
+
+  // Attaches the signed-in staff member, if any, to req.user. Tokens come from the Authorization header or the
+  // auth cookie; borrower and realtor tokens are ignored. Never rejects a request: routes opt in via requirePermission.
+  authenticate(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const header = req.headers.authorization;
+      const token = header?.startsWith('Bearer ') ? header.slice(7) : req.cookies?.[AUTH_COOKIE];
+      if (!token) return next();
+
+      try {
+        const decoded = jwt.verify(token, JWT_SECRET) as { id: number; type?: string };
+        if (decoded.type === 'user') {
+          const [user] = await db.select().from(users).where(eq(users.id, decoded.id));
+          if (user?.isActive) {
+            (req as StaffRequest).user = await this.toAuthenticatedUser(user);
+          }
+        }
+      } catch {
+        // Expired or foreign tokens leave the request unauthenticated
+      }
+      next();
+    };
+  }
+
+  // 401 without a signed-in staff member, 403 unless they hold every listed permission; with none listed any staff member passes
+  requirePermission(...required: string[]): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const user = (req as StaffRequest).user;
+      if (!user || !Array.isArray(user.permissions)) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+      const missing = required.filter(permission => !user.permissions.includes(permission));
+      if (missing.length > 0) {
+        return res.status(403).json({ message: `Missing permission: ${missing.join(', ')}` });
+      }
+      next();
+    };
+  }
+
+  can(req: Request, permission: string): boolean {
+    const user = (req as StaffRequest).user;
+    return Array.isArray(user?.permissions) && user!.permissions.includes(permission);
+  }
+
+  // Permission resolution
+
+  // Permissions of the organization's role plus the user's overrides ("perm" grants, "-perm" revokes), limited to
+  // the catalog
+  async resolvePermissions(organizationId: number, role: string, overrides: string[] | null | undefined): Promise<string[]> {
+    const granted = new Set<string>();
+    this.expand(await this.findRolePermissions(organizationId, role) || []).forEach(permission => granted.add(permission));
+    (overrides || []).forEach(override => {
+      if (override.startsWith(REVOKED_PREFIX)) {
+        granted.delete(override.slice(REVOKED_PREFIX.length));
+      } else {
+        this.expand([override]).forEach(permission => granted.add(permission));
+      }
+    });
+    return PERMISSION_IDS.filter(permission => granted.has(permission));
+  }
+
+  // Roles
+
+  // System roles and the organization's own
+  async listRoles(organizationId: number): Promise<Array<UserRole & { userCount: number }>> {
+    await this.ensureSystemRoles();
+    const [roles, counts] = await Promise.all([
+      db.select().from(userRoles).where(this.visibleRoles(organizationId)).orderBy(asc(userRoles.id)),
+      db.select({ role: users.role, total: count() }).from(users)
+        .where(eq(users.organizationId, organizationId))
+        .groupBy(users.role),
+    ]);
+    return roles.map(role => ({
+      ...role,
+      userCount: counts.find(entry => entry.role === role.name)?.total || 0,
+    }));
+  }
+
+  async createRole(input: RoleInput, organizationId: number, createdBy?: number | null): Promise<UserRole> {
+    await this.ensureSystemRoles();
+    this.validatePermissions(input.permissions);
+    const [existing] = await db.select().from(userRoles)
+      .where(and(this.visibleRoles(organizationId), eq(userRoles.name, input.name)));
+    if (existing) {
+      throw new RbacError(`Role "${input.name}" already exists`);
+    }
+
+    const [role] = await db.insert(userRoles).values({
+      organizationId,
+      name: input.name,
+      displayName: input.displayName,
+      description: input.description || null,
+      permissions: input.permissions,
+      isSystemRole: false,
+      createdBy: createdBy || null,
+    }).returning();
+    this.rolePermissions = null;
+    return role;
+  }
+
+  // System roles are shared by every organization, so only custom roles can be changed
+  async updateRole(id: number, input: Partial<Omit<RoleInput, 'name'>>, organizationId: number): Promise<UserRole> {
+    const role = await this.getRole(id, organizationId);
+    if (role.isSystemRole) {
+      throw new RbacError('System roles cannot be changed; create a custom role instead');
+    }
+    if (input.permissions) this.validatePermissions(input.permissions);
+
+    const [updated] = await db.update(userRoles).set({
+      displayName: input.displayName ?? role.displayName,
+      description: input.description !== undefined ? input.description : role.description,
+      permissions: input.permissions ?? role.permissions,
+      updatedAt: new Date(),
+    }).where(eq(userRoles.id, id)).returning();
+    this.rolePermissions = null;
+    return updated;
+  }
+
+  async deleteRole(id: number, organizationId: number): Promise<void> {
+    const role = await this.getRole(id, organizationId);
+    if (role.isSystemRole) {
+      throw new RbacError('System roles cannot be deleted');
+    }
+    const [{ total }] = await db.select({ total: count() }).from(users)
+      .where(and(eq(users.organizationId, organizationId), eq(users.role, role.name)));
+    if (total > 0) {
+      throw new RbacError(`Role "${role.displayName}" is assigned to ${total} user(s); reassign them first`);
+    }
+
+    await db.delete(userRoles).where(eq(userRoles.id, id));
+    this.rolePermissions = null;
+  }
+
+  // Users
+
+  async listUsers(organizationId?: number) {
+    const rows = await db.select().from(users)
+      .where(organizationId ? eq(users.organizationId, organizationId) : undefined)
+      .orderBy(asc(users.lastName), asc(users.firstName));
+    return Promise.all(rows.map(user => this.toUserSummary(user)));
+  }
+
+  async updateUserAccess(id: number, update: UserAccessUpdate, organizationId?: number) {
+    const [user] = await db.select().from(users)
+      .where(organizationId ? and(eq(users.id, id), eq(users.organizationId, organizationId)) : eq(users.id, id));
+    if (!user) {
+      throw new RbacError('User not found', 404);
+    }
+    if (update.role !== undefined && !(await this.findRolePermissions(user.organizationId, update.role))) {
+      throw new RbacError(`Unknown role "${update.role}"`);
+    }
+    if (update.permissions) {
+      this.validatePermissions(update.permissions.map(override =>
+        override.startsWith(REVOKED_PREFIX) ? override.slice(REVOKED_PREFIX.length) : override));
+    }
+
+    const [updated] = await db.update(users).set({
+      role: update.role ?? user.role,
+      permissions: update.permissions ?? user.permissions,
+      isActive: update.isActive ?? user.isActive,
+      updatedAt: new Date(),
+    }).where(eq(users.id, id)).returning();
+    return this.toUserSummary(updated);
+  }
+
+  async toAuthenticatedUser(user: User): Promise<AuthenticatedUser> {
+    return {
+      id: user.id,
+      organizationId: user.organizationId,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: user.role,
+      permissions: await this.resolvePermissions(user.organizationId, user.role, user.permissions),
+    };
+  }
+
+  private async toUserSummary(user: User) {
+    return {
+      id: user.id,
+      organizationId: user.organizationId,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: user.role,
+      permissions: user.permissions || [],
+      effectivePermissions: await this.resolvePermissions(user.organizationId, user.role, user.permissions),
+      isActive: user.isActive,
+      lastLogin: user.lastLogin,
+    };
+  }
+
+  private visibleRoles(organizationId: number) {
+    return or(isNull(userRoles.organizationId), eq(userRoles.organizationId, organizationId));
+  }
+
+  private async getRole(id: number, organizationId: number): Promise<UserRole> {
+    const [role] = await db.select().from(userRoles).where(and(eq(userRoles.id, id), this.visibleRoles(organizationId)));
+    if (!role) {
+      throw new RbacError('Role not found', 404);
+    }
+    return role;
+  }
+
+  // A system role or one of the organization's custom roles; undefined when the name matches neither
+  private async findRolePermissions(organizationId: number, name: string): Promise<string[] | undefined> {
+    if (!this.rolePermissions) {
+      await this.ensureSystemRoles();
+      const roles = await db.select().from(userRoles);
+      this.rolePermissions = new Map(roles.map(role => [`${role.organizationId ?? ''}:${role.name}`, role.permissions] as [string, string[]]));
+    }
+    return this.rolePermissions.get(`:${name}`) ?? this.rolePermissions.get(`${organizationId}:${name}`);
+  }
+
+  // Inserts any missing built-in role once per process; existing rows, including edited ones, are left alone
+  private ensureSystemRoles(): Promise<void> {
+    if (!this.systemRolesSeeded) {
+      this.systemRolesSeeded = db.insert(userRoles)
+        .values(SYSTEM_ROLES.map(role => ({ ...role, isSystemRole: true })))
+        .onConflictDoNothing({ target: [userRoles.organizationId, userRoles.name] })
+        .then(() => undefined)
+        .catch(error => {
+          this.systemRolesSeeded = null;
+          throw error;
+        });
+    }
+    return this.systemRolesSeeded;
+  }
+
+  private expand(permissions: string[]): string[] {
+    return permissions.includes('*') ? PERMISSION_IDS : permissions;
+  }
+
+  private validatePermissions(permissions: string[]) {
+    const unknown = permissions.filter(permission => permission !== '*' && !PERMISSION_IDS.includes(permission));
+    if (unknown.length > 0) {
+      throw new RbacError(`Unknown permission: ${unknown.join(', ')}`);
+    }
+  }
+}
+
+export const rbacService = RbacService.getInstance();
+
+// Route annotation: app.get('/api/x', requirePermission('loans.view'), handler)
+export const requirePermission = (...permissions: string[]) => rbacService.requirePermission(...permissions);
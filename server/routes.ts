@@ -10,13 +10,15 @@ import {
   insertTaskSchema,
   insertNotificationSchema,
   insertTemplateSchema,
-  insertCallLogSchema
+  insertCallLogSchema,
+  loanPaymentTermsSchema
 } from "@shared/schema";
 import { marketingIntegrations, type WebhookPayload } from "./marketing-integrations";
 import { aiLoanAdvisor, type BorrowerProfile } from "./ai-loan-advisor";
 import { aiMarketAnalyzer, type MarketAnalysisRequest } from "./ai-market-analysis";
 import { propertyDataService } from "./property-data-service";
 import { pricingEngine, type PricingRequest } from "./pricing-engine";
+import { paymentProcessor, PaymentCalculationError } from "./payment-processor";
 import type { PropertyVideoTourRequest } from "./video-tour-generator";
 import { propertyImageService } from "./property-image-service";
 import { linkedInIntegration } from "./linkedin-integration";
@@ -31,6 +33,38 @@ import aiRoutes from "./ai-routes";
 import loanOfficerRoutes from "./loan-officer-routes";
 import autonomousAIRoutes from "./autonomous-ai-routes";
 import linkedInRoutes from "./linkedin-routes";
+import workflowRoutes from "./workflow-routes";
+import underwritingRoutes from "./underwriting-routes";
+import lenderGuidelineRoutes from "./lender-guideline-routes";
+import rateLockRoutes from "./rate-lock-routes";
+import { rateLockService } from "./rate-lock-service";
+import mismoRoutes from "./mismo-routes";
+import fnmRoutes from "./fnm-routes";
+import loanConditionRoutes from "./loan-condition-routes";
+import { loanConditionService, LoanConditionError } from "./loan-condition-service";
+import feeWorksheetRoutes from "./fee-worksheet-routes";
+import scenarioRoutes from "./scenario-routes";
+import complianceRoutes from "./compliance-routes";
+import hmdaRoutes from "./hmda-routes";
+import auditRoutes from "./audit-routes";
+import consentRoutes from "./consent-routes";
+import smsRoutes from "./sms-routes";
+import mailboxRoutes from "./mailbox-routes";
+import { mailboxSync } from "./mailbox-sync-service";
+import { loanTimelineService } from "./loan-timeline-service";
+import { auditService } from "./audit-service";
+import { piiMasking } from "./pii-masking";
+import rbacRoutes from "./rbac-routes";
+import { rbacService, requirePermission, type StaffRequest } from "./rbac-service";
+import { tenantContext } from "./tenant-context";
+import { workflowEngine } from "./workflow-engine";
+import { notificationQueue, NotificationDeliveryError } from "./notification-queue";
+import { templateEngine, TemplateValidationError } from "./template-engine";
+import { loanStatusMachine, LoanStatusTransitionError } from "./loan-status-machine";
+import { LOAN_STATUSES, normalizeLoanStatus } from "@shared/loan-status";
+import { loanApplicationSearchSchema } from "@shared/loan-search";
+import { TEMPLATE_FIELDS } from "@shared/template-fields";
+import { InvalidCursorError } from "./storage-defaults";
 import { borrowerAuthRoutes, borrowerMiddleware } from "./borrower-auth";
 import { realtorAuthRoutes, realtorMiddleware } from "./realtor-auth";
 import multer from "multer";
@@ -70,9 +104,37 @@ const upload = multer({
   }
 });
 
+// Entering these statuses is a credit decision and needs loans.approve on top of loans.edit
+const APPROVAL_STATUSES = ['conditionally_approved', 'clear_to_close', 'funded', 'declined'];
+
+const notificationPageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const templatePreviewSchema = z.object({
+  type: z.enum(['email', 'sms']),
+  subject: z.string().nullable().optional(),
+  content: z.string().min(1),
+  loanApplicationId: z.number().int().positive(),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure middleware
   app.use(cookieParser());
+
+  // Resolve the signed-in staff member and their permissions; routes enforce them with requirePermission
+  app.use('/api', rbacService.authenticate());
+
+  // Scope storage to the caller's organization, resolved from the staff session or the branded host
+  app.use('/api', tenantContext.middleware());
+
+  // Record mutations and sensitive-data views in the audit trail
+  app.use('/api', auditService.middleware());
+
+  // Mask SSNs, dates of birth and account numbers for callers without the pii.view permission.
+  // Mounted after the audit middleware so the audit trail records only views of unmasked data.
+  app.use('/api', piiMasking.middleware());
   
   // Serve public website for root domain
   app.use((req, res, next) => {
@@ -244,7 +306,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
   
   // Dashboard stats
-  app.get("/api/dashboard/stats", async (req, res) => {
+  app.get("/api/dashboard/stats", requirePermission('reports.view'), async (req, res) => {
     try {
       const stats = await storage.getDashboardStats();
       res.json(stats);
@@ -254,16 +316,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Loan Applications
-  app.get("/api/loan-applications", async (req, res) => {
+  // One page of loans with details: filters, sort and search from the query string, next page via ?cursor=
+  app.get("/api/loan-applications", requirePermission('loans.view'), async (req, res) => {
     try {
-      const applications = await storage.getAllLoanApplicationsWithDetails();
-      res.json(applications);
+      const result = loanApplicationSearchSchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid loan application query", details: result.error.issues });
+      }
+
+      res.json(await storage.searchLoanApplications(result.data));
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch loan applications" });
     }
   });
 
-  app.get("/api/loan-applications/:id", async (req, res) => {
+  app.get("/api/loan-applications/:id", requirePermission('loans.view'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const application = await storage.getLoanApplicationWithDetails(id);
@@ -276,10 +346,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/loan-applications", async (req, res) => {
+  // Full payment schedule from the application's rate, term and payment terms
+  app.get("/api/loan-applications/:id/payment-schedule", requirePermission('loans.view'), async (req, res) => {
+    try {
+      const application = await storage.getLoanApplication(parseInt(req.params.id));
+      if (!application) {
+        return res.status(404).json({ message: "Loan application not found" });
+      }
+      if (!application.interestRate) {
+        return res.status(422).json({ message: "Set an interest rate before generating a payment schedule" });
+      }
+
+      const calculation = await paymentProcessor.calculateLoanPayment({
+        ...application.paymentTerms,
+        principal: parseFloat(application.requestedAmount),
+        interestRate: parseFloat(application.interestRate),
+        termYears: (application.termMonths || 360) / 12,
+        paymentFrequency: 'monthly',
+      });
+      res.json(calculation);
+    } catch (error) {
+      if (error instanceof PaymentCalculationError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Payment schedule error:", error);
+      res.status(500).json({ message: "Failed to generate payment schedule" });
+    }
+  });
+
+  app.post("/api/loan-applications", requirePermission('loans.create'), async (req, res) => {
     try {
-      // Validate and create borrower
+      const loanOfficer = (req as StaffRequest).user!;
+
+      // Validate borrower
       const borrowerData = insertBorrowerSchema.parse({
+        organizationId: loanOfficer.organizationId,
         firstName: req.body.borrower.firstName,
         lastName: req.body.borrower.lastName,
         email: req.body.borrower.email,
@@ -289,9 +390,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         state: req.body.borrower.state,
         zipCode: req.body.borrower.zipCode,
       });
-      const borrower = await storage.createBorrower(borrowerData);
 
-      // Validate and create property
+      // Validate property
       const propertyData = insertPropertySchema.parse({
         address: req.body.property.address,
         city: req.body.property.city,
@@ -303,7 +403,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         rehabCost: req.body.property.rehabCost,
         arv: req.body.property.arv,
       });
-      const property = await storage.createProperty(propertyData);
+
+      // Optional interest-only, balloon, ARM and holdback terms
+      const paymentTerms = req.body.paymentTerms ? loanPaymentTermsSchema.parse(req.body.paymentTerms) : null;
 
       // Calculate LTV and DSCR
       const requestedAmount = parseFloat(req.body.requestedAmount);
@@ -320,19 +422,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       let dscr = 0;
       if (monthlyRent > 0 && interestRate > 0) {
-        const monthlyPayment = (requestedAmount * (interestRate / 100 / 12)) / 
-          (1 - Math.pow(1 + (interestRate / 100 / 12), -termMonths));
+        const { qualifyingPayment } = await paymentProcessor.calculateLoanPayment({
+          ...paymentTerms,
+          principal: requestedAmount,
+          interestRate,
+          termYears: termMonths / 12,
+          paymentFrequency: 'monthly',
+        });
         const netOperatingIncome = monthlyRent - monthlyExpenses;
-        if (monthlyPayment > 0) {
-          dscr = netOperatingIncome / monthlyPayment;
+        if (qualifyingPayment > 0) {
+          dscr = netOperatingIncome / qualifyingPayment;
         }
       }
 
-      // Validate and create loan application
-      const applicationData = insertLoanApplicationSchema.parse({
-        borrowerId: borrower.id,
-        propertyId: property.id,
-        loanOfficerId: 1, // Default to admin user
+      // Validate loan application
+      const applicationData = insertLoanApplicationSchema.omit({ borrowerId: true, propertyId: true }).parse({
+        organizationId: loanOfficer.organizationId,
+        loanOfficerId: loanOfficer.id,
         loanType: req.body.loanType,
         requestedAmount: req.body.requestedAmount,
         status: 'application',
@@ -340,25 +446,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         dscr: dscr.toString(),
         interestRate: req.body.interestRate,
         termMonths: termMonths,
+        paymentTerms,
         monthlyRent: req.body.monthlyRent,
         monthlyExpenses: req.body.monthlyExpenses,
         notes: req.body.notes,
       });
 
-      const application = await storage.createLoanApplication(applicationData);
-      
-      // Create initial task
-      await storage.createTask({
-        loanApplicationId: application.id,
-        assignedToId: 1,
-        title: "Review Application Documents",
-        description: `Initial review for ${borrower.firstName} ${borrower.lastName}`,
-        priority: "medium",
-        status: "pending",
-        dueDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000) // 3 days from now
+      // Borrower, property, application and the initial review task are written together or not at all
+      const fullApplication = await storage.createLoanApplicationWithRelations({
+        borrower: borrowerData,
+        property: propertyData,
+        application: applicationData,
+        tasks: [{
+          assignedToId: loanOfficer.id,
+          title: "Review Application Documents",
+          description: `Initial review for ${borrowerData.firstName} ${borrowerData.lastName}`,
+          priority: "medium",
+          status: "pending",
+          dueDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000) // 3 days from now
+        }],
       });
+      workflowEngine.emit({ type: 'application_created', loanApplicationId: fullApplication.id, payload: { loanType: fullApplication.loanType } });
 
-      const fullApplication = await storage.getLoanApplicationWithDetails(application.id);
       res.status(201).json(fullApplication);
     } catch (error) {
       console.error("Error creating loan application:", error);
@@ -368,22 +477,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/loan-applications/:id", async (req, res) => {
+  app.patch("/api/loan-applications/:id", requirePermission('loans.edit'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const application = await storage.updateLoanApplication(id, req.body);
-      if (!application) {
+      // History always records the signed-in user; a changedBy in the body is dropped
+      const { status, statusReason, changedBy: _changedBy, ...updates } = req.body;
+      const existing = await storage.getLoanApplication(id);
+      if (!existing) {
         return res.status(404).json({ message: "Loan application not found" });
       }
+
+      if (status && APPROVAL_STATUSES.includes(normalizeLoanStatus(status) || status) && !rbacService.can(req, 'loans.approve')) {
+        return res.status(403).json({ message: "Missing permission: loans.approve" });
+      }
+      // Rates are normally set by a rate lock; editing one directly is a pricing exception
+      if (updates.interestRate !== undefined && String(updates.interestRate) !== String(existing.interestRate) &&
+          !rbacService.can(req, 'pricing.override')) {
+        return res.status(403).json({ message: "Missing permission: pricing.override" });
+      }
+
+      // Status changes always go through the state machine so guards and history apply; the other edits are
+      // saved with the status so neither lands without the other
+      if (status && status !== existing.status) {
+        await loanStatusMachine.transition(id, {
+          toStatus: status,
+          reason: statusReason,
+          changedBy: (req as StaffRequest).user!.id,
+          updates
+        });
+      } else if (Object.keys(updates).length > 0) {
+        await storage.updateLoanApplication(id, updates);
+      }
       const fullApplication = await storage.getLoanApplicationWithDetails(id);
       res.json(fullApplication);
     } catch (error) {
+      if (error instanceof LoanStatusTransitionError) {
+        return res.status(422).json({ message: error.message, blockers: error.blockers });
+      }
       res.status(400).json({ message: "Invalid update data" });
     }
   });
 
+  // Loan status state machine
+  app.get("/api/loan-statuses", requirePermission('loans.view'), async (req, res) => {
+    res.json(loanStatusMachine.getDefinition());
+  });
+
+  app.get("/api/loan-applications/:id/transitions", requirePermission('loans.view'), async (req, res) => {
+    try {
+      const transitions = await loanStatusMachine.getAvailableTransitions(parseInt(req.params.id));
+      res.json(transitions);
+    } catch (error) {
+      if (error instanceof LoanStatusTransitionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch status transitions" });
+    }
+  });
+
+  app.post("/api/loan-applications/:id/status", requirePermission('loans.edit'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status, reason } = req.body;
+      if (!status) {
+        return res.status(400).json({ message: "status is required" });
+      }
+      if (APPROVAL_STATUSES.includes(normalizeLoanStatus(status) || status) && !rbacService.can(req, 'loans.approve')) {
+        return res.status(403).json({ message: "Missing permission: loans.approve" });
+      }
+
+      await loanStatusMachine.transition(id, {
+        toStatus: status,
+        reason,
+        changedBy: (req as StaffRequest).user!.id
+      });
+      const fullApplication = await storage.getLoanApplicationWithDetails(id);
+      res.json(fullApplication);
+    } catch (error) {
+      if (error instanceof LoanStatusTransitionError) {
+        return res.status(422).json({ message: error.message, blockers: error.blockers });
+      }
+      console.error("Status transition error:", error);
+      res.status(500).json({ message: "Failed to change loan status" });
+    }
+  });
+
+  app.get("/api/loan-applications/:id/status-history", requirePermission('loans.view'), async (req, res) => {
+    try {
+      const history = await loanStatusMachine.getHistory(parseInt(req.params.id));
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  // Status changes, email and SMS conversations and documents, newest first
+  app.get("/api/loan-applications/:id/timeline", requirePermission('loans.view'), async (req, res) => {
+    try {
+      const timeline = await loanTimelineService.getTimeline(parseInt(req.params.id));
+      if (!timeline) {
+        return res.status(404).json({ message: "Loan application not found" });
+      }
+      res.json(timeline);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch loan timeline" });
+    }
+  });
+
   // Documents
-  app.get("/api/loan-applications/:id/documents", async (req, res) => {
+  app.get("/api/loan-applications/:id/documents", requirePermission('documents.view'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const documents = await storage.getDocumentsByLoanApplication(id);
@@ -393,7 +595,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/loan-applications/:id/documents", upload.single('file'), async (req, res) => {
+  app.post("/api/loan-applications/:id/documents", requirePermission('documents.upload'), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -412,6 +614,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const document = await storage.createDocument(documentData);
+      workflowEngine.emit({
+        type: 'document_uploaded',
+        loanApplicationId,
+        payload: { documentId: document.id, category: document.category }
+      });
       res.status(201).json(document);
     } catch (error) {
       res.status(400).json({ 
@@ -420,7 +627,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/documents/:id", async (req, res) => {
+  app.delete("/api/documents/:id", requirePermission('documents.delete'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.deleteDocument(id);
@@ -434,7 +641,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Tasks
-  app.get("/api/tasks", async (req, res) => {
+  app.get("/api/tasks", requirePermission('loans.view'), async (req, res) => {
     try {
       const assignedToId = req.query.assignedTo ? parseInt(req.query.assignedTo as string) : 1;
       const tasks = await storage.getTasksByAssignee(assignedToId);
@@ -444,7 +651,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks", async (req, res) => {
+  app.post("/api/tasks", requirePermission('loans.assign'), async (req, res) => {
     try {
       const taskData = insertTaskSchema.parse(req.body);
       const task = await storage.createTask(taskData);
@@ -456,7 +663,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/tasks/:id", async (req, res) => {
+  app.patch("/api/tasks/:id", requirePermission('loans.edit'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const task = await storage.updateTask(id, req.body);
@@ -470,18 +677,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Pipeline data
-  app.get("/api/pipeline", async (req, res) => {
+  app.get("/api/pipeline", requirePermission('loans.view'), async (req, res) => {
     try {
       const applications = await storage.getAllLoanApplicationsWithDetails();
       
-      // Group applications by status
-      const pipeline = {
-        application: applications.filter(app => app.status === 'application'),
-        document_review: applications.filter(app => app.status === 'document_review'),
-        underwriting: applications.filter(app => app.status === 'underwriting'),
-        approved: applications.filter(app => app.status === 'approved'),
-        declined: applications.filter(app => app.status === 'declined'),
-      };
+      // Group applications by the status definitions of the state machine
+      const pipeline: Record<string, typeof applications> = {};
+      for (const definition of LOAN_STATUSES) {
+        pipeline[definition.key] = applications.filter(app => normalizeLoanStatus(app.status) === definition.key);
+      }
 
       res.json(pipeline);
     } catch (error) {
@@ -490,30 +694,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Notifications
-  app.get("/api/notifications", async (req, res) => {
+  app.get("/api/notifications", requirePermission('communications.view'), async (req, res) => {
     try {
       const { loanApplicationId } = req.query;
       if (loanApplicationId) {
         const notifications = await storage.getNotificationsByLoanApplication(Number(loanApplicationId));
         res.json(notifications);
       } else {
-        // Get all notifications for dashboard/communications view
-        const applications = await storage.getAllLoanApplicationsWithDetails();
-        const allNotifications = [];
-        for (const app of applications) {
-          const notifications = await storage.getNotificationsByLoanApplication(app.id);
-          allNotifications.push(...notifications);
+        // Most recent notifications across the organization for the dashboard/communications view
+        const result = notificationPageSchema.safeParse(req.query);
+        if (!result.success) {
+          return res.status(400).json({ error: "Invalid notification query", details: result.error.issues });
         }
-        // Sort by creation date, most recent first
-        allNotifications.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        res.json(allNotifications);
+        res.json(await storage.getRecentNotifications(result.data));
       }
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
-  app.post("/api/notifications", async (req, res) => {
+  app.post("/api/notifications", requirePermission('communications.send'), async (req, res) => {
     try {
       const result = insertNotificationSchema.safeParse(req.body);
       if (!result.success) {
@@ -527,8 +727,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Delivery queue depth by status
+  app.get("/api/notifications/queue", requirePermission('communications.view'), async (req, res) => {
+    try {
+      res.json(await notificationQueue.getStats());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification queue" });
+    }
+  });
+
+  app.post("/api/notifications/:id/retry", requirePermission('communications.send'), async (req, res) => {
+    try {
+      const notification = await notificationQueue.retry(parseInt(req.params.id));
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      if (error instanceof NotificationDeliveryError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to retry notification" });
+    }
+  });
+
+  // Deliver pending email and SMS notifications
+  notificationQueue.start();
+
   // Templates
-  app.get("/api/templates", async (req, res) => {
+  app.get("/api/templates", requirePermission('communications.view'), async (req, res) => {
     try {
       const { type } = req.query;
       if (type) {
@@ -543,12 +770,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/templates", async (req, res) => {
+  // Merge fields templates may use
+  app.get("/api/templates/fields", requirePermission('communications.view'), async (req, res) => {
+    res.json(TEMPLATE_FIELDS);
+  });
+
+  app.post("/api/templates", requirePermission('settings.edit'), async (req, res) => {
     try {
       const result = insertTemplateSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: "Invalid template data", details: result.error.issues });
       }
+      const issues = templateEngine.validate(result.data);
+      if (issues.length > 0) {
+        return res.status(400).json({ error: "Invalid template", details: issues });
+      }
 
       const template = await storage.createTemplate(result.data);
       res.status(201).json(template);
@@ -557,8 +793,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Shared templates are read-only inside an organization; save a copy to customize one
+  app.put("/api/templates/:id", requirePermission('settings.edit'), async (req, res) => {
+    try {
+      const result = insertTemplateSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid template data", details: result.error.issues });
+      }
+
+      const id = parseInt(req.params.id);
+      const existing = await storage.getTemplate(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const issues = templateEngine.validate({ ...existing, ...result.data });
+      if (issues.length > 0) {
+        return res.status(400).json({ error: "Invalid template", details: issues });
+      }
+
+      const template = await storage.updateTemplate(id, result.data);
+      if (!template) {
+        return res.status(403).json({ message: "Shared templates cannot be edited" });
+      }
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update template" });
+    }
+  });
+
+  // Renders an unsaved template against a loan
+  app.post("/api/templates/preview", requirePermission('communications.view'), async (req, res) => {
+    try {
+      const result = templatePreviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid preview request", details: result.error.issues });
+      }
+
+      const { loanApplicationId, ...template } = result.data;
+      const rendered = await templateEngine.preview(template, loanApplicationId);
+      if (!rendered) {
+        return res.status(404).json({ message: "Loan application not found" });
+      }
+      res.json(rendered);
+    } catch (error) {
+      if (error instanceof TemplateValidationError) {
+        return res.status(400).json({ error: "Invalid template", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to preview template" });
+    }
+  });
+
+  app.post("/api/templates/:id/preview", requirePermission('communications.view'), async (req, res) => {
+    try {
+      const loanApplicationId = Number(req.body.loanApplicationId);
+      if (!Number.isInteger(loanApplicationId) || loanApplicationId <= 0) {
+        return res.status(400).json({ error: "loanApplicationId is required" });
+      }
+
+      const template = await storage.getTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const rendered = await templateEngine.preview(template, loanApplicationId);
+      if (!rendered) {
+        return res.status(404).json({ message: "Loan application not found" });
+      }
+      res.json(rendered);
+    } catch (error) {
+      if (error instanceof TemplateValidationError) {
+        return res.status(400).json({ error: "Invalid template", details: error.issues });
+      }
+      res.status(500).json({ message: "Failed to preview template" });
+    }
+  });
+
   // Call Logs
-  app.get("/api/call-logs", async (req, res) => {
+  app.get("/api/call-logs", requirePermission('communications.view'), async (req, res) => {
     try {
       const { loanApplicationId, borrowerId } = req.query;
       if (loanApplicationId) {
@@ -584,7 +894,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/call-logs", async (req, res) => {
+  app.post("/api/call-logs", requirePermission('communications.send'), async (req, res) => {
     try {
       const result = insertCallLogSchema.safeParse(req.body);
       if (!result.success) {
@@ -607,8 +917,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const firstName = nameParts[0] || fullName;
       const lastName = nameParts.slice(1).join(' ') || '';
 
+      // Public intake is filed under the organization that owns the branded host, with one of its loan officers
+      const organizationId = tenantContext.requireOrganizationId();
+      const assignee = await storage.getIntakeAssignee();
+
       // Create borrower
       const borrowerData = insertBorrowerSchema.parse({
+        organizationId,
         firstName,
         lastName,
         email: req.body.email,
@@ -649,7 +964,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const applicationData = insertLoanApplicationSchema.parse({
         borrowerId: borrower.id,
         propertyId: property.id,
-        loanOfficerId: 1,
+        organizationId,
+        loanOfficerId: assignee?.id ?? null,
         loanType: req.body.loanType,
         requestedAmount: requestedAmount.toString(),
         status: 'application',
@@ -662,11 +978,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const application = await storage.createLoanApplication(applicationData);
+      workflowEngine.emit({ type: 'application_created', loanApplicationId: application.id, payload: { loanType: application.loanType } });
       
       // Create initial task
       await storage.createTask({
         loanApplicationId: application.id,
-        assignedToId: 1,
+        assignedToId: assignee?.id ?? null,
         title: "Review Short Application",
         description: `Initial review for ${borrower.firstName} ${borrower.lastName} - ${req.body.loanType} loan`,
         priority: "medium",
@@ -691,7 +1008,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         recipient: borrower.email,
         subject: 'Welcome to Your Loan Application Portal',
         message: `Thank you for starting your loan application. Access your portal here: ${process.env.APP_URL || 'http://localhost:5000'}/customer-portal?token=${customerPortalToken}`,
-        status: 'sent'
+        status: 'pending'
       });
 
       const fullApplication = await storage.getLoanApplicationWithDetails(application.id);
@@ -707,22 +1024,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Full loan application endpoint (URLA)
+  // Full loan application endpoint (URLA), submitted from the customer portal. The portal token decides which loan
+  // is updated; it runs in the host's organization, so a loan of another organization is not found.
   app.post("/api/full-loan-applications", async (req, res) => {
     try {
-      const { loanApplicationId, ...urlaData } = req.body;
-      
+      const { token, loanApplicationId: requestedId, ...urlaData } = req.body;
+      const session = token ? await storage.getCustomerSession(String(token)) : undefined;
+      if (!session || !session.isActive || new Date() > session.expiresAt) {
+        return res.status(401).json({ message: "Invalid or expired token" });
+      }
+      const loanApplicationId = session.loanApplicationId;
+      if (requestedId !== undefined && Number(requestedId) !== loanApplicationId) {
+        return res.status(404).json({ message: "Loan application not found" });
+      }
+
       // Update loan application with URLA data and stage
       const updatedApplication = await storage.updateLoanApplicationStage(
         loanApplicationId, 
         'full_application', 
         { urlaData }
       );
+      if (!updatedApplication) {
+        return res.status(404).json({ message: "Loan application not found" });
+      }
 
       // Create task for document collection
       await storage.createTask({
         loanApplicationId,
-        assignedToId: 1,
+        assignedToId: updatedApplication.loanOfficerId ?? (await storage.getIntakeAssignee())?.id ?? null,
         title: "Begin Document Collection",
         description: "Full application received - start document collection process",
         priority: "high",
@@ -816,7 +1145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/customer-portal/upload-document", upload.single('file'), async (req, res) => {
     try {
-      const { token, category } = req.body;
+      const { token, category, conditionId } = req.body;
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
@@ -840,6 +1169,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const document = await storage.createDocument(documentData);
 
+      // Uploads made against a condition are linked to it for the reviewer
+      if (conditionId) {
+        const condition = await loanConditionService.getCondition(Number(conditionId));
+        if (condition && condition.loanApplicationId === session.loanApplicationId && condition.borrowerVisible) {
+          await loanConditionService.linkDocuments(condition.id, { documentIds: [document.id] });
+        }
+      }
+
       // Send notification to loan officer
       await storage.createNotification({
         loanApplicationId: session.loanApplicationId,
@@ -857,6 +1194,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Borrower-visible conditions for the portal
+  app.get("/api/customer-portal/conditions", async (req, res) => {
+    try {
+      const { token } = req.query;
+      const session = await storage.getCustomerSession(String(token));
+      if (!session) {
+        return res.status(401).json({ message: "Invalid token" });
+      }
+
+      const conditions = await loanConditionService.getConditions(session.loanApplicationId, { borrowerVisibleOnly: true });
+      res.json(conditions.map(({ history, reviewedBy, createdBy, ownerId, underwritingDecisionId, ...condition }) => condition));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conditions" });
+    }
+  });
+
+  app.post("/api/customer-portal/conditions/:id/submit", async (req, res) => {
+    try {
+      const { token, documentIds, notes } = req.body;
+      const session = await storage.getCustomerSession(token);
+      if (!session) {
+        return res.status(401).json({ message: "Invalid token" });
+      }
+
+      const condition = await loanConditionService.getCondition(parseInt(req.params.id));
+      if (!condition || condition.loanApplicationId !== session.loanApplicationId || !condition.borrowerVisible) {
+        return res.status(404).json({ message: "Condition not found" });
+      }
+
+      const submitted = await loanConditionService.submit(condition.id, {
+        actor: 'borrower',
+        documentIds: Array.isArray(documentIds) ? documentIds.map(Number) : undefined,
+        notes,
+      });
+      res.json(submitted);
+    } catch (error) {
+      if (error instanceof LoanConditionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to submit condition" });
+    }
+  });
+
   app.post("/api/customer-portal/connect-bank", async (req, res) => {
     try {
       const { token } = req.body;
@@ -908,7 +1288,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AI Loan Advisor Routes
   
   // Get loan recommendation
-  app.post("/api/ai/loan-recommendation", async (req, res) => {
+  app.post("/api/ai/loan-recommendation", requirePermission('loans.view'), async (req, res) => {
     try {
       const profile: BorrowerProfile = req.body;
       const recommendation = await aiLoanAdvisor.analyzeBorrowerAndRecommendLoan(profile);
@@ -932,7 +1312,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI market analysis
-  app.post("/api/ai/market-analysis", async (req, res) => {
+  app.post("/api/ai/market-analysis", requirePermission('reports.view'), async (req, res) => {
     try {
       const analysisRequest: MarketAnalysisRequest = req.body;
       const analysis = await aiMarketAnalyzer.analyzeMarket(analysisRequest);
@@ -944,7 +1324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Address autocomplete using Google Places API
-  app.get("/api/address-autocomplete", async (req, res) => {
+  app.get("/api/address-autocomplete", requirePermission('loans.view'), async (req, res) => {
     try {
       const { input } = req.query;
       if (!input || typeof input !== 'string') {
@@ -973,7 +1353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Property Data Routes
   
   // Get property data by address
-  app.get("/api/property-data", async (req, res) => {
+  app.get("/api/property-data", requirePermission('loans.view'), async (req, res) => {
     try {
       const { address, searchType } = req.query;
       if (!address) {
@@ -994,7 +1374,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Video tour generation endpoint
-  app.post('/api/generate-video-tour', async (req, res) => {
+  app.post('/api/generate-video-tour', requirePermission('marketing.manage'), async (req, res) => {
     try {
       const { videoTourGenerator } = await import('./video-tour-generator.js');
       const tourRequest: PropertyVideoTourRequest = req.body;
@@ -1012,7 +1392,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate video thumbnail endpoint
-  app.post('/api/generate-thumbnail', async (req, res) => {
+  app.post('/api/generate-thumbnail', requirePermission('marketing.manage'), async (req, res) => {
     try {
       const { videoTourGenerator } = await import('./video-tour-generator.js');
       const { prompt } = req.body;
@@ -1030,7 +1410,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Property images endpoint
-  app.get('/api/property-images', async (req, res) => {
+  app.get('/api/property-images', requirePermission('loans.view'), async (req, res) => {
     try {
       const { address, city, state, zipCode } = req.query;
       
@@ -1063,7 +1443,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Profile endpoints
-  app.get('/api/profile', async (req, res) => {
+  app.get('/api/profile', requirePermission(), async (req, res) => {
     try {
       // Mock profile data for now - replace with actual user session
       const mockProfile = {
@@ -1091,7 +1471,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/profile', async (req, res) => {
+  app.put('/api/profile', requirePermission(), async (req, res) => {
     try {
       // Update profile logic would go here
       res.json({ success: true, message: 'Profile updated successfully' });
@@ -1101,7 +1481,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Team management endpoints
-  app.get('/api/team-members', async (req, res) => {
+  app.get('/api/team-members', requirePermission('team.view'), async (req, res) => {
     try {
       // Mock team data
       const mockTeam = [
@@ -1129,7 +1509,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/team-members', async (req, res) => {
+  app.post('/api/team-members', requirePermission('team.manage'), async (req, res) => {
     try {
       // Add team member logic would go here
       const newMember = { id: Date.now(), ...req.body, createdAt: new Date().toISOString() };
@@ -1140,7 +1520,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Contacts endpoints
-  app.get('/api/contacts', async (req, res) => {
+  app.get('/api/contacts', requirePermission('contacts.view'), async (req, res) => {
     try {
       const contacts = await databaseStorage.getAllContacts();
       res.json(contacts);
@@ -1150,7 +1530,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/contacts', async (req, res) => {
+  app.post('/api/contacts', requirePermission('contacts.create'), async (req, res) => {
     try {
       const contactData = req.body;
       
@@ -1184,7 +1564,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User stats endpoint for gamification
-  app.get('/api/user-stats', async (req, res) => {
+  app.get('/api/user-stats', requirePermission('reports.view'), async (req, res) => {
     try {
       const contacts = await databaseStorage.getAllContacts();
       const totalContacts = contacts.length;
@@ -1208,7 +1588,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // LinkedIn integration endpoints
-  app.get('/api/linkedin/test', async (req, res) => {
+  app.get('/api/linkedin/test', requirePermission('settings.view'), async (req, res) => {
     try {
       console.log('Testing LinkedIn integration...');
       console.log('Client ID:', process.env.LINKEDIN_CLIENT_ID ? '✓ Configured' : '✗ Missing');
@@ -1241,7 +1621,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/linkedin/search', async (req, res) => {
+  app.get('/api/linkedin/search', requirePermission('contacts.view'), async (req, res) => {
     try {
       const { query, location, industry, currentCompany, title, limit = 25, offset = 0 } = req.query;
       
@@ -1277,7 +1657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/linkedin/enrich', async (req, res) => {
+  app.post('/api/linkedin/enrich', requirePermission('contacts.edit'), async (req, res) => {
     try {
       const { linkedinUrl } = req.body;
       
@@ -1303,7 +1683,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/linkedin/search-mock', async (req, res) => {
+  app.get('/api/linkedin/search-mock', requirePermission('contacts.view'), async (req, res) => {
     try {
       const { query, location, industry, currentCompany, title, limit = 25, offset = 0 } = req.query;
       
@@ -1391,7 +1771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/linkedin/import-bulk', async (req, res) => {
+  app.post('/api/linkedin/import-bulk', requirePermission('contacts.create'), async (req, res) => {
     try {
       const { profileIds } = req.body;
       
@@ -1422,7 +1802,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/linkedin/import', async (req, res) => {
+  app.post('/api/linkedin/import', requirePermission('contacts.create'), async (req, res) => {
     try {
       const { profileId } = req.body;
       const profile = await linkedInIntegration.getProfile(profileId);
@@ -1488,7 +1868,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Voice Bot endpoints
-  app.post('/api/ai/voice/call', async (req, res) => {
+  app.post('/api/ai/voice/call', requirePermission('communications.send'), async (req, res) => {
     try {
       const { contactId, phoneNumber, purpose = 'follow_up' } = req.body;
       
@@ -1504,7 +1884,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/ai/voice/:sessionId/input', async (req, res) => {
+  app.post('/api/ai/voice/:sessionId/input', requirePermission('communications.send'), async (req, res) => {
     try {
       const { sessionId } = req.params;
       const { transcript } = req.body;
@@ -1521,7 +1901,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/ai/voice/:sessionId/end', async (req, res) => {
+  app.post('/api/ai/voice/:sessionId/end', requirePermission('communications.send'), async (req, res) => {
     try {
       const { sessionId } = req.params;
       const outcome = await aiVoicebot.endCall(sessionId);
@@ -1532,7 +1912,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/ai/voice/:sessionId/transcript', async (req, res) => {
+  app.get('/api/ai/voice/:sessionId/transcript', requirePermission('communications.view'), async (req, res) => {
     try {
       const { sessionId } = req.params;
       const transcript = await aiVoicebot.getCallTranscript(sessionId);
@@ -1543,85 +1923,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Roles and permissions endpoints
-  app.get('/api/roles', async (req, res) => {
-    try {
-      const mockRoles = [
-        {
-          id: 1,
-          name: 'owner',
-          displayName: 'Owner',
-          description: 'Full system access',
-          permissions: ['*'],
-          isSystemRole: true,
-          userCount: 1,
-          createdAt: new Date().toISOString()
-        },
-        {
-          id: 2,
-          name: 'loan_officer',
-          displayName: 'Loan Officer',
-          description: 'Standard loan officer permissions',
-          permissions: ['loans.view', 'loans.create', 'contacts.view'],
-          isSystemRole: true,
-          userCount: 5,
-          createdAt: new Date().toISOString()
-        }
-      ];
-      res.json(mockRoles);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch roles' });
-    }
-  });
-
-  app.post('/api/roles', async (req, res) => {
-    try {
-      const newRole = { id: Date.now(), ...req.body, createdAt: new Date().toISOString() };
-      res.json(newRole);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to create role' });
-    }
-  });
-
-  app.get('/api/users', async (req, res) => {
-    try {
-      const mockUsers = [
-        {
-          id: 1,
-          firstName: 'John',
-          lastName: 'Smith',
-          email: 'john@loandaddy.com',
-          role: 'owner',
-          permissions: ['*'],
-          isActive: true
-        },
-        {
-          id: 2,
-          firstName: 'Jane',
-          lastName: 'Doe', 
-          email: 'jane@loandaddy.com',
-          role: 'loan_officer',
-          permissions: ['loans.view', 'loans.create'],
-          isActive: true
-        }
-      ];
-      res.json(mockUsers);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch users' });
-    }
-  });
-
-  app.put('/api/users/:id', async (req, res) => {
-    try {
-      // Update user logic would go here
-      res.json({ success: true, message: 'User updated successfully' });
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to update user' });
-    }
-  });
-
   // Get DSCR calculation for property
-  app.get("/api/property-data/dscr", async (req, res) => {
+  app.get("/api/property-data/dscr", requirePermission('loans.view'), async (req, res) => {
     try {
       const { address } = req.query;
       if (!address) {
@@ -1643,7 +1946,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Loan Pricing Engine Routes
   
   // Get loan pricing
-  app.post("/api/pricing/quote", async (req, res) => {
+  app.post("/api/pricing/quote", requirePermission('pricing.view'), async (req, res) => {
     try {
       const pricingRequest: PricingRequest = req.body;
       const pricing = await pricingEngine.getPricing(pricingRequest);
@@ -1655,7 +1958,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get rates by lender
-  app.get("/api/pricing/lenders/:loanType", async (req, res) => {
+  app.get("/api/pricing/lenders/:loanType", requirePermission('pricing.view'), async (req, res) => {
     try {
       const { loanType } = req.params;
       const lenderRates = await pricingEngine.getRatesByLender(loanType);
@@ -1667,7 +1970,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sync external rate sources
-  app.post("/api/pricing/sync-rates", async (req, res) => {
+  app.post("/api/pricing/sync-rates", requirePermission('pricing.edit'), async (req, res) => {
     try {
       const { source } = req.body;
       let success = false;
@@ -1688,7 +1991,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Social Media Enrichment endpoints
-  app.post('/api/contacts/:id/enrich', async (req, res) => {
+  app.post('/api/contacts/:id/enrich', requirePermission('contacts.edit'), async (req, res) => {
     try {
       const contactId = parseInt(req.params.id);
       const contact = await databaseStorage.getContact(contactId);
@@ -1714,7 +2017,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/contacts/batch-enrich', async (req, res) => {
+  app.post('/api/contacts/batch-enrich', requirePermission('contacts.edit'), async (req, res) => {
     try {
       const { contactIds } = req.body;
       const contacts = await Promise.all(
@@ -1743,7 +2046,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/contacts/:id/enrichment-suggestions', async (req, res) => {
+  app.get('/api/contacts/:id/enrichment-suggestions', requirePermission('contacts.view'), async (req, res) => {
     try {
       const contactId = parseInt(req.params.id);
       const contact = await databaseStorage.getContact(contactId);
@@ -1761,7 +2064,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Property Tax Calculator endpoints
-  app.post('/api/property-tax/calculate', async (req, res) => {
+  app.post('/api/property-tax/calculate', requirePermission('loans.view'), async (req, res) => {
     try {
       const breakdown = await propertyTaxService.calculatePropertyTax(req.body);
       res.json(breakdown);
@@ -1771,7 +2074,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/property-tax/optimize', async (req, res) => {
+  app.post('/api/property-tax/optimize', requirePermission('loans.view'), async (req, res) => {
     try {
       const suggestions = await propertyTaxService.getOptimizationSuggestions(req.body);
       res.json(suggestions);
@@ -1782,7 +2085,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Financial Health Dashboard endpoints
-  app.get('/api/financial-health/dashboard', async (req, res) => {
+  app.get('/api/financial-health/dashboard', requirePermission('reports.view'), async (req, res) => {
     try {
       // Mock financial data for now
       const financialData = {
@@ -1872,7 +2175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/financial-health/analyze', async (req, res) => {
+  app.post('/api/financial-health/analyze', requirePermission('reports.view'), async (req, res) => {
     try {
       // AI analysis would go here
       const analysis = {
@@ -1910,7 +2213,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Document Analysis endpoints
-  app.post('/api/documents/analyze', upload.single('file'), async (req, res) => {
+  app.post('/api/documents/analyze', requirePermission('documents.upload'), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
@@ -1947,7 +2250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Contact recommendation system routes
-  app.get('/api/contacts/recommendations', async (req, res) => {
+  app.get('/api/contacts/recommendations', requirePermission('contacts.view'), async (req, res) => {
     try {
       const filters = {
         category: req.query.category ? String(req.query.category).split(',') : undefined,
@@ -1966,7 +2269,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/contacts/:id/insights', async (req, res) => {
+  app.get('/api/contacts/:id/insights', requirePermission('contacts.view'), async (req, res) => {
     try {
       const contactId = parseInt(req.params.id);
       const insights = await contactRecommendationService.getContactInsights(contactId);
@@ -1977,7 +2280,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/contacts/:id/follow-up-suggestions', async (req, res) => {
+  app.get('/api/contacts/:id/follow-up-suggestions', requirePermission('contacts.view'), async (req, res) => {
     try {
       const contactId = parseInt(req.params.id);
       const suggestions = await contactRecommendationService.getFollowUpSuggestions(contactId);
@@ -2286,7 +2589,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // LinkedIn Integration Routes
-  app.post("/api/linkedin/search", async (req, res) => {
+  app.post("/api/linkedin/search", requirePermission('contacts.view'), async (req, res) => {
     try {
       const { query, filters } = req.body;
       if (!query || typeof query !== 'string') {
@@ -2305,7 +2608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/linkedin/enrich", async (req, res) => {
+  app.post("/api/linkedin/enrich", requirePermission('contacts.edit'), async (req, res) => {
     try {
       const { linkedinUrl } = req.body;
       if (!linkedinUrl || typeof linkedinUrl !== 'string') {
@@ -2324,7 +2627,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/linkedin/import", async (req, res) => {
+  app.post("/api/linkedin/import", requirePermission('contacts.create'), async (req, res) => {
     try {
       const { enrichedData } = req.body;
       if (!enrichedData || !enrichedData.linkedinProfile) {
@@ -2347,7 +2650,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/linkedin/quick-import", async (req, res) => {
+  app.post("/api/linkedin/quick-import", requirePermission('contacts.create'), async (req, res) => {
     try {
       const { linkedinUrl, autoImport = true } = req.body;
       if (!linkedinUrl || typeof linkedinUrl !== 'string') {
@@ -2374,7 +2677,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/linkedin/batch-enrich", async (req, res) => {
+  app.post("/api/linkedin/batch-enrich", requirePermission('contacts.edit'), async (req, res) => {
     try {
       const { linkedinUrls } = req.body;
       if (!Array.isArray(linkedinUrls) || linkedinUrls.length === 0) {
@@ -2404,7 +2707,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/linkedin/status", async (req, res) => {
+  app.get("/api/linkedin/status", requirePermission('contacts.view'), async (req, res) => {
     try {
       const status = await linkedInIntegration.getEnrichmentStatus();
       res.json({
@@ -2446,8 +2749,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       const property = await storage.createProperty(propertyData);
       
-      // Create loan application
+      // Create loan application, assigned to one of the organization's loan officers
+      const assignee = await storage.getIntakeAssignee();
       const loanData = insertLoanApplicationSchema.parse({
+        organizationId: tenantContext.requireOrganizationId(),
+        loanOfficerId: assignee?.id ?? null,
         borrowerId: borrowerId,
         propertyId: property.id,
         loanType: applicationData.loanType,
@@ -2462,11 +2768,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notes: applicationData.additionalNotes || null
       });
       const loanApplication = await storage.createLoanApplication(loanData);
+      workflowEngine.emit({ type: 'application_created', loanApplicationId: loanApplication.id, payload: { loanType: loanApplication.loanType } });
       
       // Create initial task for loan processing
       await storage.createTask({
         loanApplicationId: loanApplication.id,
-        assignedToId: 1, // Default to admin user
+        assignedToId: assignee?.id ?? null,
         title: "New Application - Review Required",
         description: `New ${applicationData.loanType} loan application from ${req.borrower.firstName} ${req.borrower.lastName}`,
         priority: "high",
@@ -2482,7 +2789,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         recipient: req.borrower.email,
         subject: 'Loan Application Received',
         message: `Thank you for submitting your loan application. Your application ID is LA-${loanApplication.id}. We will review your application and contact you within 24 hours.`,
-        status: 'sent'
+        status: 'pending'
       });
       
       res.status(201).json({
@@ -2574,6 +2881,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mount LinkedIn integration routes
   app.use(linkedInRoutes);
   
+  // Mount workflow automation routes
+  app.use('/api', workflowRoutes);
+  workflowEngine.start();
+  
+  // Mount underwriting workbench routes
+  app.use('/api', underwritingRoutes);
+  
+  // Mount lender guideline administration routes
+  app.use('/api', lenderGuidelineRoutes);
+  
+  // Mount rate lock routes
+  app.use('/api', rateLockRoutes);
+  rateLockService.start();
+  
+  // Mount MISMO import/export routes
+  app.use('/api', mismoRoutes);
+
+  // Mount Fannie Mae 3.2 import/export routes
+  app.use('/api', fnmRoutes);
+
+  // Mount loan conditions routes
+  app.use('/api', loanConditionRoutes);
+
+  // Mount fee worksheet and Loan Estimate routes
+  app.use('/api', feeWorksheetRoutes);
+
+  // Mount loan scenario desk routes
+  app.use('/api', scenarioRoutes);
+
+  // Mount compliance and TRID tracking routes
+  app.use('/api', complianceRoutes);
+
+  // Mount HMDA data collection and LAR export routes
+  app.use('/api', hmdaRoutes);
+
+  // Mount audit trail routes
+  app.use('/api', auditRoutes);
+
+  // Mount communication consent and Do Not Call routes
+  app.use('/api', consentRoutes);
+
+  // Mount two-way SMS inbox routes
+  app.use('/api', smsRoutes);
+
+  // Mount mailbox sync routes
+  app.use('/api', mailboxRoutes);
+  mailboxSync.start();
+
+  // Mount staff authentication, role and user access routes
+  app.use('/api', rbacRoutes);
+  
   // Serve LinkedIn test demo
   app.get('/test-linkedin-demo.html', (req, res) => {
     res.sendFile(path.join(__dirname, '../test-linkedin-demo.html'));
@@ -0,0 +1,127 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { insertLoanScenarioSchema } from "@shared/schema";
+import { scenarioDeskService, ScenarioError } from "./scenario-service";
+import { rbacService, requirePermission, type StaffRequest } from "./rbac-service";
+import { TenantError } from "./tenant-context";
+
+const router = Router();
+
+const convertSchema = z.object({
+  structureId: z.string().min(1),
+});
+
+function handleScenarioError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ScenarioError || error instanceof TenantError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Scenarios for a lead (?contactId) or an application (?loanApplicationId), most recently changed first
+router.get("/scenarios", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    res.json(await scenarioDeskService.listScenarios({
+      contactId: req.query.contactId ? parseInt(req.query.contactId as string) : undefined,
+      loanApplicationId: req.query.loanApplicationId ? parseInt(req.query.loanApplicationId as string) : undefined,
+    }));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch scenarios" });
+  }
+});
+
+router.get("/scenarios/:id", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const scenario = await scenarioDeskService.getScenario(parseInt(req.params.id));
+    if (!scenario) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+    res.json(scenario);
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch scenario" });
+  }
+});
+
+router.post("/scenarios", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const result = insertLoanScenarioSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid scenario", details: result.error.issues });
+    }
+    const scenario = await scenarioDeskService.createScenario(result.data, (req as StaffRequest).user?.id);
+    res.status(201).json(scenario);
+  } catch (error) {
+    handleScenarioError(res, error, "Failed to create scenario");
+  }
+});
+
+router.put("/scenarios/:id", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const result = insertLoanScenarioSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid scenario", details: result.error.issues });
+    }
+
+    const scenario = await scenarioDeskService.updateScenario(parseInt(req.params.id), result.data);
+    if (!scenario) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+    res.json(scenario);
+  } catch (error) {
+    handleScenarioError(res, error, "Failed to update scenario");
+  }
+});
+
+router.delete("/scenarios/:id", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const deleted = await scenarioDeskService.deleteScenario(parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ message: "Failed to delete scenario" });
+  }
+});
+
+// Reprices every structure against current lender guidelines
+router.post("/scenarios/:id/refresh", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const scenario = await scenarioDeskService.refreshScenario(parseInt(req.params.id));
+    if (!scenario) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+    res.json(scenario);
+  } catch (error) {
+    handleScenarioError(res, error, "Failed to reprice scenario");
+  }
+});
+
+// New applications need loans.create; applying a structure to the attached application needs loans.edit
+router.post("/scenarios/:id/convert", requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const result = convertSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid conversion request", details: result.error.issues });
+    }
+
+    const id = parseInt(req.params.id);
+    const scenario = await scenarioDeskService.getScenario(id);
+    if (!scenario) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+    const permission = scenario.loanApplicationId ? 'loans.edit' : 'loans.create';
+    if (!rbacService.can(req, permission)) {
+      return res.status(403).json({ message: `Missing permission: ${permission}` });
+    }
+
+    const loanOfficer = (req as StaffRequest).user!;
+    const application = await scenarioDeskService.convertScenario(id, result.data.structureId, loanOfficer);
+    res.status(scenario.loanApplicationId ? 200 : 201).json(application);
+  } catch (error) {
+    handleScenarioError(res, error, "Failed to convert scenario");
+  }
+});
+
+export default router;
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; pricing and fee templates are replaced below
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { scenarioDeskService } = await import("./scenario-service");
+const { pricingEngine } = await import("./pricing-engine");
+const { feeWorksheetService } = await import("./fee-worksheet-service");
+
+type LenderRate = import("./pricing-engine").LenderRate;
+type PricingRequest = import("./pricing-engine").PricingRequest;
+type PricingResult = import("./pricing-engine").PricingResult;
+type ScenarioDeal = import("@shared/schema").ScenarioDeal;
+type ScenarioStructure = import("@shared/schema").ScenarioStructure;
+
+const option = (guidelineId: number, lenderName: string, rate: number) =>
+  ({ guidelineId, lenderName, loanProgram: 'DSCR 30', rate, points: 1, fees: 1500 }) as LenderRate;
+
+const deal: ScenarioDeal = {
+  loanPurpose: 'purchase',
+  propertyValue: 400000,
+  purchasePrice: 380000,
+  creditScore: 740,
+  propertyType: 'single_family',
+  state: 'TX',
+  borrowerExperience: 'experienced',
+  timeline: 'standard',
+  monthlyRent: 3000,
+  annualTaxes: 4800,
+  annualInsurance: 1200,
+};
+
+const structure: ScenarioStructure = {
+  id: 's1',
+  label: '75% LTV, 30-year amortizing',
+  loanType: 'dscr',
+  ltv: 0.75,
+  interestOnly: false,
+  termYears: 30,
+  prepaymentPenalty: '5_4_3_2_1',
+};
+
+let pricingRequests: PricingRequest[];
+let options: LenderRate[];
+
+beforeEach(() => {
+  pricingRequests = [];
+  options = [option(1, 'Lima One Capital', 0.075), option(2, 'Kiavi', 0.0775)];
+  mock.method(pricingEngine, 'getPricing', async (request: PricingRequest) => {
+    pricingRequests.push(request);
+    return {
+      recommendedOption: options[0],
+      allOptions: options,
+      excludedLenders: [{ lenderName: 'Visio Lending', loanProgram: 'Rental 30', reason: 'State CA is not eligible', rule: 'state' }],
+    } as unknown as PricingResult;
+  });
+  // A one-point origination fee and a flat appraisal keep the fee total independent of the closing date
+  mock.method(feeWorksheetService, 'resolveTemplate', async () => ({
+    template: null,
+    fees: [
+      { code: 'origination', description: 'Origination fee', section: 'A', calculation: 'percent_of_loan', percent: 1 },
+      { code: 'appraisal', description: 'Appraisal fee', section: 'B', calculation: 'flat', amount: 650 },
+    ],
+  }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe("scenario structure evaluation", () => {
+  test("sizes a purchase loan off the lesser of price and value and prices it by the guideline loan type", async () => {
+    const result = await scenarioDeskService.evaluateStructure(1, deal, { ...structure, loanType: 'fix-n-flip' });
+    assert.equal(result.loanAmount, 285000);
+    assert.equal(pricingRequests[0].loanType, 'fix_flip');
+    assert.equal(pricingRequests[0].propertyValue, 380000);
+    assert.equal(pricingRequests[0].prepaymentPenalty, '5_4_3_2_1');
+  });
+
+  test("reprices at the DSCR the first quote produces and reports DSCR on the full housing expense", async () => {
+    const result = await scenarioDeskService.evaluateStructure(1, deal, structure);
+    assert.equal(pricingRequests.length, 2);
+    assert.equal(pricingRequests[0].dscrRatio, undefined);
+    // 3,000 rent over 1,992.76 principal and interest plus 500 of taxes and insurance
+    assert.equal(pricingRequests[1].dscrRatio, 1.2);
+    assert.equal(result.monthlyPayment, 1992.76);
+    assert.equal(result.monthlyHousingExpense, 2492.76);
+    assert.equal(result.dscr, 1.2);
+  });
+
+  test("prices once and reports no DSCR without a rent figure", async () => {
+    const result = await scenarioDeskService.evaluateStructure(1, { ...deal, monthlyRent: undefined }, structure);
+    assert.equal(pricingRequests.length, 1);
+    assert.equal(result.dscr, null);
+  });
+
+  test("charges interest only on interest-only structures", async () => {
+    const result = await scenarioDeskService.evaluateStructure(1, deal, { ...structure, interestOnly: true });
+    assert.equal(result.monthlyPayment, 1781.25);
+  });
+
+  test("adds lender points and fees to the template's closing costs and brings the down payment on a purchase", async () => {
+    const result = await scenarioDeskService.evaluateStructure(1, deal, structure);
+    // 2,850 origination + 650 appraisal + 2,850 in points + 1,500 lender fees
+    assert.equal(result.closingCosts, 7850);
+    assert.equal(result.cashToClose, 380000 - 285000 + 7850);
+  });
+
+  test("nets the payoff and closing costs against the proceeds of a refinance", async () => {
+    const refinance = { ...deal, loanPurpose: 'cash_out' as const, purchasePrice: undefined, payoffAmount: 200000 };
+    const result = await scenarioDeskService.evaluateStructure(1, refinance, { ...structure, ltv: 0.7 });
+    assert.equal(result.loanAmount, 280000);
+    assert.equal(result.closingCosts, 7750);
+    assert.equal(result.cashToClose, -72250);
+  });
+
+  test("prices a pinned lender program and is ineligible when that program drops out", async () => {
+    const pinned = await scenarioDeskService.evaluateStructure(1, deal, { ...structure, guidelineId: 2 });
+    assert.equal(pinned.lenderName, 'Kiavi');
+    assert.equal(pinned.rate, 0.0775);
+
+    const missing = await scenarioDeskService.evaluateStructure(1, deal, { ...structure, guidelineId: 3 });
+    assert.equal(missing.eligible, false);
+    assert.equal(missing.loanAmount, 285000);
+    assert.deepEqual(missing.exclusions, [{ lenderName: 'Visio Lending', loanProgram: 'Rental 30', reason: 'State CA is not eligible' }]);
+  });
+
+  test("evaluates every structure of a scenario in order", async () => {
+    const results = await scenarioDeskService.evaluate(1, deal, [structure, { ...structure, id: 's2', ltv: 0.7 }]);
+    assert.deepEqual(results.map(result => [result.structureId, result.loanAmount]), [['s1', 285000], ['s2', 266000]]);
+  });
+});
@@ -0,0 +1,374 @@
+// Scenario Desk Service
+// Saved loan scenarios: one deal priced under several structures, compared side by side and converted to an application
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { tenantContext } from "./tenant-context";
+import { pricingEngine, type LenderRate, type PricingRequest, type PricingResult } from "./pricing-engine";
+import { feeWorksheetService, ESTIMATED_INSURANCE_RATE, ESTIMATED_TAX_RATE } from "./fee-worksheet-service";
+import { rateLockService } from "./rate-lock-service";
+import { paymentProcessor } from "./payment-processor";
+import { workflowEngine } from "./workflow-engine";
+import {
+  loanScenarios,
+  type InsertLoanApplication,
+  type InsertLoanScenario,
+  type LoanApplicationWithDetails,
+  type LoanScenario,
+  type ScenarioDeal,
+  type ScenarioStructure,
+  type ScenarioStructureResult,
+} from "@shared/schema";
+import { and, desc, eq, type SQL } from "drizzle-orm";
+
+export interface ScenarioFilters {
+  contactId?: number;
+  loanApplicationId?: number;
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+// Application loan types and the lender guideline loan type each is priced under
+const PRICING_LOAN_TYPES: Record<string, string> = {
+  dscr: 'dscr',
+  multifamily: 'dscr',
+  'fix-n-flip': 'fix_flip',
+  'hard-money': 'fix_flip',
+  bridge: 'bridge',
+  'private-money': 'bridge',
+  construction: 'construction',
+  'commercial-real-estate': 'commercial',
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export class ScenarioDeskService {
+  private static instance: ScenarioDeskService;
+
+  public static getInstance(): ScenarioDeskService {
+    if (!ScenarioDeskService.instance) {
+      ScenarioDeskService.instance = new ScenarioDeskService();
+    }
+    return ScenarioDeskService.instance;
+  }
+
+  async listScenarios(filters: ScenarioFilters = {}): Promise<LoanScenario[]> {
+    const conditions: SQL[] = [];
+    if (filters.contactId) conditions.push(eq(loanScenarios.contactId, filters.contactId));
+    if (filters.loanApplicationId) conditions.push(eq(loanScenarios.loanApplicationId, filters.loanApplicationId));
+
+    return db
+      .select()
+      .from(loanScenarios)
+      .where(tenantContext.where(loanScenarios.organizationId, conditions.length > 0 ? and(...conditions) : undefined))
+      .orderBy(desc(loanScenarios.updatedAt));
+  }
+
+  async getScenario(id: number): Promise<LoanScenario | undefined> {
+    const [scenario] = await db
+      .select()
+      .from(loanScenarios)
+      .where(tenantContext.where(loanScenarios.organizationId, eq(loanScenarios.id, id)));
+    return scenario;
+  }
+
+  async createScenario(data: InsertLoanScenario, createdBy?: number | null): Promise<LoanScenario> {
+    const organizationId = tenantContext.requireOrganizationId();
+    await this.assertAttachments(data);
+
+    const results = await this.evaluate(organizationId, data.deal, data.structures);
+    const [scenario] = await db.insert(loanScenarios).values({
+      ...data,
+      organizationId,
+      results,
+      evaluatedAt: new Date(),
+      createdBy: createdBy ?? null,
+    }).returning();
+    return scenario;
+  }
+
+  // Any change to the deal or its structures reprices every structure
+  async updateScenario(id: number, data: Partial<InsertLoanScenario>): Promise<LoanScenario | undefined> {
+    const existing = await this.getScenario(id);
+    if (!existing) return undefined;
+    await this.assertAttachments(data);
+
+    const deal = data.deal ?? existing.deal;
+    const structures = data.structures ?? existing.structures;
+    const [scenario] = await db
+      .update(loanScenarios)
+      .set({
+        ...data,
+        results: await this.evaluate(existing.organizationId, deal, structures),
+        evaluatedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(loanScenarios.id, id))
+      .returning();
+    return scenario;
+  }
+
+  async deleteScenario(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(loanScenarios)
+      .where(tenantContext.where(loanScenarios.organizationId, eq(loanScenarios.id, id)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Reprices a saved scenario against today's lender guidelines
+  async refreshScenario(id: number): Promise<LoanScenario | undefined> {
+    const existing = await this.getScenario(id);
+    if (!existing) return undefined;
+
+    const [scenario] = await db
+      .update(loanScenarios)
+      .set({
+        results: await this.evaluate(existing.organizationId, existing.deal, existing.structures),
+        evaluatedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(loanScenarios.id, id))
+      .returning();
+    return scenario;
+  }
+
+  async evaluate(organizationId: number, deal: ScenarioDeal, structures: ScenarioStructure[]): Promise<ScenarioStructureResult[]> {
+    const results: ScenarioStructureResult[] = [];
+    for (const structure of structures) {
+      results.push(await this.evaluateStructure(organizationId, deal, structure));
+    }
+    return results;
+  }
+
+  async evaluateStructure(organizationId: number, deal: ScenarioDeal, structure: ScenarioStructure): Promise<ScenarioStructureResult> {
+    // Purchase LTV is measured against the lesser of price and appraised value
+    const valueBasis = deal.loanPurpose === 'purchase' && deal.purchasePrice
+      ? Math.min(deal.purchasePrice, deal.propertyValue)
+      : deal.propertyValue;
+    const loanAmount = roundCents(valueBasis * structure.ltv);
+    const annualTaxes = deal.annualTaxes ?? roundCents(deal.propertyValue * ESTIMATED_TAX_RATE);
+    const annualInsurance = deal.annualInsurance ?? roundCents(deal.propertyValue * ESTIMATED_INSURANCE_RATE);
+    const escrows = (annualTaxes + annualInsurance) / 12 + (deal.monthlyHoa || 0);
+
+    const request: PricingRequest = {
+      loanType: PRICING_LOAN_TYPES[structure.loanType] || structure.loanType,
+      loanAmount,
+      propertyValue: valueBasis,
+      creditScore: deal.creditScore,
+      loanPurpose: deal.loanPurpose,
+      propertyType: deal.propertyType,
+      borrowerExperience: deal.borrowerExperience,
+      timeline: deal.timeline,
+      state: deal.state,
+      interestOnly: structure.interestOnly,
+      prepaymentPenalty: structure.prepaymentPenalty,
+      shortTermRental: deal.shortTermRental,
+      brokerCompPoints: structure.brokerCompPoints,
+    };
+
+    // DSCR depends on the rate and DSCR pricing adjusts the rate: price without it first, then reprice at the resulting ratio
+    let pricing = await pricingEngine.getPricing(request);
+    let option = this.selectOption(pricing, structure);
+    if (option && deal.monthlyRent) {
+      const dscrRatio = deal.monthlyRent / ((await this.getMonthlyPayment(loanAmount, option.rate, structure)) + escrows);
+      pricing = await pricingEngine.getPricing({ ...request, dscrRatio: Math.round(dscrRatio * 100) / 100 });
+      option = this.selectOption(pricing, structure);
+    }
+
+    const exclusions = pricing.excludedLenders.map(({ lenderName, loanProgram, reason }) => ({ lenderName, loanProgram, reason }));
+    if (!option) {
+      return { structureId: structure.id, eligible: false, loanAmount, exclusions };
+    }
+
+    const monthlyPayment = await this.getMonthlyPayment(loanAmount, option.rate, structure);
+    const monthlyHousingExpense = roundCents(monthlyPayment + escrows);
+
+    const { lines } = await feeWorksheetService.estimateFees(organizationId, structure.loanType, {
+      loanAmount,
+      interestRate: option.rate * 100,
+      annualTaxes,
+      annualInsurance,
+      escrowed: true,
+    });
+    const closingCosts = roundCents(feeWorksheetService.sumSections(lines).J + loanAmount * option.points / 100 + option.fees);
+
+    // Purchases bring the down payment; refinances net the payoff and closing costs against loan proceeds
+    const cashToClose = deal.loanPurpose === 'purchase'
+      ? roundCents((deal.purchasePrice ?? deal.propertyValue) - loanAmount + closingCosts)
+      : roundCents((deal.payoffAmount || 0) + closingCosts - loanAmount);
+
+    return {
+      structureId: structure.id,
+      eligible: true,
+      loanAmount,
+      guidelineId: option.guidelineId,
+      lenderName: option.lenderName,
+      loanProgram: option.loanProgram,
+      rate: option.rate,
+      points: option.points,
+      monthlyPayment,
+      monthlyHousingExpense,
+      dscr: deal.monthlyRent ? Math.round(deal.monthlyRent / monthlyHousingExpense * 100) / 100 : null,
+      closingCosts,
+      cashToClose,
+      exclusions,
+    };
+  }
+
+  // Creates an application from the chosen structure, or applies it to the application the scenario is attached to
+  async convertScenario(
+    id: number,
+    structureId: string,
+    loanOfficer: { id: number; organizationId: number }
+  ): Promise<LoanApplicationWithDetails | undefined> {
+    const scenario = await this.getScenario(id);
+    if (!scenario) {
+      throw new ScenarioError('Scenario not found');
+    }
+    if (scenario.convertedAt) {
+      throw new ScenarioError('Scenario has already been converted to an application');
+    }
+    const structure = scenario.structures.find(candidate => candidate.id === structureId);
+    if (!structure) {
+      throw new ScenarioError('Structure not found in this scenario');
+    }
+
+    // Repriced so the application carries today's pricing rather than the last saved comparison
+    const { deal } = scenario;
+    const result = await this.evaluateStructure(scenario.organizationId, deal, structure);
+    if (!result.eligible || result.rate === undefined) {
+      throw new ScenarioError(`No lender program is currently eligible for "${structure.label}"`);
+    }
+
+    const terms: Partial<InsertLoanApplication> = {
+      loanType: structure.loanType,
+      requestedAmount: result.loanAmount.toFixed(2),
+      ltv: (structure.ltv * 100).toFixed(2),
+      dscr: result.dscr != null ? result.dscr.toFixed(2) : null,
+      interestRate: (result.rate * 100).toFixed(3),
+      termMonths: structure.termYears * 12,
+      monthlyRent: deal.monthlyRent != null ? deal.monthlyRent.toFixed(2) : null,
+      loanPurpose: deal.loanPurpose,
+    };
+
+    let loanApplicationId: number;
+    if (scenario.loanApplicationId) {
+      // A locked rate stays as locked
+      if (await rateLockService.getActiveLock(scenario.loanApplicationId)) {
+        delete terms.interestRate;
+      }
+      const updated = await storage.updateLoanApplication(scenario.loanApplicationId, terms);
+      if (!updated) {
+        throw new ScenarioError('Loan application not found');
+      }
+      loanApplicationId = updated.id;
+    } else {
+      loanApplicationId = await this.createApplication(scenario, structure, terms, loanOfficer);
+    }
+
+    await db
+      .update(loanScenarios)
+      .set({ loanApplicationId, convertedStructureId: structure.id, convertedAt: new Date(), updatedAt: new Date() })
+      .where(eq(loanScenarios.id, id));
+    return storage.getLoanApplicationWithDetails(loanApplicationId);
+  }
+
+  private async createApplication(
+    scenario: LoanScenario,
+    structure: ScenarioStructure,
+    terms: Partial<InsertLoanApplication>,
+    loanOfficer: { id: number; organizationId: number }
+  ): Promise<number> {
+    const contact = scenario.contactId ? await storage.getContact(scenario.contactId) : undefined;
+    if (!contact) {
+      throw new ScenarioError('Attach the scenario to a lead or an application before converting it');
+    }
+    const phone = contact.mobilePhone || contact.businessPhone;
+    if (!contact.email || !phone) {
+      throw new ScenarioError('The lead needs an email address and phone number before it can become an application');
+    }
+    const { deal } = scenario;
+    if (!deal.address || !deal.city || !deal.zipCode) {
+      throw new ScenarioError('Add the property address to the scenario before converting it');
+    }
+
+    const application = await storage.createLoanApplicationWithRelations({
+      borrower: {
+        organizationId: loanOfficer.organizationId,
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        email: contact.email,
+        phone,
+        address: contact.streetAddress,
+        city: contact.city,
+        state: contact.state,
+        zipCode: contact.zipCode,
+      },
+      property: {
+        address: deal.address,
+        city: deal.city,
+        state: deal.state,
+        zipCode: deal.zipCode,
+        propertyType: deal.propertyType,
+        propertyValue: deal.propertyValue.toFixed(2),
+        purchasePrice: deal.purchasePrice != null ? deal.purchasePrice.toFixed(2) : null,
+      },
+      application: {
+        ...terms,
+        organizationId: loanOfficer.organizationId,
+        loanOfficerId: loanOfficer.id,
+        loanType: structure.loanType,
+        requestedAmount: terms.requestedAmount!,
+        status: 'application',
+        notes: `Created from scenario "${scenario.name}" (${structure.label})`,
+      },
+      tasks: [{
+        assignedToId: loanOfficer.id,
+        title: "Review Application Documents",
+        description: `Initial review for ${contact.firstName} ${contact.lastName}`,
+        priority: "medium",
+        status: "pending",
+        dueDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000)
+      }],
+    });
+    workflowEngine.emit({ type: 'application_created', loanApplicationId: application.id, payload: { loanType: application.loanType } });
+    return application.id;
+  }
+
+  // A pinned lender program must be among the eligible options; otherwise the engine's recommendation is used
+  private selectOption(pricing: PricingResult, structure: ScenarioStructure): LenderRate | undefined {
+    if (structure.guidelineId) {
+      return pricing.allOptions.find(option => option.guidelineId === structure.guidelineId);
+    }
+    return pricing.recommendedOption;
+  }
+
+  private async getMonthlyPayment(loanAmount: number, annualRate: number, structure: ScenarioStructure): Promise<number> {
+    const { monthlyPayment } = await paymentProcessor.calculateLoanPayment({
+      principal: loanAmount,
+      interestRate: annualRate * 100,
+      termYears: structure.termYears,
+      paymentFrequency: 'monthly',
+      interestOnlyMonths: structure.interestOnly ? structure.termYears * 12 : undefined,
+    });
+    return monthlyPayment;
+  }
+
+  // Leads and applications are looked up in the current tenant scope
+  private async assertAttachments(data: Partial<InsertLoanScenario>): Promise<void> {
+    if (data.contactId && !(await storage.getContact(data.contactId))) {
+      throw new ScenarioError('Lead not found');
+    }
+    if (data.loanApplicationId && !(await storage.getLoanApplication(data.loanApplicationId))) {
+      throw new ScenarioError('Loan application not found');
+    }
+  }
+}
+
+export const scenarioDeskService = ScenarioDeskService.getInstance();
@@ -0,0 +1,135 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { smsThreadService, SmsThreadError } from "./sms-thread-service";
+import { ConsentError } from "./consent-service";
+import { requirePermission, type StaffRequest } from "./rbac-service";
+import { TenantError } from "./tenant-context";
+
+const router = Router();
+
+const replySchema = z.object({
+  body: z.string().max(1600),
+  mediaUrls: z.array(z.string().url()).max(10).optional(),
+});
+
+const sendSchema = z.object({
+  to: z.string().min(1),
+  body: z.string().min(1).max(1600),
+  contactId: z.number().int().optional(),
+  borrowerId: z.number().int().optional(),
+  loanApplicationId: z.number().int().optional(),
+});
+
+const threadUpdateSchema = z.object({
+  loanApplicationId: z.number().int().nullable().optional(),
+  assignedToId: z.number().int().nullable().optional(),
+});
+
+function handleSmsError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof SmsThreadError || error instanceof ConsentError || error instanceof TenantError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+const optionalId = (value: unknown) => value ? parseInt(value as string) : undefined;
+
+// Unified inbox: ?assignedTo=me or a user id, ?unread=true, and filters by loan, contact or borrower
+router.get("/sms/threads", requirePermission('communications.view'), async (req, res) => {
+  try {
+    const assignedTo = req.query.assignedTo as string | undefined;
+    res.json(await smsThreadService.listThreads({
+      assignedToId: assignedTo === 'me' ? (req as StaffRequest).user?.id : optionalId(assignedTo),
+      unreadOnly: req.query.unread === 'true',
+      loanApplicationId: optionalId(req.query.loanApplicationId),
+      contactId: optionalId(req.query.contactId),
+      borrowerId: optionalId(req.query.borrowerId),
+      limit: optionalId(req.query.limit),
+    }));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch SMS threads" });
+  }
+});
+
+router.get("/sms/threads/:id", requirePermission('communications.view'), async (req, res) => {
+  try {
+    const detail = await smsThreadService.getThread(parseInt(req.params.id));
+    if (!detail) {
+      return res.status(404).json({ message: "SMS thread not found" });
+    }
+    res.json(detail);
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch SMS thread" });
+  }
+});
+
+router.put("/sms/threads/:id", requirePermission('communications.send'), async (req, res) => {
+  try {
+    const result = threadUpdateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid thread update", details: result.error.issues });
+    }
+    res.json(await smsThreadService.updateThread(parseInt(req.params.id), result.data));
+  } catch (error) {
+    handleSmsError(res, error, "Failed to update SMS thread");
+  }
+});
+
+router.post("/sms/threads/:id/read", requirePermission('communications.view'), async (req, res) => {
+  try {
+    res.json(await smsThreadService.markRead(parseInt(req.params.id)));
+  } catch (error) {
+    handleSmsError(res, error, "Failed to mark SMS thread read");
+  }
+});
+
+router.post("/sms/threads/:id/messages", requirePermission('communications.send'), async (req, res) => {
+  try {
+    const result = replySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid message", details: result.error.issues });
+    }
+    const message = await smsThreadService.reply(
+      parseInt(req.params.id),
+      result.data.body,
+      (req as StaffRequest).user?.id,
+      result.data.mediaUrls
+    );
+    res.status(201).json(message);
+  } catch (error) {
+    handleSmsError(res, error, "Failed to send SMS");
+  }
+});
+
+// Texts a number directly, threading the message with the given loan, borrower or contact
+router.post("/sms/messages", requirePermission('communications.send'), async (req, res) => {
+  try {
+    const result = sendSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid message", details: result.error.issues });
+    }
+    const { to, body, ...links } = result.data;
+    const message = await smsThreadService.send(to, body, links, (req as StaffRequest).user?.id);
+    res.status(201).json(message);
+  } catch (error) {
+    handleSmsError(res, error, "Failed to send SMS");
+  }
+});
+
+// Twilio delivery status callback
+router.post("/sms/status", smsThreadService.verifyTwilioWebhook(), async (req, res) => {
+  try {
+    const { MessageSid, MessageStatus, ErrorCode } = req.body;
+    if (!MessageSid || !MessageStatus) {
+      return res.status(400).json({ message: "MessageSid and MessageStatus are required" });
+    }
+    await smsThreadService.updateStatus(MessageSid, MessageStatus, ErrorCode);
+    res.sendStatus(204);
+  } catch (error) {
+    console.error("SMS status callback error:", error);
+    res.status(500).json({ message: "Failed to record SMS status" });
+  }
+});
+
+export default router;
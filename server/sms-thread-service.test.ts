@@ -0,0 +1,115 @@
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; webhook parsing, status ranking and media fetches never send a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { smsThreadService, SmsThreadError } = await import("./sms-thread-service");
+
+type ExpressRequest = import("express").Request;
+type ExpressResponse = import("express").Response;
+
+const MEDIA_URL = 'https://api.twilio.com/2010-04-01/Accounts/AC123/Messages/MM1/Media/ME1';
+
+afterEach(() => {
+  delete process.env.TWILIO_ACCOUNT_SID;
+  delete process.env.TWILIO_AUTH_TOKEN;
+  mock.restoreAll();
+});
+
+describe("Twilio webhooks", () => {
+  test("reads the sender, body, message SID and every MMS attachment", () => {
+    const inbound = smsThreadService.parseTwilioWebhook({
+      From: '+15125550142',
+      Body: 'Here is the contract',
+      MessageSid: 'SM1',
+      NumMedia: '3',
+      MediaUrl0: MEDIA_URL,
+      MediaContentType0: 'application/pdf',
+      MediaUrl2: `${MEDIA_URL}2`,
+    });
+    assert.deepEqual(inbound, {
+      from: '+15125550142',
+      body: 'Here is the contract',
+      providerMessageId: 'SM1',
+      media: [
+        { url: MEDIA_URL, contentType: 'application/pdf' },
+        { url: `${MEDIA_URL}2`, contentType: 'application/octet-stream' },
+      ],
+    });
+    assert.deepEqual(smsThreadService.parseTwilioWebhook({ NumMedia: 'none' }), { from: '', body: '', providerMessageId: undefined, media: [] });
+  });
+
+  test("answers 403 to requests without a valid signature", async () => {
+    mock.method(console, 'error', () => {});
+    const next = mock.fn();
+    let status = 0;
+    const req = { protocol: 'https', originalUrl: '/api/sms/inbound', body: { From: '+15125550142', Body: 'STOP' }, get: () => undefined } as unknown as ExpressRequest;
+    const res = { status(code: number) { status = code; return this; }, json() { return this; } } as unknown as ExpressResponse;
+
+    await smsThreadService.verifyTwilioWebhook()(req, res, next);
+    assert.equal(status, 403);
+    assert.equal(next.mock.callCount(), 0);
+  });
+});
+
+describe("delivery status callbacks", () => {
+  test("move a message forward through the delivery stages but never back", () => {
+    assert.equal(smsThreadService.advancesStatus('sent', 'delivered'), true);
+    assert.equal(smsThreadService.advancesStatus('delivered', 'sent'), false);
+    assert.equal(smsThreadService.advancesStatus('delivered', 'read'), true);
+    // Final outcomes share a stage, so a late failure report still lands
+    assert.equal(smsThreadService.advancesStatus('delivered', 'undelivered'), true);
+    assert.equal(smsThreadService.advancesStatus('queued', 'receiving'), false);
+  });
+});
+
+describe("MMS media downloads", () => {
+  const fetchReturning = (...responses: Response[]) => {
+    const queue = [...responses];
+    return mock.method(globalThis, 'fetch', async () => queue.shift()!);
+  };
+
+  test("only fetches media from Twilio over HTTPS", async () => {
+    const fetch = fetchReturning();
+    await assert.rejects(smsThreadService.downloadMedia('https://example.com/media.jpg'), SmsThreadError);
+    await assert.rejects(smsThreadService.downloadMedia('http://api.twilio.com/media.jpg'), /not on api\.twilio\.com/);
+    assert.equal(fetch.mock.callCount(), 0);
+  });
+
+  test("sends the account credentials to Twilio only, not to the storage it redirects to", async () => {
+    process.env.TWILIO_ACCOUNT_SID = 'AC123';
+    process.env.TWILIO_AUTH_TOKEN = 'secret';
+    const fetch = fetchReturning(
+      new Response(null, { status: 307, headers: { location: 'https://media.twiliocdn.com/ME1' } }),
+      new Response('%PDF-1.7'),
+    );
+
+    const content = await smsThreadService.downloadMedia(MEDIA_URL);
+    assert.equal(content.toString(), '%PDF-1.7');
+    const [first, second] = fetch.mock.calls.map(call => call.arguments as unknown as [URL, RequestInit | undefined]);
+    assert.equal(String(first[0]), MEDIA_URL);
+    assert.equal((first[1]!.headers as Record<string, string>).Authorization, `Basic ${Buffer.from('AC123:secret').toString('base64')}`);
+    assert.equal(first[1]!.redirect, 'manual');
+    assert.equal(String(second[0]), 'https://media.twiliocdn.com/ME1');
+    assert.equal(second[1], undefined);
+  });
+
+  test("refuses media over 25 MB whether or not the length is declared", async () => {
+    fetchReturning(new Response('x', { headers: { 'content-length': String(26 * 1024 * 1024) } }));
+    await assert.rejects(smsThreadService.downloadMedia(MEDIA_URL), /larger than/);
+
+    const chunk = new Uint8Array(13 * 1024 * 1024);
+    const stream = new ReadableStream({
+      pull(controller) {
+        controller.enqueue(chunk);
+      },
+    });
+    fetchReturning(new Response(stream));
+    await assert.rejects(smsThreadService.downloadMedia(MEDIA_URL), /larger than/);
+  });
+
+  test("reports failed downloads with Twilio's status", async () => {
+    fetchReturning(new Response('Not Found', { status: 404 }));
+    await assert.rejects(smsThreadService.downloadMedia(MEDIA_URL), /Media download failed with 404/);
+  });
+});
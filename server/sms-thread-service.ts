@@ -0,0 +1,525 @@
+// SMS Thread Service
+// Two-way SMS conversations: inbound and outbound texts threaded per phone number, linked to contacts, borrowers and loans
+
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { db } from "./db";
+import { storage } from "./storage";
+import { tenantContext } from "./tenant-context";
+import { workflowEngine } from "./workflow-engine";
+import { normalizePhoneNumber, phoneDigitsMatch } from "./consent-service";
+import {
+  borrowers,
+  contacts,
+  loanApplications,
+  smsMessages,
+  smsThreads,
+  type Notification,
+  type SmsAttachment,
+  type SmsMessage,
+  type SmsThread,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, isNull, or, sql, type SQL } from "drizzle-orm";
+
+export interface InboundSms {
+  from: string;
+  body: string;
+  providerMessageId?: string;
+  media: Array<{ url: string; contentType: string }>;
+}
+
+export interface SmsInboxFilter {
+  assignedToId?: number;
+  unreadOnly?: boolean;
+  loanApplicationId?: number;
+  contactId?: number;
+  borrowerId?: number;
+  limit?: number;
+}
+
+export interface SmsInboxThread extends SmsThread {
+  displayName: string | null; // borrower name, else contact name
+}
+
+export interface SmsThreadDetail {
+  thread: SmsInboxThread;
+  messages: SmsMessage[];
+}
+
+// Links a thread should carry; explicit ones win over what the phone number matches
+interface ThreadLinks {
+  contactId?: number | null;
+  borrowerId?: number | null;
+  loanApplicationId?: number | null;
+}
+
+export class SmsThreadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SmsThreadError';
+  }
+}
+
+const UPLOAD_DIR = 'uploads';
+const ATTACHMENT_CATEGORY = 'sms_attachment';
+const PREVIEW_LENGTH = 160;
+const DEFAULT_INBOX_LIMIT = 50;
+
+// Delivery stages in the order Twilio reports them
+const STATUS_RANK: Record<string, number> = {
+  queued: 0, accepted: 0, sending: 1, sent: 2, delivered: 3, undelivered: 3, failed: 3, read: 4,
+};
+
+// Inbound media is only fetched from Twilio, the one host the account credentials are sent to
+const MEDIA_HOST = 'api.twilio.com';
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg', 'image/png': '.png', 'image/gif': '.gif', 'image/heic': '.heic',
+  'application/pdf': '.pdf', 'text/vcard': '.vcf', 'video/mp4': '.mp4',
+};
+
+export class SmsThreadService {
+  private static instance: SmsThreadService;
+
+  public static getInstance(): SmsThreadService {
+    if (!SmsThreadService.instance) {
+      SmsThreadService.instance = new SmsThreadService();
+    }
+    return SmsThreadService.instance;
+  }
+
+  // Inbound
+
+  // 403 unless the request carries a valid X-Twilio-Signature. Twilio signs the URL it was configured with, so behind
+  // a proxy BASE_URL must match it (it is also the URL handed out for status callbacks).
+  verifyTwilioWebhook(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const baseUrl = process.env.BASE_URL || `${req.protocol}://${req.get('host')}`;
+      try {
+        const { twilioIntegration } = await import('./twilio-integration');
+        if (twilioIntegration.isValidWebhook(req.get('X-Twilio-Signature'), `${baseUrl}${req.originalUrl}`, req.body || {})) {
+          return next();
+        }
+      } catch (error) {
+        console.error('Twilio signature check failed:', error);
+      }
+      res.status(403).json({ message: 'Invalid Twilio signature' });
+    };
+  }
+
+  // Twilio posts media as NumMedia with MediaUrl0..n and MediaContentType0..n
+  parseTwilioWebhook(body: Record<string, any>): InboundSms {
+    const media: InboundSms['media'] = [];
+    const count = parseInt(body.NumMedia || '0') || 0;
+    for (let i = 0; i < count; i++) {
+      if (body[`MediaUrl${i}`]) {
+        media.push({ url: body[`MediaUrl${i}`], contentType: body[`MediaContentType${i}`] || 'application/octet-stream' });
+      }
+    }
+    return { from: body.From || '', body: body.Body || '', providerMessageId: body.MessageSid, media };
+  }
+
+  // Stores an inbound text on its thread, marks the thread unread for the loan's officer and saves MMS media to the
+  // loan's documents. Outside a tenant scope the organization comes from the number's earlier thread or its borrower.
+  async receive(inbound: InboundSms): Promise<{ thread: SmsThread; message: SmsMessage }> {
+    const phoneNumber = normalizePhoneNumber(inbound.from);
+    if (!phoneNumber) {
+      throw new SmsThreadError(`Invalid phone number: ${inbound.from}`);
+    }
+
+    const organizationId = tenantContext.getOrganizationId() ?? await this.findOrganization(phoneNumber);
+    const store = async () => {
+      let thread = await this.resolveThread(phoneNumber, organizationId);
+      const attachments = await this.saveAttachments(thread, inbound.media);
+
+      const [message] = await db.insert(smsMessages).values({
+        threadId: thread.id,
+        direction: 'inbound',
+        body: inbound.body,
+        attachments,
+        status: 'received',
+        providerMessageId: inbound.providerMessageId || null
+      }).returning();
+
+      const officerId = thread.assignedToId ?? await this.getLoanOfficerId(thread.loanApplicationId);
+      [thread] = await db.update(smsThreads).set({
+        unreadCount: sql`${smsThreads.unreadCount} + 1`,
+        assignedToId: officerId,
+        lastMessageAt: message.createdAt,
+        lastMessagePreview: this.preview(message)
+      }).where(eq(smsThreads.id, thread.id)).returning();
+
+      return { thread, message };
+    };
+
+    return organizationId ? tenantContext.run(organizationId, store) : store();
+  }
+
+  // Automatic replies sent in the webhook response (keyword answers, the AI advisor) have no message id
+  async recordAutoReply(threadId: number, body: string): Promise<SmsMessage> {
+    return this.appendOutbound(threadId, { body, status: 'sent' });
+  }
+
+  // Outbound
+
+  // Sends a text on an existing thread; consent and quiet hours are enforced by the Twilio integration
+  async reply(threadId: number, body: string, sentBy?: number | null, mediaUrls?: string[]): Promise<SmsMessage> {
+    const thread = await this.getVisibleThread(threadId);
+    if (!body.trim() && !mediaUrls?.length) {
+      throw new SmsThreadError('Message is empty');
+    }
+
+    const { twilioIntegration } = await import('./twilio-integration');
+    const sms = await twilioIntegration.sendSMS(thread.phoneNumber, body, mediaUrls);
+    const message = await this.appendOutbound(thread.id, {
+      body,
+      status: sms?.status || 'queued',
+      providerMessageId: sms?.id || null,
+      sentBy: sentBy ?? null,
+      attachments: (mediaUrls || []).map(url => ({ url, contentType: '', documentId: null }))
+    });
+
+    // Answering a thread reads it
+    await this.markRead(thread.id);
+    return message;
+  }
+
+  // Starts (or continues) the conversation with a number from a loan or contact record
+  async send(to: string, body: string, links: ThreadLinks = {}, sentBy?: number | null): Promise<SmsMessage> {
+    const phoneNumber = normalizePhoneNumber(to);
+    if (!phoneNumber) {
+      throw new SmsThreadError(`Invalid phone number: ${to}`);
+    }
+    const thread = await this.resolveThread(phoneNumber, tenantContext.requireOrganizationId(), links);
+    return this.reply(thread.id, body, sentBy);
+  }
+
+  // Keeps texts the notification queue delivered on the borrower's thread
+  async recordNotification(notification: Notification, to: string, providerMessageId: string | null): Promise<SmsMessage> {
+    const [loan] = await db
+      .select({ organizationId: loanApplications.organizationId })
+      .from(loanApplications)
+      .where(eq(loanApplications.id, notification.loanApplicationId));
+    if (!loan) {
+      throw new SmsThreadError(`Loan application ${notification.loanApplicationId} not found`);
+    }
+
+    return tenantContext.run(loan.organizationId, async () => {
+      const thread = await this.resolveThread(to, loan.organizationId, {
+        borrowerId: notification.borrowerId,
+        loanApplicationId: notification.loanApplicationId
+      });
+      return this.appendOutbound(thread.id, {
+        body: notification.message,
+        status: 'sent',
+        providerMessageId,
+        notificationId: notification.id
+      });
+    });
+  }
+
+  // Twilio delivery status callback; returns false for messages sent outside the threads
+  async updateStatus(providerMessageId: string, status: string, errorCode?: string | null): Promise<boolean> {
+    const [message] = await db.select().from(smsMessages).where(eq(smsMessages.providerMessageId, providerMessageId));
+    if (!message) return false;
+
+    if (this.advancesStatus(message.status, status)) {
+      await db.update(smsMessages).set({
+        status,
+        errorCode: errorCode || message.errorCode,
+        statusUpdatedAt: new Date()
+      }).where(eq(smsMessages.id, message.id));
+    }
+    return true;
+  }
+
+  // Delivery callbacks can arrive out of order; a status never moves back to an earlier stage
+  advancesStatus(current: string, next: string): boolean {
+    return (STATUS_RANK[next] ?? -1) >= (STATUS_RANK[current] ?? -1);
+  }
+
+  // Inbox
+
+  // Threads for the current organization, most recent conversation first
+  async listThreads(filter: SmsInboxFilter = {}): Promise<SmsInboxThread[]> {
+    const conditions: SQL[] = [];
+    if (filter.assignedToId) conditions.push(eq(smsThreads.assignedToId, filter.assignedToId));
+    if (filter.unreadOnly) conditions.push(gt(smsThreads.unreadCount, 0));
+    if (filter.loanApplicationId) conditions.push(eq(smsThreads.loanApplicationId, filter.loanApplicationId));
+    if (filter.contactId) conditions.push(eq(smsThreads.contactId, filter.contactId));
+    if (filter.borrowerId) conditions.push(eq(smsThreads.borrowerId, filter.borrowerId));
+
+    const rows = await this.selectThreads()
+      .where(tenantContext.where(smsThreads.organizationId, conditions.length > 0 ? and(...conditions) : undefined))
+      .orderBy(sql`${smsThreads.lastMessageAt} desc nulls last`, desc(smsThreads.id))
+      .limit(filter.limit || DEFAULT_INBOX_LIMIT);
+    return rows.map(row => this.toInboxThread(row));
+  }
+
+  async getThread(id: number): Promise<SmsThreadDetail | undefined> {
+    const [row] = await this.selectThreads().where(eq(smsThreads.id, id));
+    if (!row || !tenantContext.isVisible(row.thread.organizationId)) return undefined;
+
+    const messages = await db.select().from(smsMessages)
+      .where(eq(smsMessages.threadId, id))
+      .orderBy(asc(smsMessages.createdAt), asc(smsMessages.id));
+    return { thread: this.toInboxThread(row), messages };
+  }
+
+  async markRead(id: number): Promise<SmsThread> {
+    const thread = await this.getVisibleThread(id);
+    await db.update(smsMessages)
+      .set({ readAt: new Date() })
+      .where(and(eq(smsMessages.threadId, thread.id), eq(smsMessages.direction, 'inbound'), isNull(smsMessages.readAt)));
+    const [updated] = await db.update(smsThreads).set({ unreadCount: 0 }).where(eq(smsThreads.id, thread.id)).returning();
+    return updated;
+  }
+
+  // Links a thread to a loan (which also assigns it to that loan's officer when unassigned) or reassigns it
+  async updateThread(id: number, changes: { loanApplicationId?: number | null; assignedToId?: number | null }): Promise<SmsThread> {
+    const thread = await this.getVisibleThread(id);
+    const update: Partial<SmsThread> = {};
+
+    if (changes.loanApplicationId !== undefined) {
+      if (changes.loanApplicationId !== null) {
+        const loan = await storage.getLoanApplication(changes.loanApplicationId);
+        if (!loan) {
+          throw new SmsThreadError(`Loan application ${changes.loanApplicationId} not found`);
+        }
+        update.borrowerId = loan.borrowerId;
+        if (!thread.assignedToId && changes.assignedToId === undefined) update.assignedToId = loan.loanOfficerId;
+      }
+      update.loanApplicationId = changes.loanApplicationId;
+    }
+    if (changes.assignedToId !== undefined) update.assignedToId = changes.assignedToId;
+
+    const [updated] = await db.update(smsThreads).set(update).where(eq(smsThreads.id, thread.id)).returning();
+    return updated;
+  }
+
+  // Threads
+
+  // The organization's thread for a number, created and matched to its borrower, newest loan and contact on first use
+  private async resolveThread(phoneNumber: string, organizationId: number | null | undefined, links: ThreadLinks = {}): Promise<SmsThread> {
+    const [existing] = await db.select().from(smsThreads).where(and(
+      eq(smsThreads.phoneNumber, phoneNumber),
+      organizationId ? eq(smsThreads.organizationId, organizationId) : isNull(smsThreads.organizationId)
+    ));
+
+    if (existing) {
+      const update: ThreadLinks = {};
+      (['contactId', 'borrowerId', 'loanApplicationId'] as const).forEach(key => {
+        if (links[key] && links[key] !== existing[key]) update[key] = links[key];
+      });
+      if (Object.keys(update).length === 0) return existing;
+      const [updated] = await db.update(smsThreads).set(update).where(eq(smsThreads.id, existing.id)).returning();
+      return updated;
+    }
+
+    const matched = organizationId ? await this.matchParty(phoneNumber) : {};
+    const [created] = await db.insert(smsThreads).values({
+      organizationId: organizationId ?? null,
+      phoneNumber,
+      contactId: links.contactId ?? matched.contactId ?? null,
+      borrowerId: links.borrowerId ?? matched.borrowerId ?? null,
+      loanApplicationId: links.loanApplicationId ?? matched.loanApplicationId ?? null
+    }).returning();
+    return created;
+  }
+
+  // Borrower (with their newest loan) and contact in the current organization with this number
+  private async matchParty(phoneNumber: string): Promise<ThreadLinks> {
+    const [borrower] = await db.select({ id: borrowers.id }).from(borrowers)
+      .where(tenantContext.where(borrowers.organizationId, phoneDigitsMatch(borrowers.phone, phoneNumber)))
+      .orderBy(desc(borrowers.id))
+      .limit(1);
+
+    const [loan] = borrower
+      ? await db.select({ id: loanApplications.id }).from(loanApplications)
+        .where(eq(loanApplications.borrowerId, borrower.id))
+        .orderBy(desc(loanApplications.createdAt))
+        .limit(1)
+      : [];
+
+    const [contact] = await db.select({ id: contacts.id }).from(contacts)
+      .where(tenantContext.where(contacts.organizationId, or(
+        phoneDigitsMatch(contacts.mobilePhone, phoneNumber),
+        phoneDigitsMatch(contacts.businessPhone, phoneNumber)
+      )))
+      .orderBy(desc(contacts.id))
+      .limit(1);
+
+    return { borrowerId: borrower?.id, loanApplicationId: loan?.id, contactId: contact?.id };
+  }
+
+  // For texts to the shared number: the organization that last talked to it, else the one its borrower or contact belongs to
+  private async findOrganization(phoneNumber: string): Promise<number | null> {
+    const [thread] = await db.select({ organizationId: smsThreads.organizationId }).from(smsThreads)
+      .where(and(eq(smsThreads.phoneNumber, phoneNumber), sql`${smsThreads.organizationId} is not null`))
+      .orderBy(sql`${smsThreads.lastMessageAt} desc nulls last`)
+      .limit(1);
+    if (thread?.organizationId) return thread.organizationId;
+
+    const [borrower] = await db.select({ organizationId: borrowers.organizationId }).from(borrowers)
+      .where(phoneDigitsMatch(borrowers.phone, phoneNumber))
+      .orderBy(desc(borrowers.id))
+      .limit(1);
+    if (borrower) return borrower.organizationId;
+
+    const [contact] = await db.select({ organizationId: contacts.organizationId }).from(contacts)
+      .where(or(phoneDigitsMatch(contacts.mobilePhone, phoneNumber), phoneDigitsMatch(contacts.businessPhone, phoneNumber)))
+      .orderBy(desc(contacts.id))
+      .limit(1);
+    return contact?.organizationId ?? null;
+  }
+
+  private async getVisibleThread(id: number): Promise<SmsThread> {
+    const [thread] = await db.select().from(smsThreads).where(eq(smsThreads.id, id));
+    if (!thread || !tenantContext.isVisible(thread.organizationId)) {
+      throw new SmsThreadError(`SMS thread ${id} not found`);
+    }
+    return thread;
+  }
+
+  private async getLoanOfficerId(loanApplicationId: number | null): Promise<number | null> {
+    if (!loanApplicationId) return null;
+    const [loan] = await db.select({ loanOfficerId: loanApplications.loanOfficerId }).from(loanApplications)
+      .where(eq(loanApplications.id, loanApplicationId));
+    return loan?.loanOfficerId ?? null;
+  }
+
+  private async appendOutbound(
+    threadId: number,
+    values: Omit<typeof smsMessages.$inferInsert, 'threadId' | 'direction'>
+  ): Promise<SmsMessage> {
+    const [message] = await db.insert(smsMessages).values({ ...values, threadId, direction: 'outbound' }).returning();
+    await db.update(smsThreads).set({
+      lastMessageAt: message.createdAt,
+      lastMessagePreview: this.preview(message)
+    }).where(eq(smsThreads.id, threadId));
+    return message;
+  }
+
+  // MMS media is downloaded into uploads/ and filed as a document on the thread's loan; without a loan only the
+  // provider URL is kept. A failed download keeps the URL so the message is never lost.
+  private async saveAttachments(thread: SmsThread, media: InboundSms['media']): Promise<SmsAttachment[]> {
+    const attachments: SmsAttachment[] = [];
+    for (const item of media) {
+      const attachment: SmsAttachment = { url: item.url, contentType: item.contentType, documentId: null };
+      if (thread.loanApplicationId) {
+        try {
+          attachment.documentId = await this.saveDocument(thread.loanApplicationId, item, attachments.length + 1);
+        } catch (error) {
+          console.error(`Failed to save MMS attachment ${item.url}:`, error);
+        }
+      }
+      attachments.push(attachment);
+    }
+    return attachments;
+  }
+
+  private async saveDocument(loanApplicationId: number, item: InboundSms['media'][number], index: number): Promise<number> {
+    const content = await this.downloadMedia(item.url);
+
+    const fileName = randomBytes(16).toString('hex');
+    await fs.mkdir(UPLOAD_DIR, { recursive: true });
+    await fs.writeFile(path.join(UPLOAD_DIR, fileName), content);
+
+    const extension = MEDIA_EXTENSIONS[item.contentType] || '';
+    const document = await storage.createDocument({
+      loanApplicationId,
+      fileName,
+      originalName: `sms-attachment-${new Date().toISOString().slice(0, 10)}-${index}${extension}`,
+      category: ATTACHMENT_CATEGORY,
+      fileSize: content.length,
+      mimeType: item.contentType
+    });
+    workflowEngine.emit({
+      type: 'document_uploaded',
+      loanApplicationId,
+      payload: { documentId: document.id, category: document.category }
+    });
+    return document.id;
+  }
+
+  // Twilio answers media requests with a redirect to its storage; the redirect is followed without credentials
+  async downloadMedia(url: string): Promise<Buffer> {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' || parsed.hostname !== MEDIA_HOST) {
+      throw new SmsThreadError(`Media URL is not on ${MEDIA_HOST}: ${parsed.origin}`);
+    }
+
+    const headers: Record<string, string> = {};
+    if (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN) {
+      const credentials = Buffer.from(`${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+      headers.Authorization = `Basic ${credentials}`;
+    }
+    let response = await fetch(parsed, { headers, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      response = await fetch(new URL(location, parsed));
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Media download failed with ${response.status}`);
+    }
+    if (Number(response.headers.get('content-length')) > MAX_MEDIA_BYTES) {
+      await response.body.cancel();
+      throw new SmsThreadError(`Media is larger than ${MAX_MEDIA_BYTES} bytes`);
+    }
+
+    // The declared length is not trusted; the body is read only up to the limit
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+      if (size > MAX_MEDIA_BYTES) {
+        await reader.cancel();
+        throw new SmsThreadError(`Media is larger than ${MAX_MEDIA_BYTES} bytes`);
+      }
+      chunks.push(chunk.value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private preview(message: SmsMessage): string {
+    const text = message.body.trim();
+    if (text) return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+    return message.attachments.length === 1 ? '[1 attachment]' : `[${message.attachments.length} attachments]`;
+  }
+
+  private selectThreads() {
+    return db
+      .select({
+        thread: smsThreads,
+        borrowerFirstName: borrowers.firstName,
+        borrowerLastName: borrowers.lastName,
+        contactFirstName: contacts.firstName,
+        contactLastName: contacts.lastName
+      })
+      .from(smsThreads)
+      .leftJoin(borrowers, eq(smsThreads.borrowerId, borrowers.id))
+      .leftJoin(contacts, eq(smsThreads.contactId, contacts.id))
+      .$dynamic();
+  }
+
+  private toInboxThread(row: {
+    thread: SmsThread;
+    borrowerFirstName: string | null;
+    borrowerLastName: string | null;
+    contactFirstName: string | null;
+    contactLastName: string | null;
+  }): SmsInboxThread {
+    const displayName = row.borrowerFirstName
+      ? `${row.borrowerFirstName} ${row.borrowerLastName || ''}`.trim()
+      : row.contactFirstName
+        ? `${row.contactFirstName} ${row.contactLastName || ''}`.trim()
+        : null;
+    return { ...row.thread, displayName };
+  }
+}
+
+export const smsThreadService = SmsThreadService.getInstance();
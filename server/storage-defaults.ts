@@ -0,0 +1,159 @@
+// Storage Defaults
+// Built-in document checklists, pipeline statistics, paging, listing cursors and intake assignment shared by the in-memory
+// and database storage
+
+import type { LoanApplication, LoanApplicationWithDetails, User } from "@shared/schema";
+import { LOAN_STATUSES, isActiveLoanStatus, normalizeLoanStatus } from "@shared/loan-status";
+import type { LoanApplicationSortField } from "@shared/loan-search";
+
+// Page window for list methods; results keep each method's natural order
+export interface ListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface DashboardStats {
+  activeApplications: number;
+  pendingReview: number;
+  approvedThisMonth: number;
+  totalFunded: string;
+  pipelineStats: Record<string, number>;
+}
+
+export function paginate<T>(items: T[], options?: ListOptions): T[] {
+  const offset = options?.offset || 0;
+  return options?.limit !== undefined ? items.slice(offset, offset + options.limit) : items.slice(offset);
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid or expired cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Position after the last row of a page: the sort field it was issued for, that row's sort value and its id
+export interface LoanCursor {
+  sort: LoanApplicationSortField;
+  value: string;
+  id: number;
+}
+
+export function encodeLoanCursor(cursor: LoanCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeLoanCursor(encoded: string, sort: LoanApplicationSortField): LoanCursor {
+  try {
+    const [cursorSort, value, id] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (cursorSort === sort && typeof value === 'string' && Number.isInteger(id)) {
+      return { sort, value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+// Search box input as lowercase prefix terms; "123", "#123" or "LA-123" also matches application 123
+export function parseLoanSearch(search: string): { terms: string[]; applicationId: number | null } {
+  const number = search.trim().match(/^(?:#|la-?)?(\d+)$/i);
+  const terms = search.toLowerCase()
+    .split(/\s+/)
+    .map(term => term.replace(/[&|!():*<>'"\\]/g, ''))
+    .filter(term => /[^.@-]/.test(term));
+  return { terms, applicationId: number ? parseInt(number[1]) : null };
+}
+
+// Sort value of a loan as the in-memory listing compares it
+export function loanSortValue(application: LoanApplicationWithDetails, sort: LoanApplicationSortField): string {
+  switch (sort) {
+    case 'createdAt': return new Date(application.createdAt).toISOString();
+    case 'updatedAt': return new Date(application.updatedAt).toISOString();
+    case 'requestedAmount': return application.requestedAmount;
+    case 'borrowerName': return application.borrower.lastName;
+  }
+}
+
+export function compareLoanSortValues(sort: LoanApplicationSortField, a: string, b: string): number {
+  switch (sort) {
+    case 'createdAt':
+    case 'updatedAt':
+      return Date.parse(a) - Date.parse(b);
+    case 'requestedAmount':
+      return parseFloat(a) - parseFloat(b);
+    case 'borrowerName':
+      return a.localeCompare(b);
+  }
+}
+
+// Roles public intake is assigned to, most preferred first
+export const INTAKE_ASSIGNEE_ROLES = ['loan_officer', 'branch_manager', 'owner'];
+
+// The active user with the most preferred intake role, the longest-standing one among equals
+export function pickIntakeAssignee(candidates: User[]): User | undefined {
+  return candidates
+    .filter(user => user.isActive !== false && INTAKE_ASSIGNEE_ROLES.includes(user.role))
+    .sort((a, b) => INTAKE_ASSIGNEE_ROLES.indexOf(a.role) - INTAKE_ASSIGNEE_ROLES.indexOf(b.role) || a.id - b.id)[0];
+}
+
+// Checklist used for a loan type until document requirements are configured for it
+export function defaultDocumentRequirements(loanType: string): any[] {
+  const common = [
+    { id: 1, loanType, category: 'income_verification', documentName: 'Tax Returns (2 years)', description: 'Personal and business tax returns for the last 2 years', isRequired: true, sortOrder: 1 },
+    { id: 2, loanType, category: 'bank_statements', documentName: 'Bank Statements (3 months)', description: 'Recent bank statements showing cash reserves', isRequired: true, sortOrder: 2 },
+    { id: 3, loanType, category: 'insurance', documentName: 'Property Insurance', description: 'Proof of property insurance coverage', isRequired: true, sortOrder: 3 },
+    { id: 4, loanType, category: 'property_docs', documentName: 'Purchase Agreement', description: 'Signed purchase agreement or property deed', isRequired: true, sortOrder: 4 }
+  ];
+
+  const specific: Record<string, any[]> = {
+    'dscr': [
+      { id: 5, loanType, category: 'rental_income', documentName: 'Rent Roll', description: 'Current rent roll showing rental income', isRequired: true, sortOrder: 5 },
+      { id: 6, loanType, category: 'rental_income', documentName: 'Lease Agreements', description: 'Current tenant lease agreements', isRequired: true, sortOrder: 6 }
+    ],
+    'fix_flip': [
+      { id: 5, loanType, category: 'construction', documentName: 'Rehab Budget', description: 'Detailed renovation budget and timeline', isRequired: true, sortOrder: 5 },
+      { id: 6, loanType, category: 'construction', documentName: 'Contractor Estimates', description: 'Licensed contractor estimates', isRequired: true, sortOrder: 6 }
+    ],
+    'construction': [
+      { id: 5, loanType, category: 'construction', documentName: 'Building Plans', description: 'Architectural plans and permits', isRequired: true, sortOrder: 5 },
+      { id: 6, loanType, category: 'construction', documentName: 'Construction Budget', description: 'Detailed construction budget', isRequired: true, sortOrder: 6 }
+    ]
+  };
+
+  return [...common, ...(specific[loanType] || [])];
+}
+
+export function buildDashboardStats(applications: LoanApplication[]): DashboardStats {
+  const currentMonth = new Date().getMonth();
+  const currentYear = new Date().getFullYear();
+
+  const activeApplications = applications.filter(app => isActiveLoanStatus(app.status)).length;
+
+  const pendingReview = applications.filter(app => app.status === 'document_review').length;
+
+  const approvedStatuses = ['conditionally_approved', 'clear_to_close', 'funded'];
+  const approvedThisMonth = applications.filter(app => {
+    if (!approvedStatuses.includes(normalizeLoanStatus(app.status) || '')) return false;
+    const createdDate = new Date(app.createdAt);
+    return createdDate.getMonth() === currentMonth && createdDate.getFullYear() === currentYear;
+  }).length;
+
+  const fundedApps = applications.filter(app => app.status === 'funded');
+  const totalFunded = fundedApps.reduce((sum, app) => {
+    return sum + parseFloat(app.requestedAmount || '0');
+  }, 0);
+
+  const pipelineStats: Record<string, number> = {};
+  for (const definition of LOAN_STATUSES) {
+    pipelineStats[definition.key] = applications.filter(app => normalizeLoanStatus(app.status) === definition.key).length;
+  }
+
+  return {
+    activeApplications,
+    pendingReview,
+    approvedThisMonth,
+    totalFunded: `$${(totalFunded / 1000000).toFixed(1)}M`,
+    pipelineStats
+  };
+}
@@ -0,0 +1,160 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// DatabaseStorage runs against TEST_DATABASE_URL, a database with the schema pushed; without one only MemStorage runs
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+if (testDatabaseUrl) process.env.DATABASE_URL = testDatabaseUrl;
+// db.ts refuses to load without a connection string; the MemStorage suite never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { tenantContext, TenantError } = await import("./tenant-context");
+const { MemStorage } = await import("./storage");
+const { databaseStorage } = await import("./database-storage");
+const { db, pool } = await import("./db");
+const { organizations } = await import("@shared/schema");
+
+type IStorage = import("./storage").IStorage;
+type InsertTemplate = import("@shared/schema").InsertTemplate;
+type User = import("@shared/schema").User;
+
+interface Fixture {
+  storage: IStorage;
+  orgA: number;
+  orgB: number;
+}
+
+// The behaviour every IStorage implementation must share, above all that one organization never sees another's data
+function storageContract(name: string, setup: () => Promise<Fixture>, skip?: string) {
+  describe(`${name} storage contract`, { skip }, () => {
+    let storage: IStorage;
+    let orgA: number;
+    let orgB: number;
+
+    before(async () => {
+      ({ storage, orgA, orgB } = await setup());
+    });
+
+    const createLoan = (organizationId: number, requestedOrganizationId = organizationId) =>
+      tenantContext.run(organizationId, () => storage.createLoanApplicationWithRelations({
+        borrower: {
+          organizationId: requestedOrganizationId,
+          firstName: 'Ada',
+          lastName: `Org${organizationId}`,
+          email: `ada-${organizationId}-${Date.now()}-${Math.random()}@example.com`,
+          phone: '5555550100',
+        },
+        property: { address: '1 Main St', city: 'Austin', state: 'TX', zipCode: '78701', propertyType: 'single_family' },
+        application: { organizationId: requestedOrganizationId, loanOfficerId: 1, loanType: 'dscr', requestedAmount: '250000' },
+      }));
+
+    test("creates a loan with its borrower and property in the caller's organization", async () => {
+      const loan = await createLoan(orgA, orgB);
+      assert.equal(loan.organizationId, orgA);
+      assert.equal(loan.borrower.organizationId, orgA);
+      assert.equal(loan.property.id, loan.propertyId);
+      assert.equal((await tenantContext.run(orgA, () => storage.getProperty(loan.propertyId)))?.id, loan.propertyId);
+    });
+
+    test("hides another organization's loans, borrowers and properties", async () => {
+      const loan = await createLoan(orgA);
+      await tenantContext.run(orgB, async () => {
+        assert.equal(await storage.getLoanApplication(loan.id), undefined);
+        assert.equal(await storage.getLoanApplicationWithDetails(loan.id), undefined);
+        assert.equal(await storage.getBorrower(loan.borrowerId), undefined);
+        assert.equal(await storage.getProperty(loan.propertyId), undefined);
+        assert.ok(!(await storage.getAllLoanApplications()).some(application => application.id === loan.id));
+        assert.equal(await storage.updateLoanApplication(loan.id, { notes: 'changed' }), undefined);
+        assert.equal(await storage.updateProperty(loan.propertyId, { city: 'Elsewhere' }), undefined);
+      });
+
+      const unchanged = await tenantContext.run(orgA, () => storage.getLoanApplicationWithDetails(loan.id));
+      assert.equal(unchanged?.notes, null);
+      assert.equal(unchanged?.property.city, 'Austin');
+    });
+
+    test("a property no loan uses is visible to no organization", async () => {
+      const property = await tenantContext.run(orgA, () => storage.createProperty({
+        address: '2 Side St', city: 'Austin', state: 'TX', zipCode: '78702', propertyType: 'single_family',
+      }));
+      assert.equal(await tenantContext.run(orgA, () => storage.getProperty(property.id)), undefined);
+      assert.equal(await tenantContext.run(orgB, () => storage.getProperty(property.id)), undefined);
+      assert.equal((await tenantContext.runAsSystem(() => storage.getProperty(property.id)))?.id, property.id);
+    });
+
+    test("saves a status change with its field edits and history entry", async () => {
+      const loan = await createLoan(orgA);
+      const change = {
+        fromStatus: 'application', toStatus: 'document_review', changedBy: 7, reason: null, source: 'user',
+        updates: { notes: 'Docs requested' },
+      };
+
+      assert.equal(await tenantContext.run(orgB, () => storage.changeLoanApplicationStatus(loan.id, change)), undefined);
+      const updated = await tenantContext.run(orgA, () => storage.changeLoanApplicationStatus(loan.id, change));
+      assert.equal(updated?.status, 'document_review');
+      assert.equal(updated?.notes, 'Docs requested');
+
+      const history = await tenantContext.run(orgA, () => storage.getLoanStatusHistory(loan.id));
+      assert.deepEqual(history.map(entry => [entry.fromStatus, entry.toStatus, entry.changedBy]), [['application', 'document_review', 7]]);
+      assert.deepEqual(await tenantContext.run(orgB, () => storage.getLoanStatusHistory(loan.id)), []);
+    });
+
+    test("templates are shared or owned, and an owned template never changes hands", async () => {
+      const template: InsertTemplate = { name: 'Welcome', type: 'email', subject: 'Hi', content: 'Hello {{borrower.firstName}}' };
+      const owned = await tenantContext.run(orgA, () => storage.createTemplate(template));
+      const shared = await tenantContext.runAsSystem(() => storage.createTemplate({ ...template, name: 'Shared welcome' }));
+      assert.equal(owned.organizationId, orgA);
+      assert.equal(shared.organizationId, null);
+
+      await tenantContext.run(orgB, async () => {
+        assert.equal(await storage.getTemplate(owned.id), undefined);
+        assert.equal(await storage.updateTemplate(owned.id, { name: 'Taken' }), undefined);
+        assert.equal((await storage.getTemplate(shared.id))?.id, shared.id);
+        assert.ok(!(await storage.getAllTemplates()).some(entry => entry.id === owned.id));
+      });
+
+      const moved = await tenantContext.run(orgA, () =>
+        storage.updateTemplate(owned.id, { name: 'Welcome back', organizationId: orgB } as Partial<InsertTemplate>));
+      assert.equal(moved?.name, 'Welcome back');
+      assert.equal(moved?.organizationId, orgA);
+    });
+
+    test("assigns public intake to a loan officer of the caller's organization only", async () => {
+      const createUser = (organizationId: number, role: string) => {
+        const username = `${role}-${organizationId}-${Date.now()}-${Math.random()}`;
+        return storage.createUser({
+          organizationId, role, username, email: `${username}@example.com`, password: 'x', firstName: 'Lee', lastName: role, isActive: true,
+        } as Omit<User, 'id'>);
+      };
+      // The owner is older, but a loan officer is preferred
+      await createUser(orgA, 'owner');
+      const officerA = await createUser(orgA, 'loan_officer');
+      await createUser(orgB, 'processor');
+
+      assert.equal((await tenantContext.run(orgA, () => storage.getIntakeAssignee()))?.id, officerA.id);
+      // Processors do not take intake, and another organization's officers are never borrowed
+      assert.equal(await tenantContext.run(orgB, () => storage.getIntakeAssignee()), undefined);
+      assert.equal(await tenantContext.runAsSystem(() => storage.getIntakeAssignee()), undefined);
+    });
+
+    test("refuses calls made outside any tenant scope", async () => {
+      const loan = await createLoan(orgA);
+      await assert.rejects(storage.getAllLoanApplications(), TenantError);
+      await assert.rejects(storage.getLoanApplication(loan.id), TenantError);
+      await assert.rejects(storage.getProperty(loan.propertyId), TenantError);
+    });
+  });
+}
+
+storageContract("MemStorage", async () => ({ storage: new MemStorage(), orgA: 1, orgB: 2 }));
+
+storageContract("DatabaseStorage", async () => {
+  const suffix = Date.now();
+  const [orgA, orgB] = await db.insert(organizations).values([
+    { name: 'Contract A', subdomain: `contract-a-${suffix}` },
+    { name: 'Contract B', subdomain: `contract-b-${suffix}` },
+  ]).returning({ id: organizations.id });
+  return { storage: databaseStorage, orgA: orgA.id, orgB: orgB.id };
+}, testDatabaseUrl ? undefined : 'set TEST_DATABASE_URL to run against a database');
+
+after(async () => {
+  if (testDatabaseUrl) await pool.end();
+});
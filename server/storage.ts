@@ -4,14 +4,44 @@ import {
   type Document, type Task, type Notification, type Template, type CallLog,
   type InsertBorrower, type InsertProperty, type InsertLoanApplication, 
   type InsertDocument, type InsertTask, type InsertNotification, 
-  type InsertTemplate, type InsertCallLog, type LoanApplicationWithDetails
+  type InsertTemplate, type InsertCallLog, type LoanApplicationWithDetails, type LoanStatusHistoryEntry
 } from "@shared/schema";
+import { tenantContext, TenantError } from "./tenant-context";
+import { databaseStorage } from "./database-storage";
+import {
+  paginate, defaultDocumentRequirements, buildDashboardStats, decodeLoanCursor, encodeLoanCursor, parseLoanSearch,
+  loanSortValue, compareLoanSortValues, pickIntakeAssignee, type ListOptions, type DashboardStats
+} from "./storage-defaults";
+import type { LoanApplicationSearch, LoanApplicationPage } from "@shared/loan-search";
+
+export type { ListOptions, DashboardStats } from "./storage-defaults";
+
+// Everything POST /api/loan-applications creates; implementations write it all or nothing
+export interface NewLoanApplication {
+  borrower: InsertBorrower;
+  property: InsertProperty;
+  application: Omit<InsertLoanApplication, 'borrowerId' | 'propertyId'>;
+  tasks?: Array<Omit<InsertTask, 'loanApplicationId'>>;
+}
+
+// A status change plus the field edits submitted with it; implementations save both with the history entry
+export interface LoanStatusChange {
+  fromStatus: string;
+  toStatus: string;
+  changedBy: number | null;
+  reason: string | null;
+  source: string;
+  updates?: Partial<InsertLoanApplication>;
+}
 
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: Omit<User, 'id'>): Promise<User>;
+  // Who public intake (applications, their first tasks) is assigned to in the current organization; undefined in a
+  // system scope or when the organization has no loan officer, manager or owner
+  getIntakeAssignee(): Promise<User | undefined>;
 
   // Borrowers
   getBorrower(id: number): Promise<Borrower | undefined>;
@@ -26,53 +56,52 @@ export interface IStorage {
   // Loan Applications
   getLoanApplication(id: number): Promise<LoanApplication | undefined>;
   getLoanApplicationWithDetails(id: number): Promise<LoanApplicationWithDetails | undefined>;
-  getAllLoanApplications(): Promise<LoanApplication[]>;
-  getAllLoanApplicationsWithDetails(): Promise<LoanApplicationWithDetails[]>;
+  getAllLoanApplications(options?: ListOptions): Promise<LoanApplication[]>;
+  getAllLoanApplicationsWithDetails(options?: ListOptions): Promise<LoanApplicationWithDetails[]>;
+  searchLoanApplications(query: LoanApplicationSearch): Promise<LoanApplicationPage>;
   createLoanApplication(application: InsertLoanApplication): Promise<LoanApplication>;
+  createLoanApplicationWithRelations(input: NewLoanApplication): Promise<LoanApplicationWithDetails>;
   updateLoanApplication(id: number, application: Partial<InsertLoanApplication>): Promise<LoanApplication | undefined>;
-  getLoanApplicationsByStatus(status: string): Promise<LoanApplication[]>;
-  getLoanApplicationsByBorrower(borrowerId: number): Promise<LoanApplication[]>;
+  changeLoanApplicationStatus(id: number, change: LoanStatusChange): Promise<LoanApplication | undefined>;
+  getLoanStatusHistory(loanApplicationId: number): Promise<LoanStatusHistoryEntry[]>;
+  getLoanApplicationsByStatus(status: string, options?: ListOptions): Promise<LoanApplication[]>;
+  getLoanApplicationsByBorrower(borrowerId: number, options?: ListOptions): Promise<LoanApplication[]>;
 
   // Documents
   getDocument(id: number): Promise<Document | undefined>;
-  getDocumentsByLoanApplication(loanApplicationId: number): Promise<Document[]>;
+  getDocumentsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   deleteDocument(id: number): Promise<boolean>;
 
   // Tasks
   getTask(id: number): Promise<Task | undefined>;
-  getTasksByLoanApplication(loanApplicationId: number): Promise<Task[]>;
-  getTasksByAssignee(assignedToId: number): Promise<Task[]>;
+  getTasksByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Task[]>;
+  getTasksByAssignee(assignedToId: number, options?: ListOptions): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<InsertTask>): Promise<Task | undefined>;
 
   // Notifications
   getNotification(id: number): Promise<Notification | undefined>;
-  getNotificationsByLoanApplication(loanApplicationId: number): Promise<Notification[]>;
+  getNotificationsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Notification[]>;
+  getRecentNotifications(options?: ListOptions): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined>;
 
   // Templates
   getTemplate(id: number): Promise<Template | undefined>;
-  getAllTemplates(): Promise<Template[]>;
-  getTemplatesByType(type: string): Promise<Template[]>;
+  getAllTemplates(options?: ListOptions): Promise<Template[]>;
+  getTemplatesByType(type: string, options?: ListOptions): Promise<Template[]>;
   createTemplate(template: InsertTemplate): Promise<Template>;
   updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template | undefined>;
 
   // Call Logs
   getCallLog(id: number): Promise<CallLog | undefined>;
-  getCallLogsByLoanApplication(loanApplicationId: number): Promise<CallLog[]>;
-  getCallLogsByBorrower(borrowerId: number): Promise<CallLog[]>;
+  getCallLogsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<CallLog[]>;
+  getCallLogsByBorrower(borrowerId: number, options?: ListOptions): Promise<CallLog[]>;
   createCallLog(callLog: InsertCallLog): Promise<CallLog>;
 
   // Dashboard stats
-  getDashboardStats(): Promise<{
-    activeApplications: number;
-    pendingReview: number;
-    approvedThisMonth: number;
-    totalFunded: string;
-    pipelineStats: Record<string, number>;
-  }>;
+  getDashboardStats(): Promise<DashboardStats>;
 
   // Document Requirements
   getDocumentRequirements(loanType: string): Promise<any[]>;
@@ -94,7 +123,7 @@ export interface IStorage {
   updateLoanApplicationStage(id: number, stage: string, data?: any): Promise<any>;
 
   // Contacts
-  getAllContacts(): Promise<any[]>;
+  getAllContacts(options?: ListOptions): Promise<any[]>;
   getContact(id: number): Promise<any>;
   createContact(contact: any): Promise<any>;
   updateContact(id: number, contact: any): Promise<any>;
@@ -111,6 +140,7 @@ export class MemStorage implements IStorage {
   private notifications: Map<number, Notification> = new Map();
   private templates: Map<number, Template> = new Map();
   private callLogs: Map<number, CallLog> = new Map();
+  private loanStatusHistory: LoanStatusHistoryEntry[] = [];
   
   private currentUserId = 1;
   private currentBorrowerId = 1;
@@ -121,6 +151,7 @@ export class MemStorage implements IStorage {
   private currentNotificationId = 1;
   private currentTemplateId = 1;
   private currentCallLogId = 1;
+  private currentStatusHistoryId = 1;
   private documentRequirements: Map<string, any[]> = new Map();
   private documentReminders: Map<number, any> = new Map();
   private bankAccounts: Map<number, any[]> = new Map();
@@ -165,20 +196,22 @@ export class MemStorage implements IStorage {
     // Create default email templates
     this.templates.set(1, {
       id: 1,
+      organizationId: null,
       name: 'Application Received',
       type: 'email',
       subject: 'Your Loan Application Has Been Received',
-      content: 'Dear {borrowerName},\n\nThank you for submitting your loan application. We have received your application for ${requestedAmount} and will review it within 24-48 hours.\n\nApplication ID: {applicationId}\nLoan Type: {loanType}\n\nBest regards,\nLoanFlow Pro Team',
+      content: 'Dear {{borrower.fullName}},\n\nThank you for submitting your loan application. We have received your application for {{loan.amount}} and will review it within 24-48 hours.\n\nApplication ID: {{loan.number}}\nLoan Type: {{loan.type}}\n\nBest regards,\n{{organization.name}} Team',
       isActive: true,
       createdAt: new Date()
     });
 
     this.templates.set(2, {
       id: 2,
+      organizationId: null,
       name: 'Document Request',
       type: 'sms',
       subject: null,
-      content: 'Hi {borrowerName}, we need additional documents for your loan application #{applicationId}. Please upload them to your portal or call us at (555) 123-4567.',
+      content: 'Hi {{borrower.firstName}}, we need {{documents.missingCount}} more documents for loan application {{loan.number}}. Please upload them at {{portal.link}} or call {{loanOfficer.fullName}} at {{loanOfficer.phone}}.',
       isActive: true,
       createdAt: new Date()
     });
@@ -186,6 +219,36 @@ export class MemStorage implements IStorage {
     this.currentTemplateId = 3;
   }
 
+  // Tenant scoping: borrowers and loan applications carry organizationId; documents, tasks, notifications,
+  // call logs and properties belong to the organization of the loan application they hang off
+
+  private loanVisible(loanApplicationId: number): boolean {
+    const application = this.loanApplications.get(loanApplicationId);
+    return !!application && tenantContext.isVisible(application.organizationId);
+  }
+
+  private borrowerVisible(borrowerId: number): boolean {
+    const borrower = this.borrowers.get(borrowerId);
+    return !!borrower && tenantContext.isVisible(borrower.organizationId);
+  }
+
+  // Properties carry no organization, so one is visible only through a loan of the current organization
+  private propertyVisible(propertyId: number): boolean {
+    if (tenantContext.scopedOrganizationId() === null) return true;
+    return Array.from(this.loanApplications.values())
+      .some(app => app.propertyId === propertyId && tenantContext.isVisible(app.organizationId));
+  }
+
+  private visibleLoanApplications(): LoanApplication[] {
+    return Array.from(this.loanApplications.values()).filter(app => tenantContext.isVisible(app.organizationId));
+  }
+
+  private assertLoanVisible(loanApplicationId: number) {
+    if (!this.loanVisible(loanApplicationId)) {
+      throw new TenantError(`Loan application ${loanApplicationId} not found`);
+    }
+  }
+
   // Users
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -195,6 +258,12 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.username === username);
   }
 
+  async getIntakeAssignee(): Promise<User | undefined> {
+    const organizationId = tenantContext.scopedOrganizationId();
+    if (organizationId === null) return undefined;
+    return pickIntakeAssignee(Array.from(this.users.values()).filter(user => user.organizationId === organizationId));
+  }
+
   async createUser(user: Omit<User, 'id'>): Promise<User> {
     const id = this.currentUserId++;
     const newUser: User = { ...user, id };
@@ -204,7 +273,7 @@ export class MemStorage implements IStorage {
 
   // Borrowers
   async getBorrower(id: number): Promise<Borrower | undefined> {
-    return this.borrowers.get(id);
+    return this.borrowerVisible(id) ? this.borrowers.get(id) : undefined;
   }
 
   async createBorrower(borrower: InsertBorrower): Promise<Borrower> {
@@ -212,6 +281,7 @@ export class MemStorage implements IStorage {
     const newBorrower: Borrower = { 
       ...borrower, 
       id,
+      organizationId: tenantContext.getOrganizationId() ?? borrower.organizationId,
       address: borrower.address || null,
       city: borrower.city || null,
       state: borrower.state || null,
@@ -221,7 +291,13 @@ export class MemStorage implements IStorage {
       jobTitle: borrower.jobTitle || null,
       investmentExperience: borrower.investmentExperience || null,
       portfolioSize: borrower.portfolioSize || null,
-      preferredLoanTypes: borrower.preferredLoanTypes || null
+      preferredLoanTypes: borrower.preferredLoanTypes || null,
+      ethnicity: borrower.ethnicity || null,
+      ethnicityCollectionMethod: borrower.ethnicityCollectionMethod || null,
+      race: borrower.race || null,
+      raceCollectionMethod: borrower.raceCollectionMethod || null,
+      sex: borrower.sex || null,
+      sexCollectionMethod: borrower.sexCollectionMethod || null
     };
     this.borrowers.set(id, newBorrower);
     return newBorrower;
@@ -229,15 +305,15 @@ export class MemStorage implements IStorage {
 
   async updateBorrower(id: number, borrower: Partial<InsertBorrower>): Promise<Borrower | undefined> {
     const existing = this.borrowers.get(id);
-    if (!existing) return undefined;
-    const updated = { ...existing, ...borrower };
+    if (!existing || !this.borrowerVisible(id)) return undefined;
+    const updated = { ...existing, ...borrower, organizationId: existing.organizationId };
     this.borrowers.set(id, updated);
     return updated;
   }
 
   // Properties
   async getProperty(id: number): Promise<Property | undefined> {
-    return this.properties.get(id);
+    return this.propertyVisible(id) ? this.properties.get(id) : undefined;
   }
 
   async createProperty(property: InsertProperty): Promise<Property> {
@@ -256,7 +332,7 @@ export class MemStorage implements IStorage {
 
   async updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property | undefined> {
     const existing = this.properties.get(id);
-    if (!existing) return undefined;
+    if (!existing || !this.propertyVisible(id)) return undefined;
     const updated = { ...existing, ...property };
     this.properties.set(id, updated);
     return updated;
@@ -264,12 +340,12 @@ export class MemStorage implements IStorage {
 
   // Loan Applications
   async getLoanApplication(id: number): Promise<LoanApplication | undefined> {
-    return this.loanApplications.get(id);
+    return this.loanVisible(id) ? this.loanApplications.get(id) : undefined;
   }
 
   async getLoanApplicationWithDetails(id: number): Promise<LoanApplicationWithDetails | undefined> {
     const application = this.loanApplications.get(id);
-    if (!application) return undefined;
+    if (!application || !this.loanVisible(id)) return undefined;
 
     const borrower = this.borrowers.get(application.borrowerId);
     const property = this.properties.get(application.propertyId);
@@ -287,12 +363,12 @@ export class MemStorage implements IStorage {
     };
   }
 
-  async getAllLoanApplications(): Promise<LoanApplication[]> {
-    return Array.from(this.loanApplications.values());
+  async getAllLoanApplications(options?: ListOptions): Promise<LoanApplication[]> {
+    return paginate(this.visibleLoanApplications(), options);
   }
 
-  async getAllLoanApplicationsWithDetails(): Promise<LoanApplicationWithDetails[]> {
-    const applications = Array.from(this.loanApplications.values());
+  async getAllLoanApplicationsWithDetails(options?: ListOptions): Promise<LoanApplicationWithDetails[]> {
+    const applications = this.visibleLoanApplications();
     const detailed: LoanApplicationWithDetails[] = [];
 
     for (const app of applications) {
@@ -312,7 +388,48 @@ export class MemStorage implements IStorage {
       }
     }
 
-    return detailed;
+    return paginate(detailed, options);
+  }
+
+  async searchLoanApplications(query: LoanApplicationSearch): Promise<LoanApplicationPage> {
+    const { terms, applicationId } = parseLoanSearch(query.search || '');
+    const matches = (await this.getAllLoanApplicationsWithDetails()).filter(app => {
+      if (query.status?.length && !query.status.includes(app.status)) return false;
+      if (query.loanType?.length && !query.loanType.includes(app.loanType)) return false;
+      if (query.loanOfficerId && app.loanOfficerId !== query.loanOfficerId) return false;
+      if (query.createdFrom && app.createdAt < query.createdFrom) return false;
+      if (query.createdTo && app.createdAt > query.createdTo) return false;
+      if (query.minAmount !== undefined && parseFloat(app.requestedAmount) < query.minAmount) return false;
+      if (query.maxAmount !== undefined && parseFloat(app.requestedAmount) > query.maxAmount) return false;
+      if (query.state && app.property.state.toUpperCase() !== query.state.toUpperCase()) return false;
+      if (query.search) {
+        const words = [app.borrower.firstName, app.borrower.lastName, app.borrower.email, app.property.address, app.property.city]
+          .join(' ').toLowerCase().split(/\s+/);
+        const textMatch = terms.length > 0 && terms.every(term => words.some(word => word.startsWith(term)));
+        if (!textMatch && app.id !== applicationId) return false;
+      }
+      return true;
+    });
+
+    // Sort value then id, so rows with equal values keep a stable order across pages
+    const sign = query.direction === 'asc' ? 1 : -1;
+    const position = (app: LoanApplicationWithDetails, value: string, id: number) =>
+      sign * (compareLoanSortValues(query.sort, loanSortValue(app, query.sort), value) || app.id - id);
+    matches.sort((a, b) => position(a, loanSortValue(b, query.sort), b.id));
+
+    let start = 0;
+    if (query.cursor) {
+      const cursor = decodeLoanCursor(query.cursor, query.sort);
+      start = matches.findIndex(app => position(app, cursor.value, cursor.id) > 0);
+      if (start === -1) start = matches.length;
+    }
+    const items = matches.slice(start, start + query.limit);
+    const last = items[items.length - 1];
+    const nextCursor = last && start + query.limit < matches.length
+      ? encodeLoanCursor({ sort: query.sort, value: loanSortValue(last, query.sort), id: last.id })
+      : null;
+
+    return { items, nextCursor, total: matches.length };
   }
 
   async createLoanApplication(application: InsertLoanApplication): Promise<LoanApplication> {
@@ -321,7 +438,9 @@ export class MemStorage implements IStorage {
     const newApplication: LoanApplication = { 
       ...application, 
       id,
+      organizationId: tenantContext.getOrganizationId() ?? application.organizationId,
       status: application.status || 'application',
+      loanOfficerId: application.loanOfficerId ?? null,
       ltv: application.ltv || null,
       dscr: application.dscr || null,
       interestRate: application.interestRate || null,
@@ -332,6 +451,16 @@ export class MemStorage implements IStorage {
       exitStrategy: application.exitStrategy || null,
       experienceLevel: application.experienceLevel || null,
       notes: application.notes || null,
+      actionTaken: application.actionTaken || null,
+      actionTakenDate: application.actionTakenDate || null,
+      denialReasons: application.denialReasons || null,
+      rateSpread: application.rateSpread || null,
+      hoepaStatus: application.hoepaStatus || null,
+      censusTract: application.censusTract || null,
+      stage: application.stage || null,
+      initialIntakeData: application.initialIntakeData || null,
+      urlaData: application.urlaData || null,
+      paymentTerms: application.paymentTerms || null,
       createdAt: now,
       updatedAt: now
     };
@@ -339,32 +468,76 @@ export class MemStorage implements IStorage {
     return newApplication;
   }
 
+  // Rolls back whatever was created when a later step fails
+  async createLoanApplicationWithRelations(input: NewLoanApplication): Promise<LoanApplicationWithDetails> {
+    const borrower = await this.createBorrower(input.borrower);
+    const property = await this.createProperty(input.property);
+    let application: LoanApplication | undefined;
+    try {
+      application = await this.createLoanApplication({ ...input.application, borrowerId: borrower.id, propertyId: property.id });
+      for (const task of input.tasks || []) {
+        await this.createTask({ ...task, loanApplicationId: application.id });
+      }
+    } catch (error) {
+      if (application) {
+        const applicationId = application.id;
+        Array.from(this.tasks.values())
+          .filter(task => task.loanApplicationId === applicationId)
+          .forEach(task => this.tasks.delete(task.id));
+        this.loanApplications.delete(applicationId);
+      }
+      this.properties.delete(property.id);
+      this.borrowers.delete(borrower.id);
+      throw error;
+    }
+    return (await this.getLoanApplicationWithDetails(application.id))!;
+  }
+
   async updateLoanApplication(id: number, application: Partial<InsertLoanApplication>): Promise<LoanApplication | undefined> {
     const existing = this.loanApplications.get(id);
-    if (!existing) return undefined;
-    const updated = { ...existing, ...application, updatedAt: new Date() };
+    if (!existing || !this.loanVisible(id)) return undefined;
+    const updated = { ...existing, ...application, organizationId: existing.organizationId, updatedAt: new Date() };
     this.loanApplications.set(id, updated);
     return updated;
   }
 
-  async getLoanApplicationsByStatus(status: string): Promise<LoanApplication[]> {
-    return Array.from(this.loanApplications.values()).filter(app => app.status === status);
+  async changeLoanApplicationStatus(id: number, change: LoanStatusChange): Promise<LoanApplication | undefined> {
+    const { updates, ...entry } = change;
+    const updated = await this.updateLoanApplication(id, { ...updates, status: change.toStatus });
+    if (updated) {
+      this.loanStatusHistory.push({ ...entry, id: this.currentStatusHistoryId++, loanApplicationId: id, createdAt: new Date() });
+    }
+    return updated;
+  }
+
+  async getLoanStatusHistory(loanApplicationId: number): Promise<LoanStatusHistoryEntry[]> {
+    if (!this.loanVisible(loanApplicationId)) return [];
+    return this.loanStatusHistory
+      .filter(entry => entry.loanApplicationId === loanApplicationId)
+      .reverse();
   }
 
-  async getLoanApplicationsByBorrower(borrowerId: number): Promise<LoanApplication[]> {
-    return Array.from(this.loanApplications.values()).filter(app => app.borrowerId === borrowerId);
+  async getLoanApplicationsByStatus(status: string, options?: ListOptions): Promise<LoanApplication[]> {
+    return paginate(this.visibleLoanApplications().filter(app => app.status === status), options);
+  }
+
+  async getLoanApplicationsByBorrower(borrowerId: number, options?: ListOptions): Promise<LoanApplication[]> {
+    return paginate(this.visibleLoanApplications().filter(app => app.borrowerId === borrowerId), options);
   }
 
   // Documents
   async getDocument(id: number): Promise<Document | undefined> {
-    return this.documents.get(id);
+    const document = this.documents.get(id);
+    return document && this.loanVisible(document.loanApplicationId) ? document : undefined;
   }
 
-  async getDocumentsByLoanApplication(loanApplicationId: number): Promise<Document[]> {
-    return Array.from(this.documents.values()).filter(doc => doc.loanApplicationId === loanApplicationId);
+  async getDocumentsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Document[]> {
+    if (!this.loanVisible(loanApplicationId)) return [];
+    return paginate(Array.from(this.documents.values()).filter(doc => doc.loanApplicationId === loanApplicationId), options);
   }
 
   async createDocument(document: InsertDocument): Promise<Document> {
+    this.assertLoanVisible(document.loanApplicationId);
     const id = this.currentDocumentId++;
     const newDocument: Document = { 
       ...document, 
@@ -376,28 +549,34 @@ export class MemStorage implements IStorage {
   }
 
   async deleteDocument(id: number): Promise<boolean> {
+    if (!(await this.getDocument(id))) return false;
     return this.documents.delete(id);
   }
 
   // Tasks
   async getTask(id: number): Promise<Task | undefined> {
-    return this.tasks.get(id);
+    const task = this.tasks.get(id);
+    return task && this.loanVisible(task.loanApplicationId) ? task : undefined;
   }
 
-  async getTasksByLoanApplication(loanApplicationId: number): Promise<Task[]> {
-    return Array.from(this.tasks.values()).filter(task => task.loanApplicationId === loanApplicationId);
+  async getTasksByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Task[]> {
+    if (!this.loanVisible(loanApplicationId)) return [];
+    return paginate(Array.from(this.tasks.values()).filter(task => task.loanApplicationId === loanApplicationId), options);
   }
 
-  async getTasksByAssignee(assignedToId: number): Promise<Task[]> {
-    return Array.from(this.tasks.values()).filter(task => task.assignedToId === assignedToId);
+  async getTasksByAssignee(assignedToId: number, options?: ListOptions): Promise<Task[]> {
+    return paginate(Array.from(this.tasks.values())
+      .filter(task => task.assignedToId === assignedToId && this.loanVisible(task.loanApplicationId)), options);
   }
 
   async createTask(task: InsertTask): Promise<Task> {
+    this.assertLoanVisible(task.loanApplicationId);
     const id = this.currentTaskId++;
     const newTask: Task = { 
       ...task, 
       id,
       status: task.status || 'pending',
+      assignedToId: task.assignedToId ?? null,
       description: task.description || null,
       priority: task.priority || 'medium',
       dueDate: task.dueDate || null,
@@ -408,75 +587,50 @@ export class MemStorage implements IStorage {
   }
 
   async updateTask(id: number, task: Partial<InsertTask>): Promise<Task | undefined> {
-    const existing = this.tasks.get(id);
+    const existing = await this.getTask(id);
     if (!existing) return undefined;
-    const updated = { ...existing, ...task };
+    const updated = { ...existing, ...task, loanApplicationId: existing.loanApplicationId };
     this.tasks.set(id, updated);
     return updated;
   }
 
   // Dashboard stats
-  async getDashboardStats(): Promise<{
-    activeApplications: number;
-    pendingReview: number;
-    approvedThisMonth: number;
-    totalFunded: string;
-    pipelineStats: Record<string, number>;
-  }> {
-    const applications = Array.from(this.loanApplications.values());
-    const currentMonth = new Date().getMonth();
-    const currentYear = new Date().getFullYear();
-
-    const activeApplications = applications.filter(app => 
-      ['application', 'document_review', 'underwriting'].includes(app.status)
-    ).length;
-
-    const pendingReview = applications.filter(app => app.status === 'document_review').length;
-
-    const approvedThisMonth = applications.filter(app => {
-      if (app.status !== 'approved') return false;
-      const createdDate = new Date(app.createdAt);
-      return createdDate.getMonth() === currentMonth && createdDate.getFullYear() === currentYear;
-    }).length;
-
-    const approvedApps = applications.filter(app => app.status === 'approved');
-    const totalFunded = approvedApps.reduce((sum, app) => {
-      return sum + parseFloat(app.requestedAmount || '0');
-    }, 0);
-
-    const pipelineStats = {
-      application: applications.filter(app => app.status === 'application').length,
-      document_review: applications.filter(app => app.status === 'document_review').length,
-      underwriting: applications.filter(app => app.status === 'underwriting').length,
-      approved: applications.filter(app => app.status === 'approved').length,
-      declined: applications.filter(app => app.status === 'declined').length,
-    };
-
-    return {
-      activeApplications,
-      pendingReview,
-      approvedThisMonth,
-      totalFunded: `$${(totalFunded / 1000000).toFixed(1)}M`,
-      pipelineStats
-    };
+  async getDashboardStats(): Promise<DashboardStats> {
+    return buildDashboardStats(this.visibleLoanApplications());
   }
 
   // Notifications
   async getNotification(id: number): Promise<Notification | undefined> {
-    return this.notifications.get(id);
+    const notification = this.notifications.get(id);
+    return notification && this.loanVisible(notification.loanApplicationId) ? notification : undefined;
   }
 
-  async getNotificationsByLoanApplication(loanApplicationId: number): Promise<Notification[]> {
-    return Array.from(this.notifications.values()).filter(notif => notif.loanApplicationId === loanApplicationId);
+  async getNotificationsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<Notification[]> {
+    if (!this.loanVisible(loanApplicationId)) return [];
+    return paginate(Array.from(this.notifications.values()).filter(notif => notif.loanApplicationId === loanApplicationId), options);
+  }
+
+  // Newest first across every loan in the organization
+  async getRecentNotifications(options?: ListOptions): Promise<Notification[]> {
+    const visible = Array.from(this.notifications.values())
+      .filter(notification => this.loanVisible(notification.loanApplicationId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return paginate(visible, options);
   }
 
   async createNotification(notification: InsertNotification): Promise<Notification> {
+    this.assertLoanVisible(notification.loanApplicationId);
     const id = this.currentNotificationId++;
     const newNotification: Notification = {
       ...notification,
       id,
       status: notification.status || 'pending',
       subject: notification.subject || null,
+      attempts: 0,
+      nextAttemptAt: null,
+      provider: null,
+      providerMessageId: null,
+      lastError: null,
       sentAt: null,
       createdAt: new Date()
     };
@@ -485,24 +639,30 @@ export class MemStorage implements IStorage {
   }
 
   async updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined> {
-    const existing = this.notifications.get(id);
+    const existing = await this.getNotification(id);
     if (!existing) return undefined;
-    const updated = { ...existing, ...notification };
+    const updated = { ...existing, ...notification, loanApplicationId: existing.loanApplicationId };
     this.notifications.set(id, updated);
     return updated;
   }
 
-  // Templates
+  // Templates; shared templates (no organization) are readable by everyone but only changed outside a tenant scope
+  private templateVisible(template: Template): boolean {
+    return template.organizationId === null || tenantContext.isVisible(template.organizationId);
+  }
+
   async getTemplate(id: number): Promise<Template | undefined> {
-    return this.templates.get(id);
+    const template = this.templates.get(id);
+    return template && this.templateVisible(template) ? template : undefined;
   }
 
-  async getAllTemplates(): Promise<Template[]> {
-    return Array.from(this.templates.values());
+  async getAllTemplates(options?: ListOptions): Promise<Template[]> {
+    return paginate(Array.from(this.templates.values()).filter(template => this.templateVisible(template)), options);
   }
 
-  async getTemplatesByType(type: string): Promise<Template[]> {
-    return Array.from(this.templates.values()).filter(template => template.type === type);
+  async getTemplatesByType(type: string, options?: ListOptions): Promise<Template[]> {
+    return paginate(Array.from(this.templates.values())
+      .filter(template => template.type === type && this.templateVisible(template)), options);
   }
 
   async createTemplate(template: InsertTemplate): Promise<Template> {
@@ -510,6 +670,7 @@ export class MemStorage implements IStorage {
     const newTemplate: Template = {
       ...template,
       id,
+      organizationId: tenantContext.getOrganizationId() ?? null,
       subject: template.subject || null,
       isActive: template.isActive !== undefined ? template.isActive : true,
       createdAt: new Date()
@@ -520,26 +681,30 @@ export class MemStorage implements IStorage {
 
   async updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template | undefined> {
     const existing = this.templates.get(id);
-    if (!existing) return undefined;
-    const updated = { ...existing, ...template };
+    if (!existing || !tenantContext.isVisible(existing.organizationId)) return undefined;
+    const updated = { ...existing, ...template, organizationId: existing.organizationId };
     this.templates.set(id, updated);
     return updated;
   }
 
   // Call Logs
   async getCallLog(id: number): Promise<CallLog | undefined> {
-    return this.callLogs.get(id);
+    const callLog = this.callLogs.get(id);
+    return callLog && this.loanVisible(callLog.loanApplicationId) ? callLog : undefined;
   }
 
-  async getCallLogsByLoanApplication(loanApplicationId: number): Promise<CallLog[]> {
-    return Array.from(this.callLogs.values()).filter(call => call.loanApplicationId === loanApplicationId);
+  async getCallLogsByLoanApplication(loanApplicationId: number, options?: ListOptions): Promise<CallLog[]> {
+    if (!this.loanVisible(loanApplicationId)) return [];
+    return paginate(Array.from(this.callLogs.values()).filter(call => call.loanApplicationId === loanApplicationId), options);
   }
 
-  async getCallLogsByBorrower(borrowerId: number): Promise<CallLog[]> {
-    return Array.from(this.callLogs.values()).filter(call => call.borrowerId === borrowerId);
+  async getCallLogsByBorrower(borrowerId: number, options?: ListOptions): Promise<CallLog[]> {
+    if (!this.borrowerVisible(borrowerId)) return [];
+    return paginate(Array.from(this.callLogs.values()).filter(call => call.borrowerId === borrowerId), options);
   }
 
   async createCallLog(callLog: InsertCallLog): Promise<CallLog> {
+    this.assertLoanVisible(callLog.loanApplicationId);
     const id = this.currentCallLogId++;
     const newCallLog: CallLog = {
       ...callLog,
@@ -555,7 +720,7 @@ export class MemStorage implements IStorage {
 
   // Document Requirements
   async getDocumentRequirements(loanType: string): Promise<any[]> {
-    return this.documentRequirements.get(loanType) || this.getDefaultDocumentRequirements(loanType);
+    return this.documentRequirements.get(loanType) || defaultDocumentRequirements(loanType);
   }
 
   async createDocumentRequirement(requirement: any): Promise<any> {
@@ -566,38 +731,14 @@ export class MemStorage implements IStorage {
     return requirement;
   }
 
-  private getDefaultDocumentRequirements(loanType: string): any[] {
-    const common = [
-      { id: 1, loanType, category: 'income_verification', documentName: 'Tax Returns (2 years)', description: 'Personal and business tax returns for the last 2 years', isRequired: true, sortOrder: 1 },
-      { id: 2, loanType, category: 'bank_statements', documentName: 'Bank Statements (3 months)', description: 'Recent bank statements showing cash reserves', isRequired: true, sortOrder: 2 },
-      { id: 3, loanType, category: 'insurance', documentName: 'Property Insurance', description: 'Proof of property insurance coverage', isRequired: true, sortOrder: 3 },
-      { id: 4, loanType, category: 'property_docs', documentName: 'Purchase Agreement', description: 'Signed purchase agreement or property deed', isRequired: true, sortOrder: 4 }
-    ];
-
-    const specific: Record<string, any[]> = {
-      'dscr': [
-        { id: 5, loanType, category: 'rental_income', documentName: 'Rent Roll', description: 'Current rent roll showing rental income', isRequired: true, sortOrder: 5 },
-        { id: 6, loanType, category: 'rental_income', documentName: 'Lease Agreements', description: 'Current tenant lease agreements', isRequired: true, sortOrder: 6 }
-      ],
-      'fix_flip': [
-        { id: 5, loanType, category: 'construction', documentName: 'Rehab Budget', description: 'Detailed renovation budget and timeline', isRequired: true, sortOrder: 5 },
-        { id: 6, loanType, category: 'construction', documentName: 'Contractor Estimates', description: 'Licensed contractor estimates', isRequired: true, sortOrder: 6 }
-      ],
-      'construction': [
-        { id: 5, loanType, category: 'construction', documentName: 'Building Plans', description: 'Architectural plans and permits', isRequired: true, sortOrder: 5 },
-        { id: 6, loanType, category: 'construction', documentName: 'Construction Budget', description: 'Detailed construction budget', isRequired: true, sortOrder: 6 }
-      ]
-    };
-
-    return [...common, ...(specific[loanType] || [])];
-  }
-
   // Document Reminders
   async getDocumentReminders(loanApplicationId: number): Promise<any[]> {
+    if (!this.loanVisible(loanApplicationId)) return [];
     return Array.from(this.documentReminders.values()).filter(reminder => reminder.loanApplicationId === loanApplicationId);
   }
 
   async createDocumentReminder(reminder: any): Promise<any> {
+    this.assertLoanVisible(reminder.loanApplicationId);
     const id = this.currentDocumentReminderId++;
     const newReminder = { ...reminder, id, createdAt: new Date() };
     this.documentReminders.set(id, newReminder);
@@ -606,7 +747,7 @@ export class MemStorage implements IStorage {
 
   async updateDocumentReminder(id: number, reminder: any): Promise<any> {
     const existing = this.documentReminders.get(id);
-    if (!existing) return undefined;
+    if (!existing || !this.loanVisible(existing.loanApplicationId)) return undefined;
     const updated = { ...existing, ...reminder };
     this.documentReminders.set(id, updated);
     return updated;
@@ -614,10 +755,14 @@ export class MemStorage implements IStorage {
 
   // Bank Accounts
   async getBankAccounts(borrowerId: number): Promise<any[]> {
+    if (!this.borrowerVisible(borrowerId)) return [];
     return this.bankAccounts.get(borrowerId) || [];
   }
 
   async createBankAccount(account: any): Promise<any> {
+    if (!this.borrowerVisible(account.borrowerId)) {
+      throw new TenantError(`Borrower ${account.borrowerId} not found`);
+    }
     const id = this.currentBankAccountId++;
     const newAccount = { ...account, id, createdAt: new Date() };
     const borrowerAccounts = this.bankAccounts.get(account.borrowerId) || [];
@@ -629,6 +774,7 @@ export class MemStorage implements IStorage {
   async updateBankAccount(id: number, account: any): Promise<any> {
     const bankAccountEntries = Array.from(this.bankAccounts.entries());
     for (const [borrowerId, accounts] of bankAccountEntries) {
+      if (!this.borrowerVisible(borrowerId)) continue;
       const index = accounts.findIndex((acc: any) => acc.id === id);
       if (index !== -1) {
         accounts[index] = { ...accounts[index], ...account };
@@ -650,7 +796,7 @@ export class MemStorage implements IStorage {
 
   async updateLoanApplicationStage(id: number, stage: string, data?: any): Promise<any> {
     const existing = this.loanApplications.get(id);
-    if (!existing) return undefined;
+    if (!existing || !this.loanVisible(id)) return undefined;
     
     const updated = { 
       ...existing, 
@@ -664,7 +810,7 @@ export class MemStorage implements IStorage {
   }
 
   // Contacts methods
-  async getAllContacts(): Promise<any[]> {
+  async getAllContacts(options?: ListOptions): Promise<any[]> {
     return [];
   }
 
@@ -685,4 +831,5 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// Postgres-backed by default; STORAGE_DRIVER=memory keeps everything in process for local experiments
+export const storage: IStorage = process.env.STORAGE_DRIVER === 'memory' ? new MemStorage() : databaseStorage;
@@ -0,0 +1,123 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; parsing and rendering against a context never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { templateEngine, TemplateValidationError } = await import("./template-engine");
+
+type MergeContext = import("./template-engine").MergeContext;
+type TemplateBranding = import("./template-engine").TemplateBranding;
+
+const context: MergeContext = {
+  borrower: { firstName: 'Dana', lastName: 'Reyes', fullName: 'Dana Reyes' },
+  loan: { number: 'LA-42', amount: '245000.00', interestRate: '11.000', dscr: null, createdAt: new Date(2026, 1, 2) },
+  loanOfficer: { fullName: 'Pat Lee', phone: '' },
+  documents: {
+    missing: [
+      { name: 'Bank statements', category: 'assets', description: 'Last two months' },
+      { name: 'Purchase contract', category: 'property', description: '' },
+    ],
+    missingCount: 2,
+  },
+};
+
+const branding: TemplateBranding = {
+  name: 'Loan Daddy Lending',
+  logo: null,
+  primaryColor: '#0f766e',
+  website: 'loandaddy.example',
+  nmls: '123456',
+  footer: null,
+  baseUrl: 'https://loans.loandaddy.example',
+};
+
+const render = (source: string, emptyFields?: Set<string>) => templateEngine.render(source, context, emptyFields);
+const messages = (content: string, subject?: string) =>
+  templateEngine.validate({ type: 'email', subject: subject ?? 'Your loan', content }).map(issue => [issue.part, issue.line, issue.message]);
+
+describe("merge fields", () => {
+  test("formats currency, percent and date fields by their catalog type", () => {
+    assert.equal(
+      render('{{borrower.firstName}}, {{loan.number}} for {{loan.amount}} at {{loan.interestRate}} opened {{loan.createdAt}}'),
+      'Dana, LA-42 for $245,000 at 11% opened February 2, 2026'
+    );
+  });
+
+  test("renders empty values as nothing and reports which fields were empty", () => {
+    const emptyFields = new Set<string>();
+    assert.equal(render('Call {{loanOfficer.fullName}} at {{loanOfficer.phone}}.', emptyFields), 'Call Pat Lee at .');
+    assert.deepEqual([...emptyFields], ['loanOfficer.phone']);
+  });
+
+  test("maps legacy single-brace placeholders onto the catalog and leaves unknown ones as written", () => {
+    assert.equal(render('Hi {firstName}, your {rate} quote. {unknownThing}'), 'Hi Dana, your 11% quote. {unknownThing}');
+  });
+});
+
+describe("blocks", () => {
+  test("shows {{#if}} and {{#unless}} branches by whether the field has a non-zero value", () => {
+    assert.equal(render('{{#if loan.dscr}}DSCR {{loan.dscr}}{{else}}No DSCR yet{{/if}}'), 'No DSCR yet');
+    assert.equal(render('{{#unless documents.missingCount}}All set{{else}}{{documents.missingCount}} to go{{/unless}}'), '2 to go');
+  });
+
+  test("loops over list items, where bare names refer to the item, and drops standalone block lines", () => {
+    const source = [
+      'Still needed:',
+      '{{#each documents.missing}}',
+      '- {{name}}{{#if description}} ({{description}}){{/if}} for {{borrower.firstName}}',
+      '{{/each}}',
+      'Thanks',
+    ].join('\n');
+    assert.equal(render(source), 'Still needed:\n- Bank statements (Last two months) for Dana\n- Purchase contract for Dana\nThanks');
+  });
+
+  test("renders the {{else}} branch of an empty loop", () => {
+    const source = '{{#each documents.missing}}{{name}}{{else}}Nothing missing{{/each}}';
+    assert.equal(templateEngine.render(source, { ...context, documents: { missing: [] } }), 'Nothing missing');
+  });
+
+  test("throws on unbalanced blocks and stray braces", () => {
+    assert.throws(() => render('{{#if loan.dscr}}open'), TemplateValidationError);
+    assert.throws(() => render('{{#if loan.dscr}}x{{/each}}'), /closes \{\{#if\}\} opened on line 1/);
+    assert.throws(() => render('Hi {{borrower.firstName}'), /Malformed tag/);
+  });
+});
+
+describe("validation", () => {
+  test("accepts a template that only uses catalog fields", () => {
+    assert.deepEqual(messages('Hi {{borrower.firstName}}\n{{#each documents.missing}}{{name}}\n{{/each}}'), []);
+  });
+
+  test("reports unknown fields, lists used as fields and loops over non-lists with their lines", () => {
+    assert.deepEqual(messages('Hi {{borrower.nickname}}\n{{documents.missing}}\n{{#each loan.amount}}{{/each}}\n{bogus}'), [
+      ['content', 1, 'Unknown merge field {{borrower.nickname}}'],
+      ['content', 2, '{{documents.missing}} is a list; use {{#each documents.missing}}'],
+      ['content', 3, '{{#each}} needs a list field; loan.amount is currency'],
+      ['content', 4, 'Unknown placeholder {bogus}; merge fields look like {{borrower.firstName}}'],
+    ]);
+  });
+
+  test("requires an email subject and checks its fields too", () => {
+    assert.deepEqual(messages('Hello', ' '), [['subject', 1, 'Email templates need a subject']]);
+    assert.deepEqual(messages('Hello', 'About {{loan.nickname}}'), [['subject', 1, 'Unknown merge field {{loan.nickname}}']]);
+    assert.deepEqual(templateEngine.validate({ type: 'sms', content: 'Hi {{borrower.firstName}}' }), []);
+  });
+
+  test("collects syntax problems alongside the other issues instead of throwing", () => {
+    assert.deepEqual(messages('{{else}}\n{{#if}}'), [
+      ['content', 1, '{{else}} outside an {{#if}}, {{#unless}} or {{#each}} block'],
+      ['content', 2, '{{#if}} needs a field, e.g. {{#if loan.interestRate}}'],
+      ['content', 2, '{{#if }} is never closed with {{/if}}'],
+    ]);
+  });
+});
+
+describe("branded email layout", () => {
+  test("escapes the message, links URLs in the brand color and signs off with the company details", () => {
+    const html = templateEngine.renderEmailHtml('Hi <Dana>,\n\nSign in at https://loans.loandaddy.example/customer-portal', branding);
+    assert.match(html, /Hi &lt;Dana&gt;,/);
+    assert.match(html, /<a href="https:\/\/loans\.loandaddy\.example\/customer-portal" style="color: #0f766e;">/);
+    assert.equal(html.match(/<p /g)?.length, 2);
+    assert.match(html, /Loan Daddy Lending &middot; NMLS #123456 &middot; loandaddy\.example/);
+  });
+});
@@ -0,0 +1,481 @@
+// Template Engine
+// Parses, validates and renders email and SMS templates with merge fields, conditionals and loops against a loan
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { organizations, loanPortalSessions, type LoanApplicationWithDetails, type Template } from "@shared/schema";
+import {
+  LEGACY_TEMPLATE_FIELDS,
+  getTemplateField,
+  type TemplateFieldDefinition,
+  type TemplateFieldType,
+} from "@shared/template-fields";
+import { getLoanStatusDefinition } from "@shared/loan-status";
+import { and, desc, eq, gt } from "drizzle-orm";
+
+export interface TemplateIssue {
+  part: 'subject' | 'content';
+  line: number;
+  message: string;
+}
+
+export class TemplateValidationError extends Error {
+  constructor(public issues: TemplateIssue[]) {
+    super(issues.map(issue => `${issue.part} line ${issue.line}: ${issue.message}`).join('; '));
+    this.name = 'TemplateValidationError';
+  }
+}
+
+export interface TemplateBranding {
+  name: string;
+  logo: string | null;
+  primaryColor: string;
+  website: string | null;
+  nmls: string | null;
+  footer: string | null; // organizations.settings.emailFooter
+  baseUrl: string; // custom domain when the organization has one
+}
+
+export interface RenderedTemplate {
+  subject: string | null;
+  text: string;
+  html: string | null; // branded email body; null for SMS
+  segments: number | null; // SMS only: 160-character message parts
+  emptyFields: string[]; // fields the template uses that have no value for this loan
+}
+
+export type TemplateSource = Pick<Template, 'type' | 'content'> & { subject?: string | null };
+
+// Nested values keyed like the field catalog: context.borrower.firstName for {{borrower.firstName}}
+export type MergeContext = Record<string, Record<string, any>>;
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; path: string; line: number; legacy?: string }
+  | { kind: 'block'; type: 'if' | 'unless' | 'each'; path: string; line: number; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: 'block' }>;
+
+// {{field}}, {{#if field}}, {{else}}, {{/if}} and the legacy {field} form
+const TAG_PATTERN = /\{\{\s*(?:(#if|#unless|#each|\/if|\/unless|\/each|else)\b)?\s*([\w.]*)\s*\}\}|\{(\w+)\}/g;
+const SMS_SEGMENT_LENGTH = 160;
+const DEFAULT_BRAND_NAME = 'LoanGenius';
+const DEFAULT_PRIMARY_COLOR = '#4f46e5';
+
+const LOAN_TYPE_LABELS: Record<string, string> = {
+  dscr: 'DSCR',
+  'fix-n-flip': 'Fix and Flip',
+  fix_flip: 'Fix and Flip',
+  'hard-money': 'Hard Money',
+  'commercial-real-estate': 'Commercial Real Estate',
+  'private-money': 'Private Money',
+  bridge: 'Bridge',
+  construction: 'Construction',
+  multifamily: 'Multifamily',
+};
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+function formatValue(value: unknown, type: TemplateFieldType): string {
+  if (value === null || value === undefined || value === '') return '';
+  const number = Number(value);
+  switch (type) {
+    case 'currency':
+      return `$${number.toLocaleString('en-US', { minimumFractionDigits: number % 1 === 0 ? 0 : 2, maximumFractionDigits: 2 })}`;
+    case 'percent':
+      return `${number.toLocaleString('en-US', { maximumFractionDigits: 3 })}%`;
+    case 'number':
+      return number.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    case 'date':
+      return new Date(value as string | Date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class TemplateEngine {
+  private static instance: TemplateEngine;
+
+  public static getInstance(): TemplateEngine {
+    if (!TemplateEngine.instance) {
+      TemplateEngine.instance = new TemplateEngine();
+    }
+    return TemplateEngine.instance;
+  }
+
+  // Syntax
+
+  // Throws TemplateValidationError for malformed tags and unbalanced blocks
+  parse(source: string, part: TemplateIssue['part'] = 'content'): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ block: BlockNode; inElse: boolean }> = [];
+    const issues: TemplateIssue[] = [];
+    const current = () => {
+      const top = stack[stack.length - 1];
+      return top ? (top.inElse ? top.block.otherwise : top.block.body) : root;
+    };
+    const pushText = (value: string, index: number) => {
+      if (!value) return;
+      const stray = value.search(/\{\{|\}\}/);
+      if (stray !== -1) {
+        issues.push({ part, line: lineAt(source, index + stray), message: 'Malformed tag; merge fields look like {{borrower.firstName}}' });
+      }
+      current().push({ kind: 'text', value });
+    };
+
+    const pattern = new RegExp(TAG_PATTERN.source, 'g');
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+      const [raw, keyword, path, legacy] = match;
+      const line = lineAt(source, match.index);
+
+      // A block tag alone on its line takes the whole line with it, so loops and conditionals add no blank lines
+      const lineStart = source.lastIndexOf('\n', match.index - 1) + 1;
+      const lineEnd = source.indexOf('\n', match.index + raw.length);
+      const standalone = !!keyword
+        && /^[ \t]*$/.test(source.slice(lineStart, match.index))
+        && /^[ \t\r]*$/.test(source.slice(match.index + raw.length, lineEnd === -1 ? source.length : lineEnd));
+
+      pushText(source.slice(lastIndex, standalone ? lineStart : match.index), lastIndex);
+      lastIndex = match.index + raw.length;
+      if (standalone) {
+        lastIndex = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+
+      if (legacy) {
+        current().push({ kind: 'field', path: LEGACY_TEMPLATE_FIELDS[legacy] || legacy, line, legacy: raw });
+      } else if (!keyword) {
+        if (!path) {
+          issues.push({ part, line, message: 'Empty merge field {{}}' });
+        } else {
+          current().push({ kind: 'field', path, line });
+        }
+      } else if (keyword.startsWith('#')) {
+        if (!path) {
+          issues.push({ part, line, message: `{{${keyword}}} needs a field, e.g. {{${keyword} loan.interestRate}}` });
+        }
+        const block: BlockNode = { kind: 'block', type: keyword.slice(1) as BlockNode['type'], path, line, body: [], otherwise: [] };
+        current().push(block);
+        stack.push({ block, inElse: false });
+      } else if (keyword === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          issues.push({ part, line, message: '{{else}} outside an {{#if}}, {{#unless}} or {{#each}} block' });
+        } else {
+          top.inElse = true;
+        }
+      } else {
+        const type = keyword.slice(1);
+        const top = stack.pop();
+        if (!top) {
+          issues.push({ part, line, message: `{{${keyword}}} has no matching {{#${type}}}` });
+        } else if (top.block.type !== type) {
+          issues.push({ part, line, message: `{{${keyword}}} closes {{#${top.block.type}}} opened on line ${top.block.line}` });
+        }
+      }
+    }
+    pushText(source.slice(lastIndex), lastIndex);
+
+    stack.forEach(({ block }) => {
+      issues.push({ part, line: block.line, message: `{{#${block.type} ${block.path}}} is never closed with {{/${block.type}}}` });
+    });
+    if (issues.length > 0) {
+      throw new TemplateValidationError(issues);
+    }
+    return root;
+  }
+
+  // Syntax and merge field problems, checked against the field catalog when a template is saved
+  validate(template: TemplateSource): TemplateIssue[] {
+    const issues: TemplateIssue[] = [];
+    if (template.type !== 'email' && template.type !== 'sms') {
+      issues.push({ part: 'content', line: 1, message: `Unsupported template type: ${template.type}` });
+    }
+    if (template.type === 'email' && !template.subject?.trim()) {
+      issues.push({ part: 'subject', line: 1, message: 'Email templates need a subject' });
+    }
+
+    const parts: Array<[TemplateIssue['part'], string | null | undefined]> = [['subject', template.subject], ['content', template.content]];
+    parts.forEach(([part, source]) => {
+      if (!source) return;
+      try {
+        this.checkFields(this.parse(source, part), part, null, issues);
+      } catch (error) {
+        if (!(error instanceof TemplateValidationError)) throw error;
+        issues.push(...error.issues);
+      }
+    });
+    return issues;
+  }
+
+  // Rendering
+
+  // Unknown fields render empty and unknown legacy placeholders are left as written
+  render(source: string, context: MergeContext, emptyFields: Set<string> = new Set()): string {
+    return this.renderNodes(this.parse(source), context, null, emptyFields);
+  }
+
+  async renderTemplate(template: TemplateSource, loan: LoanApplicationWithDetails): Promise<RenderedTemplate> {
+    const context = await this.buildContext(loan);
+    const emptyFields = new Set<string>();
+    const subject = template.type === 'email' && template.subject ? this.render(template.subject, context, emptyFields).trim() : null;
+    const text = this.render(template.content, context, emptyFields).trim();
+    const html = template.type === 'email'
+      ? this.renderEmailHtml(text, await this.getBranding(loan.organizationId))
+      : null;
+
+    return {
+      subject,
+      text,
+      html,
+      segments: template.type === 'sms' ? Math.max(1, Math.ceil(text.length / SMS_SEGMENT_LENGTH)) : null,
+      emptyFields: Array.from(emptyFields)
+    };
+  }
+
+  // Renders against a loan the caller can see; undefined when the loan is not found
+  async preview(template: TemplateSource, loanApplicationId: number): Promise<RenderedTemplate | undefined> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) return undefined;
+    return this.renderTemplate(template, loan);
+  }
+
+  async buildContext(loan: LoanApplicationWithDetails): Promise<MergeContext> {
+    const [loanOfficer, requirements, branding, portalToken] = await Promise.all([
+      loan.loanOfficerId ? storage.getUser(loan.loanOfficerId) : undefined,
+      storage.getDocumentRequirements(loan.loanType),
+      this.getBranding(loan.organizationId),
+      this.getPortalToken(loan.id)
+    ]);
+
+    const uploadedCategories = new Set(loan.documents.map(doc => doc.category));
+    const missing = requirements
+      .filter(requirement => requirement.isRequired && !uploadedCategories.has(requirement.category))
+      .map(requirement => ({
+        name: requirement.displayName || requirement.documentName,
+        category: requirement.category,
+        description: requirement.description || ''
+      }));
+    const { borrower, property } = loan;
+
+    return {
+      borrower: {
+        firstName: borrower.firstName,
+        lastName: borrower.lastName,
+        fullName: `${borrower.firstName} ${borrower.lastName}`.trim(),
+        email: borrower.email,
+        phone: borrower.phone,
+        company: borrower.company
+      },
+      property: {
+        address: property.address,
+        city: property.city,
+        state: property.state,
+        zipCode: property.zipCode,
+        fullAddress: `${property.address}, ${property.city}, ${property.state} ${property.zipCode}`,
+        type: property.propertyType,
+        value: property.propertyValue,
+        purchasePrice: property.purchasePrice
+      },
+      loan: {
+        id: String(loan.id),
+        number: `LA-${loan.id}`,
+        type: LOAN_TYPE_LABELS[loan.loanType] || loan.loanType,
+        amount: loan.requestedAmount,
+        status: getLoanStatusDefinition(loan.status)?.label || loan.status,
+        interestRate: loan.interestRate,
+        termMonths: loan.termMonths,
+        ltv: loan.ltv,
+        dscr: loan.dscr,
+        purpose: loan.loanPurpose,
+        createdAt: loan.createdAt
+      },
+      loanOfficer: {
+        fullName: loanOfficer ? `${loanOfficer.firstName} ${loanOfficer.lastName}`.trim() : '',
+        firstName: loanOfficer?.firstName,
+        email: loanOfficer?.email,
+        phone: loanOfficer?.phone,
+        nmlsId: loanOfficer?.nmlsId
+      },
+      portal: {
+        link: `${branding.baseUrl}/customer-portal${portalToken ? `?token=${portalToken}` : ''}`
+      },
+      documents: {
+        missing,
+        missingCount: missing.length
+      },
+      organization: {
+        name: branding.name,
+        website: branding.website,
+        nmls: branding.nmls
+      }
+    };
+  }
+
+  // Branding
+
+  async getBranding(organizationId: number | null | undefined): Promise<TemplateBranding> {
+    const [organization] = organizationId
+      ? await db.select().from(organizations).where(eq(organizations.id, organizationId))
+      : [];
+    const settings = (organization?.settings || {}) as { emailFooter?: string };
+
+    return {
+      name: organization?.name || DEFAULT_BRAND_NAME,
+      logo: organization?.logo || null,
+      primaryColor: organization?.primaryColor || DEFAULT_PRIMARY_COLOR,
+      website: organization?.website || null,
+      nmls: organization?.nmls || null,
+      footer: settings.emailFooter || null,
+      baseUrl: organization?.customDomain
+        ? `https://${organization.customDomain}`
+        : process.env.APP_URL || 'http://localhost:5000'
+    };
+  }
+
+  // Plain text message in the organization's email layout; links become clickable
+  renderEmailHtml(text: string, branding: TemplateBranding): string {
+    const paragraphs = text
+      .split(/\r?\n\s*\r?\n/)
+      .map(paragraph => escapeHtml(paragraph.trim())
+        .replace(/https?:\/\/[^\s<]+/g, url => `<a href="${url}" style="color: ${branding.primaryColor};">${url}</a>`)
+        .replace(/\r?\n/g, '<br>'))
+      .filter(Boolean)
+      .map(paragraph => `<p style="margin: 0 0 16px;">${paragraph}</p>`)
+      .join('\n');
+    const header = branding.logo
+      ? `<img src="${escapeHtml(branding.logo)}" alt="${escapeHtml(branding.name)}" style="max-height: 48px;">`
+      : `<span style="font-size: 20px; font-weight: bold; color: #ffffff;">${escapeHtml(branding.name)}</span>`;
+    const footer = [
+      branding.footer ? escapeHtml(branding.footer) : escapeHtml(branding.name),
+      branding.nmls ? `NMLS #${escapeHtml(branding.nmls)}` : null,
+      branding.website ? escapeHtml(branding.website) : null
+    ].filter(Boolean).join(' &middot; ');
+
+    return `<div style="font-family: Arial, sans-serif; line-height: 1.5; color: #1f2937; max-width: 600px; margin: 0 auto;">
+<div style="background: ${branding.primaryColor}; padding: 16px 24px;">${header}</div>
+<div style="padding: 24px;">
+${paragraphs}
+</div>
+<div style="padding: 16px 24px; font-size: 12px; color: #6b7280; border-top: 1px solid #e5e7eb;">${footer}</div>
+</div>`;
+  }
+
+  private async getPortalToken(loanApplicationId: number): Promise<string | null> {
+    const [session] = await db
+      .select({ sessionToken: loanPortalSessions.sessionToken })
+      .from(loanPortalSessions)
+      .where(and(
+        eq(loanPortalSessions.loanApplicationId, loanApplicationId),
+        eq(loanPortalSessions.isActive, true),
+        gt(loanPortalSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(loanPortalSessions.expiresAt))
+      .limit(1);
+    return session?.sessionToken || null;
+  }
+
+  // itemFields is set inside {{#each}}, where bare names refer to the current item
+  private checkFields(
+    nodes: TemplateNode[],
+    part: TemplateIssue['part'],
+    itemFields: TemplateFieldDefinition[] | null,
+    issues: TemplateIssue[]
+  ): void {
+    nodes.forEach(node => {
+      if (node.kind === 'text') return;
+
+      const field = this.resolveField(node.path, itemFields);
+      if (node.kind === 'field') {
+        if (!field) {
+          issues.push({
+            part,
+            line: node.line,
+            message: node.legacy
+              ? `Unknown placeholder ${node.legacy}; merge fields look like {{borrower.firstName}}`
+              : `Unknown merge field {{${node.path}}}`
+          });
+        } else if (field.type === 'list') {
+          issues.push({ part, line: node.line, message: `{{${node.path}}} is a list; use {{#each ${node.path}}}` });
+        }
+        return;
+      }
+
+      if (node.path && !field) {
+        issues.push({ part, line: node.line, message: `Unknown merge field {{#${node.type} ${node.path}}}` });
+      }
+      if (node.type === 'each') {
+        if (field && field.type !== 'list') {
+          issues.push({ part, line: node.line, message: `{{#each}} needs a list field; ${node.path} is ${field.type}` });
+        }
+        this.checkFields(node.body, part, field?.itemFields || [], issues);
+      } else {
+        this.checkFields(node.body, part, itemFields, issues);
+      }
+      this.checkFields(node.otherwise, part, itemFields, issues);
+    });
+  }
+
+  private resolveField(path: string, itemFields: TemplateFieldDefinition[] | null): TemplateFieldDefinition | undefined {
+    return itemFields?.find(field => field.key === path) || getTemplateField(path);
+  }
+
+  private resolveValue(path: string, context: MergeContext, item: Record<string, any> | null): unknown {
+    if (item && path in item) return item[path];
+    const [group, key] = path.split('.');
+    return key ? context[group]?.[key] : undefined;
+  }
+
+  private renderNodes(
+    nodes: TemplateNode[],
+    context: MergeContext,
+    item: { value: Record<string, any>; fields: TemplateFieldDefinition[] } | null,
+    emptyFields: Set<string>
+  ): string {
+    return nodes.map(node => {
+      if (node.kind === 'text') return node.value;
+
+      const value = this.resolveValue(node.path, context, item?.value || null);
+      const field = this.resolveField(node.path, item?.fields || null);
+      if (node.kind === 'field') {
+        if (node.legacy && !field) return node.legacy;
+        if (isEmpty(value)) {
+          emptyFields.add(node.path);
+          return '';
+        }
+        return formatValue(value, field?.type || 'text');
+      }
+
+      if (node.type === 'each') {
+        const items = Array.isArray(value) ? value : [];
+        if (items.length === 0) return this.renderNodes(node.otherwise, context, item, emptyFields);
+        return items
+          .map(entry => this.renderNodes(node.body, context, { value: entry, fields: field?.itemFields || [] }, emptyFields))
+          .join('');
+      }
+
+      const truthy = !isEmpty(value) && Number(value) !== 0;
+      const show = node.type === 'if' ? truthy : !truthy;
+      return this.renderNodes(show ? node.body : node.otherwise, context, item, emptyFields);
+    }).join('');
+  }
+}
+
+export const templateEngine = TemplateEngine.getInstance();
@@ -0,0 +1,151 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { eq } from "drizzle-orm";
+
+// db.ts refuses to load without a connection string; none of these tests send a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { tenantContext, TenantError } = await import("./tenant-context");
+const { MemStorage } = await import("./storage");
+const { loanApplications, rateLocks } = await import("@shared/schema");
+
+const dialect = new PgDialect();
+const render = (condition: ReturnType<typeof tenantContext.where>) => condition && dialect.sqlToQuery(condition);
+
+// Runs the middleware against a fake request and reports whether it passed the request on, and in which scope
+async function runMiddleware(path: string, user?: { organizationId: number }) {
+  const req = { path, get: () => 'localhost', user } as unknown as Request;
+  let status: number | undefined;
+  const res = { status: (code: number) => ({ json: () => { status = code; } }) } as unknown as Response;
+  let scope: ReturnType<typeof tenantContext.getScope> | null = null;
+  await tenantContext.middleware()(req, res, () => { scope = tenantContext.getScope(); });
+  return { status, scope };
+}
+
+function borrower(organizationId: number) {
+  return { organizationId, firstName: 'Ada', lastName: `Org${organizationId}`, email: `ada${organizationId}@example.com`, phone: '5555550100' };
+}
+
+function property() {
+  return { address: '1 Main St', city: 'Austin', state: 'TX', zipCode: '78701', propertyType: 'single_family' };
+}
+
+async function createLoan(storage: InstanceType<typeof MemStorage>, organizationId: number) {
+  return tenantContext.run(organizationId, () => storage.createLoanApplicationWithRelations({
+    borrower: borrower(organizationId),
+    property: property(),
+    application: { organizationId, loanOfficerId: 1, loanType: 'dscr', requestedAmount: '250000' },
+    tasks: [{ assignedToId: 1, title: 'Collect appraisal', priority: 'medium', status: 'pending' }],
+  }));
+}
+
+describe("tenant scope", () => {
+  test("queries outside any scope fail closed", () => {
+    assert.throws(() => tenantContext.where(loanApplications.organizationId), TenantError);
+    assert.throws(() => tenantContext.whereLoan(rateLocks.loanApplicationId), TenantError);
+    assert.throws(() => tenantContext.isVisible(1), TenantError);
+  });
+
+  test("an organization scope limits queries to that organization", () => {
+    const query = tenantContext.run(7, () => render(tenantContext.where(loanApplications.organizationId, eq(loanApplications.id, 3))));
+    assert.match(query!.sql, /"organization_id" = \$2/);
+    assert.deepEqual(query!.params, [3, 7]);
+
+    const byLoan = tenantContext.run(7, () => render(tenantContext.whereLoan(rateLocks.loanApplicationId)));
+    assert.match(byLoan!.sql, /"loan_application_id" in \(select "id" from "loan_applications" where "loan_applications"\."organization_id" = \$1\)/);
+    assert.deepEqual(byLoan!.params, [7]);
+
+    tenantContext.run(7, () => {
+      assert.equal(tenantContext.isVisible(7), true);
+      assert.equal(tenantContext.isVisible(8), false);
+      assert.equal(tenantContext.isVisible(null), false);
+    });
+  });
+
+  test("a system scope sees every organization", () => {
+    tenantContext.runAsSystem(() => {
+      assert.equal(tenantContext.where(loanApplications.organizationId), undefined);
+      assert.equal(tenantContext.whereLoan(rateLocks.loanApplicationId), undefined);
+      assert.equal(tenantContext.isVisible(8), true);
+      assert.equal(tenantContext.getOrganizationId(), undefined);
+      assert.throws(() => tenantContext.requireOrganizationId(), TenantError);
+    });
+  });
+});
+
+describe("tenant middleware", () => {
+  test("rejects API requests no organization can be resolved for", async () => {
+    delete process.env.DEFAULT_ORGANIZATION_ID;
+    const { status, scope } = await runMiddleware('/loan-applications');
+    assert.equal(status, 401);
+    assert.equal(scope, null);
+  });
+
+  test("serves public paths in a system scope", async () => {
+    delete process.env.DEFAULT_ORGANIZATION_ID;
+    for (const path of ['/auth/login', '/borrower/loan-applications', '/customer-portal/documents', '/sms/status']) {
+      const { status, scope } = await runMiddleware(path);
+      assert.equal(status, undefined, path);
+      assert.deepEqual(scope, { organizationId: null, source: 'system' }, path);
+    }
+    // A prefix only matches whole path segments
+    assert.equal((await runMiddleware('/borrowers-export')).status, 401);
+  });
+
+  test("routes that act on a loan named by id are never public", async () => {
+    delete process.env.DEFAULT_ORGANIZATION_ID;
+    for (const path of ['/autonomous/perform-underwriting', '/autonomous/process-message', '/full-loan-applications']) {
+      const { status, scope } = await runMiddleware(path);
+      assert.equal(status, 401, path);
+      assert.equal(scope, null, path);
+    }
+    assert.equal((await runMiddleware('/autonomous/webhook/sms')).status, undefined);
+  });
+
+  test("scopes signed-in staff to their own organization", async () => {
+    const { scope } = await runMiddleware('/loan-applications', { organizationId: 4 });
+    assert.deepEqual(scope, { organizationId: 4, source: 'user' });
+  });
+});
+
+describe("storage isolation", () => {
+  test("one organization cannot read or change another's loans", async () => {
+    const storage = new MemStorage();
+    const loanA = await createLoan(storage, 1);
+    const loanB = await createLoan(storage, 2);
+
+    await tenantContext.run(2, async () => {
+      assert.equal(await storage.getLoanApplication(loanA.id), undefined);
+      assert.equal(await storage.getLoanApplicationWithDetails(loanA.id), undefined);
+      assert.equal(await storage.getBorrower(loanA.borrowerId), undefined);
+      assert.equal(await storage.getProperty(loanA.propertyId), undefined);
+      assert.deepEqual((await storage.getAllLoanApplications()).map(loan => loan.id), [loanB.id]);
+      assert.deepEqual(await storage.getTasksByLoanApplication(loanA.id), []);
+      assert.equal(await storage.updateLoanApplication(loanA.id, { notes: 'changed' }), undefined);
+      await assert.rejects(storage.createTask({ loanApplicationId: loanA.id, assignedToId: 1, title: 'Injected' }), TenantError);
+    });
+
+    const untouched = await tenantContext.run(1, () => storage.getLoanApplication(loanA.id));
+    assert.equal(untouched?.notes, null);
+  });
+
+  test("records are created in the caller's organization whatever the input says", async () => {
+    const storage = new MemStorage();
+    const loan = await tenantContext.run(2, () => storage.createLoanApplicationWithRelations({
+      borrower: borrower(1),
+      property: property(),
+      application: { organizationId: 1, loanOfficerId: 1, loanType: 'dscr', requestedAmount: '100000' },
+    }));
+    assert.equal(loan.organizationId, 2);
+    assert.equal(loan.borrower.organizationId, 2);
+    assert.equal(await tenantContext.run(1, () => storage.getLoanApplication(loan.id)), undefined);
+  });
+
+  test("storage calls outside any scope are refused", async () => {
+    const storage = new MemStorage();
+    const loan = await createLoan(storage, 1);
+    await assert.rejects(storage.getAllLoanApplications(), TenantError);
+    await assert.rejects(storage.getLoanApplication(loan.id), TenantError);
+  });
+});
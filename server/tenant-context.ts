@@ -0,0 +1,177 @@
+// Tenant Context
+// Resolves the organization a request acts for and carries it through every storage call made on its behalf
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { db } from "./db";
+import { loanApplications, organizations } from "@shared/schema";
+import { and, eq, inArray, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+// A system scope (background workers, token-authenticated portals and webhooks) deliberately sees every organization
+export type TenantScope =
+  | { organizationId: number; source: 'user' | 'host' | 'default' }
+  | { organizationId: null; source: 'system' };
+
+export class TenantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantError';
+  }
+}
+
+const PLATFORM_DOMAIN = 'loangenius.ai';
+const RESERVED_SUBDOMAINS = ['app', 'apply', 'www'];
+const HOST_CACHE_TTL = 5 * 60 * 1000;
+
+// API paths that may be called without an organization: sign-in and sign-up, token-authenticated borrower, realtor and
+// customer portals, the short application form and signed provider webhooks. They run in a system scope, so nothing
+// listed here may act on a record the caller names by id without a token tying them to it.
+const PUBLIC_API_PATHS = [
+  '/auth/login',
+  '/auth/logout',
+  '/borrower',
+  '/realtor',
+  '/customer',
+  '/customer-portal',
+  '/autonomous/webhook/sms',
+  '/loan-officer/signup',
+  '/loan-officer/check-subdomain',
+  '/loan-officer/organization',
+  '/linkedin/callback',
+  '/webhooks',
+  '/short-loan-applications',
+  '/ai/chat',
+  '/sms/status',
+];
+
+export class TenantContextService {
+  private static instance: TenantContextService;
+  private scopes = new AsyncLocalStorage<TenantScope>();
+  private hostCache: Map<string, { organizationId: number | null; expiresAt: number }> = new Map();
+
+  static getInstance(): TenantContextService {
+    if (!TenantContextService.instance) {
+      TenantContextService.instance = new TenantContextService();
+    }
+    return TenantContextService.instance;
+  }
+
+  // Scope lookups
+
+  getScope(): TenantScope | undefined {
+    return this.scopes.getStore();
+  }
+
+  // Undefined outside a tenant scope and in a system scope
+  getOrganizationId(): number | undefined {
+    return this.scopes.getStore()?.organizationId ?? undefined;
+  }
+
+  requireOrganizationId(): number {
+    const organizationId = this.getOrganizationId();
+    if (!organizationId) {
+      throw new TenantError('No organization could be resolved for this request');
+    }
+    return organizationId;
+  }
+
+  // The organization queries are limited to, or null in a system scope. Code running outside any scope is a bug
+  // (a worker or route that never declared who it acts for), so it fails closed instead of seeing every tenant.
+  scopedOrganizationId(): number | null {
+    const scope = this.scopes.getStore();
+    if (!scope) {
+      throw new TenantError('No tenant scope: run the call inside tenantContext.run or runAsSystem');
+    }
+    return scope.organizationId;
+  }
+
+  // True when a record owned by organizationId may be read or written in the current scope
+  isVisible(organizationId: number | null | undefined): boolean {
+    const current = this.scopedOrganizationId();
+    return current === null || organizationId === current;
+  }
+
+  // Drizzle filter limiting a query to the current organization; in a system scope the condition is unchanged
+  where(organizationColumn: AnyPgColumn, condition?: SQL): SQL | undefined {
+    const organizationId = this.scopedOrganizationId();
+    if (organizationId === null) return condition;
+    const scope = eq(organizationColumn, organizationId);
+    return condition ? and(condition, scope) : scope;
+  }
+
+  // Drizzle filter for tables keyed by loan application (history, conditions, locks, disclosures): rows of the
+  // current organization's loans only
+  whereLoan(loanApplicationColumn: AnyPgColumn, condition?: SQL): SQL | undefined {
+    if (this.scopedOrganizationId() === null) return condition;
+    const scope = inArray(loanApplicationColumn, db.select({ id: loanApplications.id }).from(loanApplications)
+      .where(this.where(loanApplications.organizationId)));
+    return condition ? and(condition, scope) : scope;
+  }
+
+  run<T>(organizationId: number, callback: () => T, source: Exclude<TenantScope['source'], 'system'> = 'default'): T {
+    return this.scopes.run({ organizationId, source }, callback);
+  }
+
+  runAsSystem<T>(callback: () => T): T {
+    return this.scopes.run({ organizationId: null, source: 'system' }, callback);
+  }
+
+  // Tenant resolution
+
+  // Branded subdomains (acme.loangenius.ai) match organizations.subdomain; any other host is tried as a custom domain
+  async resolveHost(host: string | undefined): Promise<number | null> {
+    const hostname = (host || '').split(':')[0].toLowerCase();
+    if (!hostname || hostname === 'localhost' || /^[\d.]+$/.test(hostname)) return null;
+
+    const cached = this.hostCache.get(hostname);
+    if (cached && cached.expiresAt > Date.now()) return cached.organizationId;
+
+    let condition;
+    if (hostname === PLATFORM_DOMAIN || hostname.endsWith(`.${PLATFORM_DOMAIN}`)) {
+      const subdomain = hostname.slice(0, -(PLATFORM_DOMAIN.length + 1)).split('.')[0];
+      if (!subdomain || RESERVED_SUBDOMAINS.includes(subdomain)) return null;
+      condition = eq(organizations.subdomain, subdomain);
+    } else {
+      condition = eq(organizations.customDomain, hostname);
+    }
+
+    try {
+      const [organization] = await db.select({ id: organizations.id }).from(organizations).where(condition);
+      const organizationId = organization?.id ?? null;
+      this.hostCache.set(hostname, { organizationId, expiresAt: Date.now() + HOST_CACHE_TTL });
+      return organizationId;
+    } catch (error) {
+      console.error('Failed to resolve organization for host:', error);
+      return null;
+    }
+  }
+
+  // Express middleware: the signed-in staff member's organization wins, then the request host, then
+  // DEFAULT_ORGANIZATION_ID for single-organization installs. Staff cannot act through another organization's domain.
+  // Without an organization only PUBLIC_API_PATHS are served, in a system scope; everything else is rejected.
+  middleware(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const user = (req as Request & { user?: { organizationId?: number } }).user;
+      const hostOrganizationId = await this.resolveHost(req.get('host'));
+
+      if (user?.organizationId && hostOrganizationId && hostOrganizationId !== user.organizationId) {
+        return res.status(403).json({ message: 'Your account does not belong to this organization' });
+      }
+
+      const defaultOrganizationId = parseInt(process.env.DEFAULT_ORGANIZATION_ID || '') || null;
+      const organizationId = user?.organizationId || hostOrganizationId || defaultOrganizationId;
+      if (!organizationId) {
+        if (PUBLIC_API_PATHS.some(path => req.path === path || req.path.startsWith(`${path}/`))) {
+          return this.runAsSystem(() => next());
+        }
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const source = user?.organizationId ? 'user' : hostOrganizationId ? 'host' : 'default';
+      this.run(organizationId, () => next(), source);
+    };
+  }
+}
+
+export const tenantContext = TenantContextService.getInstance();
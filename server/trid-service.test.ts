@@ -0,0 +1,126 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; comparing fee sets never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { tridService } = await import("./trid-service");
+
+type FeeWorksheetLine = import("@shared/schema").FeeWorksheetLine;
+type TridDisclosure = import("@shared/schema").TridDisclosure;
+type TridChangedCircumstance = import("@shared/schema").TridChangedCircumstance;
+
+const fee = (code: string, section: FeeWorksheetLine['section'], amount: number, description = code): FeeWorksheetLine =>
+  ({ code, description, section, amount });
+
+function disclosure(overrides: Partial<TridDisclosure>): TridDisclosure {
+  return {
+    id: 1,
+    loanApplicationId: 3,
+    type: 'loan_estimate',
+    version: 1,
+    issuedAt: new Date(2026, 10, 25),
+    deliveryMethod: 'email',
+    receivedAt: null,
+    changedCircumstanceId: null,
+    fees: [],
+    ...overrides,
+  } as TridDisclosure;
+}
+
+const circumstance = (overrides: Partial<TridChangedCircumstance>) => ({
+  id: 1,
+  loanApplicationId: 3,
+  description: 'Appraised value came in low',
+  affectedFeeCodes: [],
+  revisedDisclosureDueBy: new Date(2026, 11, 4),
+  ...overrides,
+}) as TridChangedCircumstance;
+
+const initialFees = [
+  fee('origination', 'A', 4500),
+  fee('appraisal', 'B', 650),
+  fee('title_settlement', 'C', 1000),
+  fee('recording', 'E', 150, 'Recording fees'),
+  fee('transfer_tax', 'E', 500, 'Transfer taxes'),
+  fee('prepaid_interest', 'F', 1000),
+];
+
+const closingFees = [
+  fee('origination', 'A', 4600),
+  fee('appraisal', 'B', 600),
+  fee('courier', 'B', 50),
+  fee('title_settlement', 'C', 1200),
+  fee('recording', 'E', 150, 'Recording fees'),
+  fee('transfer_tax', 'E', 500, 'Transfer taxes'),
+  fee('prepaid_interest', 'F', 1500),
+];
+
+describe("tolerance buckets", () => {
+  test("puts origination, services you cannot shop for and transfer taxes in the zero bucket", () => {
+    assert.equal(tridService.getToleranceBucket(fee('origination', 'A', 1)), 'zero');
+    assert.equal(tridService.getToleranceBucket(fee('appraisal', 'B', 1)), 'zero');
+    assert.equal(tridService.getToleranceBucket(fee('transfer_tax', 'E', 1, 'Transfer taxes')), 'zero');
+  });
+
+  test("shares the 10% bucket between recording fees and services shopped from the lender's list", () => {
+    assert.equal(tridService.getToleranceBucket(fee('recording', 'E', 1, 'Recording fees')), 'ten_percent');
+    assert.equal(tridService.getToleranceBucket(fee('title_settlement', 'C', 1)), 'ten_percent');
+    assert.equal(tridService.getToleranceBucket(fee('title_settlement', 'C', 1), ['title_settlement']), 'unlimited');
+    assert.equal(tridService.getToleranceBucket(fee('prepaid_interest', 'F', 1)), 'unlimited');
+  });
+});
+
+describe("tolerance cures", () => {
+  const initial = disclosure({ fees: initialFees });
+
+  test("cures each zero-tolerance increase, including new fees, and the 10% bucket above its limit", () => {
+    const result = tridService.compareFees([initial], [], closingFees, 'closing_disclosure');
+    // Decreases are not netted against increases in the zero bucket
+    assert.deepEqual(result.zeroTolerance, { disclosed: 5650, final: 5750, cure: 150 });
+    assert.equal(result.lines.find(line => line.code === 'courier')?.cure, 50);
+    assert.deepEqual(result.tenPercent, { disclosed: 1150, final: 1350, limit: 1265, cure: 85 });
+    assert.deepEqual(result.unlimited, { disclosed: 1000, final: 1500 });
+    assert.equal(result.totalCure, 235);
+  });
+
+  test("owes no 10% cure when the borrower shopped the service", () => {
+    const result = tridService.compareFees([initial], [], closingFees, 'closing_disclosure', ['title_settlement']);
+    assert.equal(result.tenPercent.cure, 0);
+    assert.equal(result.totalCure, 150);
+  });
+
+  test("re-baselines only the fees a timely revised Loan Estimate's changed circumstance affects", () => {
+    const revised = disclosure({
+      id: 2,
+      version: 2,
+      issuedAt: new Date(2026, 11, 2),
+      changedCircumstanceId: 1,
+      fees: [fee('origination', 'A', 5000), fee('appraisal', 'B', 900)],
+    });
+    const result = tridService.compareFees([initial, revised], [circumstance({ affectedFeeCodes: ['appraisal'] })], closingFees, 'closing_disclosure');
+    assert.deepEqual(result.baselineDisclosureIds, [1, 2]);
+    assert.equal(result.lines.find(line => line.code === 'appraisal')?.disclosed, 900);
+    assert.equal(result.lines.find(line => line.code === 'origination')?.cure, 100);
+  });
+
+  test("keeps the original baseline when the revised Loan Estimate is late", () => {
+    const late = disclosure({ id: 2, version: 2, issuedAt: new Date(2026, 11, 7), changedCircumstanceId: 1, fees: [fee('origination', 'A', 5000)] });
+    const result = tridService.compareFees([initial, late], [circumstance({})], closingFees, 'closing_disclosure');
+    assert.deepEqual(result.baselineDisclosureIds, [1]);
+    assert.equal(result.zeroTolerance.cure, 150);
+  });
+});
+
+describe("disclosure receipt", () => {
+  test("presumes receipt three specific business days after mailing or emailing", () => {
+    // Thanksgiving and Sunday do not count; Saturday does
+    assert.deepEqual(tridService.getReceivedAt(disclosure({ deliveryMethod: 'mail' })), new Date(2026, 10, 30));
+  });
+
+  test("uses the delivery date in person and a confirmed receipt date when one is on file", () => {
+    const issuedAt = new Date(2026, 10, 25, 10);
+    assert.deepEqual(tridService.getReceivedAt(disclosure({ deliveryMethod: 'in_person', issuedAt })), issuedAt);
+    const receivedAt = new Date(2026, 10, 25, 18);
+    assert.deepEqual(tridService.getReceivedAt(disclosure({ receivedAt })), receivedAt);
+  });
+});
@@ -0,0 +1,659 @@
+// TRID Service
+// Loan Estimate and Closing Disclosure timing, changed circumstances and fee tolerance cures
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { loanStatusMachine } from "./loan-status-machine";
+import { feeWorksheetService } from "./fee-worksheet-service";
+import { tenantContext } from "./tenant-context";
+import { addBusinessDays, isBusinessDay, startOfDay } from "./business-days";
+import type { UrlaData } from "./mismo-service";
+import {
+  tridApplications,
+  tridChangedCircumstances,
+  tridDisclosures,
+  type FeeWorksheetLine,
+  type LoanApplicationWithDetails,
+  type TridApplication,
+  type TridChangedCircumstance,
+  type TridDataPoint,
+  type TridDisclosure,
+} from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
+
+export type DisclosureType = 'loan_estimate' | 'closing_disclosure';
+export type DeliveryMethod = 'in_person' | 'email' | 'mail';
+export type ToleranceBucket = 'zero' | 'ten_percent' | 'unlimited';
+export type TridFindingStatus = 'compliant' | 'warning' | 'violation' | 'pending';
+
+export interface TridFinding {
+  code: string;
+  status: TridFindingStatus;
+  message: string;
+  dueDate?: Date | null;
+}
+
+export interface ToleranceLine {
+  code: string;
+  description: string;
+  section: string;
+  bucket: ToleranceBucket;
+  disclosed: number; // baseline Loan Estimate amount
+  final: number; // Closing Disclosure (or current worksheet) amount
+  difference: number;
+  cure: number; // zero-tolerance lines only; the 10% bucket is cured in aggregate
+}
+
+export interface ToleranceResult {
+  comparedTo: 'closing_disclosure' | 'fee_worksheet';
+  baselineDisclosureIds: number[];
+  lines: ToleranceLine[];
+  zeroTolerance: { disclosed: number; final: number; cure: number };
+  tenPercent: { disclosed: number; final: number; limit: number; cure: number };
+  unlimited: { disclosed: number; final: number };
+  totalCure: number;
+}
+
+export interface TridTimeline {
+  loanApplicationId: number;
+  application: TridApplication | null;
+  missingDataPoints: TridDataPoint[];
+  loanEstimateDueBy: Date | null;
+  earliestConsummationDate: Date | null;
+  disclosures: Array<TridDisclosure & { presumedReceivedAt: Date }>;
+  changedCircumstances: TridChangedCircumstance[];
+  findings: TridFinding[];
+}
+
+// Shape consumed by the compliance center
+export interface ComplianceItem {
+  id: string;
+  title: string;
+  category: 'lending' | 'privacy' | 'disclosure' | 'reporting' | 'audit';
+  status: TridFindingStatus;
+  description: string;
+  dueDate?: Date;
+  lastUpdated: Date;
+  assignedTo: string;
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  requirements: string[];
+  evidence: string[];
+}
+
+export interface ComplianceMetrics {
+  overallScore: number;
+  complianceRate: number;
+  pendingItems: number;
+  criticalIssues: number;
+  auditReadiness: number;
+  lastAudit: Date | null;
+  nextAudit: Date | null;
+  trackedLoans: number;
+  totalCure: number;
+}
+
+export class TridError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TridError';
+  }
+}
+
+export const TRID_DATA_POINTS: TridDataPoint[] = ['borrowerName', 'income', 'ssn', 'propertyAddress', 'estimatedValue', 'loanAmount'];
+
+// Timing rules, in business days
+const LOAN_ESTIMATE_DELIVERY_DAYS = 3; // general definition, from application
+const REVISED_ESTIMATE_DELIVERY_DAYS = 3; // general definition, from learning of the changed circumstance
+const MAILBOX_RULE_DAYS = 3; // specific definition, presumed receipt when not delivered in person
+const LOAN_ESTIMATE_WAITING_DAYS = 7; // specific definition, from delivery of the initial LE to consummation
+const REVISED_ESTIMATE_CUTOFF_DAYS = 4; // specific definition, revised LE received before consummation
+const CLOSING_DISCLOSURE_WAITING_DAYS = 3; // specific definition, from CD receipt to consummation
+const TEN_PERCENT_TOLERANCE = 0.10;
+
+const FINDING_SEVERITY: TridFindingStatus[] = ['compliant', 'pending', 'warning', 'violation'];
+const TRID_REQUIREMENTS = [
+  'Loan Estimate within 3 business days of application',
+  'Revised Loan Estimate within 3 business days of a changed circumstance',
+  'Closing Disclosure received 3 business days before consummation',
+  'Zero and 10% fee tolerances cured at closing',
+];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export class TridService {
+  private static instance: TridService;
+
+  public static getInstance(): TridService {
+    if (!TridService.instance) {
+      TridService.instance = new TridService();
+    }
+    return TridService.instance;
+  }
+
+  constructor() {
+    // Tracked loans cannot fund until the Closing Disclosure waiting period has run
+    loanStatusMachine.registerGuard('funded', async (loan) => {
+      const application = await this.getApplication(loan.id);
+      if (!application) return { passed: true };
+      const disclosures = await this.getDisclosures(loan.id);
+      const closingDisclosure = disclosures.filter(disclosure => disclosure.type === 'closing_disclosure').pop();
+      if (!closingDisclosure) {
+        return { passed: false, message: 'A Closing Disclosure must be issued before funding' };
+      }
+      const earliest = addBusinessDays(this.getReceivedAt(closingDisclosure), CLOSING_DISCLOSURE_WAITING_DAYS, 'specific');
+      return startOfDay(new Date()) >= earliest
+        ? { passed: true }
+        : { passed: false, message: `Closing Disclosure waiting period runs until ${earliest.toDateString()}` };
+    });
+  }
+
+  async getApplication(loanApplicationId: number): Promise<TridApplication | undefined> {
+    const [application] = await db.select().from(tridApplications)
+      .where(tenantContext.whereLoan(tridApplications.loanApplicationId, eq(tridApplications.loanApplicationId, loanApplicationId)));
+    return application;
+  }
+
+  // Records which of the six data points have been received; points already on the loan file are picked up automatically
+  async recordApplication(
+    loanApplicationId: number,
+    options: { dataPoints?: Partial<Record<TridDataPoint, string | Date>>; intendedConsummationDate?: Date | null } = {}
+  ): Promise<TridApplication> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new TridError('Loan application not found');
+    }
+
+    const existing = await this.getApplication(loanApplicationId);
+    const dataPoints: Partial<Record<TridDataPoint, string>> = { ...(existing?.dataPoints || {}) };
+    const now = new Date().toISOString();
+    for (const point of this.detectDataPoints(loan)) {
+      dataPoints[point] ??= now;
+    }
+    for (const [point, receivedAt] of Object.entries(options.dataPoints || {})) {
+      if (!TRID_DATA_POINTS.includes(point as TridDataPoint)) {
+        throw new TridError(`Unknown TRID data point: ${point}`);
+      }
+      dataPoints[point as TridDataPoint] = new Date(receivedAt).toISOString();
+    }
+
+    // The application date is when the last of the six data points arrived
+    const complete = TRID_DATA_POINTS.every(point => dataPoints[point]);
+    const applicationDate = complete
+      ? new Date(Math.max(...TRID_DATA_POINTS.map(point => new Date(dataPoints[point]!).getTime())))
+      : null;
+
+    const values = {
+      dataPoints,
+      applicationDate,
+      ...(options.intendedConsummationDate !== undefined && { intendedConsummationDate: options.intendedConsummationDate }),
+      updatedAt: new Date(),
+    };
+    if (existing) {
+      const [updated] = await db.update(tridApplications).set(values).where(eq(tridApplications.id, existing.id)).returning();
+      return updated;
+    }
+    const [created] = await db.insert(tridApplications).values({ loanApplicationId, ...values }).returning();
+    return created;
+  }
+
+  async getDisclosures(loanApplicationId: number): Promise<TridDisclosure[]> {
+    return db
+      .select()
+      .from(tridDisclosures)
+      .where(tenantContext.whereLoan(tridDisclosures.loanApplicationId, eq(tridDisclosures.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(tridDisclosures.issuedAt), asc(tridDisclosures.id));
+  }
+
+  async getChangedCircumstances(loanApplicationId: number): Promise<TridChangedCircumstance[]> {
+    return db
+      .select()
+      .from(tridChangedCircumstances)
+      .where(tenantContext.whereLoan(tridChangedCircumstances.loanApplicationId, eq(tridChangedCircumstances.loanApplicationId, loanApplicationId)))
+      .orderBy(asc(tridChangedCircumstances.discoveredAt));
+  }
+
+  async recordChangedCircumstance(
+    loanApplicationId: number,
+    data: { reason: string; description: string; affectedFeeCodes?: string[]; discoveredAt?: Date; createdBy?: number | null }
+  ): Promise<TridChangedCircumstance> {
+    const disclosures = await this.getDisclosures(loanApplicationId);
+    if (!disclosures.some(disclosure => disclosure.type === 'loan_estimate')) {
+      throw new TridError('Changed circumstances apply only after the initial Loan Estimate has been issued');
+    }
+
+    const discoveredAt = data.discoveredAt || new Date();
+    const [circumstance] = await db.insert(tridChangedCircumstances).values({
+      loanApplicationId,
+      reason: data.reason,
+      description: data.description,
+      affectedFeeCodes: data.affectedFeeCodes || [],
+      discoveredAt,
+      revisedDisclosureDueBy: addBusinessDays(discoveredAt, REVISED_ESTIMATE_DELIVERY_DAYS, 'general'),
+      createdBy: data.createdBy ?? null,
+    }).returning();
+    return circumstance;
+  }
+
+  // Snapshots the latest fee worksheet as a Loan Estimate or Closing Disclosure
+  async issueDisclosure(
+    loanApplicationId: number,
+    data: {
+      type: DisclosureType;
+      deliveryMethod: DeliveryMethod;
+      issuedAt?: Date;
+      changedCircumstanceId?: number | null;
+      issuedBy?: number | null;
+    }
+  ): Promise<TridDisclosure> {
+    const worksheet = await feeWorksheetService.getLatestWorksheet(loanApplicationId);
+    if (!worksheet) {
+      throw new TridError('Save a fee worksheet before issuing a disclosure');
+    }
+
+    const disclosures = await this.getDisclosures(loanApplicationId);
+    const sameType = disclosures.filter(disclosure => disclosure.type === data.type);
+    const hasClosingDisclosure = disclosures.some(disclosure => disclosure.type === 'closing_disclosure');
+    if (data.type === 'closing_disclosure' && !disclosures.some(disclosure => disclosure.type === 'loan_estimate')) {
+      throw new TridError('A Loan Estimate must be issued before the Closing Disclosure');
+    }
+    if (data.type === 'loan_estimate' && hasClosingDisclosure) {
+      throw new TridError('A revised Loan Estimate cannot be issued after the Closing Disclosure');
+    }
+
+    let circumstance: TridChangedCircumstance | undefined;
+    if (data.changedCircumstanceId) {
+      [circumstance] = await db.select().from(tridChangedCircumstances).where(eq(tridChangedCircumstances.id, data.changedCircumstanceId));
+      if (!circumstance || circumstance.loanApplicationId !== loanApplicationId) {
+        throw new TridError('Changed circumstance not found for this loan');
+      }
+      if (circumstance.revisedDisclosureId) {
+        throw new TridError('This changed circumstance has already been disclosed');
+      }
+    }
+
+    const [disclosure] = await db.insert(tridDisclosures).values({
+      loanApplicationId,
+      type: data.type,
+      version: sameType.length + 1,
+      feeWorksheetId: worksheet.id,
+      fees: worksheet.lines,
+      totals: worksheet.totals,
+      changedCircumstanceId: circumstance?.id ?? null,
+      deliveryMethod: data.deliveryMethod,
+      issuedAt: data.issuedAt || new Date(),
+      receivedAt: data.deliveryMethod === 'in_person' ? (data.issuedAt || new Date()) : null,
+      issuedBy: data.issuedBy ?? null,
+    }).returning();
+
+    if (circumstance) {
+      await db
+        .update(tridChangedCircumstances)
+        .set({ revisedDisclosureId: disclosure.id })
+        .where(eq(tridChangedCircumstances.id, circumstance.id));
+    }
+    return disclosure;
+  }
+
+  async markReceived(disclosureId: number, receivedAt: Date): Promise<TridDisclosure> {
+    const [disclosure] = await db
+      .update(tridDisclosures)
+      .set({ receivedAt })
+      .where(tenantContext.whereLoan(tridDisclosures.loanApplicationId, eq(tridDisclosures.id, disclosureId)))
+      .returning();
+    if (!disclosure) {
+      throw new TridError('Disclosure not found');
+    }
+    return disclosure;
+  }
+
+  async getTimeline(loanApplicationId: number): Promise<TridTimeline> {
+    const [application, disclosures, changedCircumstances] = await Promise.all([
+      this.getApplication(loanApplicationId),
+      this.getDisclosures(loanApplicationId),
+      this.getChangedCircumstances(loanApplicationId),
+    ]);
+
+    const findings: TridFinding[] = [];
+    const today = startOfDay(new Date());
+    const missingDataPoints = TRID_DATA_POINTS.filter(point => !application?.dataPoints[point]);
+    const loanEstimates = disclosures.filter(disclosure => disclosure.type === 'loan_estimate');
+    const closingDisclosures = disclosures.filter(disclosure => disclosure.type === 'closing_disclosure');
+    const initialEstimate = loanEstimates[0];
+    const latestClosingDisclosure = closingDisclosures[closingDisclosures.length - 1];
+
+    if (!application?.applicationDate) {
+      findings.push({
+        code: 'application_incomplete',
+        status: 'pending',
+        message: `TRID application not yet triggered; missing ${missingDataPoints.join(', ')}`,
+      });
+    }
+
+    // Initial Loan Estimate: delivered by the third general business day after application
+    const loanEstimateDueBy = application?.applicationDate
+      ? addBusinessDays(application.applicationDate, LOAN_ESTIMATE_DELIVERY_DAYS, 'general')
+      : null;
+    if (loanEstimateDueBy) {
+      if (initialEstimate) {
+        const onTime = startOfDay(initialEstimate.issuedAt) <= loanEstimateDueBy;
+        findings.push({
+          code: 'loan_estimate_timing',
+          status: onTime ? 'compliant' : 'violation',
+          message: onTime
+            ? `Loan Estimate issued ${initialEstimate.issuedAt.toDateString()}, within 3 business days of application`
+            : `Loan Estimate issued ${initialEstimate.issuedAt.toDateString()}, after the ${loanEstimateDueBy.toDateString()} deadline`,
+          dueDate: loanEstimateDueBy,
+        });
+      } else {
+        findings.push({
+          code: 'loan_estimate_timing',
+          status: today > loanEstimateDueBy ? 'violation' : 'warning',
+          message: today > loanEstimateDueBy
+            ? `Loan Estimate was due ${loanEstimateDueBy.toDateString()} and has not been issued`
+            : `Loan Estimate due by ${loanEstimateDueBy.toDateString()}`,
+          dueDate: loanEstimateDueBy,
+        });
+      }
+    }
+
+    // Revised Loan Estimates for each changed circumstance
+    const consummation = application?.intendedConsummationDate || null;
+    for (const circumstance of changedCircumstances) {
+      const revised = disclosures.find(disclosure => disclosure.id === circumstance.revisedDisclosureId);
+      if (!revised) {
+        const overdue = today > circumstance.revisedDisclosureDueBy;
+        findings.push({
+          code: `changed_circumstance_${circumstance.id}`,
+          status: overdue ? 'violation' : 'warning',
+          message: `Revised disclosure for "${circumstance.description}" ${overdue ? 'was due' : 'due by'} ${circumstance.revisedDisclosureDueBy.toDateString()}`,
+          dueDate: circumstance.revisedDisclosureDueBy,
+        });
+        continue;
+      }
+      const onTime = startOfDay(revised.issuedAt) <= circumstance.revisedDisclosureDueBy;
+      findings.push({
+        code: `changed_circumstance_${circumstance.id}`,
+        status: onTime ? 'compliant' : 'violation',
+        message: onTime
+          ? `Revised ${revised.type === 'loan_estimate' ? 'Loan Estimate' : 'Closing Disclosure'} issued on time for "${circumstance.description}"; fees may be re-baselined`
+          : `Revised disclosure for "${circumstance.description}" issued late; fees cannot be re-baselined`,
+        dueDate: circumstance.revisedDisclosureDueBy,
+      });
+      if (revised.type === 'loan_estimate' && consummation) {
+        const cutoff = addBusinessDays(this.getReceivedAt(revised), REVISED_ESTIMATE_CUTOFF_DAYS, 'specific');
+        if (startOfDay(consummation) < cutoff) {
+          findings.push({
+            code: `revised_estimate_cutoff_${revised.id}`,
+            status: 'violation',
+            message: `Revised Loan Estimate v${revised.version} is not received 4 business days before the ${consummation.toDateString()} consummation`,
+            dueDate: cutoff,
+          });
+        }
+      }
+    }
+
+    // Consummation waits 7 business days after the initial LE and 3 business days after CD receipt
+    const waits: Date[] = [];
+    if (initialEstimate) waits.push(addBusinessDays(initialEstimate.issuedAt, LOAN_ESTIMATE_WAITING_DAYS, 'specific'));
+    if (latestClosingDisclosure) {
+      waits.push(addBusinessDays(this.getReceivedAt(latestClosingDisclosure), CLOSING_DISCLOSURE_WAITING_DAYS, 'specific'));
+    }
+    const earliestConsummationDate = latestClosingDisclosure
+      ? new Date(Math.max(...waits.map(date => date.getTime())))
+      : null;
+
+    if (consummation && initialEstimate) {
+      if (!latestClosingDisclosure) {
+        const cdDueBy = this.subtractSpecificBusinessDays(consummation, CLOSING_DISCLOSURE_WAITING_DAYS + MAILBOX_RULE_DAYS);
+        findings.push({
+          code: 'closing_disclosure_timing',
+          status: today > cdDueBy ? 'violation' : 'pending',
+          message: `Closing Disclosure should be mailed by ${cdDueBy.toDateString()} (or delivered in person 3 business days before) for the ${consummation.toDateString()} closing`,
+          dueDate: cdDueBy,
+        });
+      } else {
+        const onTime = startOfDay(consummation) >= earliestConsummationDate!;
+        findings.push({
+          code: 'closing_disclosure_timing',
+          status: onTime ? 'compliant' : 'violation',
+          message: onTime
+            ? `Closing Disclosure waiting period satisfied; earliest consummation ${earliestConsummationDate!.toDateString()}`
+            : `Scheduled consummation ${consummation.toDateString()} is before the earliest allowed date ${earliestConsummationDate!.toDateString()}`,
+          dueDate: earliestConsummationDate,
+        });
+      }
+    }
+
+    if (initialEstimate) {
+      const tolerance = await this.calculateTolerance(loanApplicationId);
+      if (tolerance) {
+        findings.push({
+          code: 'fee_tolerance',
+          status: tolerance.totalCure > 0 ? (tolerance.comparedTo === 'closing_disclosure' ? 'violation' : 'warning') : 'compliant',
+          message: tolerance.totalCure > 0
+            ? `Tolerance cure of $${tolerance.totalCure.toFixed(2)} required (zero: $${tolerance.zeroTolerance.cure.toFixed(2)}, 10%: $${tolerance.tenPercent.cure.toFixed(2)})`
+            : 'Fees are within zero and 10% tolerances',
+        });
+      }
+    }
+
+    return {
+      loanApplicationId,
+      application: application || null,
+      missingDataPoints,
+      loanEstimateDueBy,
+      earliestConsummationDate,
+      disclosures: disclosures.map(disclosure => ({ ...disclosure, presumedReceivedAt: this.getReceivedAt(disclosure) })),
+      changedCircumstances,
+      findings,
+    };
+  }
+
+  // Compares the binding Loan Estimate fees with the latest Closing Disclosure, or the current worksheet before one is issued
+  async calculateTolerance(loanApplicationId: number, shoppedProviderCodes: string[] = []): Promise<ToleranceResult | null> {
+    const [disclosures, changedCircumstances] = await Promise.all([
+      this.getDisclosures(loanApplicationId),
+      this.getChangedCircumstances(loanApplicationId),
+    ]);
+    const loanEstimates = disclosures.filter(disclosure => disclosure.type === 'loan_estimate');
+    if (loanEstimates.length === 0) return null;
+
+    const closingDisclosures = disclosures.filter(disclosure => disclosure.type === 'closing_disclosure');
+    const latestClosingDisclosure = closingDisclosures[closingDisclosures.length - 1];
+    let finalFees: FeeWorksheetLine[];
+    let comparedTo: ToleranceResult['comparedTo'];
+    if (latestClosingDisclosure) {
+      finalFees = latestClosingDisclosure.fees;
+      comparedTo = 'closing_disclosure';
+    } else {
+      const worksheet = await feeWorksheetService.getLatestWorksheet(loanApplicationId);
+      if (!worksheet) return null;
+      finalFees = worksheet.lines;
+      comparedTo = 'fee_worksheet';
+    }
+
+    return this.compareFees(loanEstimates, changedCircumstances, finalFees, comparedTo, shoppedProviderCodes);
+  }
+
+  // Tolerance buckets and cures for final fees against the Loan Estimate baseline
+  compareFees(
+    loanEstimates: TridDisclosure[],
+    changedCircumstances: TridChangedCircumstance[],
+    finalFees: FeeWorksheetLine[],
+    comparedTo: ToleranceResult['comparedTo'],
+    shoppedProviderCodes: string[] = []
+  ): ToleranceResult {
+    // The initial LE sets the baseline; a timely revised LE re-baselines the fees its changed circumstance affects
+    const baseline = new Map<string, FeeWorksheetLine>();
+    const baselineDisclosureIds = [loanEstimates[0].id];
+    loanEstimates[0].fees.forEach(line => baseline.set(line.code, line));
+    for (const revised of loanEstimates.slice(1)) {
+      const circumstance = changedCircumstances.find(entry => entry.id === revised.changedCircumstanceId);
+      if (!circumstance || startOfDay(revised.issuedAt) > circumstance.revisedDisclosureDueBy) continue;
+      baselineDisclosureIds.push(revised.id);
+      for (const line of revised.fees) {
+        if (circumstance.affectedFeeCodes.length === 0 || circumstance.affectedFeeCodes.includes(line.code)) {
+          baseline.set(line.code, line);
+        }
+      }
+    }
+
+    const codes = Array.from(new Set([...Array.from(baseline.keys()), ...finalFees.map(line => line.code)]));
+    const lines: ToleranceLine[] = codes.map(code => {
+      const disclosedLine = baseline.get(code);
+      const finalLine = finalFees.find(line => line.code === code);
+      const reference = (finalLine || disclosedLine)!;
+      const bucket = this.getToleranceBucket(reference, shoppedProviderCodes);
+      const disclosed = disclosedLine?.amount || 0;
+      const final = finalLine?.amount || 0;
+      return {
+        code,
+        description: reference.description,
+        section: reference.section,
+        bucket,
+        disclosed,
+        final,
+        difference: roundCents(final - disclosed),
+        cure: bucket === 'zero' ? roundCents(Math.max(0, final - disclosed)) : 0,
+      };
+    });
+
+    const sum = (bucket: ToleranceBucket, field: 'disclosed' | 'final' | 'cure') =>
+      roundCents(lines.filter(line => line.bucket === bucket).reduce((total, line) => total + line[field], 0));
+    const tenDisclosed = sum('ten_percent', 'disclosed');
+    const tenFinal = sum('ten_percent', 'final');
+    const tenLimit = roundCents(tenDisclosed * (1 + TEN_PERCENT_TOLERANCE));
+    const zeroCure = sum('zero', 'cure');
+    const tenCure = roundCents(Math.max(0, tenFinal - tenLimit));
+
+    return {
+      comparedTo,
+      baselineDisclosureIds,
+      lines,
+      zeroTolerance: { disclosed: sum('zero', 'disclosed'), final: sum('zero', 'final'), cure: zeroCure },
+      tenPercent: { disclosed: tenDisclosed, final: tenFinal, limit: tenLimit, cure: tenCure },
+      unlimited: { disclosed: sum('unlimited', 'disclosed'), final: sum('unlimited', 'final') },
+      totalCure: roundCents(zeroCure + tenCure),
+    };
+  }
+
+  // Origination, non-shoppable services and transfer taxes are zero tolerance; recording fees and services
+  // shopped from the lender's list share the 10% bucket; prepaids, escrow and other costs are unlimited
+  getToleranceBucket(line: FeeWorksheetLine, shoppedProviderCodes: string[] = []): ToleranceBucket {
+    switch (line.section) {
+      case 'A':
+      case 'B':
+        return 'zero';
+      case 'C':
+        return shoppedProviderCodes.includes(line.code) ? 'unlimited' : 'ten_percent';
+      case 'E':
+        return /record/i.test(line.code) || /record/i.test(line.description) ? 'ten_percent' : 'zero';
+      default:
+        return 'unlimited';
+    }
+  }
+
+  // One TRID item per tracked loan, rated by its worst finding
+  async getComplianceItems(category: string = 'all'): Promise<ComplianceItem[]> {
+    if (category !== 'all' && category !== 'lending') return [];
+
+    const applications = await db.select().from(tridApplications)
+      .where(tenantContext.whereLoan(tridApplications.loanApplicationId))
+      .orderBy(asc(tridApplications.loanApplicationId));
+    const items: ComplianceItem[] = [];
+    for (const application of applications) {
+      const loan = await storage.getLoanApplicationWithDetails(application.loanApplicationId);
+      if (!loan) continue;
+      const timeline = await this.getTimeline(loan.id);
+      const worst = timeline.findings.reduce<TridFinding | undefined>((current, finding) =>
+        !current || FINDING_SEVERITY.indexOf(finding.status) > FINDING_SEVERITY.indexOf(current.status) ? finding : current, undefined);
+      const openDeadlines = timeline.findings
+        .filter(finding => finding.status !== 'compliant' && finding.dueDate)
+        .map(finding => finding.dueDate!.getTime());
+      const officer = loan.loanOfficerId ? await storage.getUser(loan.loanOfficerId) : undefined;
+
+      items.push({
+        id: `trid-${loan.id}`,
+        title: `TRID - ${loan.borrower.firstName} ${loan.borrower.lastName} (#${loan.id})`,
+        category: 'lending',
+        status: worst?.status || 'pending',
+        description: worst?.message || 'Awaiting TRID application data',
+        dueDate: openDeadlines.length > 0 ? new Date(Math.min(...openDeadlines)) : undefined,
+        lastUpdated: new Date(Math.max(
+          application.updatedAt.getTime(),
+          ...timeline.disclosures.map(disclosure => disclosure.createdAt.getTime())
+        )),
+        assignedTo: officer ? `${officer.firstName} ${officer.lastName}` : 'Unassigned',
+        priority: worst?.status === 'violation' ? 'critical' : worst?.status === 'warning' ? 'high' : 'medium',
+        requirements: TRID_REQUIREMENTS,
+        evidence: timeline.disclosures.map(disclosure =>
+          `${disclosure.type === 'loan_estimate' ? 'Loan Estimate' : 'Closing Disclosure'} v${disclosure.version} ` +
+          `issued ${disclosure.issuedAt.toDateString()} (${disclosure.deliveryMethod.replace('_', ' ')})`),
+      });
+    }
+    return items;
+  }
+
+  async getMetrics(): Promise<ComplianceMetrics> {
+    const items = await this.getComplianceItems();
+    const applications = await db.select().from(tridApplications).where(tenantContext.whereLoan(tridApplications.loanApplicationId));
+    let totalCure = 0;
+    let documented = 0;
+    for (const application of applications) {
+      const tolerance = await this.calculateTolerance(application.loanApplicationId);
+      totalCure += tolerance?.totalCure || 0;
+      // Audit-ready when every disclosure has confirmed or in-person receipt on file
+      const disclosures = await this.getDisclosures(application.loanApplicationId);
+      if (disclosures.length > 0 && disclosures.every(disclosure => disclosure.receivedAt)) documented++;
+    }
+
+    const compliant = items.filter(item => item.status === 'compliant').length;
+    const complianceRate = items.length > 0 ? Math.round((compliant / items.length) * 1000) / 10 : 100;
+    const auditReadiness = applications.length > 0 ? Math.round((documented / applications.length) * 100) : 100;
+    return {
+      overallScore: Math.round((complianceRate + auditReadiness) / 2),
+      complianceRate,
+      pendingItems: items.filter(item => item.status === 'pending' || item.status === 'warning').length,
+      criticalIssues: items.filter(item => item.status === 'violation').length,
+      auditReadiness,
+      lastAudit: null,
+      nextAudit: null,
+      trackedLoans: applications.length,
+      totalCure: roundCents(totalCure),
+    };
+  }
+
+  // Confirmed receipt, in-person delivery, or the mailbox rule
+  getReceivedAt(disclosure: TridDisclosure): Date {
+    if (disclosure.receivedAt) return disclosure.receivedAt;
+    if (disclosure.deliveryMethod === 'in_person') return disclosure.issuedAt;
+    return addBusinessDays(disclosure.issuedAt, MAILBOX_RULE_DAYS, 'specific');
+  }
+
+  private detectDataPoints(loan: LoanApplicationWithDetails & { urlaData?: UrlaData | null }): TridDataPoint[] {
+    const urla = loan.urlaData || {};
+    const present: Record<TridDataPoint, boolean> = {
+      borrowerName: Boolean(loan.borrower.firstName && loan.borrower.lastName),
+      income: ['baseIncome', 'overtimeIncome', 'bonusIncome', 'commissionIncome', 'otherIncome']
+        .some(field => parseFloat(urla[field] || '0') > 0),
+      ssn: Boolean(urla.ssn),
+      propertyAddress: Boolean(loan.property.address && loan.property.city && loan.property.state),
+      estimatedValue: parseFloat(loan.property.propertyValue || loan.property.purchasePrice || '0') > 0,
+      loanAmount: parseFloat(loan.requestedAmount || '0') > 0,
+    };
+    return TRID_DATA_POINTS.filter(point => present[point]);
+  }
+
+  // The latest date that is the given number of specific business days before `to`
+  private subtractSpecificBusinessDays(to: Date, days: number): Date {
+    const date = startOfDay(to);
+    let counted = 0;
+    while (counted < days) {
+      date.setDate(date.getDate() - 1);
+      if (isBusinessDay(date, 'specific')) counted++;
+    }
+    return date;
+  }
+}
+
+export const tridService = TridService.getInstance();
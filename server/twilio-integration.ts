@@ -1,5 +1,6 @@
 // Twilio Integration for Phone and SMS
-import { Twilio } from 'twilio';
+import { Twilio, validateRequest } from 'twilio';
+import { consentService, type ConsentRecordOptions } from './consent-service';
 
 export interface CallRecord {
   id: string;
@@ -57,11 +58,22 @@ export class TwilioIntegrationService {
     this.client = new Twilio(accountSid, authToken);
   }
 
+  // Webhooks
+
+  // Twilio signs every webhook with the account's auth token over the URL it called and the posted parameters.
+  // Without a token nothing can be verified, so nothing is accepted.
+  isValidWebhook(signature: string | undefined, url: string, params: Record<string, any>): boolean {
+    if (!this.authToken || !signature) return false;
+    return validateRequest(this.authToken, signature, url, params);
+  }
+
   // SMS Functions
+  // Every outbound text and call needs recorded consent and must fall inside the recipient's calling hours
   async sendSMS(to: string, message: string, mediaUrls?: string[]): Promise<SMSMessage | null> {
     if (!this.client || !this.phoneNumber) {
       throw new Error('Twilio not configured');
     }
+    await consentService.assertCanContact(to, 'sms');
 
     try {
       const messageOptions: any = {
@@ -74,6 +86,11 @@ export class TwilioIntegrationService {
         messageOptions.mediaUrl = mediaUrls;
       }
 
+      // Delivery updates for SMS threads (see sms-thread-service.ts)
+      if (process.env.BASE_URL) {
+        messageOptions.statusCallback = `${process.env.BASE_URL}/api/sms/status`;
+      }
+
       const twilioMessage = await this.client.messages.create(messageOptions);
 
       return {
@@ -88,7 +105,7 @@ export class TwilioIntegrationService {
       };
     } catch (error) {
       console.error('SMS send error:', error);
-      throw new Error('Failed to send SMS');
+      throw new Error(`Failed to send SMS: ${error instanceof Error ? error.message : error}`);
     }
   }
 
@@ -100,6 +117,11 @@ export class TwilioIntegrationService {
     const results: SMSMessage[] = [];
 
     for (const msg of messages) {
+      const check = await consentService.checkContact(msg.to, 'sms');
+      if (!check.allowed) {
+        console.log(`Skipped SMS to ${msg.to}: ${check.message}`);
+        continue;
+      }
       try {
         const smsResult = await this.sendSMS(msg.to, msg.message);
         if (smsResult) {
@@ -119,6 +141,7 @@ export class TwilioIntegrationService {
     if (!this.client || !this.phoneNumber) {
       throw new Error('Twilio not configured');
     }
+    await consentService.assertCanContact(to, 'voice');
 
     try {
       const twimlUrl = this.generateTwiMLUrl(purpose, customScript);
@@ -191,6 +214,7 @@ export class TwilioIntegrationService {
     if (!this.client || !this.phoneNumber) {
       throw new Error('Twilio not configured');
     }
+    await consentService.assertCanContact(to, 'voice');
 
     try {
       const call = await this.client.calls.create({
@@ -219,8 +243,13 @@ export class TwilioIntegrationService {
   async startDialerCampaign(contacts: Array<{ id: number; phoneNumber: string; name: string }>, script: string): Promise<string> {
     const campaignId = `campaign_${Date.now()}`;
     
-    // Process contacts in sequence with delays
+    // Process contacts in sequence with delays; numbers without consent, on the DNC list or in quiet hours are skipped
     for (const contact of contacts) {
+      const check = await consentService.checkContact(contact.phoneNumber, 'voice');
+      if (!check.allowed) {
+        console.log(`Skipped dialing ${contact.phoneNumber}: ${check.message}`);
+        continue;
+      }
       try {
         await this.makeCall(contact.phoneNumber, 'custom', script);
         // Add delay between calls (compliance requirement)
@@ -233,33 +262,29 @@ export class TwilioIntegrationService {
     return campaignId;
   }
 
-  // SMS Templates for Loan Origination
+  // SMS Templates for Loan Origination, in template engine syntax (see shared/template-fields.ts)
   getSMSTemplates(): Record<string, string> {
     return {
-      initial_followup: "Hi {firstName}, thanks for your interest in our commercial loan programs. I'd love to discuss your financing needs. When would be a good time for a quick call?",
-      document_reminder: "Hi {firstName}, we're still missing some documents for your loan application. Please upload them at {portalLink} or reply if you need help.",
-      rate_update: "Hi {firstName}, great news! Rates have improved since your inquiry. Current DSCR rates starting at {rate}%. Let's discuss your options.",
-      approval_notification: "Congratulations {firstName}! Your loan has been approved. Your loan officer will contact you shortly with next steps.",
-      appointment_reminder: "Hi {firstName}, this is a reminder of your appointment tomorrow at {time} with {loanOfficer}. Reply CONFIRM to confirm or RESCHEDULE if needed.",
-      referral_request: "Hi {firstName}, thanks for choosing us for your loan! If you know other investors who could benefit from our services, we'd appreciate the referral."
+      initial_followup: "Hi {{borrower.firstName}}, thanks for your interest in our commercial loan programs. I'd love to discuss your financing needs. When would be a good time for a quick call?",
+      document_reminder: "Hi {{borrower.firstName}}, we're still missing {{documents.missingCount}} documents for your loan application. Please upload them at {{portal.link}} or reply if you need help.",
+      rate_update: "Hi {{borrower.firstName}}, great news! Rates have improved since your inquiry.{{#if loan.interestRate}} Your loan is currently quoted at {{loan.interestRate}}.{{/if}} Let's discuss your options.",
+      approval_notification: "Congratulations {{borrower.firstName}}! Your loan has been approved. {{loanOfficer.fullName}} will contact you shortly with next steps.",
+      appointment_reminder: "Hi {{borrower.firstName}}, this is a reminder of your upcoming appointment with {{loanOfficer.fullName}}. Reply CONFIRM to confirm or RESCHEDULE if needed.",
+      referral_request: "Hi {{borrower.firstName}}, thanks for choosing us for your loan! If you know other investors who could benefit from our services, we'd appreciate the referral."
     };
   }
 
-  // Compliance and DNC Management
+  // Compliance and DNC Management, backed by the consent ledger (see consent-service.ts)
   async checkDNCStatus(phoneNumber: string): Promise<boolean> {
-    // In a real implementation, this would check against DNC registries
-    // For now, return false (not on DNC)
-    return false;
+    return consentService.isOnDoNotCall(phoneNumber);
   }
 
-  async addToDNC(phoneNumber: string): Promise<void> {
-    // Add to internal DNC list
-    console.log(`Added ${phoneNumber} to Do Not Call list`);
+  async addToDNC(phoneNumber: string, options?: ConsentRecordOptions): Promise<void> {
+    await consentService.addToDoNotCall(phoneNumber, options);
   }
 
-  async removeFromDNC(phoneNumber: string): Promise<void> {
-    // Remove from internal DNC list
-    console.log(`Removed ${phoneNumber} from Do Not Call list`);
+  async removeFromDNC(phoneNumber: string, consentText: string, options?: ConsentRecordOptions): Promise<void> {
+    await consentService.removeFromDoNotCall(phoneNumber, consentText, options);
   }
 }
 
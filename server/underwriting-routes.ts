@@ -0,0 +1,98 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { underwritingService } from "./underwriting-service";
+import { requirePermission } from "./rbac-service";
+
+const router = Router();
+
+const inputsSchema = z.object({
+  creditScore: z.coerce.number().int().min(300).max(850).optional(),
+  loanAmount: z.coerce.number().positive().optional(),
+  interestRate: z.coerce.number().min(0).optional(),
+  termMonths: z.coerce.number().int().positive().optional(),
+  interestOnly: z.boolean().optional(),
+  monthlyRent: z.coerce.number().min(0).optional(),
+  monthlyTaxes: z.coerce.number().min(0).optional(),
+  monthlyInsurance: z.coerce.number().min(0).optional(),
+  monthlyHoa: z.coerce.number().min(0).optional(),
+  monthlyFloodInsurance: z.coerce.number().min(0).optional(),
+  asIsValue: z.coerce.number().positive().optional(),
+  purchasePrice: z.coerce.number().positive().optional(),
+  rehabBudget: z.coerce.number().min(0).optional(),
+  arv: z.coerce.number().positive().optional(),
+  liquidAssets: z.coerce.number().min(0).optional(),
+  cashToClose: z.coerce.number().min(0).optional(),
+  completedProjects: z.coerce.number().int().min(0).optional(),
+  exitStrategy: z.string().optional(),
+});
+
+// Loans waiting on underwriting with their latest decision
+router.get("/underwriting/queue", requirePermission('underwriting.view'), async (req, res) => {
+  try {
+    const applications = await storage.getAllLoanApplicationsWithDetails();
+    const queue = [];
+    for (const application of applications) {
+      if (!underwritingService.getProgram(application.loanType)) continue;
+      if (!['document_review', 'underwriting', 'conditionally_approved'].includes(application.status)) continue;
+      queue.push({
+        ...application,
+        program: underwritingService.getProgram(application.loanType),
+        latestDecision: await underwritingService.getLatestDecision(application.id) || null
+      });
+    }
+    res.json(queue);
+  } catch (error) {
+    console.error("Underwriting queue error:", error);
+    res.status(500).json({ message: "Failed to fetch underwriting queue" });
+  }
+});
+
+// Preview an analysis without storing a decision
+router.post("/underwriting/:loanApplicationId/analyze", requirePermission('underwriting.view'), async (req, res) => {
+  try {
+    const result = inputsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid underwriting inputs", details: result.error.issues });
+    }
+
+    const loan = await storage.getLoanApplicationWithDetails(parseInt(req.params.loanApplicationId));
+    if (!loan) {
+      return res.status(404).json({ message: "Loan application not found" });
+    }
+
+    res.json(underwritingService.analyze(loan, result.data));
+  } catch (error) {
+    res.status(400).json({ message: error instanceof Error ? error.message : "Underwriting analysis failed" });
+  }
+});
+
+router.get("/underwriting/:loanApplicationId/decisions", requirePermission('underwriting.view'), async (req, res) => {
+  try {
+    const decisions = await underwritingService.getDecisions(parseInt(req.params.loanApplicationId));
+    res.json(decisions);
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch underwriting decisions" });
+  }
+});
+
+router.post("/underwriting/:loanApplicationId/decisions", requirePermission('underwriting.decide'), async (req, res) => {
+  try {
+    const { notes, underwriterId, ...inputs } = req.body;
+    const result = inputsSchema.safeParse(inputs);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid underwriting inputs", details: result.error.issues });
+    }
+
+    const decision = await underwritingService.underwrite(parseInt(req.params.loanApplicationId), result.data, {
+      underwriterId: underwriterId ? Number(underwriterId) : null,
+      notes
+    });
+    res.status(201).json(decision);
+  } catch (error) {
+    console.error("Underwriting decision error:", error);
+    res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record underwriting decision" });
+  }
+});
+
+export default router;
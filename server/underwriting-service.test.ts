@@ -0,0 +1,133 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+
+// db.ts refuses to load without a connection string; analyze() never sends a query
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+const { underwritingService } = await import("./underwriting-service");
+
+type LoanApplicationWithDetails = import("@shared/schema").LoanApplicationWithDetails;
+
+function loan(overrides: Record<string, unknown> = {}, property: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    loanType: 'dscr',
+    loanPurpose: 'purchase',
+    requestedAmount: '300000',
+    interestRate: '7.500',
+    termMonths: 360,
+    monthlyRent: '3000',
+    exitStrategy: null,
+    ...overrides,
+    property: { propertyValue: '400000', purchasePrice: '400000', rehabCost: null, arv: null, ...property },
+  } as unknown as LoanApplicationWithDetails;
+}
+
+const escrows = { monthlyTaxes: 400, monthlyInsurance: 150 };
+const finding = (result: { findings: Array<{ code: string; severity: string }> }, code: string) =>
+  result.findings.find(entry => entry.code === code)?.severity;
+
+describe("DSCR underwriting", () => {
+  test("computes DSCR from rent over PITIA and approves a loan inside every guideline", () => {
+    const result = underwritingService.analyze(loan(), { creditScore: 720, liquidAssets: 200000, ...escrows });
+    assert.equal(result.metrics.monthlyPrincipalAndInterest, 2097.64);
+    assert.equal(result.metrics.pitia, 2647.64);
+    assert.equal(result.metrics.dscr, 1.1331);
+    assert.equal(result.metrics.ltv, 0.75);
+    // (400,000 - 300,000) down plus 3% estimated closing costs, then 34 months of PITIA left over
+    assert.equal(result.metrics.cashToClose, 109000);
+    assert.equal(result.metrics.reserveMonths, 34.4);
+    assert.equal(result.decision, 'approve');
+  });
+
+  test("allows a DSCR under 1.00 only at 65% LTV or less, and then with a rent condition", () => {
+    const thinRent = { monthlyRent: '2100', requestedAmount: '260000' };
+    const lowLtv = underwritingService.analyze(loan(thinRent), { creditScore: 720, liquidAssets: 200000, ...escrows });
+    assert.equal(lowLtv.metrics.ltv, 0.65);
+    assert.equal(finding(lowLtv, 'dscr'), 'warning');
+    assert.equal(lowLtv.decision, 'approve_with_conditions');
+    assert.ok(lowLtv.conditions.some(condition => condition.includes('Form 1007')));
+
+    const highLtv = underwritingService.analyze(loan({ ...thinRent, requestedAmount: '280000' }), { creditScore: 720, liquidAssets: 200000, ...escrows });
+    assert.equal(finding(highLtv, 'dscr'), 'fail');
+    assert.equal(highLtv.decision, 'decline');
+  });
+
+  test("caps LTV at 70% below a 680 credit score", () => {
+    const result = underwritingService.analyze(loan(), { creditScore: 670, liquidAssets: 200000, ...escrows });
+    assert.equal(finding(result, 'ltv'), 'fail');
+    assert.equal(result.decision, 'decline');
+  });
+
+  test("suspends rather than declines when rent, credit or liquidity is missing", () => {
+    const result = underwritingService.analyze(loan({ monthlyRent: null }), escrows);
+    assert.equal(finding(result, 'dscr_missing'), 'missing');
+    assert.equal(finding(result, 'credit_score_missing'), 'missing');
+    assert.equal(finding(result, 'reserves_missing'), 'missing');
+    assert.equal(result.decision, 'suspend');
+  });
+
+  test("fails when liquidity does not cover cash to close", () => {
+    const result = underwritingService.analyze(loan(), { creditScore: 720, liquidAssets: 50000, ...escrows });
+    assert.equal(finding(result, 'liquidity'), 'fail');
+    assert.equal(result.decision, 'decline');
+  });
+});
+
+describe("fix-and-flip underwriting", () => {
+  const flip = (requestedAmount: string, rehabCost: string) => loan(
+    { loanType: 'fix-n-flip', requestedAmount, interestRate: '11.000', termMonths: 12, monthlyRent: null },
+    { propertyValue: '200000', purchasePrice: '200000', rehabCost, arv: '400000' }
+  );
+
+  test("sizes LTC and ARV-LTV limits by experience tier", () => {
+    // 245,000 against 280,000 of cost is 87.5% LTC: over the first-time limit, inside tier 1
+    const firstTime = underwritingService.analyze(flip('245000', '80000'), { creditScore: 700, liquidAssets: 150000, completedProjects: 0 });
+    assert.equal(firstTime.metrics.ltc, 0.875);
+    assert.equal(finding(firstTime, 'ltc'), 'fail');
+
+    const experienced = underwritingService.analyze(flip('245000', '80000'), { creditScore: 700, liquidAssets: 150000, completedProjects: 1 });
+    assert.equal(experienced.metrics.experienceTier, 'tier_1');
+    assert.equal(finding(experienced, 'ltc'), 'pass');
+    assert.equal(finding(experienced, 'arv_ltv'), 'pass');
+  });
+
+  test("charges interest-only payments and measures reserves in months of interest", () => {
+    const result = underwritingService.analyze(flip('200000', '50000'), { creditScore: 700, liquidAssets: 100000, completedProjects: 3 });
+    assert.equal(result.metrics.monthlyPrincipalAndInterest, 1833.33);
+    assert.equal(result.metrics.experienceTier, 'tier_2');
+    assert.equal(finding(result, 'reserves'), 'pass');
+  });
+
+  test("refuses heavy rehab below three completed projects and conditions it above", () => {
+    const novice = underwritingService.analyze(flip('250000', '250000'), { creditScore: 700, liquidAssets: 300000, completedProjects: 2 });
+    assert.equal(finding(novice, 'heavy_rehab'), 'fail');
+
+    const seasoned = underwritingService.analyze(flip('250000', '250000'), { creditScore: 700, liquidAssets: 300000, completedProjects: 3 });
+    assert.equal(finding(seasoned, 'heavy_rehab'), 'warning');
+    assert.ok(seasoned.conditions.includes('Contractor bid and permits for heavy rehab scope'));
+  });
+});
+
+describe("bridge underwriting", () => {
+  test("limits the term to 24 months and asks for an exit strategy", () => {
+    const bridge = loan({ loanType: 'bridge', requestedAmount: '300000', termMonths: 36, monthlyRent: null, loanPurpose: 'refinance' });
+    const result = underwritingService.analyze(bridge, { creditScore: 700, liquidAssets: 200000 });
+    assert.equal(finding(result, 'term'), 'fail');
+    assert.equal(finding(result, 'exit_strategy'), 'warning');
+    assert.equal(result.decision, 'decline');
+  });
+});
+
+describe("programs and tiers", () => {
+  test("maps loan types to programs and refuses the rest", () => {
+    assert.equal(underwritingService.getProgram('Fix-N-Flip'), 'fix_flip');
+    assert.equal(underwritingService.getProgram('hard-money'), 'fix_flip');
+    assert.equal(underwritingService.getProgram('construction'), undefined);
+    assert.throws(() => underwritingService.analyze(loan({ loanType: 'construction' })), /not available/);
+  });
+
+  test("places experience tiers at 1, 3 and 10 completed projects", () => {
+    assert.deepEqual([0, 1, 2, 3, 9, 10].map(count => underwritingService.getExperienceTier(count)),
+      ['tier_0', 'tier_1', 'tier_1', 'tier_2', 'tier_2', 'tier_3']);
+  });
+});
@@ -0,0 +1,469 @@
+// Underwriting Service
+// Deterministic underwriting for DSCR, fix-and-flip and bridge loans
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { loanStatusMachine } from "./loan-status-machine";
+import { loanConditionService } from "./loan-condition-service";
+import { tenantContext } from "./tenant-context";
+import {
+  underwritingDecisions,
+  type LoanApplicationWithDetails,
+  type UnderwritingDecision,
+} from "@shared/schema";
+import { desc, eq } from "drizzle-orm";
+
+export type UnderwritingProgram = 'dscr' | 'fix_flip' | 'bridge';
+export type UnderwritingDecisionType = 'approve' | 'approve_with_conditions' | 'suspend' | 'decline';
+export type ExperienceTier = 'tier_0' | 'tier_1' | 'tier_2' | 'tier_3';
+
+export interface UnderwritingInputs {
+  creditScore?: number;
+  loanAmount?: number; // defaults to requestedAmount
+  interestRate?: number; // annual %, defaults to loan.interestRate
+  termMonths?: number; // defaults to loan.termMonths
+  interestOnly?: boolean;
+  monthlyRent?: number; // defaults to loan.monthlyRent
+  monthlyTaxes?: number;
+  monthlyInsurance?: number;
+  monthlyHoa?: number;
+  monthlyFloodInsurance?: number;
+  asIsValue?: number; // defaults to property.propertyValue
+  purchasePrice?: number; // defaults to property.purchasePrice
+  rehabBudget?: number; // defaults to property.rehabCost
+  arv?: number; // defaults to property.arv
+  liquidAssets?: number; // verified liquidity
+  cashToClose?: number; // estimated when not supplied
+  completedProjects?: number; // flips or rentals completed in the last 36 months
+  exitStrategy?: string; // defaults to loan.exitStrategy
+}
+
+export interface UnderwritingFinding {
+  code: string;
+  severity: 'pass' | 'warning' | 'fail' | 'missing';
+  message: string;
+  value?: number | string | null;
+  threshold?: number | string | null;
+}
+
+export interface UnderwritingMetrics {
+  loanAmount: number;
+  monthlyPrincipalAndInterest: number | null;
+  pitia: number | null;
+  dscr: number | null;
+  ltv: number | null;
+  ltc: number | null;
+  arvLtv: number | null;
+  cashToClose: number | null;
+  reserveMonths: number | null;
+  experienceTier: ExperienceTier;
+}
+
+export interface UnderwritingResult {
+  program: UnderwritingProgram;
+  decision: UnderwritingDecisionType;
+  metrics: UnderwritingMetrics;
+  findings: UnderwritingFinding[];
+  conditions: string[];
+  inputs: UnderwritingInputs;
+}
+
+// Guideline thresholds per program; ratios are decimals (0.80 = 80%)
+const GUIDELINES = {
+  dscr: {
+    minCreditScore: 660,
+    minDscr: 1.0,
+    minDscrLowLtv: 0.75, // allowed when LTV is at or below lowLtvThreshold
+    lowLtvThreshold: 0.65,
+    maxLtv: { purchase: 0.80, refinance: 0.75, cash_out: 0.70 } as Record<string, number>,
+    maxLtvLowFico: 0.70, // FICO below 680
+    minReserveMonths: 6,
+  },
+  fix_flip: {
+    minCreditScore: 640,
+    maxLtcByTier: { tier_0: 0.85, tier_1: 0.875, tier_2: 0.90, tier_3: 0.925 } as Record<ExperienceTier, number>,
+    maxArvLtvByTier: { tier_0: 0.65, tier_1: 0.70, tier_2: 0.70, tier_3: 0.75 } as Record<ExperienceTier, number>,
+    heavyRehabRatio: 1.0, // rehab budget above 100% of purchase price
+    minReserveMonths: 3, // months of interest payments after cash to close
+  },
+  bridge: {
+    minCreditScore: 650,
+    maxLtv: 0.75,
+    maxTermMonths: 24,
+    minReserveMonths: 6,
+  },
+};
+
+const ESTIMATED_CLOSING_COST_RATE = 0.03;
+
+export class UnderwritingService {
+  private static instance: UnderwritingService;
+
+  public static getInstance(): UnderwritingService {
+    if (!UnderwritingService.instance) {
+      UnderwritingService.instance = new UnderwritingService();
+    }
+    return UnderwritingService.instance;
+  }
+
+  constructor() {
+    // A loan cannot be conditionally approved without an approving underwriting decision
+    loanStatusMachine.registerGuard('conditionally_approved', async (loan) => {
+      if (!this.getProgram(loan.loanType)) return { passed: true };
+      const latest = await this.getLatestDecision(loan.id);
+      if (!latest || !['approve', 'approve_with_conditions'].includes(latest.decision)) {
+        return { passed: false, message: 'An approving underwriting decision is required' };
+      }
+      return { passed: true };
+    });
+  }
+
+  getProgram(loanType: string): UnderwritingProgram | undefined {
+    const normalized = loanType.toLowerCase().replace(/-/g, '_');
+    if (normalized === 'dscr') return 'dscr';
+    if (['fix_n_flip', 'fix_flip', 'fix_and_flip', 'hard_money'].includes(normalized)) return 'fix_flip';
+    if (normalized === 'bridge') return 'bridge';
+    return undefined;
+  }
+
+  getExperienceTier(completedProjects: number): ExperienceTier {
+    if (completedProjects >= 10) return 'tier_3';
+    if (completedProjects >= 3) return 'tier_2';
+    if (completedProjects >= 1) return 'tier_1';
+    return 'tier_0';
+  }
+
+  // Fills inputs that were not supplied from the loan, property and borrower records
+  resolveInputs(loan: LoanApplicationWithDetails, inputs: UnderwritingInputs): UnderwritingInputs {
+    const num = (value: string | number | null | undefined) =>
+      value === null || value === undefined || value === '' ? undefined : Number(value);
+
+    return {
+      ...inputs,
+      loanAmount: inputs.loanAmount ?? num(loan.requestedAmount),
+      interestRate: inputs.interestRate ?? num(loan.interestRate),
+      termMonths: inputs.termMonths ?? loan.termMonths ?? undefined,
+      monthlyRent: inputs.monthlyRent ?? num(loan.monthlyRent),
+      asIsValue: inputs.asIsValue ?? num(loan.property.propertyValue),
+      purchasePrice: inputs.purchasePrice ?? num(loan.property.purchasePrice),
+      rehabBudget: inputs.rehabBudget ?? num(loan.property.rehabCost) ?? 0,
+      arv: inputs.arv ?? num(loan.property.arv),
+      exitStrategy: inputs.exitStrategy ?? loan.exitStrategy ?? undefined,
+      completedProjects: inputs.completedProjects ?? 0,
+    };
+  }
+
+  analyze(loan: LoanApplicationWithDetails, rawInputs: UnderwritingInputs = {}): UnderwritingResult {
+    const program = this.getProgram(loan.loanType);
+    if (!program) {
+      throw new Error(`Underwriting is not available for loan type ${loan.loanType}`);
+    }
+
+    const inputs = this.resolveInputs(loan, rawInputs);
+    const metrics = this.calculateMetrics(loan, program, inputs);
+    const findings: UnderwritingFinding[] = [];
+    const conditions: string[] = [];
+
+    this.checkCredit(program, inputs, findings);
+    switch (program) {
+      case 'dscr':
+        this.evaluateDscr(loan, inputs, metrics, findings, conditions);
+        break;
+      case 'fix_flip':
+        this.evaluateFixFlip(inputs, metrics, findings, conditions);
+        break;
+      case 'bridge':
+        this.evaluateBridge(inputs, metrics, findings, conditions);
+        break;
+    }
+
+    return {
+      program,
+      decision: this.decide(findings),
+      metrics,
+      findings,
+      conditions: Array.from(new Set(conditions)),
+      inputs
+    };
+  }
+
+  private calculateMetrics(loan: LoanApplicationWithDetails, program: UnderwritingProgram, inputs: UnderwritingInputs): UnderwritingMetrics {
+    const loanAmount = inputs.loanAmount || 0;
+    const rate = inputs.interestRate;
+    const termMonths = inputs.termMonths || (program === 'dscr' ? 360 : 12);
+    // Rehab and bridge loans are interest-only by convention
+    const interestOnly = inputs.interestOnly ?? program !== 'dscr';
+
+    let monthlyPrincipalAndInterest: number | null = null;
+    if (rate !== undefined && loanAmount > 0) {
+      const monthlyRate = rate / 100 / 12;
+      if (interestOnly) {
+        monthlyPrincipalAndInterest = loanAmount * monthlyRate;
+      } else if (monthlyRate === 0) {
+        monthlyPrincipalAndInterest = loanAmount / termMonths;
+      } else {
+        monthlyPrincipalAndInterest = (loanAmount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+      }
+    }
+
+    const escrows = (inputs.monthlyTaxes || 0) + (inputs.monthlyInsurance || 0) +
+      (inputs.monthlyHoa || 0) + (inputs.monthlyFloodInsurance || 0);
+    const pitia = monthlyPrincipalAndInterest !== null ? monthlyPrincipalAndInterest + escrows : null;
+
+    const dscr = pitia && inputs.monthlyRent ? inputs.monthlyRent / pitia : null;
+
+    const isPurchase = (loan.loanPurpose || 'purchase') === 'purchase';
+    const valueBasis = isPurchase && inputs.purchasePrice && inputs.asIsValue
+      ? Math.min(inputs.purchasePrice, inputs.asIsValue)
+      : inputs.asIsValue ?? inputs.purchasePrice;
+    const ltv = valueBasis ? loanAmount / valueBasis : null;
+
+    const totalCost = (inputs.purchasePrice || 0) + (inputs.rehabBudget || 0);
+    const ltc = totalCost > 0 ? loanAmount / totalCost : null;
+    const arvLtv = inputs.arv ? loanAmount / inputs.arv : null;
+
+    let cashToClose: number | null = inputs.cashToClose ?? null;
+    if (cashToClose === null && isPurchase && inputs.purchasePrice) {
+      cashToClose = Math.max(0, totalCost - loanAmount) + loanAmount * ESTIMATED_CLOSING_COST_RATE;
+    } else if (cashToClose === null) {
+      cashToClose = loanAmount * ESTIMATED_CLOSING_COST_RATE;
+    }
+
+    // Reserves are measured in months of the carrying payment left after closing
+    const monthlyCarry = program === 'dscr' ? pitia : monthlyPrincipalAndInterest;
+    const reserveMonths = inputs.liquidAssets !== undefined && monthlyCarry
+      ? (inputs.liquidAssets - cashToClose) / monthlyCarry
+      : null;
+
+    const round = (value: number | null, digits = 4) =>
+      value === null ? null : Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits);
+
+    return {
+      loanAmount,
+      monthlyPrincipalAndInterest: round(monthlyPrincipalAndInterest, 2),
+      pitia: round(pitia, 2),
+      dscr: round(dscr),
+      ltv: round(ltv),
+      ltc: round(ltc),
+      arvLtv: round(arvLtv),
+      cashToClose: round(cashToClose, 2),
+      reserveMonths: round(reserveMonths, 1),
+      experienceTier: this.getExperienceTier(inputs.completedProjects || 0)
+    };
+  }
+
+  private checkCredit(program: UnderwritingProgram, inputs: UnderwritingInputs, findings: UnderwritingFinding[]): void {
+    const minCreditScore = GUIDELINES[program].minCreditScore;
+    if (inputs.creditScore === undefined) {
+      findings.push({ code: 'credit_score_missing', severity: 'missing', message: 'Credit score has not been provided' });
+    } else if (inputs.creditScore < minCreditScore) {
+      findings.push({ code: 'credit_score', severity: 'fail', message: `Credit score below program minimum of ${minCreditScore}`, value: inputs.creditScore, threshold: minCreditScore });
+    } else {
+      findings.push({ code: 'credit_score', severity: 'pass', message: 'Credit score meets program minimum', value: inputs.creditScore, threshold: minCreditScore });
+    }
+  }
+
+  private checkReserves(minMonths: number, metrics: UnderwritingMetrics, findings: UnderwritingFinding[], conditions: string[]): void {
+    if (metrics.reserveMonths === null) {
+      findings.push({ code: 'reserves_missing', severity: 'missing', message: 'Liquidity has not been verified' });
+    } else if (metrics.reserveMonths < 0) {
+      findings.push({ code: 'liquidity', severity: 'fail', message: 'Verified liquidity does not cover cash to close', value: metrics.reserveMonths, threshold: 0 });
+    } else if (metrics.reserveMonths < minMonths) {
+      findings.push({ code: 'reserves', severity: 'warning', message: `Reserves below ${minMonths} months`, value: metrics.reserveMonths, threshold: minMonths });
+      conditions.push(`Document additional liquidity to cover ${minMonths} months of reserves`);
+    } else {
+      findings.push({ code: 'reserves', severity: 'pass', message: 'Reserves meet requirement', value: metrics.reserveMonths, threshold: minMonths });
+    }
+  }
+
+  private evaluateDscr(
+    loan: LoanApplicationWithDetails,
+    inputs: UnderwritingInputs,
+    metrics: UnderwritingMetrics,
+    findings: UnderwritingFinding[],
+    conditions: string[]
+  ): void {
+    const guide = GUIDELINES.dscr;
+
+    if (metrics.ltv === null) {
+      findings.push({ code: 'ltv_missing', severity: 'missing', message: 'Property value or purchase price is required to compute LTV' });
+    } else {
+      const purpose = (loan.loanPurpose || 'purchase').replace('-', '_');
+      let maxLtv = guide.maxLtv[purpose] ?? guide.maxLtv.refinance;
+      if (inputs.creditScore !== undefined && inputs.creditScore < 680) {
+        maxLtv = Math.min(maxLtv, guide.maxLtvLowFico);
+      }
+      findings.push(metrics.ltv > maxLtv
+        ? { code: 'ltv', severity: 'fail', message: `LTV exceeds maximum of ${(maxLtv * 100).toFixed(1)}%`, value: metrics.ltv, threshold: maxLtv }
+        : { code: 'ltv', severity: 'pass', message: 'LTV within guidelines', value: metrics.ltv, threshold: maxLtv });
+    }
+
+    if (metrics.dscr === null) {
+      const missing = !inputs.monthlyRent ? 'Monthly rent' : 'Interest rate';
+      findings.push({ code: 'dscr_missing', severity: 'missing', message: `${missing} is required to compute DSCR` });
+    } else if (metrics.dscr >= guide.minDscr) {
+      findings.push({ code: 'dscr', severity: 'pass', message: 'DSCR meets minimum', value: metrics.dscr, threshold: guide.minDscr });
+    } else if (metrics.dscr >= guide.minDscrLowLtv && metrics.ltv !== null && metrics.ltv <= guide.lowLtvThreshold) {
+      findings.push({ code: 'dscr', severity: 'warning', message: `DSCR below ${guide.minDscr.toFixed(2)} allowed at ${guide.lowLtvThreshold * 100}% LTV or less`, value: metrics.dscr, threshold: guide.minDscrLowLtv });
+      conditions.push('Executed leases or market rent survey (Form 1007) supporting rental income');
+    } else {
+      findings.push({ code: 'dscr', severity: 'fail', message: `DSCR below minimum of ${guide.minDscr.toFixed(2)}`, value: metrics.dscr, threshold: guide.minDscr });
+    }
+
+    if (!inputs.monthlyTaxes || !inputs.monthlyInsurance) {
+      findings.push({ code: 'escrows_estimated', severity: 'warning', message: 'Taxes or insurance not provided; PITIA may be understated' });
+      conditions.push('Tax certificate and hazard insurance quote');
+    }
+
+    this.checkReserves(guide.minReserveMonths, metrics, findings, conditions);
+
+    conditions.push('Appraisal with rent schedule supporting value and market rent');
+    conditions.push('Entity documents and certificate of good standing');
+  }
+
+  private evaluateFixFlip(
+    inputs: UnderwritingInputs,
+    metrics: UnderwritingMetrics,
+    findings: UnderwritingFinding[],
+    conditions: string[]
+  ): void {
+    const guide = GUIDELINES.fix_flip;
+    const tier = metrics.experienceTier;
+
+    if (metrics.ltc === null) {
+      findings.push({ code: 'ltc_missing', severity: 'missing', message: 'Purchase price and rehab budget are required to compute LTC' });
+    } else {
+      const maxLtc = guide.maxLtcByTier[tier];
+      findings.push(metrics.ltc > maxLtc
+        ? { code: 'ltc', severity: 'fail', message: `LTC exceeds ${(maxLtc * 100).toFixed(1)}% for ${tier.replace('_', ' ')}`, value: metrics.ltc, threshold: maxLtc }
+        : { code: 'ltc', severity: 'pass', message: 'LTC within experience tier limit', value: metrics.ltc, threshold: maxLtc });
+    }
+
+    if (metrics.arvLtv === null) {
+      findings.push({ code: 'arv_missing', severity: 'missing', message: 'After repair value is required' });
+    } else {
+      const maxArvLtv = guide.maxArvLtvByTier[tier];
+      findings.push(metrics.arvLtv > maxArvLtv
+        ? { code: 'arv_ltv', severity: 'fail', message: `ARV-LTV exceeds ${(maxArvLtv * 100).toFixed(1)}%`, value: metrics.arvLtv, threshold: maxArvLtv }
+        : { code: 'arv_ltv', severity: 'pass', message: 'ARV-LTV within limit', value: metrics.arvLtv, threshold: maxArvLtv });
+    }
+
+    if (inputs.purchasePrice && inputs.rehabBudget && inputs.rehabBudget / inputs.purchasePrice > guide.heavyRehabRatio) {
+      if (tier === 'tier_0' || tier === 'tier_1') {
+        findings.push({ code: 'heavy_rehab', severity: 'fail', message: 'Heavy rehab requires at least 3 completed projects', value: inputs.completedProjects ?? 0, threshold: 3 });
+      } else {
+        findings.push({ code: 'heavy_rehab', severity: 'warning', message: 'Heavy rehab scope (budget exceeds purchase price)' });
+        conditions.push('Contractor bid and permits for heavy rehab scope');
+      }
+    }
+
+    if (tier === 'tier_0') {
+      findings.push({ code: 'experience', severity: 'warning', message: 'First-time investor' });
+      conditions.push('Licensed general contractor agreement');
+    } else {
+      findings.push({ code: 'experience', severity: 'pass', message: `Experience ${tier.replace('_', ' ')}`, value: inputs.completedProjects ?? 0 });
+    }
+
+    this.checkReserves(guide.minReserveMonths, metrics, findings, conditions);
+
+    conditions.push('Detailed scope of work and rehab budget');
+    conditions.push('As-is and after-repair value appraisal');
+  }
+
+  private evaluateBridge(
+    inputs: UnderwritingInputs,
+    metrics: UnderwritingMetrics,
+    findings: UnderwritingFinding[],
+    conditions: string[]
+  ): void {
+    const guide = GUIDELINES.bridge;
+
+    if (metrics.ltv === null) {
+      findings.push({ code: 'ltv_missing', severity: 'missing', message: 'Property value is required to compute LTV' });
+    } else {
+      findings.push(metrics.ltv > guide.maxLtv
+        ? { code: 'ltv', severity: 'fail', message: `LTV exceeds maximum of ${guide.maxLtv * 100}%`, value: metrics.ltv, threshold: guide.maxLtv }
+        : { code: 'ltv', severity: 'pass', message: 'LTV within guidelines', value: metrics.ltv, threshold: guide.maxLtv });
+    }
+
+    if (inputs.termMonths && inputs.termMonths > guide.maxTermMonths) {
+      findings.push({ code: 'term', severity: 'fail', message: `Bridge term cannot exceed ${guide.maxTermMonths} months`, value: inputs.termMonths, threshold: guide.maxTermMonths });
+    }
+
+    if (!inputs.exitStrategy) {
+      findings.push({ code: 'exit_strategy', severity: 'warning', message: 'Exit strategy not documented' });
+      conditions.push('Written exit strategy (sale or refinance) with supporting evidence');
+    } else {
+      findings.push({ code: 'exit_strategy', severity: 'pass', message: `Exit strategy: ${inputs.exitStrategy}` });
+    }
+
+    this.checkReserves(guide.minReserveMonths, metrics, findings, conditions);
+
+    conditions.push('Appraisal supporting as-is value');
+  }
+
+  private decide(findings: UnderwritingFinding[]): UnderwritingDecisionType {
+    if (findings.some(finding => finding.severity === 'fail')) return 'decline';
+    if (findings.some(finding => finding.severity === 'missing')) return 'suspend';
+    if (findings.some(finding => finding.severity === 'warning')) return 'approve_with_conditions';
+    return 'approve';
+  }
+
+  async underwrite(
+    loanApplicationId: number,
+    inputs: UnderwritingInputs,
+    options: { underwriterId?: number | null; notes?: string } = {}
+  ): Promise<UnderwritingDecision> {
+    const loan = await storage.getLoanApplicationWithDetails(loanApplicationId);
+    if (!loan) {
+      throw new Error('Loan application not found');
+    }
+
+    const result = this.analyze(loan, inputs);
+
+    const [decision] = await db.insert(underwritingDecisions).values({
+      loanApplicationId,
+      program: result.program,
+      decision: result.decision,
+      inputs: result.inputs,
+      metrics: result.metrics,
+      findings: result.findings,
+      conditions: result.conditions,
+      underwriterId: options.underwriterId ?? null,
+      notes: options.notes || null
+    }).returning();
+
+    // Approvals carry their conditions into the conditions tracker
+    if (['approve', 'approve_with_conditions'].includes(result.decision)) {
+      await loanConditionService.createFromUnderwriting(loanApplicationId, decision.id, result.conditions);
+    }
+
+    // Keep the loan's headline ratios in sync with the latest underwriting run
+    await storage.updateLoanApplication(loanApplicationId, {
+      ...(result.metrics.ltv !== null && { ltv: (result.metrics.ltv * 100).toFixed(2) }),
+      ...(result.metrics.dscr !== null && { dscr: result.metrics.dscr.toFixed(2) })
+    });
+
+    return decision;
+  }
+
+  async getDecisions(loanApplicationId: number): Promise<UnderwritingDecision[]> {
+    return db
+      .select()
+      .from(underwritingDecisions)
+      .where(tenantContext.whereLoan(underwritingDecisions.loanApplicationId, eq(underwritingDecisions.loanApplicationId, loanApplicationId)))
+      .orderBy(desc(underwritingDecisions.createdAt));
+  }
+
+  async getLatestDecision(loanApplicationId: number): Promise<UnderwritingDecision | undefined> {
+    const [latest] = await db
+      .select()
+      .from(underwritingDecisions)
+      .where(tenantContext.whereLoan(underwritingDecisions.loanApplicationId, eq(underwritingDecisions.loanApplicationId, loanApplicationId)))
+      .orderBy(desc(underwritingDecisions.createdAt))
+      .limit(1);
+    return latest;
+  }
+}
+
+export const underwritingService = UnderwritingService.getInstance();
@@ -0,0 +1,427 @@
+// Workflow Automation Engine
+// Stores workflow definitions, reacts to loan lifecycle events and runs their steps
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { loanStatusMachine } from "./loan-status-machine";
+import { templateEngine } from "./template-engine";
+import { tenantContext } from "./tenant-context";
+import {
+  workflows,
+  workflowExecutions,
+  type Workflow,
+  type WorkflowExecution,
+  type WorkflowStepDefinition,
+  type WorkflowStepResult,
+  type LoanApplicationWithDetails,
+} from "@shared/schema";
+import { and, desc, eq, inArray, lte, type SQL } from "drizzle-orm";
+
+export type WorkflowTriggerType = 'application_created' | 'document_uploaded' | 'status_changed' | 'schedule';
+
+export interface WorkflowEvent {
+  type: WorkflowTriggerType;
+  loanApplicationId: number;
+  payload?: Record<string, any>;
+}
+
+export interface WorkflowConditionConfig {
+  field: string; // e.g. 'status', 'requestedAmount', 'borrower.state', 'property.propertyType'
+  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains' | 'in' | 'is_empty' | 'is_not_empty';
+  value?: any;
+}
+
+const TICK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_SCHEDULE_INTERVAL_MINUTES = 24 * 60;
+
+export class WorkflowEngine {
+  private static instance: WorkflowEngine;
+  private timer: NodeJS.Timeout | null = null;
+
+  public static getInstance(): WorkflowEngine {
+    if (!WorkflowEngine.instance) {
+      WorkflowEngine.instance = new WorkflowEngine();
+    }
+    return WorkflowEngine.instance;
+  }
+
+  constructor() {
+    loanStatusMachine.onTransition(event => {
+      this.emit({
+        type: 'status_changed',
+        loanApplicationId: event.loanApplicationId,
+        payload: { fromStatus: event.fromStatus, toStatus: event.toStatus, source: event.source }
+      });
+    });
+  }
+
+  // Starts the background ticker that resumes delayed executions and fires scheduled workflows
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      tenantContext.runAsSystem(() => this.tick()).catch(error => console.error('Workflow engine tick error:', error));
+    }, TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Definitions belong to the current organization; executions through their workflow
+  async listWorkflows(): Promise<Workflow[]> {
+    return db.select().from(workflows)
+      .where(tenantContext.where(workflows.organizationId))
+      .orderBy(desc(workflows.createdAt));
+  }
+
+  async getWorkflow(id: number): Promise<Workflow | undefined> {
+    const [workflow] = await db.select().from(workflows)
+      .where(tenantContext.where(workflows.organizationId, eq(workflows.id, id)));
+    return workflow;
+  }
+
+  async createWorkflow(data: Omit<typeof workflows.$inferInsert, 'organizationId'>): Promise<Workflow> {
+    const [workflow] = await db.insert(workflows)
+      .values({ ...data, organizationId: tenantContext.requireOrganizationId() })
+      .returning();
+    return workflow;
+  }
+
+  async updateWorkflow(id: number, data: Partial<typeof workflows.$inferInsert>): Promise<Workflow | undefined> {
+    const [workflow] = await db
+      .update(workflows)
+      .set({ ...data, organizationId: undefined, updatedAt: new Date() })
+      .where(tenantContext.where(workflows.organizationId, eq(workflows.id, id)))
+      .returning();
+    return workflow;
+  }
+
+  async deleteWorkflow(id: number): Promise<boolean> {
+    const workflow = await this.getWorkflow(id);
+    if (!workflow) return false;
+    await db.delete(workflowExecutions).where(eq(workflowExecutions.workflowId, workflow.id));
+    await db.delete(workflows).where(eq(workflows.id, workflow.id));
+    return true;
+  }
+
+  async listExecutions(workflowId?: number, limit = 100): Promise<WorkflowExecution[]> {
+    return db.select().from(workflowExecutions)
+      .where(this.executionScope(workflowId ? eq(workflowExecutions.workflowId, workflowId) : undefined))
+      .orderBy(desc(workflowExecutions.startedAt))
+      .limit(limit);
+  }
+
+  private executionScope(condition?: SQL): SQL | undefined {
+    if (tenantContext.scopedOrganizationId() === null) return condition;
+    const visible = inArray(workflowExecutions.workflowId, db.select({ id: workflows.id }).from(workflows)
+      .where(tenantContext.where(workflows.organizationId)));
+    return condition ? and(condition, visible) : visible;
+  }
+
+  async getExecutionStats(): Promise<Map<number, { executions: number; successRate: number }>> {
+    const executions = await db.select().from(workflowExecutions).where(this.executionScope());
+    const stats = new Map<number, { total: number; completed: number; failed: number }>();
+
+    for (const execution of executions) {
+      const entry = stats.get(execution.workflowId) || { total: 0, completed: 0, failed: 0 };
+      entry.total++;
+      if (execution.status === 'completed') entry.completed++;
+      if (execution.status === 'failed') entry.failed++;
+      stats.set(execution.workflowId, entry);
+    }
+
+    const result = new Map<number, { executions: number; successRate: number }>();
+    stats.forEach((entry, workflowId) => {
+      const finished = entry.completed + entry.failed;
+      result.set(workflowId, {
+        executions: entry.total,
+        successRate: finished > 0 ? Math.round((entry.completed / finished) * 1000) / 10 : 100
+      });
+    });
+    return result;
+  }
+
+  // Event entry point - called from the routes whenever a loan lifecycle event happens. Only the loan's own
+  // organization's workflows react to it.
+  async handleEvent(event: WorkflowEvent): Promise<WorkflowExecution[]> {
+    const loan = await storage.getLoanApplication(event.loanApplicationId);
+    if (!loan) return [];
+
+    return tenantContext.run(loan.organizationId, async () => {
+      const candidates = await db
+        .select()
+        .from(workflows)
+        .where(tenantContext.where(workflows.organizationId, and(eq(workflows.status, 'active'), eq(workflows.triggerType, event.type))));
+
+      const executions: WorkflowExecution[] = [];
+      for (const workflow of candidates) {
+        if (!this.matchesTrigger(workflow, event)) continue;
+        executions.push(await this.startExecution(workflow, event));
+      }
+      return executions;
+    });
+  }
+
+  // Fire-and-forget wrapper so request handlers never fail because of automation
+  emit(event: WorkflowEvent): void {
+    this.handleEvent(event).catch(error => {
+      console.error(`Workflow event ${event.type} failed:`, error);
+    });
+  }
+
+  // Trigger config keys are those of workflowTriggerSchema
+  private matchesTrigger(workflow: Workflow, event: WorkflowEvent): boolean {
+    const config = workflow.triggerConfig || {};
+    const payload = event.payload || {};
+
+    switch (event.type) {
+      case 'status_changed':
+        if (config.fromStatus && config.fromStatus !== payload.fromStatus) return false;
+        if (config.toStatus && config.toStatus !== payload.toStatus) return false;
+        return true;
+      case 'document_uploaded':
+        if (config.category && config.category !== payload.category) return false;
+        return true;
+      case 'application_created':
+        if (config.loanType && config.loanType !== payload.loanType) return false;
+        return true;
+      default:
+        return true;
+    }
+  }
+
+  private async startExecution(workflow: Workflow, event: WorkflowEvent): Promise<WorkflowExecution> {
+    const [execution] = await db.insert(workflowExecutions).values({
+      workflowId: workflow.id,
+      loanApplicationId: event.loanApplicationId,
+      triggerType: event.type,
+      triggerPayload: event.payload || {},
+      status: 'running',
+      currentStep: 0,
+      stepResults: []
+    }).returning();
+
+    await db.update(workflows).set({ lastRunAt: new Date() }).where(eq(workflows.id, workflow.id));
+
+    return this.runExecution(workflow, execution);
+  }
+
+  // Runs steps from execution.currentStep until the workflow ends, fails or hits a delay
+  private async runExecution(workflow: Workflow, execution: WorkflowExecution): Promise<WorkflowExecution> {
+    const steps = (workflow.steps || []).filter(step => step.type !== 'trigger');
+    const stepResults = [...(execution.stepResults || [])];
+    let currentStep = execution.currentStep;
+
+    try {
+      while (currentStep < steps.length) {
+        const step = steps[currentStep];
+        const startedAt = new Date().toISOString();
+        const loan = execution.loanApplicationId
+          ? await storage.getLoanApplicationWithDetails(execution.loanApplicationId)
+          : undefined;
+
+        if (step.type === 'delay') {
+          const alreadyWaited = stepResults.some(result => result.stepId === step.id && result.status === 'waiting');
+          if (!alreadyWaited) {
+            const resumeAt = new Date(Date.now() + this.getDelayMs(step.config));
+            stepResults.push({ stepId: step.id, type: step.type, name: step.name, status: 'waiting', output: { resumeAt }, startedAt });
+            return this.saveExecution(execution.id, { status: 'waiting', currentStep, stepResults, resumeAt });
+          }
+          stepResults.push({ stepId: step.id, type: step.type, name: step.name, status: 'completed', startedAt, completedAt: new Date().toISOString() });
+          currentStep++;
+          continue;
+        }
+
+        if (step.type === 'condition') {
+          const passed = loan ? this.evaluateCondition(step.config as WorkflowConditionConfig, loan) : false;
+          stepResults.push({
+            stepId: step.id,
+            type: step.type,
+            name: step.name,
+            status: passed ? 'completed' : 'skipped',
+            output: { passed },
+            startedAt,
+            completedAt: new Date().toISOString()
+          });
+          if (!passed) {
+            // A failed condition ends the run without marking it as an error
+            return this.saveExecution(execution.id, { status: 'completed', currentStep, stepResults, resumeAt: null, completedAt: new Date() });
+          }
+          currentStep++;
+          continue;
+        }
+
+        const output = await this.runAction(step, loan);
+        stepResults.push({ stepId: step.id, type: step.type, name: step.name, status: 'completed', output, startedAt, completedAt: new Date().toISOString() });
+        currentStep++;
+      }
+
+      return this.saveExecution(execution.id, { status: 'completed', currentStep, stepResults, resumeAt: null, completedAt: new Date() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const step = steps[currentStep];
+      if (step) {
+        stepResults.push({ stepId: step.id, type: step.type, name: step.name, status: 'failed', error: message, startedAt: new Date().toISOString() });
+      }
+      console.error(`Workflow ${workflow.id} execution ${execution.id} failed:`, error);
+      return this.saveExecution(execution.id, { status: 'failed', currentStep, stepResults, error: message, resumeAt: null, completedAt: new Date() });
+    }
+  }
+
+  private async saveExecution(id: number, data: Partial<typeof workflowExecutions.$inferInsert>): Promise<WorkflowExecution> {
+    const [execution] = await db.update(workflowExecutions).set(data).where(eq(workflowExecutions.id, id)).returning();
+    return execution;
+  }
+
+  private getDelayMs(config: Record<string, any>): number {
+    const minutes = Number(config.minutes || 0);
+    const hours = Number(config.hours || 0);
+    const days = Number(config.days || 0);
+    return ((days * 24 + hours) * 60 + minutes) * 60 * 1000;
+  }
+
+  evaluateCondition(condition: WorkflowConditionConfig, loan: LoanApplicationWithDetails): boolean {
+    const actual = this.resolveField(loan, condition.field);
+    const expected = condition.value;
+
+    switch (condition.operator) {
+      case 'equals':
+        return String(actual) === String(expected);
+      case 'not_equals':
+        return String(actual) !== String(expected);
+      case 'greater_than':
+        return parseFloat(actual) > parseFloat(expected);
+      case 'less_than':
+        return parseFloat(actual) < parseFloat(expected);
+      case 'contains':
+        return actual != null && String(actual).toLowerCase().includes(String(expected).toLowerCase());
+      case 'in':
+        return Array.isArray(expected) && expected.map(String).includes(String(actual));
+      case 'is_empty':
+        return actual == null || actual === '' || (Array.isArray(actual) && actual.length === 0);
+      case 'is_not_empty':
+        return !(actual == null || actual === '' || (Array.isArray(actual) && actual.length === 0));
+      default:
+        throw new Error(`Unknown condition operator: ${condition.operator}`);
+    }
+  }
+
+  private resolveField(loan: LoanApplicationWithDetails, field: string): any {
+    return field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), loan);
+  }
+
+  private async runAction(step: WorkflowStepDefinition, loan?: LoanApplicationWithDetails): Promise<any> {
+    const config = step.config || {};
+    const action = config.action || config.type;
+
+    if (!loan) {
+      throw new Error('Loan application not found for workflow action');
+    }
+
+    switch (action) {
+      case 'create_task': {
+        const dueInDays = Number(config.dueInDays ?? 3);
+        const task = await storage.createTask({
+          loanApplicationId: loan.id,
+          assignedToId: config.assignedToId ? Number(config.assignedToId) : loan.loanOfficerId,
+          title: await this.interpolate(config.title || step.name, loan),
+          description: config.description ? await this.interpolate(config.description, loan) : null,
+          priority: config.priority || 'medium',
+          status: 'pending',
+          dueDate: new Date(Date.now() + dueInDays * 24 * 60 * 60 * 1000)
+        });
+        return { taskId: task.id };
+      }
+      case 'send_email':
+      case 'send_sms': {
+        const isEmail = action === 'send_email';
+        // A saved template (config.templateId) or the step's own subject and message
+        const template = config.templateId
+          ? await storage.getTemplate(Number(config.templateId))
+          : { type: isEmail ? 'email' : 'sms', subject: config.subject || step.name, content: config.message || '' };
+        if (!template) throw new Error(`Template ${config.templateId} not found`);
+        const rendered = await templateEngine.renderTemplate(template, loan);
+
+        const notification = await storage.createNotification({
+          loanApplicationId: loan.id,
+          borrowerId: loan.borrowerId,
+          type: isEmail ? 'email' : 'sms',
+          recipient: config.recipient || (isEmail ? loan.borrower.email : loan.borrower.phone),
+          subject: isEmail ? rendered.subject || step.name : null,
+          message: rendered.text,
+          status: 'pending'
+        });
+        return { notificationId: notification.id };
+      }
+      case 'update_status': {
+        if (!config.status) throw new Error('update_status action requires a status');
+        const fromStatus = loan.status;
+        const updated = await loanStatusMachine.transition(loan.id, {
+          toStatus: config.status,
+          reason: config.reason || `Workflow step: ${step.name}`,
+          source: 'workflow'
+        });
+        return { fromStatus, toStatus: updated.status };
+      }
+      default:
+        throw new Error(`Unsupported workflow action: ${action}`);
+    }
+  }
+
+  // Merge fields such as {{borrower.firstName}} or the legacy {firstName}, rendered by the template engine
+  private async interpolate(text: string, loan: LoanApplicationWithDetails): Promise<string> {
+    return templateEngine.render(text, await templateEngine.buildContext(loan));
+  }
+
+  private async tick(): Promise<void> {
+    await this.resumeWaitingExecutions();
+    await this.runScheduledWorkflows();
+  }
+
+  private async resumeWaitingExecutions(): Promise<void> {
+    const due = await db
+      .select()
+      .from(workflowExecutions)
+      .where(and(eq(workflowExecutions.status, 'waiting'), lte(workflowExecutions.resumeAt, new Date())));
+
+    for (const execution of due) {
+      const workflow = await this.getWorkflow(execution.workflowId);
+      if (!workflow || workflow.status !== 'active' || !workflow.organizationId) continue;
+      await tenantContext.run(workflow.organizationId, async () => {
+        const running = await this.saveExecution(execution.id, { status: 'running', resumeAt: null });
+        await this.runExecution(workflow, running);
+      });
+    }
+  }
+
+  // Scheduled workflows run once per matching loan of their organization every `intervalMinutes`
+  private async runScheduledWorkflows(): Promise<void> {
+    const scheduled = await db
+      .select()
+      .from(workflows)
+      .where(and(eq(workflows.status, 'active'), eq(workflows.triggerType, 'schedule')));
+
+    for (const workflow of scheduled) {
+      const config = workflow.triggerConfig || {};
+      const intervalMs = Number(config.intervalMinutes || DEFAULT_SCHEDULE_INTERVAL_MINUTES) * 60 * 1000;
+      if (!workflow.organizationId) continue;
+      if (workflow.lastRunAt && Date.now() - new Date(workflow.lastRunAt).getTime() < intervalMs) continue;
+
+      await tenantContext.run(workflow.organizationId, async () => {
+        const applications = await storage.getAllLoanApplications();
+        const statuses: string[] | undefined = config.statuses;
+        const targets = statuses?.length ? applications.filter(app => statuses.includes(app.status)) : applications;
+
+        for (const application of targets) {
+          await this.startExecution(workflow, { type: 'schedule', loanApplicationId: application.id });
+        }
+      });
+      await db.update(workflows).set({ lastRunAt: new Date() }).where(eq(workflows.id, workflow.id));
+    }
+  }
+}
+
+export const workflowEngine = WorkflowEngine.getInstance();
@@ -0,0 +1,153 @@
+import { Router } from "express";
+import { z } from "zod";
+import { insertWorkflowSchema, workflowTriggerSchema, type Workflow, type WorkflowExecution } from "@shared/schema";
+import { workflowEngine } from "./workflow-engine";
+import { requirePermission, type StaffRequest } from "./rbac-service";
+
+const router = Router();
+
+// The workflow builder sends trigger as a nested object
+const workflowBodySchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional().nullable(),
+  status: z.enum(['draft', 'active', 'paused']).optional(),
+  trigger: workflowTriggerSchema,
+  steps: insertWorkflowSchema.shape.steps.default([])
+});
+
+function serializeWorkflow(workflow: Workflow, stats?: { executions: number; successRate: number }) {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    status: workflow.status,
+    trigger: { type: workflow.triggerType, config: workflow.triggerConfig || {} },
+    steps: workflow.steps,
+    executions: stats?.executions || 0,
+    successRate: stats?.successRate ?? 100,
+    lastRunAt: workflow.lastRunAt,
+    createdAt: workflow.createdAt,
+    updatedAt: workflow.updatedAt
+  };
+}
+
+function serializeExecution(execution: WorkflowExecution) {
+  const startTime = new Date(execution.startedAt);
+  return {
+    ...execution,
+    startTime,
+    duration: execution.completedAt ? new Date(execution.completedAt).getTime() - startTime.getTime() : null
+  };
+}
+
+router.get("/workflows", requirePermission('settings.view'), async (req, res) => {
+  try {
+    const [list, stats] = await Promise.all([
+      workflowEngine.listWorkflows(),
+      workflowEngine.getExecutionStats()
+    ]);
+    res.json(list.map(workflow => serializeWorkflow(workflow, stats.get(workflow.id))));
+  } catch (error) {
+    console.error("Fetch workflows error:", error);
+    res.status(500).json({ message: "Failed to fetch workflows" });
+  }
+});
+
+router.get("/workflows/:id", requirePermission('settings.view'), async (req, res) => {
+  try {
+    const workflow = await workflowEngine.getWorkflow(parseInt(req.params.id));
+    if (!workflow) {
+      return res.status(404).json({ message: "Workflow not found" });
+    }
+    const stats = await workflowEngine.getExecutionStats();
+    res.json(serializeWorkflow(workflow, stats.get(workflow.id)));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to fetch workflow" });
+  }
+});
+
+router.post("/workflows", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    const result = workflowBodySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid workflow data", details: result.error.issues });
+    }
+
+    const { trigger, ...data } = result.data;
+    const workflow = await workflowEngine.createWorkflow({
+      ...data,
+      status: data.status || 'draft',
+      triggerType: trigger.type,
+      triggerConfig: trigger.config,
+      createdBy: (req as StaffRequest).user?.id ?? null
+    });
+    res.status(201).json(serializeWorkflow(workflow));
+  } catch (error) {
+    console.error("Create workflow error:", error);
+    res.status(500).json({ error: "Failed to create workflow" });
+  }
+});
+
+router.put("/workflows/:id", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    const result = workflowBodySchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid workflow data", details: result.error.issues });
+    }
+
+    const { trigger, ...data } = result.data;
+    const workflow = await workflowEngine.updateWorkflow(parseInt(req.params.id), {
+      ...data,
+      ...(trigger && { triggerType: trigger.type, triggerConfig: trigger.config })
+    });
+    if (!workflow) {
+      return res.status(404).json({ message: "Workflow not found" });
+    }
+    res.json(serializeWorkflow(workflow));
+  } catch (error) {
+    console.error("Update workflow error:", error);
+    res.status(500).json({ error: "Failed to update workflow" });
+  }
+});
+
+router.put("/workflows/:id/status", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    const { status } = req.body;
+    if (!['draft', 'active', 'paused'].includes(status)) {
+      return res.status(400).json({ error: "Invalid workflow status" });
+    }
+
+    const workflow = await workflowEngine.updateWorkflow(parseInt(req.params.id), { status });
+    if (!workflow) {
+      return res.status(404).json({ message: "Workflow not found" });
+    }
+    res.json(serializeWorkflow(workflow));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update workflow status" });
+  }
+});
+
+router.delete("/workflows/:id", requirePermission('settings.edit'), async (req, res) => {
+  try {
+    const success = await workflowEngine.deleteWorkflow(parseInt(req.params.id));
+    if (!success) {
+      return res.status(404).json({ message: "Workflow not found" });
+    }
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete workflow" });
+  }
+});
+
+router.get("/workflow-executions", requirePermission('settings.view'), async (req, res) => {
+  try {
+    const workflowId = req.query.workflowId ? parseInt(req.query.workflowId as string) : undefined;
+    const executions = await workflowEngine.listExecutions(workflowId);
+    res.json(executions.map(serializeExecution));
+  } catch (error) {
+    console.error("Fetch workflow executions error:", error);
+    res.status(500).json({ message: "Failed to fetch workflow executions" });
+  }
+});
+
+export default router;
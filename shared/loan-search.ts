@@ -0,0 +1,56 @@
+// Query parameters and result page for the loan application listing (GET /api/loan-applications),
+// shared by the server's validation and the pipeline and dashboard views
+
+import { z } from "zod";
+import type { LoanApplicationWithDetails } from "./schema";
+
+export const LOAN_APPLICATION_SORT_FIELDS = ['createdAt', 'updatedAt', 'requestedAmount', 'borrowerName'] as const;
+export type LoanApplicationSortField = typeof LOAN_APPLICATION_SORT_FIELDS[number];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// Accepts ?status=a,b as well as repeated ?status=a&status=b
+const listParam = z.union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : value.split(','))
+    .map(entry => entry.trim())
+    .filter(Boolean));
+
+export const loanApplicationSearchSchema = z.object({
+  search: z.string().trim().min(1).optional(), // borrower name, email, property address or application number
+  status: listParam.optional(),
+  loanType: listParam.optional(),
+  loanOfficerId: z.coerce.number().int().positive().optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+  state: z.string().trim().min(1).optional(), // property state
+  sort: z.enum(LOAN_APPLICATION_SORT_FIELDS).default('createdAt'),
+  direction: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().optional(), // nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
+
+export type LoanApplicationSearch = z.infer<typeof loanApplicationSearchSchema>;
+export type LoanApplicationSearchInput = z.input<typeof loanApplicationSearchSchema>;
+
+export interface LoanApplicationPage {
+  items: LoanApplicationWithDetails[];
+  nextCursor: string | null; // null on the last page
+  total: number; // matches across all pages
+}
+
+// Query string for a search, leaving out empty filters
+export function loanSearchParams(search: Partial<Record<keyof LoanApplicationSearchInput, unknown>>): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(search).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+    } else {
+      params.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+  });
+  return params;
+}
@@ -0,0 +1,75 @@
+// Loan status state machine definition shared by the server and the pipeline UI
+
+export type LoanStatus =
+  | 'application'
+  | 'document_review'
+  | 'underwriting'
+  | 'conditionally_approved'
+  | 'clear_to_close'
+  | 'funded'
+  | 'declined'
+  | 'withdrawn'
+  | 'suspended';
+
+export interface LoanStatusDefinition {
+  key: LoanStatus;
+  label: string;
+  category: 'active' | 'closed' | 'inactive';
+  pipelineColor: string; // column badge in the pipeline board
+  badgeColor: string; // inline status badge
+  terminal: boolean;
+  requiresReason: boolean; // entering this status requires a reason
+}
+
+export const LOAN_STATUSES: LoanStatusDefinition[] = [
+  { key: 'application', label: 'Application', category: 'active', pipelineColor: 'bg-blue-500', badgeColor: 'bg-blue-100 text-blue-800', terminal: false, requiresReason: false },
+  { key: 'document_review', label: 'Document Review', category: 'active', pipelineColor: 'bg-yellow-500', badgeColor: 'bg-yellow-100 text-yellow-800', terminal: false, requiresReason: false },
+  { key: 'underwriting', label: 'Underwriting', category: 'active', pipelineColor: 'bg-orange-500', badgeColor: 'bg-orange-100 text-orange-800', terminal: false, requiresReason: false },
+  { key: 'conditionally_approved', label: 'Conditionally Approved', category: 'active', pipelineColor: 'bg-teal-500', badgeColor: 'bg-teal-100 text-teal-800', terminal: false, requiresReason: false },
+  { key: 'clear_to_close', label: 'Clear to Close', category: 'active', pipelineColor: 'bg-emerald-500', badgeColor: 'bg-emerald-100 text-emerald-800', terminal: false, requiresReason: false },
+  { key: 'funded', label: 'Funded', category: 'closed', pipelineColor: 'bg-green-600', badgeColor: 'bg-green-100 text-green-800', terminal: true, requiresReason: false },
+  { key: 'declined', label: 'Declined', category: 'closed', pipelineColor: 'bg-red-500', badgeColor: 'bg-red-100 text-red-800', terminal: true, requiresReason: true },
+  { key: 'withdrawn', label: 'Withdrawn', category: 'closed', pipelineColor: 'bg-gray-500', badgeColor: 'bg-gray-100 text-gray-800', terminal: true, requiresReason: true },
+  { key: 'suspended', label: 'Suspended', category: 'inactive', pipelineColor: 'bg-purple-500', badgeColor: 'bg-purple-100 text-purple-800', terminal: false, requiresReason: true },
+];
+
+const EXIT_STATUSES: LoanStatus[] = ['declined', 'withdrawn', 'suspended'];
+
+// Allowed forward moves; every active status may also exit to declined/withdrawn/suspended.
+// Suspended loans resume into any active stage (guards still apply).
+export const LOAN_STATUS_TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  application: ['document_review', ...EXIT_STATUSES],
+  document_review: ['application', 'underwriting', ...EXIT_STATUSES],
+  underwriting: ['document_review', 'conditionally_approved', ...EXIT_STATUSES],
+  conditionally_approved: ['underwriting', 'clear_to_close', ...EXIT_STATUSES],
+  clear_to_close: ['conditionally_approved', 'funded', ...EXIT_STATUSES],
+  funded: [],
+  declined: [],
+  withdrawn: [],
+  suspended: ['application', 'document_review', 'underwriting', 'conditionally_approved', 'clear_to_close', 'declined', 'withdrawn'],
+};
+
+// Statuses written by earlier versions of the app
+export const LEGACY_STATUS_ALIASES: Record<string, LoanStatus> = {
+  approved: 'conditionally_approved',
+};
+
+export function normalizeLoanStatus(status: string): LoanStatus | undefined {
+  // Own keys only, so names such as "constructor" are not mistaken for statuses
+  if (Object.hasOwn(LOAN_STATUS_TRANSITIONS, status)) return status as LoanStatus;
+  return Object.hasOwn(LEGACY_STATUS_ALIASES, status) ? LEGACY_STATUS_ALIASES[status] : undefined;
+}
+
+export function getLoanStatusDefinition(status: string): LoanStatusDefinition | undefined {
+  const normalized = normalizeLoanStatus(status);
+  return LOAN_STATUSES.find(definition => definition.key === normalized);
+}
+
+export function getAllowedTransitions(status: string): LoanStatus[] {
+  const normalized = normalizeLoanStatus(status);
+  return normalized ? LOAN_STATUS_TRANSITIONS[normalized] : [];
+}
+
+export function isActiveLoanStatus(status: string): boolean {
+  return getLoanStatusDefinition(status)?.category === 'active';
+}
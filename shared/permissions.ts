@@ -0,0 +1,146 @@
+// Permission catalog and built-in roles shared by the server's access checks and the permissions UI
+
+export interface PermissionDefinition {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+}
+
+export const PERMISSIONS: PermissionDefinition[] = [
+  // Loans
+  { id: 'loans.view', name: 'View Loans', description: 'View loan applications and details', category: 'Loans' },
+  { id: 'loans.create', name: 'Create Loans', description: 'Create and import loan applications', category: 'Loans' },
+  { id: 'loans.edit', name: 'Edit Loans', description: 'Modify loan application details and status', category: 'Loans' },
+  { id: 'loans.delete', name: 'Delete Loans', description: 'Delete loan applications', category: 'Loans' },
+  { id: 'loans.approve', name: 'Approve Loans', description: 'Move loans to approved, funded or declined', category: 'Loans' },
+  { id: 'loans.assign', name: 'Assign Loans', description: 'Assign loans and tasks to team members', category: 'Loans' },
+
+  // Documents & Underwriting
+  { id: 'documents.view', name: 'View Documents', description: 'View and download loan documents', category: 'Underwriting' },
+  { id: 'documents.upload', name: 'Upload Documents', description: 'Upload and analyze loan documents', category: 'Underwriting' },
+  { id: 'documents.delete', name: 'Delete Documents', description: 'Remove loan documents', category: 'Underwriting' },
+  { id: 'underwriting.view', name: 'View Underwriting', description: 'View the underwriting queue, analyses and decisions', category: 'Underwriting' },
+  { id: 'underwriting.decide', name: 'Underwriting Decisions', description: 'Record underwriting decisions and review conditions', category: 'Underwriting' },
+  { id: 'credit.pull', name: 'Pull Credit', description: 'Order credit reports from the bureaus', category: 'Underwriting' },
+
+  // Financial
+  { id: 'pricing.view', name: 'View Pricing', description: 'View loan pricing and rates', category: 'Financial' },
+  { id: 'pricing.edit', name: 'Edit Pricing', description: 'Lock rates, build fee worksheets and maintain lender guidelines', category: 'Financial' },
+  { id: 'pricing.override', name: 'Override Pricing', description: "Change a loan's interest rate outside the rate lock flow", category: 'Financial' },
+  { id: 'commissions.view', name: 'View Commissions', description: 'View commission reports', category: 'Financial' },
+
+  // Compliance
+  { id: 'compliance.view', name: 'View Compliance', description: 'View TRID, HMDA and compliance status', category: 'Compliance' },
+  { id: 'compliance.manage', name: 'Manage Compliance', description: 'Issue disclosures and maintain HMDA data', category: 'Compliance' },
+  { id: 'audit.view', name: 'View Audit Logs', description: 'Access and export the audit trail', category: 'Compliance' },
+  { id: 'pii.view', name: 'View PII', description: 'See unmasked SSNs, dates of birth and account numbers', category: 'Compliance' },
+
+  // Contacts & CRM
+  { id: 'contacts.view', name: 'View Contacts', description: 'View contact database', category: 'CRM' },
+  { id: 'contacts.create', name: 'Create Contacts', description: 'Add and import contacts', category: 'CRM' },
+  { id: 'contacts.edit', name: 'Edit Contacts', description: 'Modify and enrich contact information', category: 'CRM' },
+  { id: 'contacts.delete', name: 'Delete Contacts', description: 'Remove contacts', category: 'CRM' },
+
+  // Communications
+  { id: 'communications.view', name: 'View Communications', description: 'View communication history', category: 'Communications' },
+  { id: 'communications.send', name: 'Send Communications', description: 'Send emails, SMS, and make calls', category: 'Communications' },
+  { id: 'calendar.view', name: 'View Calendar', description: 'View calendar and appointments', category: 'Communications' },
+  { id: 'calendar.manage', name: 'Manage Calendar', description: 'Create and manage appointments', category: 'Communications' },
+  { id: 'marketing.manage', name: 'Manage Marketing', description: 'Create videos, campaigns and social content', category: 'Communications' },
+
+  // Reports & Analytics
+  { id: 'reports.view', name: 'View Reports', description: 'Access standard reports and dashboards', category: 'Reports' },
+  { id: 'reports.advanced', name: 'Advanced Reports', description: 'Access detailed analytics', category: 'Reports' },
+  { id: 'data.export', name: 'Export Data', description: 'Export data to files', category: 'Reports' },
+
+  // Team Management
+  { id: 'team.view', name: 'View Team', description: 'View team member list', category: 'Team' },
+  { id: 'team.manage', name: 'Manage Team', description: 'Add, edit, and remove team members', category: 'Team' },
+  { id: 'roles.manage', name: 'Manage Roles', description: 'Create and modify user roles and permissions', category: 'Team' },
+
+  // System Administration
+  { id: 'settings.view', name: 'View Settings', description: 'View system settings', category: 'System' },
+  { id: 'settings.edit', name: 'Edit Settings', description: 'Modify system configuration, workflows and integrations', category: 'System' },
+  { id: 'system.backup', name: 'System Backup', description: 'Create and restore backups', category: 'System' },
+];
+
+export const PERMISSION_IDS = PERMISSIONS.map(permission => permission.id);
+
+export const PERMISSION_CATEGORIES = PERMISSIONS
+  .map(permission => permission.category)
+  .filter((category, index, categories) => categories.indexOf(category) === index);
+
+// Per-user overrides are stored on users.permissions: "loans.delete" grants, "-loans.delete" revokes
+export const REVOKED_PREFIX = '-';
+
+export interface RoleDefinition {
+  name: string;
+  displayName: string;
+  description: string;
+  permissions: string[];
+}
+
+// Seeded into user_roles as system roles; they can be edited but not deleted
+export const SYSTEM_ROLES: RoleDefinition[] = [
+  {
+    name: 'owner',
+    displayName: 'Owner',
+    description: 'Full system access with all permissions',
+    permissions: PERMISSION_IDS,
+  },
+  {
+    name: 'branch_manager',
+    displayName: 'Branch Manager',
+    description: 'Manage branch operations and team',
+    permissions: [
+      'loans.view', 'loans.create', 'loans.edit', 'loans.approve', 'loans.assign',
+      'documents.view', 'documents.upload', 'documents.delete', 'underwriting.view', 'credit.pull',
+      'pricing.view', 'pricing.edit', 'pricing.override', 'commissions.view',
+      'compliance.view', 'audit.view', 'pii.view',
+      'contacts.view', 'contacts.create', 'contacts.edit', 'contacts.delete',
+      'communications.view', 'communications.send', 'calendar.view', 'calendar.manage', 'marketing.manage',
+      'reports.view', 'reports.advanced', 'data.export',
+      'team.view', 'team.manage', 'settings.view',
+    ],
+  },
+  {
+    name: 'loan_officer',
+    displayName: 'Loan Officer',
+    description: 'Process loans and manage client relationships',
+    permissions: [
+      'loans.view', 'loans.create', 'loans.edit',
+      'documents.view', 'documents.upload', 'credit.pull',
+      'pricing.view', 'pricing.edit',
+      'compliance.view',
+      'contacts.view', 'contacts.create', 'contacts.edit',
+      'communications.view', 'communications.send', 'calendar.view', 'calendar.manage', 'marketing.manage',
+      'reports.view', 'team.view',
+    ],
+  },
+  {
+    name: 'processor',
+    displayName: 'Processor',
+    description: 'Process and review loan applications',
+    permissions: [
+      'loans.view', 'loans.edit',
+      'documents.view', 'documents.upload', 'underwriting.view',
+      'pricing.view', 'compliance.view', 'compliance.manage', 'pii.view',
+      'contacts.view',
+      'communications.view', 'communications.send', 'calendar.view',
+      'reports.view',
+    ],
+  },
+  {
+    name: 'underwriter',
+    displayName: 'Underwriter',
+    description: 'Review files, clear conditions and record credit decisions',
+    permissions: [
+      'loans.view', 'loans.edit', 'loans.approve',
+      'documents.view', 'documents.upload', 'underwriting.view', 'underwriting.decide', 'credit.pull',
+      'pricing.view', 'compliance.view', 'pii.view',
+      'contacts.view', 'communications.view',
+      'reports.view',
+    ],
+  },
+];
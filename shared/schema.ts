@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
+import { normalizeLoanStatus } from "./loan-status";
 
 // Organizations table - for companies/loan officer businesses
 export const organizations = pgTable("organizations", {
@@ -17,6 +18,7 @@ export const organizations = pgTable("organizations", {
   secondaryColor: text("secondary_color").default('#3730a3'),
   settings: jsonb("settings").default(sql`'{}'::jsonb`),
   nmls: text("nmls"),
+  lei: text("lei"), // Legal Entity Identifier, required for HMDA reporting
   website: text("website"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
@@ -53,9 +55,12 @@ export const users = pgTable("users", {
   lastLogin: timestamp("last_login"),
 });
 
+// System roles have no organization, are shared by every organization and cannot be changed; custom roles belong to
+// the organization that created them
 export const userRoles = pgTable("user_roles", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  name: text("name").notNull(),
   displayName: text("display_name").notNull(),
   description: text("description"),
   permissions: text("permissions").array().notNull(),
@@ -63,7 +68,9 @@ export const userRoles = pgTable("user_roles", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   createdBy: integer("created_by").references(() => users.id),
-});
+}, (table) => ({
+  organizationName: unique("user_roles_organization_name_unique").on(table.organizationId, table.name).nullsNotDistinct(),
+}));
 
 export const userCalendars = pgTable("user_calendars", {
   id: serial("id").primaryKey(),
@@ -117,6 +124,13 @@ export const borrowers = pgTable("borrowers", {
   investmentExperience: text("investment_experience"), // beginner, intermediate, experienced
   portfolioSize: text("portfolio_size"), // 1-5, 6-10, 11-25, 25+
   preferredLoanTypes: text("preferred_loan_types").array(),
+  // HMDA demographic information, as FFIEC codes
+  ethnicity: integer("ethnicity").array(), // up to 5: 1, 11-14 Hispanic or Latino, 2 not Hispanic, 3 not provided, 4 not applicable
+  ethnicityCollectionMethod: integer("ethnicity_collection_method"), // 1 visual observation or surname, 2 not visual, 3 not applicable
+  race: integer("race").array(), // up to 5: 1 AIAN, 2, 21-27 Asian, 3 Black, 4, 41-44 NHOPI, 5 White, 6 not provided, 7 not applicable
+  raceCollectionMethod: integer("race_collection_method"),
+  sex: integer("sex"), // 1 male, 2 female, 3 not provided, 4 not applicable, 6 selected both
+  sexCollectionMethod: integer("sex_collection_method"),
 });
 
 export const properties = pgTable("properties", {
@@ -132,18 +146,38 @@ export const properties = pgTable("properties", {
   arv: decimal("arv", { precision: 12, scale: 2 }), // After Repair Value
 });
 
+// Payment structure beyond a fixed, fully amortizing note; see PaymentProcessor.calculateLoanPayment
+export type LoanPaymentTerms = {
+  interestOnlyMonths?: number; // interest-only period before amortization starts; the full term = interest only
+  balloonMonths?: number; // maturity ahead of the amortization term; the remaining balance is due with the last payment
+  arm?: {
+    product: '5/6' | '7/6' | '10/6'; // fixed years / months between adjustments
+    index: number; // current index value, % (e.g. 30-day average SOFR)
+    margin: number; // %
+    initialCap?: number; // max change at the first adjustment, percentage points
+    periodicCap?: number; // max change at each later adjustment
+    lifetimeCap?: number; // max increase over the start rate
+    floor?: number; // minimum rate, defaults to the margin
+  };
+  holdback?: {
+    amount: number; // part of the note held back for rehab or construction draws
+    interestMethod: 'dutch' | 'non_dutch'; // dutch charges interest on the full note, non-dutch only on funds disbursed
+    draws?: Array<{ month: number; amount: number }>; // month of the loan each draw is funded in
+  };
+};
+
 export const loanApplications = pgTable("loan_applications", {
   id: serial("id").primaryKey(),
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   borrowerId: integer("borrower_id").notNull(),
   propertyId: integer("property_id").notNull(),
-  loanOfficerId: integer("loan_officer_id").notNull(),
+  loanOfficerId: integer("loan_officer_id"), // null for public intake in an organization with no loan officer yet
   loanType: text("loan_type").notNull(), // 'dscr', 'fix-n-flip', 'hard-money', 'commercial-real-estate', 'private-money', 'bridge', 'construction', 'multifamily'
   requestedAmount: decimal("requested_amount", { precision: 12, scale: 2 }).notNull(),
-  status: text("status").notNull().default("application"), // application, document_review, underwriting, approved, declined
+  status: text("status").notNull().default("application"), // see LOAN_STATUSES in shared/loan-status.ts
   ltv: decimal("ltv", { precision: 5, scale: 2 }), // Loan to Value ratio
   dscr: decimal("dscr", { precision: 5, scale: 2 }), // Debt Service Coverage Ratio
-  interestRate: decimal("interest_rate", { precision: 5, scale: 2 }),
+  interestRate: decimal("interest_rate", { precision: 6, scale: 3 }), // percent; rate sheets quote eighths such as 7.125
   termMonths: integer("term_months"),
   monthlyRent: decimal("monthly_rent", { precision: 10, scale: 2 }),
   monthlyExpenses: decimal("monthly_expenses", { precision: 10, scale: 2 }),
@@ -151,10 +185,52 @@ export const loanApplications = pgTable("loan_applications", {
   exitStrategy: text("exit_strategy"), // sale, refinance, hold
   experienceLevel: text("experience_level"), // beginner, intermediate, experienced
   notes: text("notes"),
+  // HMDA reportable data, as FFIEC codes
+  actionTaken: integer("action_taken"), // 1 originated, 2 approved not accepted, 3 denied, 4 withdrawn, 5 closed incomplete, 6 purchased, 7-8 preapproval
+  actionTakenDate: timestamp("action_taken_date"),
+  denialReasons: integer("denial_reasons").array(), // up to 4: 1 DTI ... 9 other, 10 not applicable
+  rateSpread: decimal("rate_spread", { precision: 6, scale: 3 }), // APR less the average prime offer rate
+  hoepaStatus: integer("hoepa_status"), // 1 high-cost, 2 not high-cost, 3 not applicable
+  censusTract: text("census_tract"), // 11-digit state, county and tract FIPS code
+  stage: text("stage"), // initial_intake, full_application
+  initialIntakeData: jsonb("initial_intake_data").$type<Record<string, any>>(), // short application as submitted
+  urlaData: jsonb("urla_data").$type<Record<string, any>>(), // full application (URLA) fields
+  paymentTerms: jsonb("payment_terms").$type<LoanPaymentTerms>(), // interest-only, balloon, ARM and holdback terms
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const loanStatusHistory = pgTable("loan_status_history", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  changedBy: integer("changed_by"), // user id, null for system/automation changes
+  reason: text("reason"),
+  source: text("source").notNull().default("user"), // user, workflow, system
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const underwritingDecisions = pgTable("underwriting_decisions", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  program: text("program").notNull(), // dscr, fix_flip, bridge
+  decision: text("decision").notNull(), // approve, approve_with_conditions, suspend, decline
+  inputs: jsonb("inputs").$type<Record<string, any>>().notNull(),
+  metrics: jsonb("metrics").$type<Record<string, any>>().notNull(),
+  findings: jsonb("findings").$type<Array<{
+    code: string;
+    severity: 'pass' | 'warning' | 'fail' | 'missing';
+    message: string;
+    value?: number | string | null;
+    threshold?: number | string | null;
+  }>>().notNull().default([]),
+  conditions: text("conditions").array().notNull().default([]),
+  underwriterId: integer("underwriter_id"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   loanApplicationId: integer("loan_application_id").notNull(),
@@ -169,7 +245,7 @@ export const documents = pgTable("documents", {
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
   loanApplicationId: integer("loan_application_id").notNull(),
-  assignedToId: integer("assigned_to_id").notNull(),
+  assignedToId: integer("assigned_to_id"), // null until the organization has someone to assign it to
   title: text("title").notNull(),
   description: text("description"),
   priority: text("priority").notNull().default("medium"), // low, medium, high
@@ -186,17 +262,23 @@ export const notifications = pgTable("notifications", {
   recipient: text("recipient").notNull(), // email address or phone number
   subject: text("subject"),
   message: text("message").notNull(),
-  status: text("status").notNull().default("pending"), // pending, sent, failed
+  status: text("status").notNull().default("pending"), // pending, sending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // retry time while pending, lease expiry while sending
+  provider: text("provider"), // smtp, gmail, exchange, twilio, local
+  providerMessageId: text("provider_message_id"),
+  lastError: text("last_error"),
   sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const templates = pgTable("templates", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id), // null for templates every organization shares
   name: text("name").notNull(),
   type: text("type").notNull(), // email, sms
   subject: text("subject"), // for email templates
-  content: text("content").notNull(),
+  content: text("content").notNull(), // merge fields from shared/template-fields.ts, e.g. {{borrower.firstName}}
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -225,8 +307,8 @@ export const contacts = pgTable("contacts", {
   mobilePhone: text("mobile_phone"),
   businessPhone: text("business_phone"),
   profilePhoto: text("profile_photo"),
-  dateOfBirth: text("date_of_birth"),
-  ssn: text("ssn"),
+  dateOfBirth: text("date_of_birth"), // encrypted at rest
+  ssn: text("ssn"), // encrypted at rest
   relationshipStatus: text("relationship_status"),
   company: text("company"),
   jobTitle: text("job_title"),
@@ -436,7 +518,7 @@ export const borrowerAuth = pgTable("borrower_auth", {
   emailVerificationToken: text("email_verification_token"),
   passwordResetToken: text("password_reset_token"),
   passwordResetExpires: timestamp("password_reset_expires"),
-  plaidAccessToken: text("plaid_access_token"),
+  plaidAccessToken: text("plaid_access_token"), // encrypted at rest
   plaidItemId: text("plaid_item_id"),
   linkedAccounts: jsonb("linked_accounts").default([]),
   lastLogin: timestamp("last_login"),
@@ -526,10 +608,502 @@ export const sessions = pgTable("sessions", {
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Workflow automation definitions
+export type WorkflowStepDefinition = {
+  id: string;
+  type: 'trigger' | 'condition' | 'action' | 'delay';
+  name: string;
+  config: Record<string, any>;
+  position?: { x: number; y: number };
+};
+
+export type WorkflowStepResult = {
+  stepId: string;
+  type: WorkflowStepDefinition['type'];
+  name: string;
+  status: 'completed' | 'skipped' | 'failed' | 'waiting';
+  output?: any;
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+};
+
+export const workflows = pgTable("workflows", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  status: text("status").notNull().default("draft"), // draft, active, paused
+  triggerType: text("trigger_type").notNull(), // application_created, document_uploaded, status_changed, schedule
+  triggerConfig: jsonb("trigger_config").$type<Record<string, any>>().default({}),
+  steps: jsonb("steps").$type<WorkflowStepDefinition[]>().notNull().default([]),
+  lastRunAt: timestamp("last_run_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const workflowExecutions = pgTable("workflow_executions", {
+  id: serial("id").primaryKey(),
+  workflowId: integer("workflow_id").references(() => workflows.id).notNull(),
+  loanApplicationId: integer("loan_application_id"),
+  triggerType: text("trigger_type").notNull(),
+  triggerPayload: jsonb("trigger_payload").$type<Record<string, any>>().default({}),
+  status: text("status").notNull().default("running"), // running, waiting, completed, failed
+  currentStep: integer("current_step").notNull().default(0),
+  stepResults: jsonb("step_results").$type<WorkflowStepResult[]>().notNull().default([]),
+  error: text("error"),
+  resumeAt: timestamp("resume_at"), // set while waiting on a delay step
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Lender guideline matrices evaluated by the pricing engine; ratios are decimals (0.80 = 80%)
+export type LenderGuidelineMatrix = {
+  ficoLtvGrid: Array<{ minFico: number; maxLtv: number; loanPurpose?: string }>; // highest maxLtv among rows the FICO qualifies for
+  loanAmountBands: Array<{ minAmount: number; maxAmount: number; maxLtv?: number }>;
+  eligiblePropertyTypes: string[]; // empty = all property types
+  eligibleStates: string[]; // empty = all states
+  dscrMinByLtv: Array<{ maxLtv: number; minDscr: number }>; // first row covering the LTV applies
+  allowsFirstTimeInvestors: boolean;
+  supportsExpeditedClosing: boolean;
+};
+
+export const lenderGuidelines = pgTable("lender_guidelines", {
+  id: serial("id").primaryKey(),
+  lenderId: text("lender_id").notNull(),
+  lenderName: text("lender_name").notNull(),
+  loanProgram: text("loan_program").notNull(),
+  loanType: text("loan_type").notNull(), // dscr, fix_flip, bridge, construction, commercial
+  rate: decimal("rate", { precision: 6, scale: 4 }).notNull(), // 0.0750 = 7.50%
+  points: decimal("points", { precision: 5, scale: 3 }).notNull().default("0"),
+  fees: decimal("fees", { precision: 10, scale: 2 }).notNull().default("0"),
+  terms: text("terms").notNull(),
+  prepaymentPenalty: boolean("prepayment_penalty").notNull().default(false),
+  matrix: jsonb("matrix").$type<LenderGuidelineMatrix>().notNull(),
+  conditions: text("conditions").array().notNull().default([]), // informational conditions shown with the quote
+  isActive: boolean("is_active").notNull().default(true),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const rateLocks = pgTable("rate_locks", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  guidelineId: integer("guideline_id").references(() => lenderGuidelines.id).notNull(),
+  lenderName: text("lender_name").notNull(),
+  loanProgram: text("loan_program").notNull(),
+  status: text("status").notNull().default("active"), // active, expired, relocked, cancelled
+  rate: decimal("rate", { precision: 6, scale: 5 }).notNull(),
+  price: decimal("price", { precision: 7, scale: 3 }).notNull(), // final price incl. lock period, extensions and relock fees
+  lockPeriodDays: integer("lock_period_days").notNull(), // 15, 30, 45, 60
+  pricingRequest: jsonb("pricing_request").$type<Record<string, any>>().notNull(),
+  snapshot: jsonb("snapshot").$type<Record<string, any>>().notNull(), // LenderRate option at lock time
+  extensions: jsonb("extensions").$type<Array<{
+    days: number;
+    cost: number; // price points
+    previousExpiresAt: string;
+    extendedAt: string;
+    extendedBy?: number | null;
+  }>>().notNull().default([]),
+  relockedFromId: integer("relocked_from_id"),
+  lockedBy: integer("locked_by"),
+  lockedAt: timestamp("locked_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  expirationTaskCreatedAt: timestamp("expiration_task_created_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const loanConditions = pgTable("loan_conditions", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  category: text("category").notNull(), // prior_to_doc, prior_to_funding, post_closing
+  title: text("title").notNull(),
+  description: text("description"),
+  ownerRole: text("owner_role").notNull().default("borrower"), // borrower, loan_officer, processor, underwriter, title, closing
+  ownerId: integer("owner_id").references(() => users.id),
+  status: text("status").notNull().default("open"), // open, submitted, cleared, waived
+  borrowerVisible: boolean("borrower_visible").notNull().default(true),
+  source: text("source").notNull().default("manual"), // manual, underwriting
+  underwritingDecisionId: integer("underwriting_decision_id").references(() => underwritingDecisions.id),
+  documentIds: integer("document_ids").array().notNull().default([]),
+  customerDocumentIds: integer("customer_document_ids").array().notNull().default([]),
+  history: jsonb("history").$type<Array<{
+    status: string;
+    actor: 'staff' | 'borrower' | 'system';
+    userId?: number | null;
+    notes?: string | null;
+    at: string;
+  }>>().notNull().default([]),
+  dueDate: timestamp("due_date"),
+  submittedAt: timestamp("submitted_at"),
+  reviewedBy: integer("reviewed_by").references(() => users.id), // reviewer who cleared or waived the condition
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Loan Estimate fee sections: A origination, B services you cannot shop for, C services you can shop for,
+// E taxes and government fees, F prepaids, G initial escrow payment at closing, H other
+export type FeeSection = 'A' | 'B' | 'C' | 'E' | 'F' | 'G' | 'H';
+
+export type FeeTemplateItem = {
+  code: string;
+  description: string;
+  section: FeeSection;
+  calculation: 'flat' | 'percent_of_loan' | 'prepaid_interest' | 'insurance_months' | 'tax_months';
+  amount?: number; // flat
+  percent?: number; // percent_of_loan, 1.5 = 1.5%
+  months?: number; // insurance_months, tax_months
+  paidTo?: string;
+};
+
+export type FeeWorksheetLine = {
+  code: string;
+  description: string;
+  section: FeeSection;
+  amount: number;
+  paidTo?: string;
+  basis?: string; // how the amount was derived, e.g. "$41.10/day x 12 days"
+};
+
+export const feeTemplates = pgTable("fee_templates", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  loanType: text("loan_type"), // null = applies to every loan type without its own template
+  name: text("name").notNull(),
+  fees: jsonb("fees").$type<FeeTemplateItem[]>().notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const feeWorksheets = pgTable("fee_worksheets", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  feeTemplateId: integer("fee_template_id").references(() => feeTemplates.id), // null = built-in default fees
+  closingDate: timestamp("closing_date").notNull(),
+  firstPaymentDate: timestamp("first_payment_date").notNull(),
+  inputs: jsonb("inputs").$type<Record<string, any>>().notNull(), // loan amount, rate, taxes and insurance used
+  lines: jsonb("lines").$type<FeeWorksheetLine[]>().notNull(),
+  totals: jsonb("totals").$type<Record<string, number>>().notNull(), // per section plus D, I, J and cash to close
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// TRID application data points: name, income, SSN, property address, estimated value, loan amount
+export type TridDataPoint = 'borrowerName' | 'income' | 'ssn' | 'propertyAddress' | 'estimatedValue' | 'loanAmount';
+
+export const tridApplications = pgTable("trid_applications", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull().unique(),
+  dataPoints: jsonb("data_points").$type<Partial<Record<TridDataPoint, string>>>().notNull().default({}), // ISO time each point was received
+  applicationDate: timestamp("application_date"), // set once all six data points are received
+  intendedConsummationDate: timestamp("intended_consummation_date"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const tridChangedCircumstances = pgTable("trid_changed_circumstances", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  reason: text("reason").notNull(), // changed_circumstance, borrower_requested, rate_lock, expiration, delayed_settlement
+  description: text("description").notNull(),
+  affectedFeeCodes: text("affected_fee_codes").array().notNull().default([]), // empty = every fee may be re-baselined
+  discoveredAt: timestamp("discovered_at").notNull(),
+  revisedDisclosureDueBy: timestamp("revised_disclosure_due_by").notNull(),
+  revisedDisclosureId: integer("revised_disclosure_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const tridDisclosures = pgTable("trid_disclosures", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  type: text("type").notNull(), // loan_estimate, closing_disclosure
+  version: integer("version").notNull(), // 1 = initial, 2+ = revised
+  feeWorksheetId: integer("fee_worksheet_id").references(() => feeWorksheets.id),
+  fees: jsonb("fees").$type<FeeWorksheetLine[]>().notNull(), // fee set as disclosed
+  totals: jsonb("totals").$type<Record<string, number>>().notNull(),
+  changedCircumstanceId: integer("changed_circumstance_id").references(() => tridChangedCircumstances.id),
+  deliveryMethod: text("delivery_method").notNull(), // in_person, email, mail
+  issuedAt: timestamp("issued_at").notNull(),
+  receivedAt: timestamp("received_at"), // confirmed receipt; otherwise presumed 3 business days after issue
+  issuedBy: integer("issued_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuditFieldChange = { from: unknown; to: unknown };
+
+// Append-only, hash-chained record of mutations and sensitive-data views
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  actorType: text("actor_type").notNull(), // user, customer, borrower, realtor, system, anonymous
+  actorId: integer("actor_id"),
+  action: text("action").notNull(), // create, update, delete, view, or a sub-action such as status, clear, submit
+  entityType: text("entity_type").notNull(), // API resource, e.g. loan-applications, contacts, documents
+  entityId: text("entity_id"),
+  method: text("method"),
+  path: text("path"),
+  statusCode: integer("status_code"),
+  changes: jsonb("changes").$type<Record<string, AuditFieldChange>>(), // before/after diff, sensitive values redacted
+  sensitiveFields: text("sensitive_fields").array().notNull().default([]), // ssn, credit_report, bank_statement
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>().notNull().default({}),
+  previousHash: text("previous_hash").notNull(),
+  hash: text("hash").notNull().unique(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Scheduled reminders for documents still outstanding on a loan
+export const documentReminders = pgTable("document_reminders", {
+  id: serial("id").primaryKey(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  documentCategory: text("document_category").notNull(),
+  reminderType: text("reminder_type").notNull().default('email'), // email, sms
+  reminderNumber: integer("reminder_number").notNull().default(1),
+  scheduledAt: timestamp("scheduled_at").notNull(),
+  sentAt: timestamp("sent_at"),
+  status: text("status").notNull().default('pending'), // pending, sent, cancelled
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Borrower bank accounts linked through the customer portal
+export const bankAccounts = pgTable("bank_accounts", {
+  id: serial("id").primaryKey(),
+  borrowerId: integer("borrower_id").notNull(),
+  institutionName: text("institution_name"),
+  accountName: text("account_name"),
+  accountType: text("account_type"), // checking, savings, investment
+  accountNumber: text("account_number"), // encrypted at rest
+  routingNumber: text("routing_number"), // encrypted at rest
+  balance: decimal("balance", { precision: 14, scale: 2 }),
+  plaidAccountId: text("plaid_account_id"),
+  isVerified: boolean("is_verified").default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Token sessions issued with a short application for the borrower's customer portal
+export const loanPortalSessions = pgTable("loan_portal_sessions", {
+  id: serial("id").primaryKey(),
+  sessionToken: text("session_token").notNull().unique(),
+  borrowerId: integer("borrower_id").notNull(),
+  loanApplicationId: integer("loan_application_id").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A deal as quoted on the scenario desk, before any borrower or property record exists
+export type ScenarioDeal = {
+  loanPurpose: 'purchase' | 'refinance' | 'cash_out';
+  propertyValue: number;
+  purchasePrice?: number; // purchases
+  payoffAmount?: number; // refinances: existing liens paid off at closing
+  creditScore: number;
+  propertyType: string; // single_family, condo, townhouse, multi_family
+  state: string;
+  borrowerExperience: string; // first_time, some, experienced
+  timeline: string; // standard, urgent
+  monthlyRent?: number;
+  annualTaxes?: number; // defaults to an estimate from property value
+  annualInsurance?: number; // defaults to an estimate from property value
+  monthlyHoa?: number;
+  shortTermRental?: boolean;
+  address?: string; // property address, required to convert the scenario to an application
+  city?: string;
+  zipCode?: string;
+};
+
+// One way of structuring the deal; every structure is priced and compared side by side
+export type ScenarioStructure = {
+  id: string;
+  label: string;
+  loanType: string; // application loan type, e.g. dscr, fix-n-flip, bridge
+  ltv: number; // 0.75 = 75%
+  interestOnly: boolean;
+  termYears: number; // amortization, 30 or 40
+  prepaymentPenalty: '5_4_3_2_1' | '3_2_1' | '2_1' | '1' | 'none';
+  brokerCompPoints?: number;
+  guidelineId?: number; // price a specific lender program instead of the best option
+};
+
+export type ScenarioStructureResult = {
+  structureId: string;
+  eligible: boolean;
+  loanAmount: number;
+  guidelineId?: number;
+  lenderName?: string;
+  loanProgram?: string;
+  rate?: number; // annual, 0.0725 = 7.25%
+  points?: number; // lender points charged to the borrower
+  monthlyPayment?: number; // principal and interest, or interest only
+  monthlyHousingExpense?: number; // payment plus taxes, insurance and HOA
+  dscr?: number | null; // null without a rent figure
+  closingCosts?: number; // fee template total plus lender points and fees
+  cashToClose?: number; // negative = cash out to the borrower
+  exclusions: Array<{ lenderName: string; loanProgram: string; reason: string }>;
+};
+
+// Saved loan scenarios attached to a lead (contact) or an existing application
+export const loanScenarios = pgTable("loan_scenarios", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  contactId: integer("contact_id").references(() => contacts.id),
+  loanApplicationId: integer("loan_application_id"),
+  name: text("name").notNull(),
+  deal: jsonb("deal").$type<ScenarioDeal>().notNull(),
+  structures: jsonb("structures").$type<ScenarioStructure[]>().notNull(),
+  results: jsonb("results").$type<ScenarioStructureResult[]>().notNull().default([]), // as of evaluatedAt
+  evaluatedAt: timestamp("evaluated_at"),
+  convertedStructureId: text("converted_structure_id"), // structure applied to loanApplicationId on conversion
+  convertedAt: timestamp("converted_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// TCPA consent ledger: append-only opt-in and opt-out events; the latest event for an address and channel is its status
+export const communicationConsents = pgTable("communication_consents", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id), // null applies to every organization, e.g. STOP to the shared number
+  address: text("address").notNull(), // E.164 phone number or lowercase email address
+  channel: text("channel").notNull(), // sms, voice, email
+  action: text("action").notNull(), // opt_in, opt_out
+  source: text("source").notNull(), // web_form, sms_keyword, manual, import, api
+  consentText: text("consent_text"), // express written consent language the recipient agreed to
+  contactId: integer("contact_id"),
+  borrowerId: integer("borrower_id"),
+  recordedBy: integer("recorded_by").references(() => users.id), // null for keywords and web forms
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Two-way SMS: one thread per phone number and organization, linked to the contact, borrower and loan it concerns
+export const smsThreads = pgTable("sms_threads", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id), // null until the number is matched to an organization
+  phoneNumber: text("phone_number").notNull(), // E.164 number of the other party
+  contactId: integer("contact_id").references(() => contacts.id),
+  borrowerId: integer("borrower_id").references(() => borrowers.id),
+  loanApplicationId: integer("loan_application_id").references(() => loanApplications.id),
+  assignedToId: integer("assigned_to_id").references(() => users.id), // the loan's officer once a message is unread
+  unreadCount: integer("unread_count").notNull().default(0),
+  lastMessageAt: timestamp("last_message_at"),
+  lastMessagePreview: text("last_message_preview"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SmsAttachment = {
+  url: string; // provider media URL
+  contentType: string;
+  documentId: number | null; // saved to the loan's documents when the thread has a loan
+};
+
+export const smsMessages = pgTable("sms_messages", {
+  id: serial("id").primaryKey(),
+  threadId: integer("thread_id").references(() => smsThreads.id).notNull(),
+  direction: text("direction").notNull(), // inbound, outbound
+  body: text("body").notNull(),
+  attachments: jsonb("attachments").$type<SmsAttachment[]>().notNull().default(sql`'[]'::jsonb`),
+  status: text("status").notNull(), // received; queued, sending, sent, delivered, undelivered, failed
+  providerMessageId: text("provider_message_id"), // Twilio message SID, matched by delivery status callbacks
+  errorCode: text("error_code"),
+  sentBy: integer("sent_by").references(() => users.id), // null for inbound and automated replies
+  notificationId: integer("notification_id"), // set when sent by the notification queue
+  readAt: timestamp("read_at"),
+  statusUpdatedAt: timestamp("status_updated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Mailboxes synced into email_messages; IMAP mailboxes carry their own server settings, Gmail and Exchange use the
+// app credentials in the environment
+export type MailboxSettings = {
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+  folder?: string; // defaults to INBOX
+};
+
+export const mailboxes = pgTable("mailboxes", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: integer("user_id").references(() => users.id), // owner, when the mailbox is a loan officer's own
+  provider: text("provider").notNull(), // imap, gmail, exchange
+  address: text("address").notNull(), // the mailbox's own email address, used to tell sent from received mail
+  settings: jsonb("settings").$type<MailboxSettings>().notNull().default(sql`'{}'::jsonb`),
+  password: text("password"), // IMAP only; encrypted at rest (see field-encryption.ts)
+  isActive: boolean("is_active").notNull().default(true),
+  syncCursor: text("sync_cursor"), // IMAP "uidvalidity:uid", Gmail history id, Exchange delta link
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type EmailAttachmentRef = {
+  fileName: string;
+  contentType: string;
+  size: number;
+  documentId: number | null; // saved to the loan's documents when the message matched a loan
+};
+
+export const emailMessages = pgTable("email_messages", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  mailboxId: integer("mailbox_id").references(() => mailboxes.id).notNull(),
+  providerMessageId: text("provider_message_id").notNull(), // IMAP uid, Gmail or Graph message id
+  messageIdHeader: text("message_id_header"), // RFC 5322 Message-ID, used to follow replies
+  threadKey: text("thread_key").notNull(), // Message-ID of the first message in the conversation
+  direction: text("direction").notNull(), // inbound, outbound
+  fromAddress: text("from_address").notNull(),
+  fromName: text("from_name"),
+  toAddresses: jsonb("to_addresses").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  ccAddresses: jsonb("cc_addresses").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  subject: text("subject").notNull(),
+  bodyText: text("body_text").notNull(),
+  attachments: jsonb("attachments").$type<EmailAttachmentRef[]>().notNull().default(sql`'[]'::jsonb`),
+  contactId: integer("contact_id").references(() => contacts.id),
+  borrowerId: integer("borrower_id").references(() => borrowers.id),
+  loanApplicationId: integer("loan_application_id").references(() => loanApplications.id),
+  matchedBy: text("matched_by"), // thread, subject, address
+  sentAt: timestamp("sent_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Schemas
 export const insertBorrowerSchema = createInsertSchema(borrowers);
 export const insertPropertySchema = createInsertSchema(properties);
-export const insertLoanApplicationSchema = createInsertSchema(loanApplications).omit({
+export const loanPaymentTermsSchema = z.object({
+  interestOnlyMonths: z.number().int().min(0).max(480).optional(),
+  balloonMonths: z.number().int().min(1).max(480).optional(),
+  arm: z.object({
+    product: z.enum(['5/6', '7/6', '10/6']),
+    index: z.number().min(0),
+    margin: z.number().min(0),
+    initialCap: z.number().min(0).optional(),
+    periodicCap: z.number().min(0).optional(),
+    lifetimeCap: z.number().min(0).optional(),
+    floor: z.number().min(0).optional(),
+  }).optional(),
+  holdback: z.object({
+    amount: z.number().positive(),
+    interestMethod: z.enum(['dutch', 'non_dutch']),
+    draws: z.array(z.object({
+      month: z.number().int().min(1),
+      amount: z.number().positive(),
+    })).optional(),
+  }).optional(),
+});
+export const insertLoanApplicationSchema = createInsertSchema(loanApplications, {
+  paymentTerms: loanPaymentTermsSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -544,11 +1118,17 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
 });
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
+  attempts: true,
+  nextAttemptAt: true,
+  provider: true,
+  providerMessageId: true,
+  lastError: true,
   sentAt: true,
   createdAt: true,
 });
 export const insertTemplateSchema = createInsertSchema(templates).omit({
   id: true,
+  organizationId: true,
   createdAt: true,
 });
 export const insertCallLogSchema = createInsertSchema(callLogs).omit({
@@ -632,9 +1212,201 @@ export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   updatedAt: true,
 });
 
+export const insertWorkflowSchema = createInsertSchema(workflows, {
+  steps: z.array(z.object({
+    id: z.string(),
+    type: z.enum(['trigger', 'condition', 'action', 'delay']),
+    name: z.string(),
+    config: z.record(z.any()),
+    position: z.object({ x: z.number(), y: z.number() }).optional(),
+  })),
+}).omit({
+  id: true,
+  organizationId: true,
+  lastRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const workflowLoanStatus = z.string().transform((status, ctx) => {
+  const normalized = normalizeLoanStatus(status);
+  if (!normalized) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown loan status: ${status}` });
+  return normalized ?? status;
+});
+
+// Trigger settings the workflow engine matches on, one key set per trigger type. Unknown keys are rejected so a
+// workflow saved with a misspelt key fails validation instead of never firing.
+export const workflowTriggerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('application_created'),
+    config: z.object({ loanType: z.string().min(1).optional() }).strict().default({}),
+  }),
+  z.object({
+    type: z.literal('document_uploaded'),
+    config: z.object({ category: z.string().min(1).optional() }).strict().default({}),
+  }),
+  z.object({
+    type: z.literal('status_changed'),
+    config: z.object({ fromStatus: workflowLoanStatus.optional(), toStatus: workflowLoanStatus.optional() }).strict().default({}),
+  }),
+  z.object({
+    type: z.literal('schedule'),
+    config: z.object({
+      intervalMinutes: z.number().int().min(1).optional(), // defaults to daily
+      statuses: z.array(workflowLoanStatus).optional(), // loans in these statuses; all loans when omitted
+    }).strict().default({}),
+  }),
+]);
+
+export const insertLenderGuidelineSchema = createInsertSchema(lenderGuidelines, {
+  rate: z.coerce.number().min(0).max(1).transform(String),
+  points: z.coerce.number().min(0).transform(String),
+  fees: z.coerce.number().min(0).transform(String),
+  matrix: z.object({
+    ficoLtvGrid: z.array(z.object({
+      minFico: z.number().int().min(300).max(850),
+      maxLtv: z.number().min(0).max(1),
+      loanPurpose: z.string().optional(),
+    })).min(1),
+    loanAmountBands: z.array(z.object({
+      minAmount: z.number().min(0),
+      maxAmount: z.number().positive(),
+      maxLtv: z.number().min(0).max(1).optional(),
+    })).min(1),
+    eligiblePropertyTypes: z.array(z.string()).default([]),
+    eligibleStates: z.array(z.string().length(2)).default([]),
+    dscrMinByLtv: z.array(z.object({
+      maxLtv: z.number().min(0).max(1),
+      minDscr: z.number().min(0),
+    })).default([]),
+    allowsFirstTimeInvestors: z.boolean().default(true),
+    supportsExpeditedClosing: z.boolean().default(true),
+  }),
+}).omit({
+  id: true,
+  updatedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+
+export const insertFeeTemplateSchema = createInsertSchema(feeTemplates, {
+  name: z.string().min(1),
+  fees: z.array(z.object({
+    code: z.string().min(1),
+    description: z.string().min(1),
+    section: z.enum(['A', 'B', 'C', 'E', 'F', 'G', 'H']),
+    calculation: z.enum(['flat', 'percent_of_loan', 'prepaid_interest', 'insurance_months', 'tax_months']),
+    amount: z.number().min(0).optional(),
+    percent: z.number().min(0).optional(),
+    months: z.number().min(0).optional(),
+    paidTo: z.string().optional(),
+  })).min(1),
+}).omit({
+  id: true,
+  organizationId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLoanScenarioSchema = createInsertSchema(loanScenarios, {
+  name: z.string().min(1),
+  deal: z.object({
+    loanPurpose: z.enum(['purchase', 'refinance', 'cash_out']),
+    propertyValue: z.number().positive(),
+    purchasePrice: z.number().positive().optional(),
+    payoffAmount: z.number().min(0).optional(),
+    creditScore: z.number().int().min(300).max(850),
+    propertyType: z.string().min(1),
+    state: z.string().length(2),
+    borrowerExperience: z.string().min(1),
+    timeline: z.string().min(1),
+    monthlyRent: z.number().min(0).optional(),
+    annualTaxes: z.number().min(0).optional(),
+    annualInsurance: z.number().min(0).optional(),
+    monthlyHoa: z.number().min(0).optional(),
+    shortTermRental: z.boolean().optional(),
+    address: z.string().optional(),
+    city: z.string().optional(),
+    zipCode: z.string().optional(),
+  }),
+  structures: z.array(z.object({
+    id: z.string().min(1),
+    label: z.string().min(1),
+    loanType: z.string().min(1),
+    ltv: z.number().gt(0).max(1),
+    interestOnly: z.boolean(),
+    termYears: z.number().int().min(1).max(40),
+    prepaymentPenalty: z.enum(['5_4_3_2_1', '3_2_1', '2_1', '1', 'none']),
+    brokerCompPoints: z.number().min(0).optional(),
+    guidelineId: z.number().int().positive().optional(),
+  })).min(1).max(6),
+}).omit({
+  id: true,
+  organizationId: true,
+  results: true,
+  evaluatedAt: true,
+  convertedStructureId: true,
+  convertedAt: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCommunicationConsentSchema = createInsertSchema(communicationConsents, {
+  address: z.string().trim().min(3),
+  channel: z.enum(['sms', 'voice', 'email']),
+  action: z.enum(['opt_in', 'opt_out']),
+  source: z.enum(['web_form', 'sms_keyword', 'manual', 'import', 'api']),
+}).omit({
+  id: true,
+  organizationId: true,
+  recordedBy: true,
+  createdAt: true,
+});
+
+export const insertMailboxSchema = createInsertSchema(mailboxes, {
+  provider: z.enum(['imap', 'gmail', 'exchange']),
+  address: z.string().trim().toLowerCase().email(),
+  settings: z.object({
+    host: z.string().min(1).optional(),
+    port: z.number().int().positive().optional(),
+    secure: z.boolean().optional(),
+    username: z.string().min(1).optional(),
+    folder: z.string().min(1).optional(),
+  }).optional(),
+}).omit({
+  id: true,
+  organizationId: true,
+  syncCursor: true,
+  lastSyncedAt: true,
+  lastError: true,
+  createdAt: true,
+});
+
+export const insertLoanConditionSchema = createInsertSchema(loanConditions, {
+  category: z.enum(['prior_to_doc', 'prior_to_funding', 'post_closing']),
+  title: z.string().min(1),
+  dueDate: z.coerce.date().optional().nullable(),
+}).omit({
+  id: true,
+  status: true,
+  source: true,
+  underwritingDecisionId: true,
+  history: true,
+  submittedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewNotes: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types
 export type Organization = typeof organizations.$inferSelect;
 export type User = typeof users.$inferSelect;
+export type UserRole = typeof userRoles.$inferSelect;
 export type Borrower = typeof borrowers.$inferSelect;
 export type Property = typeof properties.$inferSelect;
 export type LoanApplication = typeof loanApplications.$inferSelect;
@@ -644,6 +1416,25 @@ export type Notification = typeof notifications.$inferSelect;
 export type Template = typeof templates.$inferSelect;
 export type CallLog = typeof callLogs.$inferSelect;
 export type Contact = typeof contacts.$inferSelect;
+export type LoanStatusHistoryEntry = typeof loanStatusHistory.$inferSelect;
+export type UnderwritingDecision = typeof underwritingDecisions.$inferSelect;
+export type Workflow = typeof workflows.$inferSelect;
+export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
+export type LenderGuideline = typeof lenderGuidelines.$inferSelect;
+export type RateLock = typeof rateLocks.$inferSelect;
+export type LoanCondition = typeof loanConditions.$inferSelect;
+export type FeeTemplate = typeof feeTemplates.$inferSelect;
+export type FeeWorksheet = typeof feeWorksheets.$inferSelect;
+export type TridApplication = typeof tridApplications.$inferSelect;
+export type TridChangedCircumstance = typeof tridChangedCircumstances.$inferSelect;
+export type TridDisclosure = typeof tridDisclosures.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type LoanScenario = typeof loanScenarios.$inferSelect;
+export type CommunicationConsent = typeof communicationConsents.$inferSelect;
+export type SmsThread = typeof smsThreads.$inferSelect;
+export type SmsMessage = typeof smsMessages.$inferSelect;
+export type Mailbox = typeof mailboxes.$inferSelect;
+export type EmailMessage = typeof emailMessages.$inferSelect;
 
 // Customer types
 export type CustomerUser = typeof customerUsers.$inferSelect;
@@ -651,6 +1442,9 @@ export type CustomerSession = typeof customerSessions.$inferSelect;
 export type CustomerLoanApplication = typeof customerLoanApplications.$inferSelect;
 export type CustomerDocument = typeof customerDocuments.$inferSelect;
 export type DocumentRequirement = typeof documentRequirements.$inferSelect;
+export type DocumentReminder = typeof documentReminders.$inferSelect;
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type LoanPortalSession = typeof loanPortalSessions.$inferSelect;
 
 export type InsertBorrower = z.infer<typeof insertBorrowerSchema>;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
@@ -661,6 +1455,14 @@ export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type InsertCallLog = z.infer<typeof insertCallLogSchema>;
 export type InsertContact = z.infer<typeof insertContactSchema>;
+export type InsertWorkflow = z.infer<typeof insertWorkflowSchema>;
+export type WorkflowTrigger = z.infer<typeof workflowTriggerSchema>;
+export type InsertLenderGuideline = z.infer<typeof insertLenderGuidelineSchema>;
+export type InsertLoanCondition = z.infer<typeof insertLoanConditionSchema>;
+export type InsertFeeTemplate = z.infer<typeof insertFeeTemplateSchema>;
+export type InsertLoanScenario = z.infer<typeof insertLoanScenarioSchema>;
+export type InsertCommunicationConsent = z.infer<typeof insertCommunicationConsentSchema>;
+export type InsertMailbox = z.infer<typeof insertMailboxSchema>;
 
 // Customer insert types
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
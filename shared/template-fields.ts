@@ -0,0 +1,85 @@
+// Merge fields available to email and SMS templates, shared by the server's template engine and the template editor
+
+export type TemplateFieldType = 'text' | 'number' | 'currency' | 'percent' | 'date' | 'boolean' | 'list';
+
+export interface TemplateFieldDefinition {
+  key: string; // path used in templates, e.g. {{borrower.firstName}}
+  label: string;
+  type: TemplateFieldType;
+  itemFields?: TemplateFieldDefinition[]; // lists only: fields of each item inside {{#each}}
+}
+
+export const TEMPLATE_FIELDS: TemplateFieldDefinition[] = [
+  { key: 'borrower.firstName', label: 'Borrower first name', type: 'text' },
+  { key: 'borrower.lastName', label: 'Borrower last name', type: 'text' },
+  { key: 'borrower.fullName', label: 'Borrower full name', type: 'text' },
+  { key: 'borrower.email', label: 'Borrower email', type: 'text' },
+  { key: 'borrower.phone', label: 'Borrower phone', type: 'text' },
+  { key: 'borrower.company', label: 'Borrower company', type: 'text' },
+
+  { key: 'property.address', label: 'Property street address', type: 'text' },
+  { key: 'property.city', label: 'Property city', type: 'text' },
+  { key: 'property.state', label: 'Property state', type: 'text' },
+  { key: 'property.zipCode', label: 'Property ZIP code', type: 'text' },
+  { key: 'property.fullAddress', label: 'Property full address', type: 'text' },
+  { key: 'property.type', label: 'Property type', type: 'text' },
+  { key: 'property.value', label: 'Property value', type: 'currency' },
+  { key: 'property.purchasePrice', label: 'Purchase price', type: 'currency' },
+
+  { key: 'loan.id', label: 'Application id', type: 'text' },
+  { key: 'loan.number', label: 'Application number (LA-123)', type: 'text' },
+  { key: 'loan.type', label: 'Loan type', type: 'text' },
+  { key: 'loan.amount', label: 'Requested amount', type: 'currency' },
+  { key: 'loan.status', label: 'Loan status', type: 'text' },
+  { key: 'loan.interestRate', label: 'Interest rate', type: 'percent' },
+  { key: 'loan.termMonths', label: 'Term (months)', type: 'number' },
+  { key: 'loan.ltv', label: 'Loan to value', type: 'percent' },
+  { key: 'loan.dscr', label: 'DSCR', type: 'number' },
+  { key: 'loan.purpose', label: 'Loan purpose', type: 'text' },
+  { key: 'loan.createdAt', label: 'Application date', type: 'date' },
+
+  { key: 'loanOfficer.fullName', label: 'Loan officer name', type: 'text' },
+  { key: 'loanOfficer.firstName', label: 'Loan officer first name', type: 'text' },
+  { key: 'loanOfficer.email', label: 'Loan officer email', type: 'text' },
+  { key: 'loanOfficer.phone', label: 'Loan officer phone', type: 'text' },
+  { key: 'loanOfficer.nmlsId', label: 'Loan officer NMLS id', type: 'text' },
+
+  { key: 'portal.link', label: 'Borrower portal link', type: 'text' },
+
+  {
+    key: 'documents.missing',
+    label: 'Missing required documents',
+    type: 'list',
+    itemFields: [
+      { key: 'name', label: 'Document name', type: 'text' },
+      { key: 'category', label: 'Document category', type: 'text' },
+      { key: 'description', label: 'Description', type: 'text' },
+    ],
+  },
+  { key: 'documents.missingCount', label: 'Number of missing documents', type: 'number' },
+
+  { key: 'organization.name', label: 'Company name', type: 'text' },
+  { key: 'organization.website', label: 'Company website', type: 'text' },
+  { key: 'organization.nmls', label: 'Company NMLS id', type: 'text' },
+];
+
+// Single-brace placeholders from templates written before the merge field catalog; {firstName} renders as {{borrower.firstName}}
+export const LEGACY_TEMPLATE_FIELDS: Record<string, string> = {
+  borrowerName: 'borrower.fullName',
+  firstName: 'borrower.firstName',
+  lastName: 'borrower.lastName',
+  applicationId: 'loan.id',
+  loanType: 'loan.type',
+  requestedAmount: 'loan.amount',
+  status: 'loan.status',
+  propertyAddress: 'property.address',
+  portalLink: 'portal.link',
+  loanOfficer: 'loanOfficer.fullName',
+  loanOfficerName: 'loanOfficer.fullName',
+  loanOfficerPhone: 'loanOfficer.phone',
+  rate: 'loan.interestRate',
+};
+
+export function getTemplateField(key: string): TemplateFieldDefinition | undefined {
+  return TEMPLATE_FIELDS.find(field => field.key === key);
+}